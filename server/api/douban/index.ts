@@ -30,6 +30,34 @@ interface DoubanRexxarItem {
   type: 'movie' | 'tv';
 }
 
+export interface DoubanSubject {
+  id: string;
+  title: string;
+  original_title?: string;
+  year?: string;
+  is_tv?: boolean;
+  type?: string;
+  rating?: {
+    value: number;
+  };
+}
+
+export interface DoubanIdatabaseItem {
+  douban_id: string;
+  tmdb_id?: number;
+  tmdb_media_type?: 'movie' | 'tv';
+  rating?: number;
+}
+
+interface DoubanSuggestItem {
+  id: string;
+  title: string;
+  sub_title?: string;
+  year?: string;
+  type: string;
+  episode?: string;
+}
+
 class DoubanAPI extends ExternalAPI {
   constructor() {
     super(
@@ -476,32 +504,128 @@ class DoubanAPI extends ExternalAPI {
     }
   }
 
-  public async getRating(
-    tmdbId: number,
-    mediaType: 'movie' | 'tv'
-  ): Promise<{ id?: string; rating: number } | undefined> {
+  public async getSubject(doubanId: string): Promise<DoubanSubject> {
     try {
-      const response = await axios.get(
+      return await this.get<DoubanSubject>(`/movie/${doubanId}`);
+    } catch (e) {
+      // Series are only available from the tv endpoint for some subjects
+      try {
+        return await this.get<DoubanSubject>(`/tv/${doubanId}`);
+      } catch (e) {
+        throw new Error(
+          `[Douban] Failed to fetch subject ${doubanId}: ${e.message}`
+        );
+      }
+    }
+  }
+
+  /**
+   * Searches Douban subjects by title, which matches Chinese titles that
+   * TMDB does not always know about. People and other non-media results are
+   * left out.
+   */
+  public async searchSubjects(query: string): Promise<DoubanSubject[]> {
+    try {
+      const response = await this.get<DoubanSuggestItem[]>(
+        'https://movie.douban.com/j/subject_suggest',
+        {
+          params: { q: query },
+        }
+      );
+
+      return (response || [])
+        .filter((item) => item.type === 'movie')
+        .map((item) => ({
+          id: item.id,
+          title: item.title,
+          original_title: item.sub_title,
+          year: item.year,
+          is_tv: !!item.episode,
+        }));
+    } catch (e) {
+      throw new Error(`[Douban] Failed to search subjects: ${e.message}`);
+    }
+  }
+
+  /**
+   * Finds the TMDB entry for a Douban subject by searching its Chinese title
+   * and falling back to the original title.
+   */
+  public async matchSubject(
+    subject: DoubanSubject
+  ): Promise<TmdbMovieResult | TmdbTvResult | undefined> {
+    const tmdb = new TheMovieDb();
+    const year = subject.year ? parseInt(subject.year) : undefined;
+    const isTv = subject.is_tv ?? subject.type === 'tv';
+    const titles = [subject.title, subject.original_title].filter(
+      (title, index, all): title is string =>
+        !!title && all.indexOf(title) === index
+    );
+
+    for (const title of titles) {
+      for (const searchYear of year ? [year, undefined] : [undefined]) {
+        const matchedResult = isTv
+          ? (
+              await tmdb.searchTvShows({
+                query: title,
+                language: 'zh-CN',
+                page: 1,
+                year: searchYear,
+              })
+            ).results[0]
+          : (
+              await tmdb.searchMovies({
+                query: title,
+                language: 'zh-CN',
+                page: 1,
+                year: searchYear,
+              })
+            ).results[0];
+
+        if (matchedResult) {
+          matchedResult.doubanId = subject.id;
+          matchedResult.doubanRating = subject.rating?.value;
+          return isTv
+            ? { ...(matchedResult as TmdbTvResult), media_type: 'tv' }
+            : { ...(matchedResult as TmdbMovieResult), media_type: 'movie' };
+        }
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Looks up an entry in the Douban ID database by either its TMDB or its
+   * Douban ID. Returns null when the database has no such entry, and throws
+   * when the lookup itself fails so that an outage is not mistaken for a
+   * missing subject.
+   */
+  public async getIdatabaseItem(
+    params: { tmdbId: number; mediaType: 'movie' | 'tv' } | { doubanId: string }
+  ): Promise<DoubanIdatabaseItem | null> {
+    try {
+      const response = await axios.get<DoubanIdatabaseItem[]>(
         'https://douban-idatabase.kfstorm.com/api/item',
         {
-          params: {
-            tmdb_id: tmdbId,
-            tmdb_media_type: mediaType,
-          },
+          params:
+            'doubanId' in params
+              ? { douban_id: params.doubanId }
+              : {
+                  tmdb_id: params.tmdbId,
+                  tmdb_media_type: params.mediaType,
+                },
           timeout: 5000,
         }
       );
 
-      if (response.data && response.data.length > 0) {
-        return {
-          id: response.data[0].douban_id,
-          rating: response.data[0].rating,
-        };
-      }
-      return undefined;
+      return response.data && response.data.length > 0
+        ? response.data[0]
+        : null;
     } catch (e) {
-      // Fail silently
-      return undefined;
+      throw new Error(
+        `[Douban] Failed to look up Douban ID database: ${e.message}`
+      );
     }
   }
 }
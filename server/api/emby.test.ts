@@ -0,0 +1,316 @@
+import EmbyAPI from '@server/api/emby';
+import { MediaServerType } from '@server/constants/server';
+import { getJellyfinClient } from '@server/utils/getJellyfinClient';
+import assert from 'node:assert/strict';
+import type { IncomingMessage, Server, ServerResponse } from 'node:http';
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { after, before, beforeEach, describe, it } from 'node:test';
+
+interface RecordedRequest {
+  method?: string;
+  url?: string;
+  headers: IncomingMessage['headers'];
+  body?: Record<string, unknown>;
+}
+
+type StubHandler = (
+  req: RecordedRequest
+) => { status?: number; body?: unknown } | undefined;
+
+const USERS_FIXTURE = [
+  {
+    Name: 'admin',
+    Id: 'user-admin',
+    Policy: { IsAdministrator: true, IsDisabled: false },
+  },
+  {
+    Name: 'disabled',
+    Id: 'user-disabled',
+    Policy: { IsAdministrator: false, IsDisabled: true },
+  },
+  {
+    Name: 'friend',
+    Id: 'user-friend',
+    Policy: { IsAdministrator: false },
+  },
+];
+
+const MEDIA_FOLDERS_FIXTURE = {
+  Items: [
+    {
+      Name: 'Movies',
+      Id: 'lib-movies',
+      Type: 'CollectionFolder',
+      CollectionType: 'movies',
+    },
+    {
+      Name: 'Shows',
+      Id: 'lib-shows',
+      Type: 'CollectionFolder',
+      CollectionType: 'tvshows',
+    },
+    // Mixed content libraries have no collection type
+    { Name: 'Mixed', Id: 'lib-mixed', Type: 'CollectionFolder' },
+    {
+      Name: 'Music',
+      Id: 'lib-music',
+      Type: 'CollectionFolder',
+      CollectionType: 'music',
+    },
+    {
+      Name: 'Playlists',
+      Id: 'lib-playlists',
+      Type: 'UserView',
+      CollectionType: 'movies',
+    },
+  ],
+};
+
+const LIBRARY_ITEMS_FIXTURE = {
+  Items: [
+    { Name: 'The Matrix', Id: 'item-matrix', Type: 'Movie' },
+    {
+      Name: 'Upcoming Movie',
+      Id: 'item-virtual',
+      Type: 'Movie',
+      LocationType: 'Virtual',
+    },
+  ],
+};
+
+const ITEM_FIXTURE = {
+  Name: 'The Matrix',
+  Id: 'item-matrix',
+  Type: 'Movie',
+  ProviderIds: {
+    tmdb: '603',
+    IMDB: 'tt0133093',
+    TvDb: '1234',
+    AniDb: '42',
+  },
+};
+
+describe('EmbyAPI', () => {
+  let server: Server;
+  let host: string;
+  let requests: RecordedRequest[];
+  let handler: StubHandler;
+
+  before(async () => {
+    server = createServer((req: IncomingMessage, res: ServerResponse) => {
+      let data = '';
+
+      req.on('data', (chunk) => (data += chunk));
+      req.on('end', () => {
+        const recorded: RecordedRequest = {
+          method: req.method,
+          url: req.url,
+          headers: req.headers,
+          body: data ? JSON.parse(data) : undefined,
+        };
+        requests.push(recorded);
+
+        const response = handler(recorded) ?? { status: 404 };
+
+        res.writeHead(response.status ?? 200, {
+          'Content-Type': 'application/json',
+        });
+        res.end(
+          response.body !== undefined ? JSON.stringify(response.body) : ''
+        );
+      });
+    });
+
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve)
+    );
+    host = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    handler = () => undefined;
+  });
+
+  it('authenticates with the Emby token header', async () => {
+    handler = () => ({ body: USERS_FIXTURE });
+
+    await new EmbyAPI(host, 'api-key').getUsers();
+
+    assert.equal(requests[0].headers['x-emby-token'], 'api-key');
+  });
+
+  it('leaves out disabled users', async () => {
+    handler = ({ url }) =>
+      url === '/Users' ? { body: USERS_FIXTURE } : undefined;
+
+    const { users } = await new EmbyAPI(host, 'api-key').getUsers();
+
+    assert.deepEqual(
+      users.map((user) => user.Id),
+      ['user-admin', 'user-friend']
+    );
+  });
+
+  it('sets the password of new users in a separate step', async () => {
+    handler = ({ url }) =>
+      url === '/Users/New'
+        ? { body: { Name: 'newuser', Id: 'user-new', Policy: {} } }
+        : { status: 204 };
+
+    const user = await new EmbyAPI(host, 'api-key').createUser(
+      'newuser',
+      'secret-password'
+    );
+
+    assert.equal(user.Id, 'user-new');
+    assert.deepEqual(
+      requests.map(({ method, url, body }) => ({ method, url, body })),
+      [
+        { method: 'POST', url: '/Users/New', body: { Name: 'newuser' } },
+        {
+          method: 'POST',
+          url: '/Users/user-new/Password',
+          body: { Id: 'user-new', ResetPassword: true },
+        },
+        {
+          method: 'POST',
+          url: '/Users/user-new/Password',
+          body: { Id: 'user-new', CurrentPw: '', NewPw: 'secret-password' },
+        },
+      ]
+    );
+  });
+
+  it('fails to create a user if the password could not be set', async () => {
+    handler = ({ url }) =>
+      url === '/Users/New'
+        ? { body: { Name: 'newuser', Id: 'user-new', Policy: {} } }
+        : { status: 500 };
+
+    await assert.rejects(
+      new EmbyAPI(host, 'api-key').createUser('newuser', 'secret-password')
+    );
+  });
+
+  it('maps provider IDs onto the keys used by Jellyfin', async () => {
+    handler = ({ url }) =>
+      url?.startsWith('/Users/user-admin/Items?')
+        ? { body: { Items: [ITEM_FIXTURE] } }
+        : undefined;
+
+    const emby = new EmbyAPI(host, 'api-key');
+    emby.setUserId('user-admin');
+    const item = await emby.getItemData('item-matrix');
+
+    assert.deepEqual(item?.ProviderIds, {
+      Tmdb: '603',
+      Imdb: 'tt0133093',
+      Tvdb: '1234',
+    });
+  });
+
+  it('maps the MovieDb provider ID onto the TMDB ID', async () => {
+    handler = () => ({
+      body: { Items: [{ ...ITEM_FIXTURE, ProviderIds: { MovieDb: '603' } }] },
+    });
+
+    const item = await new EmbyAPI(host, 'api-key').getItemData('item-matrix');
+
+    assert.deepEqual(item?.ProviderIds, { Tmdb: '603' });
+  });
+
+  for (const status of [400, 404]) {
+    it(`treats a ${status} response as a missing item if allowed`, async () => {
+      handler = () => ({ status });
+
+      const emby = new EmbyAPI(host, 'api-key');
+
+      assert.equal(
+        await emby.getItemData('item-removed', { allowMissing: true }),
+        undefined
+      );
+      await assert.rejects(emby.getItemData('item-removed'));
+    });
+  }
+
+  it('still fails on server errors if missing items are allowed', async () => {
+    handler = () => ({ status: 500 });
+
+    await assert.rejects(
+      new EmbyAPI(host, 'api-key').getItemData('item-matrix', {
+        allowMissing: true,
+      })
+    );
+  });
+
+  it('leaves virtual items out of the library contents', async () => {
+    handler = ({ url }) =>
+      url?.startsWith('/Users/user-admin/Items?')
+        ? { body: LIBRARY_ITEMS_FIXTURE }
+        : undefined;
+
+    const emby = new EmbyAPI(host, 'api-key');
+    emby.setUserId('user-admin');
+    const items = await emby.getLibraryContents('lib-movies');
+
+    assert.deepEqual(
+      items.map((item) => item.Id),
+      ['item-matrix']
+    );
+    assert.match(requests[0].url ?? '', /ParentId=lib-movies/);
+  });
+
+  it('lists recently added items for the scanning user', async () => {
+    handler = ({ url }) =>
+      url?.startsWith('/Users/user-admin/Items/Latest?')
+        ? { body: LIBRARY_ITEMS_FIXTURE.Items.slice(0, 1) }
+        : undefined;
+
+    const emby = new EmbyAPI(host, 'api-key');
+    emby.setUserId('user-admin');
+    const items = await emby.getRecentlyAdded('lib-movies');
+
+    assert.deepEqual(
+      items.map((item) => item.Id),
+      ['item-matrix']
+    );
+  });
+
+  it('is used to scan Emby servers', () => {
+    assert.ok(
+      getJellyfinClient(host, 'api-key', null, MediaServerType.EMBY) instanceof
+        EmbyAPI
+    );
+    assert.ok(
+      !(
+        getJellyfinClient(
+          host,
+          'api-key',
+          null,
+          MediaServerType.JELLYFIN
+        ) instanceof EmbyAPI
+      )
+    );
+  });
+
+  it('lists movie, show and mixed content libraries', async () => {
+    handler = ({ url }) =>
+      url === '/Library/MediaFolders'
+        ? { body: MEDIA_FOLDERS_FIXTURE }
+        : undefined;
+
+    const libraries = await new EmbyAPI(host, 'api-key').getLibraries();
+
+    assert.deepEqual(libraries, [
+      { key: 'lib-movies', title: 'Movies', type: 'movie', agent: 'emby' },
+      { key: 'lib-shows', title: 'Shows', type: 'show', agent: 'emby' },
+      { key: 'lib-mixed', title: 'Mixed', type: 'show', agent: 'emby' },
+    ]);
+  });
+});
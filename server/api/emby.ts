@@ -0,0 +1,217 @@
+import type {
+  JellyfinItemsReponse,
+  JellyfinLibrary,
+  JellyfinLibraryItem,
+  JellyfinLibraryItemExtended,
+  JellyfinMediaFolder,
+  JellyfinUserListResponse,
+  JellyfinUserResponse,
+} from '@server/api/jellyfin';
+import JellyfinAPI from '@server/api/jellyfin';
+import { ApiErrorCode } from '@server/constants/error';
+import logger from '@server/logger';
+import { ApiError } from '@server/types/error';
+
+// Emby libraries which are set up for mixed content have no collection type
+const SUPPORTED_COLLECTION_TYPES = ['movies', 'tvshows', undefined];
+
+/**
+ * Emby reports provider IDs with whatever casing the metadata provider used,
+ * so they are mapped onto the keys which Jellyfin uses.
+ */
+const normalizeProviderIds = (
+  providerIds: Record<string, string | undefined> = {}
+): JellyfinLibraryItemExtended['ProviderIds'] => {
+  const normalized: JellyfinLibraryItemExtended['ProviderIds'] = {};
+
+  Object.entries(providerIds).forEach(([key, value]) => {
+    switch (key.toLowerCase()) {
+      case 'tmdb':
+      case 'moviedb':
+        normalized.Tmdb = value;
+        break;
+      case 'imdb':
+        normalized.Imdb = value;
+        break;
+      case 'tvdb':
+        normalized.Tvdb = value;
+        break;
+    }
+  });
+
+  return normalized;
+};
+
+class EmbyAPI extends JellyfinAPI {
+  constructor(
+    embyHost: string,
+    authToken?: string | null,
+    deviceId?: string | null
+  ) {
+    super(embyHost, authToken, deviceId);
+
+    // API keys are only accepted through Emby's own token header
+    if (authToken) {
+      this.axios.defaults.headers.common['X-Emby-Token'] = authToken;
+    }
+  }
+
+  public async getUsers(): Promise<JellyfinUserListResponse> {
+    const { users } = await super.getUsers();
+
+    return {
+      users: users.filter((user) => !user.Policy?.IsDisabled),
+    };
+  }
+
+  public async createUser(
+    name: string,
+    password: string
+  ): Promise<JellyfinUserResponse> {
+    try {
+      // Emby ignores the password of new users, so it is set afterwards
+      const user = await this.post<JellyfinUserResponse>('/Users/New', {
+        Name: name,
+      });
+
+      await this.setUserPassword(user.Id, password);
+
+      return user;
+    } catch (e) {
+      logger.error(
+        `Something went wrong while creating an account on the Emby server: ${e.message}`,
+        { label: 'Emby API', error: e.response?.status }
+      );
+
+      throw new ApiError(e.response?.status, ApiErrorCode.Unknown);
+    }
+  }
+
+  public async setUserPassword(
+    userId: string,
+    password: string
+  ): Promise<void> {
+    try {
+      // Emby always checks the current password, so it is cleared first
+      await this.post(`/Users/${userId}/Password`, {
+        Id: userId,
+        ResetPassword: true,
+      });
+      await this.post(`/Users/${userId}/Password`, {
+        Id: userId,
+        CurrentPw: '',
+        NewPw: password,
+      });
+    } catch (e) {
+      logger.error(
+        `Something went wrong while changing a password on the Emby server: ${e.message}`,
+        { label: 'Emby API', error: e.response?.status }
+      );
+
+      throw new ApiError(e.response?.status, ApiErrorCode.Unknown);
+    }
+  }
+
+  protected mapLibraries(
+    mediaFolders: JellyfinMediaFolder[]
+  ): JellyfinLibrary[] {
+    return mediaFolders
+      .filter(
+        (Item) =>
+          Item.Type === 'CollectionFolder' &&
+          SUPPORTED_COLLECTION_TYPES.includes(Item.CollectionType)
+      )
+      .map((Item) => ({
+        key: Item.Id,
+        title: Item.Name,
+        type: Item.CollectionType === 'movies' ? 'movie' : 'show',
+        agent: 'emby',
+      }));
+  }
+
+  public async getLibraryContents(id: string): Promise<JellyfinLibraryItem[]> {
+    try {
+      const libraryItemsResponse = await this.get<JellyfinItemsReponse>(
+        this.userId ? `/Users/${this.userId}/Items` : '/Items',
+        {
+          params: {
+            SortBy: 'SortName',
+            SortOrder: 'Ascending',
+            IncludeItemTypes: 'Series,Movie',
+            Recursive: true,
+            ParentId: id,
+            CollapseBoxSetItems: false,
+          },
+        }
+      );
+
+      return libraryItemsResponse.Items.filter(
+        (item) => item.LocationType !== 'Virtual'
+      );
+    } catch (e) {
+      logger.error(
+        `Something went wrong while getting library content from the Emby server: ${e.message}`,
+        { label: 'Emby API', error: e.response?.status }
+      );
+
+      throw new ApiError(e.response?.status, ApiErrorCode.InvalidAuthToken);
+    }
+  }
+
+  public async getRecentlyAdded(id: string): Promise<JellyfinLibraryItem[]> {
+    try {
+      // Emby only lists the latest items for a user
+      return await this.get<JellyfinLibraryItem[]>(
+        `/Users/${this.userId}/Items/Latest`,
+        { params: { Limit: 12, ParentId: id } }
+      );
+    } catch (e) {
+      logger.error(
+        `Something went wrong while getting library content from the Emby server: ${e.message}`,
+        { label: 'Emby API', error: e.response?.status }
+      );
+
+      throw new ApiError(e.response?.status, ApiErrorCode.InvalidAuthToken);
+    }
+  }
+
+  public async getItemData(
+    id: string,
+    { allowMissing = false }: { allowMissing?: boolean } = {}
+  ): Promise<JellyfinLibraryItemExtended | undefined> {
+    try {
+      const itemResponse = await this.get<JellyfinItemsReponse>(
+        this.userId ? `/Users/${this.userId}/Items` : '/Items',
+        {
+          params: {
+            Ids: id,
+            Fields: 'ProviderIds,MediaSources,Width,Height,IsHD,DateCreated',
+          },
+        }
+      );
+      const item = itemResponse.Items?.[0];
+
+      return item
+        ? { ...item, ProviderIds: normalizeProviderIds(item.ProviderIds) }
+        : undefined;
+    } catch (e) {
+      // Emby rejects the IDs of items which no longer exist with a client
+      // error instead of returning an empty list
+      if (
+        allowMissing &&
+        (e.response?.status === 400 || e.response?.status === 404)
+      ) {
+        return undefined;
+      }
+
+      logger.error(
+        `Something went wrong while getting library content from the Emby server: ${e.message}`,
+        { label: 'Emby API', error: e.response?.status }
+      );
+
+      throw new ApiError(e.response?.status, ApiErrorCode.InvalidAuthToken);
+    }
+  }
+}
+
+export default EmbyAPI;
@@ -1,9 +1,6 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import ExternalAPI from '@server/api/externalapi';
 import { ApiErrorCode } from '@server/constants/error';
-import { MediaServerType } from '@server/constants/server';
-import availabilitySync from '@server/lib/availabilitySync';
-import { getSettings } from '@server/lib/settings';
 import logger from '@server/logger';
 import { ApiError } from '@server/types/error';
 import { getAppVersion } from '@server/utils/appVersion';
@@ -18,6 +15,9 @@ export interface JellyfinUserResponse {
   };
   Policy: {
     IsAdministrator: boolean;
+    IsDisabled?: boolean;
+    EnableAllFolders?: boolean;
+    EnabledFolders?: string[];
   };
   PrimaryImageTag?: string;
 }
@@ -48,7 +48,7 @@ export interface JellyfinUserListResponse {
   users: JellyfinUserResponse[];
 }
 
-interface JellyfinMediaFolder {
+export interface JellyfinMediaFolder {
   Name: string;
   Id: string;
   Type: string;
@@ -118,15 +118,13 @@ export interface JellyfinItemsReponse {
 }
 
 class JellyfinAPI extends ExternalAPI {
-  private userId?: string;
-  private mediaServerType: MediaServerType;
+  protected userId?: string;
 
   constructor(
     jellyfinHost: string,
     authToken?: string | null,
     deviceId?: string | null
   ) {
-    const settings = getSettings();
     const safeDeviceId =
       deviceId && deviceId.length > 0
         ? deviceId
@@ -150,8 +148,6 @@ class JellyfinAPI extends ExternalAPI {
         },
       }
     );
-
-    this.mediaServerType = settings.main.mediaServerType;
   }
 
   public async login(
@@ -274,6 +270,95 @@ class JellyfinAPI extends ExternalAPI {
     }
   }
 
+  public async createUser(
+    name: string,
+    password: string
+  ): Promise<JellyfinUserResponse> {
+    try {
+      return await this.post<JellyfinUserResponse>('/Users/New', {
+        Name: name,
+        Password: password,
+      });
+    } catch (e) {
+      logger.error(
+        `Something went wrong while creating an account on the Jellyfin server: ${e.message}`,
+        { label: 'Jellyfin API', error: e.response?.status }
+      );
+
+      throw new ApiError(e.response?.status, ApiErrorCode.Unknown);
+    }
+  }
+
+  public async getUserById(userId: string): Promise<JellyfinUserResponse> {
+    try {
+      return await this.get<JellyfinUserResponse>(`/Users/${userId}`);
+    } catch (e) {
+      logger.error(
+        `Something went wrong while getting the account from the Jellyfin server: ${e.message}`,
+        { label: 'Jellyfin API', error: e.response?.status }
+      );
+
+      throw new ApiError(e.response?.status, ApiErrorCode.Unknown);
+    }
+  }
+
+  public async setUserPassword(
+    userId: string,
+    password: string
+  ): Promise<void> {
+    try {
+      // Administrators can change passwords without the current password
+      await this.post(`/Users/${userId}/Password`, { NewPw: password });
+    } catch (e) {
+      logger.error(
+        `Something went wrong while changing a password on the Jellyfin server: ${e.message}`,
+        { label: 'Jellyfin API', error: e.response?.status }
+      );
+
+      throw new ApiError(e.response?.status, ApiErrorCode.Unknown);
+    }
+  }
+
+  public async deleteUser(userId: string): Promise<void> {
+    try {
+      await this.axios.delete(`/Users/${userId}`);
+    } catch (e) {
+      logger.error(
+        `Something went wrong while deleting an account on the Jellyfin server: ${e.message}`,
+        { label: 'Jellyfin API', error: e.response?.status }
+      );
+
+      throw new ApiError(e.response?.status, ApiErrorCode.Unknown);
+    }
+  }
+
+  /**
+   * Limits the libraries the user can access to the given library IDs, or
+   * grants access to every library when no IDs are passed.
+   */
+  public async setLibraryAccess(
+    userId: string,
+    libraryIds: string[] | null
+  ): Promise<void> {
+    const user = await this.getUserById(userId);
+
+    try {
+      // The policy is replaced as a whole, so the other settings are sent back
+      await this.post(`/Users/${userId}/Policy`, {
+        ...user.Policy,
+        EnableAllFolders: libraryIds === null,
+        EnabledFolders: libraryIds ?? [],
+      });
+    } catch (e) {
+      logger.error(
+        `Something went wrong while updating the library access of an account on the Jellyfin server: ${e.message}`,
+        { label: 'Jellyfin API', error: e.response?.status }
+      );
+
+      throw new ApiError(e.response?.status, ApiErrorCode.Unknown);
+    }
+  }
+
   public async getLibraries(): Promise<JellyfinLibrary[]> {
     try {
       const mediaFolderResponse = await this.get<any>(`/Library/MediaFolders`);
@@ -302,7 +387,9 @@ class JellyfinAPI extends ExternalAPI {
     }
   }
 
-  private mapLibraries(mediaFolders: JellyfinMediaFolder[]): JellyfinLibrary[] {
+  protected mapLibraries(
+    mediaFolders: JellyfinMediaFolder[]
+  ): JellyfinLibrary[] {
     const excludedTypes = [
       'music',
       'books',
@@ -349,16 +436,8 @@ class JellyfinAPI extends ExternalAPI {
 
   public async getRecentlyAdded(id: string): Promise<JellyfinLibraryItem[]> {
     try {
-      const endpoint =
-        this.mediaServerType === MediaServerType.JELLYFIN
-          ? `/Items/Latest`
-          : `/Users/${this.userId}/Items/Latest`;
       const itemResponse = await this.get<any>(
-        `${endpoint}?Limit=12&ParentId=${id}${
-          this.mediaServerType === MediaServerType.JELLYFIN
-            ? `&userId=${this.userId ?? 'Me'}`
-            : ''
-        }`
+        `/Items/Latest?Limit=12&ParentId=${id}&userId=${this.userId ?? 'Me'}`
       );
 
       return itemResponse;
@@ -372,8 +451,13 @@ class JellyfinAPI extends ExternalAPI {
     }
   }
 
+  /**
+   * Returns the metadata of an item. With allowMissing, items which no longer
+   * exist on the server are returned as undefined instead of throwing.
+   */
   public async getItemData(
-    id: string
+    id: string,
+    { allowMissing = false }: { allowMissing?: boolean } = {}
   ): Promise<JellyfinLibraryItemExtended | undefined> {
     try {
       const itemResponse = await this.get<JellyfinItemsReponse>(`/Items`, {
@@ -385,10 +469,9 @@ class JellyfinAPI extends ExternalAPI {
 
       return itemResponse.Items?.[0];
     } catch (e) {
-      if (availabilitySync.running) {
-        if (e.response?.status === 500) {
-          return undefined;
-        }
+      // Jellyfin answers with a server error for items which no longer exist
+      if (allowMissing && e.response?.status === 500) {
+        return undefined;
       }
 
       logger.error(
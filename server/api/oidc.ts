@@ -0,0 +1,135 @@
+import cacheManager from '@server/lib/cache';
+import ExternalAPI from './externalapi';
+
+export interface OidcDiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  userinfo_endpoint?: string;
+  end_session_endpoint?: string;
+  jwks_uri: string;
+  scopes_supported?: string[];
+  response_types_supported: string[];
+  code_challenge_methods_supported?: string[];
+}
+
+export interface OidcTokenResponse {
+  access_token: string;
+  token_type: string;
+  id_token: string;
+  expires_in?: number;
+  refresh_token?: string;
+  scope?: string;
+}
+
+export interface OidcClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+  iat: number;
+  nonce?: string;
+  azp?: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  preferred_username?: string;
+  picture?: string;
+  [claim: string]: unknown;
+}
+
+class OidcAPI extends ExternalAPI {
+  private issuerUrl: string;
+
+  constructor(issuerUrl: string) {
+    super(
+      issuerUrl.replace(/\/+$/, ''),
+      {},
+      {
+        nodeCache: cacheManager.getCache('oidc').data,
+      }
+    );
+    this.issuerUrl = issuerUrl.replace(/\/+$/, '');
+  }
+
+  public async getDiscoveryDocument(): Promise<OidcDiscoveryDocument> {
+    const document = await this.get<OidcDiscoveryDocument>(
+      '/.well-known/openid-configuration'
+    );
+
+    if (!document.authorization_endpoint || !document.token_endpoint) {
+      throw new Error('Discovery document is missing required endpoints');
+    }
+
+    // OpenID Connect Discovery 4.3: the issuer must match the configured URL
+    if (document.issuer?.replace(/\/+$/, '') !== this.issuerUrl) {
+      throw new Error(
+        `Unexpected discovery document issuer: ${document.issuer}`
+      );
+    }
+
+    return document;
+  }
+
+  public async exchangeCode({
+    tokenEndpoint,
+    code,
+    codeVerifier,
+    redirectUri,
+    clientId,
+    clientSecret,
+  }: {
+    tokenEndpoint: string;
+    code: string;
+    codeVerifier: string;
+    redirectUri: string;
+    clientId: string;
+    clientSecret?: string;
+  }): Promise<OidcTokenResponse> {
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      code_verifier: codeVerifier,
+      redirect_uri: redirectUri,
+    });
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/x-www-form-urlencoded',
+    };
+
+    // Confidential clients authenticate with client_secret_basic, public
+    // clients only identify themselves and rely on PKCE
+    if (clientSecret) {
+      headers.Authorization = `Basic ${Buffer.from(
+        `${encodeURIComponent(clientId)}:${encodeURIComponent(clientSecret)}`
+      ).toString('base64')}`;
+    } else {
+      body.set('client_id', clientId);
+    }
+
+    const response = await this.axios.post<OidcTokenResponse>(
+      tokenEndpoint,
+      body.toString(),
+      { headers }
+    );
+
+    return response.data;
+  }
+
+  public async getUserInfo(
+    userinfoEndpoint: string,
+    accessToken: string
+  ): Promise<Partial<OidcClaims>> {
+    const response = await this.axios.get<Partial<OidcClaims>>(
+      userinfoEndpoint,
+      {
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+        },
+      }
+    );
+
+    return response.data;
+  }
+}
+
+export default OidcAPI;
@@ -46,6 +46,21 @@ export interface RootFolder {
 export interface QualityProfile {
   id: number;
   name: string;
+  cutoff?: number;
+}
+
+export interface QualityDefinition {
+  id: number;
+  title: string;
+  quality: {
+    id: number;
+    name: string;
+    resolution: number;
+  };
+  // Sizes are in megabytes per minute of runtime
+  minSize?: number | null;
+  maxSize?: number | null;
+  preferredSize?: number | null;
 }
 
 interface QueueItem {
@@ -139,6 +154,22 @@ class ServarrBase<QueueItemAppendT> extends ExternalAPI {
     }
   };
 
+  public getQualityDefinitions = async (): Promise<QualityDefinition[]> => {
+    try {
+      const data = await this.getRolling<QualityDefinition[]>(
+        `/qualitydefinition`,
+        undefined,
+        3600
+      );
+
+      return data;
+    } catch (e) {
+      throw new Error(
+        `[${this.apiName}] Failed to retrieve quality definitions: ${e.message}`
+      );
+    }
+  };
+
   public getRootFolders = async (): Promise<RootFolder[]> => {
     try {
       const data = await this.getRolling<RootFolder[]>(
@@ -8,5 +8,12 @@ export enum ApiErrorCode {
   SyncErrorGroupedFolders = 'SYNC_ERROR_GROUPED_FOLDERS',
   SyncErrorNoLibraries = 'SYNC_ERROR_NO_LIBRARIES',
   Unauthorized = 'UNAUTHORIZED',
+  InvalidOidcState = 'INVALID_OIDC_STATE',
+  OidcAuthorizationFailed = 'OIDC_AUTHORIZATION_FAILED',
+  OidcAccountAlreadyLinked = 'OIDC_ACCOUNT_ALREADY_LINKED',
+  OidcMissingEmail = 'OIDC_MISSING_EMAIL',
+  OidcEmailInUse = 'OIDC_EMAIL_IN_USE',
+  OidcTwoFactorLinkRefused = 'OIDC_TWO_FACTOR_LINK_REFUSED',
+  InvalidTwoFactorCode = 'INVALID_TWO_FACTOR_CODE',
   Unknown = 'UNKNOWN',
 }
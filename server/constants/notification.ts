@@ -0,0 +1,5 @@
+export enum NotificationDeliveryStatus {
+  PENDING = 1,
+  SENT = 2,
+  FAILED = 3,
+}
@@ -4,3 +4,20 @@ export enum UserType {
   JELLYFIN = 3,
   EMBY = 4,
 }
+
+export enum QuotaType {
+  REQUESTS = 'requests',
+  EPISODES = 'episodes',
+  SIZE = 'size',
+}
+
+export enum QuotaPeriod {
+  ROLLING = 'rolling',
+  MONTHLY = 'monthly',
+}
+
+export enum AccountRequestStatus {
+  PENDING = 1,
+  APPROVED,
+  DECLINED,
+}
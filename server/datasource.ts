@@ -104,14 +104,26 @@ const postgresProdConfig: DataSourceOptions = {
 
 export const isPgsql = process.env.DB_TYPE === 'postgres';
 
-function getDataSource(): DataSourceOptions {
+export type DatabaseType = 'sqlite' | 'postgres';
+
+export const databaseType: DatabaseType = isPgsql ? 'postgres' : 'sqlite';
+
+/**
+ * Returns the options of the given database type, configured from the same
+ * environment variables as the main datasource.
+ */
+export function getDataSourceOptions(type: DatabaseType): DataSourceOptions {
   if (process.env.NODE_ENV === 'production') {
-    return isPgsql ? postgresProdConfig : prodConfig;
+    return type === 'postgres' ? postgresProdConfig : prodConfig;
   } else {
-    return isPgsql ? postgresDevConfig : devConfig;
+    return type === 'postgres' ? postgresDevConfig : devConfig;
   }
 }
 
+function getDataSource(): DataSourceOptions {
+  return getDataSourceOptions(databaseType);
+}
+
 const dataSource = new DataSource(getDataSource());
 
 export const getRepository = <Entity extends object>(
@@ -0,0 +1,54 @@
+import { AccountRequestStatus } from '@server/constants/user';
+import { DbAwareColumn } from '@server/utils/DbColumnHelper';
+import bcrypt from 'bcrypt';
+import { Column, Entity, ManyToOne, PrimaryGeneratedColumn } from 'typeorm';
+import { User } from './User';
+
+@Entity()
+class AccountRequest {
+  @PrimaryGeneratedColumn()
+  public id: number;
+
+  @Column()
+  public email: string;
+
+  @Column({ nullable: true })
+  public username?: string;
+
+  // Hashed the same way as user passwords, so it can be copied to the new user
+  @Column({ select: false })
+  public password?: string;
+
+  @Column({ type: 'text', nullable: true })
+  public message?: string | null;
+
+  @Column({ type: 'integer', default: AccountRequestStatus.PENDING })
+  public status: AccountRequestStatus;
+
+  @ManyToOne(() => User, {
+    eager: true,
+    nullable: true,
+    onDelete: 'SET NULL',
+  })
+  public modifiedBy?: User | null;
+
+  @DbAwareColumn({ type: 'datetime', default: () => 'CURRENT_TIMESTAMP' })
+  public createdAt: Date;
+
+  @DbAwareColumn({
+    type: 'datetime',
+    default: () => 'CURRENT_TIMESTAMP',
+    onUpdate: 'CURRENT_TIMESTAMP',
+  })
+  public updatedAt: Date;
+
+  constructor(init?: Partial<AccountRequest>) {
+    Object.assign(this, init);
+  }
+
+  public async setPassword(password: string): Promise<void> {
+    this.password = await bcrypt.hash(password, 12);
+  }
+}
+
+export default AccountRequest;
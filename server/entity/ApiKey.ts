@@ -0,0 +1,70 @@
+import { DbAwareColumn } from '@server/utils/DbColumnHelper';
+import { createHash, randomBytes } from 'crypto';
+import {
+  Column,
+  Entity,
+  Index,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { User } from './User';
+
+const KEY_PREFIX = 'jsk_';
+
+@Entity()
+export class ApiKey {
+  /**
+   * Generates a new random key. Only the hash of the key is stored, so the
+   * plain key must be shown to the user right away.
+   */
+  public static generateKey(): string {
+    return `${KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+  }
+
+  public static hashKey(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+  }
+
+  public static isUserKey(key: string): boolean {
+    return key.startsWith(KEY_PREFIX);
+  }
+
+  @PrimaryGeneratedColumn()
+  public id: number;
+
+  @ManyToOne(() => User, (user) => user.apiKeys, {
+    onDelete: 'CASCADE',
+  })
+  public user: User;
+
+  @Column()
+  public name: string;
+
+  @Index({ unique: true })
+  @Column({ select: false })
+  public secretHash: string;
+
+  // The first characters of the key, used to tell keys apart in the UI
+  @Column()
+  public keyPreview: string;
+
+  @Column({ type: 'integer', default: 0 })
+  public permissions = 0;
+
+  @DbAwareColumn({ type: 'datetime', nullable: true })
+  public expiresAt?: Date | null;
+
+  @DbAwareColumn({ type: 'datetime', nullable: true })
+  public lastUsedAt?: Date | null;
+
+  @DbAwareColumn({ type: 'datetime', default: () => 'CURRENT_TIMESTAMP' })
+  public createdAt: Date;
+
+  constructor(init?: Partial<ApiKey>) {
+    Object.assign(this, init);
+  }
+
+  public isExpired(): boolean {
+    return !!this.expiresAt && new Date(this.expiresAt) <= new Date();
+  }
+}
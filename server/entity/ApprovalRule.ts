@@ -0,0 +1,48 @@
+import type { MediaType } from '@server/constants/media';
+import { DbAwareColumn } from '@server/utils/DbColumnHelper';
+import { Column, Entity, PrimaryGeneratedColumn } from 'typeorm';
+
+@Entity()
+class ApprovalRule {
+  @PrimaryGeneratedColumn()
+  public id: number;
+
+  @Column()
+  public name: string;
+
+  // Conditions, a rule without conditions applies to every request
+  @Column({ type: 'varchar', nullable: true })
+  public mediaType?: MediaType | null;
+
+  @Column({ type: 'boolean', nullable: true })
+  public is4k?: boolean | null;
+
+  @Column({ type: 'int', nullable: true })
+  public minSeasons?: number | null;
+
+  // Requirements
+  @Column({ type: 'int', default: 1 })
+  public requiredApprovals: number;
+
+  @Column({ default: false })
+  public requireAdmin: boolean;
+
+  @Column({ type: 'int', nullable: true })
+  public expiryDays?: number | null;
+
+  @DbAwareColumn({ type: 'datetime', default: () => 'CURRENT_TIMESTAMP' })
+  public createdAt: Date;
+
+  @DbAwareColumn({
+    type: 'datetime',
+    default: () => 'CURRENT_TIMESTAMP',
+    onUpdate: 'CURRENT_TIMESTAMP',
+  })
+  public updatedAt: Date;
+
+  constructor(init?: Partial<ApprovalRule>) {
+    Object.assign(this, init);
+  }
+}
+
+export default ApprovalRule;
@@ -0,0 +1,48 @@
+import type { MediaType } from '@server/constants/media';
+import { DbAwareColumn } from '@server/utils/DbColumnHelper';
+import { Column, Entity, Index, PrimaryGeneratedColumn, Unique } from 'typeorm';
+
+@Entity()
+@Unique(['tmdbId', 'mediaType'])
+class DoubanMapping {
+  @PrimaryGeneratedColumn()
+  public id: number;
+
+  @Column()
+  @Index()
+  public tmdbId: number;
+
+  @Column({ type: 'varchar' })
+  public mediaType: MediaType;
+
+  // A null Douban ID records that no Douban subject was found
+  @Column({ type: 'varchar', nullable: true })
+  @Index()
+  public doubanId?: string | null;
+
+  @Column({ type: 'float', nullable: true })
+  public rating?: number | null;
+
+  // Overridden mappings are never replaced by the lookup service
+  @Column({ default: false })
+  public isOverride: boolean;
+
+  @DbAwareColumn({ type: 'datetime', default: () => 'CURRENT_TIMESTAMP' })
+  public lastCheckedAt: Date;
+
+  @DbAwareColumn({ type: 'datetime', default: () => 'CURRENT_TIMESTAMP' })
+  public createdAt: Date;
+
+  @DbAwareColumn({
+    type: 'datetime',
+    default: () => 'CURRENT_TIMESTAMP',
+    onUpdate: 'CURRENT_TIMESTAMP',
+  })
+  public updatedAt: Date;
+
+  constructor(init?: Partial<DoubanMapping>) {
+    Object.assign(this, init);
+  }
+}
+
+export default DoubanMapping;
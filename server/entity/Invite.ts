@@ -0,0 +1,79 @@
+import { DbAwareColumn } from '@server/utils/DbColumnHelper';
+import { randomBytes } from 'crypto';
+import { Column, Entity, ManyToOne, PrimaryGeneratedColumn } from 'typeorm';
+import { User } from './User';
+import UserGroup from './UserGroup';
+
+@Entity()
+class Invite {
+  public static generateCode(): string {
+    return randomBytes(9).toString('base64url');
+  }
+
+  @PrimaryGeneratedColumn()
+  public id: number;
+
+  @Column({ unique: true })
+  public code: string;
+
+  // Unlimited when not set
+  @Column({ type: 'integer', nullable: true })
+  public maxUses?: number | null;
+
+  @Column({ type: 'integer', default: 0 })
+  public uses: number;
+
+  @DbAwareColumn({ type: 'datetime', nullable: true })
+  public expiresAt?: Date | null;
+
+  // Permissions of the new users, the default permissions are used when not set
+  @Column({ type: 'integer', nullable: true })
+  public permissions?: number | null;
+
+  @ManyToOne(() => UserGroup, {
+    eager: true,
+    nullable: true,
+    onDelete: 'SET NULL',
+  })
+  public group?: UserGroup | null;
+
+  // Also create an account on the Jellyfin or Emby server for new users
+  @Column({ default: false })
+  public createJellyfinUser: boolean;
+
+  @ManyToOne(() => User, {
+    eager: true,
+    nullable: true,
+    onDelete: 'SET NULL',
+  })
+  public createdBy?: User | null;
+
+  @DbAwareColumn({ type: 'datetime', default: () => 'CURRENT_TIMESTAMP' })
+  public createdAt: Date;
+
+  @DbAwareColumn({
+    type: 'datetime',
+    default: () => 'CURRENT_TIMESTAMP',
+    onUpdate: 'CURRENT_TIMESTAMP',
+  })
+  public updatedAt: Date;
+
+  constructor(init?: Partial<Invite>) {
+    Object.assign(this, init);
+  }
+
+  public isExpired(): boolean {
+    return !!this.expiresAt && new Date(this.expiresAt) <= new Date();
+  }
+
+  public isValid(): boolean {
+    return (
+      !this.isExpired() &&
+      (this.maxUses === null ||
+        this.maxUses === undefined ||
+        this.uses < this.maxUses)
+    );
+  }
+}
+
+export default Invite;
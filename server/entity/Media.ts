@@ -25,6 +25,14 @@ import Issue from './Issue';
 import { MediaRequest } from './MediaRequest';
 import Season from './Season';
 
+export interface MediaServerLink {
+  serverType: MediaServerType;
+  url?: string;
+  url4k?: string;
+  iOSUrl?: string;
+  iOSUrl4k?: string;
+}
+
 @Entity()
 class Media {
   public static async getRelatedMedia(
@@ -192,6 +200,7 @@ class Media {
 
   public mediaUrl?: string;
   public mediaUrl4k?: string;
+  public mediaServerLinks?: MediaServerLink[];
 
   public iOSPlexUrl?: string;
   public iOSPlexUrl4k?: string;
@@ -205,55 +214,93 @@ class Media {
 
   @AfterLoad()
   public setPlexUrls(): void {
+    const settings = getSettings();
+    const { externalUrl: tautulliUrl } = settings.tautulli;
+
+    // The links are ordered so the server the instance was set up with comes
+    // first and provides the main media URLs
+    this.mediaServerLinks = settings.mediaServerTypes
+      .map((serverType) =>
+        serverType === MediaServerType.PLEX
+          ? this.getPlexLink()
+          : this.getJellyfinLink(serverType)
+      )
+      .filter((link) => link.url || link.url4k);
+
+    this.mediaUrl = this.mediaServerLinks.find((link) => link.url)?.url;
+    this.mediaUrl4k = this.mediaServerLinks.find((link) => link.url4k)?.url4k;
+
+    const plexLink = this.mediaServerLinks.find(
+      (link) => link.serverType === MediaServerType.PLEX
+    );
+
+    if (plexLink) {
+      // The Plex app can only replace the main media URLs which point to Plex
+      if (this.mediaUrl === plexLink.url) {
+        this.iOSPlexUrl = plexLink.iOSUrl;
+      }
+      if (this.mediaUrl4k === plexLink.url4k) {
+        this.iOSPlexUrl4k = plexLink.iOSUrl4k;
+      }
+
+      if (tautulliUrl) {
+        this.tautulliUrl = `${tautulliUrl}/info?rating_key=${this.ratingKey}`;
+
+        if (this.ratingKey4k) {
+          this.tautulliUrl4k = `${tautulliUrl}/info?rating_key=${this.ratingKey4k}`;
+        }
+      }
+    }
+  }
+
+  private getPlexLink(): MediaServerLink {
     const { machineId, webAppUrl } = getSettings().plex;
-    const { externalUrl: tautulliUrl } = getSettings().tautulli;
+    const link: MediaServerLink = { serverType: MediaServerType.PLEX };
+
+    if (this.ratingKey) {
+      link.url = `${
+        webAppUrl ? webAppUrl : 'https://app.plex.tv/desktop'
+      }#!/server/${machineId}/details?key=%2Flibrary%2Fmetadata%2F${
+        this.ratingKey
+      }`;
+
+      link.iOSUrl = `plex://preplay/?metadataKey=%2Flibrary%2Fmetadata%2F${this.ratingKey}&server=${machineId}`;
 
-    if (getSettings().main.mediaServerType == MediaServerType.PLEX) {
-      if (this.ratingKey) {
-        this.mediaUrl = `${
+      if (this.ratingKey4k) {
+        link.url4k = `${
           webAppUrl ? webAppUrl : 'https://app.plex.tv/desktop'
         }#!/server/${machineId}/details?key=%2Flibrary%2Fmetadata%2F${
-          this.ratingKey
+          this.ratingKey4k
         }`;
 
-        this.iOSPlexUrl = `plex://preplay/?metadataKey=%2Flibrary%2Fmetadata%2F${this.ratingKey}&server=${machineId}`;
-
-        if (tautulliUrl) {
-          this.tautulliUrl = `${tautulliUrl}/info?rating_key=${this.ratingKey}`;
-        }
-
-        if (this.ratingKey4k) {
-          this.mediaUrl4k = `${
-            webAppUrl ? webAppUrl : 'https://app.plex.tv/desktop'
-          }#!/server/${machineId}/details?key=%2Flibrary%2Fmetadata%2F${
-            this.ratingKey4k
-          }`;
+        link.iOSUrl4k = `plex://preplay/?metadataKey=%2Flibrary%2Fmetadata%2F${this.ratingKey4k}&server=${machineId}`;
+      }
+    }
 
-          this.iOSPlexUrl4k = `plex://preplay/?metadataKey=%2Flibrary%2Fmetadata%2F${this.ratingKey4k}&server=${machineId}`;
+    return link;
+  }
 
-          if (tautulliUrl) {
-            this.tautulliUrl4k = `${tautulliUrl}/info?rating_key=${this.ratingKey4k}`;
-          }
-        }
-      }
-    } else {
-      const pageName =
-        getSettings().main.mediaServerType == MediaServerType.EMBY
-          ? 'item'
-          : 'details';
-      const { serverId, externalHostname } = getSettings().jellyfin;
-      const jellyfinHost =
-        externalHostname && externalHostname.length > 0
-          ? externalHostname
-          : getHostname();
-
-      if (this.jellyfinMediaId) {
-        this.mediaUrl = `${jellyfinHost}/web/index.html#!/${pageName}?id=${this.jellyfinMediaId}&context=home&serverId=${serverId}`;
-      }
-      if (this.jellyfinMediaId4k) {
-        this.mediaUrl4k = `${jellyfinHost}/web/index.html#!/${pageName}?id=${this.jellyfinMediaId4k}&context=home&serverId=${serverId}`;
-      }
+  private getJellyfinLink(serverType: MediaServerType): MediaServerLink {
+    const { serverId, externalHostname } = getSettings().jellyfin;
+    const jellyfinHost =
+      externalHostname && externalHostname.length > 0
+        ? externalHostname
+        : getHostname();
+    // Emby's web app opens items on its own page, without a context
+    const getItemUrl = (itemId: string) =>
+      serverType === MediaServerType.EMBY
+        ? `${jellyfinHost}/web/index.html#!/item?id=${itemId}&serverId=${serverId}`
+        : `${jellyfinHost}/web/index.html#!/details?id=${itemId}&context=home&serverId=${serverId}`;
+    const link: MediaServerLink = { serverType };
+
+    if (this.jellyfinMediaId) {
+      link.url = getItemUrl(this.jellyfinMediaId);
+    }
+    if (this.jellyfinMediaId4k) {
+      link.url4k = getItemUrl(this.jellyfinMediaId4k);
     }
+
+    return link;
   }
 
   @AfterLoad()
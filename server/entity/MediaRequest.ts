@@ -1,16 +1,21 @@
 import TheMovieDb from '@server/api/themoviedb';
-import { ANIME_KEYWORD_ID } from '@server/api/themoviedb/constants';
-import type { TmdbKeyword } from '@server/api/themoviedb/interfaces';
 import {
   MediaRequestStatus,
   MediaStatus,
   MediaType,
 } from '@server/constants/media';
+import { QuotaType } from '@server/constants/user';
 import { getRepository } from '@server/datasource';
-import OverrideRule from '@server/entity/OverrideRule';
 import type { MediaRequestBody } from '@server/interfaces/api/requestInterfaces';
+import { getApplicableRules, isFullyApproved } from '@server/lib/approval';
 import notificationManager, { Notification } from '@server/lib/notifications';
+import { getAppliedOverrides } from '@server/lib/overrideRules';
 import { Permission } from '@server/lib/permissions';
+import {
+  estimateRequestSize,
+  getEpisodeCount,
+  megabytesToGigabytes,
+} from '@server/lib/quota';
 import { getSettings } from '@server/lib/settings';
 import logger from '@server/logger';
 import { DbAwareColumn } from '@server/utils/DbColumnHelper';
@@ -27,6 +32,9 @@ import {
   RelationCount,
 } from 'typeorm';
 import Media from './Media';
+import RequestApproval from './RequestApproval';
+import RequestComment from './RequestComment';
+import RequestStatusHistory from './RequestStatusHistory';
 import SeasonRequest from './SeasonRequest';
 import { User } from './User';
 
@@ -206,130 +214,66 @@ export class MediaRequest {
       type: 'or',
     });
 
+    // Requests which do not pick a server go to the server of the user's
+    // groups. Override rules only apply to the default servers.
+    const groupService =
+      requestBody.serverId === undefined
+        ? requestUser.getDefaultService(
+            requestBody.mediaType,
+            requestBody.is4k ?? false
+          )
+        : {};
+    const serverId = requestBody.serverId ?? groupService.serverId;
+
     let rootFolder = requestBody.rootFolder;
-    let profileId = requestBody.profileId;
+    let profileId = requestBody.profileId ?? groupService.profileId;
     let tags = requestBody.tags;
 
-    if (useOverrides) {
-      const defaultRadarrId = requestBody.is4k
-        ? settings.radarr.findIndex((r) => r.is4k && r.isDefault)
-        : settings.radarr.findIndex((r) => !r.is4k && r.isDefault);
-      const defaultSonarrId = requestBody.is4k
-        ? settings.sonarr.findIndex((s) => s.is4k && s.isDefault)
-        : settings.sonarr.findIndex((s) => !s.is4k && s.isDefault);
-
-      const overrideRuleRepository = getRepository(OverrideRule);
-      const overrideRules = await overrideRuleRepository.find({
-        where:
-          requestBody.mediaType === MediaType.MOVIE
-            ? { radarrServiceId: defaultRadarrId }
-            : { sonarrServiceId: defaultSonarrId },
-      });
-
-      const appliedOverrideRules = overrideRules.filter((rule) => {
-        const hasAnimeKeyword =
-          'results' in tmdbMedia.keywords &&
-          tmdbMedia.keywords.results.some(
-            (keyword: TmdbKeyword) => keyword.id === ANIME_KEYWORD_ID
-          );
-
-        // Skip override rules if the media is an anime TV show as anime TV
-        // is handled by default and override rules do not explicitly include
-        // the anime keyword
-        if (
-          requestBody.mediaType === MediaType.TV &&
-          hasAnimeKeyword &&
-          (!rule.keywords ||
-            !rule.keywords.split(',').map(Number).includes(ANIME_KEYWORD_ID))
-        ) {
-          return false;
-        }
-
-        if (
-          rule.users &&
-          !rule.users
-            .split(',')
-            .some((userId) => Number(userId) === requestUser.id)
-        ) {
-          return false;
-        }
-        if (
-          rule.genre &&
-          !rule.genre
-            .split(',')
-            .some((genreId) =>
-              tmdbMedia.genres
-                .map((genre) => genre.id)
-                .includes(Number(genreId))
-            )
-        ) {
-          return false;
-        }
-        if (
-          rule.language &&
-          !rule.language
-            .split('|')
-            .some((languageId) => languageId === tmdbMedia.original_language)
-        ) {
-          return false;
-        }
-        if (
-          rule.keywords &&
-          !rule.keywords.split(',').some((keywordId) => {
-            let keywordList: TmdbKeyword[] = [];
-
-            if ('keywords' in tmdbMedia.keywords) {
-              keywordList = tmdbMedia.keywords.keywords;
-            } else if ('results' in tmdbMedia.keywords) {
-              keywordList = tmdbMedia.keywords.results;
-            }
-
-            return keywordList
-              .map((keyword: TmdbKeyword) => keyword.id)
-              .includes(Number(keywordId));
-          })
-        ) {
-          return false;
-        }
-        return true;
+    if (useOverrides && groupService.serverId === undefined) {
+      const overrides = await getAppliedOverrides({
+        tmdbMedia,
+        mediaType: requestBody.mediaType,
+        is4k: requestBody.is4k ?? false,
+        userId: requestUser.id,
       });
 
-      // hacky way to prioritize rules
-      // TODO: make this better
-      const prioritizedRule = appliedOverrideRules.sort((a, b) => {
-        const keys: (keyof OverrideRule)[] = ['genre', 'language', 'keywords'];
-
-        const aSpecificity = keys.filter((key) => a[key] !== null).length;
-        const bSpecificity = keys.filter((key) => b[key] !== null).length;
-
-        // Take the rule with the most specific condition first
-        return bSpecificity - aSpecificity;
-      })[0];
-
-      if (prioritizedRule) {
-        if (prioritizedRule.rootFolder) {
-          rootFolder = prioritizedRule.rootFolder;
+      if (overrides.rules.length) {
+        if (overrides.rootFolder) {
+          rootFolder = overrides.rootFolder;
         }
-        if (prioritizedRule.profileId) {
-          profileId = prioritizedRule.profileId;
+        if (overrides.profileId) {
+          profileId = overrides.profileId;
         }
-        if (prioritizedRule.tags) {
-          tags = [
-            ...new Set([
-              ...(tags || []),
-              ...prioritizedRule.tags.split(',').map((tag) => Number(tag)),
-            ]),
-          ];
+        if (overrides.tags) {
+          tags = [...new Set([...(tags || []), ...overrides.tags])];
         }
 
-        logger.debug('Override rule applied.', {
+        logger.debug('Override rules applied.', {
           label: 'Media Request',
-          overrides: prioritizedRule,
+          overrides: overrides.rules,
         });
       }
     }
 
     if (requestBody.mediaType === MediaType.MOVIE) {
+      const estimatedSize =
+        quotas.movie.type === QuotaType.SIZE && quotas.movie.limit
+          ? await estimateRequestSize({
+              mediaType: MediaType.MOVIE,
+              tmdbMedia,
+              is4k: requestBody.is4k ?? false,
+              serverId,
+              profileId,
+            })
+          : null;
+
+      if (
+        estimatedSize &&
+        megabytesToGigabytes(estimatedSize) > (quotas.movie.remaining ?? 0)
+      ) {
+        throw new QuotaRestrictedError('Movie Quota exceeded.');
+      }
+
       await mediaRepository.save(media);
 
       const request = new MediaRequest({
@@ -366,13 +310,16 @@ export class MediaRequest {
           ? user
           : undefined,
         is4k: requestBody.is4k,
-        serverId: requestBody.serverId,
+        serverId,
         profileId: profileId,
         rootFolder: rootFolder,
         tags: tags,
         isAutoRequest: options.isAutoRequest ?? false,
+        estimatedSize,
+        statusChangedBy: user,
       });
 
+      await MediaRequest.applyApprovalRules(request, user);
       await requestRepository.save(request);
       return request;
     } else {
@@ -433,10 +380,28 @@ export class MediaRequest {
 
       if (finalSeasons.length === 0) {
         throw new NoSeasonsAvailableError('No seasons available to request');
-      } else if (
-        quotas.tv.limit &&
-        finalSeasons.length > (quotas.tv.remaining ?? 0)
-      ) {
+      }
+
+      const episodeCount = getEpisodeCount(tmdbMediaShow, finalSeasons);
+      const estimatedSize =
+        quotas.tv.type === QuotaType.SIZE && quotas.tv.limit
+          ? await estimateRequestSize({
+              mediaType: MediaType.TV,
+              tmdbMedia,
+              episodeCount,
+              is4k: requestBody.is4k ?? false,
+              serverId,
+              profileId,
+            })
+          : null;
+      const requiredQuota =
+        quotas.tv.type === QuotaType.EPISODES
+          ? episodeCount
+          : quotas.tv.type === QuotaType.SIZE
+          ? megabytesToGigabytes(estimatedSize ?? 0)
+          : finalSeasons.length;
+
+      if (quotas.tv.limit && requiredQuota > (quotas.tv.remaining ?? 0)) {
         throw new QuotaRestrictedError('Series Quota exceeded.');
       }
 
@@ -476,7 +441,7 @@ export class MediaRequest {
           ? user
           : undefined,
         is4k: requestBody.is4k,
-        serverId: requestBody.serverId,
+        serverId,
         profileId: profileId,
         rootFolder: rootFolder,
         languageProfileId: requestBody.languageProfileId,
@@ -502,13 +467,44 @@ export class MediaRequest {
             })
         ),
         isAutoRequest: options.isAutoRequest ?? false,
+        episodeCount,
+        estimatedSize,
+        statusChangedBy: user,
       });
 
+      await MediaRequest.applyApprovalRules(request, user);
       await requestRepository.save(request);
       return request;
     }
   }
 
+  /**
+   * Records the approval of a request that was approved automatically. If
+   * the approval rules require more approvals than that, the request is kept
+   * pending instead. An approval by the requester does not count towards the
+   * rules.
+   */
+  private static async applyApprovalRules(
+    request: MediaRequest,
+    user: User
+  ): Promise<void> {
+    if (request.status !== MediaRequestStatus.APPROVED) {
+      return;
+    }
+
+    const rules = await getApplicableRules(request);
+
+    request.approvals = [new RequestApproval({ user })];
+
+    if (!isFullyApproved(rules, [user], request.requestedBy)) {
+      request.status = MediaRequestStatus.PENDING;
+      request.modifiedBy = undefined;
+      request.seasons?.forEach((season) => {
+        season.status = MediaRequestStatus.PENDING;
+      });
+    }
+  }
+
   @PrimaryGeneratedColumn()
   public id: number;
 
@@ -606,6 +602,36 @@ export class MediaRequest {
   @Column({ default: false })
   public isAutoRequest: boolean;
 
+  @Column({ type: 'integer', nullable: true })
+  public episodeCount?: number | null;
+
+  // Estimated download size in megabytes, used for size based quotas
+  @Column({ type: 'integer', nullable: true })
+  public estimatedSize?: number | null;
+
+  @OneToMany(() => RequestApproval, (approval) => approval.request, {
+    eager: true,
+    cascade: true,
+  })
+  public approvals: RequestApproval[];
+
+  @OneToMany(() => RequestComment, (comment) => comment.request)
+  public comments: RequestComment[];
+
+  @RelationCount((request: MediaRequest) => request.comments)
+  public commentCount: number;
+
+  @OneToMany(() => RequestStatusHistory, (history) => history.request)
+  public statusHistory: RequestStatusHistory[];
+
+  // Number of approvals the approval rules require, set by the request routes
+  public requiredApprovals?: number;
+
+  // Who changed the status and why, written to the status history by the
+  // request subscriber. Status changes without a user are automatic.
+  public statusChangedBy?: User;
+  public statusReason?: string;
+
   constructor(init?: Partial<MediaRequest>) {
     Object.assign(this, init);
   }
@@ -751,6 +777,11 @@ export class MediaRequest {
           break;
       }
 
+      const reason =
+        type === Notification.MEDIA_DECLINED && entity.statusReason
+          ? [{ name: 'Reason', value: entity.statusReason }]
+          : [];
+
       if (entity.type === MediaType.MOVIE) {
         const movie = await tmdb.getMovie({ movieId: media.tmdbId });
         notificationManager.sendNotification(type, {
@@ -769,6 +800,7 @@ export class MediaRequest {
             omission: '…',
           }),
           image: `https://image.tmdb.org/t/p/w600_and_h900_bestv2${movie.poster_path}`,
+          extra: reason,
         });
       } else if (entity.type === MediaType.TV) {
         const tv = await tmdb.getTvShow({ tvId: media.tmdbId });
@@ -795,6 +827,7 @@ export class MediaRequest {
                 .map((season) => season.seasonNumber)
                 .join(', '),
             },
+            ...reason,
           ],
         });
       }
@@ -0,0 +1,61 @@
+import { NotificationDeliveryStatus } from '@server/constants/notification';
+import type { Notification } from '@server/lib/notifications';
+import type { StoredNotificationPayload } from '@server/lib/notifications/agents/agent';
+import type { NotificationAgentKey } from '@server/lib/settings';
+import { DbAwareColumn } from '@server/utils/DbColumnHelper';
+import { Column, Entity, Index, PrimaryGeneratedColumn } from 'typeorm';
+
+@Entity()
+class OutboxNotification {
+  @PrimaryGeneratedColumn()
+  public id: number;
+
+  @Column({ type: 'varchar' })
+  public agent: NotificationAgentKey;
+
+  @Column({ type: 'integer' })
+  public type: Notification;
+
+  @Column({
+    type: 'text',
+    transformer: {
+      from: (value: string): StoredNotificationPayload => JSON.parse(value),
+      to: (value: StoredNotificationPayload): string => JSON.stringify(value),
+    },
+  })
+  public payload: StoredNotificationPayload;
+
+  @Column({ type: 'integer', default: NotificationDeliveryStatus.PENDING })
+  @Index()
+  public status: NotificationDeliveryStatus;
+
+  @Column({ type: 'integer', default: 0 })
+  public attempts: number;
+
+  @Column({ type: 'text', nullable: true })
+  public lastError?: string | null;
+
+  @DbAwareColumn({ type: 'datetime', nullable: true })
+  @Index()
+  public nextAttemptAt?: Date | null;
+
+  @DbAwareColumn({ type: 'datetime', nullable: true })
+  public sentAt?: Date | null;
+
+  @DbAwareColumn({ type: 'datetime', default: () => 'CURRENT_TIMESTAMP' })
+  @Index()
+  public createdAt: Date;
+
+  @DbAwareColumn({
+    type: 'datetime',
+    default: () => 'CURRENT_TIMESTAMP',
+    onUpdate: 'CURRENT_TIMESTAMP',
+  })
+  public updatedAt: Date;
+
+  constructor(init?: Partial<OutboxNotification>) {
+    Object.assign(this, init);
+  }
+}
+
+export default OutboxNotification;
@@ -24,6 +24,37 @@ class OverrideRule {
   @Column({ nullable: true })
   public keywords?: string;
 
+  @Column({ type: 'int', nullable: true })
+  public yearFrom?: number | null;
+
+  @Column({ type: 'int', nullable: true })
+  public yearTo?: number | null;
+
+  // Runtime in minutes, series are matched on their episode runtime
+  @Column({ type: 'int', nullable: true })
+  public runtimeMin?: number | null;
+
+  @Column({ type: 'int', nullable: true })
+  public runtimeMax?: number | null;
+
+  @Column({ nullable: true })
+  public certifications?: string;
+
+  @Column({ nullable: true })
+  public originCountries?: string;
+
+  @Column({ nullable: true })
+  public networks?: string;
+
+  @Column({ nullable: true })
+  public studios?: string;
+
+  @Column({ type: 'boolean', nullable: true })
+  public is4k?: boolean | null;
+
+  @Column({ type: 'boolean', nullable: true })
+  public isAnime?: boolean | null;
+
   @Column({ type: 'int', nullable: true })
   public profileId?: number;
 
@@ -33,6 +64,13 @@ class OverrideRule {
   @Column({ nullable: true })
   public tags?: string;
 
+  // Rules are evaluated in ascending priority
+  @Column({ type: 'int', default: 0 })
+  public priority: number;
+
+  @Column({ default: false })
+  public stopProcessing: boolean;
+
   @DbAwareColumn({ type: 'datetime', default: () => 'CURRENT_TIMESTAMP' })
   public createdAt: Date;
 
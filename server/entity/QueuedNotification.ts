@@ -0,0 +1,55 @@
+import type { Notification } from '@server/lib/notifications';
+import type { NotificationDigestItem } from '@server/lib/notifications/agents/agent';
+import type { NotificationAgentKey } from '@server/lib/settings';
+import { DbAwareColumn } from '@server/utils/DbColumnHelper';
+import {
+  Column,
+  Entity,
+  Index,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { User } from './User';
+
+@Entity()
+class QueuedNotification {
+  @PrimaryGeneratedColumn()
+  public id: number;
+
+  @Column({ type: 'varchar' })
+  public agent: NotificationAgentKey;
+
+  // Notifications without a user are sent to the system destination of the
+  // agent, such as a Discord webhook or Telegram chat
+  @ManyToOne(() => User, {
+    eager: true,
+    nullable: true,
+    onDelete: 'CASCADE',
+  })
+  public user?: User | null;
+
+  @Column({ type: 'integer' })
+  public type: Notification;
+
+  @Column({
+    type: 'text',
+    transformer: {
+      from: (value: string): NotificationDigestItem => JSON.parse(value),
+      to: (value: NotificationDigestItem): string => JSON.stringify(value),
+    },
+  })
+  public item: NotificationDigestItem;
+
+  @DbAwareColumn({ type: 'datetime' })
+  @Index()
+  public deliverAt: Date;
+
+  @DbAwareColumn({ type: 'datetime', default: () => 'CURRENT_TIMESTAMP' })
+  public createdAt: Date;
+
+  constructor(init?: Partial<QueuedNotification>) {
+    Object.assign(this, init);
+  }
+}
+
+export default QueuedNotification;
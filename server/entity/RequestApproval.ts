@@ -0,0 +1,31 @@
+import { DbAwareColumn } from '@server/utils/DbColumnHelper';
+import { Entity, ManyToOne, PrimaryGeneratedColumn } from 'typeorm';
+import { MediaRequest } from './MediaRequest';
+import { User } from './User';
+
+@Entity()
+class RequestApproval {
+  @PrimaryGeneratedColumn()
+  public id: number;
+
+  @ManyToOne(() => MediaRequest, (request) => request.approvals, {
+    onDelete: 'CASCADE',
+    orphanedRowAction: 'delete',
+  })
+  public request: MediaRequest;
+
+  @ManyToOne(() => User, {
+    eager: true,
+    onDelete: 'CASCADE',
+  })
+  public user: User;
+
+  @DbAwareColumn({ type: 'datetime', default: () => 'CURRENT_TIMESTAMP' })
+  public createdAt: Date;
+
+  constructor(init?: Partial<RequestApproval>) {
+    Object.assign(this, init);
+  }
+}
+
+export default RequestApproval;
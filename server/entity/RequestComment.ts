@@ -0,0 +1,40 @@
+import { DbAwareColumn } from '@server/utils/DbColumnHelper';
+import { Column, Entity, ManyToOne, PrimaryGeneratedColumn } from 'typeorm';
+import { MediaRequest } from './MediaRequest';
+import { User } from './User';
+
+@Entity()
+class RequestComment {
+  @PrimaryGeneratedColumn()
+  public id: number;
+
+  @ManyToOne(() => User, {
+    eager: true,
+    onDelete: 'CASCADE',
+  })
+  public user: User;
+
+  @ManyToOne(() => MediaRequest, (request) => request.comments, {
+    onDelete: 'CASCADE',
+  })
+  public request: MediaRequest;
+
+  @Column({ type: 'text' })
+  public message: string;
+
+  @DbAwareColumn({ type: 'datetime', default: () => 'CURRENT_TIMESTAMP' })
+  public createdAt: Date;
+
+  @DbAwareColumn({
+    type: 'datetime',
+    default: () => 'CURRENT_TIMESTAMP',
+    onUpdate: 'CURRENT_TIMESTAMP',
+  })
+  public updatedAt: Date;
+
+  constructor(init?: Partial<RequestComment>) {
+    Object.assign(this, init);
+  }
+}
+
+export default RequestComment;
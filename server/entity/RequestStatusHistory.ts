@@ -0,0 +1,43 @@
+import type { MediaRequestStatus } from '@server/constants/media';
+import { DbAwareColumn } from '@server/utils/DbColumnHelper';
+import { Column, Entity, ManyToOne, PrimaryGeneratedColumn } from 'typeorm';
+import { MediaRequest } from './MediaRequest';
+import { User } from './User';
+
+@Entity()
+class RequestStatusHistory {
+  @PrimaryGeneratedColumn()
+  public id: number;
+
+  @ManyToOne(() => MediaRequest, (request) => request.statusHistory, {
+    onDelete: 'CASCADE',
+  })
+  public request: MediaRequest;
+
+  // Null when the status was changed automatically
+  @ManyToOne(() => User, {
+    nullable: true,
+    eager: true,
+    onDelete: 'SET NULL',
+  })
+  public user?: User | null;
+
+  // Null for the status a request was created with
+  @Column({ type: 'int', nullable: true })
+  public fromStatus?: MediaRequestStatus | null;
+
+  @Column({ type: 'int' })
+  public toStatus: MediaRequestStatus;
+
+  @Column({ type: 'text', nullable: true })
+  public reason?: string | null;
+
+  @DbAwareColumn({ type: 'datetime', default: () => 'CURRENT_TIMESTAMP' })
+  public createdAt: Date;
+
+  constructor(init?: Partial<RequestStatusHistory>) {
+    Object.assign(this, init);
+  }
+}
+
+export default RequestStatusHistory;
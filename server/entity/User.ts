@@ -1,11 +1,20 @@
 import { MediaRequestStatus, MediaType } from '@server/constants/media';
-import { UserType } from '@server/constants/user';
+import { QuotaPeriod, QuotaType, UserType } from '@server/constants/user';
 import { getRepository } from '@server/datasource';
 import { Watchlist } from '@server/entity/Watchlist';
-import type { QuotaResponse } from '@server/interfaces/api/userInterfaces';
+import type {
+  QuotaResponse,
+  QuotaStatus,
+} from '@server/interfaces/api/userInterfaces';
 import PreparedEmail from '@server/lib/email';
 import type { PermissionCheckOptions } from '@server/lib/permissions';
 import { hasPermission, Permission } from '@server/lib/permissions';
+import {
+  getQuotaResetDate,
+  getQuotaStartDate,
+  megabytesToGigabytes,
+} from '@server/lib/quota';
+import type { Quota } from '@server/lib/settings';
 import { getSettings } from '@server/lib/settings';
 import logger from '@server/logger';
 import { AfterDate } from '@server/utils/dateHelpers';
@@ -18,15 +27,19 @@ import {
   AfterLoad,
   Column,
   Entity,
+  JoinTable,
+  ManyToMany,
   Not,
   OneToMany,
   OneToOne,
   PrimaryGeneratedColumn,
   RelationCount,
 } from 'typeorm';
+import { ApiKey } from './ApiKey';
 import Issue from './Issue';
 import { MediaRequest } from './MediaRequest';
 import SeasonRequest from './SeasonRequest';
+import UserGroup from './UserGroup';
 import { UserPushSubscription } from './UserPushSubscription';
 import { UserSettings } from './UserSettings';
 
@@ -91,9 +104,41 @@ export class User {
   @Column({ type: 'varchar', nullable: true, select: false })
   public plexToken?: string | null;
 
+  @Column({ type: 'varchar', nullable: true, unique: true })
+  public oidcSubject?: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  public oidcUsername?: string | null;
+
+  @Column({ default: false })
+  public twoFactorEnabled: boolean;
+
+  @Column({ type: 'varchar', nullable: true, select: false })
+  public twoFactorSecret?: string | null;
+
+  @Column({
+    type: 'text',
+    nullable: true,
+    select: false,
+    transformer: {
+      from: (value: string | null): string[] => (value ? value.split(',') : []),
+      to: (value?: string[] | null): string | null =>
+        value?.length ? value.join(',') : null,
+    },
+  })
+  public twoFactorRecoveryCodes?: string[];
+
+  // TOTP period of the last accepted code, which can't be used again
+  @Column({ type: 'integer', nullable: true, select: false })
+  public twoFactorLastUsedStep?: number | null;
+
   @Column({ type: 'integer', default: 0 })
   public permissions = 0;
 
+  @ManyToMany(() => UserGroup, (group) => group.users, { eager: true })
+  @JoinTable()
+  public groups: UserGroup[];
+
   @Column()
   public avatar: string;
 
@@ -124,6 +169,18 @@ export class User {
   @Column({ nullable: true })
   public tvQuotaDays?: number;
 
+  @Column({ type: 'varchar', nullable: true })
+  public movieQuotaType?: QuotaType | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  public movieQuotaPeriod?: QuotaPeriod | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  public tvQuotaType?: QuotaType | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  public tvQuotaPeriod?: QuotaPeriod | null;
+
   @OneToOne(() => UserSettings, (settings) => settings.user, {
     cascade: true,
     eager: true,
@@ -137,6 +194,9 @@ export class User {
   @OneToMany(() => Issue, (issue) => issue.createdBy, { cascade: true })
   public createdIssues: Issue[];
 
+  @OneToMany(() => ApiKey, (apiKey) => apiKey.user)
+  public apiKeys: ApiKey[];
+
   @DbAwareColumn({ type: 'datetime', default: () => 'CURRENT_TIMESTAMP' })
   public createdAt: Date;
 
@@ -149,6 +209,9 @@ export class User {
 
   public warnings: string[] = [];
 
+  // Own and inherited group permissions, only set on filtered users
+  public effectivePermissions?: number;
+
   constructor(init?: Partial<User>) {
     Object.assign(this, init);
   }
@@ -158,17 +221,86 @@ export class User {
       {},
       ...(Object.keys(this) as (keyof User)[])
         .filter((k) => showFiltered || !User.filteredFields.includes(k))
-        .map((k) => ({ [k]: this[k] }))
+        .map((k) => ({ [k]: this[k] })),
+      { effectivePermissions: this.getEffectivePermissions() }
     );
 
     return filtered;
   }
 
+  /**
+   * Returns the user's own permissions combined with the permissions of
+   * every group the user belongs to.
+   */
+  public getEffectivePermissions(): number {
+    return (this.groups ?? []).reduce(
+      (permissions, group) => permissions | group.permissions,
+      this.permissions
+    );
+  }
+
   public hasPermission(
     permissions: Permission | Permission[],
     options?: PermissionCheckOptions
   ): boolean {
-    return !!hasPermission(permissions, this.permissions, options);
+    return !!hasPermission(
+      permissions,
+      this.getEffectivePermissions(),
+      options
+    );
+  }
+
+  /**
+   * Returns the Radarr or Sonarr server and quality profile which the first
+   * of the user's groups with a matching server assigns to new requests.
+   */
+  public getDefaultService(
+    mediaType: MediaType,
+    is4k: boolean
+  ): { serverId?: number; profileId?: number } {
+    const settings = getSettings();
+    const services =
+      mediaType === MediaType.MOVIE ? settings.radarr : settings.sonarr;
+
+    for (const group of this.groups ?? []) {
+      const serverId =
+        mediaType === MediaType.MOVIE
+          ? group.radarrServerId
+          : group.sonarrServerId;
+      const profileId =
+        mediaType === MediaType.MOVIE
+          ? group.radarrProfileId
+          : group.sonarrProfileId;
+
+      if (
+        serverId !== null &&
+        serverId !== undefined &&
+        services.some(
+          (service) => service.id === serverId && service.is4k === is4k
+        )
+      ) {
+        return { serverId, profileId: profileId ?? undefined };
+      }
+    }
+
+    return {};
+  }
+
+  /**
+   * Returns the IDs of the libraries the user's groups allow access to, or
+   * null when any of the groups allows every library.
+   */
+  public getAllowedLibraries(): string[] | null {
+    const groups = this.groups ?? [];
+
+    if (
+      !groups.length ||
+      groups.some((group) => !group.allowedLibraries?.length)
+    ) {
+      return null;
+    }
+
+    return [...new Set(groups.flatMap((group) => group.allowedLibraries))];
   }
 
   public passwordMatch(password: string): Promise<boolean> {
@@ -186,6 +318,34 @@ export class User {
     this.password = hashedPassword;
   }
 
+  /**
+   * Stores the TOTP period of an accepted two-factor code. The period is only
+   * stored if it is later than the last used one, so a code sent by concurrent
+   * requests is only accepted once.
+   *
+   * @returns Whether the period was stored
+   */
+  public async useTwoFactorStep(step: number): Promise<boolean> {
+    const { affected } = await getRepository(User)
+      .createQueryBuilder()
+      .update()
+      .set({ twoFactorLastUsedStep: step })
+      .where('"id" = :id', { id: this.id })
+      .andWhere(
+        '("twoFactorLastUsedStep" IS NULL OR "twoFactorLastUsedStep" < :step)',
+        { step }
+      )
+      .execute();
+
+    if (!affected) {
+      return false;
+    }
+
+    this.twoFactorLastUsedStep = step;
+
+    return true;
+  }
+
   public async generatePassword(): Promise<void> {
     const password = generatePassword.randomPassword({ length: 16 });
     this.setPassword(password);
@@ -255,108 +415,211 @@ export class User {
     }
   }
 
+  public async sendAccountApprovedEmail(): Promise<void> {
+    const { applicationTitle, applicationUrl } = getSettings().main;
+
+    try {
+      logger.info(`Sending account approved email for ${this.email}`, {
+        label: 'User Management',
+      });
+      const email = new PreparedEmail(getSettings().notifications.agents.email);
+      await email.send({
+        template: path.join(__dirname, '../templates/email/account-approved'),
+        message: {
+          to: this.email,
+        },
+        locals: {
+          applicationUrl,
+          applicationTitle,
+          recipientName: this.username || this.email,
+          recipientEmail: this.email,
+        },
+      });
+    } catch (e) {
+      logger.error('Failed to send out account approved email', {
+        label: 'User Management',
+        message: e.message,
+      });
+    }
+  }
+
   @AfterLoad()
   public setDisplayName(): void {
     this.displayName =
       this.username || this.plexUsername || this.jellyfinUsername || this.email;
   }
 
-  public async getQuota(): Promise<QuotaResponse> {
+  /**
+   * Returns the quota defaults which apply to this user. Quotas set on one of
+   * the user's groups take precedence, followed by the first group quota
+   * matching one of the user's permissions and finally the global defaults.
+   */
+  public getDefaultQuotas(): { movie: Quota; tv: Quota } {
     const {
-      main: { defaultQuotas },
+      main: { defaultQuotas, groupQuotas },
     } = getSettings();
-    const requestRepository = getRepository(MediaRequest);
-    const canBypass = this.hasPermission([Permission.MANAGE_USERS], {
-      type: 'or',
-    });
 
-    const movieQuotaLimit = !canBypass
-      ? this.movieQuotaLimit ?? defaultQuotas.movie.quotaLimit
-      : 0;
-    const movieQuotaDays = this.movieQuotaDays ?? defaultQuotas.movie.quotaDays;
+    const permissionQuota =
+      (groupQuotas ?? []).find(
+        (quota) => quota.permissions && this.hasPermission(quota.permissions)
+      ) ?? defaultQuotas;
+    const movieGroup = (this.groups ?? []).find(
+      (group) =>
+        group.movieQuotaLimit !== null && group.movieQuotaLimit !== undefined
+    );
+    const tvGroup = (this.groups ?? []).find(
+      (group) => group.tvQuotaLimit !== null && group.tvQuotaLimit !== undefined
+    );
 
-    // Count movie requests made during quota period
-    const movieDate = new Date();
-    if (movieQuotaDays) {
-      movieDate.setDate(movieDate.getDate() - movieQuotaDays);
-    }
+    return {
+      movie: movieGroup
+        ? {
+            quotaLimit: movieGroup.movieQuotaLimit ?? undefined,
+            quotaDays:
+              movieGroup.movieQuotaDays ?? permissionQuota.movie.quotaDays,
+            quotaType:
+              movieGroup.movieQuotaType ?? permissionQuota.movie.quotaType,
+            quotaPeriod:
+              movieGroup.movieQuotaPeriod ?? permissionQuota.movie.quotaPeriod,
+          }
+        : permissionQuota.movie,
+      tv: tvGroup
+        ? {
+            quotaLimit: tvGroup.tvQuotaLimit ?? undefined,
+            quotaDays: tvGroup.tvQuotaDays ?? permissionQuota.tv.quotaDays,
+            quotaType: tvGroup.tvQuotaType ?? permissionQuota.tv.quotaType,
+            quotaPeriod:
+              tvGroup.tvQuotaPeriod ?? permissionQuota.tv.quotaPeriod,
+          }
+        : permissionQuota.tv,
+    };
+  }
 
-    const movieQuotaUsed = movieQuotaLimit
-      ? await requestRepository.count({
-          where: {
-            requestedBy: {
-              id: this.id,
-            },
-            createdAt: AfterDate(movieDate),
-            type: MediaType.MOVIE,
-            status: Not(MediaRequestStatus.DECLINED),
-          },
+  private async getQuotaStatus(
+    mediaType: MediaType,
+    quota: Required<Pick<Quota, 'quotaType' | 'quotaPeriod'>> & Quota
+  ): Promise<QuotaStatus> {
+    const requestRepository = getRepository(MediaRequest);
+    const limit = quota.quotaLimit;
+    const startDate = getQuotaStartDate(quota);
+    let used = 0;
+
+    if (limit && quota.quotaType === QuotaType.REQUESTS) {
+      used =
+        mediaType === MediaType.MOVIE
+          ? // Count movie requests made during quota period
+            await requestRepository.count({
+              where: {
+                requestedBy: {
+                  id: this.id,
+                },
+                createdAt: AfterDate(startDate),
+                type: MediaType.MOVIE,
+                status: Not(MediaRequestStatus.DECLINED),
+              },
+            })
+          : // Count tv season requests made during quota period
+            (
+              await requestRepository
+                .createQueryBuilder('request')
+                .leftJoin('request.seasons', 'seasons')
+                .leftJoin('request.requestedBy', 'requestedBy')
+                .where('request.type = :requestType', {
+                  requestType: MediaType.TV,
+                })
+                .andWhere('requestedBy.id = :userId', {
+                  userId: this.id,
+                })
+                .andWhere('request.createdAt > :date', {
+                  date: startDate.toJSON(),
+                })
+                .andWhere('request.status != :declinedStatus', {
+                  declinedStatus: MediaRequestStatus.DECLINED,
+                })
+                .addSelect((subQuery) => {
+                  return subQuery
+                    .select('COUNT(season.id)', 'seasonCount')
+                    .from(SeasonRequest, 'season')
+                    .leftJoin('season.request', 'parentRequest')
+                    .where('parentRequest.id = request.id');
+                }, 'seasonCount')
+                .getMany()
+            ).reduce(
+              (sum: number, req: MediaRequest) => sum + req.seasonCount,
+              0
+            );
+    } else if (limit) {
+      // Requests made before episode counts and sizes were recorded count
+      // as zero
+      const column =
+        quota.quotaType === QuotaType.EPISODES
+          ? 'episodeCount'
+          : 'estimatedSize';
+      const result = await requestRepository
+        .createQueryBuilder('request')
+        .select(`SUM(request.${column})`, 'total')
+        .leftJoin('request.requestedBy', 'requestedBy')
+        .where('request.type = :requestType', { requestType: mediaType })
+        .andWhere('requestedBy.id = :userId', { userId: this.id })
+        .andWhere('request.createdAt > :date', { date: startDate.toJSON() })
+        .andWhere('request.status != :declinedStatus', {
+          declinedStatus: MediaRequestStatus.DECLINED,
         })
-      : 0;
-
-    const tvQuotaLimit = !canBypass
-      ? this.tvQuotaLimit ?? defaultQuotas.tv.quotaLimit
-      : 0;
-    const tvQuotaDays = this.tvQuotaDays ?? defaultQuotas.tv.quotaDays;
+        .getRawOne<{ total: number | string | null }>();
 
-    // Count tv season requests made during quota period
-    const tvDate = new Date();
-    if (tvQuotaDays) {
-      tvDate.setDate(tvDate.getDate() - tvQuotaDays);
+      used =
+        quota.quotaType === QuotaType.SIZE
+          ? megabytesToGigabytes(Number(result?.total ?? 0))
+          : Number(result?.total ?? 0);
     }
-    const tvQuotaStartDate = tvDate.toJSON();
-    const tvQuotaUsed = tvQuotaLimit
-      ? (
-          await requestRepository
-            .createQueryBuilder('request')
-            .leftJoin('request.seasons', 'seasons')
-            .leftJoin('request.requestedBy', 'requestedBy')
-            .where('request.type = :requestType', {
-              requestType: MediaType.TV,
-            })
-            .andWhere('requestedBy.id = :userId', {
-              userId: this.id,
-            })
-            .andWhere('request.createdAt > :date', {
-              date: tvQuotaStartDate,
-            })
-            .andWhere('request.status != :declinedStatus', {
-              declinedStatus: MediaRequestStatus.DECLINED,
-            })
-            .addSelect((subQuery) => {
-              return subQuery
-                .select('COUNT(season.id)', 'seasonCount')
-                .from(SeasonRequest, 'season')
-                .leftJoin('season.request', 'parentRequest')
-                .where('parentRequest.id = request.id');
-            }, 'seasonCount')
-            .getMany()
-        ).reduce((sum: number, req: MediaRequest) => sum + req.seasonCount, 0)
-      : 0;
 
     return {
-      movie: {
-        days: movieQuotaDays,
-        limit: movieQuotaLimit,
-        used: movieQuotaUsed,
-        remaining: movieQuotaLimit
-          ? Math.max(0, movieQuotaLimit - movieQuotaUsed)
-          : undefined,
-        restricted:
-          movieQuotaLimit && movieQuotaLimit - movieQuotaUsed <= 0
-            ? true
-            : false,
-      },
-      tv: {
-        days: tvQuotaDays,
-        limit: tvQuotaLimit,
-        used: tvQuotaUsed,
-        remaining: tvQuotaLimit
-          ? Math.max(0, tvQuotaLimit - tvQuotaUsed)
-          : undefined,
-        restricted:
-          tvQuotaLimit && tvQuotaLimit - tvQuotaUsed <= 0 ? true : false,
-      },
+      days: quota.quotaDays,
+      limit,
+      used,
+      remaining: limit ? Math.max(0, limit - used) : undefined,
+      restricted: limit && limit - used <= 0 ? true : false,
+      type: quota.quotaType,
+      period: quota.quotaPeriod,
+      resetsAt: getQuotaResetDate(quota),
     };
   }
+
+  public async getQuota(): Promise<QuotaResponse> {
+    const defaultQuotas = this.getDefaultQuotas();
+    const canBypass = this.hasPermission([Permission.MANAGE_USERS], {
+      type: 'or',
+    });
+
+    const [movie, tv] = await Promise.all([
+      this.getQuotaStatus(MediaType.MOVIE, {
+        quotaLimit: !canBypass
+          ? this.movieQuotaLimit ?? defaultQuotas.movie.quotaLimit
+          : 0,
+        quotaDays: this.movieQuotaDays ?? defaultQuotas.movie.quotaDays,
+        quotaType:
+          this.movieQuotaType ??
+          defaultQuotas.movie.quotaType ??
+          QuotaType.REQUESTS,
+        quotaPeriod:
+          this.movieQuotaPeriod ??
+          defaultQuotas.movie.quotaPeriod ??
+          QuotaPeriod.ROLLING,
+      }),
+      this.getQuotaStatus(MediaType.TV, {
+        quotaLimit: !canBypass
+          ? this.tvQuotaLimit ?? defaultQuotas.tv.quotaLimit
+          : 0,
+        quotaDays: this.tvQuotaDays ?? defaultQuotas.tv.quotaDays,
+        quotaType:
+          this.tvQuotaType ?? defaultQuotas.tv.quotaType ?? QuotaType.REQUESTS,
+        quotaPeriod:
+          this.tvQuotaPeriod ??
+          defaultQuotas.tv.quotaPeriod ??
+          QuotaPeriod.ROLLING,
+      }),
+    ]);
+
+    return { movie, tv };
+  }
 }
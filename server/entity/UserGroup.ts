@@ -0,0 +1,93 @@
+import type { QuotaPeriod, QuotaType } from '@server/constants/user';
+import { DbAwareColumn } from '@server/utils/DbColumnHelper';
+import { Column, Entity, ManyToMany, PrimaryGeneratedColumn } from 'typeorm';
+import { User } from './User';
+
+@Entity()
+class UserGroup {
+  @PrimaryGeneratedColumn()
+  public id: number;
+
+  @Column({ unique: true })
+  public name: string;
+
+  // Permissions granted to every member, on top of their own permissions
+  @Column({ type: 'integer', default: 0 })
+  public permissions: number;
+
+  @Column({ type: 'integer', nullable: true })
+  public movieQuotaLimit?: number | null;
+
+  @Column({ type: 'integer', nullable: true })
+  public movieQuotaDays?: number | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  public movieQuotaType?: QuotaType | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  public movieQuotaPeriod?: QuotaPeriod | null;
+
+  @Column({ type: 'integer', nullable: true })
+  public tvQuotaLimit?: number | null;
+
+  @Column({ type: 'integer', nullable: true })
+  public tvQuotaDays?: number | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  public tvQuotaType?: QuotaType | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  public tvQuotaPeriod?: QuotaPeriod | null;
+
+  // Radarr and Sonarr server ids from the settings, used for new requests
+  // which do not pick a server themselves
+  @Column({ type: 'integer', nullable: true })
+  public radarrServerId?: number | null;
+
+  @Column({ type: 'integer', nullable: true })
+  public radarrProfileId?: number | null;
+
+  @Column({ type: 'integer', nullable: true })
+  public sonarrServerId?: number | null;
+
+  @Column({ type: 'integer', nullable: true })
+  public sonarrProfileId?: number | null;
+
+  // Media server library ids, an empty list allows every library
+  @Column({
+    type: 'text',
+    nullable: true,
+    transformer: {
+      from: (value: string | null): string[] => (value ? value.split(',') : []),
+      to: (value?: string[] | null): string | null =>
+        value?.length ? value.join(',') : null,
+    },
+  })
+  public allowedLibraries: string[];
+
+  // Sets the foreign key of the group in the join table owned by the user
+  @ManyToMany(() => User, (user) => user.groups, {
+    onDelete: 'CASCADE',
+    onUpdate: 'CASCADE',
+  })
+  public users: User[];
+
+  // Only loaded when listing groups
+  public userCount?: number;
+
+  @DbAwareColumn({ type: 'datetime', default: () => 'CURRENT_TIMESTAMP' })
+  public createdAt: Date;
+
+  @DbAwareColumn({
+    type: 'datetime',
+    default: () => 'CURRENT_TIMESTAMP',
+    onUpdate: 'CURRENT_TIMESTAMP',
+  })
+  public updatedAt: Date;
+
+  constructor(init?: Partial<UserGroup>) {
+    Object.assign(this, init);
+  }
+}
+
+export default UserGroup;
@@ -0,0 +1,55 @@
+import type { Notification } from '@server/lib/notifications';
+import { DbAwareColumn } from '@server/utils/DbColumnHelper';
+import {
+  Column,
+  Entity,
+  Index,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { User } from './User';
+
+@Entity()
+@Index(['user', 'isRead'])
+class UserNotification {
+  @PrimaryGeneratedColumn()
+  public id: number;
+
+  @ManyToOne(() => User, {
+    nullable: false,
+    onDelete: 'CASCADE',
+  })
+  public user: User;
+
+  @Column({ type: 'integer' })
+  public type: Notification;
+
+  @Column({ nullable: true })
+  public event?: string;
+
+  @Column()
+  public subject: string;
+
+  @Column({ type: 'text', nullable: true })
+  public message?: string;
+
+  @Column({ nullable: true })
+  public image?: string;
+
+  // Path of the page the notification links to, such as /movie/603
+  @Column({ nullable: true })
+  public url?: string;
+
+  @Column({ default: false })
+  public isRead: boolean;
+
+  @DbAwareColumn({ type: 'datetime', default: () => 'CURRENT_TIMESTAMP' })
+  @Index()
+  public createdAt: Date;
+
+  constructor(init?: Partial<UserNotification>) {
+    Object.assign(this, init);
+  }
+}
+
+export default UserNotification;
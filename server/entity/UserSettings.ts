@@ -1,5 +1,9 @@
-import type { NotificationAgentTypes } from '@server/interfaces/api/userSettingsInterfaces';
+import type {
+  NotificationAgentTypes,
+  QuietHours,
+} from '@server/interfaces/api/userSettingsInterfaces';
 import { hasNotificationType, Notification } from '@server/lib/notifications';
+import type { NotificationDigestFrequency } from '@server/lib/settings';
 import { NotificationAgentKey } from '@server/lib/settings';
 import {
   Column,
@@ -66,6 +70,36 @@ export class UserSettings {
   @Column({ nullable: true })
   public telegramSendSilently?: boolean;
 
+  // Room ID, room alias or user ID to deliver Matrix notifications to
+  @Column({ nullable: true })
+  public matrixRoomId?: string;
+
+  // Apprise URLs to deliver notifications to, separated by commas or spaces
+  @Column({ type: 'text', nullable: true })
+  public appriseUrls?: string;
+
+  // Overrides the digest schedule of the notification agents for
+  // notifications sent to the user
+  @Column({ type: 'varchar', nullable: true })
+  public digestFrequency?: NotificationDigestFrequency | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  public digestTime?: string | null;
+
+  // Windows in which notifications sent to the user are held back until the
+  // window ends
+  @Column({
+    type: 'text',
+    nullable: true,
+    transformer: {
+      from: (value: string | null): QuietHours | null =>
+        value ? JSON.parse(value) : null,
+      to: (value?: QuietHours | null): string | null | undefined =>
+        value === undefined ? undefined : value ? JSON.stringify(value) : null,
+    },
+  })
+  public quietHours?: QuietHours | null;
+
   @Column({ nullable: true })
   public watchlistSyncMovies?: boolean;
 
@@ -78,8 +112,10 @@ export class UserSettings {
     transformer: {
       from: (value: string | null): Partial<NotificationAgentTypes> => {
         const defaultTypes = {
+          apprise: 0,
           email: ALL_NOTIFICATIONS,
           discord: 0,
+          matrix: 0,
           pushbullet: 0,
           pushover: 0,
           slack: 0,
@@ -6,9 +6,11 @@ import { Session } from '@server/entity/Session';
 import { User } from '@server/entity/User';
 import { startJobs } from '@server/job/schedule';
 import notificationManager from '@server/lib/notifications';
+import AppriseAgent from '@server/lib/notifications/agents/apprise';
 import DiscordAgent from '@server/lib/notifications/agents/discord';
 import EmailAgent from '@server/lib/notifications/agents/email';
 import GotifyAgent from '@server/lib/notifications/agents/gotify';
+import MatrixAgent from '@server/lib/notifications/agents/matrix';
 import NtfyAgent from '@server/lib/notifications/agents/ntfy';
 import PushbulletAgent from '@server/lib/notifications/agents/pushbullet';
 import PushoverAgent from '@server/lib/notifications/agents/pushover';
@@ -108,9 +110,11 @@ app
 
     // Register Notification Agents
     notificationManager.registerAgents([
+      new AppriseAgent(),
       new DiscordAgent(),
       new EmailAgent(),
       new GotifyAgent(),
+      new MatrixAgent(),
       new NtfyAgent(),
       new PushbulletAgent(),
       new PushoverAgent(),
@@ -143,6 +147,10 @@ app
     server.use(cookieParser());
     server.use(express.json());
     server.use(express.urlencoded({ extended: true }));
+    server.use(
+      '/api/v1/settings/backup/restore',
+      express.raw({ type: 'application/octet-stream', limit: '100mb' })
+    );
     server.use((req, _res, next) => {
       try {
         const descriptor = Object.getOwnPropertyDescriptor(req, 'ip');
@@ -0,0 +1,13 @@
+import type ApprovalRule from '@server/entity/ApprovalRule';
+
+export type ApprovalRuleResultsResponse = ApprovalRule[];
+
+export interface ApprovalRuleBody {
+  name: string;
+  mediaType?: ApprovalRule['mediaType'];
+  is4k?: boolean | null;
+  minSeasons?: number | null;
+  requiredApprovals?: number;
+  requireAdmin?: boolean;
+  expiryDays?: number | null;
+}
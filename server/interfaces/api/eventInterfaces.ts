@@ -0,0 +1,53 @@
+import type {
+  MediaRequestStatus,
+  MediaStatus,
+  MediaType,
+} from '@server/constants/media';
+import type { MediaServerType } from '@server/constants/server';
+import type { Library } from '@server/lib/settings';
+
+export interface RequestEventData {
+  requestId: number;
+  mediaId?: number;
+  requestedById?: number;
+  status?: MediaRequestStatus;
+  removed: boolean;
+}
+
+export interface MediaEventData {
+  mediaId: number;
+  tmdbId: number;
+  mediaType: MediaType;
+  status: MediaStatus;
+  status4k: MediaStatus;
+}
+
+export interface ScanEventData {
+  server: MediaServerType;
+  recentOnly: boolean;
+  running: boolean;
+  progress: number;
+  total: number;
+  currentLibrary?: Library;
+  libraries: Library[];
+}
+
+export interface DownloadsEventData {
+  // Number of items in the Radarr and Sonarr queues
+  downloading: number;
+}
+
+export interface UserNotificationEventData {
+  userId: number;
+  notificationId: number;
+}
+
+export type ServerEvent =
+  | { type: 'request'; data: RequestEventData }
+  | { type: 'media'; data: MediaEventData }
+  | { type: 'scan'; data: ScanEventData }
+  | { type: 'jobs'; data: Record<string, never> }
+  | { type: 'downloads'; data: DownloadsEventData }
+  | { type: 'notification'; data: UserNotificationEventData };
+
+export type ServerEventType = ServerEvent['type'];
@@ -0,0 +1,12 @@
+import type Invite from '@server/entity/Invite';
+
+export type InviteResultsResponse = Invite[];
+
+export interface InviteBody {
+  code?: string;
+  maxUses?: number | null;
+  expiresAt?: string | null;
+  permissions?: number | null;
+  groupId?: number | null;
+  createJellyfinUser?: boolean;
+}
@@ -1,3 +1,33 @@
 import type OverrideRule from '@server/entity/OverrideRule';
 
 export type OverrideRuleResultsResponse = OverrideRule[];
+
+export interface OverrideRuleRequestBody {
+  users?: string;
+  genre?: string;
+  language?: string;
+  keywords?: string;
+  yearFrom?: number | null;
+  yearTo?: number | null;
+  runtimeMin?: number | null;
+  runtimeMax?: number | null;
+  certifications?: string;
+  originCountries?: string;
+  networks?: string;
+  studios?: string;
+  is4k?: boolean | null;
+  isAnime?: boolean | null;
+  profileId?: number;
+  rootFolder?: string;
+  tags?: string;
+  radarrServiceId?: number;
+  sonarrServiceId?: number;
+  stopProcessing?: boolean;
+}
+
+export interface OverrideRuleTestResponse {
+  rules: OverrideRule[];
+  rootFolder?: string;
+  profileId?: number;
+  tags?: number[];
+}
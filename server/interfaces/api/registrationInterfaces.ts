@@ -0,0 +1,26 @@
+import type AccountRequest from '@server/entity/AccountRequest';
+import type { User } from '@server/entity/User';
+
+export interface InviteDetailsResponse {
+  code: string;
+  expiresAt?: Date | null;
+  createJellyfinUser: boolean;
+}
+
+export interface RegistrationBody {
+  email: string;
+  username?: string;
+  password: string;
+}
+
+export interface RegistrationResponse {
+  user: Partial<User>;
+  // Users who must set up two-factor authentication sign in afterwards
+  signedIn: boolean;
+}
+
+export interface AccountRequestBody extends RegistrationBody {
+  message?: string;
+}
+
+export type AccountRequestResultsResponse = AccountRequest[];
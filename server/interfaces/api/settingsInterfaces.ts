@@ -1,3 +1,5 @@
+import type OutboxNotification from '@server/entity/OutboxNotification';
+import type { NotificationTemplates } from '@server/lib/settings';
 import type { PaginatedResponse } from './common';
 
 export type LogMessage = {
@@ -32,12 +34,15 @@ export interface PublicSettingsResponse {
   hideBlacklisted: boolean;
   localLogin: boolean;
   mediaServerLogin: boolean;
+  oidcLogin: boolean;
+  oidcProviderName: string;
   movie4kEnabled: boolean;
   series4kEnabled: boolean;
   discoverRegion: string;
   streamingRegion: string;
   originalLanguage: string;
   mediaServerType: number;
+  mediaServerTypes: number[];
   partialRequestsEnabled: boolean;
   enableSpecialEpisodes: boolean;
   cacheImages: boolean;
@@ -46,6 +51,7 @@ export interface PublicSettingsResponse {
   locale: string;
   emailEnabled: boolean;
   newPlexLogin: boolean;
+  accountRequestsEnabled: boolean;
 
   youtubeUrl: string;
   ratingOverlays: string[];
@@ -75,3 +81,17 @@ export interface StatusResponse {
   commitsBehind: number;
   restartRequired: boolean;
 }
+
+export interface NotificationLogResultsResponse extends PaginatedResponse {
+  results: OutboxNotification[];
+}
+
+export interface NotificationTemplatesResponse {
+  templates: NotificationTemplates;
+  placeholders: string[];
+}
+
+export interface NotificationTemplatePreviewResponse {
+  subject: string;
+  body: string;
+}
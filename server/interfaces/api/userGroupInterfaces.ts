@@ -0,0 +1,22 @@
+import type { QuotaPeriod, QuotaType } from '@server/constants/user';
+import type UserGroup from '@server/entity/UserGroup';
+
+export type UserGroupResultsResponse = UserGroup[];
+
+export interface UserGroupBody {
+  name: string;
+  permissions?: number;
+  movieQuotaLimit?: number | null;
+  movieQuotaDays?: number | null;
+  movieQuotaType?: QuotaType | null;
+  movieQuotaPeriod?: QuotaPeriod | null;
+  tvQuotaLimit?: number | null;
+  tvQuotaDays?: number | null;
+  tvQuotaType?: QuotaType | null;
+  tvQuotaPeriod?: QuotaPeriod | null;
+  radarrServerId?: number | null;
+  radarrProfileId?: number | null;
+  sonarrServerId?: number | null;
+  sonarrProfileId?: number | null;
+  allowedLibraries?: string[];
+}
@@ -1,6 +1,8 @@
+import type { QuotaPeriod, QuotaType } from '@server/constants/user';
 import type Media from '@server/entity/Media';
 import type { MediaRequest } from '@server/entity/MediaRequest';
 import type { User } from '@server/entity/User';
+import type UserNotification from '@server/entity/UserNotification';
 import type { PaginatedResponse } from './common';
 
 export interface UserResultsResponse extends PaginatedResponse {
@@ -17,6 +19,10 @@ export interface QuotaStatus {
   used: number;
   remaining?: number;
   restricted: boolean;
+  // Movies or seasons, episodes, or gigabytes
+  type: QuotaType;
+  period: QuotaPeriod;
+  resetsAt?: Date;
 }
 
 export interface QuotaResponse {
@@ -28,3 +34,33 @@ export interface UserWatchDataResponse {
   recentlyWatched: Media[];
   playCount: number;
 }
+
+export interface UserNotificationsResponse extends PaginatedResponse {
+  results: UserNotification[];
+  unreadCount: number;
+}
+
+export interface UserJellyfinLibrary {
+  id: string;
+  name: string;
+  type: 'show' | 'movie';
+  hasAccess: boolean;
+}
+
+export interface UserJellyfinResponse {
+  linked: boolean;
+  jellyfinUsername?: string;
+  isAdministrator?: boolean;
+  enableAllLibraries: boolean;
+  libraries: UserJellyfinLibrary[];
+}
+
+export interface UserJellyfinCreateBody {
+  username: string;
+  password: string;
+}
+
+export interface UserJellyfinLibrariesBody {
+  enableAllLibraries: boolean;
+  libraryIds: string[];
+}
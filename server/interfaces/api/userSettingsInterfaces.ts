@@ -1,4 +1,8 @@
-import type { NotificationAgentKey } from '@server/lib/settings';
+import type { QuotaPeriod, QuotaType } from '@server/constants/user';
+import type {
+  NotificationAgentKey,
+  NotificationDigestFrequency,
+} from '@server/lib/settings';
 
 export interface UserSettingsGeneralResponse {
   username?: string;
@@ -12,15 +16,40 @@ export interface UserSettingsGeneralResponse {
   movieQuotaDays?: number;
   tvQuotaLimit?: number;
   tvQuotaDays?: number;
+  movieQuotaType?: QuotaType | null;
+  movieQuotaPeriod?: QuotaPeriod | null;
+  tvQuotaType?: QuotaType | null;
+  tvQuotaPeriod?: QuotaPeriod | null;
   globalMovieQuotaDays?: number;
   globalMovieQuotaLimit?: number;
+  globalMovieQuotaType?: QuotaType;
+  globalMovieQuotaPeriod?: QuotaPeriod;
   globalTvQuotaLimit?: number;
   globalTvQuotaDays?: number;
+  globalTvQuotaType?: QuotaType;
+  globalTvQuotaPeriod?: QuotaPeriod;
   watchlistSyncMovies?: boolean;
   watchlistSyncTv?: boolean;
 }
 
 export type NotificationAgentTypes = Record<NotificationAgentKey, number>;
+
+export interface QuietHoursWindow {
+  // Days of the week on which the window starts, where 0 is Sunday
+  days: number[];
+  // Times of day in the HH:mm format. A window which ends before it starts
+  // lasts until the next day.
+  start: string;
+  end: string;
+}
+
+export interface QuietHours {
+  enabled: boolean;
+  // IANA time zone of the windows, such as Europe/Amsterdam
+  timezone: string;
+  windows: QuietHoursWindow[];
+}
+
 export interface UserSettingsNotificationsResponse {
   emailEnabled?: boolean;
   pgpKey?: string;
@@ -36,6 +65,33 @@ export interface UserSettingsNotificationsResponse {
   telegramChatId?: string;
   telegramMessageThreadId?: string;
   telegramSendSilently?: boolean;
+  matrixEnabled?: boolean;
+  matrixRoomId?: string;
+  appriseEnabled?: boolean;
+  appriseUrls?: string;
+  digestFrequency?: NotificationDigestFrequency | null;
+  digestTime?: string | null;
   webPushEnabled?: boolean;
+  quietHours?: QuietHours | null;
   notificationTypes: Partial<NotificationAgentTypes>;
 }
+
+export interface UserApiKeyResponse {
+  id: number;
+  name: string;
+  keyPreview: string;
+  permissions: number;
+  expiresAt?: Date | null;
+  lastUsedAt?: Date | null;
+  createdAt: Date;
+}
+
+export interface UserApiKeyCreateResponse extends UserApiKeyResponse {
+  key: string;
+}
+
+export interface UserSettingsTwoFactorResponse {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
@@ -1,9 +1,17 @@
 import { MediaServerType } from '@server/constants/server';
 import blacklistedTagsProcessor from '@server/job/blacklistedTagsProcessor';
+import { expirePendingRequests } from '@server/lib/approval';
 import availabilitySync from '@server/lib/availabilitySync';
+import backupManager from '@server/lib/backup';
+import { doubanMappingSync } from '@server/lib/doubanMapping';
 import downloadTracker from '@server/lib/downloadtracker';
+import { publishEvent } from '@server/lib/events';
 import ImageProxy from '@server/lib/imageproxy';
+import { sendNotificationDigests } from '@server/lib/notifications/digest';
+import { pruneUserNotifications } from '@server/lib/notifications/inbox';
+import { processNotificationOutbox } from '@server/lib/notifications/outbox';
 import refreshToken from '@server/lib/refreshToken';
+import { embyFullScanner, embyRecentScanner } from '@server/lib/scanners/emby';
 import {
   jellyfinFullScanner,
   jellyfinRecentScanner,
@@ -31,10 +39,10 @@ interface ScheduledJob {
 export const scheduledJobs: ScheduledJob[] = [];
 
 export const startJobs = (): void => {
-  const jobs = getSettings().jobs;
-  const mediaServerType = getSettings().main.mediaServerType;
+  const settings = getSettings();
+  const jobs = settings.jobs;
 
-  if (mediaServerType === MediaServerType.PLEX) {
+  if (settings.isMediaServerEnabled(MediaServerType.PLEX)) {
     // Run recently added plex scan every 5 minutes
     scheduledJobs.push({
       id: 'plex-recently-added-scan',
@@ -100,45 +108,53 @@ export const startJobs = (): void => {
         watchlistSync.syncWatchlist();
       }),
     });
-  } else if (
-    mediaServerType === MediaServerType.JELLYFIN ||
-    mediaServerType === MediaServerType.EMBY
+  }
+
+  if (
+    settings.isMediaServerEnabled(MediaServerType.JELLYFIN) ||
+    settings.isMediaServerEnabled(MediaServerType.EMBY)
   ) {
+    const isEmby = settings.isMediaServerEnabled(MediaServerType.EMBY);
+    const serverName = isEmby ? 'Emby' : 'Jellyfin';
+    const recentScanner = isEmby ? embyRecentScanner : jellyfinRecentScanner;
+    const fullScanner = isEmby ? embyFullScanner : jellyfinFullScanner;
+
     // Run recently added jellyfin sync every 5 minutes
     scheduledJobs.push({
       id: 'jellyfin-recently-added-scan',
-      name: 'Jellyfin Recently Added Scan',
+      name: `${serverName} Recently Added Scan`,
       type: 'process',
       interval: 'minutes',
       cronSchedule: jobs['jellyfin-recently-added-scan'].schedule,
       job: schedule.scheduleJob(
         jobs['jellyfin-recently-added-scan'].schedule,
         () => {
-          logger.info('Starting scheduled job: Jellyfin Recently Added Scan', {
-            label: 'Jobs',
-          });
-          jellyfinRecentScanner.run();
+          logger.info(
+            `Starting scheduled job: ${serverName} Recently Added Scan`,
+            { label: 'Jobs' }
+          );
+          recentScanner.run();
         }
       ),
-      running: () => jellyfinRecentScanner.status().running,
-      cancelFn: () => jellyfinRecentScanner.cancel(),
+      running: () => recentScanner.status().running,
+      cancelFn: () => recentScanner.cancel(),
     });
 
     // Run full jellyfin sync every 24 hours
     scheduledJobs.push({
       id: 'jellyfin-full-scan',
-      name: 'Jellyfin Full Library Scan',
+      name: `${serverName} Full Library Scan`,
       type: 'process',
       interval: 'hours',
       cronSchedule: jobs['jellyfin-full-scan'].schedule,
       job: schedule.scheduleJob(jobs['jellyfin-full-scan'].schedule, () => {
-        logger.info('Starting scheduled job: Jellyfin Full Scan', {
+        logger.info(`Starting scheduled job: ${serverName} Full Scan`, {
           label: 'Jobs',
         });
-        jellyfinFullScanner.run();
+        fullScanner.run();
       }),
-      running: () => jellyfinFullScanner.status().running,
-      cancelFn: () => jellyfinFullScanner.cancel(),
+      running: () => fullScanner.status().running,
+      cancelFn: () => fullScanner.cancel(),
     });
   }
 
@@ -254,5 +270,90 @@ export const startJobs = (): void => {
     cancelFn: () => blacklistedTagsProcessor.cancel(),
   });
 
+  // Create a backup of the settings and database every day
+  scheduledJobs.push({
+    id: 'backup',
+    name: 'Backup',
+    type: 'process',
+    interval: 'days',
+    cronSchedule: jobs['backup'].schedule,
+    job: schedule.scheduleJob(jobs['backup'].schedule, () => {
+      logger.info('Starting scheduled job: Backup', {
+        label: 'Jobs',
+      });
+      backupManager.run();
+    }),
+    running: () => backupManager.running,
+  });
+
+  // Decline pending requests past the expiry of their approval rules every hour
+  scheduledJobs.push({
+    id: 'pending-request-expiry',
+    name: 'Pending Request Expiry',
+    type: 'process',
+    interval: 'hours',
+    cronSchedule: jobs['pending-request-expiry'].schedule,
+    job: schedule.scheduleJob(jobs['pending-request-expiry'].schedule, () => {
+      logger.info('Starting scheduled job: Pending Request Expiry', {
+        label: 'Jobs',
+      });
+      expirePendingRequests();
+    }),
+  });
+
+  // Map library media to Douban and refresh stale Douban ratings every day
+  scheduledJobs.push({
+    id: 'douban-mapping-sync',
+    name: 'Douban Mapping Sync',
+    type: 'process',
+    interval: 'days',
+    cronSchedule: jobs['douban-mapping-sync'].schedule,
+    job: schedule.scheduleJob(jobs['douban-mapping-sync'].schedule, () => {
+      logger.info('Starting scheduled job: Douban Mapping Sync', {
+        label: 'Jobs',
+      });
+      doubanMappingSync.run();
+    }),
+    running: () => doubanMappingSync.status().running,
+    cancelFn: () => doubanMappingSync.cancel(),
+  });
+
+  // Send the notification digests which are due every 5 minutes
+  scheduledJobs.push({
+    id: 'notification-digest',
+    name: 'Notification Digest',
+    type: 'process',
+    interval: 'minutes',
+    cronSchedule: jobs['notification-digest'].schedule,
+    job: schedule.scheduleJob(jobs['notification-digest'].schedule, () => {
+      logger.info('Starting scheduled job: Notification Digest', {
+        label: 'Jobs',
+      });
+      sendNotificationDigests();
+    }),
+  });
+
+  // Retry the notifications which failed to send every minute, and clean up
+  // old in-app notifications
+  scheduledJobs.push({
+    id: 'notification-outbox',
+    name: 'Notification Retries',
+    type: 'process',
+    interval: 'seconds',
+    cronSchedule: jobs['notification-outbox'].schedule,
+    job: schedule.scheduleJob(jobs['notification-outbox'].schedule, () => {
+      logger.debug('Starting scheduled job: Notification Retries', {
+        label: 'Jobs',
+      });
+      processNotificationOutbox();
+      pruneUserNotifications();
+    }),
+  });
+
+  // Let the jobs page know whenever a job is started by its schedule
+  scheduledJobs.forEach((scheduledJob) =>
+    scheduledJob.job.on('run', () => publishEvent('jobs', {}))
+  );
+
   logger.info('Scheduled jobs loaded', { label: 'Jobs' });
 };
@@ -0,0 +1,84 @@
+import ApprovalRule from '@server/entity/ApprovalRule';
+import type { MediaRequest } from '@server/entity/MediaRequest';
+import { User } from '@server/entity/User';
+import {
+  ApprovalPermissionError,
+  DuplicateApprovalError,
+  isFullyApproved,
+  validateApproval,
+} from '@server/lib/approval';
+import { Permission } from '@server/lib/permissions';
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+const requester = new User({ id: 2, permissions: Permission.AUTO_APPROVE });
+const firstApprover = new User({ id: 3, permissions: Permission.ADMIN });
+const secondApprover = new User({ id: 4, permissions: Permission.ADMIN });
+
+const TWO_APPROVALS_RULE = new ApprovalRule({
+  name: '4K',
+  requiredApprovals: 2,
+  requireAdmin: false,
+});
+
+const createRequest = (approvers: User[] = []): MediaRequest =>
+  ({
+    requestedBy: requester,
+    approvals: approvers.map((user) => ({ user })),
+  } as unknown as MediaRequest);
+
+describe('isFullyApproved', () => {
+  it('leaves the approval of the requester out of the rules', () => {
+    assert.equal(
+      isFullyApproved(
+        [TWO_APPROVALS_RULE],
+        [requester, firstApprover],
+        requester
+      ),
+      false
+    );
+    assert.equal(
+      isFullyApproved(
+        [TWO_APPROVALS_RULE],
+        [requester, firstApprover, secondApprover],
+        requester
+      ),
+      true
+    );
+  });
+
+  it('accepts the approval of the requester without rules', () => {
+    assert.equal(isFullyApproved([], [requester], requester), true);
+  });
+});
+
+describe('validateApproval', () => {
+  it('rejects an approval by the requester', () => {
+    assert.throws(
+      () => validateApproval([TWO_APPROVALS_RULE], createRequest(), requester),
+      ApprovalPermissionError
+    );
+  });
+
+  it('rejects a second approval by the same user', () => {
+    assert.throws(
+      () =>
+        validateApproval(
+          [TWO_APPROVALS_RULE],
+          createRequest([firstApprover]),
+          firstApprover
+        ),
+      DuplicateApprovalError
+    );
+  });
+
+  it('accepts an approval by another user', () => {
+    assert.doesNotThrow(() =>
+      validateApproval(
+        [TWO_APPROVALS_RULE],
+        createRequest([requester]),
+        firstApprover
+      )
+    );
+  });
+});
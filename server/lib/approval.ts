@@ -0,0 +1,173 @@
+import { MediaRequestStatus, MediaType } from '@server/constants/media';
+import { getRepository } from '@server/datasource';
+import ApprovalRule from '@server/entity/ApprovalRule';
+import { MediaRequest } from '@server/entity/MediaRequest';
+import type { User } from '@server/entity/User';
+import { Permission } from '@server/lib/permissions';
+import logger from '@server/logger';
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+export class ApprovalPermissionError extends Error {}
+export class DuplicateApprovalError extends Error {}
+
+export const ruleAppliesTo = (
+  rule: ApprovalRule,
+  request: MediaRequest
+): boolean => {
+  if (rule.mediaType && rule.mediaType !== request.type) {
+    return false;
+  }
+
+  if (
+    rule.is4k !== null &&
+    rule.is4k !== undefined &&
+    rule.is4k !== request.is4k
+  ) {
+    return false;
+  }
+
+  if (
+    rule.minSeasons &&
+    (request.type !== MediaType.TV ||
+      (request.seasons?.length ?? 0) < rule.minSeasons)
+  ) {
+    return false;
+  }
+
+  return true;
+};
+
+export const getApplicableRules = async (
+  request: MediaRequest,
+  rules?: ApprovalRule[]
+): Promise<ApprovalRule[]> => {
+  const allRules = rules ?? (await getRepository(ApprovalRule).find());
+
+  return allRules.filter((rule) => ruleAppliesTo(rule, request));
+};
+
+const countsTowards = (rule: ApprovalRule, user: User): boolean =>
+  !rule.requireAdmin || user.hasPermission(Permission.ADMIN);
+
+// The requester's own approval never counts towards the required approvals
+const isRuleSatisfied = (
+  rule: ApprovalRule,
+  approvers: User[],
+  requestedBy?: User
+): boolean =>
+  approvers.filter(
+    (approver) =>
+      approver.id !== requestedBy?.id && countsTowards(rule, approver)
+  ).length >= rule.requiredApprovals;
+
+/**
+ * A request is approved once it has at least one approval and the
+ * approvals of users other than the requester satisfy every rule that
+ * applies to it.
+ */
+export const isFullyApproved = (
+  rules: ApprovalRule[],
+  approvers: User[],
+  requestedBy?: User
+): boolean =>
+  approvers.length > 0 &&
+  rules.every((rule) => isRuleSatisfied(rule, approvers, requestedBy));
+
+export const getRequiredApprovals = (rules: ApprovalRule[]): number =>
+  Math.max(1, ...rules.map((rule) => rule.requiredApprovals));
+
+/**
+ * Checks that the user is allowed to add an approval to the request. An
+ * approval is refused if the user already approved the request, if the user
+ * made the request and approval rules apply to it, or if it would not count
+ * towards any of the rules that still need approvals.
+ *
+ * @throws DuplicateApprovalError if the user already approved the request
+ * @throws ApprovalPermissionError if the approval would not count
+ */
+export const validateApproval = (
+  rules: ApprovalRule[],
+  request: MediaRequest,
+  user: User
+): void => {
+  const approvers = (request.approvals ?? []).map((approval) => approval.user);
+
+  if (approvers.some((approver) => approver.id === user.id)) {
+    throw new DuplicateApprovalError('You already approved this request.');
+  }
+
+  if (rules.length > 0 && request.requestedBy?.id === user.id) {
+    throw new ApprovalPermissionError(
+      'This request must be approved by someone other than the requester.'
+    );
+  }
+
+  const unsatisfiedRules = rules.filter(
+    (rule) => !isRuleSatisfied(rule, approvers, request.requestedBy)
+  );
+
+  if (
+    unsatisfiedRules.length > 0 &&
+    !unsatisfiedRules.some((rule) => countsTowards(rule, user))
+  ) {
+    throw new ApprovalPermissionError(
+      'This request must be approved by an administrator.'
+    );
+  }
+};
+
+/**
+ * Declines every pending request that has been waiting longer than the
+ * shortest expiry of the approval rules that apply to it. The requester is
+ * notified through the regular decline notification.
+ */
+export const expirePendingRequests = async (): Promise<void> => {
+  const requestRepository = getRepository(MediaRequest);
+  const rules = (await getRepository(ApprovalRule).find()).filter(
+    (rule) => rule.expiryDays
+  );
+
+  if (!rules.length) {
+    return;
+  }
+
+  const pendingRequests = await requestRepository.find({
+    where: { status: MediaRequestStatus.PENDING },
+  });
+
+  for (const request of pendingRequests) {
+    const expiryDays = (await getApplicableRules(request, rules)).map(
+      (rule) => rule.expiryDays as number
+    );
+
+    if (
+      !expiryDays.length ||
+      new Date(request.createdAt).getTime() +
+        Math.min(...expiryDays) * DAY_IN_MS >
+        Date.now()
+    ) {
+      continue;
+    }
+
+    try {
+      request.status = MediaRequestStatus.DECLINED;
+      request.statusReason = `Still pending after ${Math.min(
+        ...expiryDays
+      )} days`;
+      await requestRepository.save(request);
+
+      logger.info('Declined expired pending request', {
+        label: 'Approval',
+        requestId: request.id,
+        mediaId: request.media.id,
+      });
+    } catch (e) {
+      logger.error('Failed to decline expired pending request', {
+        label: 'Approval',
+        requestId: request.id,
+        errorMessage: e.message,
+      });
+    }
+  }
+};
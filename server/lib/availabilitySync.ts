@@ -1,5 +1,5 @@
+import type JellyfinAPI from '@server/api/jellyfin';
 import type { JellyfinLibraryItem } from '@server/api/jellyfin';
-import JellyfinAPI from '@server/api/jellyfin';
 import type { PlexMetadata } from '@server/api/plexapi';
 import PlexAPI from '@server/api/plexapi';
 import RadarrAPI, { type RadarrMovie } from '@server/api/servarr/radarr';
@@ -16,6 +16,18 @@ import type { RadarrSettings, SonarrSettings } from '@server/lib/settings';
 import { getSettings } from '@server/lib/settings';
 import logger from '@server/logger';
 import { getHostname } from '@server/utils/getHostname';
+import { getJellyfinClient } from '@server/utils/getJellyfinClient';
+
+const getMediaServerNames = (mediaServerTypes: MediaServerType[]) =>
+  mediaServerTypes
+    .map((type) =>
+      type === MediaServerType.PLEX
+        ? 'plex'
+        : type === MediaServerType.JELLYFIN
+        ? 'jellyfin'
+        : 'emby'
+    )
+    .join(' or ');
 
 class AvailabilitySync {
   public running = false;
@@ -31,7 +43,11 @@ class AvailabilitySync {
 
   async run() {
     const settings = getSettings();
-    const mediaServerType = getSettings().main.mediaServerType;
+    const mediaServerTypes = settings.mediaServerTypes;
+    const isPlexEnabled = settings.isMediaServerEnabled(MediaServerType.PLEX);
+    const isJellyfinEnabled =
+      settings.isMediaServerEnabled(MediaServerType.JELLYFIN) ||
+      settings.isMediaServerEnabled(MediaServerType.EMBY);
     this.running = true;
     this.plexSeasonsCache = {};
     this.jellyfinSeasonsCache = {};
@@ -47,70 +63,63 @@ class AvailabilitySync {
 
       const userRepository = getRepository(User);
 
-      // If it is plex admin is selected using plexToken if jellyfin admin is selected using jellyfinUserID
+      if (!isPlexEnabled && !isJellyfinEnabled) {
+        logger.error('An admin is not configured.');
 
-      let admin = null;
+        this.running = false;
+        return;
+      }
 
-      if (mediaServerType === MediaServerType.PLEX) {
-        admin = await userRepository.findOne({
+      // Plex is checked using the admin's plexToken, Jellyfin and Emby using
+      // the admin's jellyfinUserId
+      if (isPlexEnabled) {
+        const admin = await userRepository.findOne({
           select: { id: true, plexToken: true },
           where: { id: 1 },
         });
-      } else if (
-        mediaServerType === MediaServerType.JELLYFIN ||
-        mediaServerType === MediaServerType.EMBY
-      ) {
-        admin = await userRepository.findOne({
+
+        if (admin && admin.plexToken) {
+          this.plexClient = new PlexAPI({ plexToken: admin.plexToken });
+        } else {
+          logger.error('Plex admin is not configured.');
+        }
+      }
+
+      if (isJellyfinEnabled) {
+        const admin = await userRepository.findOne({
           where: { id: 1 },
           select: ['id', 'jellyfinUserId', 'jellyfinDeviceId'],
           order: { id: 'ASC' },
         });
-      }
-
-      switch (mediaServerType) {
-        case MediaServerType.PLEX:
-          if (admin && admin.plexToken) {
-            this.plexClient = new PlexAPI({ plexToken: admin.plexToken });
-          } else {
-            logger.error('Plex admin is not configured.');
-          }
-          break;
-        case MediaServerType.JELLYFIN:
-        case MediaServerType.EMBY:
-          if (admin) {
-            this.jellyfinClient = new JellyfinAPI(
-              getHostname(),
-              settings.jellyfin.apiKey,
-              admin.jellyfinDeviceId
-            );
 
-            this.jellyfinClient.setUserId(admin.jellyfinUserId ?? '');
+        if (admin) {
+          this.jellyfinClient = getJellyfinClient(
+            getHostname(),
+            settings.jellyfin.apiKey,
+            admin.jellyfinDeviceId
+          );
 
-            try {
-              await this.jellyfinClient.getSystemInfo();
-            } catch (e) {
-              logger.error('Sync interrupted.', {
-                label: 'AvailabilitySync',
-                status: e.statusCode,
-                error: e.name,
-                errorMessage: e.errorCode,
-              });
+          this.jellyfinClient.setUserId(admin.jellyfinUserId ?? '');
 
-              this.running = false;
-              return;
-            }
-          } else {
-            logger.error('Jellyfin admin is not configured.');
+          try {
+            await this.jellyfinClient.getSystemInfo();
+          } catch (e) {
+            logger.error('Sync interrupted.', {
+              label: 'AvailabilitySync',
+              status: e.statusCode,
+              error: e.name,
+              errorMessage: e.errorCode,
+            });
 
             this.running = false;
             return;
           }
-          break;
-        default:
-          logger.error('An admin is not configured.');
+        } else {
+          logger.error('Jellyfin admin is not configured.');
 
           this.running = false;
           return;
+        }
       }
 
       for await (const media of this.loadAvailableMediaPaginated(pageSize)) {
@@ -118,27 +127,18 @@ class AvailabilitySync {
           throw new Error('Job aborted');
         }
 
-        // Check plex, radarr, and sonarr for that specific media and
+        // Check the media servers, radarr, and sonarr for that specific media and
         // if unavailable, then we change the status accordingly.
         // If a non-4k or 4k version exists in at least one of the instances, we will only update that specific version
         if (media.mediaType === 'movie') {
           let movieExists = false;
           let movieExists4k = false;
 
-          // if (mediaServerType === MediaServerType.PLEX) {
-          //   await this.mediaExistsInPlex(media, false);
-          // } else if (
-          //   mediaServerType === MediaServerType.JELLYFIN ||
-          //   mediaServerType === MediaServerType.EMBY
-          // ) {
-          //   await this.mediaExistsInJellyfin(media, false);
-          // }
-
           const existsInRadarr = await this.mediaExistsInRadarr(media, false);
           const existsInRadarr4k = await this.mediaExistsInRadarr(media, true);
 
           // plex
-          if (mediaServerType === MediaServerType.PLEX) {
+          if (isPlexEnabled) {
             const { existsInPlex } = await this.mediaExistsInPlex(media, false);
             const { existsInPlex: existsInPlex4k } =
               await this.mediaExistsInPlex(media, true);
@@ -165,10 +165,7 @@ class AvailabilitySync {
           }
 
           //jellyfin
-          if (
-            mediaServerType === MediaServerType.JELLYFIN ||
-            mediaServerType === MediaServerType.EMBY
-          ) {
+          if (isJellyfinEnabled) {
             const { existsInJellyfin } = await this.mediaExistsInJellyfin(
               media,
               false
@@ -198,15 +195,15 @@ class AvailabilitySync {
           }
 
           if (!movieExists && media.status === MediaStatus.AVAILABLE) {
-            await this.mediaUpdater(media, false, mediaServerType);
+            await this.mediaUpdater(media, false, mediaServerTypes);
           }
 
           if (!movieExists4k && media.status4k === MediaStatus.AVAILABLE) {
-            await this.mediaUpdater(media, true, mediaServerType);
+            await this.mediaUpdater(media, true, mediaServerTypes);
           }
         }
 
-        // If both versions still exist in plex, we still need
+        // If both versions still exist in the media servers, we still need
         // to check through sonarr to verify season availability
         if (media.mediaType === 'tv') {
           let showExists = false;
@@ -239,7 +236,7 @@ class AvailabilitySync {
           } = await this.mediaExistsInSonarr(media, true);
 
           //plex
-          if (mediaServerType === MediaServerType.PLEX) {
+          if (isPlexEnabled) {
             if (existsInPlex || existsInSonarr) {
               showExists = true;
               logger.info(
@@ -249,9 +246,7 @@ class AvailabilitySync {
                 }
               );
             }
-          }
 
-          if (mediaServerType === MediaServerType.PLEX) {
             if (existsInPlex4k || existsInSonarr4k) {
               showExists4k = true;
               logger.info(
@@ -264,10 +259,7 @@ class AvailabilitySync {
           }
 
           //jellyfin
-          if (
-            mediaServerType === MediaServerType.JELLYFIN ||
-            mediaServerType === MediaServerType.EMBY
-          ) {
+          if (isJellyfinEnabled) {
             if (existsInJellyfin || existsInSonarr) {
               showExists = true;
               logger.info(
@@ -277,12 +269,7 @@ class AvailabilitySync {
                 }
               );
             }
-          }
 
-          if (
-            mediaServerType === MediaServerType.JELLYFIN ||
-            mediaServerType === MediaServerType.EMBY
-          ) {
             if (existsInJellyfin4k || existsInSonarr4k) {
               showExists4k = true;
               logger.info(
@@ -295,10 +282,10 @@ class AvailabilitySync {
           }
 
           // Here we will create a final map that will cross compare
-          // with plex and sonarr. Filtered seasons will go through
-          // each season and assume the season does not exist. If Plex or
-          // Sonarr finds that season, we will change the final seasons value
-          // to true.
+          // with the media servers and sonarr. Filtered seasons will go through
+          // each season and assume the season does not exist. If a media
+          // server or Sonarr finds that season, we will change the final
+          // seasons value to true.
           const filteredSeasonsMap: Map<number, boolean> = new Map();
 
           media.seasons
@@ -312,44 +299,22 @@ class AvailabilitySync {
             );
 
           // non-4k
-          const finalSeasons: Map<number, boolean> = new Map();
+          const finalSeasons = this.mergeSeasonsMaps([
+            ...(isPlexEnabled ? [plexSeasonsMap] : []),
+            ...(isJellyfinEnabled ? [jellyfinSeasonsMap] : []),
+          ]);
 
-          if (mediaServerType === MediaServerType.PLEX) {
-            plexSeasonsMap.forEach((value, key) => {
+          filteredSeasonsMap.forEach((value, key) => {
+            if (!finalSeasons.has(key)) {
               finalSeasons.set(key, value);
-            });
-
-            filteredSeasonsMap.forEach((value, key) => {
-              if (!finalSeasons.has(key)) {
-                finalSeasons.set(key, value);
-              }
-            });
+            }
+          });
 
-            sonarrSeasonsMap.forEach((value, key) => {
-              if (!finalSeasons.has(key)) {
-                finalSeasons.set(key, value);
-              }
-            });
-          } else if (
-            mediaServerType === MediaServerType.JELLYFIN ||
-            mediaServerType === MediaServerType.EMBY
-          ) {
-            jellyfinSeasonsMap.forEach((value, key) => {
+          sonarrSeasonsMap.forEach((value, key) => {
+            if (!finalSeasons.has(key)) {
               finalSeasons.set(key, value);
-            });
-
-            filteredSeasonsMap.forEach((value, key) => {
-              if (!finalSeasons.has(key)) {
-                finalSeasons.set(key, value);
-              }
-            });
-
-            sonarrSeasonsMap.forEach((value, key) => {
-              if (!finalSeasons.has(key)) {
-                finalSeasons.set(key, value);
-              }
-            });
-          }
+            }
+          });
 
           const filteredSeasonsMap4k: Map<number, boolean> = new Map();
 
@@ -364,44 +329,22 @@ class AvailabilitySync {
             );
 
           // 4k
-          const finalSeasons4k: Map<number, boolean> = new Map();
+          const finalSeasons4k = this.mergeSeasonsMaps([
+            ...(isPlexEnabled ? [plexSeasonsMap4k] : []),
+            ...(isJellyfinEnabled ? [jellyfinSeasonsMap4k] : []),
+          ]);
 
-          if (mediaServerType === MediaServerType.PLEX) {
-            plexSeasonsMap4k.forEach((value, key) => {
+          filteredSeasonsMap4k.forEach((value, key) => {
+            if (!finalSeasons4k.has(key)) {
               finalSeasons4k.set(key, value);
-            });
-
-            filteredSeasonsMap4k.forEach((value, key) => {
-              if (!finalSeasons4k.has(key)) {
-                finalSeasons4k.set(key, value);
-              }
-            });
+            }
+          });
 
-            sonarrSeasonsMap4k.forEach((value, key) => {
-              if (!finalSeasons4k.has(key)) {
-                finalSeasons4k.set(key, value);
-              }
-            });
-          } else if (
-            mediaServerType === MediaServerType.JELLYFIN ||
-            mediaServerType === MediaServerType.EMBY
-          ) {
-            jellyfinSeasonsMap4k.forEach((value, key) => {
+          sonarrSeasonsMap4k.forEach((value, key) => {
+            if (!finalSeasons4k.has(key)) {
               finalSeasons4k.set(key, value);
-            });
-
-            filteredSeasonsMap4k.forEach((value, key) => {
-              if (!finalSeasons4k.has(key)) {
-                finalSeasons4k.set(key, value);
-              }
-            });
-
-            sonarrSeasonsMap4k.forEach((value, key) => {
-              if (!finalSeasons4k.has(key)) {
-                finalSeasons4k.set(key, value);
-              }
-            });
-          }
+            }
+          });
 
           if (
             !showExists &&
@@ -414,7 +357,7 @@ class AvailabilitySync {
                 (season) => season.status === MediaStatus.PARTIALLY_AVAILABLE
               ))
           ) {
-            await this.mediaUpdater(media, false, mediaServerType);
+            await this.mediaUpdater(media, false, mediaServerTypes);
           }
 
           if (
@@ -428,7 +371,7 @@ class AvailabilitySync {
                 (season) => season.status4k === MediaStatus.PARTIALLY_AVAILABLE
               ))
           ) {
-            await this.mediaUpdater(media, true, mediaServerType);
+            await this.mediaUpdater(media, true, mediaServerTypes);
           }
 
           // TODO: Figure out how to run seasonUpdater for each season
@@ -438,7 +381,7 @@ class AvailabilitySync {
               media,
               finalSeasons,
               false,
-              mediaServerType
+              mediaServerTypes
             );
           }
 
@@ -447,7 +390,7 @@ class AvailabilitySync {
               media,
               finalSeasons4k,
               true,
-              mediaServerType
+              mediaServerTypes
             );
           }
         }
@@ -469,6 +412,21 @@ class AvailabilitySync {
     this.running = false;
   }
 
+  // A season exists as soon as one of the media servers still has it
+  private mergeSeasonsMaps(
+    seasonsMaps: Map<number, boolean>[]
+  ): Map<number, boolean> {
+    const mergedSeasons: Map<number, boolean> = new Map();
+
+    seasonsMaps.forEach((seasonsMap) =>
+      seasonsMap.forEach((value, key) => {
+        mergedSeasons.set(key, value || !!mergedSeasons.get(key));
+      })
+    );
+
+    return mergedSeasons;
+  }
+
   private async *loadAvailableMediaPaginated(pageSize: number) {
     let offset = 0;
     const mediaRepository = getRepository(Media);
@@ -498,7 +456,7 @@ class AvailabilitySync {
   private async mediaUpdater(
     media: Media,
     is4k: boolean,
-    mediaServerType: MediaServerType
+    mediaServerTypes: MediaServerType[]
   ): Promise<void> {
     const mediaRepository = getRepository(Media);
 
@@ -545,13 +503,14 @@ class AvailabilitySync {
         isMediaProcessing
           ? media[is4k ? 'externalServiceSlug4k' : 'externalServiceSlug']
           : null;
-      if (mediaServerType === MediaServerType.PLEX) {
+      if (mediaServerTypes.includes(MediaServerType.PLEX)) {
         media[is4k ? 'ratingKey4k' : 'ratingKey'] = isMediaProcessing
           ? media[is4k ? 'ratingKey4k' : 'ratingKey']
           : null;
-      } else if (
-        mediaServerType === MediaServerType.JELLYFIN ||
-        mediaServerType === MediaServerType.EMBY
+      }
+      if (
+        mediaServerTypes.includes(MediaServerType.JELLYFIN) ||
+        mediaServerTypes.includes(MediaServerType.EMBY)
       ) {
         media[is4k ? 'jellyfinMediaId4k' : 'jellyfinMediaId'] =
           isMediaProcessing
@@ -563,13 +522,9 @@ class AvailabilitySync {
           media.mediaType === 'movie' ? 'movie' : 'show'
         } [TMDB ID ${media.tmdbId}] was not found in any ${
           media.mediaType === 'movie' ? 'Radarr' : 'Sonarr'
-        } and ${
-          mediaServerType === MediaServerType.PLEX
-            ? 'plex'
-            : mediaServerType === MediaServerType.JELLYFIN
-            ? 'jellyfin'
-            : 'emby'
-        } instance. Status will be changed to deleted.`,
+        } and ${getMediaServerNames(
+          mediaServerTypes
+        )} instance. Status will be changed to deleted.`,
         { label: 'AvailabilitySync' }
       );
 
@@ -591,7 +546,7 @@ class AvailabilitySync {
     media: Media,
     seasons: Map<number, boolean>,
     is4k: boolean,
-    mediaServerType: MediaServerType
+    mediaServerTypes: MediaServerType[]
   ): Promise<void> {
     const mediaRepository = getRepository(Media);
 
@@ -638,13 +593,9 @@ class AvailabilitySync {
           media.tmdbId
         }] was not found in any ${
           media.mediaType === 'tv' ? 'Sonarr' : 'Radarr'
-        } and ${
-          mediaServerType === MediaServerType.PLEX
-            ? 'plex'
-            : mediaServerType === MediaServerType.JELLYFIN
-            ? 'jellyfin'
-            : 'emby'
-        } instance. Status will be changed to deleted.`,
+        } and ${getMediaServerNames(
+          mediaServerTypes
+        )} instance. Status will be changed to deleted.`,
         { label: 'AvailabilitySync' }
       );
     } catch (ex) {
@@ -972,7 +923,9 @@ class AvailabilitySync {
       let jellyfinMedia: JellyfinLibraryItem | undefined;
 
       if (ratingKey && !is4k) {
-        jellyfinMedia = await this.jellyfinClient?.getItemData(ratingKey);
+        jellyfinMedia = await this.jellyfinClient?.getItemData(ratingKey, {
+          allowMissing: true,
+        });
 
         if (media.mediaType === 'tv' && jellyfinMedia !== undefined) {
           this.jellyfinSeasonsCache[ratingKey] =
@@ -981,7 +934,9 @@ class AvailabilitySync {
       }
 
       if (ratingKey4k && is4k) {
-        jellyfinMedia = await this.jellyfinClient?.getItemData(ratingKey4k);
+        jellyfinMedia = await this.jellyfinClient?.getItemData(ratingKey4k, {
+          allowMissing: true,
+        });
 
         if (media.mediaType === 'tv' && jellyfinMedia !== undefined) {
           this.jellyfinSeasonsCache[ratingKey4k] =
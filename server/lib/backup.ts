@@ -0,0 +1,338 @@
+import dataSource from '@server/datasource';
+import type { AllSettings } from '@server/lib/settings';
+import { getSettings } from '@server/lib/settings';
+import {
+  getSettingsMigrations,
+  migrateSettings,
+} from '@server/lib/settings/migrator';
+import logger from '@server/logger';
+import { appDataPath } from '@server/utils/appDataVolume';
+import { getAppVersion } from '@server/utils/appVersion';
+import {
+  getEntityMetadatasInDependencyOrder,
+  insertRows,
+  resetPostgresSequences,
+} from '@server/utils/dbTableHelper';
+import fs from 'fs/promises';
+import path from 'path';
+import { promisify } from 'util';
+import { gunzip, gzip } from 'zlib';
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+const BACKUP_FORMAT = 'jellyseerr-backup';
+const BACKUP_FORMAT_VERSION = 1;
+const BACKUP_FILENAME_REGEX = /^jellyseerr-backup-\d{8}-\d{6}\.json\.gz$/;
+
+export class InvalidBackupError extends Error {}
+
+export interface BackupManifest {
+  format: typeof BACKUP_FORMAT;
+  formatVersion: number;
+  appVersion: string;
+  createdAt: string;
+  databaseType: string;
+  databaseMigrations: string[];
+  settingsMigrations: string[];
+}
+
+export interface BackupArchive {
+  manifest: BackupManifest;
+  settings: AllSettings;
+  tables: Record<string, Record<string, unknown>[]>;
+}
+
+export interface BackupFile {
+  name: string;
+  size: number;
+  createdAt: Date;
+}
+
+class BackupManager {
+  public running = false;
+
+  private get backupPath(): string {
+    return path.join(appDataPath(), 'backups');
+  }
+
+  /**
+   * Creates a backup of the settings and of every table in the database.
+   *
+   * @returns The gzipped backup archive
+   */
+  public async createBackup(): Promise<Buffer> {
+    const tables: BackupArchive['tables'] = {};
+
+    for (const metadata of getEntityMetadatasInDependencyOrder(dataSource)) {
+      tables[metadata.tableName] = await dataSource.query(
+        `SELECT * FROM ${dataSource.driver.escape(metadata.tableName)}`
+      );
+    }
+
+    const archive: BackupArchive = {
+      manifest: {
+        format: BACKUP_FORMAT,
+        formatVersion: BACKUP_FORMAT_VERSION,
+        appVersion: getAppVersion(),
+        createdAt: new Date().toISOString(),
+        databaseType: dataSource.options.type,
+        databaseMigrations: await this.getAppliedDatabaseMigrations(),
+        settingsMigrations: await getSettingsMigrations(),
+      },
+      settings: getSettings().full,
+      tables,
+    };
+
+    return gzipAsync(JSON.stringify(archive));
+  }
+
+  /**
+   * Creates a backup in the backups folder of the config directory, and
+   * removes the oldest backups past the configured retention.
+   */
+  public async run(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+
+    try {
+      await fs.mkdir(this.backupPath, { recursive: true });
+
+      const name = this.getBackupFilename();
+      await fs.writeFile(
+        path.join(this.backupPath, name),
+        await this.createBackup()
+      );
+      logger.info(`Created backup ${name}`, { label: 'Backup' });
+
+      const { retention } = getSettings().backup;
+      const expiredBackups = (await this.listBackups()).slice(retention);
+
+      for (const backup of expiredBackups) {
+        await fs.unlink(path.join(this.backupPath, backup.name));
+        logger.debug(`Removed expired backup ${backup.name}`, {
+          label: 'Backup',
+        });
+      }
+    } catch (e) {
+      logger.error('Failed to create backup', {
+        label: 'Backup',
+        errorMessage: e.message,
+      });
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Lists the stored backups, newest first.
+   */
+  public async listBackups(): Promise<BackupFile[]> {
+    let files: string[];
+
+    try {
+      files = await fs.readdir(this.backupPath);
+    } catch {
+      return [];
+    }
+
+    const backups = await Promise.all(
+      files
+        .filter((file) => BACKUP_FILENAME_REGEX.test(file))
+        .map(async (file) => {
+          const stats = await fs.stat(path.join(this.backupPath, file));
+
+          return { name: file, size: stats.size, createdAt: stats.mtime };
+        })
+    );
+
+    return backups.sort(
+      (a, b) => b.createdAt.getTime() - a.createdAt.getTime()
+    );
+  }
+
+  /**
+   * Returns the full path of a stored backup, or undefined if there is no
+   * backup with this name.
+   */
+  public async getBackupPath(name: string): Promise<string | undefined> {
+    const backups = await this.listBackups();
+
+    return backups.some((backup) => backup.name === name)
+      ? path.join(this.backupPath, name)
+      : undefined;
+  }
+
+  public async deleteBackup(name: string): Promise<void> {
+    const backupPath = await this.getBackupPath(name);
+
+    if (backupPath) {
+      await fs.unlink(backupPath);
+    }
+  }
+
+  public getBackupFilename(date = new Date()): string {
+    const timestamp = date
+      .toISOString()
+      .replace(/\.\d+Z$/, '')
+      .replace(/[-:]/g, '')
+      .replace('T', '-');
+
+    return `jellyseerr-backup-${timestamp}.json.gz`;
+  }
+
+  /**
+   * Reads and validates the manifest of a backup archive. Nothing is migrated
+   * here, since some settings migrations have side effects on the media
+   * servers.
+   *
+   * @throws InvalidBackupError if the archive can't be restored on this instance
+   */
+  public async readBackup(data: Buffer): Promise<BackupArchive> {
+    let archive: BackupArchive;
+
+    try {
+      archive = JSON.parse((await gunzipAsync(data)).toString('utf-8'));
+    } catch {
+      throw new InvalidBackupError('The file is not a valid backup archive.');
+    }
+
+    const { manifest } = archive ?? {};
+
+    if (
+      manifest?.format !== BACKUP_FORMAT ||
+      typeof archive.settings !== 'object' ||
+      typeof archive.tables !== 'object'
+    ) {
+      throw new InvalidBackupError('The file is not a valid backup archive.');
+    }
+
+    if (manifest.formatVersion > BACKUP_FORMAT_VERSION) {
+      throw new InvalidBackupError(
+        `The backup was created by a newer version (${manifest.appVersion}).`
+      );
+    }
+
+    if (manifest.databaseType !== dataSource.options.type) {
+      throw new InvalidBackupError(
+        `The backup was created from a ${manifest.databaseType} database and can't be restored to a ${dataSource.options.type} database.`
+      );
+    }
+
+    const knownDatabaseMigrations = dataSource.migrations.map(
+      (migration) => migration.name ?? migration.constructor.name
+    );
+    const knownSettingsMigrations = await getSettingsMigrations();
+
+    if (
+      manifest.databaseMigrations.some(
+        (migration) => !knownDatabaseMigrations.includes(migration)
+      ) ||
+      manifest.settingsMigrations.some(
+        (migration) => !knownSettingsMigrations.includes(migration)
+      )
+    ) {
+      throw new InvalidBackupError(
+        `The backup was created by a newer version (${manifest.appVersion}).`
+      );
+    }
+
+    return archive;
+  }
+
+  /**
+   * Replaces the settings and every table in the database with the content
+   * of the backup. The database is restored in a single transaction, and the
+   * settings are only migrated and replaced once it has been committed.
+   *
+   * @throws InvalidBackupError if the archive can't be restored on this instance
+   */
+  public async restoreBackup(data: Buffer): Promise<BackupManifest> {
+    const archive = await this.readBackup(data);
+    const metadatas = getEntityMetadatasInDependencyOrder(dataSource);
+    const { driver } = dataSource;
+    const queryRunner = dataSource.createQueryRunner();
+
+    await queryRunner.connect();
+    await queryRunner.startTransaction();
+
+    try {
+      for (const metadata of [...metadatas].reverse()) {
+        await queryRunner.query(
+          `DELETE FROM ${driver.escape(metadata.tableName)}`
+        );
+      }
+
+      for (const metadata of metadatas) {
+        const rows = archive.tables[metadata.tableName] ?? [];
+        // Columns added after the backup was created are left to their
+        // default value
+        const columns = Object.keys(rows[0] ?? {}).filter((column) =>
+          metadata.columns.some((c) => c.databaseName === column)
+        );
+
+        await insertRows(queryRunner, metadata.tableName, columns, rows);
+      }
+
+      if (dataSource.options.type === 'postgres') {
+        await resetPostgresSequences(queryRunner, metadatas);
+      }
+
+      await queryRunner.commitTransaction();
+    } catch (e) {
+      await queryRunner.rollbackTransaction();
+      throw e;
+    } finally {
+      await queryRunner.release();
+    }
+
+    let settings: AllSettings;
+
+    try {
+      settings = await migrateSettings(archive.settings);
+    } catch (e) {
+      logger.error(
+        'The database was restored, but the settings in the backup could not be migrated',
+        { label: 'Backup', errorMessage: e.message }
+      );
+      throw e;
+    }
+
+    await getSettings().replace(settings);
+
+    logger.info(
+      `Restored backup created on ${archive.manifest.createdAt} by version ${archive.manifest.appVersion}`,
+      { label: 'Backup' }
+    );
+
+    return archive.manifest;
+  }
+
+  private async getAppliedDatabaseMigrations(): Promise<string[]> {
+    const table = dataSource.options.migrationsTableName ?? 'migrations';
+    const queryRunner = dataSource.createQueryRunner();
+
+    try {
+      if (!(await queryRunner.hasTable(table))) {
+        return [];
+      }
+
+      const migrations: { name: string }[] = await queryRunner.query(
+        `SELECT ${dataSource.driver.escape(
+          'name'
+        )} FROM ${dataSource.driver.escape(table)}`
+      );
+
+      return migrations.map((migration) => migration.name);
+    } finally {
+      await queryRunner.release();
+    }
+  }
+}
+
+const backupManager = new BackupManager();
+
+export default backupManager;
@@ -0,0 +1,338 @@
+import type { DatabaseType } from '@server/datasource';
+import dataSource, {
+  databaseType,
+  getDataSourceOptions,
+} from '@server/datasource';
+import logger from '@server/logger';
+import {
+  getEntityMetadatasInDependencyOrder,
+  insertRows,
+  resetPostgresSequences,
+} from '@server/utils/dbTableHelper';
+import type { DataSourceOptions, EntityMetadata } from 'typeorm';
+import { DataSource } from 'typeorm';
+import type { ColumnMetadata } from 'typeorm/metadata/ColumnMetadata';
+
+const PAGE_SIZE = 1000;
+
+export class DatabaseTransferError extends Error {}
+
+export interface TableTransferResult {
+  table: string;
+  sourceRows: number;
+  targetRows: number;
+}
+
+export interface DatabaseTransferStatus {
+  running: boolean;
+  sourceType: DatabaseType;
+  targetType: DatabaseType;
+  currentTable?: string;
+  progress: number;
+  total: number;
+  results?: TableTransferResult[];
+  error?: string;
+  finishedAt?: Date;
+}
+
+export const getTransferTargetType = (): DatabaseType =>
+  databaseType === 'postgres' ? 'sqlite' : 'postgres';
+
+const toUtcDate = (value: unknown): Date =>
+  value instanceof Date
+    ? value
+    : // SQLite stores UTC datetimes without a timezone designator
+      new Date(
+        /[zZ]|[+-]\d{2}:?\d{2}$/.test(String(value))
+          ? String(value)
+          : `${String(value).replace(' ', 'T')}Z`
+      );
+
+/**
+ * Converts a raw value read from the source database to the representation
+ * expected by the target database. Only booleans and dates differ between
+ * SQLite and Postgres, every other column type is stored the same way.
+ */
+const convertValue = (
+  value: unknown,
+  column: ColumnMetadata,
+  targetType: DatabaseType
+): unknown => {
+  if (value === null || value === undefined) {
+    return null;
+  }
+
+  const type = dataSource.driver.normalizeType(column);
+
+  if (type === 'boolean') {
+    return targetType === 'postgres' ? !!value : value ? 1 : 0;
+  }
+
+  if (type === 'date') {
+    if (value instanceof Date) {
+      return [
+        value.getFullYear(),
+        String(value.getMonth() + 1).padStart(2, '0'),
+        String(value.getDate()).padStart(2, '0'),
+      ].join('-');
+    }
+
+    return value;
+  }
+
+  if (type === 'datetime' || type.startsWith('timestamp')) {
+    const date = toUtcDate(value);
+
+    return targetType === 'postgres'
+      ? date
+      : date.toISOString().replace('T', ' ').replace('Z', '');
+  }
+
+  return value;
+};
+
+class DatabaseTransfer {
+  private running = false;
+  private currentTable?: string;
+  private progress = 0;
+  private total = 0;
+  private results?: TableTransferResult[];
+  private error?: string;
+  private finishedAt?: Date;
+
+  public status(): DatabaseTransferStatus {
+    return {
+      running: this.running,
+      sourceType: databaseType,
+      targetType: getTransferTargetType(),
+      currentTable: this.currentTable,
+      progress: this.progress,
+      total: this.total,
+      results: this.results,
+      error: this.error,
+      finishedAt: this.finishedAt,
+    };
+  }
+
+  /**
+   * Copies every table of the configured database to the other supported
+   * database type, configured from the same environment variables. The
+   * target schema is created by its own migrations, so both databases must
+   * be on the same version.
+   *
+   * @param overwrite Delete the existing data of the target database instead
+   * of refusing to copy into it
+   * @returns The row counts of every table in both databases
+   * @throws DatabaseTransferError if the target can't be used or the row
+   * counts don't match after copying
+   */
+  public async run({
+    overwrite = false,
+  }: { overwrite?: boolean } = {}): Promise<TableTransferResult[]> {
+    if (this.running) {
+      throw new DatabaseTransferError('A transfer is already running.');
+    }
+
+    const targetType = getTransferTargetType();
+    const metadatas = getEntityMetadatasInDependencyOrder(dataSource);
+
+    this.running = true;
+    this.currentTable = undefined;
+    this.progress = 0;
+    this.total = metadatas.length;
+    this.results = undefined;
+    this.error = undefined;
+    this.finishedAt = undefined;
+
+    logger.info(`Starting database transfer to ${targetType}`, {
+      label: 'Database Transfer',
+    });
+
+    // The entity metadata of this process was built for the configured
+    // database type, so the target only uses its migrations and raw queries
+    const target = new DataSource({
+      ...getDataSourceOptions(targetType),
+      entities: [],
+      subscribers: [],
+      synchronize: false,
+      migrationsRun: false,
+    } as DataSourceOptions);
+
+    try {
+      if (
+        targetType === 'postgres' &&
+        !process.env.DB_HOST &&
+        !process.env.DB_SOCKET_PATH
+      ) {
+        throw new DatabaseTransferError(
+          'The Postgres database is not configured. Set DB_HOST or DB_SOCKET_PATH and the other DB_ environment variables.'
+        );
+      }
+
+      await target.initialize();
+
+      if (targetType === 'sqlite') {
+        await target.query('PRAGMA foreign_keys=OFF');
+        await target.runMigrations();
+        await target.query('PRAGMA foreign_keys=ON');
+      } else {
+        await target.runMigrations();
+      }
+
+      await this.copyTables(target, metadatas, overwrite);
+
+      this.results = await this.verifyRowCounts(target, metadatas);
+
+      const mismatches = this.results.filter(
+        (result) => result.sourceRows !== result.targetRows
+      );
+
+      if (mismatches.length) {
+        throw new DatabaseTransferError(
+          `Row counts do not match for ${mismatches
+            .map((result) => result.table)
+            .join(', ')}.`
+        );
+      }
+
+      logger.info(`Database transfer to ${targetType} completed`, {
+        label: 'Database Transfer',
+        tables: this.results.length,
+      });
+
+      return this.results;
+    } catch (e) {
+      this.error = e.message;
+      logger.error(`Database transfer to ${targetType} failed`, {
+        label: 'Database Transfer',
+        errorMessage: e.message,
+      });
+      throw e;
+    } finally {
+      if (target.isInitialized) {
+        await target.destroy();
+      }
+      this.running = false;
+      this.currentTable = undefined;
+      this.finishedAt = new Date();
+    }
+  }
+
+  private async copyTables(
+    target: DataSource,
+    metadatas: EntityMetadata[],
+    overwrite: boolean
+  ): Promise<void> {
+    const targetType = target.options.type as DatabaseType;
+    const queryRunner = target.createQueryRunner();
+
+    await queryRunner.connect();
+
+    try {
+      for (const metadata of metadatas) {
+        if (!(await queryRunner.hasTable(metadata.tableName))) {
+          throw new DatabaseTransferError(
+            `Table ${metadata.tableName} is missing from the ${targetType} database.`
+          );
+        }
+
+        if (!overwrite && (await this.countRows(target, metadata)) > 0) {
+          throw new DatabaseTransferError(
+            `The ${targetType} database already contains data. Enable overwrite to replace it.`
+          );
+        }
+      }
+
+      await queryRunner.startTransaction();
+
+      for (const metadata of [...metadatas].reverse()) {
+        await queryRunner.query(
+          `DELETE FROM ${target.driver.escape(metadata.tableName)}`
+        );
+      }
+
+      for (const metadata of metadatas) {
+        this.currentTable = metadata.tableName;
+
+        const table = dataSource.driver.escape(metadata.tableName);
+        const orderBy = metadata.primaryColumns
+          .map((column) => dataSource.driver.escape(column.databaseName))
+          .join(', ');
+        const columns = metadata.columns.map((column) => column.databaseName);
+
+        for (let offset = 0; ; offset += PAGE_SIZE) {
+          const rows: Record<string, unknown>[] = await dataSource.query(
+            `SELECT * FROM ${table} ORDER BY ${orderBy} LIMIT ${PAGE_SIZE} OFFSET ${offset}`
+          );
+
+          await insertRows(
+            queryRunner,
+            metadata.tableName,
+            columns,
+            rows.map((row) =>
+              Object.fromEntries(
+                metadata.columns.map((column) => [
+                  column.databaseName,
+                  convertValue(row[column.databaseName], column, targetType),
+                ])
+              )
+            )
+          );
+
+          if (rows.length < PAGE_SIZE) {
+            break;
+          }
+        }
+
+        this.progress++;
+      }
+
+      if (targetType === 'postgres') {
+        await resetPostgresSequences(queryRunner, metadatas);
+      }
+
+      await queryRunner.commitTransaction();
+    } catch (e) {
+      if (queryRunner.isTransactionActive) {
+        await queryRunner.rollbackTransaction();
+      }
+      throw e;
+    } finally {
+      await queryRunner.release();
+    }
+  }
+
+  private async verifyRowCounts(
+    target: DataSource,
+    metadatas: EntityMetadata[]
+  ): Promise<TableTransferResult[]> {
+    const results: TableTransferResult[] = [];
+
+    for (const metadata of metadatas) {
+      results.push({
+        table: metadata.tableName,
+        sourceRows: await this.countRows(dataSource, metadata),
+        targetRows: await this.countRows(target, metadata),
+      });
+    }
+
+    return results;
+  }
+
+  private async countRows(
+    source: DataSource,
+    metadata: EntityMetadata
+  ): Promise<number> {
+    const [{ count }] = await source.query(
+      `SELECT COUNT(*) AS count FROM ${source.driver.escape(
+        metadata.tableName
+      )}`
+    );
+
+    return Number(count);
+  }
+}
+
+const databaseTransfer = new DatabaseTransfer();
+
+export default databaseTransfer;
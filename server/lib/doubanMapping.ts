@@ -0,0 +1,292 @@
+import type { DoubanIdatabaseItem } from '@server/api/douban';
+import DoubanAPI from '@server/api/douban';
+import type { DoubanRating } from '@server/api/ratings';
+import { MediaType } from '@server/constants/media';
+import { getRepository } from '@server/datasource';
+import DoubanMapping from '@server/entity/DoubanMapping';
+import Media from '@server/entity/Media';
+import type {
+  RunnableScanner,
+  StatusBase,
+} from '@server/lib/scanners/baseScanner';
+import logger from '@server/logger';
+import { In } from 'typeorm';
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+// Ratings of mapped subjects are refreshed weekly, while entries without a
+// Douban subject are only looked up again once a month
+const MAPPING_TTL_DAYS = 7;
+const MISSING_TTL_DAYS = 30;
+const LOOKUP_DELAY_MS = 250;
+
+const applyLookup = (
+  mapping: DoubanMapping,
+  item: DoubanIdatabaseItem | null
+): DoubanMapping => {
+  if (!mapping.isOverride) {
+    mapping.doubanId = item?.douban_id ?? null;
+  }
+  mapping.rating = item?.rating ?? null;
+  mapping.lastCheckedAt = new Date();
+
+  return mapping;
+};
+
+/**
+ * Looks the mapping up in the Douban ID database and saves the result,
+ * including the absence of a Douban subject.
+ */
+const refreshMapping = async (
+  mapping: DoubanMapping
+): Promise<DoubanMapping> => {
+  const douban = new DoubanAPI();
+
+  const item =
+    mapping.isOverride && mapping.doubanId
+      ? await douban.getIdatabaseItem({ doubanId: mapping.doubanId })
+      : await douban.getIdatabaseItem({
+          tmdbId: mapping.tmdbId,
+          mediaType: mapping.mediaType,
+        });
+
+  return getRepository(DoubanMapping).save(applyLookup(mapping, item));
+};
+
+/**
+ * Returns the stored Douban mappings of the given TMDB entries. Entries that
+ * were never looked up are looked up once and stored, after which they are
+ * only kept up to date by the Douban mapping sync job.
+ */
+export const getDoubanMappings = async (
+  tmdbIds: number[],
+  mediaType: MediaType
+): Promise<Map<number, DoubanMapping>> => {
+  const mappings = new Map<number, DoubanMapping>();
+
+  if (!tmdbIds.length) {
+    return mappings;
+  }
+
+  (
+    await getRepository(DoubanMapping).find({
+      where: { tmdbId: In(tmdbIds), mediaType },
+    })
+  ).forEach((mapping) => mappings.set(mapping.tmdbId, mapping));
+
+  await Promise.all(
+    [...new Set(tmdbIds)]
+      .filter((tmdbId) => !mappings.has(tmdbId))
+      .map(async (tmdbId) => {
+        try {
+          mappings.set(
+            tmdbId,
+            await refreshMapping(new DoubanMapping({ tmdbId, mediaType }))
+          );
+        } catch (e) {
+          logger.debug('Failed to look up Douban mapping', {
+            label: 'Douban',
+            tmdbId,
+            mediaType,
+            errorMessage: e.message,
+          });
+        }
+      })
+  );
+
+  return mappings;
+};
+
+export const getDoubanMapping = async (
+  tmdbId: number,
+  mediaType: MediaType
+): Promise<DoubanMapping | undefined> =>
+  (await getDoubanMappings([tmdbId], mediaType)).get(tmdbId);
+
+export const getDoubanRating = (
+  mapping?: DoubanMapping
+): DoubanRating | undefined =>
+  mapping?.doubanId && mapping.rating !== null && mapping.rating !== undefined
+    ? { id: mapping.doubanId, rating: mapping.rating }
+    : undefined;
+
+/**
+ * Finds the TMDB entry of a Douban subject, preferring stored mappings over
+ * the Douban ID database.
+ */
+export const findTmdbIdByDoubanId = async (
+  doubanId: string
+): Promise<{ tmdbId: number; mediaType: MediaType } | undefined> => {
+  const mappingRepository = getRepository(DoubanMapping);
+
+  const mappings = await mappingRepository.find({ where: { doubanId } });
+  const mapping = mappings.find((mapping) => mapping.isOverride) ?? mappings[0];
+
+  if (mapping) {
+    return { tmdbId: mapping.tmdbId, mediaType: mapping.mediaType };
+  }
+
+  try {
+    const item = await new DoubanAPI().getIdatabaseItem({ doubanId });
+
+    if (!item?.tmdb_id || !item.tmdb_media_type) {
+      return undefined;
+    }
+
+    const mediaType =
+      item.tmdb_media_type === 'tv' ? MediaType.TV : MediaType.MOVIE;
+
+    await mappingRepository.save(
+      applyLookup(
+        (await mappingRepository.findOne({
+          where: { tmdbId: Number(item.tmdb_id), mediaType },
+        })) ?? new DoubanMapping({ tmdbId: Number(item.tmdb_id), mediaType }),
+        item
+      )
+    );
+
+    return { tmdbId: Number(item.tmdb_id), mediaType };
+  } catch (e) {
+    logger.debug('Failed to look up TMDB ID of Douban subject', {
+      label: 'Douban',
+      doubanId,
+      errorMessage: e.message,
+    });
+    return undefined;
+  }
+};
+
+/**
+ * Maps a TMDB entry to a Douban subject by hand. Passing no Douban ID removes
+ * the override and looks the mapping up again.
+ */
+export const setDoubanOverride = async (
+  tmdbId: number,
+  mediaType: MediaType,
+  doubanId?: string
+): Promise<DoubanMapping> => {
+  const mappingRepository = getRepository(DoubanMapping);
+
+  const mapping =
+    (await mappingRepository.findOne({ where: { tmdbId, mediaType } })) ??
+    new DoubanMapping({ tmdbId, mediaType });
+
+  mapping.isOverride = !!doubanId;
+  mapping.doubanId = doubanId ?? null;
+  mapping.rating = null;
+
+  try {
+    return await refreshMapping(mapping);
+  } catch (e) {
+    logger.warn('Failed to look up overridden Douban mapping', {
+      label: 'Douban',
+      tmdbId,
+      mediaType,
+      errorMessage: e.message,
+    });
+
+    // Leave the lookup to the next Douban mapping sync
+    mapping.lastCheckedAt = new Date(0);
+    return mappingRepository.save(mapping);
+  }
+};
+
+class DoubanMappingSync implements RunnableScanner<StatusBase> {
+  private running = false;
+  private progress = 0;
+  private total = 0;
+
+  public async run() {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+
+    try {
+      const mappingRepository = getRepository(DoubanMapping);
+      const now = Date.now();
+
+      // Media in the library is mapped ahead of time, so that its details
+      // pages never wait on the lookup service
+      const unmappedMedia = await getRepository(Media)
+        .createQueryBuilder('media')
+        .leftJoin(
+          DoubanMapping,
+          'mapping',
+          'mapping.tmdbId = media.tmdbId AND mapping.mediaType = media.mediaType'
+        )
+        .where('mapping.id IS NULL')
+        .getMany();
+
+      const staleMappings = (await mappingRepository.find()).filter(
+        (mapping) =>
+          new Date(mapping.lastCheckedAt).getTime() +
+            (mapping.doubanId ? MAPPING_TTL_DAYS : MISSING_TTL_DAYS) *
+              DAY_IN_MS <
+          now
+      );
+
+      const mappings = [
+        ...unmappedMedia.map(
+          (media) =>
+            new DoubanMapping({
+              tmdbId: media.tmdbId,
+              mediaType: media.mediaType,
+            })
+        ),
+        ...staleMappings,
+      ];
+
+      this.total = mappings.length;
+
+      for (const mapping of mappings) {
+        if (!this.running) {
+          logger.info('Aborting job: Douban Mapping Sync', { label: 'Jobs' });
+          return;
+        }
+
+        try {
+          await refreshMapping(mapping);
+        } catch (e) {
+          logger.warn('Failed to refresh Douban mapping', {
+            label: 'Douban',
+            tmdbId: mapping.tmdbId,
+            mediaType: mapping.mediaType,
+            errorMessage: e.message,
+          });
+        }
+
+        this.progress++;
+        await new Promise((res) => setTimeout(res, LOOKUP_DELAY_MS));
+      }
+
+      logger.info('Douban mapping sync complete', {
+        label: 'Douban',
+        refreshed: mappings.length,
+      });
+    } catch (e) {
+      logger.error('Douban mapping sync failed', {
+        label: 'Douban',
+        errorMessage: e.message,
+      });
+    } finally {
+      this.cancel();
+    }
+  }
+
+  public status(): StatusBase {
+    return {
+      running: this.running,
+      progress: this.progress,
+      total: this.total,
+    };
+  }
+
+  public cancel() {
+    this.running = false;
+    this.progress = 0;
+    this.total = 0;
+  }
+}
+
+export const doubanMappingSync = new DoubanMappingSync();
@@ -1,9 +1,10 @@
 import RadarrAPI from '@server/api/servarr/radarr';
 import SonarrAPI from '@server/api/servarr/sonarr';
 import { MediaType } from '@server/constants/media';
+import { publishEvent } from '@server/lib/events';
 import { getSettings } from '@server/lib/settings';
 import logger from '@server/logger';
-import { uniqWith } from 'lodash';
+import { uniqBy, uniqWith } from 'lodash';
 
 interface EpisodeNumberResult {
   seasonNumber: number;
@@ -27,6 +28,7 @@ export interface DownloadingItem {
 class DownloadTracker {
   private radarrServers: Record<number, DownloadingItem[]> = {};
   private sonarrServers: Record<number, DownloadingItem[]> = {};
+  private lastDownloadingCount = 0;
 
   public getMovieProgress(
     serverId: number,
@@ -58,9 +60,26 @@ class DownloadTracker {
     this.radarrServers = {};
   }
 
-  public updateDownloads() {
-    this.updateRadarrDownloads();
-    this.updateSonarrDownloads();
+  public async updateDownloads() {
+    await Promise.all([
+      this.updateRadarrDownloads(),
+      this.updateSonarrDownloads(),
+    ]);
+
+    const downloading = uniqBy(
+      [
+        ...Object.values(this.radarrServers).flat(),
+        ...Object.values(this.sonarrServers).flat(),
+      ],
+      'downloadId'
+    ).length;
+
+    // Clients only need to refresh while something is, or was just, downloading
+    if (downloading > 0 || this.lastDownloadingCount > 0) {
+      publishEvent('downloads', { downloading });
+    }
+
+    this.lastDownloadingCount = downloading;
   }
 
   private async updateRadarrDownloads() {
@@ -76,7 +95,7 @@ class DownloadTracker {
     });
 
     // Load downloads from Radarr servers
-    Promise.all(
+    await Promise.all(
       filteredServers.map(async (server) => {
         if (server.syncEnabled) {
           const radarr = new RadarrAPI({
@@ -154,7 +173,7 @@ class DownloadTracker {
     });
 
     // Load downloads from Sonarr servers
-    Promise.all(
+    await Promise.all(
       filteredServers.map(async (server) => {
         if (server.syncEnabled) {
           const sonarr = new SonarrAPI({
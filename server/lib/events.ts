@@ -0,0 +1,37 @@
+import type {
+  ServerEvent,
+  ServerEventType,
+} from '@server/interfaces/api/eventInterfaces';
+import { EventEmitter } from 'events';
+
+type ServerEventListener = (event: ServerEvent) => void;
+
+const emitter = new EventEmitter();
+
+// Every open event stream adds a listener
+emitter.setMaxListeners(0);
+
+/**
+ * Publishes an event to every connected event stream. Publishing never throws,
+ * so it is safe to call from entity subscribers and scanners.
+ */
+export const publishEvent = <T extends ServerEventType>(
+  type: T,
+  data: Extract<ServerEvent, { type: T }>['data']
+): void => {
+  emitter.emit('event', { type, data } as ServerEvent);
+};
+
+/**
+ * Subscribes to every published event. Returns a function which removes the
+ * subscription again.
+ */
+export const subscribeToEvents = (
+  listener: ServerEventListener
+): (() => void) => {
+  emitter.on('event', listener);
+
+  return () => {
+    emitter.off('event', listener);
+  };
+};
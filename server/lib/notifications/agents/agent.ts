@@ -2,8 +2,12 @@ import type Issue from '@server/entity/Issue';
 import type IssueComment from '@server/entity/IssueComment';
 import type Media from '@server/entity/Media';
 import type { MediaRequest } from '@server/entity/MediaRequest';
+import type RequestComment from '@server/entity/RequestComment';
 import type { User } from '@server/entity/User';
-import type { NotificationAgentConfig } from '@server/lib/settings';
+import type {
+  NotificationAgentConfig,
+  NotificationAgentKey,
+} from '@server/lib/settings';
 import type { Notification } from '..';
 
 export interface NotificationPayload {
@@ -18,9 +22,48 @@ export interface NotificationPayload {
   extra?: { name: string; value: string }[];
   request?: MediaRequest;
   issue?: Issue;
-  comment?: IssueComment;
+  comment?: IssueComment | RequestComment;
   pendingRequestsCount?: number;
   isAdmin?: boolean;
+  // Limits the admin notifications to a single user, when the notification is
+  // stored in the outbox for each recipient
+  notifyAdminId?: number;
+  // Set once the template of the agent has been applied, so that notifications
+  // which are deferred are not rendered twice
+  isTemplated?: boolean;
+}
+
+/**
+ * Snapshot of a notification payload which is queued for a digest, since the
+ * entities of the payload may have changed by the time the digest is sent.
+ */
+export interface NotificationDigestItem {
+  event?: string;
+  subject: string;
+  message?: string;
+  image?: string;
+  url?: string;
+  requestedBy?: string;
+  extra?: { name: string; value: string }[];
+  mentions?: string[];
+  timestamp: string;
+}
+
+/**
+ * Notification payload with its entities replaced by their IDs, so that it can
+ * be stored in the notification outbox and reloaded when it is sent again.
+ */
+export interface StoredNotificationPayload
+  extends Omit<
+    NotificationPayload,
+    'notifyUser' | 'media' | 'request' | 'issue' | 'comment'
+  > {
+  notifyUserId?: number;
+  mediaId?: number;
+  requestId?: number;
+  issueId?: number;
+  issueCommentId?: number;
+  requestCommentId?: number;
 }
 
 export abstract class BaseAgent<T extends NotificationAgentConfig> {
@@ -33,6 +76,19 @@ export abstract class BaseAgent<T extends NotificationAgentConfig> {
 }
 
 export interface NotificationAgent {
+  readonly key: NotificationAgentKey;
+  // Agents which send a separate message to every recipient get an outbox entry
+  // per recipient, so that a failed message is only retried for its recipient
+  readonly sendsSingleMessage: boolean;
   shouldSend(): boolean;
   send(type: Notification, payload: NotificationPayload): Promise<boolean>;
 }
+
+export interface DigestNotificationAgent extends NotificationAgent {
+  sendDigest(items: NotificationDigestItem[], user?: User): Promise<boolean>;
+}
+
+export const isDigestNotificationAgent = (
+  agent: NotificationAgent
+): agent is DigestNotificationAgent =>
+  typeof (agent as DigestNotificationAgent).sendDigest === 'function';
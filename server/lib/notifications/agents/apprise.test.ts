@@ -0,0 +1,183 @@
+import { User } from '@server/entity/User';
+import { ALL_NOTIFICATIONS, UserSettings } from '@server/entity/UserSettings';
+import { Notification } from '@server/lib/notifications';
+import AppriseAgent from '@server/lib/notifications/agents/apprise';
+import type { NotificationAgentApprise } from '@server/lib/settings';
+import { NotificationAgentKey } from '@server/lib/settings';
+import assert from 'node:assert/strict';
+import type { IncomingMessage, Server, ServerResponse } from 'node:http';
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { after, before, beforeEach, describe, it } from 'node:test';
+
+interface RecordedRequest {
+  url?: string;
+  body: Record<string, unknown>;
+}
+
+const TYPE_TAGS = {
+  MEDIA_AVAILABLE: 'available',
+  ISSUE_CREATED: 'issues',
+};
+
+const USER_URLS = 'tgram://bot-token/chat-id';
+
+const createUser = (): User =>
+  new User({
+    id: 2,
+    displayName: 'friend',
+    settings: new UserSettings({
+      appriseUrls: USER_URLS,
+      notificationTypes: { [NotificationAgentKey.APPRISE]: ALL_NOTIFICATIONS },
+    }),
+  });
+
+describe('AppriseAgent', () => {
+  let server: Server;
+  let host: string;
+  let requests: RecordedRequest[];
+  let status: number;
+
+  const createAgent = (
+    options: Partial<NotificationAgentApprise['options']>
+  ): AppriseAgent =>
+    new AppriseAgent({
+      enabled: true,
+      types: ALL_NOTIFICATIONS,
+      options: { url: `${host}/`, ...options },
+    });
+
+  const sendToSystem = (agent: AppriseAgent, type: Notification) =>
+    agent.send(type, {
+      subject: 'The Matrix',
+      notifySystem: true,
+      notifyAdmin: false,
+    });
+
+  before(async () => {
+    server = createServer((req: IncomingMessage, res: ServerResponse) => {
+      let data = '';
+
+      req.on('data', (chunk) => (data += chunk));
+      req.on('end', () => {
+        requests.push({ url: req.url, body: JSON.parse(data) });
+
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end('{}');
+      });
+    });
+
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve)
+    );
+    host = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    status = 200;
+  });
+
+  it('sends the tag of the notification type', async () => {
+    const agent = createAgent({
+      configKey: 'seerr',
+      tag: 'default',
+      typeTags: TYPE_TAGS,
+    });
+
+    await sendToSystem(agent, Notification.MEDIA_AVAILABLE);
+    await sendToSystem(agent, Notification.ISSUE_CREATED);
+
+    assert.deepEqual(
+      requests.map(({ body }) => body.tag),
+      ['available', 'issues']
+    );
+  });
+
+  it('falls back to the default tag for types without a tag', async () => {
+    await sendToSystem(
+      createAgent({ configKey: 'seerr', tag: 'default', typeTags: TYPE_TAGS }),
+      Notification.MEDIA_PENDING
+    );
+
+    assert.equal(requests[0].body.tag, 'default');
+  });
+
+  it('sends no tag if neither the type nor the default has one', async () => {
+    await sendToSystem(
+      createAgent({ configKey: 'seerr', typeTags: { MEDIA_AVAILABLE: '' } }),
+      Notification.MEDIA_AVAILABLE
+    );
+
+    assert.ok(!('tag' in requests[0].body));
+  });
+
+  it('notifies the configuration key of the Apprise server', async () => {
+    await sendToSystem(
+      createAgent({ configKey: 'seerr config', urls: 'json://ignored' }),
+      Notification.MEDIA_PENDING
+    );
+
+    assert.equal(requests[0].url, '/notify/seerr%20config');
+    assert.ok(!('urls' in requests[0].body));
+  });
+
+  it('notifies the configured URLs without a configuration key', async () => {
+    await sendToSystem(
+      createAgent({ urls: 'json://localhost', tag: 'default' }),
+      Notification.MEDIA_PENDING
+    );
+
+    assert.equal(requests[0].url, '/notify');
+    assert.equal(requests[0].body.urls, 'json://localhost');
+    assert.ok(!('tag' in requests[0].body));
+  });
+
+  it('notifies users at their own URLs', async () => {
+    const result = await createAgent({
+      configKey: 'seerr',
+      tag: 'default',
+    }).send(Notification.MEDIA_AVAILABLE, {
+      subject: 'The Matrix',
+      notifySystem: false,
+      notifyAdmin: false,
+      notifyUser: createUser(),
+    });
+
+    assert.equal(result, true);
+    assert.equal(requests.length, 1);
+    assert.equal(requests[0].url, '/notify');
+    assert.equal(requests[0].body.urls, USER_URLS);
+    assert.ok(!('tag' in requests[0].body));
+  });
+
+  it('maps the notification type onto the Apprise message type', async () => {
+    const agent = createAgent({ configKey: 'seerr' });
+
+    await sendToSystem(agent, Notification.MEDIA_PENDING);
+    await sendToSystem(agent, Notification.MEDIA_AVAILABLE);
+    await sendToSystem(agent, Notification.MEDIA_DECLINED);
+    await sendToSystem(agent, Notification.MEDIA_FAILED);
+
+    assert.deepEqual(
+      requests.map(({ body }) => body.type),
+      ['info', 'success', 'warning', 'failure']
+    );
+  });
+
+  it('fails if the Apprise server returns an error', async () => {
+    status = 500;
+
+    assert.equal(
+      await sendToSystem(
+        createAgent({ configKey: 'seerr' }),
+        Notification.MEDIA_PENDING
+      ),
+      false
+    );
+  });
+});
@@ -0,0 +1,332 @@
+import { IssueStatus, IssueTypeName } from '@server/constants/issue';
+import { MediaStatus } from '@server/constants/media';
+import { getAdminNotificationUsers } from '@server/lib/notifications/outbox';
+import { deferForQuietHours } from '@server/lib/notifications/quietHours';
+import { applyNotificationTemplate } from '@server/lib/notifications/templates';
+import type { NotificationAgentApprise } from '@server/lib/settings';
+import { getSettings, NotificationAgentKey } from '@server/lib/settings';
+import logger from '@server/logger';
+import axios from 'axios';
+import {
+  hasNotificationType,
+  Notification,
+  shouldSendAdminNotification,
+} from '..';
+import type { NotificationAgent, NotificationPayload } from './agent';
+import { BaseAgent } from './agent';
+
+interface ApprisePayload {
+  title: string;
+  body: string;
+  type: 'info' | 'success' | 'warning' | 'failure';
+  format: 'markdown';
+  urls?: string;
+  tag?: string;
+}
+
+class AppriseAgent
+  extends BaseAgent<NotificationAgentApprise>
+  implements NotificationAgent
+{
+  public readonly key = NotificationAgentKey.APPRISE;
+  public readonly sendsSingleMessage = false;
+
+  protected getSettings(): NotificationAgentApprise {
+    if (this.settings) {
+      return this.settings;
+    }
+
+    const settings = getSettings();
+
+    return settings.notifications.agents.apprise;
+  }
+
+  public shouldSend(): boolean {
+    const settings = this.getSettings();
+
+    if (settings.enabled && settings.options.url) {
+      return true;
+    }
+
+    return false;
+  }
+
+  private getNotificationPayload(
+    type: Notification,
+    payload: NotificationPayload
+  ): ApprisePayload {
+    const { applicationUrl, applicationTitle } = getSettings().main;
+
+    const title = payload.event
+      ? `${payload.event} - ${payload.subject}`
+      : payload.subject;
+
+    let body = payload.message ?? '';
+
+    if (payload.request) {
+      body += `\n\n**Requested By:** ${payload.request.requestedBy.displayName}  `;
+
+      let status = '';
+      switch (type) {
+        case Notification.MEDIA_AUTO_REQUESTED:
+          status =
+            payload.media?.status === MediaStatus.PENDING
+              ? 'Pending Approval'
+              : 'Processing';
+          break;
+        case Notification.MEDIA_PENDING:
+          status = 'Pending Approval';
+          break;
+        case Notification.MEDIA_APPROVED:
+        case Notification.MEDIA_AUTO_APPROVED:
+          status = 'Processing';
+          break;
+        case Notification.MEDIA_AVAILABLE:
+          status = 'Available';
+          break;
+        case Notification.MEDIA_DECLINED:
+          status = 'Declined';
+          break;
+        case Notification.MEDIA_FAILED:
+          status = 'Failed';
+          break;
+      }
+
+      if (status) {
+        body += `\n**Request Status:** ${status}`;
+      }
+    }
+
+    if (payload.comment) {
+      body += `\n\n**Comment from ${payload.comment.user.displayName}:**\n${payload.comment.message}`;
+    } else if (payload.issue) {
+      body += `\n\n**Reported By:** ${payload.issue.createdBy.displayName}  `;
+      body += `\n**Issue Type:** ${IssueTypeName[payload.issue.issueType]}  `;
+      body += `\n**Issue Status:** ${
+        payload.issue.status === IssueStatus.OPEN ? 'Open' : 'Resolved'
+      }`;
+    }
+
+    for (const extra of payload.extra ?? []) {
+      body += `\n\n**${extra.name}**\n${extra.value}`;
+    }
+
+    const url = applicationUrl
+      ? payload.issue
+        ? `${applicationUrl}/issues/${payload.issue.id}`
+        : payload.media
+        ? `${applicationUrl}/${payload.media.mediaType}/${payload.media.tmdbId}`
+        : undefined
+      : undefined;
+
+    if (url) {
+      body += `\n\n[View ${
+        payload.issue ? 'Issue' : 'Media'
+      } in ${applicationTitle}](${url})`;
+    }
+
+    let notificationType: ApprisePayload['type'] = 'info';
+    switch (type) {
+      case Notification.MEDIA_AVAILABLE:
+      case Notification.ISSUE_RESOLVED:
+        notificationType = 'success';
+        break;
+      case Notification.MEDIA_DECLINED:
+      case Notification.ISSUE_CREATED:
+      case Notification.ISSUE_REOPENED:
+        notificationType = 'warning';
+        break;
+      case Notification.MEDIA_FAILED:
+        notificationType = 'failure';
+        break;
+    }
+
+    return {
+      title,
+      body: body.trim(),
+      type: notificationType,
+      format: 'markdown',
+    };
+  }
+
+  /**
+   * Returns the Apprise tag of a notification type, falling back to the
+   * default tag when no tag is set for the type.
+   */
+  private getTag(type: Notification): string | undefined {
+    const settings = this.getSettings();
+
+    return (
+      settings.options.typeTags?.[Notification[type]] ||
+      settings.options.tag ||
+      undefined
+    );
+  }
+
+  /**
+   * Sends the notification to the given Apprise URLs, or to the URLs stored
+   * under the configuration key of the Apprise server when no URLs are given.
+   */
+  private async notify(
+    notificationPayload: ApprisePayload,
+    type: Notification,
+    urls?: string
+  ): Promise<void> {
+    const settings = this.getSettings();
+    const serverUrl = settings.options.url.replace(/\/+$/, '');
+
+    if (urls) {
+      await axios.post(`${serverUrl}/notify`, {
+        ...notificationPayload,
+        urls,
+      });
+    } else if (settings.options.configKey) {
+      await axios.post(
+        `${serverUrl}/notify/${encodeURIComponent(settings.options.configKey)}`,
+        {
+          ...notificationPayload,
+          tag: this.getTag(type),
+        }
+      );
+    }
+  }
+
+  public async send(
+    type: Notification,
+    payload: NotificationPayload
+  ): Promise<boolean> {
+    payload = applyNotificationTemplate(this.key, type, payload);
+
+    const settings = this.getSettings();
+    const notificationPayload = this.getNotificationPayload(type, payload);
+
+    // Send system notification
+    if (
+      payload.notifySystem &&
+      hasNotificationType(type, settings.types ?? 0) &&
+      (settings.options.configKey || settings.options.urls)
+    ) {
+      logger.debug('Sending Apprise notification', {
+        label: 'Notifications',
+        type: Notification[type],
+        subject: payload.subject,
+      });
+
+      try {
+        await this.notify(
+          notificationPayload,
+          type,
+          settings.options.configKey ? undefined : settings.options.urls
+        );
+      } catch (e) {
+        logger.error('Error sending Apprise notification', {
+          label: 'Notifications',
+          type: Notification[type],
+          subject: payload.subject,
+          errorMessage: e.message,
+          response: e?.response?.data,
+        });
+
+        return false;
+      }
+    }
+
+    if (payload.notifyUser) {
+      if (
+        payload.notifyUser.settings?.hasNotificationType(
+          NotificationAgentKey.APPRISE,
+          type
+        ) &&
+        payload.notifyUser.settings?.appriseUrls &&
+        !(await deferForQuietHours({
+          agent: this.key,
+          type,
+          payload,
+          user: payload.notifyUser,
+        }))
+      ) {
+        logger.debug('Sending Apprise notification', {
+          label: 'Notifications',
+          recipient: payload.notifyUser.displayName,
+          type: Notification[type],
+          subject: payload.subject,
+        });
+
+        try {
+          await this.notify(
+            notificationPayload,
+            type,
+            payload.notifyUser.settings.appriseUrls
+          );
+        } catch (e) {
+          logger.error('Error sending Apprise notification', {
+            label: 'Notifications',
+            recipient: payload.notifyUser.displayName,
+            type: Notification[type],
+            subject: payload.subject,
+            errorMessage: e.message,
+            response: e?.response?.data,
+          });
+
+          return false;
+        }
+      }
+    }
+
+    if (payload.notifyAdmin) {
+      const users = await getAdminNotificationUsers(payload);
+
+      await Promise.all(
+        users
+          .filter(
+            (user) =>
+              user.settings?.hasNotificationType(
+                NotificationAgentKey.APPRISE,
+                type
+              ) && shouldSendAdminNotification(type, user, payload)
+          )
+          .map(async (user) => {
+            if (
+              user.settings?.appriseUrls &&
+              !(await deferForQuietHours({
+                agent: this.key,
+                type,
+                payload,
+                user,
+              }))
+            ) {
+              logger.debug('Sending Apprise notification', {
+                label: 'Notifications',
+                recipient: user.displayName,
+                type: Notification[type],
+                subject: payload.subject,
+              });
+
+              try {
+                await this.notify(
+                  notificationPayload,
+                  type,
+                  user.settings.appriseUrls
+                );
+              } catch (e) {
+                logger.error('Error sending Apprise notification', {
+                  label: 'Notifications',
+                  recipient: user.displayName,
+                  type: Notification[type],
+                  subject: payload.subject,
+                  errorMessage: e.message,
+                  response: e?.response?.data,
+                });
+
+                return false;
+              }
+            }
+          })
+      );
+    }
+
+    return true;
+  }
+}
+
+export default AppriseAgent;
@@ -1,6 +1,12 @@
 import { IssueStatus, IssueTypeName } from '@server/constants/issue';
 import { getRepository } from '@server/datasource';
 import { User } from '@server/entity/User';
+import {
+  joinDigestLines,
+  queueDigestNotification,
+} from '@server/lib/notifications/digest';
+import { getQuietHoursEnd } from '@server/lib/notifications/quietHours';
+import { applyNotificationTemplate } from '@server/lib/notifications/templates';
 import type { NotificationAgentDiscord } from '@server/lib/settings';
 import { getSettings, NotificationAgentKey } from '@server/lib/settings';
 import logger from '@server/logger';
@@ -10,7 +16,11 @@ import {
   Notification,
   shouldSendAdminNotification,
 } from '..';
-import type { NotificationAgent, NotificationPayload } from './agent';
+import type {
+  DigestNotificationAgent,
+  NotificationDigestItem,
+  NotificationPayload,
+} from './agent';
 import { BaseAgent } from './agent';
 
 enum EmbedColors {
@@ -93,8 +103,11 @@ interface DiscordWebhookPayload {
 
 class DiscordAgent
   extends BaseAgent<NotificationAgentDiscord>
-  implements NotificationAgent
+  implements DigestNotificationAgent
 {
+  public readonly key = NotificationAgentKey.DISCORD;
+  public readonly sendsSingleMessage = true;
+
   protected getSettings(): NotificationAgentDiscord {
     if (this.settings) {
       return this.settings;
@@ -155,7 +168,9 @@ class DiscordAgent
           inline: true,
         });
       }
-    } else if (payload.comment) {
+    }
+
+    if (payload.comment) {
       fields.push({
         name: `Comment from ${payload.comment.user.displayName}`,
         value: payload.comment.message,
@@ -243,6 +258,8 @@ class DiscordAgent
     type: Notification,
     payload: NotificationPayload
   ): Promise<boolean> {
+    payload = applyNotificationTemplate(this.key, type, payload);
+
     const settings = this.getSettings();
 
     if (
@@ -268,7 +285,10 @@ class DiscordAgent
               NotificationAgentKey.DISCORD,
               type
             ) &&
-            payload.notifyUser.settings.discordId
+            payload.notifyUser.settings.discordId &&
+            // Mentions cannot be deferred, so users in their quiet hours are
+            // left out
+            !getQuietHoursEnd(payload.notifyUser.settings.quietHours)
           ) {
             userMentions.push(`<@${payload.notifyUser.settings.discordId}>`);
           }
@@ -287,6 +307,7 @@ class DiscordAgent
                     type
                   ) &&
                   user.settings.discordId &&
+                  !getQuietHoursEnd(user.settings.quietHours) &&
                   shouldSendAdminNotification(type, user, payload)
               )
               .map((user) => `<@${user.settings?.discordId}>`)
@@ -298,6 +319,18 @@ class DiscordAgent
         userMentions.push(`<@&${settings.options.webhookRoleId}>`);
       }
 
+      if (
+        await queueDigestNotification({
+          agent: this.key,
+          agentSettings: settings,
+          type,
+          payload,
+          mentions: userMentions,
+        })
+      ) {
+        return true;
+      }
+
       await axios.post(settings.options.webhookUrl, {
         username: settings.options.botUsername
           ? settings.options.botUsername
@@ -320,6 +353,61 @@ class DiscordAgent
       return false;
     }
   }
+
+  public async sendDigest(items: NotificationDigestItem[]): Promise<boolean> {
+    const settings = this.getSettings();
+
+    logger.debug('Sending Discord notification digest', {
+      label: 'Notifications',
+      count: items.length,
+    });
+
+    try {
+      const mentions = [
+        ...new Set(items.flatMap((item) => item.mentions ?? [])),
+      ];
+
+      await axios.post(settings.options.webhookUrl, {
+        username: settings.options.botUsername
+          ? settings.options.botUsername
+          : getSettings().main.applicationTitle,
+        avatar_url: settings.options.botAvatarUrl,
+        embeds: [
+          {
+            title: 'Notification Digest',
+            description: joinDigestLines(
+              items.map(
+                (item) =>
+                  `${item.event ? `**${item.event}** - ` : ''}${
+                    item.url ? `[${item.subject}](${item.url})` : item.subject
+                  }${item.requestedBy ? ` (${item.requestedBy})` : ''}`
+              ),
+              4096,
+              (count) => `*…and ${count} more*`
+            ),
+            color: EmbedColors.DARK_PURPLE,
+            timestamp: new Date().toISOString(),
+            footer: {
+              text: `${items.length} notification${
+                items.length === 1 ? '' : 's'
+              }`,
+            },
+          },
+        ],
+        content: mentions.join(' '),
+      } as DiscordWebhookPayload);
+
+      return true;
+    } catch (e) {
+      logger.error('Error sending Discord notification digest', {
+        label: 'Notifications',
+        errorMessage: e.message,
+        response: e?.response?.data,
+      });
+
+      return false;
+    }
+  }
 }
 
 export default DiscordAgent;
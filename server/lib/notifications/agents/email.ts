@@ -1,8 +1,14 @@
 import { IssueType, IssueTypeName } from '@server/constants/issue';
 import { MediaType } from '@server/constants/media';
-import { getRepository } from '@server/datasource';
-import { User } from '@server/entity/User';
+import type { User } from '@server/entity/User';
 import PreparedEmail from '@server/lib/email';
+import { queueDigestNotification } from '@server/lib/notifications/digest';
+import { getAdminNotificationUsers } from '@server/lib/notifications/outbox';
+import { deferForQuietHours } from '@server/lib/notifications/quietHours';
+import {
+  getNotificationTemplate,
+  renderTemplate,
+} from '@server/lib/notifications/templates';
 import type { NotificationAgentEmail } from '@server/lib/settings';
 import { getSettings, NotificationAgentKey } from '@server/lib/settings';
 import logger from '@server/logger';
@@ -10,13 +16,20 @@ import type { EmailOptions } from 'email-templates';
 import * as EmailValidator from 'email-validator';
 import path from 'path';
 import { Notification, shouldSendAdminNotification } from '..';
-import type { NotificationAgent, NotificationPayload } from './agent';
+import type {
+  DigestNotificationAgent,
+  NotificationDigestItem,
+  NotificationPayload,
+} from './agent';
 import { BaseAgent } from './agent';
 
 class EmailAgent
   extends BaseAgent<NotificationAgentEmail>
-  implements NotificationAgent
+  implements DigestNotificationAgent
 {
+  public readonly key = NotificationAgentKey.EMAIL;
+  public readonly sendsSingleMessage = false;
+
   protected getSettings(): NotificationAgentEmail {
     if (this.settings) {
       return this.settings;
@@ -72,6 +85,35 @@ class EmailAgent
         : 'series'
       : undefined;
     const is4k = payload.request?.is4k;
+    const template = getNotificationTemplate(this.key, type);
+    const templateSubject = template?.subject
+      ? renderTemplate(template.subject, payload, type)
+      : undefined;
+
+    if (type === Notification.USER_SIGNUP) {
+      return {
+        template: path.join(__dirname, '../../../templates/email/user-signup'),
+        message: {
+          to: recipientEmail,
+          subject: templateSubject,
+        },
+        locals: {
+          event: payload.event,
+          body: template?.body
+            ? renderTemplate(template.body, payload, type)
+            : payload.message,
+          username: payload.subject,
+          extra: payload.extra ?? [],
+          actionUrl: applicationUrl
+            ? `${applicationUrl}/users/invites`
+            : undefined,
+          applicationUrl,
+          applicationTitle,
+          recipientName,
+          recipientEmail,
+        },
+      };
+    }
 
     if (payload.request) {
       let body = '';
@@ -114,6 +156,17 @@ class EmailAgent
             payload.media?.mediaType === MediaType.MOVIE ? 'Radarr' : 'Sonarr'
           }:`;
           break;
+        case Notification.REQUEST_COMMENT:
+          body = `${
+            payload.comment?.user.displayName
+          } commented on the request for the following ${mediaType}${
+            is4k ? ' in 4K' : ''
+          }:`;
+          break;
+      }
+
+      if (template?.body) {
+        body = renderTemplate(template.body, payload, type);
       }
 
       return {
@@ -123,6 +176,7 @@ class EmailAgent
         ),
         message: {
           to: recipientEmail,
+          subject: templateSubject,
         },
         locals: {
           event: payload.event,
@@ -132,6 +186,7 @@ class EmailAgent
           imageUrl: payload.image,
           timestamp: new Date().toTimeString(),
           requestedBy: payload.request.requestedBy.displayName,
+          requestComment: payload.comment?.message,
           actionUrl: applicationUrl
             ? `${applicationUrl}/${payload.media?.mediaType}/${payload.media?.tmdbId}`
             : undefined,
@@ -164,10 +219,15 @@ class EmailAgent
           break;
       }
 
+      if (template?.body) {
+        body = renderTemplate(template.body, payload, type);
+      }
+
       return {
         template: path.join(__dirname, '../../../templates/email/media-issue'),
         message: {
           to: recipientEmail,
+          subject: templateSubject,
         },
         locals: {
           event: payload.event,
@@ -201,11 +261,24 @@ class EmailAgent
         !payload.notifyUser.settings ||
         // Check if user has email notifications enabled and fallback to true if undefined
         // since email should default to true
-        (payload.notifyUser.settings.hasNotificationType(
+        ((payload.notifyUser.settings.hasNotificationType(
           NotificationAgentKey.EMAIL,
           type
         ) ??
-          true)
+          true) &&
+          !(await deferForQuietHours({
+            agent: this.key,
+            type,
+            payload,
+            user: payload.notifyUser,
+          })) &&
+          !(await queueDigestNotification({
+            agent: this.key,
+            agentSettings: this.getSettings(),
+            type,
+            payload,
+            user: payload.notifyUser,
+          })))
       ) {
         logger.debug('Sending email notification', {
           label: 'Notifications',
@@ -251,8 +324,7 @@ class EmailAgent
     }
 
     if (payload.notifyAdmin) {
-      const userRepository = getRepository(User);
-      const users = await userRepository.find();
+      const users = await getAdminNotificationUsers(payload);
 
       await Promise.all(
         users
@@ -269,6 +341,24 @@ class EmailAgent
               shouldSendAdminNotification(type, user, payload)
           )
           .map(async (user) => {
+            if (
+              (await deferForQuietHours({
+                agent: this.key,
+                type,
+                payload,
+                user,
+              })) ||
+              (await queueDigestNotification({
+                agent: this.key,
+                agentSettings: this.getSettings(),
+                type,
+                payload,
+                user,
+              }))
+            ) {
+              return;
+            }
+
             logger.debug('Sending email notification', {
               label: 'Notifications',
               recipient: user.displayName,
@@ -310,6 +400,62 @@ class EmailAgent
 
     return true;
   }
+
+  public async sendDigest(
+    items: NotificationDigestItem[],
+    user?: User
+  ): Promise<boolean> {
+    const { applicationUrl, applicationTitle } = getSettings().main;
+
+    if (!user) {
+      return true;
+    }
+
+    if (!EmailValidator.validate(user.email)) {
+      logger.warn('Invalid email address provided for user', {
+        label: 'Notifications',
+        recipient: user.displayName,
+      });
+
+      return false;
+    }
+
+    try {
+      const email = new PreparedEmail(
+        this.getSettings(),
+        user.settings?.pgpKey
+      );
+      await email.send({
+        template: path.join(
+          __dirname,
+          '../../../templates/email/notification-digest'
+        ),
+        message: {
+          to: user.email,
+        },
+        locals: {
+          items: items.map((item) => ({
+            ...item,
+            timestamp: new Date(item.timestamp).toTimeString(),
+          })),
+          applicationUrl,
+          applicationTitle,
+          recipientName: user.displayName,
+          recipientEmail: user.email,
+        },
+      });
+
+      return true;
+    } catch (e) {
+      logger.error('Error sending email notification digest', {
+        label: 'Notifications',
+        recipient: user.displayName,
+        errorMessage: e.message,
+      });
+
+      return false;
+    }
+  }
 }
 
 export default EmailAgent;
@@ -1,6 +1,7 @@
 import { IssueStatus, IssueTypeName } from '@server/constants/issue';
+import { applyNotificationTemplate } from '@server/lib/notifications/templates';
 import type { NotificationAgentGotify } from '@server/lib/settings';
-import { getSettings } from '@server/lib/settings';
+import { getSettings, NotificationAgentKey } from '@server/lib/settings';
 import logger from '@server/logger';
 import axios from 'axios';
 import { hasNotificationType, Notification } from '..';
@@ -18,6 +19,9 @@ class GotifyAgent
   extends BaseAgent<NotificationAgentGotify>
   implements NotificationAgent
 {
+  public readonly key = NotificationAgentKey.GOTIFY;
+  public readonly sendsSingleMessage = true;
+
   protected getSettings(): NotificationAgentGotify {
     if (this.settings) {
       return this.settings;
@@ -83,7 +87,9 @@ class GotifyAgent
       if (status) {
         message += `\n**Request Status:** ${status}  `;
       }
-    } else if (payload.comment) {
+    }
+
+    if (payload.comment) {
       message += `\nComment from ${payload.comment.user.displayName}:\n${payload.comment.message}  `;
     } else if (payload.issue) {
       message += `\n\n**Reported By:** ${payload.issue.createdBy.displayName}  `;
@@ -122,6 +128,8 @@ class GotifyAgent
     type: Notification,
     payload: NotificationPayload
   ): Promise<boolean> {
+    payload = applyNotificationTemplate(this.key, type, payload);
+
     const settings = this.getSettings();
 
     if (
@@ -0,0 +1,484 @@
+import { IssueStatus, IssueTypeName } from '@server/constants/issue';
+import { MediaStatus } from '@server/constants/media';
+import { getAdminNotificationUsers } from '@server/lib/notifications/outbox';
+import { deferForQuietHours } from '@server/lib/notifications/quietHours';
+import { applyNotificationTemplate } from '@server/lib/notifications/templates';
+import type { NotificationAgentMatrix } from '@server/lib/settings';
+import { getSettings, NotificationAgentKey } from '@server/lib/settings';
+import logger from '@server/logger';
+import type { AxiosInstance } from 'axios';
+import axios from 'axios';
+import {
+  hasNotificationType,
+  Notification,
+  shouldSendAdminNotification,
+} from '..';
+import type { NotificationAgent, NotificationPayload } from './agent';
+import { BaseAgent } from './agent';
+
+interface MatrixMessageContent {
+  msgtype: 'm.text';
+  body: string;
+  format: 'org.matrix.custom.html';
+  formatted_body: string;
+}
+
+// Posters are uploaded to the homeserver once, and direct message rooms are
+// looked up once, for the lifetime of the process
+const uploadedImages = new Map<string, string>();
+const directRooms = new Map<string, string>();
+
+class MatrixAgent
+  extends BaseAgent<NotificationAgentMatrix>
+  implements NotificationAgent
+{
+  public readonly key = NotificationAgentKey.MATRIX;
+  public readonly sendsSingleMessage = false;
+
+  protected getSettings(): NotificationAgentMatrix {
+    if (this.settings) {
+      return this.settings;
+    }
+
+    const settings = getSettings();
+
+    return settings.notifications.agents.matrix;
+  }
+
+  public shouldSend(): boolean {
+    const settings = this.getSettings();
+
+    if (
+      settings.enabled &&
+      settings.options.homeserverUrl &&
+      settings.options.accessToken
+    ) {
+      return true;
+    }
+
+    return false;
+  }
+
+  private getClient(): AxiosInstance {
+    const settings = this.getSettings();
+
+    return axios.create({
+      baseURL: `${settings.options.homeserverUrl.replace(/\/+$/, '')}/_matrix`,
+      headers: {
+        Authorization: `Bearer ${settings.options.accessToken}`,
+      },
+    });
+  }
+
+  private escapeHtml(text: string | undefined): string {
+    return text
+      ? text.replace(
+          /[&<>"']/g,
+          (x) =>
+            ({
+              '&': '&amp;',
+              '<': '&lt;',
+              '>': '&gt;',
+              '"': '&quot;',
+              "'": '&#39;',
+            }[x] as string)
+        )
+      : '';
+  }
+
+  private getNotificationContent(
+    type: Notification,
+    payload: NotificationPayload,
+    imageUri?: string
+  ): MatrixMessageContent {
+    const { applicationUrl, applicationTitle } = getSettings().main;
+
+    const title = payload.event
+      ? `${payload.event} - ${payload.subject}`
+      : payload.subject;
+    const fields: { name: string; value: string }[] = [];
+
+    if (payload.request) {
+      fields.push({
+        name: 'Requested By',
+        value: payload.request.requestedBy.displayName,
+      });
+
+      let status = '';
+      switch (type) {
+        case Notification.MEDIA_AUTO_REQUESTED:
+          status =
+            payload.media?.status === MediaStatus.PENDING
+              ? 'Pending Approval'
+              : 'Processing';
+          break;
+        case Notification.MEDIA_PENDING:
+          status = 'Pending Approval';
+          break;
+        case Notification.MEDIA_APPROVED:
+        case Notification.MEDIA_AUTO_APPROVED:
+          status = 'Processing';
+          break;
+        case Notification.MEDIA_AVAILABLE:
+          status = 'Available';
+          break;
+        case Notification.MEDIA_DECLINED:
+          status = 'Declined';
+          break;
+        case Notification.MEDIA_FAILED:
+          status = 'Failed';
+          break;
+      }
+
+      if (status) {
+        fields.push({ name: 'Request Status', value: status });
+      }
+    }
+
+    if (payload.comment) {
+      fields.push({
+        name: `Comment from ${payload.comment.user.displayName}`,
+        value: payload.comment.message,
+      });
+    } else if (payload.issue) {
+      fields.push(
+        {
+          name: 'Reported By',
+          value: payload.issue.createdBy.displayName,
+        },
+        {
+          name: 'Issue Type',
+          value: IssueTypeName[payload.issue.issueType],
+        },
+        {
+          name: 'Issue Status',
+          value:
+            payload.issue.status === IssueStatus.OPEN ? 'Open' : 'Resolved',
+        }
+      );
+    }
+
+    fields.push(...(payload.extra ?? []));
+
+    const url = applicationUrl
+      ? payload.issue
+        ? `${applicationUrl}/issues/${payload.issue.id}`
+        : payload.media
+        ? `${applicationUrl}/${payload.media.mediaType}/${payload.media.tmdbId}`
+        : undefined
+      : undefined;
+    const linkText = `View ${
+      payload.issue ? 'Issue' : 'Media'
+    } in ${applicationTitle}`;
+
+    let body = title;
+    let html = `<strong>${this.escapeHtml(title)}</strong>`;
+
+    if (payload.message) {
+      body += `\n${payload.message}`;
+      html += `<br />${this.escapeHtml(payload.message).replace(
+        /\n/g,
+        '<br />'
+      )}`;
+    }
+
+    if (fields.length) {
+      body += `\n\n${fields
+        .map((field) => `${field.name}: ${field.value}`)
+        .join('\n')}`;
+      html += `<br /><br />${fields
+        .map(
+          (field) =>
+            `<strong>${this.escapeHtml(field.name)}:</strong> ${this.escapeHtml(
+              field.value
+            )}`
+        )
+        .join('<br />')}`;
+    }
+
+    if (url) {
+      body += `\n\n${linkText}: ${url}`;
+      html += `<br /><br /><a href="${this.escapeHtml(url)}">${this.escapeHtml(
+        linkText
+      )}</a>`;
+    }
+
+    if (imageUri) {
+      html += `<br /><img src="${imageUri}" alt="${this.escapeHtml(
+        payload.subject
+      )}" height="180" />`;
+    }
+
+    return {
+      msgtype: 'm.text',
+      body,
+      format: 'org.matrix.custom.html',
+      formatted_body: html,
+    };
+  }
+
+  /**
+   * Uploads the notification image to the homeserver, since Matrix clients
+   * only display images from mxc:// URIs.
+   */
+  private async uploadImage(imageUrl: string): Promise<string | undefined> {
+    const settings = this.getSettings();
+    const cacheKey = `${settings.options.homeserverUrl}|${imageUrl}`;
+    const cachedUri = uploadedImages.get(cacheKey);
+
+    if (cachedUri) {
+      return cachedUri;
+    }
+
+    try {
+      const image = await axios.get<ArrayBuffer>(imageUrl, {
+        responseType: 'arraybuffer',
+      });
+
+      const response = await this.getClient().post<{ content_uri: string }>(
+        '/media/v3/upload',
+        image.data,
+        {
+          params: { filename: imageUrl.split('/').pop() },
+          headers: {
+            'Content-Type': image.headers['content-type'] ?? 'image/jpeg',
+          },
+        }
+      );
+
+      uploadedImages.set(cacheKey, response.data.content_uri);
+
+      return response.data.content_uri;
+    } catch (e) {
+      logger.debug('Failed to upload image to Matrix homeserver', {
+        label: 'Notifications',
+        imageUrl,
+        errorMessage: e.message,
+      });
+
+      return undefined;
+    }
+  }
+
+  /**
+   * Resolves a room ID, room alias or user ID to a room ID. Notifications to
+   * a user ID are delivered in a direct message room, which is created the
+   * first time the user is notified.
+   */
+  private async resolveRoom(target: string): Promise<string> {
+    const client = this.getClient();
+
+    if (target.startsWith('#')) {
+      const response = await client.get<{ room_id: string }>(
+        `/client/v3/directory/room/${encodeURIComponent(target)}`
+      );
+
+      return response.data.room_id;
+    }
+
+    if (!target.startsWith('@')) {
+      return target;
+    }
+
+    const settings = this.getSettings();
+    const cacheKey = `${settings.options.homeserverUrl}|${settings.options.accessToken}|${target}`;
+    const cachedRoom = directRooms.get(cacheKey);
+
+    if (cachedRoom) {
+      return cachedRoom;
+    }
+
+    const {
+      data: { user_id: botUserId },
+    } = await client.get<{ user_id: string }>('/client/v3/account/whoami');
+    const accountDataUrl = `/client/v3/user/${encodeURIComponent(
+      botUserId
+    )}/account_data/m.direct`;
+
+    let directMessages: Record<string, string[]> = {};
+
+    try {
+      directMessages = (
+        await client.get<Record<string, string[]>>(accountDataUrl)
+      ).data;
+    } catch (e) {
+      // The account data does not exist until the first direct message
+      if (e.response?.status !== 404) {
+        throw e;
+      }
+    }
+
+    let roomId = directMessages[target]?.[0];
+
+    if (!roomId) {
+      roomId = (
+        await client.post<{ room_id: string }>('/client/v3/createRoom', {
+          is_direct: true,
+          invite: [target],
+          preset: 'trusted_private_chat',
+        })
+      ).data.room_id;
+
+      await client.put(accountDataUrl, {
+        ...directMessages,
+        [target]: [roomId, ...(directMessages[target] ?? [])],
+      });
+    }
+
+    directRooms.set(cacheKey, roomId);
+
+    return roomId;
+  }
+
+  private async sendMessage(
+    target: string,
+    content: MatrixMessageContent
+  ): Promise<void> {
+    const roomId = await this.resolveRoom(target);
+    const transactionId = `jellyseerr-${Date.now()}-${Math.random()
+      .toString(36)
+      .slice(2)}`;
+
+    await this.getClient().put(
+      `/client/v3/rooms/${encodeURIComponent(
+        roomId
+      )}/send/m.room.message/${transactionId}`,
+      content
+    );
+  }
+
+  public async send(
+    type: Notification,
+    payload: NotificationPayload
+  ): Promise<boolean> {
+    payload = applyNotificationTemplate(this.key, type, payload);
+
+    const settings = this.getSettings();
+    const imageUri = payload.image
+      ? await this.uploadImage(payload.image)
+      : undefined;
+    const content = this.getNotificationContent(type, payload, imageUri);
+
+    // Send system notification
+    if (
+      payload.notifySystem &&
+      hasNotificationType(type, settings.types ?? 0) &&
+      settings.options.roomId
+    ) {
+      logger.debug('Sending Matrix notification', {
+        label: 'Notifications',
+        type: Notification[type],
+        subject: payload.subject,
+      });
+
+      try {
+        await this.sendMessage(settings.options.roomId, content);
+      } catch (e) {
+        logger.error('Error sending Matrix notification', {
+          label: 'Notifications',
+          type: Notification[type],
+          subject: payload.subject,
+          errorMessage: e.message,
+          response: e?.response?.data,
+        });
+
+        return false;
+      }
+    }
+
+    if (payload.notifyUser) {
+      if (
+        payload.notifyUser.settings?.hasNotificationType(
+          NotificationAgentKey.MATRIX,
+          type
+        ) &&
+        payload.notifyUser.settings?.matrixRoomId &&
+        payload.notifyUser.settings.matrixRoomId !== settings.options.roomId &&
+        !(await deferForQuietHours({
+          agent: this.key,
+          type,
+          payload,
+          user: payload.notifyUser,
+        }))
+      ) {
+        logger.debug('Sending Matrix notification', {
+          label: 'Notifications',
+          recipient: payload.notifyUser.displayName,
+          type: Notification[type],
+          subject: payload.subject,
+        });
+
+        try {
+          await this.sendMessage(
+            payload.notifyUser.settings.matrixRoomId,
+            content
+          );
+        } catch (e) {
+          logger.error('Error sending Matrix notification', {
+            label: 'Notifications',
+            recipient: payload.notifyUser.displayName,
+            type: Notification[type],
+            subject: payload.subject,
+            errorMessage: e.message,
+            response: e?.response?.data,
+          });
+
+          return false;
+        }
+      }
+    }
+
+    if (payload.notifyAdmin) {
+      const users = await getAdminNotificationUsers(payload);
+
+      await Promise.all(
+        users
+          .filter(
+            (user) =>
+              user.settings?.hasNotificationType(
+                NotificationAgentKey.MATRIX,
+                type
+              ) && shouldSendAdminNotification(type, user, payload)
+          )
+          .map(async (user) => {
+            if (
+              user.settings?.matrixRoomId &&
+              user.settings.matrixRoomId !== settings.options.roomId &&
+              !(await deferForQuietHours({
+                agent: this.key,
+                type,
+                payload,
+                user,
+              }))
+            ) {
+              logger.debug('Sending Matrix notification', {
+                label: 'Notifications',
+                recipient: user.displayName,
+                type: Notification[type],
+                subject: payload.subject,
+              });
+
+              try {
+                await this.sendMessage(user.settings.matrixRoomId, content);
+              } catch (e) {
+                logger.error('Error sending Matrix notification', {
+                  label: 'Notifications',
+                  recipient: user.displayName,
+                  type: Notification[type],
+                  subject: payload.subject,
+                  errorMessage: e.message,
+                  response: e?.response?.data,
+                });
+
+                return false;
+              }
+            }
+          })
+      );
+    }
+
+    return true;
+  }
+}
+
+export default MatrixAgent;
@@ -1,6 +1,7 @@
 import { IssueStatus, IssueTypeName } from '@server/constants/issue';
+import { applyNotificationTemplate } from '@server/lib/notifications/templates';
 import type { NotificationAgentNtfy } from '@server/lib/settings';
-import { getSettings } from '@server/lib/settings';
+import { getSettings, NotificationAgentKey } from '@server/lib/settings';
 import logger from '@server/logger';
 import axios from 'axios';
 import { hasNotificationType, Notification } from '..';
@@ -11,6 +12,9 @@ class NtfyAgent
   extends BaseAgent<NotificationAgentNtfy>
   implements NotificationAgent
 {
+  public readonly key = NotificationAgentKey.NTFY;
+  public readonly sendsSingleMessage = true;
+
   protected getSettings(): NotificationAgentNtfy {
     if (this.settings) {
       return this.settings;
@@ -58,7 +62,9 @@ class NtfyAgent
       if (status) {
         message += `\nRequest Status: ${status}`;
       }
-    } else if (payload.comment) {
+    }
+
+    if (payload.comment) {
       message += `\nComment from ${payload.comment.user.displayName}:\n${payload.comment.message}`;
     } else if (payload.issue) {
       message += `\n\nReported By: ${payload.issue.createdBy.displayName}`;
@@ -103,6 +109,8 @@ class NtfyAgent
     type: Notification,
     payload: NotificationPayload
   ): Promise<boolean> {
+    payload = applyNotificationTemplate(this.key, type, payload);
+
     const settings = this.getSettings();
 
     if (
@@ -1,7 +1,8 @@
 import { IssueStatus, IssueTypeName } from '@server/constants/issue';
 import { MediaStatus } from '@server/constants/media';
-import { getRepository } from '@server/datasource';
-import { User } from '@server/entity/User';
+import { getAdminNotificationUsers } from '@server/lib/notifications/outbox';
+import { deferForQuietHours } from '@server/lib/notifications/quietHours';
+import { applyNotificationTemplate } from '@server/lib/notifications/templates';
 import type { NotificationAgentPushbullet } from '@server/lib/settings';
 import { getSettings, NotificationAgentKey } from '@server/lib/settings';
 import logger from '@server/logger';
@@ -25,6 +26,9 @@ class PushbulletAgent
   extends BaseAgent<NotificationAgentPushbullet>
   implements NotificationAgent
 {
+  public readonly key = NotificationAgentKey.PUSHBULLET;
+  public readonly sendsSingleMessage = false;
+
   protected getSettings(): NotificationAgentPushbullet {
     if (this.settings) {
       return this.settings;
@@ -80,7 +84,9 @@ class PushbulletAgent
       if (status) {
         body += `\nRequest Status: ${status}`;
       }
-    } else if (payload.comment) {
+    }
+
+    if (payload.comment) {
       body += `\n\nComment from ${payload.comment.user.displayName}:\n${payload.comment.message}`;
     } else if (payload.issue) {
       body += `\n\nReported By: ${payload.issue.createdBy.displayName}`;
@@ -105,6 +111,8 @@ class PushbulletAgent
     type: Notification,
     payload: NotificationPayload
   ): Promise<boolean> {
+    payload = applyNotificationTemplate(this.key, type, payload);
+
     const settings = this.getSettings();
     const endpoint = 'https://api.pushbullet.com/v2/pushes';
     const notificationPayload = this.getNotificationPayload(type, payload);
@@ -153,7 +161,13 @@ class PushbulletAgent
         ) &&
         payload.notifyUser.settings?.pushbulletAccessToken &&
         payload.notifyUser.settings.pushbulletAccessToken !==
-          settings.options.accessToken
+          settings.options.accessToken &&
+        !(await deferForQuietHours({
+          agent: this.key,
+          type,
+          payload,
+          user: payload.notifyUser,
+        }))
       ) {
         logger.debug('Sending Pushbullet notification', {
           label: 'Notifications',
@@ -184,8 +198,7 @@ class PushbulletAgent
     }
 
     if (payload.notifyAdmin) {
-      const userRepository = getRepository(User);
-      const users = await userRepository.find();
+      const users = await getAdminNotificationUsers(payload);
 
       await Promise.all(
         users
@@ -201,7 +214,13 @@ class PushbulletAgent
               user.settings?.pushbulletAccessToken &&
               (settings.options.channelTag ||
                 user.settings.pushbulletAccessToken !==
-                  settings.options.accessToken)
+                  settings.options.accessToken) &&
+              !(await deferForQuietHours({
+                agent: this.key,
+                type,
+                payload,
+                user,
+              }))
             ) {
               logger.debug('Sending Pushbullet notification', {
                 label: 'Notifications',
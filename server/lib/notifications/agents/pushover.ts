@@ -1,7 +1,8 @@
 import { IssueStatus, IssueTypeName } from '@server/constants/issue';
 import { MediaStatus } from '@server/constants/media';
-import { getRepository } from '@server/datasource';
-import { User } from '@server/entity/User';
+import { getAdminNotificationUsers } from '@server/lib/notifications/outbox';
+import { deferForQuietHours } from '@server/lib/notifications/quietHours';
+import { applyNotificationTemplate } from '@server/lib/notifications/templates';
 import type { NotificationAgentPushover } from '@server/lib/settings';
 import { getSettings, NotificationAgentKey } from '@server/lib/settings';
 import logger from '@server/logger';
@@ -34,6 +35,9 @@ class PushoverAgent
   extends BaseAgent<NotificationAgentPushover>
   implements NotificationAgent
 {
+  public readonly key = NotificationAgentKey.PUSHOVER;
+  public readonly sendsSingleMessage = false;
+
   protected getSettings(): NotificationAgentPushover {
     if (this.settings) {
       return this.settings;
@@ -122,7 +126,9 @@ class PushoverAgent
       if (status) {
         message += `<small>\n<b>Request Status:</b> ${status}</small>`;
       }
-    } else if (payload.comment) {
+    }
+
+    if (payload.comment) {
       message += `<small>\n\n<b>Comment from ${payload.comment.user.displayName}:</b> ${payload.comment.message}</small>`;
     } else if (payload.issue) {
       message += `<small>\n\n<b>Reported By:</b> ${payload.issue.createdBy.displayName}</small>`;
@@ -179,6 +185,8 @@ class PushoverAgent
     type: Notification,
     payload: NotificationPayload
   ): Promise<boolean> {
+    payload = applyNotificationTemplate(this.key, type, payload);
+
     const settings = this.getSettings();
     const endpoint = 'https://api.pushover.net/1/messages.json';
     const notificationPayload = await this.getNotificationPayload(
@@ -231,7 +239,13 @@ class PushoverAgent
         (payload.notifyUser.settings.pushoverApplicationToken !==
           settings.options.accessToken ||
           payload.notifyUser.settings.pushoverUserKey !==
-            settings.options.userToken)
+            settings.options.userToken) &&
+        !(await deferForQuietHours({
+          agent: this.key,
+          type,
+          payload,
+          user: payload.notifyUser,
+        }))
       ) {
         logger.debug('Sending Pushover notification', {
           label: 'Notifications',
@@ -263,8 +277,7 @@ class PushoverAgent
     }
 
     if (payload.notifyAdmin) {
-      const userRepository = getRepository(User);
-      const users = await userRepository.find();
+      const users = await getAdminNotificationUsers(payload);
 
       await Promise.all(
         users
@@ -281,7 +294,13 @@ class PushoverAgent
               user.settings?.pushoverUserKey &&
               user.settings.pushoverApplicationToken !==
                 settings.options.accessToken &&
-              user.settings.pushoverUserKey !== settings.options.userToken
+              user.settings.pushoverUserKey !== settings.options.userToken &&
+              !(await deferForQuietHours({
+                agent: this.key,
+                type,
+                payload,
+                user,
+              }))
             ) {
               logger.debug('Sending Pushover notification', {
                 label: 'Notifications',
@@ -1,6 +1,7 @@
 import { IssueStatus, IssueTypeName } from '@server/constants/issue';
+import { applyNotificationTemplate } from '@server/lib/notifications/templates';
 import type { NotificationAgentSlack } from '@server/lib/settings';
-import { getSettings } from '@server/lib/settings';
+import { getSettings, NotificationAgentKey } from '@server/lib/settings';
 import logger from '@server/logger';
 import axios from 'axios';
 import { hasNotificationType, Notification } from '..';
@@ -49,6 +50,9 @@ class SlackAgent
   extends BaseAgent<NotificationAgentSlack>
   implements NotificationAgent
 {
+  public readonly key = NotificationAgentKey.SLACK;
+  public readonly sendsSingleMessage = true;
+
   protected getSettings(): NotificationAgentSlack {
     if (this.settings) {
       return this.settings;
@@ -99,7 +103,9 @@ class SlackAgent
           text: `*Request Status*\n${status}`,
         });
       }
-    } else if (payload.comment) {
+    }
+
+    if (payload.comment) {
       fields.push({
         type: 'mrkdwn',
         text: `*Comment from ${payload.comment.user.displayName}*\n${payload.comment.message}`,
@@ -223,6 +229,8 @@ class SlackAgent
     type: Notification,
     payload: NotificationPayload
   ): Promise<boolean> {
+    payload = applyNotificationTemplate(this.key, type, payload);
+
     const settings = this.getSettings();
 
     if (
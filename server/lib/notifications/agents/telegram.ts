@@ -1,7 +1,13 @@
 import { IssueStatus, IssueTypeName } from '@server/constants/issue';
 import { MediaStatus } from '@server/constants/media';
-import { getRepository } from '@server/datasource';
-import { User } from '@server/entity/User';
+import type { User } from '@server/entity/User';
+import {
+  joinDigestLines,
+  queueDigestNotification,
+} from '@server/lib/notifications/digest';
+import { getAdminNotificationUsers } from '@server/lib/notifications/outbox';
+import { deferForQuietHours } from '@server/lib/notifications/quietHours';
+import { applyNotificationTemplate } from '@server/lib/notifications/templates';
 import type { NotificationAgentTelegram } from '@server/lib/settings';
 import { getSettings, NotificationAgentKey } from '@server/lib/settings';
 import logger from '@server/logger';
@@ -11,7 +17,11 @@ import {
   Notification,
   shouldSendAdminNotification,
 } from '..';
-import type { NotificationAgent, NotificationPayload } from './agent';
+import type {
+  DigestNotificationAgent,
+  NotificationDigestItem,
+  NotificationPayload,
+} from './agent';
 import { BaseAgent } from './agent';
 
 interface TelegramMessagePayload {
@@ -33,8 +43,11 @@ interface TelegramPhotoPayload {
 
 class TelegramAgent
   extends BaseAgent<NotificationAgentTelegram>
-  implements NotificationAgent
+  implements DigestNotificationAgent
 {
+  public readonly key = NotificationAgentKey.TELEGRAM;
+  public readonly sendsSingleMessage = false;
+
   private baseUrl = 'https://api.telegram.org/';
 
   protected getSettings(): NotificationAgentTelegram {
@@ -109,7 +122,9 @@ class TelegramAgent
       if (status) {
         message += `\n\*Request Status:\* ${status}`;
       }
-    } else if (payload.comment) {
+    }
+
+    if (payload.comment) {
       message += `\n\n\*Comment from ${this.escapeText(
         payload.comment.user.displayName
       )}:\* ${this.escapeText(payload.comment.message)}`;
@@ -158,6 +173,8 @@ class TelegramAgent
     type: Notification,
     payload: NotificationPayload
   ): Promise<boolean> {
+    payload = applyNotificationTemplate(this.key, type, payload);
+
     const settings = this.getSettings();
     const endpoint = `${this.baseUrl}bot${settings.options.botAPI}/${
       payload.image ? 'sendPhoto' : 'sendMessage'
@@ -168,7 +185,13 @@ class TelegramAgent
     if (
       payload.notifySystem &&
       hasNotificationType(type, settings.types ?? 0) &&
-      settings.options.chatId
+      settings.options.chatId &&
+      !(await queueDigestNotification({
+        agent: this.key,
+        agentSettings: settings,
+        type,
+        payload,
+      }))
     ) {
       logger.debug('Sending Telegram notification', {
         label: 'Notifications',
@@ -203,7 +226,21 @@ class TelegramAgent
           type
         ) &&
         payload.notifyUser.settings?.telegramChatId &&
-        payload.notifyUser.settings.telegramChatId !== settings.options.chatId
+        payload.notifyUser.settings.telegramChatId !==
+          settings.options.chatId &&
+        !(await deferForQuietHours({
+          agent: this.key,
+          type,
+          payload,
+          user: payload.notifyUser,
+        })) &&
+        !(await queueDigestNotification({
+          agent: this.key,
+          agentSettings: settings,
+          type,
+          payload,
+          user: payload.notifyUser,
+        }))
       ) {
         logger.debug('Sending Telegram notification', {
           label: 'Notifications',
@@ -237,8 +274,7 @@ class TelegramAgent
     }
 
     if (payload.notifyAdmin) {
-      const userRepository = getRepository(User);
-      const users = await userRepository.find();
+      const users = await getAdminNotificationUsers(payload);
 
       await Promise.all(
         users
@@ -252,7 +288,20 @@ class TelegramAgent
           .map(async (user) => {
             if (
               user.settings?.telegramChatId &&
-              user.settings.telegramChatId !== settings.options.chatId
+              user.settings.telegramChatId !== settings.options.chatId &&
+              !(await deferForQuietHours({
+                agent: this.key,
+                type,
+                payload,
+                user,
+              })) &&
+              !(await queueDigestNotification({
+                agent: this.key,
+                agentSettings: settings,
+                type,
+                payload,
+                user,
+              }))
             ) {
               logger.debug('Sending Telegram notification', {
                 label: 'Notifications',
@@ -287,6 +336,72 @@ class TelegramAgent
 
     return true;
   }
+
+  public async sendDigest(
+    items: NotificationDigestItem[],
+    user?: User
+  ): Promise<boolean> {
+    const settings = this.getSettings();
+    const chatId = user
+      ? user.settings?.telegramChatId
+      : settings.options.chatId;
+
+    if (!chatId) {
+      return true;
+    }
+
+    logger.debug('Sending Telegram notification digest', {
+      label: 'Notifications',
+      recipient: user?.displayName,
+      count: items.length,
+    });
+
+    /* eslint-disable no-useless-escape */
+    const lines = items.map(
+      (item) =>
+        `• ${item.event ? `\*${this.escapeText(item.event)}\* \\- ` : ''}${
+          item.url
+            ? `\[${this.escapeText(item.subject)}\]\(${item.url}\)`
+            : this.escapeText(item.subject)
+        }${
+          item.requestedBy ? ` \\(${this.escapeText(item.requestedBy)}\\)` : ''
+        }`
+    );
+    const text = `\*Notification Digest\*\n\n${joinDigestLines(
+      lines,
+      4000,
+      (count) => `_…and ${count} more_`
+    )}`;
+    /* eslint-enable */
+
+    try {
+      await axios.post(
+        `${this.baseUrl}bot${settings.options.botAPI}/sendMessage`,
+        {
+          text,
+          parse_mode: 'MarkdownV2',
+          chat_id: chatId,
+          message_thread_id: user
+            ? user.settings?.telegramMessageThreadId
+            : settings.options.messageThreadId,
+          disable_notification: user
+            ? !!user.settings?.telegramSendSilently
+            : !!settings.options.sendSilently,
+        } as TelegramMessagePayload
+      );
+
+      return true;
+    } catch (e) {
+      logger.error('Error sending Telegram notification digest', {
+        label: 'Notifications',
+        recipient: user?.displayName,
+        errorMessage: e.message,
+        response: e?.response?.data,
+      });
+
+      return false;
+    }
+  }
 }
 
 export default TelegramAgent;
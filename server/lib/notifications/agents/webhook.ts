@@ -1,66 +1,19 @@
-import { IssueStatus, IssueType } from '@server/constants/issue';
-import { MediaStatus } from '@server/constants/media';
+import { renderTemplate } from '@server/lib/notifications/templates';
 import type { NotificationAgentWebhook } from '@server/lib/settings';
-import { getSettings } from '@server/lib/settings';
+import { getSettings, NotificationAgentKey } from '@server/lib/settings';
 import logger from '@server/logger';
 import axios from 'axios';
-import { get } from 'lodash';
 import { hasNotificationType, Notification } from '..';
 import type { NotificationAgent, NotificationPayload } from './agent';
 import { BaseAgent } from './agent';
 
-type KeyMapFunction = (
-  payload: NotificationPayload,
-  type: Notification
-) => string;
-
-const KeyMap: Record<string, string | KeyMapFunction> = {
-  notification_type: (_payload, type) => Notification[type],
-  event: 'event',
-  subject: 'subject',
-  message: 'message',
-  image: 'image',
-  notifyuser_username: 'notifyUser.displayName',
-  notifyuser_email: 'notifyUser.email',
-  notifyuser_avatar: 'notifyUser.avatar',
-  notifyuser_settings_discordId: 'notifyUser.settings.discordId',
-  notifyuser_settings_telegramChatId: 'notifyUser.settings.telegramChatId',
-  media_tmdbid: 'media.tmdbId',
-  media_tvdbid: 'media.tvdbId',
-  media_type: 'media.mediaType',
-  media_status: (payload) =>
-    payload.media ? MediaStatus[payload.media.status] : '',
-  media_status4k: (payload) =>
-    payload.media ? MediaStatus[payload.media.status4k] : '',
-  request_id: 'request.id',
-  requestedBy_username: 'request.requestedBy.displayName',
-  requestedBy_email: 'request.requestedBy.email',
-  requestedBy_avatar: 'request.requestedBy.avatar',
-  requestedBy_settings_discordId: 'request.requestedBy.settings.discordId',
-  requestedBy_settings_telegramChatId:
-    'request.requestedBy.settings.telegramChatId',
-  issue_id: 'issue.id',
-  issue_type: (payload) =>
-    payload.issue ? IssueType[payload.issue.issueType] : '',
-  issue_status: (payload) =>
-    payload.issue ? IssueStatus[payload.issue.status] : '',
-  reportedBy_username: 'issue.createdBy.displayName',
-  reportedBy_email: 'issue.createdBy.email',
-  reportedBy_avatar: 'issue.createdBy.avatar',
-  reportedBy_settings_discordId: 'issue.createdBy.settings.discordId',
-  reportedBy_settings_telegramChatId: 'issue.createdBy.settings.telegramChatId',
-  comment_message: 'comment.message',
-  commentedBy_username: 'comment.user.displayName',
-  commentedBy_email: 'comment.user.email',
-  commentedBy_avatar: 'comment.user.avatar',
-  commentedBy_settings_discordId: 'comment.user.settings.discordId',
-  commentedBy_settings_telegramChatId: 'comment.user.settings.telegramChatId',
-};
-
 class WebhookAgent
   extends BaseAgent<NotificationAgentWebhook>
   implements NotificationAgent
 {
+  public readonly key = NotificationAgentKey.WEBHOOK;
+  public readonly sendsSingleMessage = true;
+
   protected getSettings(): NotificationAgentWebhook {
     if (this.settings) {
       return this.settings;
@@ -116,15 +69,11 @@ class WebhookAgent
       }
 
       if (typeof finalPayload[key] === 'string') {
-        Object.keys(KeyMap).forEach((keymapKey) => {
-          const keymapValue = KeyMap[keymapKey as keyof typeof KeyMap];
-          finalPayload[key] = (finalPayload[key] as string).replace(
-            `{{${keymapKey}}}`,
-            typeof keymapValue === 'function'
-              ? keymapValue(payload, type)
-              : get(payload, keymapValue) ?? ''
-          );
-        });
+        finalPayload[key] = renderTemplate(
+          finalPayload[key] as string,
+          payload,
+          type
+        );
       } else if (finalPayload[key] && typeof finalPayload[key] === 'object') {
         finalPayload[key] = this.parseKeys(
           finalPayload[key] as Record<string, unknown>,
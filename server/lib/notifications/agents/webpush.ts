@@ -4,6 +4,9 @@ import { getRepository } from '@server/datasource';
 import MediaRequest from '@server/entity/MediaRequest';
 import { User } from '@server/entity/User';
 import { UserPushSubscription } from '@server/entity/UserPushSubscription';
+import { getAdminNotificationUsers } from '@server/lib/notifications/outbox';
+import { deferForQuietHours } from '@server/lib/notifications/quietHours';
+import { applyNotificationTemplate } from '@server/lib/notifications/templates';
 import type { NotificationAgentConfig } from '@server/lib/settings';
 import { getSettings, NotificationAgentKey } from '@server/lib/settings';
 import logger from '@server/logger';
@@ -28,6 +31,9 @@ class WebPushAgent
   extends BaseAgent<NotificationAgentConfig>
   implements NotificationAgent
 {
+  public readonly key = NotificationAgentKey.WEBPUSH;
+  public readonly sendsSingleMessage = false;
+
   protected getSettings(): NotificationAgentConfig {
     if (this.settings) {
       return this.settings;
@@ -95,6 +101,11 @@ class WebPushAgent
           payload.request?.requestedBy.displayName
         }.`;
         break;
+      case Notification.REQUEST_COMMENT:
+        message = `${payload.comment?.user.displayName} commented on the ${
+          is4k ? '4K ' : ''
+        }${mediaType} request.`;
+        break;
       case Notification.ISSUE_CREATED:
         message = `A new ${issueType} was reported by ${payload.issue?.createdBy.displayName}.`;
         break;
@@ -107,6 +118,9 @@ class WebPushAgent
       case Notification.ISSUE_REOPENED:
         message = `The ${issueType} was reopened by ${payload.issue?.modifiedBy?.displayName}.`;
         break;
+      case Notification.USER_SIGNUP:
+        message = payload.message;
+        break;
       default:
         return {
           notificationType: Notification[type],
@@ -114,14 +128,23 @@ class WebPushAgent
         };
     }
 
-    const actionUrl = payload.issue
-      ? `/issues/${payload.issue.id}`
-      : payload.media
-      ? `/${payload.media.mediaType}/${payload.media.tmdbId}`
-      : undefined;
+    const actionUrl =
+      type === Notification.USER_SIGNUP
+        ? '/users/invites'
+        : payload.issue
+        ? `/issues/${payload.issue.id}`
+        : payload.media
+        ? `/${payload.media.mediaType}/${payload.media.tmdbId}`
+        : undefined;
 
     const actionUrlTitle = actionUrl
-      ? `View ${payload.issue ? 'Issue' : 'Media'}`
+      ? `View ${
+          type === Notification.USER_SIGNUP
+            ? 'Invites'
+            : payload.issue
+            ? 'Issue'
+            : 'Media'
+        }`
       : undefined;
 
     return {
@@ -149,6 +172,8 @@ class WebPushAgent
     type: Notification,
     payload: NotificationPayload
   ): Promise<boolean> {
+    payload = applyNotificationTemplate(this.key, type, payload);
+
     const userRepository = getRepository(User);
     const userPushSubRepository = getRepository(UserPushSubscription);
     const settings = getSettings();
@@ -210,7 +235,13 @@ class WebPushAgent
         NotificationAgentKey.WEBPUSH,
         type
       ) ??
-        true)
+        true) &&
+      !(await deferForQuietHours({
+        agent: this.key,
+        type,
+        payload,
+        user: payload.notifyUser,
+      }))
     ) {
       const notifySubs = await userPushSubRepository.find({
         where: { user: { id: payload.notifyUser.id } },
@@ -224,7 +255,7 @@ class WebPushAgent
       type === Notification.MEDIA_APPROVED ||
       type === Notification.MEDIA_DECLINED
     ) {
-      const users = await userRepository.find();
+      const users = await getAdminNotificationUsers(payload);
 
       const manageUsers = users.filter(
         (user) =>
@@ -280,7 +311,28 @@ class WebPushAgent
           );
         }
       } else {
-        pushSubs.push(...allSubs);
+        const deferredUserIds: number[] = [];
+
+        await Promise.all(
+          manageUsers
+            .filter((user) => allSubs.some((sub) => sub.user.id === user.id))
+            .map(async (user) => {
+              if (
+                await deferForQuietHours({
+                  agent: this.key,
+                  type,
+                  payload,
+                  user,
+                })
+              ) {
+                deferredUserIds.push(user.id);
+              }
+            })
+        );
+
+        pushSubs.push(
+          ...allSubs.filter((sub) => !deferredUserIds.includes(sub.user.id))
+        );
       }
     }
 
@@ -0,0 +1,231 @@
+import { getRepository } from '@server/datasource';
+import QueuedNotification from '@server/entity/QueuedNotification';
+import type { User } from '@server/entity/User';
+import type {
+  NotificationAgentConfig,
+  NotificationAgentKey,
+  NotificationDigestSettings,
+} from '@server/lib/settings';
+import { getSettings } from '@server/lib/settings';
+import logger from '@server/logger';
+import { LessThanOrEqual } from 'typeorm';
+import notificationManager, { Notification } from '.';
+import type {
+  NotificationDigestItem,
+  NotificationPayload,
+} from './agents/agent';
+
+const DEFAULT_DIGEST_TIME = '08:00';
+
+/**
+ * Returns the digest schedule of notifications sent by an agent, which users
+ * may override for the notifications sent to them.
+ */
+export const getDigestSettings = (
+  agentSettings: NotificationAgentConfig,
+  user?: User
+): NotificationDigestSettings => ({
+  frequency:
+    user?.settings?.digestFrequency ??
+    agentSettings.digest?.frequency ??
+    'immediate',
+  time:
+    (user?.settings?.digestFrequency && user.settings.digestTime) ||
+    agentSettings.digest?.time ||
+    DEFAULT_DIGEST_TIME,
+});
+
+export const getNextDigestDate = (
+  digest: NotificationDigestSettings,
+  from = new Date()
+): Date => {
+  const next = new Date(from);
+
+  if (digest.frequency === 'hourly') {
+    next.setHours(next.getHours() + 1, 0, 0, 0);
+
+    return next;
+  }
+
+  const [hours, minutes] = (digest.time || DEFAULT_DIGEST_TIME)
+    .split(':')
+    .map(Number);
+  next.setHours(hours || 0, minutes || 0, 0, 0);
+
+  if (next <= from) {
+    next.setDate(next.getDate() + 1);
+  }
+
+  return next;
+};
+
+export const getDigestItem = (
+  payload: NotificationPayload,
+  mentions?: string[]
+): NotificationDigestItem => {
+  const { applicationUrl } = getSettings().main;
+
+  return {
+    event: payload.event,
+    subject: payload.subject,
+    message: payload.comment?.message ?? payload.message,
+    image: payload.image,
+    url: applicationUrl
+      ? payload.issue
+        ? `${applicationUrl}/issues/${payload.issue.id}`
+        : payload.media
+        ? `${applicationUrl}/${payload.media.mediaType}/${payload.media.tmdbId}`
+        : undefined
+      : undefined,
+    requestedBy: payload.request?.requestedBy.displayName,
+    extra: payload.extra,
+    mentions,
+    timestamp: new Date().toISOString(),
+  };
+};
+
+/**
+ * Queues a notification for the next digest of the agent when the agent, or
+ * the user it is sent to, receives digests. Returns false when the
+ * notification should be sent right away.
+ */
+export const queueDigestNotification = async ({
+  agent,
+  agentSettings,
+  type,
+  payload,
+  user,
+  mentions,
+}: {
+  agent: NotificationAgentKey;
+  agentSettings: NotificationAgentConfig;
+  type: Notification;
+  payload: NotificationPayload;
+  user?: User;
+  mentions?: string[];
+}): Promise<boolean> => {
+  const digest = getDigestSettings(agentSettings, user);
+
+  if (
+    digest.frequency === 'immediate' ||
+    type === Notification.TEST_NOTIFICATION
+  ) {
+    return false;
+  }
+
+  try {
+    await getRepository(QueuedNotification).save(
+      new QueuedNotification({
+        agent,
+        user: user ?? null,
+        type,
+        item: getDigestItem(payload, mentions),
+        deliverAt: getNextDigestDate(digest),
+      })
+    );
+
+    logger.debug('Queued notification for digest', {
+      label: 'Notifications',
+      agent,
+      recipient: user?.displayName,
+      type: Notification[type],
+      subject: payload.subject,
+    });
+
+    return true;
+  } catch (e) {
+    logger.error('Failed to queue notification for digest', {
+      label: 'Notifications',
+      agent,
+      recipient: user?.displayName,
+      type: Notification[type],
+      subject: payload.subject,
+      errorMessage: e.message,
+    });
+
+    return false;
+  }
+};
+
+/**
+ * Sends a digest for every agent and recipient with queued notifications
+ * which are due.
+ */
+export const sendNotificationDigests = async (): Promise<void> => {
+  const queuedNotificationRepository = getRepository(QueuedNotification);
+
+  try {
+    const queuedNotifications = await queuedNotificationRepository.find({
+      where: { deliverAt: LessThanOrEqual(new Date()) },
+      order: { createdAt: 'ASC', id: 'ASC' },
+    });
+
+    const digests = new Map<string, QueuedNotification[]>();
+    queuedNotifications.forEach((queuedNotification) => {
+      const key = `${queuedNotification.agent}-${
+        queuedNotification.user?.id ?? 'system'
+      }`;
+      digests.set(key, [...(digests.get(key) ?? []), queuedNotification]);
+    });
+
+    for (const notifications of digests.values()) {
+      const { agent: agentKey, user } = notifications[0];
+      const agent = notificationManager.getDigestAgent(agentKey);
+
+      if (agent?.shouldSend()) {
+        logger.info('Sending notification digest', {
+          label: 'Notifications',
+          agent: agentKey,
+          recipient: user?.displayName,
+          count: notifications.length,
+        });
+
+        await agent.sendDigest(
+          notifications.map((notification) => notification.item),
+          user ?? undefined
+        );
+      }
+
+      // Digests are not retried through the outbox, which resends a single
+      // notification payload rather than a batch of queued items. Failures are
+      // logged by the agent, and the items are removed either way so that the
+      // digest is not sent again on every run.
+      await queuedNotificationRepository.remove(notifications);
+    }
+  } catch (e) {
+    logger.error('Failed to send notification digests', {
+      label: 'Notifications',
+      errorMessage: e.message,
+    });
+  }
+};
+
+/**
+ * Joins the lines of a digest, leaving out the lines which do not fit into
+ * the message size limit of the service.
+ */
+export const joinDigestLines = (
+  lines: string[],
+  maxLength: number,
+  getOverflowLine: (count: number) => string,
+  separator = '\n'
+): string => {
+  const includedLines: string[] = [];
+  let length = 0;
+
+  for (const line of lines) {
+    // Leave room for the line counting the left out notifications
+    if (length + line.length + separator.length > maxLength - 100) {
+      break;
+    }
+
+    includedLines.push(line);
+    length += line.length + separator.length;
+  }
+
+  if (includedLines.length < lines.length) {
+    includedLines.push(getOverflowLine(lines.length - includedLines.length));
+  }
+
+  return includedLines.join(separator);
+};
@@ -0,0 +1,106 @@
+import { getRepository } from '@server/datasource';
+import { User } from '@server/entity/User';
+import UserNotification from '@server/entity/UserNotification';
+import { publishEvent } from '@server/lib/events';
+import logger from '@server/logger';
+import { LessThan } from 'typeorm';
+import { Notification, shouldSendAdminNotification } from '.';
+import type { NotificationPayload } from './agents/agent';
+
+const INBOX_RETENTION_DAYS = 90;
+
+const getNotificationUrl = (
+  type: Notification,
+  payload: NotificationPayload
+): string | undefined =>
+  type === Notification.USER_SIGNUP
+    ? '/users/invites'
+    : payload.issue
+    ? `/issues/${payload.issue.id}`
+    : payload.media
+    ? `/${payload.media.mediaType}/${payload.media.tmdbId}`
+    : undefined;
+
+/**
+ * Writes a notification to the in-app inbox of every user it concerns. Unlike
+ * the notification agents, the inbox does not need to be configured, so users
+ * without any agent still learn about their requests and issues.
+ */
+export const createUserNotifications = async (
+  type: Notification,
+  payload: NotificationPayload
+): Promise<void> => {
+  if (type === Notification.TEST_NOTIFICATION) {
+    return;
+  }
+
+  try {
+    const recipients = new Map<number, User>();
+
+    if (payload.notifyUser) {
+      recipients.set(payload.notifyUser.id, payload.notifyUser);
+    }
+
+    if (payload.notifyAdmin) {
+      const users = await getRepository(User).find();
+
+      users
+        .filter((user) => shouldSendAdminNotification(type, user, payload))
+        .forEach((user) => recipients.set(user.id, user));
+    }
+
+    if (!recipients.size) {
+      return;
+    }
+
+    const userNotifications = await getRepository(UserNotification).save(
+      [...recipients.values()].map(
+        (user) =>
+          new UserNotification({
+            user,
+            type,
+            event: payload.event,
+            subject: payload.subject,
+            message: payload.comment?.message ?? payload.message,
+            image: payload.image,
+            url: getNotificationUrl(type, payload),
+          })
+      )
+    );
+
+    userNotifications.forEach((userNotification) =>
+      publishEvent('notification', {
+        userId: userNotification.user.id,
+        notificationId: userNotification.id,
+      })
+    );
+  } catch (e) {
+    logger.error('Failed to store in-app notifications', {
+      label: 'Notifications',
+      type: Notification[type],
+      subject: payload.subject,
+      errorMessage: e.message,
+    });
+  }
+};
+
+/**
+ * Removes the read in-app notifications which are older than the retention
+ * period.
+ */
+export const pruneUserNotifications = async (): Promise<void> => {
+  const retentionDate = new Date();
+  retentionDate.setDate(retentionDate.getDate() - INBOX_RETENTION_DAYS);
+
+  try {
+    await getRepository(UserNotification).delete({
+      isRead: true,
+      createdAt: LessThan(retentionDate),
+    });
+  } catch (e) {
+    logger.error('Failed to remove old in-app notifications', {
+      label: 'Notifications',
+      errorMessage: e.message,
+    });
+  }
+};
@@ -1,7 +1,15 @@
 import type { User } from '@server/entity/User';
 import { Permission } from '@server/lib/permissions';
+import type { NotificationAgentKey } from '@server/lib/settings';
 import logger from '@server/logger';
-import type { NotificationAgent, NotificationPayload } from './agents/agent';
+import type {
+  DigestNotificationAgent,
+  NotificationAgent,
+  NotificationPayload,
+} from './agents/agent';
+import { isDigestNotificationAgent } from './agents/agent';
+import { createUserNotifications } from './inbox';
+import { sendOutboxNotification } from './outbox';
 
 export enum Notification {
   NONE = 0,
@@ -17,6 +25,8 @@ export enum Notification {
   ISSUE_RESOLVED = 1024,
   ISSUE_REOPENED = 2048,
   MEDIA_AUTO_REQUESTED = 4096,
+  REQUEST_COMMENT = 8192,
+  USER_SIGNUP = 16384,
 }
 
 export const hasNotificationType = (
@@ -53,12 +63,15 @@ export const getAdminPermission = (type: Notification): Permission => {
     case Notification.MEDIA_FAILED:
     case Notification.MEDIA_DECLINED:
     case Notification.MEDIA_AUTO_APPROVED:
+    case Notification.REQUEST_COMMENT:
       return Permission.MANAGE_REQUESTS;
     case Notification.ISSUE_CREATED:
     case Notification.ISSUE_COMMENT:
     case Notification.ISSUE_RESOLVED:
     case Notification.ISSUE_REOPENED:
       return Permission.MANAGE_ISSUES;
+    case Notification.USER_SIGNUP:
+      return Permission.MANAGE_USERS;
     default:
       return Permission.ADMIN;
   }
@@ -79,8 +92,9 @@ export const shouldSendAdminNotification = (
     // Check if the user created this issue
     (type !== Notification.ISSUE_CREATED ||
       user.id !== payload.issue?.createdBy.id) &&
-    // Check if the user submitted this issue comment
-    (type !== Notification.ISSUE_COMMENT ||
+    // Check if the user submitted this issue or request comment
+    ((type !== Notification.ISSUE_COMMENT &&
+      type !== Notification.REQUEST_COMMENT) ||
       user.id !== payload.comment?.user.id) &&
     // Check if the user resolved/reopened this issue
     ((type !== Notification.ISSUE_RESOLVED &&
@@ -106,12 +120,27 @@ class NotificationManager {
       subject: payload.subject,
     });
 
+    // The in-app inbox is always written to, regardless of the agent settings
+    createUserNotifications(type, payload);
+
     this.activeAgents.forEach((agent) => {
       if (agent.shouldSend()) {
-        agent.send(type, payload);
+        sendOutboxNotification(agent, type, payload);
       }
     });
   }
+
+  public getAgent(key: NotificationAgentKey): NotificationAgent | undefined {
+    return this.activeAgents.find((agent) => agent.key === key);
+  }
+
+  public getDigestAgent(
+    key: NotificationAgentKey
+  ): DigestNotificationAgent | undefined {
+    const agent = this.getAgent(key);
+
+    return agent && isDigestNotificationAgent(agent) ? agent : undefined;
+  }
 }
 
 const notificationManager = new NotificationManager();
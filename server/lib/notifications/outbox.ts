@@ -0,0 +1,355 @@
+import { NotificationDeliveryStatus } from '@server/constants/notification';
+import { getRepository } from '@server/datasource';
+import Issue from '@server/entity/Issue';
+import IssueComment from '@server/entity/IssueComment';
+import Media from '@server/entity/Media';
+import { MediaRequest } from '@server/entity/MediaRequest';
+import OutboxNotification from '@server/entity/OutboxNotification';
+import RequestComment from '@server/entity/RequestComment';
+import { User } from '@server/entity/User';
+import logger from '@server/logger';
+import { LessThan, LessThanOrEqual, Not } from 'typeorm';
+import notificationManager, {
+  Notification,
+  shouldSendAdminNotification,
+} from '.';
+import type {
+  NotificationAgent,
+  NotificationPayload,
+  StoredNotificationPayload,
+} from './agents/agent';
+
+const MAX_ATTEMPTS = 8;
+const RETRY_DELAY = 60 * 1000;
+const LOG_RETENTION_DAYS = 30;
+
+/**
+ * Returns when a notification which failed to send should be retried, doubling
+ * the delay after every attempt.
+ */
+export const getRetryDate = (attempts: number, from = new Date()): Date =>
+  new Date(from.getTime() + RETRY_DELAY * 2 ** Math.max(attempts - 1, 0));
+
+export const storeNotificationPayload = ({
+  notifyUser,
+  media,
+  request,
+  issue,
+  comment,
+  ...payload
+}: NotificationPayload): StoredNotificationPayload => ({
+  ...payload,
+  notifyUserId: notifyUser?.id,
+  mediaId: media?.id,
+  requestId: request?.id,
+  issueId: issue?.id,
+  issueCommentId: issue ? comment?.id : undefined,
+  requestCommentId: issue ? undefined : comment?.id,
+});
+
+/**
+ * Reloads the entities of a stored notification payload. Entities which have
+ * been deleted since the notification was stored are left out.
+ */
+export const loadNotificationPayload = async ({
+  notifyUserId,
+  mediaId,
+  requestId,
+  issueId,
+  issueCommentId,
+  requestCommentId,
+  ...payload
+}: StoredNotificationPayload): Promise<NotificationPayload> => ({
+  ...payload,
+  notifyUser: notifyUserId
+    ? (await getRepository(User).findOne({ where: { id: notifyUserId } })) ??
+      undefined
+    : undefined,
+  media: mediaId
+    ? (await getRepository(Media).findOne({ where: { id: mediaId } })) ??
+      undefined
+    : undefined,
+  request: requestId
+    ? (await getRepository(MediaRequest).findOne({
+        where: { id: requestId },
+      })) ?? undefined
+    : undefined,
+  issue: issueId
+    ? (await getRepository(Issue).findOne({ where: { id: issueId } })) ??
+      undefined
+    : undefined,
+  comment: issueCommentId
+    ? (await getRepository(IssueComment).findOne({
+        where: { id: issueCommentId },
+      })) ?? undefined
+    : requestCommentId
+    ? (await getRepository(RequestComment).findOne({
+        where: { id: requestCommentId },
+      })) ?? undefined
+    : undefined,
+});
+
+/**
+ * Loads the users which may receive the admin notifications of a payload. For
+ * outbox entries of a single admin, only that admin is loaded.
+ */
+export const getAdminNotificationUsers = (
+  payload: NotificationPayload
+): Promise<User[]> =>
+  getRepository(User).find(
+    payload.notifyAdminId ? { where: { id: payload.notifyAdminId } } : {}
+  );
+
+/**
+ * Splits a notification into a payload for the system destination, the
+ * notified user and every admin which receives it, for agents which send a
+ * separate message to each of them.
+ */
+const getRecipientPayloads = async (
+  type: Notification,
+  payload: NotificationPayload
+): Promise<NotificationPayload[]> => {
+  const recipientPayload: NotificationPayload = {
+    ...payload,
+    notifySystem: false,
+    notifyAdmin: false,
+    notifyUser: undefined,
+  };
+  const payloads: NotificationPayload[] = [];
+
+  if (payload.notifySystem) {
+    payloads.push({ ...recipientPayload, notifySystem: true });
+  }
+
+  if (payload.notifyUser) {
+    payloads.push({ ...recipientPayload, notifyUser: payload.notifyUser });
+  }
+
+  if (payload.notifyAdmin) {
+    const users = await getRepository(User).find();
+
+    users
+      .filter((user) => shouldSendAdminNotification(type, user, payload))
+      .forEach((user) =>
+        payloads.push({
+          ...recipientPayload,
+          notifyAdmin: true,
+          notifyAdminId: user.id,
+        })
+      );
+  }
+
+  return payloads;
+};
+
+/**
+ * Attempts to send an outbox notification with its agent, and schedules the
+ * next attempt when it fails.
+ */
+export const deliverOutboxNotification = async (
+  notification: OutboxNotification,
+  agent: NotificationAgent,
+  payload?: NotificationPayload
+): Promise<boolean> => {
+  let lastError: string | undefined;
+  let success = false;
+
+  notification.attempts++;
+
+  try {
+    success = await agent.send(
+      notification.type,
+      payload ?? (await loadNotificationPayload(notification.payload))
+    );
+  } catch (e) {
+    lastError = e.message;
+  }
+
+  if (success) {
+    notification.status = NotificationDeliveryStatus.SENT;
+    notification.sentAt = new Date();
+    notification.nextAttemptAt = null;
+    notification.lastError = null;
+  } else {
+    notification.lastError =
+      lastError ?? 'The notification agent was unable to send the notification';
+
+    if (notification.attempts >= MAX_ATTEMPTS) {
+      notification.status = NotificationDeliveryStatus.FAILED;
+      notification.nextAttemptAt = null;
+    } else {
+      notification.status = NotificationDeliveryStatus.PENDING;
+      notification.nextAttemptAt = getRetryDate(notification.attempts);
+    }
+
+    logger.warn('Failed to send notification', {
+      label: 'Notifications',
+      agent: notification.agent,
+      type: Notification[notification.type],
+      subject: notification.payload.subject,
+      attempts: notification.attempts,
+      nextAttemptAt: notification.nextAttemptAt,
+      errorMessage: lastError,
+    });
+  }
+
+  await getRepository(OutboxNotification).save(notification);
+
+  return success;
+};
+
+const sendOutboxEntry = async (
+  agent: NotificationAgent,
+  type: Notification,
+  payload: NotificationPayload
+): Promise<void> => {
+  let notification: OutboxNotification;
+
+  try {
+    notification = await getRepository(OutboxNotification).save(
+      new OutboxNotification({
+        agent: agent.key,
+        type,
+        payload: storeNotificationPayload(payload),
+      })
+    );
+  } catch (e) {
+    logger.error('Failed to store notification in the outbox', {
+      label: 'Notifications',
+      agent: agent.key,
+      type: Notification[type],
+      subject: payload.subject,
+      errorMessage: e.message,
+    });
+
+    // Still send the notification, it just cannot be retried
+    try {
+      await agent.send(type, payload);
+    } catch (e) {
+      logger.error('Failed to send notification', {
+        label: 'Notifications',
+        agent: agent.key,
+        type: Notification[type],
+        subject: payload.subject,
+        errorMessage: e.message,
+      });
+    }
+    return;
+  }
+
+  try {
+    await deliverOutboxNotification(notification, agent, payload);
+  } catch (e) {
+    logger.error('Failed to update notification in the outbox', {
+      label: 'Notifications',
+      agent: agent.key,
+      type: Notification[type],
+      subject: payload.subject,
+      errorMessage: e.message,
+    });
+  }
+};
+
+/**
+ * Stores a notification in the outbox before sending it, so that it can be
+ * retried if the agent fails to send it. Agents which send a separate message
+ * to every recipient get an entry per recipient.
+ */
+export const sendOutboxNotification = async (
+  agent: NotificationAgent,
+  type: Notification,
+  payload: NotificationPayload
+): Promise<void> => {
+  let payloads = [payload];
+
+  if (!agent.sendsSingleMessage) {
+    try {
+      payloads = await getRecipientPayloads(type, payload);
+    } catch (e) {
+      logger.error('Failed to load the recipients of a notification', {
+        label: 'Notifications',
+        agent: agent.key,
+        type: Notification[type],
+        subject: payload.subject,
+        errorMessage: e.message,
+      });
+    }
+  }
+
+  await Promise.all(
+    payloads.map((recipientPayload) =>
+      sendOutboxEntry(agent, type, recipientPayload)
+    )
+  );
+};
+
+/**
+ * Retries the outbox notifications which are due, and removes the sent and
+ * failed notifications which are older than the retention period.
+ */
+export const processNotificationOutbox = async (): Promise<void> => {
+  const outboxRepository = getRepository(OutboxNotification);
+
+  try {
+    const notifications = await outboxRepository.find({
+      where: {
+        status: NotificationDeliveryStatus.PENDING,
+        nextAttemptAt: LessThanOrEqual(new Date()),
+      },
+      order: { nextAttemptAt: 'ASC' },
+    });
+
+    for (const notification of notifications) {
+      const agent = notificationManager.getAgent(notification.agent);
+
+      if (!agent?.shouldSend()) {
+        notification.status = NotificationDeliveryStatus.FAILED;
+        notification.nextAttemptAt = null;
+        notification.lastError = 'The notification agent is disabled';
+        await outboxRepository.save(notification);
+        continue;
+      }
+
+      logger.info('Retrying notification', {
+        label: 'Notifications',
+        agent: notification.agent,
+        type: Notification[notification.type],
+        subject: notification.payload.subject,
+        attempt: notification.attempts + 1,
+      });
+
+      await deliverOutboxNotification(notification, agent);
+    }
+
+    const retentionDate = new Date();
+    retentionDate.setDate(retentionDate.getDate() - LOG_RETENTION_DAYS);
+
+    await outboxRepository.delete({
+      status: Not(NotificationDeliveryStatus.PENDING),
+      createdAt: LessThan(retentionDate),
+    });
+  } catch (e) {
+    logger.error('Failed to process the notification outbox', {
+      label: 'Notifications',
+      errorMessage: e.message,
+    });
+  }
+};
+
+/**
+ * Sends an outbox notification again, starting a new series of retries if it
+ * fails to send.
+ */
+export const resendOutboxNotification = async (
+  notification: OutboxNotification
+): Promise<boolean> => {
+  const agent = notificationManager.getAgent(notification.agent);
+
+  if (!agent?.shouldSend()) {
+    throw new Error('The notification agent is disabled');
+  }
+
+  notification.attempts = 0;
+
+  return deliverOutboxNotification(notification, agent);
+};
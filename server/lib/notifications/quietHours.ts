@@ -0,0 +1,205 @@
+import { getRepository } from '@server/datasource';
+import OutboxNotification from '@server/entity/OutboxNotification';
+import type { User } from '@server/entity/User';
+import type {
+  QuietHours,
+  QuietHoursWindow,
+} from '@server/interfaces/api/userSettingsInterfaces';
+import type { NotificationAgentKey } from '@server/lib/settings';
+import logger from '@server/logger';
+import { Notification } from '.';
+import type { NotificationPayload } from './agents/agent';
+import { storeNotificationPayload } from './outbox';
+
+const MINUTES_PER_DAY = 24 * 60;
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const TIME_REGEX = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const parseTime = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+
+  return (hours || 0) * 60 + (minutes || 0);
+};
+
+/**
+ * Checks the quiet hours submitted by a user. Quiet hours may be left out to
+ * clear them.
+ */
+export const isValidQuietHours = (quietHours: unknown): boolean => {
+  if (quietHours === undefined || quietHours === null) {
+    return true;
+  }
+
+  if (typeof quietHours !== 'object') {
+    return false;
+  }
+
+  const { enabled, windows } = quietHours as Partial<QuietHours>;
+
+  return (
+    typeof enabled === 'boolean' &&
+    Array.isArray(windows) &&
+    windows.every(
+      (window: Partial<QuietHoursWindow> | null) =>
+        typeof window === 'object' &&
+        window !== null &&
+        Array.isArray(window.days) &&
+        window.days.every(
+          (day) => Number.isInteger(day) && day >= 0 && day <= 6
+        ) &&
+        typeof window.start === 'string' &&
+        TIME_REGEX.test(window.start) &&
+        typeof window.end === 'string' &&
+        TIME_REGEX.test(window.end)
+    )
+  );
+};
+
+/**
+ * Returns the day of the week and the minute of the day of a date in a time
+ * zone. Falls back to the time zone of the server when it is unknown.
+ */
+const getLocalTime = (
+  date: Date,
+  timezone: string
+): { day: number; minutes: number } => {
+  const options: Intl.DateTimeFormatOptions = {
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  };
+
+  let parts: Intl.DateTimeFormatPart[];
+
+  try {
+    parts = new Intl.DateTimeFormat('en-US', {
+      ...options,
+      timeZone: timezone,
+    }).formatToParts(date);
+  } catch {
+    parts = new Intl.DateTimeFormat('en-US', options).formatToParts(date);
+  }
+
+  const getPart = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((part) => part.type === type)?.value ?? '';
+
+  return {
+    day: WEEKDAYS.indexOf(getPart('weekday')),
+    minutes: Number(getPart('hour')) * 60 + Number(getPart('minute')),
+  };
+};
+
+/**
+ * Returns when the quiet hours which the date falls into end, or undefined
+ * when the date is outside of the quiet hours.
+ */
+export const getQuietHoursEnd = (
+  quietHours: QuietHours | null | undefined,
+  date = new Date()
+): Date | undefined => {
+  if (!quietHours?.enabled || !quietHours.windows?.length) {
+    return;
+  }
+
+  const { day, minutes } = getLocalTime(date, quietHours.timezone);
+  let remainingMinutes = 0;
+
+  quietHours.windows.forEach((window) => {
+    const start = parseTime(window.start);
+    const end = parseTime(window.end);
+
+    if (start === end) {
+      return;
+    }
+
+    const startedToday =
+      window.days.includes(day) &&
+      minutes >= start &&
+      (start > end || minutes < end);
+    const startedYesterday =
+      start > end && window.days.includes((day + 6) % 7) && minutes < end;
+
+    if (startedToday || startedYesterday) {
+      remainingMinutes = Math.max(
+        remainingMinutes,
+        (end - minutes + MINUTES_PER_DAY) % MINUTES_PER_DAY
+      );
+    }
+  });
+
+  if (!remainingMinutes) {
+    return;
+  }
+
+  const quietHoursEnd = new Date(date.getTime() + remainingMinutes * 60 * 1000);
+  quietHoursEnd.setSeconds(0, 0);
+
+  return quietHoursEnd;
+};
+
+/**
+ * Holds back a notification to a user who is in their quiet hours, by storing
+ * it in the outbox until their quiet hours end. Returns false when the
+ * notification should be sent right away.
+ */
+export const deferForQuietHours = async ({
+  agent,
+  type,
+  payload,
+  user,
+}: {
+  agent: NotificationAgentKey;
+  type: Notification;
+  payload: NotificationPayload;
+  user: User;
+}): Promise<boolean> => {
+  if (type === Notification.TEST_NOTIFICATION) {
+    return false;
+  }
+
+  const quietHoursEnd = getQuietHoursEnd(user.settings?.quietHours);
+
+  if (!quietHoursEnd) {
+    return false;
+  }
+
+  try {
+    await getRepository(OutboxNotification).save(
+      new OutboxNotification({
+        agent,
+        type,
+        // Only the user in their quiet hours receives the deferred notification
+        payload: storeNotificationPayload({
+          ...payload,
+          notifySystem: false,
+          notifyAdmin: false,
+          notifyUser: user,
+        }),
+        nextAttemptAt: quietHoursEnd,
+      })
+    );
+
+    logger.debug('Deferred notification until the end of quiet hours', {
+      label: 'Notifications',
+      agent,
+      recipient: user.displayName,
+      type: Notification[type],
+      subject: payload.subject,
+      deliverAt: quietHoursEnd,
+    });
+
+    return true;
+  } catch (e) {
+    logger.error('Failed to defer notification for quiet hours', {
+      label: 'Notifications',
+      agent,
+      recipient: user.displayName,
+      type: Notification[type],
+      subject: payload.subject,
+      errorMessage: e.message,
+    });
+
+    return false;
+  }
+};
@@ -0,0 +1,251 @@
+import { IssueStatus, IssueType } from '@server/constants/issue';
+import {
+  MediaRequestStatus,
+  MediaStatus,
+  MediaType,
+} from '@server/constants/media';
+import Issue from '@server/entity/Issue';
+import Media from '@server/entity/Media';
+import { MediaRequest } from '@server/entity/MediaRequest';
+import { User } from '@server/entity/User';
+import type {
+  NotificationAgentKey,
+  NotificationTemplate,
+} from '@server/lib/settings';
+import { getSettings } from '@server/lib/settings';
+import { get } from 'lodash';
+import { Notification } from '.';
+import type { NotificationPayload } from './agents/agent';
+
+type KeyMapFunction = (
+  payload: NotificationPayload,
+  type: Notification
+) => string;
+
+export const KeyMap: Record<string, string | KeyMapFunction> = {
+  notification_type: (_payload, type) => Notification[type],
+  event: 'event',
+  subject: 'subject',
+  message: 'message',
+  image: 'image',
+  notifyuser_username: 'notifyUser.displayName',
+  notifyuser_email: 'notifyUser.email',
+  notifyuser_avatar: 'notifyUser.avatar',
+  notifyuser_settings_discordId: 'notifyUser.settings.discordId',
+  notifyuser_settings_telegramChatId: 'notifyUser.settings.telegramChatId',
+  media_tmdbid: 'media.tmdbId',
+  media_tvdbid: 'media.tvdbId',
+  media_type: 'media.mediaType',
+  media_status: (payload) =>
+    payload.media ? MediaStatus[payload.media.status] : '',
+  media_status4k: (payload) =>
+    payload.media ? MediaStatus[payload.media.status4k] : '',
+  request_id: 'request.id',
+  requestedBy_username: 'request.requestedBy.displayName',
+  requestedBy_email: 'request.requestedBy.email',
+  requestedBy_avatar: 'request.requestedBy.avatar',
+  requestedBy_settings_discordId: 'request.requestedBy.settings.discordId',
+  requestedBy_settings_telegramChatId:
+    'request.requestedBy.settings.telegramChatId',
+  issue_id: 'issue.id',
+  issue_type: (payload) =>
+    payload.issue ? IssueType[payload.issue.issueType] : '',
+  issue_status: (payload) =>
+    payload.issue ? IssueStatus[payload.issue.status] : '',
+  reportedBy_username: 'issue.createdBy.displayName',
+  reportedBy_email: 'issue.createdBy.email',
+  reportedBy_avatar: 'issue.createdBy.avatar',
+  reportedBy_settings_discordId: 'issue.createdBy.settings.discordId',
+  reportedBy_settings_telegramChatId: 'issue.createdBy.settings.telegramChatId',
+  comment_message: 'comment.message',
+  commentedBy_username: 'comment.user.displayName',
+  commentedBy_email: 'comment.user.email',
+  commentedBy_avatar: 'comment.user.avatar',
+  commentedBy_settings_discordId: 'comment.user.settings.discordId',
+  commentedBy_settings_telegramChatId: 'comment.user.settings.telegramChatId',
+};
+
+/**
+ * Replaces every `{{placeholder}}` in the template with its value from the
+ * notification payload. Unknown placeholders are left untouched.
+ */
+export const renderTemplate = (
+  template: string,
+  payload: NotificationPayload,
+  type: Notification
+): string =>
+  template.replace(/{{\s*(\w+)\s*}}/g, (match, key: string) => {
+    if (!Object.prototype.hasOwnProperty.call(KeyMap, key)) {
+      return match;
+    }
+
+    const keymapValue = KeyMap[key];
+    const value =
+      typeof keymapValue === 'function'
+        ? keymapValue(payload, type)
+        : get(payload, keymapValue);
+
+    return value === undefined || value === null ? '' : String(value);
+  });
+
+export const getNotificationTemplate = (
+  agent: NotificationAgentKey,
+  type: Notification
+): NotificationTemplate | undefined => {
+  const template =
+    getSettings().notifications.templates?.[agent]?.[Notification[type]];
+
+  return template?.subject || template?.body ? template : undefined;
+};
+
+/**
+ * Returns the payload with its subject and message replaced by the rendered
+ * template the admin configured for this agent and notification type, if any.
+ */
+export const applyNotificationTemplate = (
+  agent: NotificationAgentKey,
+  type: Notification,
+  payload: NotificationPayload
+): NotificationPayload => {
+  const template = getNotificationTemplate(agent, type);
+
+  if (!template || payload.isTemplated) {
+    return payload;
+  }
+
+  return {
+    ...payload,
+    isTemplated: true,
+    subject: template.subject
+      ? renderTemplate(template.subject, payload, type)
+      : payload.subject,
+    message: template.body
+      ? renderTemplate(template.body, payload, type)
+      : payload.message,
+  };
+};
+
+const isIssueNotification = (type: Notification): boolean =>
+  [
+    Notification.ISSUE_CREATED,
+    Notification.ISSUE_COMMENT,
+    Notification.ISSUE_RESOLVED,
+    Notification.ISSUE_REOPENED,
+  ].includes(type);
+
+/**
+ * Builds a payload for a fictional request, issue or sign-up, which is used to
+ * preview templates in the settings without touching any stored data.
+ */
+export const getSampleNotificationPayload = (
+  type: Notification
+): NotificationPayload => {
+  const requestedBy = new User({
+    id: 2,
+    email: 'friend@example.com',
+    username: 'friend',
+    displayName: 'friend',
+    avatar: '/avatar.png',
+  });
+  const admin = new User({
+    id: 1,
+    email: 'admin@example.com',
+    username: 'admin',
+    displayName: 'admin',
+    avatar: '/avatar.png',
+  });
+  const media = new Media({
+    id: 1,
+    mediaType: MediaType.MOVIE,
+    tmdbId: 603,
+    status:
+      type === Notification.MEDIA_AVAILABLE
+        ? MediaStatus.AVAILABLE
+        : MediaStatus.PROCESSING,
+    status4k: MediaStatus.UNKNOWN,
+  });
+
+  if (type === Notification.USER_SIGNUP) {
+    return {
+      event: 'New User Registered',
+      subject: requestedBy.displayName,
+      message: `${requestedBy.displayName} signed up with an invite.`,
+      notifySystem: true,
+      notifyAdmin: true,
+      extra: [
+        { name: 'Email', value: requestedBy.email },
+        { name: 'Invite Code', value: 'Xq3vT9kLmP2w' },
+      ],
+    };
+  }
+
+  if (isIssueNotification(type)) {
+    const issue = new Issue({
+      id: 1,
+      issueType: IssueType.AUDIO,
+      status:
+        type === Notification.ISSUE_RESOLVED
+          ? IssueStatus.RESOLVED
+          : IssueStatus.OPEN,
+      media,
+      createdBy: requestedBy,
+      modifiedBy: admin,
+    });
+
+    return {
+      event: 'New Audio Issue Reported',
+      subject: 'The Matrix (1999)',
+      message: 'The audio is out of sync with the video.',
+      notifySystem: true,
+      notifyAdmin: true,
+      notifyUser: requestedBy,
+      media,
+      issue,
+      comment:
+        type === Notification.ISSUE_COMMENT
+          ? ({
+              id: 1,
+              message: 'It happens about ten minutes in.',
+              user: requestedBy,
+            } as NotificationPayload['comment'])
+          : undefined,
+    };
+  }
+
+  const request = new MediaRequest({
+    id: 1,
+    status:
+      type === Notification.MEDIA_DECLINED
+        ? MediaRequestStatus.DECLINED
+        : type === Notification.MEDIA_PENDING
+        ? MediaRequestStatus.PENDING
+        : MediaRequestStatus.APPROVED,
+    type: MediaType.MOVIE,
+    is4k: false,
+    media,
+    requestedBy,
+    modifiedBy: admin,
+  });
+
+  return {
+    event: 'New Movie Request',
+    subject: 'The Matrix (1999)',
+    message:
+      'Set in the 22nd century, The Matrix tells the story of a computer hacker who joins a group of underground insurgents fighting the vast and powerful computers who now rule the earth.',
+    image:
+      'https://image.tmdb.org/t/p/w600_and_h900_bestv2/f89U3ADr1oiB1s9GkdPOEpXUk5H.jpg',
+    notifySystem: true,
+    notifyAdmin: true,
+    notifyUser: requestedBy,
+    media,
+    request,
+    comment:
+      type === Notification.REQUEST_COMMENT
+        ? ({
+            id: 1,
+            message: 'Could this be added in 4K as well?',
+            user: requestedBy,
+          } as NotificationPayload['comment'])
+        : undefined,
+  };
+};
@@ -0,0 +1,166 @@
+import { ApiErrorCode } from '@server/constants/error';
+import {
+  completeAuthorization,
+  createAuthorizationUrl,
+} from '@server/lib/oidc';
+import { getSettings } from '@server/lib/settings';
+import type { MockOidcIssuer } from '@server/scripts/mockOidcIssuer';
+import { startMockOidcIssuer } from '@server/scripts/mockOidcIssuer';
+import type { Request } from 'express';
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+
+const CLAIMS = {
+  sub: 'mock-user',
+  email: 'mock-user@seerr.dev',
+  email_verified: true,
+  preferred_username: 'mock-user',
+};
+
+const createRequest = (): Request =>
+  ({
+    session: {},
+    query: {},
+    protocol: 'http',
+    get: () => 'localhost:5055',
+  } as unknown as Request);
+
+/**
+ * Starts the sign-in and follows the redirect of the issuer back to the
+ * callback, returning the callback request.
+ */
+const signIn = async (): Promise<Request> => {
+  const req = createRequest();
+  const response = await fetch(await createAuthorizationUrl(req), {
+    redirect: 'manual',
+  });
+  const callbackUrl = new URL(response.headers.get('location') ?? '');
+
+  req.query = Object.fromEntries(callbackUrl.searchParams);
+
+  return req;
+};
+
+describe('OpenID Connect sign-in', () => {
+  let issuer: MockOidcIssuer;
+
+  before(async () => {
+    issuer = await startMockOidcIssuer({
+      clientId: 'jellyseerr',
+      clientSecret: 'secret',
+      claims: CLAIMS,
+      userInfo: { ...CLAIMS, name: 'Mock User' },
+    });
+
+    const settings = getSettings();
+    settings.oidc = {
+      ...settings.oidc,
+      enabled: true,
+      issuerUrl: issuer.issuerUrl,
+      clientId: 'jellyseerr',
+      clientSecret: 'secret',
+      scopes: 'openid profile email',
+    };
+  });
+
+  after(async () => {
+    await issuer.close();
+  });
+
+  it('returns the claims of the signed in account', async () => {
+    const { claims, linkUserId } = await completeAuthorization(await signIn());
+
+    assert.equal(claims.sub, CLAIMS.sub);
+    assert.equal(claims.email, CLAIMS.email);
+    assert.equal(claims.iss, issuer.issuerUrl);
+    assert.equal(linkUserId, undefined);
+  });
+
+  it('merges the userinfo response into the claims', async () => {
+    const { claims } = await completeAuthorization(await signIn());
+
+    assert.equal(claims.name, 'Mock User');
+  });
+
+  it('returns the user the account is linked to', async () => {
+    const req = createRequest();
+    const response = await fetch(await createAuthorizationUrl(req, 2), {
+      redirect: 'manual',
+    });
+    req.query = Object.fromEntries(
+      new URL(response.headers.get('location') ?? '').searchParams
+    );
+
+    const { linkUserId } = await completeAuthorization(req);
+
+    assert.equal(linkUserId, 2);
+  });
+
+  it('rejects a callback with a different state', async () => {
+    const req = await signIn();
+    req.query.state = 'forged-state';
+
+    await assert.rejects(completeAuthorization(req), {
+      errorCode: ApiErrorCode.InvalidOidcState,
+    });
+  });
+
+  it('only accepts a callback once', async () => {
+    const req = await signIn();
+    const { query } = req;
+
+    await completeAuthorization(req);
+    req.query = query;
+
+    await assert.rejects(completeAuthorization(req), {
+      errorCode: ApiErrorCode.InvalidOidcState,
+    });
+  });
+
+  it('rejects a code which was issued for another sign-in', async () => {
+    const req = await signIn();
+    const other = await signIn();
+    req.query.code = other.query.code;
+
+    await assert.rejects(completeAuthorization(req));
+  });
+
+  it('rejects an ID token for another nonce', async () => {
+    const req = await signIn();
+    const { oidc } = req.session;
+    assert.ok(oidc);
+    oidc.nonce = 'other-nonce';
+
+    await assert.rejects(completeAuthorization(req), /nonce/);
+  });
+
+  it('rejects a discovery document of another issuer', async () => {
+    try {
+      getSettings().oidc.issuerUrl = issuer.issuerUrl.replace(
+        'localhost',
+        '127.0.0.1'
+      );
+
+      await assert.rejects(createAuthorizationUrl(createRequest()), /issuer/);
+    } finally {
+      getSettings().oidc.issuerUrl = issuer.issuerUrl;
+    }
+  });
+
+  it('rejects an ID token from another issuer', async () => {
+    const otherIssuer = await startMockOidcIssuer({
+      clientId: 'jellyseerr',
+      clientSecret: 'secret',
+      claims: { ...CLAIMS, iss: 'https://issuer.example.com' },
+    });
+
+    try {
+      getSettings().oidc.issuerUrl = otherIssuer.issuerUrl;
+
+      await assert.rejects(completeAuthorization(await signIn()), /issuer/);
+    } finally {
+      getSettings().oidc.issuerUrl = issuer.issuerUrl;
+      await otherIssuer.close();
+    }
+  });
+});
@@ -0,0 +1,209 @@
+import type { OidcClaims } from '@server/api/oidc';
+import OidcAPI from '@server/api/oidc';
+import { ApiErrorCode } from '@server/constants/error';
+import type { OidcSettings } from '@server/lib/settings';
+import { getSettings } from '@server/lib/settings';
+import { ApiError } from '@server/types/error';
+import { createHash, randomBytes } from 'crypto';
+import type { Request } from 'express';
+
+// Allowed clock skew when checking ID token timestamps (in seconds)
+const CLOCK_TOLERANCE = 60;
+
+const base64UrlEncode = (buffer: Buffer): string =>
+  buffer
+    .toString('base64')
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+const randomToken = (): string => base64UrlEncode(randomBytes(32));
+
+export const getOidcRedirectUri = (req: Request): string => {
+  const { applicationUrl } = getSettings().main;
+  const baseUrl = applicationUrl
+    ? applicationUrl.replace(/\/+$/, '')
+    : `${req.protocol}://${req.get('host')}`;
+
+  return `${baseUrl}/api/v1/auth/oidc/callback`;
+};
+
+/**
+ * Builds the authorization URL for the configured provider and stores the
+ * state, nonce and PKCE verifier in the session so the callback can verify
+ * the response.
+ *
+ * @param req Current request, used to access the session
+ * @param linkUserId If provided, the callback will link the account to this user
+ * instead of signing in
+ */
+export const createAuthorizationUrl = async (
+  req: Request,
+  linkUserId?: number
+): Promise<string> => {
+  const settings = getSettings().oidc;
+  const oidcApi = new OidcAPI(settings.issuerUrl);
+  const discovery = await oidcApi.getDiscoveryDocument();
+
+  const state = randomToken();
+  const nonce = randomToken();
+  const codeVerifier = randomToken();
+  const codeChallenge = base64UrlEncode(
+    createHash('sha256').update(codeVerifier).digest()
+  );
+
+  if (req.session) {
+    req.session.oidc = { state, nonce, codeVerifier, linkUserId };
+  }
+
+  const url = new URL(discovery.authorization_endpoint);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', settings.clientId);
+  url.searchParams.set('redirect_uri', getOidcRedirectUri(req));
+  url.searchParams.set('scope', settings.scopes || 'openid');
+  url.searchParams.set('state', state);
+  url.searchParams.set('nonce', nonce);
+  url.searchParams.set('code_challenge', codeChallenge);
+  url.searchParams.set('code_challenge_method', 'S256');
+
+  return url.toString();
+};
+
+const decodeIdToken = (idToken: string): OidcClaims => {
+  const [, payload] = idToken.split('.');
+
+  if (!payload) {
+    throw new Error('Malformed ID token');
+  }
+
+  return JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'));
+};
+
+/**
+ * The ID token is received directly from the token endpoint, so per
+ * OpenID Connect Core 3.1.3.7 the TLS connection is used to trust the issuer
+ * in place of verifying the token signature. The remaining claims are still
+ * validated here.
+ */
+const validateIdTokenClaims = (
+  claims: OidcClaims,
+  {
+    issuer,
+    clientId,
+    nonce,
+  }: { issuer: string; clientId: string; nonce: string }
+): void => {
+  const now = Math.floor(Date.now() / 1000);
+  const audience = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+
+  if (claims.iss !== issuer) {
+    throw new Error(`Unexpected ID token issuer: ${claims.iss}`);
+  }
+
+  if (!audience.includes(clientId)) {
+    throw new Error('ID token was not issued for this client');
+  }
+
+  if (audience.length > 1 && claims.azp && claims.azp !== clientId) {
+    throw new Error('ID token authorized party does not match this client');
+  }
+
+  if (!claims.exp || claims.exp + CLOCK_TOLERANCE < now) {
+    throw new Error('ID token has expired');
+  }
+
+  if (claims.nonce !== nonce) {
+    throw new Error('ID token nonce does not match');
+  }
+
+  if (!claims.sub) {
+    throw new Error('ID token is missing the subject claim');
+  }
+};
+
+/**
+ * Completes the authorization code flow for the current callback request and
+ * returns the verified claims of the signed in account, merged with the
+ * userinfo response when the provider exposes one.
+ */
+export const completeAuthorization = async (
+  req: Request
+): Promise<{ claims: OidcClaims; linkUserId?: number }> => {
+  const settings = getSettings().oidc;
+  const pending = req.session?.oidc;
+
+  if (req.session) {
+    delete req.session.oidc;
+  }
+
+  if (!pending || !req.query.state || req.query.state !== pending.state) {
+    throw new ApiError(400, ApiErrorCode.InvalidOidcState);
+  }
+
+  if (req.query.error || typeof req.query.code !== 'string') {
+    throw new ApiError(401, ApiErrorCode.OidcAuthorizationFailed);
+  }
+
+  const oidcApi = new OidcAPI(settings.issuerUrl);
+  const discovery = await oidcApi.getDiscoveryDocument();
+
+  const tokens = await oidcApi.exchangeCode({
+    tokenEndpoint: discovery.token_endpoint,
+    code: req.query.code,
+    codeVerifier: pending.codeVerifier,
+    redirectUri: getOidcRedirectUri(req),
+    clientId: settings.clientId,
+    clientSecret: settings.clientSecret,
+  });
+
+  const claims = decodeIdToken(tokens.id_token);
+  validateIdTokenClaims(claims, {
+    issuer: discovery.issuer,
+    clientId: settings.clientId,
+    nonce: pending.nonce,
+  });
+
+  if (discovery.userinfo_endpoint) {
+    const userInfo = await oidcApi.getUserInfo(
+      discovery.userinfo_endpoint,
+      tokens.access_token
+    );
+
+    // The userinfo response must describe the same account as the ID token
+    if (userInfo.sub === claims.sub) {
+      Object.assign(claims, { ...userInfo, iss: claims.iss, aud: claims.aud });
+    }
+  }
+
+  return { claims, linkUserId: pending.linkUserId };
+};
+
+/**
+ * Resolves the permissions granted by the configured claim mappings.
+ *
+ * @returns The combined permissions of all matching mappings, or undefined
+ * if no mapping matched the claims
+ */
+export const getMappedPermissions = (
+  claims: OidcClaims,
+  settings: OidcSettings
+): number | undefined => {
+  if (!settings.permissionClaim || !settings.permissionMappings.length) {
+    return undefined;
+  }
+
+  const rawValue = claims[settings.permissionClaim];
+  const values = (Array.isArray(rawValue) ? rawValue : [rawValue])
+    .filter((value) => value !== undefined && value !== null)
+    .map((value) => String(value));
+
+  const matches = settings.permissionMappings.filter((mapping) =>
+    values.includes(mapping.claimValue)
+  );
+
+  if (!matches.length) {
+    return undefined;
+  }
+
+  return matches.reduce((total, mapping) => total | mapping.permissions, 0);
+};
@@ -0,0 +1,309 @@
+import { ANIME_KEYWORD_ID } from '@server/api/themoviedb/constants';
+import type {
+  TmdbKeyword,
+  TmdbMovieDetails,
+  TmdbTvDetails,
+} from '@server/api/themoviedb/interfaces';
+import { MediaType } from '@server/constants/media';
+import { getRepository } from '@server/datasource';
+import OverrideRule from '@server/entity/OverrideRule';
+import { getSettings } from '@server/lib/settings';
+
+interface OverrideRuleContext {
+  tmdbMedia: TmdbMovieDetails | TmdbTvDetails;
+  mediaType: MediaType;
+  is4k: boolean;
+  userId: number;
+}
+
+export interface AppliedOverrides {
+  rules: OverrideRule[];
+  rootFolder?: string;
+  profileId?: number;
+  tags?: number[];
+}
+
+const isMovie = (
+  tmdbMedia: TmdbMovieDetails | TmdbTvDetails
+): tmdbMedia is TmdbMovieDetails => 'title' in tmdbMedia;
+
+const getKeywords = (
+  tmdbMedia: TmdbMovieDetails | TmdbTvDetails
+): TmdbKeyword[] => {
+  if ('keywords' in tmdbMedia.keywords) {
+    return tmdbMedia.keywords.keywords;
+  }
+
+  return tmdbMedia.keywords.results;
+};
+
+const getReleaseYear = (
+  tmdbMedia: TmdbMovieDetails | TmdbTvDetails
+): number | undefined => {
+  const releaseDate = isMovie(tmdbMedia)
+    ? tmdbMedia.release_date
+    : tmdbMedia.first_air_date;
+
+  return releaseDate ? new Date(releaseDate).getFullYear() : undefined;
+};
+
+const getRuntime = (
+  tmdbMedia: TmdbMovieDetails | TmdbTvDetails
+): number | undefined =>
+  isMovie(tmdbMedia) ? tmdbMedia.runtime : tmdbMedia.episode_run_time?.[0];
+
+const getCertifications = (
+  tmdbMedia: TmdbMovieDetails | TmdbTvDetails
+): string[] => {
+  const region = getSettings().main.discoverRegion || 'US';
+
+  if (isMovie(tmdbMedia)) {
+    return (
+      tmdbMedia.release_dates?.results
+        .find((release) => release.iso_3166_1 === region)
+        ?.release_dates.map((date) => date.certification)
+        .filter((certification) => certification) ?? []
+    );
+  }
+
+  return (tmdbMedia.content_ratings?.results ?? [])
+    .filter((rating) => rating.iso_3166_1 === region)
+    .map((rating) => rating.rating);
+};
+
+const getOriginCountries = (
+  tmdbMedia: TmdbMovieDetails | TmdbTvDetails
+): string[] =>
+  isMovie(tmdbMedia)
+    ? tmdbMedia.production_countries.map((country) => country.iso_3166_1)
+    : tmdbMedia.origin_country;
+
+const splitIds = (value: string): number[] =>
+  value.split(',').map((id) => Number(id));
+
+const splitValues = (value: string): string[] =>
+  value
+    .split(',')
+    .map((item) => item.trim().toLowerCase())
+    .filter((item) => item);
+
+const isSet = <T>(value: T | null | undefined): value is T =>
+  value !== null && value !== undefined;
+
+/**
+ * Checks every condition of the rule against the requested media. Each
+ * condition which is set must match, while a list condition matches as soon
+ * as one of its values does.
+ */
+export const ruleMatches = (
+  rule: OverrideRule,
+  { tmdbMedia, mediaType, is4k, userId }: OverrideRuleContext
+): boolean => {
+  const keywordIds = getKeywords(tmdbMedia).map((keyword) => keyword.id);
+  const isAnime = keywordIds.includes(ANIME_KEYWORD_ID);
+
+  // Skip override rules if the media is an anime TV show as anime TV
+  // is handled by default and override rules do not explicitly include
+  // the anime keyword or anime condition
+  if (
+    mediaType === MediaType.TV &&
+    isAnime &&
+    rule.isAnime !== true &&
+    (!rule.keywords || !splitIds(rule.keywords).includes(ANIME_KEYWORD_ID))
+  ) {
+    return false;
+  }
+
+  if (rule.users && !splitIds(rule.users).includes(userId)) {
+    return false;
+  }
+
+  if (
+    rule.genre &&
+    !splitIds(rule.genre).some((genreId) =>
+      tmdbMedia.genres.map((genre) => genre.id).includes(genreId)
+    )
+  ) {
+    return false;
+  }
+
+  if (
+    rule.language &&
+    !rule.language
+      .split('|')
+      .some((languageId) => languageId === tmdbMedia.original_language)
+  ) {
+    return false;
+  }
+
+  if (
+    rule.keywords &&
+    !splitIds(rule.keywords).some((keywordId) => keywordIds.includes(keywordId))
+  ) {
+    return false;
+  }
+
+  if (isSet(rule.yearFrom) || isSet(rule.yearTo)) {
+    const year = getReleaseYear(tmdbMedia);
+
+    if (
+      !year ||
+      (isSet(rule.yearFrom) && year < rule.yearFrom) ||
+      (isSet(rule.yearTo) && year > rule.yearTo)
+    ) {
+      return false;
+    }
+  }
+
+  if (isSet(rule.runtimeMin) || isSet(rule.runtimeMax)) {
+    const runtime = getRuntime(tmdbMedia);
+
+    if (
+      !runtime ||
+      (isSet(rule.runtimeMin) && runtime < rule.runtimeMin) ||
+      (isSet(rule.runtimeMax) && runtime > rule.runtimeMax)
+    ) {
+      return false;
+    }
+  }
+
+  if (rule.certifications) {
+    const certifications = getCertifications(tmdbMedia).map((certification) =>
+      certification.toLowerCase()
+    );
+
+    if (
+      !splitValues(rule.certifications).some((certification) =>
+        certifications.includes(certification)
+      )
+    ) {
+      return false;
+    }
+  }
+
+  if (rule.originCountries) {
+    const originCountries = getOriginCountries(tmdbMedia).map((country) =>
+      country.toLowerCase()
+    );
+
+    if (
+      !splitValues(rule.originCountries).some((country) =>
+        originCountries.includes(country)
+      )
+    ) {
+      return false;
+    }
+  }
+
+  if (
+    rule.networks &&
+    (isMovie(tmdbMedia) ||
+      !splitIds(rule.networks).some((networkId) =>
+        tmdbMedia.networks.some((network) => network.id === networkId)
+      ))
+  ) {
+    return false;
+  }
+
+  if (
+    rule.studios &&
+    !splitIds(rule.studios).some((studioId) =>
+      tmdbMedia.production_companies.some((studio) => studio.id === studioId)
+    )
+  ) {
+    return false;
+  }
+
+  if (isSet(rule.is4k) && rule.is4k !== is4k) {
+    return false;
+  }
+
+  if (isSet(rule.isAnime) && rule.isAnime !== isAnime) {
+    return false;
+  }
+
+  return true;
+};
+
+const CONDITION_KEYS: (keyof OverrideRule)[] = [
+  'genre',
+  'language',
+  'keywords',
+  'yearFrom',
+  'yearTo',
+  'runtimeMin',
+  'runtimeMax',
+  'certifications',
+  'originCountries',
+  'networks',
+  'studios',
+  'is4k',
+  'isAnime',
+];
+
+/**
+ * Sorts rules by their priority. Rules with the same priority fall back to
+ * the most specific rule first, which is how rules were picked before they
+ * could be ordered.
+ */
+export const sortOverrideRules = (rules: OverrideRule[]): OverrideRule[] =>
+  [...rules].sort((a, b) => {
+    if (a.priority !== b.priority) {
+      return a.priority - b.priority;
+    }
+
+    const aSpecificity = CONDITION_KEYS.filter((key) => isSet(a[key])).length;
+    const bSpecificity = CONDITION_KEYS.filter((key) => isSet(b[key])).length;
+
+    return bSpecificity - aSpecificity || a.id - b.id;
+  });
+
+/**
+ * Finds the override rules which apply to a request for the given media.
+ * Matching rules are applied in order until a rule which stops processing
+ * matches. The first rule that sets a root folder or quality profile wins,
+ * while the tags of all applied rules are combined.
+ */
+export const getAppliedOverrides = async (
+  context: OverrideRuleContext
+): Promise<AppliedOverrides> => {
+  const settings = getSettings();
+  const defaultRadarrId = settings.radarr.findIndex(
+    (r) => r.is4k === context.is4k && r.isDefault
+  );
+  const defaultSonarrId = settings.sonarr.findIndex(
+    (s) => s.is4k === context.is4k && s.isDefault
+  );
+
+  const overrideRules = await getRepository(OverrideRule).find({
+    where:
+      context.mediaType === MediaType.MOVIE
+        ? { radarrServiceId: defaultRadarrId }
+        : { sonarrServiceId: defaultSonarrId },
+  });
+
+  const rules: OverrideRule[] = [];
+
+  for (const rule of sortOverrideRules(overrideRules)) {
+    if (!ruleMatches(rule, context)) {
+      continue;
+    }
+
+    rules.push(rule);
+
+    if (rule.stopProcessing) {
+      break;
+    }
+  }
+
+  const tags = [
+    ...new Set(rules.flatMap((rule) => (rule.tags ? splitIds(rule.tags) : []))),
+  ];
+
+  return {
+    rules,
+    rootFolder: rules.find((rule) => rule.rootFolder)?.rootFolder,
+    profileId: rules.find((rule) => rule.profileId)?.profileId,
+    tags: tags.length ? tags : undefined,
+  };
+};
@@ -0,0 +1,133 @@
+import RadarrAPI from '@server/api/servarr/radarr';
+import SonarrAPI from '@server/api/servarr/sonarr';
+import type {
+  TmdbMovieDetails,
+  TmdbTvDetails,
+} from '@server/api/themoviedb/interfaces';
+import { MediaType } from '@server/constants/media';
+import { QuotaPeriod } from '@server/constants/user';
+import type { DVRSettings, Quota } from '@server/lib/settings';
+import { getSettings } from '@server/lib/settings';
+import logger from '@server/logger';
+
+/**
+ * Returns the date from which requests count towards the quota. Monthly
+ * quotas reset on the first day of each calendar month, while rolling quotas
+ * look back over the configured number of days.
+ */
+export const getQuotaStartDate = (quota: Quota): Date => {
+  const date = new Date();
+
+  if (quota.quotaPeriod === QuotaPeriod.MONTHLY) {
+    return new Date(date.getFullYear(), date.getMonth(), 1);
+  }
+
+  if (quota.quotaDays) {
+    date.setDate(date.getDate() - quota.quotaDays);
+  }
+
+  return date;
+};
+
+export const getQuotaResetDate = (quota: Quota): Date | undefined => {
+  if (quota.quotaPeriod !== QuotaPeriod.MONTHLY) {
+    return undefined;
+  }
+
+  const date = new Date();
+
+  return new Date(date.getFullYear(), date.getMonth() + 1, 1);
+};
+
+export const getEpisodeCount = (
+  tmdbShow: TmdbTvDetails,
+  seasonNumbers: number[]
+): number =>
+  tmdbShow.seasons
+    .filter((season) => seasonNumbers.includes(season.season_number))
+    .reduce((sum, season) => sum + season.episode_count, 0);
+
+export const megabytesToGigabytes = (size: number): number =>
+  Math.round((size / 1024) * 10) / 10;
+
+interface RequestSizeOptions {
+  mediaType: MediaType;
+  tmdbMedia: TmdbMovieDetails | TmdbTvDetails;
+  episodeCount?: number;
+  is4k: boolean;
+  serverId?: number;
+  profileId?: number;
+}
+
+/**
+ * Estimates the download size of a request in megabytes. The estimate is
+ * based on the preferred size of the quality profile's cutoff quality in
+ * Radarr or Sonarr, multiplied by the runtime of the requested media.
+ */
+export const estimateRequestSize = async ({
+  mediaType,
+  tmdbMedia,
+  episodeCount,
+  is4k,
+  serverId,
+  profileId,
+}: RequestSizeOptions): Promise<number | null> => {
+  const settings = getSettings();
+  const services: DVRSettings[] =
+    mediaType === MediaType.MOVIE ? settings.radarr : settings.sonarr;
+  const service =
+    serverId !== undefined && serverId !== null && serverId >= 0
+      ? services.find((s) => s.id === serverId)
+      : services.find((s) => s.isDefault && s.is4k === is4k);
+  const runtime =
+    mediaType === MediaType.MOVIE
+      ? (tmdbMedia as TmdbMovieDetails).runtime
+      : (tmdbMedia as TmdbTvDetails).episode_run_time?.[0];
+
+  if (!service || !runtime) {
+    return null;
+  }
+
+  try {
+    const servarr =
+      mediaType === MediaType.MOVIE
+        ? new RadarrAPI({
+            apiKey: service.apiKey,
+            url: RadarrAPI.buildUrl(service, '/api/v3'),
+          })
+        : new SonarrAPI({
+            apiKey: service.apiKey,
+            url: SonarrAPI.buildUrl(service, '/api/v3'),
+          });
+    const [profiles, definitions] = await Promise.all([
+      servarr.getProfiles(),
+      servarr.getQualityDefinitions(),
+    ]);
+
+    const profile = profiles.find(
+      (p) => p.id === (profileId ?? service.activeProfileId)
+    );
+    const definition = definitions.find(
+      (d) => d.quality.id === profile?.cutoff
+    );
+    const sizePerMinute =
+      definition?.preferredSize || definition?.maxSize || definition?.minSize;
+
+    if (!sizePerMinute) {
+      return null;
+    }
+
+    return Math.round(
+      sizePerMinute *
+        runtime *
+        (mediaType === MediaType.TV ? episodeCount ?? 0 : 1)
+    );
+  } catch (e) {
+    logger.warn('Unable to estimate the download size of a request', {
+      label: 'Quota',
+      errorMessage: e.message,
+    });
+
+    return null;
+  }
+};
@@ -3,6 +3,7 @@ import { MediaStatus, MediaType } from '@server/constants/media';
 import { getRepository } from '@server/datasource';
 import Media from '@server/entity/Media';
 import Season from '@server/entity/Season';
+import { publishEvent } from '@server/lib/events';
 import { getSettings } from '@server/lib/settings';
 import logger from '@server/logger';
 import AsyncLock from '@server/utils/asyncLock';
@@ -556,6 +557,7 @@ class BaseScanner<T> {
     }
 
     this.running = true;
+    this.onRunningChange();
 
     return sessionId;
   }
@@ -566,11 +568,28 @@ class BaseScanner<T> {
   protected endRun(sessionId: string): void {
     if (this.sessionId === sessionId) {
       this.running = false;
+      this.onRunningChange();
     }
   }
 
   public cancel(): void {
     this.running = false;
+    this.onRunningChange();
+  }
+
+  /**
+   * Called whenever the scan progress changes. Child classes can override this
+   * to report their progress.
+   */
+  // eslint-disable-next-line @typescript-eslint/no-empty-function
+  protected onProgress(): void {}
+
+  /**
+   * Called whenever a run starts or stops
+   */
+  protected onRunningChange(): void {
+    publishEvent('jobs', {});
+    this.onProgress();
   }
 
   protected async loop(
@@ -597,6 +616,7 @@ class BaseScanner<T> {
 
     if (start < this.items.length) {
       this.progress = start;
+      this.onProgress();
       await this.processItems(processFn, slicedItems);
 
       await new Promise<void>((resolve, reject) =>
@@ -0,0 +1,16 @@
+import { MediaServerType } from '@server/constants/server';
+import JellyfinScanner from '@server/lib/scanners/jellyfin';
+
+/**
+ * Emby libraries are scanned the same way as Jellyfin libraries. The
+ * differences between the two servers are handled by the Emby API client.
+ */
+class EmbyScanner extends JellyfinScanner {
+  protected serverType = MediaServerType.EMBY;
+  protected label = 'Emby Sync';
+}
+
+export const embyFullScanner = new EmbyScanner();
+export const embyRecentScanner = new EmbyScanner({
+  isRecentOnly: true,
+});
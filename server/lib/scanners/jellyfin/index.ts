@@ -1,5 +1,5 @@
+import type JellyfinAPI from '@server/api/jellyfin';
 import type { JellyfinLibraryItem } from '@server/api/jellyfin';
-import JellyfinAPI from '@server/api/jellyfin';
 import TheMovieDb from '@server/api/themoviedb';
 import type { TmdbTvDetails } from '@server/api/themoviedb/interfaces';
 import { MediaStatus, MediaType } from '@server/constants/media';
@@ -8,11 +8,13 @@ import { getRepository } from '@server/datasource';
 import Media from '@server/entity/Media';
 import Season from '@server/entity/Season';
 import { User } from '@server/entity/User';
+import { publishEvent } from '@server/lib/events';
 import type { Library } from '@server/lib/settings';
 import { getSettings } from '@server/lib/settings';
 import logger from '@server/logger';
 import AsyncLock from '@server/utils/asyncLock';
 import { getHostname } from '@server/utils/getHostname';
+import { getJellyfinClient } from '@server/utils/getJellyfinClient';
 import { randomUUID as uuid } from 'crypto';
 import { uniqWith } from 'lodash';
 
@@ -28,6 +30,8 @@ interface SyncStatus {
 }
 
 class JellyfinScanner {
+  protected serverType = MediaServerType.JELLYFIN;
+  protected label = 'Jellyfin Sync';
   private sessionId: string;
   private tmdb: TheMovieDb;
   private jfClient: JellyfinAPI;
@@ -65,7 +69,7 @@ class JellyfinScanner {
 
       if (!metadata?.Id) {
         logger.debug('No Id metadata for this title. Skipping', {
-          label: 'Jellyfin Sync',
+          label: this.label,
           jellyfinItemId: jellyfinitem.Id,
         });
         return;
@@ -204,7 +208,7 @@ class JellyfinScanner {
 
       if (!metadata?.Id) {
         logger.debug('No Id metadata for this title. Skipping', {
-          label: 'Jellyfin Sync',
+          label: this.label,
           jellyfinItemId: jellyfinitem.Id,
         });
         return;
@@ -559,6 +563,7 @@ class JellyfinScanner {
 
     if (start < this.items.length) {
       this.progress = start;
+      this.publishStatus();
       await this.processItems(slicedItems);
 
       await new Promise<void>((resolve, reject) =>
@@ -580,27 +585,25 @@ class JellyfinScanner {
     level: 'info' | 'error' | 'debug' | 'warn' = 'debug',
     optional?: Record<string, unknown>
   ): void {
-    logger[level](message, { label: 'Jellyfin Sync', ...optional });
+    logger[level](message, { label: this.label, ...optional });
   }
 
   public async run(): Promise<void> {
     const settings = getSettings();
 
-    if (
-      settings.main.mediaServerType != MediaServerType.JELLYFIN &&
-      settings.main.mediaServerType != MediaServerType.EMBY
-    ) {
+    if (!settings.isMediaServerEnabled(this.serverType)) {
       return;
     }
 
     const sessionId = uuid();
     this.sessionId = sessionId;
-    logger.info('Jellyfin Sync Starting', {
+    logger.info(`${this.label} Starting`, {
       sessionId,
-      label: 'Jellyfin Sync',
+      label: this.label,
     });
     try {
       this.running = true;
+      publishEvent('jobs', {});
       const userRepository = getRepository(User);
       const admin = await userRepository.findOne({
         where: { id: 1 },
@@ -609,13 +612,14 @@ class JellyfinScanner {
       });
 
       if (!admin) {
-        return this.log('No admin configured. Jellyfin sync skipped.', 'warn');
+        return this.log(`No admin configured. ${this.label} skipped.`, 'warn');
       }
 
-      this.jfClient = new JellyfinAPI(
+      this.jfClient = getJellyfinClient(
         getHostname(),
         settings.jellyfin.apiKey,
-        admin.jellyfinDeviceId
+        admin.jellyfinDeviceId,
+        this.serverType
       );
 
       this.jfClient.setUserId(admin.jellyfinUserId ?? '');
@@ -680,17 +684,27 @@ class JellyfinScanner {
       );
     } catch (e) {
       logger.error('Sync interrupted', {
-        label: 'Jellyfin Sync',
+        label: this.label,
         errorMessage: e.message,
       });
     } finally {
       // If a new scanning session hasnt started, set running back to false
       if (this.sessionId === sessionId) {
         this.running = false;
+        publishEvent('jobs', {});
+        this.publishStatus();
       }
     }
   }
 
+  private publishStatus(): void {
+    publishEvent('scan', {
+      server: this.serverType,
+      recentOnly: this.isRecentOnly,
+      ...this.status(),
+    });
+  }
+
   public status(): SyncStatus {
     return {
       running: this.running,
@@ -703,9 +717,13 @@ class JellyfinScanner {
 
   public cancel(): void {
     this.running = false;
+    publishEvent('jobs', {});
+    this.publishStatus();
   }
 }
 
+export default JellyfinScanner;
+
 export const jellyfinFullScanner = new JellyfinScanner();
 export const jellyfinRecentScanner = new JellyfinScanner({
   isRecentOnly: true,
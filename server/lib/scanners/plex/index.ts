@@ -2,9 +2,11 @@ import animeList from '@server/api/animelist';
 import type { PlexLibraryItem, PlexMetadata } from '@server/api/plexapi';
 import PlexAPI from '@server/api/plexapi';
 import type { TmdbTvDetails } from '@server/api/themoviedb/interfaces';
+import { MediaServerType } from '@server/constants/server';
 import { getRepository } from '@server/datasource';
 import { User } from '@server/entity/User';
 import cacheManager from '@server/lib/cache';
+import { publishEvent } from '@server/lib/events';
 import type {
   MediaIds,
   ProcessableSeason,
@@ -56,6 +58,14 @@ class PlexScanner
     };
   }
 
+  protected onProgress(): void {
+    publishEvent('scan', {
+      server: MediaServerType.PLEX,
+      recentOnly: this.isRecentOnly,
+      ...this.status(),
+    });
+  }
+
   public async run(): Promise<void> {
     const settings = getSettings();
     const sessionId = this.startRun();
@@ -172,6 +182,7 @@ class PlexScanner
 
     this.progress = start;
     this.totalSize = response.totalSize;
+    this.onProgress();
 
     if (response.items.length === 0) {
       return;
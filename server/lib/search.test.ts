@@ -0,0 +1,48 @@
+import { findSearchProvider } from '@server/lib/search';
+import { getSettings } from '@server/lib/settings';
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+
+const CHINESE_TITLE = '霸王别姬';
+const JAPANESE_TITLE = '千と千尋の神隠し';
+const KANJI_TITLE = '羅生門';
+
+describe('findSearchProvider', () => {
+  const { ratingOverlays } = getSettings().main;
+
+  afterEach(() => {
+    getSettings().main.ratingOverlays = ratingOverlays;
+  });
+
+  it('searches Chinese titles on Douban for Chinese users', () => {
+    getSettings().main.ratingOverlays = ['tmdb'];
+
+    assert.ok(findSearchProvider(CHINESE_TITLE, 'zh-CN'));
+    assert.ok(findSearchProvider(CHINESE_TITLE, 'zh-TW'));
+  });
+
+  it('searches Chinese titles on Douban when Douban ratings are shown', () => {
+    getSettings().main.ratingOverlays = ['tmdb', 'douban'];
+
+    assert.ok(findSearchProvider(CHINESE_TITLE, 'en'));
+  });
+
+  it('leaves Chinese titles to TMDB without Douban ratings', () => {
+    getSettings().main.ratingOverlays = ['tmdb'];
+
+    assert.equal(findSearchProvider(CHINESE_TITLE, 'en'), undefined);
+  });
+
+  it('leaves Japanese titles to TMDB', () => {
+    getSettings().main.ratingOverlays = ['tmdb', 'douban'];
+
+    assert.equal(findSearchProvider(JAPANESE_TITLE, 'en'), undefined);
+    assert.equal(findSearchProvider(KANJI_TITLE, 'ja'), undefined);
+  });
+
+  it('finds Douban IDs regardless of the language', () => {
+    getSettings().main.ratingOverlays = ['tmdb'];
+
+    assert.ok(findSearchProvider('douban:1291546', 'ja'));
+  });
+});
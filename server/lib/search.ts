@@ -1,3 +1,5 @@
+import type { DoubanSubject } from '@server/api/douban';
+import DoubanAPI from '@server/api/douban';
 import TheMovieDb from '@server/api/themoviedb';
 import type {
   TmdbMovieDetails,
@@ -10,6 +12,10 @@ import type {
   TmdbTvDetails,
   TmdbTvResult,
 } from '@server/api/themoviedb/interfaces';
+import { MediaType } from '@server/constants/media';
+import cacheManager from '@server/lib/cache';
+import { findTmdbIdByDoubanId } from '@server/lib/doubanMapping';
+import { getSettings } from '@server/lib/settings';
 import {
   mapMovieDetailsToResult,
   mapPersonDetailsToResult,
@@ -23,23 +29,38 @@ import {
 
 interface SearchProvider {
   pattern: RegExp;
+  // Limits a provider to some queries or languages
+  isEnabled?: ({
+    query,
+    language,
+  }: {
+    query: string;
+    language?: string;
+  }) => boolean;
   search: ({
     id,
     language,
     query,
+    page,
   }: {
     id: string;
     language?: string;
     query?: string;
+    page?: number;
   }) => Promise<TmdbSearchMultiResponse>;
 }
 
 const searchProviders: SearchProvider[] = [];
 
 export const findSearchProvider = (
-  query: string
+  query: string,
+  language?: string
 ): SearchProvider | undefined => {
-  return searchProviders.find((provider) => provider.pattern.test(query));
+  return searchProviders.find(
+    (provider) =>
+      provider.pattern.test(query) &&
+      (provider.isEnabled?.({ query, language }) ?? true)
+  );
 };
 
 searchProviders.push({
@@ -167,6 +188,78 @@ searchProviders.push({
   },
 });
 
+// Number of Douban suggestions which are matched to TMDB entries when
+// searching by title, as matching a subject can take several TMDB searches
+const DOUBAN_SEARCH_LIMIT = 3;
+
+/**
+ * Resolves a Douban subject to its TMDB entry. Resolved subjects are cached,
+ * including the ones without a match.
+ */
+const resolveDoubanSubject = async (
+  subject: Pick<DoubanSubject, 'id'> & Partial<DoubanSubject>,
+  language?: string
+): Promise<TmdbMovieResult | TmdbTvResult | undefined> => {
+  const cache = cacheManager.getCache('tmdb').data;
+  const cacheKey = `douban-subject:${subject.id}:${language ?? ''}`;
+  const cachedResult = cache.get<TmdbMovieResult | TmdbTvResult | null>(
+    cacheKey
+  );
+
+  if (cachedResult !== undefined) {
+    return cachedResult ?? undefined;
+  }
+
+  const douban = new DoubanAPI();
+  const tmdb = new TheMovieDb();
+
+  const mapping = await findTmdbIdByDoubanId(subject.id);
+  let result: TmdbMovieResult | TmdbTvResult | undefined;
+
+  if (mapping) {
+    result = {
+      ...(mapping.mediaType === MediaType.MOVIE
+        ? mapMovieDetailsToResult(
+            await tmdb.getMovie({ movieId: mapping.tmdbId, language })
+          )
+        : mapTvDetailsToResult(
+            await tmdb.getTvShow({ tvId: mapping.tmdbId, language })
+          )),
+      doubanId: subject.id,
+    };
+  } else {
+    // Subjects missing from the ID database are matched by their titles
+    result = await douban.matchSubject(
+      subject.title
+        ? (subject as DoubanSubject)
+        : await douban.getSubject(subject.id)
+    );
+  }
+
+  cache.set(cacheKey, result ?? null);
+
+  return result;
+};
+
+// Matches douban:<id> as well as links to Douban subject pages
+searchProviders.push({
+  pattern: new RegExp(
+    /(?<=douban:|douban\.com\/(?:(?:movie|tv)\/)?subject\/)\d+/
+  ),
+  search: async ({ id, language }) => {
+    const result = await resolveDoubanSubject({ id }, language);
+
+    const results: (TmdbMovieResult | TmdbTvResult)[] = result ? [result] : [];
+
+    return {
+      page: 1,
+      total_pages: 1,
+      total_results: results.length,
+      results,
+    };
+  },
+});
+
 searchProviders.push({
   pattern: new RegExp(/(?<=year:)\d{4}/),
   search: async ({ id: year, query }) => {
@@ -214,3 +307,89 @@ searchProviders.push({
     };
   },
 });
+
+// Chinese titles are also looked up on Douban, whose matches are shown
+// ahead of the regular TMDB results on the first page. Japanese titles share
+// the characters, so the lookup is limited to Chinese users and to titles
+// without kana when Douban ratings are shown.
+searchProviders.push({
+  pattern: new RegExp(/[\u3400-\u4dbf\u4e00-\u9fff]/),
+  isEnabled: ({ query, language }) =>
+    !!language?.startsWith('zh') ||
+    (getSettings().main.ratingOverlays.includes('douban') &&
+      !language?.startsWith('ja') &&
+      !/[\u3040-\u30ff]/.test(query)),
+  search: async ({ language, query = '', page = 1 }) => {
+    const tmdb = new TheMovieDb();
+
+    const tmdbPromise = tmdb.searchMulti({ query, page, language });
+    const doubanPromise =
+      page === 1
+        ? new DoubanAPI()
+            .searchSubjects(query)
+            .then((subjects) =>
+              Promise.allSettled(
+                subjects
+                  .slice(0, DOUBAN_SEARCH_LIMIT)
+                  .map((subject) => resolveDoubanSubject(subject, language))
+              )
+            )
+        : Promise.resolve([]);
+
+    const [tmdbResponse, doubanResponses] = await Promise.allSettled([
+      tmdbPromise,
+      doubanPromise,
+    ]);
+
+    if (
+      tmdbResponse.status === 'rejected' &&
+      doubanResponses.status === 'rejected'
+    ) {
+      throw tmdbResponse.reason;
+    }
+
+    const results: TmdbSearchMultiResponse['results'] = [];
+
+    if (doubanResponses.status === 'fulfilled') {
+      doubanResponses.value.forEach((response) => {
+        if (
+          response.status === 'fulfilled' &&
+          response.value &&
+          !results.some(
+            (result) =>
+              result.id === response.value?.id &&
+              result.media_type === response.value?.media_type
+          )
+        ) {
+          results.push(response.value);
+        }
+      });
+    }
+
+    if (tmdbResponse.status === 'fulfilled') {
+      results.push(
+        ...tmdbResponse.value.results.filter(
+          (tmdbResult) =>
+            !results.some(
+              (result) =>
+                result.id === tmdbResult.id &&
+                result.media_type === tmdbResult.media_type
+            )
+        )
+      );
+    }
+
+    return {
+      page,
+      total_pages:
+        tmdbResponse.status === 'fulfilled'
+          ? tmdbResponse.value.total_pages
+          : 1,
+      total_results:
+        tmdbResponse.status === 'fulfilled'
+          ? tmdbResponse.value.total_results
+          : results.length,
+      results,
+    };
+  },
+});
@@ -1,4 +1,5 @@
 import { MediaServerType } from '@server/constants/server';
+import type { QuotaPeriod, QuotaType } from '@server/constants/user';
 import { Permission } from '@server/lib/permissions';
 import { runMigrations } from '@server/lib/settings/migrator';
 import { randomUUID } from 'crypto';
@@ -49,6 +50,24 @@ export interface JellyfinSettings {
   serverId: string;
   apiKey: string;
 }
+export interface OidcPermissionMapping {
+  claimValue: string;
+  permissions: number;
+}
+
+export interface OidcSettings {
+  enabled: boolean;
+  providerName: string;
+  issuerUrl: string;
+  clientId: string;
+  clientSecret: string;
+  scopes: string;
+  newUserLogin: boolean;
+  linkByEmail: boolean;
+  permissionClaim: string;
+  permissionMappings: OidcPermissionMapping[];
+}
+
 export interface TautulliSettings {
   hostname?: string;
   port?: number;
@@ -95,9 +114,18 @@ export interface SonarrSettings extends DVRSettings {
   enableSeasonFolders: boolean;
 }
 
-interface Quota {
+export interface Quota {
   quotaLimit?: number;
   quotaDays?: number;
+  quotaType?: QuotaType;
+  quotaPeriod?: QuotaPeriod;
+}
+
+export interface GroupQuota {
+  // Users which have any of these permissions receive the quotas below
+  permissions: number;
+  movie: Quota;
+  tv: Quota;
 }
 
 export interface ProxySettings {
@@ -121,17 +149,22 @@ export interface MainSettings {
     movie: Quota;
     tv: Quota;
   };
+  groupQuotas: GroupQuota[];
   hideAvailable: boolean;
   hideBlacklisted: boolean;
   localLogin: boolean;
   mediaServerLogin: boolean;
   newPlexLogin: boolean;
+  accountRequestsEnabled: boolean;
+  twoFactorRequiredPermissions: number;
   discoverRegion: string;
   streamingRegion: string;
   originalLanguage: string;
   blacklistedTags: string;
   blacklistedTagsLimit: number;
   mediaServerType: number;
+  // Media servers which are used next to the one the instance was set up with
+  additionalMediaServerTypes: number[];
   partialRequestsEnabled: boolean;
   enableSpecialEpisodes: boolean;
   locale: string;
@@ -139,6 +172,10 @@ export interface MainSettings {
   ratingOverlays: string[];
 }
 
+export interface BackupSettings {
+  retention: number;
+}
+
 export interface NetworkSettings {
   csrfProtection: boolean;
   forceIpv4First: boolean;
@@ -157,12 +194,15 @@ interface FullPublicSettings extends PublicSettings {
   hideBlacklisted: boolean;
   localLogin: boolean;
   mediaServerLogin: boolean;
+  oidcLogin: boolean;
+  oidcProviderName: string;
   movie4kEnabled: boolean;
   series4kEnabled: boolean;
   discoverRegion: string;
   streamingRegion: string;
   originalLanguage: string;
   mediaServerType: number;
+  mediaServerTypes: number[];
   jellyfinExternalHost?: string;
   jellyfinForgotPasswordUrl?: string;
   jellyfinServerName?: string;
@@ -175,13 +215,24 @@ interface FullPublicSettings extends PublicSettings {
   emailEnabled: boolean;
   userEmailRequired: boolean;
   newPlexLogin: boolean;
+  accountRequestsEnabled: boolean;
   youtubeUrl: string;
   ratingOverlays: string[];
 }
 
+export type NotificationDigestFrequency = 'immediate' | 'hourly' | 'daily';
+
+export interface NotificationDigestSettings {
+  frequency: NotificationDigestFrequency;
+  // Time of day daily digests are sent at, as HH:mm in server time
+  time: string;
+}
+
 export interface NotificationAgentConfig {
   enabled: boolean;
   types?: number;
+  // Only used by agents which are able to send digests
+  digest?: NotificationDigestSettings;
   options: Record<string, unknown>;
 }
 export interface NotificationAgentDiscord extends NotificationAgentConfig {
@@ -271,10 +322,30 @@ export interface NotificationAgentNtfy extends NotificationAgentConfig {
   };
 }
 
+export interface NotificationAgentMatrix extends NotificationAgentConfig {
+  options: {
+    homeserverUrl: string;
+    accessToken: string;
+    roomId: string;
+  };
+}
+
+export interface NotificationAgentApprise extends NotificationAgentConfig {
+  options: {
+    url: string;
+    configKey?: string;
+    urls?: string;
+    tag?: string;
+    typeTags?: Record<string, string>;
+  };
+}
+
 export enum NotificationAgentKey {
+  APPRISE = 'apprise',
   DISCORD = 'discord',
   EMAIL = 'email',
   GOTIFY = 'gotify',
+  MATRIX = 'matrix',
   NTFY = 'ntfy',
   PUSHBULLET = 'pushbullet',
   PUSHOVER = 'pushover',
@@ -285,9 +356,11 @@ export enum NotificationAgentKey {
 }
 
 interface NotificationAgents {
+  apprise: NotificationAgentApprise;
   discord: NotificationAgentDiscord;
   email: NotificationAgentEmail;
   gotify: NotificationAgentGotify;
+  matrix: NotificationAgentMatrix;
   ntfy: NotificationAgentNtfy;
   pushbullet: NotificationAgentPushbullet;
   pushover: NotificationAgentPushover;
@@ -297,8 +370,19 @@ interface NotificationAgents {
   webpush: NotificationAgentConfig;
 }
 
+export interface NotificationTemplate {
+  subject?: string;
+  body?: string;
+}
+
+// Templates are keyed by agent and then by notification type name
+export type NotificationTemplates = Partial<
+  Record<NotificationAgentKey, Record<string, NotificationTemplate>>
+>;
+
 interface NotificationSettings {
   agents: NotificationAgents;
+  templates: NotificationTemplates;
 }
 
 interface JobSettings {
@@ -318,7 +402,12 @@ export type JobId =
   | 'jellyfin-full-scan'
   | 'image-cache-cleanup'
   | 'availability-sync'
-  | 'process-blacklisted-tags';
+  | 'process-blacklisted-tags'
+  | 'backup'
+  | 'pending-request-expiry'
+  | 'douban-mapping-sync'
+  | 'notification-digest'
+  | 'notification-outbox';
 
 export interface AllSettings {
   clientId: string;
@@ -327,6 +416,7 @@ export interface AllSettings {
   main: MainSettings;
   plex: PlexSettings;
   jellyfin: JellyfinSettings;
+  oidc: OidcSettings;
   tautulli: TautulliSettings;
   radarr: RadarrSettings[];
   sonarr: SonarrSettings[];
@@ -334,6 +424,7 @@ export interface AllSettings {
   notifications: NotificationSettings;
   jobs: Record<JobId, JobSettings>;
   network: NetworkSettings;
+  backup: BackupSettings;
 }
 
 const SETTINGS_PATH = process.env.CONFIG_DIRECTORY
@@ -358,17 +449,21 @@ class Settings {
           movie: {},
           tv: {},
         },
+        groupQuotas: [],
         hideAvailable: false,
         hideBlacklisted: false,
         localLogin: true,
         mediaServerLogin: true,
         newPlexLogin: true,
+        accountRequestsEnabled: false,
+        twoFactorRequiredPermissions: 0,
         discoverRegion: '',
         streamingRegion: '',
         originalLanguage: '',
         blacklistedTags: '',
         blacklistedTagsLimit: 50,
         mediaServerType: MediaServerType.NOT_CONFIGURED,
+        additionalMediaServerTypes: [],
         partialRequestsEnabled: true,
         enableSpecialEpisodes: false,
         locale: 'en',
@@ -394,6 +489,18 @@ class Settings {
         serverId: '',
         apiKey: '',
       },
+      oidc: {
+        enabled: false,
+        providerName: '',
+        issuerUrl: '',
+        clientId: '',
+        clientSecret: '',
+        scopes: 'openid profile email',
+        newUserLogin: false,
+        linkByEmail: true,
+        permissionClaim: 'groups',
+        permissionMappings: [],
+      },
       tautulli: {},
       radarr: [],
       sonarr: [],
@@ -488,7 +595,28 @@ class Settings {
               topic: '',
             },
           },
+          matrix: {
+            enabled: false,
+            types: 0,
+            options: {
+              homeserverUrl: '',
+              accessToken: '',
+              roomId: '',
+            },
+          },
+          apprise: {
+            enabled: false,
+            types: 0,
+            options: {
+              url: '',
+              configKey: '',
+              urls: '',
+              tag: '',
+              typeTags: {},
+            },
+          },
         },
+        templates: {},
       },
       jobs: {
         'plex-recently-added-scan': {
@@ -530,6 +658,21 @@ class Settings {
         'process-blacklisted-tags': {
           schedule: '0 30 1 */7 * *',
         },
+        backup: {
+          schedule: '0 0 2 * * *',
+        },
+        'pending-request-expiry': {
+          schedule: '0 15 * * * *',
+        },
+        'douban-mapping-sync': {
+          schedule: '0 0 4 * * *',
+        },
+        'notification-digest': {
+          schedule: '0 */5 * * * *',
+        },
+        'notification-outbox': {
+          schedule: '30 * * * * *',
+        },
       },
       network: {
         csrfProtection: false,
@@ -546,6 +689,9 @@ class Settings {
           bypassLocalAddresses: true,
         },
       },
+      backup: {
+        retention: 7,
+      },
     };
     if (initialSettings) {
       this.data = merge(this.data, initialSettings);
@@ -560,6 +706,27 @@ class Settings {
     this.data.main = data;
   }
 
+  /**
+   * Returns every configured media server, starting with the one the instance
+   * was set up with.
+   */
+  get mediaServerTypes(): MediaServerType[] {
+    if (this.data.main.mediaServerType === MediaServerType.NOT_CONFIGURED) {
+      return [];
+    }
+
+    return [
+      this.data.main.mediaServerType,
+      ...(this.data.main.additionalMediaServerTypes ?? []).filter(
+        (type) => type !== this.data.main.mediaServerType
+      ),
+    ];
+  }
+
+  public isMediaServerEnabled(type: MediaServerType): boolean {
+    return this.mediaServerTypes.includes(type);
+  }
+
   get plex(): PlexSettings {
     return this.data.plex;
   }
@@ -576,6 +743,14 @@ class Settings {
     this.data.jellyfin = data;
   }
 
+  get oidc(): OidcSettings {
+    return this.data.oidc;
+  }
+
+  set oidc(data: OidcSettings) {
+    this.data.oidc = data;
+  }
+
   get tautulli(): TautulliSettings {
     return this.data.tautulli;
   }
@@ -617,6 +792,8 @@ class Settings {
       hideBlacklisted: this.data.main.hideBlacklisted,
       localLogin: this.data.main.localLogin,
       mediaServerLogin: this.data.main.mediaServerLogin,
+      oidcLogin: this.data.oidc.enabled,
+      oidcProviderName: this.data.oidc.providerName,
       jellyfinExternalHost: this.data.jellyfin.externalHostname,
       jellyfinForgotPasswordUrl: this.data.jellyfin.jellyfinForgotPasswordUrl,
       movie4kEnabled: this.data.radarr.some(
@@ -629,6 +806,7 @@ class Settings {
       streamingRegion: this.data.main.streamingRegion,
       originalLanguage: this.data.main.originalLanguage,
       mediaServerType: this.main.mediaServerType,
+      mediaServerTypes: this.mediaServerTypes,
       partialRequestsEnabled: this.data.main.partialRequestsEnabled,
       enableSpecialEpisodes: this.data.main.enableSpecialEpisodes,
       cacheImages: this.data.main.cacheImages,
@@ -639,6 +817,7 @@ class Settings {
       userEmailRequired:
         this.data.notifications.agents.email.options.userEmailRequired,
       newPlexLogin: this.data.main.newPlexLogin,
+      accountRequestsEnabled: this.data.main.accountRequestsEnabled,
       youtubeUrl: this.data.main.youtubeUrl,
       ratingOverlays: this.data.main.ratingOverlays,
     };
@@ -668,6 +847,14 @@ class Settings {
     this.data.network = data;
   }
 
+  get backup(): BackupSettings {
+    return this.data.backup;
+  }
+
+  set backup(data: BackupSettings) {
+    this.data.backup = data;
+  }
+
   get clientId(): string {
     return this.data.clientId;
   }
@@ -748,6 +935,22 @@ class Settings {
     return this;
   }
 
+  /**
+   * Returns a copy of the complete settings, as saved to settings.json.
+   */
+  get full(): AllSettings {
+    return structuredClone(this.data);
+  }
+
+  /**
+   * Replaces all settings, using the defaults for anything missing from the
+   * given settings, and saves them.
+   */
+  public async replace(data: AllSettings): Promise<void> {
+    this.data = new Settings(data).data;
+    await this.save();
+  }
+
   public async save(): Promise<void> {
     const tmp = SETTINGS_PATH + '.tmp';
     await fs.writeFile(tmp, JSON.stringify(this.data, undefined, ' '));
@@ -1,9 +1,9 @@
-import JellyfinAPI from '@server/api/jellyfin';
 import { MediaServerType } from '@server/constants/server';
 import { getRepository } from '@server/datasource';
 import { User } from '@server/entity/User';
 import type { AllSettings } from '@server/lib/settings';
 import { getHostname } from '@server/utils/getHostname';
+import { getJellyfinClient } from '@server/utils/getJellyfinClient';
 
 const migrateApiTokens = async (settings: any): Promise<AllSettings> => {
   const mediaServerType = settings.main.mediaServerType;
@@ -21,7 +21,7 @@ const migrateApiTokens = async (settings: any): Promise<AllSettings> => {
     if (!admin) {
       return settings;
     }
-    const jellyfinClient = new JellyfinAPI(
+    const jellyfinClient = getJellyfinClient(
       getHostname(settings.jellyfin),
       admin.jellyfinAuthToken,
       admin.jellyfinDeviceId
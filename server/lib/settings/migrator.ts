@@ -5,6 +5,37 @@ import path from 'path';
 
 const migrationsDir = path.join(__dirname, 'migrations');
 
+const getMigrationFiles = async (): Promise<string[]> =>
+  (await fs.readdir(migrationsDir)).filter(
+    (file) => file.endsWith('.js') || file.endsWith('.ts')
+  );
+
+/**
+ * Returns the names of the settings migrations shipped with this version,
+ * without their file extension.
+ */
+export const getSettingsMigrations = async (): Promise<string[]> =>
+  (await getMigrationFiles()).map((file) => path.parse(file).name);
+
+/**
+ * Applies every settings migration to a copy of the given settings, without
+ * writing anything to disk. Errors are thrown instead of stopping the server.
+ */
+export const migrateSettings = async (
+  settings: AllSettings
+): Promise<AllSettings> => {
+  let migrated = settings;
+
+  for (const migration of await getMigrationFiles()) {
+    const { default: migrationFn } = await import(
+      path.join(migrationsDir, migration)
+    );
+    migrated = await migrationFn(structuredClone(migrated));
+  }
+
+  return migrated;
+};
+
 export const runMigrations = async (
   settings: AllSettings,
   SETTINGS_PATH: string
@@ -22,9 +53,7 @@ export const runMigrations = async (
     }
     await fs.writeFile(BACKUP_PATH, JSON.stringify(settings, undefined, ' '));
 
-    const migrations = (await fs.readdir(migrationsDir)).filter(
-      (file) => file.endsWith('.js') || file.endsWith('.ts')
-    );
+    const migrations = await getMigrationFiles();
 
     const settingsBefore = JSON.stringify(migrated);
 
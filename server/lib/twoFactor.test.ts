@@ -0,0 +1,40 @@
+import { verifyTotpCode } from '@server/lib/twoFactor';
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+
+// Test vector from RFC 6238, with the code shortened to six digits
+const SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+const CODE = '287082';
+const CODE_STEP = 1;
+
+describe('verifyTotpCode', () => {
+  beforeEach(() => {
+    mock.method(Date, 'now', () => 59 * 1000);
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('returns the period of a valid code', () => {
+    assert.equal(verifyTotpCode(SECRET, CODE), CODE_STEP);
+    assert.equal(verifyTotpCode(SECRET, '287 082'), CODE_STEP);
+  });
+
+  it('accepts a code from the previous period', () => {
+    mock.method(Date, 'now', () => 61 * 1000);
+
+    assert.equal(verifyTotpCode(SECRET, CODE), CODE_STEP);
+  });
+
+  it('rejects an invalid code', () => {
+    assert.equal(verifyTotpCode(SECRET, '123456'), undefined);
+    assert.equal(verifyTotpCode(SECRET, '28708'), undefined);
+  });
+
+  it('rejects a code from the last used period or an earlier one', () => {
+    assert.equal(verifyTotpCode(SECRET, CODE, CODE_STEP - 1), CODE_STEP);
+    assert.equal(verifyTotpCode(SECRET, CODE, CODE_STEP), undefined);
+    assert.equal(verifyTotpCode(SECRET, CODE, CODE_STEP + 1), undefined);
+  });
+});
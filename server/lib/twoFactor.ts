@@ -0,0 +1,209 @@
+import type { User } from '@server/entity/User';
+import { hasPermission, Permission } from '@server/lib/permissions';
+import { getSettings } from '@server/lib/settings';
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+// RFC 6238 defaults, which every authenticator app supports
+const TOTP_DIGITS = 6;
+const TOTP_PERIOD = 30;
+// Number of periods before and after the current one that are still accepted
+const TOTP_WINDOW = 1;
+
+const RECOVERY_CODE_COUNT = 10;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+const base32Encode = (buffer: Buffer): string => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+};
+
+const base32Decode = (input: string): Buffer => {
+  const cleaned = input.replace(/=+$/, '').replace(/\s/g, '').toUpperCase();
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+
+    if (index === -1) {
+      throw new Error('Invalid base32 character');
+    }
+
+    value = (value << 5) | index;
+    bits += 5;
+
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+};
+
+const generateCode = (secret: Buffer, counter: number): string => {
+  const counterBuffer = Buffer.alloc(8);
+  counterBuffer.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = createHmac('sha1', secret).update(counterBuffer).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0');
+};
+
+export const generateTwoFactorSecret = (): string =>
+  base32Encode(randomBytes(20));
+
+/**
+ * Builds the otpauth:// URI encoded in the QR code scanned by authenticator
+ * apps.
+ */
+export const getOtpAuthUrl = (secret: string, accountName: string): string => {
+  const issuer = getSettings().main.applicationTitle;
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: TOTP_DIGITS.toString(),
+    period: TOTP_PERIOD.toString(),
+  });
+
+  return `otpauth://totp/${label}?${params.toString()}`;
+};
+
+/**
+ * Checks a TOTP code against the periods around the current time. Codes from
+ * the last used period or an earlier one are rejected, so that a code can't
+ * be used more than once.
+ *
+ * @returns The period of the accepted code, or undefined if the code is not
+ * valid
+ */
+export const verifyTotpCode = (
+  secret: string,
+  code: string,
+  lastUsedStep?: number | null
+): number | undefined => {
+  const normalized = code.replace(/\s/g, '');
+
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(normalized)) {
+    return undefined;
+  }
+
+  const key = base32Decode(secret);
+  const currentCounter = Math.floor(Date.now() / 1000 / TOTP_PERIOD);
+
+  for (let drift = -TOTP_WINDOW; drift <= TOTP_WINDOW; drift++) {
+    const counter = currentCounter + drift;
+
+    if (lastUsedStep != null && counter <= lastUsedStep) {
+      continue;
+    }
+
+    const expected = generateCode(key, counter);
+
+    if (timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return counter;
+    }
+  }
+
+  return undefined;
+};
+
+/**
+ * Checks a TOTP code for the user and marks its period as used.
+ */
+export const consumeTotpCode = async (
+  user: User,
+  secret: string,
+  code: string
+): Promise<boolean> => {
+  const step = verifyTotpCode(secret, code, user.twoFactorLastUsedStep);
+
+  return step !== undefined && user.useTwoFactorStep(step);
+};
+
+const hashRecoveryCode = (code: string): string =>
+  createHash('sha256')
+    .update(code.replace(/[\s-]/g, '').toLowerCase())
+    .digest('hex');
+
+/**
+ * Generates a new set of one-time recovery codes.
+ *
+ * @returns The plain codes to show to the user once, and the hashes to store
+ */
+export const generateRecoveryCodes = (): {
+  codes: string[];
+  hashes: string[];
+} => {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = randomBytes(5).toString('hex');
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+};
+
+/**
+ * Checks a recovery code against the stored hashes.
+ *
+ * @returns The remaining hashes with the used code removed, or undefined if
+ * the code is not valid
+ */
+export const consumeRecoveryCode = (
+  hashes: string[],
+  code: string
+): string[] | undefined => {
+  const hash = hashRecoveryCode(code);
+
+  if (!hashes.includes(hash)) {
+    return undefined;
+  }
+
+  return hashes.filter((h) => h !== hash);
+};
+
+/**
+ * Returns whether the configured policy requires the user to use two-factor
+ * authentication when signing in with a local account.
+ */
+export const isTwoFactorRequired = (user: User): boolean => {
+  const { twoFactorRequiredPermissions } = getSettings().main;
+
+  if (!twoFactorRequiredPermissions) {
+    return false;
+  }
+
+  const permissions = user.getEffectivePermissions();
+
+  return (
+    hasPermission(Permission.ADMIN, permissions) ||
+    (permissions & twoFactorRequiredPermissions) !== 0
+  );
+};
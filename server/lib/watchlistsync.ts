@@ -22,6 +22,7 @@ class WatchlistSync {
       .createQueryBuilder('user')
       .addSelect('user.plexToken')
       .leftJoinAndSelect('user.settings', 'settings')
+      .leftJoinAndSelect('user.groups', 'groups')
       .where("user.plexToken != ''")
       .getMany();
 
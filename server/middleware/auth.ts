@@ -1,16 +1,64 @@
 import { getRepository } from '@server/datasource';
+import { ApiKey } from '@server/entity/ApiKey';
 import { User } from '@server/entity/User';
-import type {
-  Permission,
-  PermissionCheckOptions,
-} from '@server/lib/permissions';
+import type { PermissionCheckOptions } from '@server/lib/permissions';
+import { hasPermission, Permission } from '@server/lib/permissions';
 import { getSettings } from '@server/lib/settings';
+import logger from '@server/logger';
+
+/**
+ * Looks up the owner of a per-user API key. The returned user is a detached
+ * copy of the owner which only holds the permissions granted to the key,
+ * limited to the permissions of the owner. It must never be saved, as that
+ * would replace the owner's permissions and groups.
+ */
+const getApiKeyUser = async (
+  key: string
+): Promise<{ user: User; apiKeyId: number } | undefined> => {
+  const apiKeyRepository = getRepository(ApiKey);
+
+  const apiKey = await apiKeyRepository.findOne({
+    where: { secretHash: ApiKey.hashKey(key) },
+    relations: { user: true },
+  });
+
+  if (!apiKey || apiKey.isExpired()) {
+    return undefined;
+  }
+
+  const ownerPermissions = apiKey.user.getEffectivePermissions();
+  const user = new User({
+    ...apiKey.user,
+    permissions: hasPermission(Permission.ADMIN, ownerPermissions)
+      ? apiKey.permissions
+      : ownerPermissions & apiKey.permissions,
+    // Group permissions are already part of the key's permissions
+    groups: [],
+  });
+
+  try {
+    await apiKeyRepository.update(apiKey.id, { lastUsedAt: new Date() });
+  } catch (e) {
+    logger.warn('Failed to update API key last used date', {
+      label: 'API',
+      apiKeyId: apiKey.id,
+      errorMessage: e.message,
+    });
+  }
+
+  return { user, apiKeyId: apiKey.id };
+};
 
 export const checkUser: Middleware = async (req, _res, next) => {
   const settings = getSettings();
   let user: User | undefined | null;
+  const apiKey = req.header('X-API-Key');
 
-  if (req.header('X-API-Key') === settings.main.apiKey) {
+  if (apiKey && ApiKey.isUserKey(apiKey)) {
+    const apiKeyUser = await getApiKeyUser(apiKey);
+    user = apiKeyUser?.user;
+    req.apiKeyId = apiKeyUser?.apiKeyId;
+  } else if (apiKey === settings.main.apiKey) {
     const userRepository = getRepository(User);
 
     let userId = 1; // Work on original administrator account
@@ -56,3 +104,23 @@ export const isAuthenticated = (
   };
   return authMiddleware;
 };
+
+/**
+ * Rejects requests authenticated with a per-user API key. Used for endpoints
+ * which manage how the user signs in, such as passwords, two-factor
+ * authentication and API keys, so that a leaked key can't be used to take
+ * over the account.
+ */
+export const isNotApiKeyRequest = (): Middleware => {
+  const authMiddleware: Middleware = (req, res, next) => {
+    if (req.apiKeyId) {
+      res.status(403).json({
+        status: 403,
+        error: 'This endpoint can not be accessed with an API key',
+      });
+    } else {
+      next();
+    }
+  };
+  return authMiddleware;
+};
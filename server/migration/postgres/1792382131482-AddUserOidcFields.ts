@@ -0,0 +1,25 @@
+import type { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddUserOidcFields1792382131482 implements MigrationInterface {
+  name = 'AddUserOidcFields1792382131482';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "user" ADD "oidcSubject" character varying`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "user" ADD CONSTRAINT "UQ_14cd34fb2f266bdf83ad97e49b6" UNIQUE ("oidcSubject")`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "user" ADD "oidcUsername" character varying`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "user" DROP COLUMN "oidcUsername"`);
+    await queryRunner.query(
+      `ALTER TABLE "user" DROP CONSTRAINT "UQ_14cd34fb2f266bdf83ad97e49b6"`
+    );
+    await queryRunner.query(`ALTER TABLE "user" DROP COLUMN "oidcSubject"`);
+  }
+}
@@ -0,0 +1,27 @@
+import type { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddUserApiKeys1792382689413 implements MigrationInterface {
+  name = 'AddUserApiKeys1792382689413';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "api_key" ("id" SERIAL NOT NULL, "name" character varying NOT NULL, "secretHash" character varying NOT NULL, "keyPreview" character varying NOT NULL, "permissions" integer NOT NULL DEFAULT '0', "expiresAt" TIMESTAMP WITH TIME ZONE, "lastUsedAt" TIMESTAMP WITH TIME ZONE, "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), "userId" integer, CONSTRAINT "PK_b1bd840641b8acbaad89c3d8d11" PRIMARY KEY ("id"))`
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_b783aca587d2cfb4c54f2bb321" ON "api_key" ("secretHash") `
+    );
+    await queryRunner.query(
+      `ALTER TABLE "api_key" ADD CONSTRAINT "FK_277972f4944205eb29127f9bb6c" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE NO ACTION`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "api_key" DROP CONSTRAINT "FK_277972f4944205eb29127f9bb6c"`
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_b783aca587d2cfb4c54f2bb321"`
+    );
+    await queryRunner.query(`DROP TABLE "api_key"`);
+  }
+}
@@ -0,0 +1,27 @@
+import type { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddUserTwoFactor1792383117482 implements MigrationInterface {
+  name = 'AddUserTwoFactor1792383117482';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "user" ADD "twoFactorEnabled" boolean NOT NULL DEFAULT false`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "user" ADD "twoFactorSecret" character varying`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "user" ADD "twoFactorRecoveryCodes" text`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "user" DROP COLUMN "twoFactorRecoveryCodes"`
+    );
+    await queryRunner.query(`ALTER TABLE "user" DROP COLUMN "twoFactorSecret"`);
+    await queryRunner.query(
+      `ALTER TABLE "user" DROP COLUMN "twoFactorEnabled"`
+    );
+  }
+}
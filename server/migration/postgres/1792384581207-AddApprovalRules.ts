@@ -0,0 +1,31 @@
+import type { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddApprovalRules1792384581207 implements MigrationInterface {
+  name = 'AddApprovalRules1792384581207';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "approval_rule" ("id" SERIAL NOT NULL, "name" character varying NOT NULL, "mediaType" character varying, "is4k" boolean, "minSeasons" integer, "requiredApprovals" integer NOT NULL DEFAULT '1', "requireAdmin" boolean NOT NULL DEFAULT false, "expiryDays" integer, "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), CONSTRAINT "PK_701d587e020637511e1d04312c9" PRIMARY KEY ("id"))`
+    );
+    await queryRunner.query(
+      `CREATE TABLE "request_approval" ("id" SERIAL NOT NULL, "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), "requestId" integer, "userId" integer, CONSTRAINT "PK_31e8193d208fec62c105223d8ac" PRIMARY KEY ("id"))`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "request_approval" ADD CONSTRAINT "FK_f357ad9b195e84aa943e3b52a03" FOREIGN KEY ("requestId") REFERENCES "media_request"("id") ON DELETE CASCADE ON UPDATE NO ACTION`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "request_approval" ADD CONSTRAINT "FK_3165d77d6071f4bea4aa95cb222" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE NO ACTION`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "request_approval" DROP CONSTRAINT "FK_3165d77d6071f4bea4aa95cb222"`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "request_approval" DROP CONSTRAINT "FK_f357ad9b195e84aa943e3b52a03"`
+    );
+    await queryRunner.query(`DROP TABLE "request_approval"`);
+    await queryRunner.query(`DROP TABLE "approval_rule"`);
+  }
+}
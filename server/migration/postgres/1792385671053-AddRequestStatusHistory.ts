@@ -0,0 +1,29 @@
+import type { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddRequestStatusHistory1792385671053
+  implements MigrationInterface
+{
+  name = 'AddRequestStatusHistory1792385671053';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "request_status_history" ("id" SERIAL NOT NULL, "fromStatus" integer, "toStatus" integer NOT NULL, "reason" text, "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), "requestId" integer, "userId" integer, CONSTRAINT "PK_3b927b710932269a39be5054997" PRIMARY KEY ("id"))`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "request_status_history" ADD CONSTRAINT "FK_aff1e69478b428d835980cc44a3" FOREIGN KEY ("requestId") REFERENCES "media_request"("id") ON DELETE CASCADE ON UPDATE NO ACTION`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "request_status_history" ADD CONSTRAINT "FK_f70bff3518a038849ee305bdab5" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE NO ACTION`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "request_status_history" DROP CONSTRAINT "FK_f70bff3518a038849ee305bdab5"`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "request_status_history" DROP CONSTRAINT "FK_aff1e69478b428d835980cc44a3"`
+    );
+    await queryRunner.query(`DROP TABLE "request_status_history"`);
+  }
+}
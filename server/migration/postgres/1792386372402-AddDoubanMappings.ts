@@ -0,0 +1,27 @@
+import type { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddDoubanMappings1792386372402 implements MigrationInterface {
+  name = 'AddDoubanMappings1792386372402';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "douban_mapping" ("id" SERIAL NOT NULL, "tmdbId" integer NOT NULL, "mediaType" character varying NOT NULL, "doubanId" character varying, "rating" double precision, "isOverride" boolean NOT NULL DEFAULT false, "lastCheckedAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), CONSTRAINT "UQ_3aeaa09455e3c31fc31bc95b0fc" UNIQUE ("tmdbId", "mediaType"), CONSTRAINT "PK_b78dcb3454947f6b7aeeae842fb" PRIMARY KEY ("id"))`
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_af052012830547b148526114f1" ON "douban_mapping" ("tmdbId") `
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_b8f0aac2c24e187c30db6269ed" ON "douban_mapping" ("doubanId") `
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_b8f0aac2c24e187c30db6269ed"`
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_af052012830547b148526114f1"`
+    );
+    await queryRunner.query(`DROP TABLE "douban_mapping"`);
+  }
+}
@@ -0,0 +1,39 @@
+import type { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddNotificationDigests1792387339127 implements MigrationInterface {
+  name = 'AddNotificationDigests1792387339127';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "queued_notification" ("id" SERIAL NOT NULL, "agent" character varying NOT NULL, "type" integer NOT NULL, "item" text NOT NULL, "deliverAt" TIMESTAMP WITH TIME ZONE NOT NULL, "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), "userId" integer, CONSTRAINT "PK_aa18d2a7336a558911ab248ff68" PRIMARY KEY ("id"))`
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_783536a2212162b3df4605761a" ON "queued_notification" ("deliverAt") `
+    );
+    await queryRunner.query(
+      `ALTER TABLE "user_settings" ADD "digestFrequency" character varying`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "user_settings" ADD "digestTime" character varying`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "queued_notification" ADD CONSTRAINT "FK_e03a223819e710a2a3a20e365e0" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE NO ACTION`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "queued_notification" DROP CONSTRAINT "FK_e03a223819e710a2a3a20e365e0"`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "user_settings" DROP COLUMN "digestTime"`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "user_settings" DROP COLUMN "digestFrequency"`
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_783536a2212162b3df4605761a"`
+    );
+    await queryRunner.query(`DROP TABLE "queued_notification"`);
+  }
+}
@@ -0,0 +1,33 @@
+import type { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddNotificationOutbox1792387870214 implements MigrationInterface {
+  name = 'AddNotificationOutbox1792387870214';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "outbox_notification" ("id" SERIAL NOT NULL, "agent" character varying NOT NULL, "type" integer NOT NULL, "payload" text NOT NULL, "status" integer NOT NULL DEFAULT '1', "attempts" integer NOT NULL DEFAULT '0', "lastError" text, "nextAttemptAt" TIMESTAMP WITH TIME ZONE, "sentAt" TIMESTAMP WITH TIME ZONE, "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), CONSTRAINT "PK_3a88e220de0b1698e84cca9344e" PRIMARY KEY ("id"))`
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_d0c1e8110ef6751779b6ea771b" ON "outbox_notification" ("status") `
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_f384694cafc7ff34f15a0bdc9b" ON "outbox_notification" ("nextAttemptAt") `
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_e550ddc34705109e8eafa47df6" ON "outbox_notification" ("createdAt") `
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_e550ddc34705109e8eafa47df6"`
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_f384694cafc7ff34f15a0bdc9b"`
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_d0c1e8110ef6751779b6ea771b"`
+    );
+    await queryRunner.query(`DROP TABLE "outbox_notification"`);
+  }
+}
@@ -0,0 +1,33 @@
+import type { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddUserNotifications1792388461023 implements MigrationInterface {
+  name = 'AddUserNotifications1792388461023';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "user_notification" ("id" SERIAL NOT NULL, "type" integer NOT NULL, "event" character varying, "subject" character varying NOT NULL, "message" text, "image" character varying, "url" character varying, "isRead" boolean NOT NULL DEFAULT false, "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), "userId" integer NOT NULL, CONSTRAINT "PK_8840aac86dec5f669c541ce67d4" PRIMARY KEY ("id"))`
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_9eaa8c44a1741b5d69af5b3f2c" ON "user_notification" ("createdAt") `
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_bc23d7608b0d08d95f199f1261" ON "user_notification" ("userId", "isRead") `
+    );
+    await queryRunner.query(
+      `ALTER TABLE "user_notification" ADD CONSTRAINT "FK_dce2a8927967051c447ae10bc8b" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE NO ACTION`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "user_notification" DROP CONSTRAINT "FK_dce2a8927967051c447ae10bc8b"`
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_bc23d7608b0d08d95f199f1261"`
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_9eaa8c44a1741b5d69af5b3f2c"`
+    );
+    await queryRunner.query(`DROP TABLE "user_notification"`);
+  }
+}
@@ -0,0 +1,80 @@
+import type { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddOverrideRuleConditions1792389802519
+  implements MigrationInterface
+{
+  name = 'AddOverrideRuleConditions1792389802519';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "override_rule" ADD "yearFrom" integer`
+    );
+    await queryRunner.query(`ALTER TABLE "override_rule" ADD "yearTo" integer`);
+    await queryRunner.query(
+      `ALTER TABLE "override_rule" ADD "runtimeMin" integer`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "override_rule" ADD "runtimeMax" integer`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "override_rule" ADD "certifications" character varying`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "override_rule" ADD "originCountries" character varying`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "override_rule" ADD "networks" character varying`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "override_rule" ADD "studios" character varying`
+    );
+    await queryRunner.query(`ALTER TABLE "override_rule" ADD "is4k" boolean`);
+    await queryRunner.query(
+      `ALTER TABLE "override_rule" ADD "isAnime" boolean`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "override_rule" ADD "priority" integer NOT NULL DEFAULT '0'`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "override_rule" ADD "stopProcessing" boolean NOT NULL DEFAULT false`
+    );
+    await queryRunner.query(
+      `UPDATE "override_rule" SET "stopProcessing" = true`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "override_rule" DROP COLUMN "stopProcessing"`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "override_rule" DROP COLUMN "priority"`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "override_rule" DROP COLUMN "isAnime"`
+    );
+    await queryRunner.query(`ALTER TABLE "override_rule" DROP COLUMN "is4k"`);
+    await queryRunner.query(
+      `ALTER TABLE "override_rule" DROP COLUMN "studios"`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "override_rule" DROP COLUMN "networks"`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "override_rule" DROP COLUMN "originCountries"`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "override_rule" DROP COLUMN "certifications"`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "override_rule" DROP COLUMN "runtimeMax"`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "override_rule" DROP COLUMN "runtimeMin"`
+    );
+    await queryRunner.query(`ALTER TABLE "override_rule" DROP COLUMN "yearTo"`);
+    await queryRunner.query(
+      `ALTER TABLE "override_rule" DROP COLUMN "yearFrom"`
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import type { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddQuotaUnits1792390296108 implements MigrationInterface {
+  name = 'AddQuotaUnits1792390296108';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "user" ADD "movieQuotaType" character varying`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "user" ADD "movieQuotaPeriod" character varying`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "user" ADD "tvQuotaType" character varying`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "user" ADD "tvQuotaPeriod" character varying`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "media_request" ADD "episodeCount" integer`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "media_request" ADD "estimatedSize" integer`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "media_request" DROP COLUMN "estimatedSize"`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "media_request" DROP COLUMN "episodeCount"`
+    );
+    await queryRunner.query(`ALTER TABLE "user" DROP COLUMN "tvQuotaPeriod"`);
+    await queryRunner.query(`ALTER TABLE "user" DROP COLUMN "tvQuotaType"`);
+    await queryRunner.query(
+      `ALTER TABLE "user" DROP COLUMN "movieQuotaPeriod"`
+    );
+    await queryRunner.query(`ALTER TABLE "user" DROP COLUMN "movieQuotaType"`);
+  }
+}
@@ -0,0 +1,43 @@
+import type { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddUserGroups1792390929317 implements MigrationInterface {
+  name = 'AddUserGroups1792390929317';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "user_group" ("id" SERIAL NOT NULL, "name" character varying NOT NULL, "permissions" integer NOT NULL DEFAULT '0', "movieQuotaLimit" integer, "movieQuotaDays" integer, "movieQuotaType" character varying, "movieQuotaPeriod" character varying, "tvQuotaLimit" integer, "tvQuotaDays" integer, "tvQuotaType" character varying, "tvQuotaPeriod" character varying, "radarrServerId" integer, "radarrProfileId" integer, "sonarrServerId" integer, "sonarrProfileId" integer, "allowedLibraries" text, "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), CONSTRAINT "UQ_11b85d8d72220e3ca816d3e907a" UNIQUE ("name"), CONSTRAINT "PK_3c29fba6fe013ec8724378ce7c9" PRIMARY KEY ("id"))`
+    );
+    await queryRunner.query(
+      `CREATE TABLE "user_groups_user_group" ("userId" integer NOT NULL, "userGroupId" integer NOT NULL, CONSTRAINT "PK_a4c39cf055515d3478562577ce4" PRIMARY KEY ("userId", "userGroupId"))`
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_372e638c75644389a7832a604e" ON "user_groups_user_group" ("userId") `
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_235ca434168087abe1c665fd37" ON "user_groups_user_group" ("userGroupId") `
+    );
+    await queryRunner.query(
+      `ALTER TABLE "user_groups_user_group" ADD CONSTRAINT "FK_372e638c75644389a7832a604ed" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "user_groups_user_group" ADD CONSTRAINT "FK_235ca434168087abe1c665fd375" FOREIGN KEY ("userGroupId") REFERENCES "user_group"("id") ON DELETE CASCADE ON UPDATE CASCADE`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "user_groups_user_group" DROP CONSTRAINT "FK_235ca434168087abe1c665fd375"`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "user_groups_user_group" DROP CONSTRAINT "FK_372e638c75644389a7832a604ed"`
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_235ca434168087abe1c665fd37"`
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_372e638c75644389a7832a604e"`
+    );
+    await queryRunner.query(`DROP TABLE "user_groups_user_group"`);
+    await queryRunner.query(`DROP TABLE "user_group"`);
+  }
+}
@@ -0,0 +1,39 @@
+import type { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddInvitesAndAccountRequests1792391588242
+  implements MigrationInterface
+{
+  name = 'AddInvitesAndAccountRequests1792391588242';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "invite" ("id" SERIAL NOT NULL, "code" character varying NOT NULL, "maxUses" integer, "uses" integer NOT NULL DEFAULT '0', "expiresAt" TIMESTAMP WITH TIME ZONE, "permissions" integer, "createJellyfinUser" boolean NOT NULL DEFAULT false, "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), "groupId" integer, "createdById" integer, CONSTRAINT "UQ_ffbbc5bbb052814e22a0c525ff4" UNIQUE ("code"), CONSTRAINT "PK_fc9fa190e5a3c5d80604a4f63e1" PRIMARY KEY ("id"))`
+    );
+    await queryRunner.query(
+      `CREATE TABLE "account_request" ("id" SERIAL NOT NULL, "email" character varying NOT NULL, "username" character varying, "password" character varying NOT NULL, "message" text, "status" integer NOT NULL DEFAULT '1', "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), "modifiedById" integer, CONSTRAINT "PK_ed44e21c164d20a69d5fcc8d35b" PRIMARY KEY ("id"))`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "invite" ADD CONSTRAINT "FK_c3a2b0cc796a307f2416b2acafe" FOREIGN KEY ("groupId") REFERENCES "user_group"("id") ON DELETE SET NULL ON UPDATE NO ACTION`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "invite" ADD CONSTRAINT "FK_1fd4ebf122b26dc6c7245e544f3" FOREIGN KEY ("createdById") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE NO ACTION`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "account_request" ADD CONSTRAINT "FK_9ad8f178b45f4da48811e07290f" FOREIGN KEY ("modifiedById") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE NO ACTION`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "account_request" DROP CONSTRAINT "FK_9ad8f178b45f4da48811e07290f"`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "invite" DROP CONSTRAINT "FK_1fd4ebf122b26dc6c7245e544f3"`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "invite" DROP CONSTRAINT "FK_c3a2b0cc796a307f2416b2acafe"`
+    );
+    await queryRunner.query(`DROP TABLE "account_request"`);
+    await queryRunner.query(`DROP TABLE "invite"`);
+  }
+}
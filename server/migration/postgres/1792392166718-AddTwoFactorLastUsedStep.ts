@@ -0,0 +1,19 @@
+import type { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTwoFactorLastUsedStep1792392166718
+  implements MigrationInterface
+{
+  name = 'AddTwoFactorLastUsedStep1792392166718';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "user" ADD "twoFactorLastUsedStep" integer`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "user" DROP COLUMN "twoFactorLastUsedStep"`
+    );
+  }
+}
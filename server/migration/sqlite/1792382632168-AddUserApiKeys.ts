@@ -0,0 +1,19 @@
+import type { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddUserApiKeys1792382632168 implements MigrationInterface {
+  name = 'AddUserApiKeys1792382632168';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "api_key" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "name" varchar NOT NULL, "secretHash" varchar NOT NULL, "keyPreview" varchar NOT NULL, "permissions" integer NOT NULL DEFAULT (0), "expiresAt" datetime, "lastUsedAt" datetime, "createdAt" datetime NOT NULL DEFAULT (CURRENT_TIMESTAMP), "userId" integer, CONSTRAINT "FK_277972f4944205eb29127f9bb6c" FOREIGN KEY ("userId") REFERENCES "user" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_b783aca587d2cfb4c54f2bb321" ON "api_key" ("secretHash") `
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_b783aca587d2cfb4c54f2bb321"`);
+    await queryRunner.query(`DROP TABLE "api_key"`);
+  }
+}
@@ -0,0 +1,19 @@
+import type { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddApprovalRules1792384522974 implements MigrationInterface {
+  name = 'AddApprovalRules1792384522974';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "approval_rule" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "name" varchar NOT NULL, "mediaType" varchar, "is4k" boolean, "minSeasons" integer, "requiredApprovals" integer NOT NULL DEFAULT (1), "requireAdmin" boolean NOT NULL DEFAULT (0), "expiryDays" integer, "createdAt" datetime NOT NULL DEFAULT (CURRENT_TIMESTAMP), "updatedAt" datetime NOT NULL DEFAULT (CURRENT_TIMESTAMP))`
+    );
+    await queryRunner.query(
+      `CREATE TABLE "request_approval" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "createdAt" datetime NOT NULL DEFAULT (CURRENT_TIMESTAMP), "requestId" integer, "userId" integer, CONSTRAINT "FK_f357ad9b195e84aa943e3b52a03" FOREIGN KEY ("requestId") REFERENCES "media_request" ("id") ON DELETE CASCADE ON UPDATE NO ACTION, CONSTRAINT "FK_3165d77d6071f4bea4aa95cb222" FOREIGN KEY ("userId") REFERENCES "user" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "request_approval"`);
+    await queryRunner.query(`DROP TABLE "approval_rule"`);
+  }
+}
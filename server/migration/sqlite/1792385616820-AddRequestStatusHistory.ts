@@ -0,0 +1,17 @@
+import type { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddRequestStatusHistory1792385616820
+  implements MigrationInterface
+{
+  name = 'AddRequestStatusHistory1792385616820';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "request_status_history" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "fromStatus" integer, "toStatus" integer NOT NULL, "reason" text, "createdAt" datetime NOT NULL DEFAULT (CURRENT_TIMESTAMP), "requestId" integer, "userId" integer, CONSTRAINT "FK_aff1e69478b428d835980cc44a3" FOREIGN KEY ("requestId") REFERENCES "media_request" ("id") ON DELETE CASCADE ON UPDATE NO ACTION, CONSTRAINT "FK_f70bff3518a038849ee305bdab5" FOREIGN KEY ("userId") REFERENCES "user" ("id") ON DELETE SET NULL ON UPDATE NO ACTION)`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "request_status_history"`);
+  }
+}
@@ -0,0 +1,23 @@
+import type { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddDoubanMappings1792386311121 implements MigrationInterface {
+  name = 'AddDoubanMappings1792386311121';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "douban_mapping" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "tmdbId" integer NOT NULL, "mediaType" varchar NOT NULL, "doubanId" varchar, "rating" float, "isOverride" boolean NOT NULL DEFAULT (0), "lastCheckedAt" datetime NOT NULL DEFAULT (CURRENT_TIMESTAMP), "createdAt" datetime NOT NULL DEFAULT (CURRENT_TIMESTAMP), "updatedAt" datetime NOT NULL DEFAULT (CURRENT_TIMESTAMP), CONSTRAINT "UQ_3aeaa09455e3c31fc31bc95b0fc" UNIQUE ("tmdbId", "mediaType"))`
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_af052012830547b148526114f1" ON "douban_mapping" ("tmdbId") `
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_b8f0aac2c24e187c30db6269ed" ON "douban_mapping" ("doubanId") `
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_b8f0aac2c24e187c30db6269ed"`);
+    await queryRunner.query(`DROP INDEX "IDX_af052012830547b148526114f1"`);
+    await queryRunner.query(`DROP TABLE "douban_mapping"`);
+  }
+}
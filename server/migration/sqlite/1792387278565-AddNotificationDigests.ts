@@ -0,0 +1,67 @@
+import type { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddNotificationDigests1792387278565 implements MigrationInterface {
+  name = 'AddNotificationDigests1792387278565';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "queued_notification" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "agent" varchar NOT NULL, "type" integer NOT NULL, "item" text NOT NULL, "deliverAt" datetime NOT NULL, "createdAt" datetime NOT NULL DEFAULT (CURRENT_TIMESTAMP), "userId" integer)`
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_783536a2212162b3df4605761a" ON "queued_notification" ("deliverAt") `
+    );
+    await queryRunner.query(
+      `CREATE TABLE "temporary_user_settings" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "locale" varchar NOT NULL DEFAULT (''), "discoverRegion" varchar, "streamingRegion" varchar, "originalLanguage" varchar, "pgpKey" varchar, "discordId" varchar, "pushbulletAccessToken" varchar, "pushoverApplicationToken" varchar, "pushoverUserKey" varchar, "pushoverSound" varchar, "telegramChatId" varchar, "telegramSendSilently" boolean, "watchlistSyncMovies" boolean, "watchlistSyncTv" boolean, "notificationTypes" text, "userId" integer, "telegramMessageThreadId" varchar, "matrixRoomId" varchar, "appriseUrls" text, "digestFrequency" varchar, "digestTime" varchar, CONSTRAINT "REL_986a2b6d3c05eb4091bb8066f7" UNIQUE ("userId"), CONSTRAINT "FK_986a2b6d3c05eb4091bb8066f78" FOREIGN KEY ("userId") REFERENCES "user" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`
+    );
+    await queryRunner.query(
+      `INSERT INTO "temporary_user_settings"("id", "locale", "discoverRegion", "streamingRegion", "originalLanguage", "pgpKey", "discordId", "pushbulletAccessToken", "pushoverApplicationToken", "pushoverUserKey", "pushoverSound", "telegramChatId", "telegramSendSilently", "watchlistSyncMovies", "watchlistSyncTv", "notificationTypes", "userId", "telegramMessageThreadId", "matrixRoomId", "appriseUrls") SELECT "id", "locale", "discoverRegion", "streamingRegion", "originalLanguage", "pgpKey", "discordId", "pushbulletAccessToken", "pushoverApplicationToken", "pushoverUserKey", "pushoverSound", "telegramChatId", "telegramSendSilently", "watchlistSyncMovies", "watchlistSyncTv", "notificationTypes", "userId", "telegramMessageThreadId", "matrixRoomId", "appriseUrls" FROM "user_settings"`
+    );
+    await queryRunner.query(`DROP TABLE "user_settings"`);
+    await queryRunner.query(
+      `ALTER TABLE "temporary_user_settings" RENAME TO "user_settings"`
+    );
+    await queryRunner.query(`DROP INDEX "IDX_783536a2212162b3df4605761a"`);
+    await queryRunner.query(
+      `CREATE TABLE "temporary_queued_notification" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "agent" varchar NOT NULL, "type" integer NOT NULL, "item" text NOT NULL, "deliverAt" datetime NOT NULL, "createdAt" datetime NOT NULL DEFAULT (CURRENT_TIMESTAMP), "userId" integer, CONSTRAINT "FK_e03a223819e710a2a3a20e365e0" FOREIGN KEY ("userId") REFERENCES "user" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`
+    );
+    await queryRunner.query(
+      `INSERT INTO "temporary_queued_notification"("id", "agent", "type", "item", "deliverAt", "createdAt", "userId") SELECT "id", "agent", "type", "item", "deliverAt", "createdAt", "userId" FROM "queued_notification"`
+    );
+    await queryRunner.query(`DROP TABLE "queued_notification"`);
+    await queryRunner.query(
+      `ALTER TABLE "temporary_queued_notification" RENAME TO "queued_notification"`
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_783536a2212162b3df4605761a" ON "queued_notification" ("deliverAt") `
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_783536a2212162b3df4605761a"`);
+    await queryRunner.query(
+      `ALTER TABLE "queued_notification" RENAME TO "temporary_queued_notification"`
+    );
+    await queryRunner.query(
+      `CREATE TABLE "queued_notification" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "agent" varchar NOT NULL, "type" integer NOT NULL, "item" text NOT NULL, "deliverAt" datetime NOT NULL, "createdAt" datetime NOT NULL DEFAULT (CURRENT_TIMESTAMP), "userId" integer)`
+    );
+    await queryRunner.query(
+      `INSERT INTO "queued_notification"("id", "agent", "type", "item", "deliverAt", "createdAt", "userId") SELECT "id", "agent", "type", "item", "deliverAt", "createdAt", "userId" FROM "temporary_queued_notification"`
+    );
+    await queryRunner.query(`DROP TABLE "temporary_queued_notification"`);
+    await queryRunner.query(
+      `CREATE INDEX "IDX_783536a2212162b3df4605761a" ON "queued_notification" ("deliverAt") `
+    );
+    await queryRunner.query(
+      `ALTER TABLE "user_settings" RENAME TO "temporary_user_settings"`
+    );
+    await queryRunner.query(
+      `CREATE TABLE "user_settings" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "locale" varchar NOT NULL DEFAULT (''), "discoverRegion" varchar, "streamingRegion" varchar, "originalLanguage" varchar, "pgpKey" varchar, "discordId" varchar, "pushbulletAccessToken" varchar, "pushoverApplicationToken" varchar, "pushoverUserKey" varchar, "pushoverSound" varchar, "telegramChatId" varchar, "telegramSendSilently" boolean, "watchlistSyncMovies" boolean, "watchlistSyncTv" boolean, "notificationTypes" text, "userId" integer, "telegramMessageThreadId" varchar, "matrixRoomId" varchar, "appriseUrls" text, CONSTRAINT "REL_986a2b6d3c05eb4091bb8066f7" UNIQUE ("userId"), CONSTRAINT "FK_986a2b6d3c05eb4091bb8066f78" FOREIGN KEY ("userId") REFERENCES "user" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`
+    );
+    await queryRunner.query(
+      `INSERT INTO "user_settings"("id", "locale", "discoverRegion", "streamingRegion", "originalLanguage", "pgpKey", "discordId", "pushbulletAccessToken", "pushoverApplicationToken", "pushoverUserKey", "pushoverSound", "telegramChatId", "telegramSendSilently", "watchlistSyncMovies", "watchlistSyncTv", "notificationTypes", "userId", "telegramMessageThreadId", "matrixRoomId", "appriseUrls") SELECT "id", "locale", "discoverRegion", "streamingRegion", "originalLanguage", "pgpKey", "discordId", "pushbulletAccessToken", "pushoverApplicationToken", "pushoverUserKey", "pushoverSound", "telegramChatId", "telegramSendSilently", "watchlistSyncMovies", "watchlistSyncTv", "notificationTypes", "userId", "telegramMessageThreadId", "matrixRoomId", "appriseUrls" FROM "temporary_user_settings"`
+    );
+    await queryRunner.query(`DROP TABLE "temporary_user_settings"`);
+    await queryRunner.query(`DROP INDEX "IDX_783536a2212162b3df4605761a"`);
+    await queryRunner.query(`DROP TABLE "queued_notification"`);
+  }
+}
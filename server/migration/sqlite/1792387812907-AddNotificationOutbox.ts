@@ -0,0 +1,27 @@
+import type { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddNotificationOutbox1792387812907 implements MigrationInterface {
+  name = 'AddNotificationOutbox1792387812907';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "outbox_notification" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "agent" varchar NOT NULL, "type" integer NOT NULL, "payload" text NOT NULL, "status" integer NOT NULL DEFAULT (1), "attempts" integer NOT NULL DEFAULT (0), "lastError" text, "nextAttemptAt" datetime, "sentAt" datetime, "createdAt" datetime NOT NULL DEFAULT (CURRENT_TIMESTAMP), "updatedAt" datetime NOT NULL DEFAULT (CURRENT_TIMESTAMP))`
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_d0c1e8110ef6751779b6ea771b" ON "outbox_notification" ("status") `
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_f384694cafc7ff34f15a0bdc9b" ON "outbox_notification" ("nextAttemptAt") `
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_e550ddc34705109e8eafa47df6" ON "outbox_notification" ("createdAt") `
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_e550ddc34705109e8eafa47df6"`);
+    await queryRunner.query(`DROP INDEX "IDX_f384694cafc7ff34f15a0bdc9b"`);
+    await queryRunner.query(`DROP INDEX "IDX_d0c1e8110ef6751779b6ea771b"`);
+    await queryRunner.query(`DROP TABLE "outbox_notification"`);
+  }
+}
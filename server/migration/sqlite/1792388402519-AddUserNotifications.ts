@@ -0,0 +1,23 @@
+import type { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddUserNotifications1792388402519 implements MigrationInterface {
+  name = 'AddUserNotifications1792388402519';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "user_notification" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "type" integer NOT NULL, "event" varchar, "subject" varchar NOT NULL, "message" text, "image" varchar, "url" varchar, "isRead" boolean NOT NULL DEFAULT (0), "createdAt" datetime NOT NULL DEFAULT (CURRENT_TIMESTAMP), "userId" integer NOT NULL, CONSTRAINT "FK_dce2a8927967051c447ae10bc8b" FOREIGN KEY ("userId") REFERENCES "user" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_9eaa8c44a1741b5d69af5b3f2c" ON "user_notification" ("createdAt") `
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_bc23d7608b0d08d95f199f1261" ON "user_notification" ("userId", "isRead") `
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_bc23d7608b0d08d95f199f1261"`);
+    await queryRunner.query(`DROP INDEX "IDX_9eaa8c44a1741b5d69af5b3f2c"`);
+    await queryRunner.query(`DROP TABLE "user_notification"`);
+  }
+}
@@ -0,0 +1,33 @@
+import type { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddOverrideRuleConditions1792389741206
+  implements MigrationInterface
+{
+  name = 'AddOverrideRuleConditions1792389741206';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "temporary_override_rule" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "radarrServiceId" integer, "sonarrServiceId" integer, "users" varchar, "genre" varchar, "language" varchar, "keywords" varchar, "profileId" integer, "rootFolder" varchar, "tags" varchar, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')), "yearFrom" integer, "yearTo" integer, "runtimeMin" integer, "runtimeMax" integer, "certifications" varchar, "originCountries" varchar, "networks" varchar, "studios" varchar, "is4k" boolean, "isAnime" boolean, "priority" integer NOT NULL DEFAULT (0), "stopProcessing" boolean NOT NULL DEFAULT (0))`
+    );
+    await queryRunner.query(
+      `INSERT INTO "temporary_override_rule"("id", "radarrServiceId", "sonarrServiceId", "users", "genre", "language", "keywords", "profileId", "rootFolder", "tags", "createdAt", "updatedAt", "stopProcessing") SELECT "id", "radarrServiceId", "sonarrServiceId", "users", "genre", "language", "keywords", "profileId", "rootFolder", "tags", "createdAt", "updatedAt", 1 FROM "override_rule"`
+    );
+    await queryRunner.query(`DROP TABLE "override_rule"`);
+    await queryRunner.query(
+      `ALTER TABLE "temporary_override_rule" RENAME TO "override_rule"`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "override_rule" RENAME TO "temporary_override_rule"`
+    );
+    await queryRunner.query(
+      `CREATE TABLE "override_rule" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "radarrServiceId" integer, "sonarrServiceId" integer, "users" varchar, "genre" varchar, "language" varchar, "keywords" varchar, "profileId" integer, "rootFolder" varchar, "tags" varchar, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')))`
+    );
+    await queryRunner.query(
+      `INSERT INTO "override_rule"("id", "radarrServiceId", "sonarrServiceId", "users", "genre", "language", "keywords", "profileId", "rootFolder", "tags", "createdAt", "updatedAt") SELECT "id", "radarrServiceId", "sonarrServiceId", "users", "genre", "language", "keywords", "profileId", "rootFolder", "tags", "createdAt", "updatedAt" FROM "temporary_override_rule"`
+    );
+    await queryRunner.query(`DROP TABLE "temporary_override_rule"`);
+  }
+}
@@ -0,0 +1,27 @@
+import type { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddUserGroups1792390871542 implements MigrationInterface {
+  name = 'AddUserGroups1792390871542';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "user_group" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "name" varchar NOT NULL, "permissions" integer NOT NULL DEFAULT (0), "movieQuotaLimit" integer, "movieQuotaDays" integer, "movieQuotaType" varchar, "movieQuotaPeriod" varchar, "tvQuotaLimit" integer, "tvQuotaDays" integer, "tvQuotaType" varchar, "tvQuotaPeriod" varchar, "radarrServerId" integer, "radarrProfileId" integer, "sonarrServerId" integer, "sonarrProfileId" integer, "allowedLibraries" text, "createdAt" datetime NOT NULL DEFAULT (CURRENT_TIMESTAMP), "updatedAt" datetime NOT NULL DEFAULT (CURRENT_TIMESTAMP), CONSTRAINT "UQ_11b85d8d72220e3ca816d3e907a" UNIQUE ("name"))`
+    );
+    await queryRunner.query(
+      `CREATE TABLE "user_groups_user_group" ("userId" integer NOT NULL, "userGroupId" integer NOT NULL, CONSTRAINT "FK_372e638c75644389a7832a604ed" FOREIGN KEY ("userId") REFERENCES "user" ("id") ON DELETE CASCADE ON UPDATE CASCADE, CONSTRAINT "FK_235ca434168087abe1c665fd375" FOREIGN KEY ("userGroupId") REFERENCES "user_group" ("id") ON DELETE CASCADE ON UPDATE CASCADE, PRIMARY KEY ("userId", "userGroupId"))`
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_372e638c75644389a7832a604e" ON "user_groups_user_group" ("userId") `
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_235ca434168087abe1c665fd37" ON "user_groups_user_group" ("userGroupId") `
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_235ca434168087abe1c665fd37"`);
+    await queryRunner.query(`DROP INDEX "IDX_372e638c75644389a7832a604e"`);
+    await queryRunner.query(`DROP TABLE "user_groups_user_group"`);
+    await queryRunner.query(`DROP TABLE "user_group"`);
+  }
+}
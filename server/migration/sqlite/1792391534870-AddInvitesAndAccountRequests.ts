@@ -0,0 +1,21 @@
+import type { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddInvitesAndAccountRequests1792391534870
+  implements MigrationInterface
+{
+  name = 'AddInvitesAndAccountRequests1792391534870';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "invite" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "code" varchar NOT NULL, "maxUses" integer, "uses" integer NOT NULL DEFAULT (0), "expiresAt" datetime, "permissions" integer, "createJellyfinUser" boolean NOT NULL DEFAULT (0), "createdAt" datetime NOT NULL DEFAULT (CURRENT_TIMESTAMP), "updatedAt" datetime NOT NULL DEFAULT (CURRENT_TIMESTAMP), "groupId" integer, "createdById" integer, CONSTRAINT "UQ_ffbbc5bbb052814e22a0c525ff4" UNIQUE ("code"), CONSTRAINT "FK_c3a2b0cc796a307f2416b2acafe" FOREIGN KEY ("groupId") REFERENCES "user_group" ("id") ON DELETE SET NULL ON UPDATE NO ACTION, CONSTRAINT "FK_1fd4ebf122b26dc6c7245e544f3" FOREIGN KEY ("createdById") REFERENCES "user" ("id") ON DELETE SET NULL ON UPDATE NO ACTION)`
+    );
+    await queryRunner.query(
+      `CREATE TABLE "account_request" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "email" varchar NOT NULL, "username" varchar, "password" varchar NOT NULL, "message" text, "status" integer NOT NULL DEFAULT (1), "createdAt" datetime NOT NULL DEFAULT (CURRENT_TIMESTAMP), "updatedAt" datetime NOT NULL DEFAULT (CURRENT_TIMESTAMP), "modifiedById" integer, CONSTRAINT "FK_9ad8f178b45f4da48811e07290f" FOREIGN KEY ("modifiedById") REFERENCES "user" ("id") ON DELETE SET NULL ON UPDATE NO ACTION)`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "account_request"`);
+    await queryRunner.query(`DROP TABLE "invite"`);
+  }
+}
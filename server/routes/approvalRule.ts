@@ -0,0 +1,133 @@
+import { getRepository } from '@server/datasource';
+import ApprovalRule from '@server/entity/ApprovalRule';
+import type {
+  ApprovalRuleBody,
+  ApprovalRuleResultsResponse,
+} from '@server/interfaces/api/approvalRuleInterfaces';
+import { Permission } from '@server/lib/permissions';
+import { isAuthenticated } from '@server/middleware/auth';
+import { Router } from 'express';
+
+const approvalRuleRoutes = Router();
+
+const isValidRule = (body: ApprovalRuleBody): boolean =>
+  !!body.name &&
+  (body.requiredApprovals === undefined ||
+    (Number.isInteger(body.requiredApprovals) &&
+      body.requiredApprovals >= 1)) &&
+  (!body.minSeasons || body.minSeasons >= 1) &&
+  (!body.expiryDays || body.expiryDays >= 1);
+
+approvalRuleRoutes.get(
+  '/',
+  isAuthenticated(Permission.ADMIN),
+  async (_req, res, next) => {
+    const approvalRuleRepository = getRepository(ApprovalRule);
+
+    try {
+      const rules = await approvalRuleRepository.find({
+        order: { id: 'ASC' },
+      });
+
+      return res.status(200).json(rules as ApprovalRuleResultsResponse);
+    } catch (e) {
+      next({ status: 500, message: e.message });
+    }
+  }
+);
+
+approvalRuleRoutes.post<Record<string, string>, ApprovalRule, ApprovalRuleBody>(
+  '/',
+  isAuthenticated(Permission.ADMIN),
+  async (req, res, next) => {
+    const approvalRuleRepository = getRepository(ApprovalRule);
+
+    if (!isValidRule(req.body)) {
+      return next({ status: 400, message: 'Invalid approval rule.' });
+    }
+
+    try {
+      const rule = new ApprovalRule({
+        name: req.body.name,
+        mediaType: req.body.mediaType ?? null,
+        is4k: req.body.is4k ?? null,
+        minSeasons: req.body.minSeasons || null,
+        requiredApprovals: req.body.requiredApprovals ?? 1,
+        requireAdmin: req.body.requireAdmin ?? false,
+        expiryDays: req.body.expiryDays || null,
+      });
+
+      const newRule = await approvalRuleRepository.save(rule);
+
+      return res.status(200).json(newRule);
+    } catch (e) {
+      next({ status: 500, message: e.message });
+    }
+  }
+);
+
+approvalRuleRoutes.put<{ ruleId: string }, ApprovalRule, ApprovalRuleBody>(
+  '/:ruleId',
+  isAuthenticated(Permission.ADMIN),
+  async (req, res, next) => {
+    const approvalRuleRepository = getRepository(ApprovalRule);
+
+    if (!isValidRule(req.body)) {
+      return next({ status: 400, message: 'Invalid approval rule.' });
+    }
+
+    try {
+      const rule = await approvalRuleRepository.findOne({
+        where: {
+          id: Number(req.params.ruleId),
+        },
+      });
+
+      if (!rule) {
+        return next({ status: 404, message: 'Approval Rule not found.' });
+      }
+
+      rule.name = req.body.name;
+      rule.mediaType = req.body.mediaType ?? null;
+      rule.is4k = req.body.is4k ?? null;
+      rule.minSeasons = req.body.minSeasons || null;
+      rule.requiredApprovals = req.body.requiredApprovals ?? 1;
+      rule.requireAdmin = req.body.requireAdmin ?? false;
+      rule.expiryDays = req.body.expiryDays || null;
+
+      const newRule = await approvalRuleRepository.save(rule);
+
+      return res.status(200).json(newRule);
+    } catch (e) {
+      next({ status: 500, message: e.message });
+    }
+  }
+);
+
+approvalRuleRoutes.delete<{ ruleId: string }, ApprovalRule>(
+  '/:ruleId',
+  isAuthenticated(Permission.ADMIN),
+  async (req, res, next) => {
+    const approvalRuleRepository = getRepository(ApprovalRule);
+
+    try {
+      const rule = await approvalRuleRepository.findOne({
+        where: {
+          id: Number(req.params.ruleId),
+        },
+      });
+
+      if (!rule) {
+        return next({ status: 404, message: 'Approval Rule not found.' });
+      }
+
+      await approvalRuleRepository.remove(rule);
+
+      return res.status(200).json(rule);
+    } catch (e) {
+      next({ status: 500, message: e.message });
+    }
+  }
+);
+
+export default approvalRuleRoutes;
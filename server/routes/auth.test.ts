@@ -0,0 +1,88 @@
+import { MediaServerType } from '@server/constants/server';
+import { getSettings } from '@server/lib/settings';
+import authRoutes from '@server/routes/auth';
+import type { NextFunction, Request, Response } from 'express';
+import express from 'express';
+import assert from 'node:assert/strict';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { after, before, describe, it } from 'node:test';
+
+describe('media server sign-in', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  const signIn = async (
+    path: string,
+    body: Record<string, unknown> = {}
+  ): Promise<{ status: number; error?: string }> => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+
+    return { status: response.status, ...(await response.json()) };
+  };
+
+  const configure = (mediaServerType: MediaServerType) => {
+    const settings = getSettings();
+    settings.main.mediaServerType = mediaServerType;
+    settings.main.mediaServerLogin = true;
+    settings.jellyfin.ip = 'media.local';
+  };
+
+  before(async () => {
+    const app = express();
+
+    app.use(express.json());
+    app.use('/auth', authRoutes);
+    app.use(
+      (
+        err: { status: number; message: string },
+        _req: Request,
+        res: Response,
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        _next: NextFunction
+      ) => {
+        res.status(err.status || 500).json({ message: err.message });
+      }
+    );
+
+    server = app.listen(0, '127.0.0.1');
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('rejects the Jellyfin sign-in on an Emby server', async () => {
+    configure(MediaServerType.EMBY);
+
+    assert.deepEqual(await signIn('/auth/jellyfin', { username: 'admin' }), {
+      status: 500,
+      error: 'Jellyfin login is disabled',
+    });
+  });
+
+  it('rejects the Emby sign-in on a Jellyfin server', async () => {
+    configure(MediaServerType.JELLYFIN);
+
+    assert.deepEqual(await signIn('/auth/emby', { username: 'admin' }), {
+      status: 500,
+      error: 'Emby login is disabled',
+    });
+  });
+
+  it('accepts the sign-in of the configured server type', async () => {
+    configure(MediaServerType.EMBY);
+
+    // Stops at the missing username, after the server type was accepted
+    assert.deepEqual(await signIn('/auth/emby'), {
+      status: 500,
+      error: 'You must provide an username',
+    });
+  });
+});
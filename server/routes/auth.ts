@@ -1,4 +1,3 @@
-import JellyfinAPI from '@server/api/jellyfin';
 import PlexTvAPI from '@server/api/plextv';
 import { ApiErrorCode } from '@server/constants/error';
 import { MediaServerType, ServerType } from '@server/constants/server';
@@ -6,17 +5,33 @@ import { UserType } from '@server/constants/user';
 import { getRepository } from '@server/datasource';
 import { User } from '@server/entity/User';
 import { startJobs } from '@server/job/schedule';
+import {
+  completeAuthorization,
+  createAuthorizationUrl,
+  getMappedPermissions,
+} from '@server/lib/oidc';
 import { Permission } from '@server/lib/permissions';
 import { getSettings } from '@server/lib/settings';
+import {
+  consumeRecoveryCode,
+  consumeTotpCode,
+  generateRecoveryCodes,
+  generateTwoFactorSecret,
+  getOtpAuthUrl,
+  isTwoFactorRequired,
+} from '@server/lib/twoFactor';
 import logger from '@server/logger';
 import { isAuthenticated } from '@server/middleware/auth';
 import { checkAvatarChanged } from '@server/routes/avatarproxy';
 import { ApiError } from '@server/types/error';
 import { getAppVersion } from '@server/utils/appVersion';
 import { getHostname } from '@server/utils/getHostname';
+import { getJellyfinClient } from '@server/utils/getJellyfinClient';
 import axios from 'axios';
 import * as EmailValidator from 'email-validator';
+import type { NextFunction, Request, Response } from 'express';
 import { Router } from 'express';
+import gravatarUrl from 'gravatar-url';
 import net from 'net';
 
 const authRoutes = Router();
@@ -43,7 +58,7 @@ authRoutes.get('/me', isAuthenticated(), async (req, res) => {
     logger.warn(`User ${user.username} has no valid email address`);
   }
 
-  return res.status(200).json(user);
+  return res.status(200).json(user.filter(true));
 });
 
 authRoutes.post('/plex', async (req, res, next) => {
@@ -61,7 +76,7 @@ authRoutes.post('/plex', async (req, res, next) => {
   if (
     settings.main.mediaServerType != MediaServerType.NOT_CONFIGURED &&
     (settings.main.mediaServerLogin === false ||
-      settings.main.mediaServerType != MediaServerType.PLEX)
+      !settings.isMediaServerEnabled(MediaServerType.PLEX))
   ) {
     return res.status(500).json({ error: 'Plex login is disabled' });
   }
@@ -223,8 +238,19 @@ function getUserAvatarUrl(user: User): string {
   return `/avatarproxy/${user.jellyfinUserId}?v=${user.avatarVersion}`;
 }
 
-authRoutes.post('/jellyfin', async (req, res, next) => {
+/**
+ * Signs in with an account of the Jellyfin or Emby server. Until a media
+ * server is configured, this also sets up the server of the route's type.
+ */
+const mediaServerLogin = async (
+  serverType: MediaServerType.JELLYFIN | MediaServerType.EMBY,
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
   const settings = getSettings();
+  const serverName =
+    serverType === MediaServerType.EMBY ? ServerType.EMBY : ServerType.JELLYFIN;
   const userRepository = getRepository(User);
   const body = req.body as {
     username?: string;
@@ -234,20 +260,18 @@ authRoutes.post('/jellyfin', async (req, res, next) => {
     urlBase?: string;
     useSsl?: boolean;
     email?: string;
-    serverType?: number;
   };
 
-  //Make sure jellyfin login is enabled, but only if jellyfin && Emby is not already configured
+  //Make sure the login is enabled, but only if the media server is already configured
   if (
     // media server not configured, allow login for setup
     settings.main.mediaServerType != MediaServerType.NOT_CONFIGURED &&
     (settings.main.mediaServerLogin === false ||
-      // media server is neither jellyfin or emby
-      (settings.main.mediaServerType !== MediaServerType.JELLYFIN &&
-        settings.main.mediaServerType !== MediaServerType.EMBY &&
+      // the configured media server is of another type
+      (!settings.isMediaServerEnabled(serverType) &&
         settings.jellyfin.ip !== ''))
   ) {
-    return res.status(500).json({ error: 'Jellyfin login is disabled' });
+    return res.status(500).json({ error: `${serverName} login is disabled` });
   }
 
   if (!body.username) {
@@ -290,7 +314,12 @@ authRoutes.post('/jellyfin', async (req, res, next) => {
     }
 
     // First we need to attempt to log the user in to jellyfin
-    const jellyfinserver = new JellyfinAPI(hostname ?? '', undefined, deviceId);
+    const jellyfinserver = getJellyfinClient(
+      hostname ?? '',
+      undefined,
+      deviceId,
+      serverType
+    );
 
     const ip = req.ip;
     let clientIp;
@@ -324,13 +353,7 @@ authRoutes.post('/jellyfin', async (req, res, next) => {
         throw new ApiError(403, ApiErrorCode.NotAdmin);
       }
 
-      if (
-        body.serverType !== MediaServerType.JELLYFIN &&
-        body.serverType !== MediaServerType.EMBY
-      ) {
-        throw new ApiError(500, ApiErrorCode.NoAdminUser);
-      }
-      settings.main.mediaServerType = body.serverType;
+      settings.main.mediaServerType = serverType;
 
       if (missingAdminUser) {
         logger.info(
@@ -354,7 +377,7 @@ authRoutes.post('/jellyfin', async (req, res, next) => {
           jellyfinAuthToken: account.AccessToken,
           permissions: Permission.ADMIN,
           userType:
-            body.serverType === MediaServerType.JELLYFIN
+            serverType === MediaServerType.JELLYFIN
               ? UserType.JELLYFIN
               : UserType.EMBY,
         });
@@ -387,7 +410,7 @@ authRoutes.post('/jellyfin', async (req, res, next) => {
         user.permissions = Permission.ADMIN;
         user.avatar = getUserAvatarUrl(user);
         user.userType =
-          body.serverType === MediaServerType.JELLYFIN
+          serverType === MediaServerType.JELLYFIN
             ? UserType.JELLYFIN
             : UserType.EMBY;
 
@@ -395,10 +418,11 @@ authRoutes.post('/jellyfin', async (req, res, next) => {
       }
 
       // Create an API key on Jellyfin from this admin user
-      const jellyfinClient = new JellyfinAPI(
+      const jellyfinClient = getJellyfinClient(
         hostname,
         account.AccessToken,
-        deviceId
+        deviceId,
+        serverType
       );
       const apiKey = await jellyfinClient.createApiToken('Jellyseerr');
 
@@ -417,15 +441,7 @@ authRoutes.post('/jellyfin', async (req, res, next) => {
     // User already exists, let's update their information
     else if (account.User.Id === user?.jellyfinUserId) {
       logger.info(
-        `Found matching ${
-          settings.main.mediaServerType === MediaServerType.JELLYFIN
-            ? ServerType.JELLYFIN
-            : ServerType.EMBY
-        } user; updating user with ${
-          settings.main.mediaServerType === MediaServerType.JELLYFIN
-            ? ServerType.JELLYFIN
-            : ServerType.EMBY
-        }`,
+        `Found matching ${serverName} user; updating user with ${serverName}`,
         {
           label: 'API',
           ip: req.ip,
@@ -471,9 +487,9 @@ authRoutes.post('/jellyfin', async (req, res, next) => {
         jellyfinDeviceId: deviceId,
         permissions: settings.main.defaultPermissions,
         userType:
-          settings.main.mediaServerType === MediaServerType.JELLYFIN
-            ? UserType.JELLYFIN
-            : UserType.EMBY,
+          serverType === MediaServerType.EMBY
+            ? UserType.EMBY
+            : UserType.JELLYFIN,
       });
       user.avatar = getUserAvatarUrl(user);
 
@@ -515,11 +531,7 @@ authRoutes.post('/jellyfin', async (req, res, next) => {
     switch (e.errorCode) {
       case ApiErrorCode.InvalidUrl:
         logger.error(
-          `The provided ${
-            settings.main.mediaServerType === MediaServerType.JELLYFIN
-              ? ServerType.JELLYFIN
-              : ServerType.EMBY
-          } is invalid or the server is not reachable.`,
+          `The provided ${serverName} is invalid or the server is not reachable.`,
           {
             label: 'Auth',
             error: e.errorCode,
@@ -570,22 +582,6 @@ authRoutes.post('/jellyfin', async (req, res, next) => {
           message: e.errorCode,
         });
 
-      case ApiErrorCode.NoAdminUser:
-        logger.warn(
-          'Failed login attempt from user without admin permissions and no admin user exists',
-          {
-            label: 'Auth',
-            account: {
-              ip: req.ip,
-              email: body.username,
-            },
-          }
-        );
-        return next({
-          status: e.statusCode,
-          message: e.errorCode,
-        });
-
       default:
         logger.error(e.message, { label: 'Auth' });
         return next({
@@ -594,7 +590,15 @@ authRoutes.post('/jellyfin', async (req, res, next) => {
         });
     }
   }
-});
+};
+
+authRoutes.post('/jellyfin', (req, res, next) =>
+  mediaServerLogin(MediaServerType.JELLYFIN, req, res, next)
+);
+
+authRoutes.post('/emby', (req, res, next) =>
+  mediaServerLogin(MediaServerType.EMBY, req, res, next)
+);
 
 authRoutes.post('/local', async (req, res, next) => {
   const settings = getSettings();
@@ -611,7 +615,15 @@ authRoutes.post('/local', async (req, res, next) => {
   try {
     const user = await userRepository
       .createQueryBuilder('user')
-      .select(['user.id', 'user.email', 'user.password', 'user.plexId'])
+      .select([
+        'user.id',
+        'user.email',
+        'user.password',
+        'user.plexId',
+        'user.permissions',
+        'user.twoFactorEnabled',
+      ])
+      .leftJoinAndSelect('user.groups', 'groups')
       .where('user.email = :email', { email: body.email.toLowerCase() })
       .getOne();
 
@@ -698,6 +710,22 @@ authRoutes.post('/local', async (req, res, next) => {
       });
     }
 
+    // Hold the session until the second factor has been verified
+    if (user.twoFactorEnabled || isTwoFactorRequired(user)) {
+      if (req.session) {
+        req.session.twoFactor = {
+          userId: user.id,
+          expiresAt: Date.now() + TWO_FACTOR_LOGIN_TIMEOUT,
+          attempts: 0,
+        };
+      }
+
+      return res.status(200).json({
+        twoFactorRequired: true,
+        twoFactorSetupRequired: !user.twoFactorEnabled,
+      });
+    }
+
     // Set logged in session
     if (user && req.session) {
       req.session.userId = user.id;
@@ -721,6 +749,370 @@ authRoutes.post('/local', async (req, res, next) => {
   }
 });
 
+// Time allowed to enter the second factor after a successful password check
+const TWO_FACTOR_LOGIN_TIMEOUT = 5 * 60 * 1000;
+const TWO_FACTOR_MAX_ATTEMPTS = 5;
+
+const getPendingTwoFactorUser = async (
+  req: Request
+): Promise<User | undefined> => {
+  const pending = req.session?.twoFactor;
+
+  if (!pending || pending.expiresAt < Date.now()) {
+    return undefined;
+  }
+
+  const user = await getRepository(User)
+    .createQueryBuilder('user')
+    .addSelect([
+      'user.twoFactorSecret',
+      'user.twoFactorRecoveryCodes',
+      'user.twoFactorLastUsedStep',
+    ])
+    .leftJoinAndSelect('user.groups', 'groups')
+    .where({ id: pending.userId })
+    .getOne();
+
+  return user ?? undefined;
+};
+
+authRoutes.post<never, { secret: string; otpauthUrl: string }>(
+  '/2fa/setup',
+  async (req, res, next) => {
+    const user = await getPendingTwoFactorUser(req);
+
+    if (!user || !req.session?.twoFactor) {
+      return next({ status: 401, message: ApiErrorCode.Unauthorized });
+    }
+
+    if (user.twoFactorEnabled) {
+      return next({
+        status: 400,
+        message: 'Two-factor authentication is already enabled.',
+      });
+    }
+
+    const secret = generateTwoFactorSecret();
+    req.session.twoFactor.setupSecret = secret;
+
+    return res
+      .status(200)
+      .json({ secret, otpauthUrl: getOtpAuthUrl(secret, user.email) });
+  }
+);
+
+authRoutes.post<never, unknown, { code?: string }>(
+  '/2fa/verify',
+  async (req, res, next) => {
+    const userRepository = getRepository(User);
+    const pending = req.session?.twoFactor;
+    const code = req.body.code?.trim() ?? '';
+
+    try {
+      const user = await getPendingTwoFactorUser(req);
+
+      if (!user || !pending || !req.session) {
+        throw new ApiError(401, ApiErrorCode.Unauthorized);
+      }
+
+      let recoveryCodes: string[] | undefined;
+
+      if (user.twoFactorEnabled && user.twoFactorSecret) {
+        if (!(await consumeTotpCode(user, user.twoFactorSecret, code))) {
+          const remainingCodes = consumeRecoveryCode(
+            user.twoFactorRecoveryCodes ?? [],
+            code
+          );
+
+          if (!remainingCodes) {
+            throw new ApiError(403, ApiErrorCode.InvalidTwoFactorCode);
+          }
+
+          user.twoFactorRecoveryCodes = remainingCodes;
+          await userRepository.save(user);
+
+          logger.info('User signed in using a two-factor recovery code', {
+            label: 'API',
+            ip: req.ip,
+            userId: user.id,
+            remainingCodes: remainingCodes.length,
+          });
+        }
+      } else {
+        // Enrolment enforced by the two-factor policy during sign-in
+        if (
+          !pending.setupSecret ||
+          !(await consumeTotpCode(user, pending.setupSecret, code))
+        ) {
+          throw new ApiError(403, ApiErrorCode.InvalidTwoFactorCode);
+        }
+
+        const generated = generateRecoveryCodes();
+        user.twoFactorEnabled = true;
+        user.twoFactorSecret = pending.setupSecret;
+        user.twoFactorRecoveryCodes = generated.hashes;
+        await userRepository.save(user);
+        recoveryCodes = generated.codes;
+
+        logger.info('User enabled two-factor authentication during sign-in', {
+          label: 'API',
+          ip: req.ip,
+          userId: user.id,
+        });
+      }
+
+      delete req.session.twoFactor;
+      req.session.userId = user.id;
+
+      // The secret and recovery code hashes were selected for verification
+      // and must never be sent to the client
+      const filteredUser = user.filter();
+      delete filteredUser.twoFactorSecret;
+      delete filteredUser.twoFactorRecoveryCodes;
+      delete filteredUser.twoFactorLastUsedStep;
+
+      return res.status(200).json({ ...filteredUser, recoveryCodes });
+    } catch (e) {
+      if (
+        e.errorCode === ApiErrorCode.InvalidTwoFactorCode &&
+        pending &&
+        req.session
+      ) {
+        pending.attempts += 1;
+
+        // Require the password again after too many failed attempts
+        if (pending.attempts >= TWO_FACTOR_MAX_ATTEMPTS) {
+          delete req.session.twoFactor;
+        }
+
+        logger.warn('Failed two-factor sign-in attempt', {
+          label: 'API',
+          ip: req.ip,
+          userId: pending.userId,
+          attempts: pending.attempts,
+        });
+      }
+
+      if (e instanceof ApiError) {
+        return next({ status: e.statusCode, message: e.errorCode });
+      }
+
+      logger.error('Something went wrong verifying two-factor sign-in', {
+        label: 'API',
+        errorMessage: e.message,
+        ip: req.ip,
+      });
+      return next({ status: 500, message: 'Unable to authenticate.' });
+    }
+  }
+);
+
+authRoutes.post('/oidc/login', async (req, res, next) => {
+  const settings = getSettings();
+
+  if (!settings.oidc.enabled) {
+    return res
+      .status(500)
+      .json({ error: 'OpenID Connect sign-in is disabled.' });
+  }
+
+  try {
+    const redirectUrl = await createAuthorizationUrl(req);
+
+    return res.status(200).json({ redirectUrl });
+  } catch (e) {
+    logger.error('Something went wrong preparing OpenID Connect sign-in', {
+      label: 'API',
+      errorMessage: e.message,
+      ip: req.ip,
+    });
+    return next({
+      status: 500,
+      message: 'Unable to reach the OpenID Connect provider.',
+    });
+  }
+});
+
+authRoutes.get('/oidc/callback', async (req, res) => {
+  const settings = getSettings();
+  const userRepository = getRepository(User);
+  const returnPath = req.session?.oidc?.linkUserId
+    ? '/profile/settings/linked-accounts'
+    : '/login';
+
+  if (!settings.oidc.enabled) {
+    return res.redirect(`${returnPath}?oidcError=${ApiErrorCode.Unauthorized}`);
+  }
+
+  try {
+    const { claims, linkUserId } = await completeAuthorization(req);
+    const oidcUsername = claims.preferred_username ?? claims.name ?? null;
+
+    let user = await userRepository.findOne({
+      where: { oidcSubject: claims.sub },
+    });
+
+    if (linkUserId) {
+      if (user && user.id !== linkUserId) {
+        throw new ApiError(422, ApiErrorCode.OidcAccountAlreadyLinked);
+      }
+
+      const linkUser = await userRepository.findOneOrFail({
+        where: { id: linkUserId },
+      });
+      linkUser.oidcSubject = claims.sub;
+      linkUser.oidcUsername = oidcUsername;
+      await userRepository.save(linkUser);
+
+      logger.info('Linked OpenID Connect account to user', {
+        label: 'API',
+        ip: req.ip,
+        userId: linkUser.id,
+        oidcUsername,
+      });
+
+      return res.redirect(returnPath);
+    }
+
+    if (
+      !user &&
+      settings.oidc.linkByEmail &&
+      claims.email &&
+      claims.email_verified === true
+    ) {
+      user = await userRepository.findOne({
+        where: { email: claims.email.toLowerCase() },
+      });
+
+      if (user?.oidcSubject) {
+        throw new ApiError(422, ApiErrorCode.OidcAccountAlreadyLinked);
+      }
+
+      // Linking by email would save the link before the second factor is
+      // verified, so users who use two-factor authentication have to link
+      // from their profile
+      if (user && (user.twoFactorEnabled || isTwoFactorRequired(user))) {
+        logger.warn(
+          'Refused to link OpenID Connect account to a user with two-factor authentication',
+          {
+            label: 'API',
+            ip: req.ip,
+            userId: user.id,
+            oidcUsername,
+          }
+        );
+        throw new ApiError(409, ApiErrorCode.OidcTwoFactorLinkRefused);
+      }
+
+      if (user) {
+        logger.info(
+          'Found matching user by email; linking OpenID Connect account',
+          {
+            label: 'API',
+            ip: req.ip,
+            email: user.email,
+            userId: user.id,
+            oidcUsername,
+          }
+        );
+        user.oidcSubject = claims.sub;
+      }
+    }
+
+    const mappedPermissions = getMappedPermissions(claims, settings.oidc);
+
+    if (!user) {
+      if (!settings.oidc.newUserLogin) {
+        logger.warn(
+          'Failed sign-in attempt by unknown OpenID Connect account',
+          {
+            label: 'API',
+            ip: req.ip,
+            email: claims.email,
+            oidcUsername,
+          }
+        );
+        throw new ApiError(403, ApiErrorCode.Unauthorized);
+      }
+
+      if (!claims.email) {
+        throw new ApiError(400, ApiErrorCode.OidcMissingEmail);
+      }
+
+      if (
+        await userRepository.exist({
+          where: { email: claims.email.toLowerCase() },
+        })
+      ) {
+        throw new ApiError(409, ApiErrorCode.OidcEmailInUse);
+      }
+
+      logger.info(
+        'Sign-in attempt from new OpenID Connect account; creating new Jellyseerr user',
+        {
+          label: 'API',
+          ip: req.ip,
+          email: claims.email,
+          oidcUsername,
+        }
+      );
+
+      user = new User({
+        email: claims.email,
+        username: oidcUsername ?? undefined,
+        oidcSubject: claims.sub,
+        oidcUsername,
+        permissions: mappedPermissions ?? settings.main.defaultPermissions,
+        avatar:
+          claims.picture ??
+          gravatarUrl(claims.email, { default: 'mm', size: 200 }),
+        userType: UserType.LOCAL,
+      });
+    } else {
+      // The mapped permissions are only granted to new users, so that the
+      // permissions of existing users are managed in Jellyseerr
+      user.oidcUsername = oidcUsername;
+    }
+
+    await userRepository.save(user);
+
+    // Hold the session until the second factor has been verified
+    if (user.twoFactorEnabled || isTwoFactorRequired(user)) {
+      if (req.session) {
+        req.session.twoFactor = {
+          userId: user.id,
+          expiresAt: Date.now() + TWO_FACTOR_LOGIN_TIMEOUT,
+          attempts: 0,
+        };
+      }
+
+      return res.redirect(
+        `/login?twoFactor=${user.twoFactorEnabled ? 'verify' : 'setup'}`
+      );
+    }
+
+    // Set logged in session
+    if (req.session) {
+      req.session.userId = user.id;
+    }
+
+    return res.redirect('/');
+  } catch (e) {
+    logger.error('Something went wrong authenticating with OpenID Connect', {
+      label: 'API',
+      errorMessage: e.message || e.errorCode,
+      ip: req.ip,
+    });
+    return res.redirect(
+      `${returnPath}?oidcError=${
+        e instanceof ApiError
+          ? e.errorCode
+          : ApiErrorCode.OidcAuthorizationFailed
+      }`
+    );
+  }
+});
+
 authRoutes.post('/logout', async (req, res, next) => {
   try {
     const userId = req.session?.userId;
@@ -730,8 +1122,8 @@ authRoutes.post('/logout', async (req, res, next) => {
 
     const settings = getSettings();
     const isJellyfinOrEmby =
-      settings.main.mediaServerType === MediaServerType.JELLYFIN ||
-      settings.main.mediaServerType === MediaServerType.EMBY;
+      settings.isMediaServerEnabled(MediaServerType.JELLYFIN) ||
+      settings.isMediaServerEnabled(MediaServerType.EMBY);
 
     if (isJellyfinOrEmby) {
       const user = await getRepository(User)
@@ -36,7 +36,7 @@ async function initAvatarImageProxy() {
 
 function getJellyfinAvatarUrl(userId: string) {
   const settings = getSettings();
-  return settings.main.mediaServerType === MediaServerType.JELLYFIN
+  return settings.isMediaServerEnabled(MediaServerType.JELLYFIN)
     ? `${getHostname()}/UserImage?UserId=${userId}`
     : `${getHostname()}/Users/${userId}/Images/Primary?quality=90`;
 }
@@ -67,12 +67,12 @@ export async function checkAvatarChanged(
 
     const settings = getSettings();
     let remoteVersion: string;
-    if (settings.main.mediaServerType === MediaServerType.JELLYFIN) {
+    if (settings.isMediaServerEnabled(MediaServerType.JELLYFIN)) {
       const remoteLastModifiedStr = headResponse.headers['last-modified'] || '';
       remoteVersion = (
         Date.parse(remoteLastModifiedStr) || Date.now()
       ).toString();
-    } else if (settings.main.mediaServerType === MediaServerType.EMBY) {
+    } else if (settings.isMediaServerEnabled(MediaServerType.EMBY)) {
       remoteVersion =
         headResponse.headers['etag']?.replace(/"/g, '') ||
         Date.now().toString();
@@ -114,10 +114,9 @@ export async function checkAvatarChanged(
 router.get('/:jellyfinUserId', async (req, res) => {
   try {
     if (!req.params.jellyfinUserId.match(/^[a-f0-9]{32}$/)) {
-      const mediaServerType = getSettings().main.mediaServerType;
       throw new Error(
         `Provided URL is not ${
-          mediaServerType === MediaServerType.JELLYFIN
+          getSettings().isMediaServerEnabled(MediaServerType.JELLYFIN)
             ? 'a Jellyfin'
             : 'an Emby'
         } avatar.`
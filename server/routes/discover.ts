@@ -16,6 +16,7 @@ import type {
   GenreSliderItem,
   WatchlistResponse,
 } from '@server/interfaces/api/discoverInterfaces';
+import { getDoubanMappings, getDoubanRating } from '@server/lib/doubanMapping';
 import { getSettings } from '@server/lib/settings';
 import logger from '@server/logger';
 import { mapProductionCompany } from '@server/models/Movie';
@@ -149,14 +150,9 @@ discoverRoutes.get('/movies', async (req, res, next) => {
       );
     }
 
-    const ratings = await Promise.all(
-      data.results.map(async (result) => {
-        try {
-          return await new DoubanAPI().getRating(result.id, 'movie');
-        } catch (e) {
-          return undefined;
-        }
-      })
+    const doubanMappings = await getDoubanMappings(
+      data.results.map((result) => result.id),
+      MediaType.MOVIE
     );
 
     return res.status(200).json({
@@ -164,8 +160,8 @@ discoverRoutes.get('/movies', async (req, res, next) => {
       totalPages: data.total_pages,
       totalResults: data.total_results,
       keywords: keywordData,
-      results: data.results.map((result, index) => {
-        const douban = ratings[index];
+      results: data.results.map((result) => {
+        const douban = getDoubanRating(doubanMappings.get(result.id));
         if (douban && isMovie(result)) {
           result.doubanRating = douban.rating;
           result.doubanId = douban.id;
@@ -455,14 +451,9 @@ discoverRoutes.get('/tv', async (req, res, next) => {
       );
     }
 
-    const ratings = await Promise.all(
-      data.results.map(async (result) => {
-        try {
-          return await new DoubanAPI().getRating(result.id, 'tv');
-        } catch (e) {
-          return undefined;
-        }
-      })
+    const doubanMappings = await getDoubanMappings(
+      data.results.map((result) => result.id),
+      MediaType.TV
     );
 
     return res.status(200).json({
@@ -470,8 +461,8 @@ discoverRoutes.get('/tv', async (req, res, next) => {
       totalPages: data.total_pages,
       totalResults: data.total_results,
       keywords: keywordData,
-      results: data.results.map((result, index) => {
-        const douban = ratings[index];
+      results: data.results.map((result) => {
+        const douban = getDoubanRating(doubanMappings.get(result.id));
         if (douban && isTvShow(result)) {
           result.doubanRating = douban.rating;
           result.doubanId = douban.id;
@@ -718,25 +709,29 @@ discoverRoutes.get('/trending', async (req, res, next) => {
       data.results.map((result) => result.id)
     );
 
-    const ratings = await Promise.all(
-      data.results.map(async (result) => {
-        try {
-          return await new DoubanAPI().getRating(
-            result.id,
-            isMovie(result) ? 'movie' : 'tv'
-          );
-        } catch (e) {
-          return undefined;
-        }
-      })
-    );
+    const [movieDoubanMappings, tvDoubanMappings] = await Promise.all([
+      getDoubanMappings(
+        data.results.filter(isMovie).map((result) => result.id),
+        MediaType.MOVIE
+      ),
+      getDoubanMappings(
+        data.results.filter(isTvShow).map((result) => result.id),
+        MediaType.TV
+      ),
+    ]);
 
     return res.status(200).json({
       page: data.page,
       totalPages: data.total_pages,
       totalResults: data.total_results,
-      results: data.results.map((result, index) => {
-        const douban = ratings[index];
+      results: data.results.map((result) => {
+        const douban = getDoubanRating(
+          isMovie(result)
+            ? movieDoubanMappings.get(result.id)
+            : isTvShow(result)
+            ? tvDoubanMappings.get(result.id)
+            : undefined
+        );
         if (douban && (isMovie(result) || isTvShow(result))) {
           (result as TmdbMovieResult | TmdbTvResult).doubanRating =
             douban.rating;
@@ -0,0 +1,74 @@
+import type { User } from '@server/entity/User';
+import type { ServerEvent } from '@server/interfaces/api/eventInterfaces';
+import { subscribeToEvents } from '@server/lib/events';
+import { Permission } from '@server/lib/permissions';
+import logger from '@server/logger';
+import { Router } from 'express';
+
+const HEARTBEAT_INTERVAL = 30000;
+const RECONNECT_DELAY = 5000;
+
+const eventRoutes = Router();
+
+const canReceiveEvent = (user: User, event: ServerEvent): boolean => {
+  switch (event.type) {
+    case 'request':
+      return (
+        event.data.requestedById === user.id ||
+        user.hasPermission(
+          [Permission.MANAGE_REQUESTS, Permission.REQUEST_VIEW],
+          { type: 'or' }
+        )
+      );
+    case 'scan':
+    case 'jobs':
+      return user.hasPermission(Permission.ADMIN);
+    case 'notification':
+      return event.data.userId === user.id;
+    default:
+      return true;
+  }
+};
+
+eventRoutes.get('/', (req, res) => {
+  const user = req.user as User;
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    // Stops reverse proxies such as nginx from buffering the stream
+    'X-Accel-Buffering': 'no',
+  });
+  res.write(`retry: ${RECONNECT_DELAY}\n\n`);
+
+  const unsubscribe = subscribeToEvents((event) => {
+    if (!canReceiveEvent(user, event)) {
+      return;
+    }
+
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+  });
+
+  // Comments keep idle connections from being closed by proxies
+  const heartbeat = setInterval(() => {
+    res.write(': heartbeat\n\n');
+  }, HEARTBEAT_INTERVAL);
+
+  logger.debug('Event stream opened', {
+    label: 'Events',
+    userId: user.id,
+  });
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+
+    logger.debug('Event stream closed', {
+      label: 'Events',
+      userId: user.id,
+    });
+  });
+});
+
+export default eventRoutes;
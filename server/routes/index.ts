@@ -15,6 +15,7 @@ import { checkUser, isAuthenticated } from '@server/middleware/auth';
 import { mapWatchProviderDetails } from '@server/models/common';
 import { mapProductionCompany } from '@server/models/Movie';
 import { mapNetwork } from '@server/models/Tv';
+import approvalRuleRoutes from '@server/routes/approvalRule';
 import overrideRuleRoutes from '@server/routes/overrideRule';
 import settingsRoutes from '@server/routes/settings';
 import watchlistRoutes from '@server/routes/watchlist';
@@ -31,16 +32,20 @@ import authRoutes from './auth';
 import blacklistRoutes from './blacklist';
 import collectionRoutes from './collection';
 import discoverRoutes, { createTmdbWithRegionLanguage } from './discover';
+import eventRoutes from './events';
+import inviteRoutes from './invite';
 import issueRoutes from './issue';
 import issueCommentRoutes from './issueComment';
 import mediaRoutes from './media';
 import movieRoutes from './movie';
 import personRoutes from './person';
+import registrationRoutes from './registration';
 import requestRoutes from './request';
 import searchRoutes from './search';
 import serviceRoutes from './service';
 import tvRoutes from './tv';
 import user from './user';
+import userGroupRoutes from './userGroup';
 
 const router = Router();
 
@@ -160,12 +165,25 @@ router.use('/collection', isAuthenticated(), collectionRoutes);
 router.use('/service', isAuthenticated(), serviceRoutes);
 router.use('/issue', isAuthenticated(), issueRoutes);
 router.use('/issueComment', isAuthenticated(), issueCommentRoutes);
+router.use('/events', isAuthenticated(), eventRoutes);
 router.use('/auth', authRoutes);
+router.use('/registration', registrationRoutes);
 router.use(
   '/overrideRule',
   isAuthenticated(Permission.ADMIN),
   overrideRuleRoutes
 );
+router.use(
+  '/approvalRule',
+  isAuthenticated(Permission.ADMIN),
+  approvalRuleRoutes
+);
+router.use(
+  '/userGroup',
+  isAuthenticated(Permission.MANAGE_USERS),
+  userGroupRoutes
+);
+router.use('/invite', isAuthenticated(Permission.MANAGE_USERS), inviteRoutes);
 
 router.get('/regions', isAuthenticated(), async (req, res, next) => {
   const tmdb = new TheMovieDb();
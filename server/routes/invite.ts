@@ -0,0 +1,159 @@
+import { getRepository } from '@server/datasource';
+import Invite from '@server/entity/Invite';
+import UserGroup from '@server/entity/UserGroup';
+import type {
+  InviteBody,
+  InviteResultsResponse,
+} from '@server/interfaces/api/inviteInterfaces';
+import { canMakePermissionsChange } from '@server/routes/user';
+import type { Request } from 'express';
+import { Router } from 'express';
+import { Not } from 'typeorm';
+
+const inviteRoutes = Router();
+
+const INVITE_CODE_REGEX = /^[\w-]{4,64}$/;
+
+/**
+ * Applies the request body to the invite. Returns an error which can be passed
+ * on to the error handler when the body is invalid.
+ */
+const applyInviteBody = async (
+  invite: Invite,
+  body: InviteBody,
+  req: Request
+): Promise<{ status: number; message: string } | undefined> => {
+  const code = body.code?.trim() || invite.code || Invite.generateCode();
+
+  if (
+    !INVITE_CODE_REGEX.test(code) ||
+    (body.maxUses !== undefined && body.maxUses !== null && body.maxUses < 1) ||
+    (body.expiresAt && isNaN(new Date(body.expiresAt).getTime()))
+  ) {
+    return { status: 400, message: 'Invalid invite.' };
+  }
+
+  const existing = await getRepository(Invite).findOne({
+    where: { code, ...(invite.id ? { id: Not(invite.id) } : {}) },
+  });
+
+  if (existing) {
+    return { status: 409, message: 'An invite with this code already exists.' };
+  }
+
+  const group = body.groupId
+    ? await getRepository(UserGroup).findOne({ where: { id: body.groupId } })
+    : null;
+
+  if (body.groupId && !group) {
+    return { status: 404, message: 'User group not found.' };
+  }
+
+  // Only the owner can invite users with admin privileges
+  if (
+    !canMakePermissionsChange(body.permissions ?? 0, req.user) ||
+    (group && !canMakePermissionsChange(group.permissions, req.user))
+  ) {
+    return {
+      status: 403,
+      message: 'You do not have permission to grant this level of access',
+    };
+  }
+
+  Object.assign(invite, {
+    code,
+    maxUses: body.maxUses ?? null,
+    expiresAt: body.expiresAt ? new Date(body.expiresAt) : null,
+    permissions: body.permissions ?? null,
+    group,
+    createJellyfinUser: body.createJellyfinUser ?? false,
+  });
+};
+
+inviteRoutes.get('/', async (_req, res, next) => {
+  try {
+    const invites = await getRepository(Invite).find({
+      order: { createdAt: 'DESC' },
+    });
+
+    return res.status(200).json(invites as InviteResultsResponse);
+  } catch (e) {
+    next({ status: 500, message: e.message });
+  }
+});
+
+inviteRoutes.post<Record<string, string>, Invite, InviteBody>(
+  '/',
+  async (req, res, next) => {
+    const inviteRepository = getRepository(Invite);
+
+    try {
+      const invite = new Invite({ createdBy: req.user });
+      const error = await applyInviteBody(invite, req.body, req);
+
+      if (error) {
+        return next(error);
+      }
+
+      const newInvite = await inviteRepository.save(invite);
+
+      return res.status(200).json(newInvite);
+    } catch (e) {
+      next({ status: 500, message: e.message });
+    }
+  }
+);
+
+inviteRoutes.put<{ inviteId: string }, Invite, InviteBody>(
+  '/:inviteId',
+  async (req, res, next) => {
+    const inviteRepository = getRepository(Invite);
+
+    try {
+      const invite = await inviteRepository.findOne({
+        where: { id: Number(req.params.inviteId) },
+      });
+
+      if (!invite) {
+        return next({ status: 404, message: 'Invite not found.' });
+      }
+
+      const error = await applyInviteBody(invite, req.body, req);
+
+      if (error) {
+        return next(error);
+      }
+
+      const newInvite = await inviteRepository.save(invite);
+
+      return res.status(200).json(newInvite);
+    } catch (e) {
+      next({ status: 500, message: e.message });
+    }
+  }
+);
+
+inviteRoutes.delete<{ inviteId: string }, Invite>(
+  '/:inviteId',
+  async (req, res, next) => {
+    const inviteRepository = getRepository(Invite);
+
+    try {
+      const invite = await inviteRepository.findOne({
+        where: { id: Number(req.params.inviteId) },
+      });
+
+      if (!invite) {
+        return next({ status: 404, message: 'Invite not found.' });
+      }
+
+      await inviteRepository.remove(invite);
+
+      return res.status(200).json(invite);
+    } catch (e) {
+      next({ status: 500, message: e.message });
+    }
+  }
+);
+
+export default inviteRoutes;
@@ -4,6 +4,7 @@ import TautulliAPI from '@server/api/tautulli';
 import TheMovieDb from '@server/api/themoviedb';
 import { MediaStatus, MediaType } from '@server/constants/media';
 import { getRepository } from '@server/datasource';
+import type DoubanMapping from '@server/entity/DoubanMapping';
 import Media from '@server/entity/Media';
 import Season from '@server/entity/Season';
 import { User } from '@server/entity/User';
@@ -11,6 +12,7 @@ import type {
   MediaResultsResponse,
   MediaWatchDataResponse,
 } from '@server/interfaces/api/mediaInterfaces';
+import { getDoubanMapping, setDoubanOverride } from '@server/lib/doubanMapping';
 import { Permission } from '@server/lib/permissions';
 import { getSettings } from '@server/lib/settings';
 import logger from '@server/logger';
@@ -285,6 +287,60 @@ mediaRoutes.delete(
   }
 );
 
+mediaRoutes.get(
+  '/:id/douban',
+  isAuthenticated(Permission.MANAGE_REQUESTS),
+  async (req, res, next) => {
+    try {
+      const media = await getRepository(Media).findOneOrFail({
+        where: { id: Number(req.params.id) },
+      });
+
+      const mapping = await getDoubanMapping(media.tmdbId, media.mediaType);
+
+      if (!mapping) {
+        return next({ status: 404, message: 'Douban mapping not found.' });
+      }
+
+      return res.status(200).json(mapping);
+    } catch (e) {
+      next({ status: 404, message: 'Media not found' });
+    }
+  }
+);
+
+mediaRoutes.put<{ id: string }, DoubanMapping, { doubanId?: string | null }>(
+  '/:id/douban',
+  isAuthenticated(Permission.MANAGE_REQUESTS),
+  async (req, res, next) => {
+    const doubanId = req.body.doubanId?.trim();
+
+    if (doubanId && !/^\d+$/.test(doubanId)) {
+      return next({ status: 400, message: 'Invalid Douban ID.' });
+    }
+
+    try {
+      const media = await getRepository(Media).findOneOrFail({
+        where: { id: Number(req.params.id) },
+      });
+
+      const mapping = await setDoubanOverride(
+        media.tmdbId,
+        media.mediaType,
+        doubanId || undefined
+      );
+
+      return res.status(200).json(mapping);
+    } catch (e) {
+      logger.error('Something went wrong overriding the Douban mapping', {
+        label: 'Media',
+        message: e.message,
+      });
+      next({ status: 404, message: 'Media not found' });
+    }
+  }
+);
+
 mediaRoutes.get<{ id: string }, MediaWatchDataResponse>(
   '/:id/watch_data',
   isAuthenticated(Permission.ADMIN),
@@ -1,6 +1,16 @@
+import TheMovieDb from '@server/api/themoviedb';
+import { MediaType } from '@server/constants/media';
 import { getRepository } from '@server/datasource';
 import OverrideRule from '@server/entity/OverrideRule';
-import type { OverrideRuleResultsResponse } from '@server/interfaces/api/overrideRuleInterfaces';
+import type {
+  OverrideRuleRequestBody,
+  OverrideRuleResultsResponse,
+  OverrideRuleTestResponse,
+} from '@server/interfaces/api/overrideRuleInterfaces';
+import {
+  getAppliedOverrides,
+  sortOverrideRules,
+} from '@server/lib/overrideRules';
 import { Permission } from '@server/lib/permissions';
 import { isAuthenticated } from '@server/middleware/auth';
 import { Router } from 'express';
@@ -16,7 +26,9 @@ overrideRuleRoutes.get(
     try {
       const rules = await overrideRuleRepository.find({});
 
-      return res.status(200).json(rules as OverrideRuleResultsResponse);
+      return res
+        .status(200)
+        .json(sortOverrideRules(rules) as OverrideRuleResultsResponse);
     } catch (e) {
       next({ status: 404, message: e.message });
     }
@@ -26,31 +38,39 @@ overrideRuleRoutes.get(
 overrideRuleRoutes.post<
   Record<string, string>,
   OverrideRule,
-  {
-    users?: string;
-    genre?: string;
-    language?: string;
-    keywords?: string;
-    profileId?: number;
-    rootFolder?: string;
-    tags?: string;
-    radarrServiceId?: number;
-    sonarrServiceId?: number;
-  }
+  OverrideRuleRequestBody
 >('/', isAuthenticated(Permission.ADMIN), async (req, res, next) => {
   const overrideRuleRepository = getRepository(OverrideRule);
 
   try {
+    const lastRule = await overrideRuleRepository.findOne({
+      where: {},
+      order: { priority: 'DESC' },
+    });
+
     const rule = new OverrideRule({
       users: req.body.users,
       genre: req.body.genre,
       language: req.body.language,
       keywords: req.body.keywords,
+      yearFrom: req.body.yearFrom,
+      yearTo: req.body.yearTo,
+      runtimeMin: req.body.runtimeMin,
+      runtimeMax: req.body.runtimeMax,
+      certifications: req.body.certifications,
+      originCountries: req.body.originCountries,
+      networks: req.body.networks,
+      studios: req.body.studios,
+      is4k: req.body.is4k,
+      isAnime: req.body.isAnime,
       profileId: req.body.profileId,
       rootFolder: req.body.rootFolder,
       tags: req.body.tags,
       radarrServiceId: req.body.radarrServiceId,
       sonarrServiceId: req.body.sonarrServiceId,
+      // New rules are evaluated after the existing ones
+      priority: lastRule ? lastRule.priority + 1 : 0,
+      stopProcessing: req.body.stopProcessing ?? false,
     });
 
     const newRule = await overrideRuleRepository.save(rule);
@@ -61,20 +81,65 @@ overrideRuleRoutes.post<
   }
 });
 
+overrideRuleRoutes.post<
+  Record<string, string>,
+  OverrideRuleTestResponse,
+  { tmdbId: number; mediaType: MediaType; is4k?: boolean; userId?: number }
+>('/test', isAuthenticated(Permission.ADMIN), async (req, res, next) => {
+  const tmdb = new TheMovieDb();
+
+  try {
+    const tmdbMedia =
+      req.body.mediaType === MediaType.MOVIE
+        ? await tmdb.getMovie({ movieId: Number(req.body.tmdbId) })
+        : await tmdb.getTvShow({ tvId: Number(req.body.tmdbId) });
+
+    const overrides = await getAppliedOverrides({
+      tmdbMedia,
+      mediaType: req.body.mediaType,
+      is4k: req.body.is4k ?? false,
+      userId: Number(req.body.userId ?? req.user?.id),
+    });
+
+    return res.status(200).json(overrides);
+  } catch (e) {
+    next({ status: 500, message: e.message });
+  }
+});
+
+overrideRuleRoutes.post<
+  Record<string, string>,
+  OverrideRuleResultsResponse,
+  { ruleIds: number[] }
+>('/order', isAuthenticated(Permission.ADMIN), async (req, res, next) => {
+  const overrideRuleRepository = getRepository(OverrideRule);
+
+  try {
+    const rules = await overrideRuleRepository.find({});
+
+    if (!Array.isArray(req.body.ruleIds)) {
+      return next({ status: 400, message: 'A list of rule IDs is required.' });
+    }
+
+    rules.forEach((rule) => {
+      const index = req.body.ruleIds.indexOf(rule.id);
+
+      // Rules which are missing from the list keep their place at the end
+      rule.priority = index >= 0 ? index : req.body.ruleIds.length;
+    });
+
+    await overrideRuleRepository.save(rules);
+
+    return res.status(200).json(sortOverrideRules(rules));
+  } catch (e) {
+    next({ status: 500, message: e.message });
+  }
+});
+
 overrideRuleRoutes.put<
   { ruleId: string },
   OverrideRule,
-  {
-    users?: string;
-    genre?: string;
-    language?: string;
-    keywords?: string;
-    profileId?: number;
-    rootFolder?: string;
-    tags?: string;
-    radarrServiceId?: number;
-    sonarrServiceId?: number;
-  }
+  OverrideRuleRequestBody
 >('/:ruleId', isAuthenticated(Permission.ADMIN), async (req, res, next) => {
   const overrideRuleRepository = getRepository(OverrideRule);
 
@@ -93,11 +158,22 @@ overrideRuleRoutes.put<
     rule.genre = req.body.genre;
     rule.language = req.body.language;
     rule.keywords = req.body.keywords;
+    rule.yearFrom = req.body.yearFrom;
+    rule.yearTo = req.body.yearTo;
+    rule.runtimeMin = req.body.runtimeMin;
+    rule.runtimeMax = req.body.runtimeMax;
+    rule.certifications = req.body.certifications;
+    rule.originCountries = req.body.originCountries;
+    rule.networks = req.body.networks;
+    rule.studios = req.body.studios;
+    rule.is4k = req.body.is4k;
+    rule.isAnime = req.body.isAnime;
     rule.profileId = req.body.profileId;
     rule.rootFolder = req.body.rootFolder;
     rule.tags = req.body.tags;
     rule.radarrServiceId = req.body.radarrServiceId;
     rule.sonarrServiceId = req.body.sonarrServiceId;
+    rule.stopProcessing = req.body.stopProcessing ?? false;
 
     const newRule = await overrideRuleRepository.save(rule);
 
@@ -0,0 +1,458 @@
+import type JellyfinAPI from '@server/api/jellyfin';
+import type { JellyfinUserResponse } from '@server/api/jellyfin';
+import { MediaServerType } from '@server/constants/server';
+import { AccountRequestStatus, UserType } from '@server/constants/user';
+import { getRepository } from '@server/datasource';
+import AccountRequest from '@server/entity/AccountRequest';
+import Invite from '@server/entity/Invite';
+import { User } from '@server/entity/User';
+import type {
+  AccountRequestBody,
+  AccountRequestResultsResponse,
+  InviteDetailsResponse,
+  RegistrationBody,
+  RegistrationResponse,
+} from '@server/interfaces/api/registrationInterfaces';
+import notificationManager, { Notification } from '@server/lib/notifications';
+import { Permission } from '@server/lib/permissions';
+import { getSettings } from '@server/lib/settings';
+import { isTwoFactorRequired } from '@server/lib/twoFactor';
+import logger from '@server/logger';
+import { isAuthenticated } from '@server/middleware/auth';
+import { applyGroupLibraryAccess } from '@server/routes/user/jellyfin';
+import { getHostname } from '@server/utils/getHostname';
+import { getJellyfinClient } from '@server/utils/getJellyfinClient';
+import * as EmailValidator from 'email-validator';
+import { Router } from 'express';
+import rateLimit from 'express-rate-limit';
+import gravatarUrl from 'gravatar-url';
+
+const registrationRoutes = Router();
+
+/**
+ * Claims a use of the invite with a single conditional update, so that
+ * concurrent sign-ups can't use it more often than allowed.
+ */
+const claimInviteUse = async (invite: Invite): Promise<boolean> => {
+  const { affected } = await getRepository(Invite)
+    .createQueryBuilder()
+    .update()
+    .set({ uses: () => '"uses" + 1' })
+    .where('"id" = :id', { id: invite.id })
+    .andWhere('("maxUses" IS NULL OR "uses" < "maxUses")')
+    .execute();
+
+  return !!affected;
+};
+
+const releaseInviteUse = async (invite: Invite): Promise<void> => {
+  await getRepository(Invite).decrement({ id: invite.id }, 'uses', 1);
+};
+
+const validateRegistration = (body: RegistrationBody): string | undefined => {
+  if (!body.email || !EmailValidator.validate(body.email)) {
+    return 'You must provide a valid email address.';
+  }
+
+  if (!body.password || body.password.length < 8) {
+    return 'Password must be at least 8 characters long.';
+  }
+};
+
+/**
+ * Checks whether the email address already belongs to a user, or to an account
+ * request which is still waiting for approval.
+ */
+const isEmailTaken = async (email: string): Promise<boolean> => {
+  const user = await getRepository(User)
+    .createQueryBuilder('user')
+    .where('user.email = :email', { email: email.toLowerCase() })
+    .getOne();
+
+  if (user) {
+    return true;
+  }
+
+  const accountRequest = await getRepository(AccountRequest)
+    .createQueryBuilder('accountRequest')
+    .where('LOWER(accountRequest.email) = :email', {
+      email: email.toLowerCase(),
+    })
+    .andWhere('accountRequest.status = :status', {
+      status: AccountRequestStatus.PENDING,
+    })
+    .getOne();
+
+  return !!accountRequest;
+};
+
+const sendSignupNotification = (
+  event: string,
+  username: string,
+  message: string,
+  extra: { name: string; value: string }[]
+): void => {
+  notificationManager.sendNotification(Notification.USER_SIGNUP, {
+    event,
+    subject: username,
+    message,
+    notifySystem: true,
+    notifyAdmin: true,
+    extra,
+  });
+};
+
+// Limits guessing invite codes and creating accounts or requests in bulk
+const registrationRateLimit = rateLimit({ windowMs: 15 * 60 * 1000, max: 20 });
+
+registrationRoutes.get<{ code: string }, InviteDetailsResponse>(
+  '/invite/:code',
+  registrationRateLimit,
+  async (req, res, next) => {
+    try {
+      const invite = await getRepository(Invite).findOne({
+        where: { code: req.params.code },
+      });
+
+      if (!invite || !invite.isValid()) {
+        return next({ status: 404, message: 'Invalid invite code.' });
+      }
+
+      return res.status(200).json({
+        code: invite.code,
+        expiresAt: invite.expiresAt,
+        createJellyfinUser: invite.createJellyfinUser,
+      });
+    } catch (e) {
+      next({ status: 500, message: e.message });
+    }
+  }
+);
+
+registrationRoutes.post<
+  { code: string },
+  RegistrationResponse,
+  RegistrationBody
+>('/invite/:code', registrationRateLimit, async (req, res, next) => {
+  const settings = getSettings();
+  const inviteRepository = getRepository(Invite);
+  const userRepository = getRepository(User);
+
+  try {
+    const invite = await inviteRepository.findOne({
+      where: { code: req.params.code },
+    });
+
+    if (!invite || !invite.isValid()) {
+      return next({ status: 404, message: 'Invalid invite code.' });
+    }
+
+    const validationError = validateRegistration(req.body);
+
+    if (validationError) {
+      return next({ status: 400, message: validationError });
+    }
+
+    // Users without a media server account can only sign in with a password
+    if (!settings.main.localLogin && !invite.createJellyfinUser) {
+      return next({ status: 403, message: 'Password sign-in is disabled.' });
+    }
+
+    if (invite.createJellyfinUser && !req.body.username) {
+      return next({
+        status: 400,
+        message: 'You must provide a username for the media server account.',
+      });
+    }
+
+    if (await isEmailTaken(req.body.email)) {
+      return next({
+        status: 409,
+        message: 'User already exists with submitted email.',
+        errors: ['USER_EXISTS'],
+      });
+    }
+
+    const user = new User({
+      email: req.body.email,
+      avatar: gravatarUrl(req.body.email, { default: 'mm', size: 200 }),
+      username: req.body.username,
+      permissions: invite.permissions ?? settings.main.defaultPermissions,
+      groups: invite.group ? [invite.group] : [],
+      plexToken: '',
+      userType: UserType.LOCAL,
+    });
+    await user.setPassword(req.body.password);
+
+    const isEmby = settings.isMediaServerEnabled(MediaServerType.EMBY);
+    let jellyfinClient: JellyfinAPI | undefined;
+
+    if (invite.createJellyfinUser) {
+      if (!isEmby && !settings.isMediaServerEnabled(MediaServerType.JELLYFIN)) {
+        return next({
+          status: 500,
+          message: 'No Jellyfin or Emby server is configured.',
+        });
+      }
+
+      const admin = await userRepository.findOneOrFail({
+        where: { id: 1 },
+        select: ['id', 'jellyfinDeviceId'],
+      });
+      jellyfinClient = getJellyfinClient(
+        getHostname(),
+        settings.jellyfin.apiKey,
+        admin.jellyfinDeviceId ?? ''
+      );
+    }
+
+    if (!(await claimInviteUse(invite))) {
+      return next({ status: 404, message: 'Invalid invite code.' });
+    }
+
+    let account: JellyfinUserResponse | undefined;
+
+    try {
+      if (jellyfinClient) {
+        try {
+          account = await jellyfinClient.createUser(
+            req.body.username ?? '',
+            req.body.password
+          );
+        } catch (e) {
+          await releaseInviteUse(invite);
+          return next({
+            status: 400,
+            message:
+              'Unable to create the media server account. The username may already be taken.',
+          });
+        }
+
+        await applyGroupLibraryAccess(user, jellyfinClient, account.Id);
+
+        Object.assign(user, {
+          jellyfinUserId: account.Id,
+          jellyfinUsername: account.Name,
+          jellyfinDeviceId: Buffer.from(
+            `BOT_jellyseerr_${account.Name}`
+          ).toString('base64'),
+          avatar: `/avatarproxy/${account.Id}`,
+          userType: isEmby ? UserType.EMBY : UserType.JELLYFIN,
+        });
+      }
+
+      await userRepository.save(user);
+    } catch (e) {
+      await releaseInviteUse(invite);
+
+      // Remove the media server account again, so that the user can try to
+      // sign up with the same username
+      if (jellyfinClient && account) {
+        try {
+          await jellyfinClient.deleteUser(account.Id);
+        } catch {
+          logger.warn(
+            'Failed to remove the media server account of a failed registration',
+            { label: 'API', jellyfinUserId: account.Id }
+          );
+        }
+      }
+
+      throw e;
+    }
+
+    logger.info('A new user registered with an invite', {
+      label: 'API',
+      ip: req.ip,
+      email: user.email,
+      inviteId: invite.id,
+    });
+
+    sendSignupNotification(
+      'New User Registered',
+      user.username || user.email,
+      `${user.username || user.email} signed up with an invite.`,
+      [
+        { name: 'Email', value: user.email },
+        { name: 'Invite Code', value: invite.code },
+      ]
+    );
+
+    // Users who have to set up two-factor authentication do so on sign-in
+    const signedIn = !isTwoFactorRequired(user) && !!req.session;
+
+    if (signedIn && req.session) {
+      req.session.userId = user.id;
+    }
+
+    return res.status(201).json({ user: user.filter(), signedIn });
+  } catch (e) {
+    next({ status: 500, message: e.message });
+  }
+});
+
+registrationRoutes.post<Record<string, string>, unknown, AccountRequestBody>(
+  '/request',
+  registrationRateLimit,
+  async (req, res, next) => {
+    const settings = getSettings();
+
+    if (!settings.main.accountRequestsEnabled || !settings.main.localLogin) {
+      return next({ status: 403, message: 'Account requests are disabled.' });
+    }
+
+    const validationError = validateRegistration(req.body);
+
+    if (validationError) {
+      return next({ status: 400, message: validationError });
+    }
+
+    try {
+      if (await isEmailTaken(req.body.email)) {
+        return next({
+          status: 409,
+          message: 'User already exists with submitted email.',
+          errors: ['USER_EXISTS'],
+        });
+      }
+
+      const accountRequest = new AccountRequest({
+        email: req.body.email.toLowerCase(),
+        username: req.body.username,
+        message: req.body.message?.trim() || null,
+      });
+
+      await accountRequest.setPassword(req.body.password);
+
+      await getRepository(AccountRequest).save(accountRequest);
+
+      logger.info('A new account was requested', {
+        label: 'API',
+        ip: req.ip,
+        email: accountRequest.email,
+      });
+
+      const name = accountRequest.username || accountRequest.email;
+
+      sendSignupNotification(
+        'Account Requested',
+        name,
+        `${name} has requested an account.`,
+        [
+          { name: 'Email', value: accountRequest.email },
+          ...(accountRequest.message
+            ? [{ name: 'Message', value: accountRequest.message }]
+            : []),
+        ]
+      );
+
+      return res.status(201).json({ status: 'ok' });
+    } catch (e) {
+      next({ status: 500, message: e.message });
+    }
+  }
+);
+
+registrationRoutes.get<Record<string, string>, AccountRequestResultsResponse>(
+  '/requests',
+  isAuthenticated(Permission.MANAGE_USERS),
+  async (_req, res, next) => {
+    try {
+      const accountRequests = await getRepository(AccountRequest).find({
+        where: { status: AccountRequestStatus.PENDING },
+        order: { createdAt: 'ASC' },
+      });
+
+      return res.status(200).json(accountRequests);
+    } catch (e) {
+      next({ status: 500, message: e.message });
+    }
+  }
+);
+
+registrationRoutes.post<
+  { requestId: string; status: 'approve' | 'decline' },
+  AccountRequest
+>(
+  '/requests/:requestId/:status',
+  isAuthenticated(Permission.MANAGE_USERS),
+  async (req, res, next) => {
+    const settings = getSettings();
+    const accountRequestRepository = getRepository(AccountRequest);
+    const userRepository = getRepository(User);
+
+    if (!['approve', 'decline'].includes(req.params.status)) {
+      return next({ status: 404, message: 'Invalid account request status.' });
+    }
+
+    try {
+      const accountRequest = await accountRequestRepository
+        .createQueryBuilder('accountRequest')
+        .addSelect('accountRequest.password')
+        .where('accountRequest.id = :id', { id: Number(req.params.requestId) })
+        .getOne();
+
+      if (!accountRequest) {
+        return next({ status: 404, message: 'Account request not found.' });
+      }
+
+      if (accountRequest.status !== AccountRequestStatus.PENDING) {
+        return next({
+          status: 400,
+          message: 'This account request has already been handled.',
+        });
+      }
+
+      if (req.params.status === 'approve') {
+        const existingUser = await userRepository
+          .createQueryBuilder('user')
+          .where('user.email = :email', { email: accountRequest.email })
+          .getOne();
+
+        if (existingUser) {
+          return next({
+            status: 409,
+            message: 'User already exists with submitted email.',
+            errors: ['USER_EXISTS'],
+          });
+        }
+
+        const user = new User({
+          email: accountRequest.email,
+          avatar: gravatarUrl(accountRequest.email, {
+            default: 'mm',
+            size: 200,
+          }),
+          username: accountRequest.username,
+          password: accountRequest.password,
+          permissions: settings.main.defaultPermissions,
+          plexToken: '',
+          userType: UserType.LOCAL,
+        });
+
+        await userRepository.save(user);
+
+        if (settings.notifications.agents.email.enabled) {
+          await user.sendAccountApprovedEmail();
+        }
+      }
+
+      accountRequest.status =
+        req.params.status === 'approve'
+          ? AccountRequestStatus.APPROVED
+          : AccountRequestStatus.DECLINED;
+      accountRequest.modifiedBy = req.user;
+      // The password has either been copied to the new user or is not needed
+      accountRequest.password = '';
+
+      await accountRequestRepository.save(accountRequest);
+      delete accountRequest.password;
+
+      return res.status(200).json(accountRequest);
+    } catch (e) {
+      next({ status: 500, message: e.message });
+    }
+  }
+);
+
+export default registrationRoutes;
@@ -1,11 +1,14 @@
 import RadarrAPI from '@server/api/servarr/radarr';
 import SonarrAPI from '@server/api/servarr/sonarr';
+import TheMovieDb from '@server/api/themoviedb';
 import {
   MediaRequestStatus,
   MediaStatus,
   MediaType,
 } from '@server/constants/media';
+import { QuotaType } from '@server/constants/user';
 import { getRepository } from '@server/datasource';
+import ApprovalRule from '@server/entity/ApprovalRule';
 import Media from '@server/entity/Media';
 import {
   BlacklistedMediaError,
@@ -15,17 +18,30 @@ import {
   QuotaRestrictedError,
   RequestPermissionError,
 } from '@server/entity/MediaRequest';
+import RequestApproval from '@server/entity/RequestApproval';
+import RequestStatusHistory from '@server/entity/RequestStatusHistory';
 import SeasonRequest from '@server/entity/SeasonRequest';
 import { User } from '@server/entity/User';
 import type {
   MediaRequestBody,
   RequestResultsResponse,
 } from '@server/interfaces/api/requestInterfaces';
+import {
+  ApprovalPermissionError,
+  DuplicateApprovalError,
+  getApplicableRules,
+  getRequiredApprovals,
+  isFullyApproved,
+  ruleAppliesTo,
+  validateApproval,
+} from '@server/lib/approval';
 import { Permission } from '@server/lib/permissions';
+import { estimateRequestSize, getEpisodeCount } from '@server/lib/quota';
 import { getSettings } from '@server/lib/settings';
 import logger from '@server/logger';
 import { isAuthenticated } from '@server/middleware/auth';
 import { Router } from 'express';
+import requestCommentRoutes from './requestComment';
 
 const requestRoutes = Router();
 
@@ -128,6 +144,8 @@ requestRoutes.get<Record<string, unknown>, RequestResultsResponse>(
         .leftJoinAndSelect('request.seasons', 'seasons')
         .leftJoinAndSelect('request.modifiedBy', 'modifiedBy')
         .leftJoinAndSelect('request.requestedBy', 'requestedBy')
+        .leftJoinAndSelect('request.approvals', 'approvals')
+        .leftJoinAndSelect('approvals.user', 'approvalUser')
         .where('request.status IN (:...requestStatus)', {
           requestStatus: statusFilter,
         })
@@ -213,6 +231,14 @@ requestRoutes.get<Record<string, unknown>, RequestResultsResponse>(
         })
       );
 
+      // add the number of approvals the approval rules require
+      const approvalRules = await getRepository(ApprovalRule).find();
+      requests.forEach((r) => {
+        r.requiredApprovals = getRequiredApprovals(
+          approvalRules.filter((rule) => ruleAppliesTo(rule, r))
+        );
+      });
+
       // add profile names to the media requests, with undefined if not found
       let mappedRequests = requests.map((r) => {
         switch (r.type) {
@@ -422,6 +448,10 @@ requestRoutes.get('/:requestId', async (req, res, next) => {
       });
     }
 
+    request.requiredApprovals = getRequiredApprovals(
+      await getApplicableRules(request)
+    );
+
     return res.status(200).json(request);
   } catch (e) {
     logger.debug('Failed to retrieve request.', {
@@ -432,6 +462,43 @@ requestRoutes.get('/:requestId', async (req, res, next) => {
   }
 });
 
+requestRoutes.get<{ requestId: string }, RequestStatusHistory[]>(
+  '/:requestId/history',
+  async (req, res, next) => {
+    try {
+      const request = await getRepository(MediaRequest).findOneOrFail({
+        where: { id: Number(req.params.requestId) },
+      });
+
+      if (
+        request.requestedBy.id !== req.user?.id &&
+        !req.user?.hasPermission(
+          [Permission.MANAGE_REQUESTS, Permission.REQUEST_VIEW],
+          { type: 'or' }
+        )
+      ) {
+        return next({
+          status: 403,
+          message: 'You do not have permission to view this request.',
+        });
+      }
+
+      const history = await getRepository(RequestStatusHistory).find({
+        where: { request: { id: request.id } },
+        order: { id: 'ASC' },
+      });
+
+      return res.status(200).json(history);
+    } catch (e) {
+      logger.debug('Failed to retrieve request status history.', {
+        label: 'API',
+        errorMessage: e.message,
+      });
+      next({ status: 404, message: 'Request not found.' });
+    }
+  }
+);
+
 requestRoutes.put<{ requestId: string }>(
   '/:requestId',
   async (req, res, next) => {
@@ -563,6 +630,49 @@ requestRoutes.put<{ requestId: string }>(
           );
         }
 
+        // The episode count and size are only needed for episode and size
+        // quotas, so the show is not fetched for every edit
+        const { tv: tvQuota } = await (requestUser as User).getQuota();
+
+        if (
+          tvQuota.limit &&
+          (tvQuota.type === QuotaType.EPISODES ||
+            tvQuota.type === QuotaType.SIZE)
+        ) {
+          try {
+            const tmdb = new TheMovieDb();
+            const tmdbShow = await tmdb.getTvShow({
+              tvId: request.media.tmdbId,
+            });
+
+            request.episodeCount = getEpisodeCount(
+              tmdbShow,
+              request.seasons.map((season) => season.seasonNumber)
+            );
+
+            // Only requests which count towards a size quota have an estimate
+            if (request.estimatedSize) {
+              request.estimatedSize = await estimateRequestSize({
+                mediaType: MediaType.TV,
+                tmdbMedia: tmdbShow,
+                episodeCount: request.episodeCount,
+                is4k: request.is4k,
+                serverId: request.serverId,
+                profileId: request.profileId,
+              });
+            }
+          } catch (e) {
+            logger.warn(
+              'Failed to update the episode count of an edited request',
+              {
+                label: 'Media Request',
+                requestId: request.id,
+                errorMessage: e.message,
+              }
+            );
+          }
+        }
+
         await requestRepository.save(request);
       }
 
@@ -605,6 +715,8 @@ requestRoutes.delete('/:requestId', async (req, res, next) => {
   }
 });
 
+requestRoutes.use('/:requestId/comment', requestCommentRoutes);
+
 requestRoutes.post<{
   requestId: string;
 }>(
@@ -621,6 +733,7 @@ requestRoutes.post<{
 
       // this also triggers updating the parent media's status & sending to *arr
       request.status = MediaRequestStatus.APPROVED;
+      request.statusChangedBy = req.user;
       await requestRepository.save(request);
 
       return res.status(200).json(request);
@@ -634,46 +747,92 @@ requestRoutes.post<{
   }
 );
 
-requestRoutes.post<{
-  requestId: string;
-  status: 'pending' | 'approve' | 'decline';
-}>(
+requestRoutes.post<
+  {
+    requestId: string;
+    status: 'pending' | 'approve' | 'decline';
+  },
+  MediaRequest,
+  { reason?: string }
+>(
   '/:requestId/:status',
   isAuthenticated(Permission.MANAGE_REQUESTS),
   async (req, res, next) => {
     const requestRepository = getRepository(MediaRequest);
 
+    let request: MediaRequest;
+
     try {
-      const request = await requestRepository.findOneOrFail({
+      request = await requestRepository.findOneOrFail({
         where: { id: Number(req.params.requestId) },
         relations: { requestedBy: true, modifiedBy: true },
       });
+    } catch (e) {
+      logger.error('Error processing request update', {
+        label: 'Media Request',
+        message: e.message,
+      });
+      return next({ status: 404, message: 'Request not found.' });
+    }
 
-      let newStatus: MediaRequestStatus;
+    try {
+      const rules = await getApplicableRules(request);
 
       switch (req.params.status) {
         case 'pending':
-          newStatus = MediaRequestStatus.PENDING;
+          // Approvals are given again when a request goes back to pending
+          request.status = MediaRequestStatus.PENDING;
+          request.approvals = [];
           break;
-        case 'approve':
-          newStatus = MediaRequestStatus.APPROVED;
+        case 'approve': {
+          if (!req.user) {
+            return next({ status: 500, message: 'User missing from request.' });
+          }
+
+          validateApproval(rules, request, req.user);
+
+          request.approvals = [
+            ...request.approvals,
+            new RequestApproval({ user: req.user }),
+          ];
+
+          if (
+            isFullyApproved(
+              rules,
+              request.approvals.map((approval) => approval.user),
+              request.requestedBy
+            )
+          ) {
+            request.status = MediaRequestStatus.APPROVED;
+          }
           break;
+        }
         case 'decline':
-          newStatus = MediaRequestStatus.DECLINED;
+          request.status = MediaRequestStatus.DECLINED;
           break;
       }
 
-      request.status = newStatus;
       request.modifiedBy = req.user;
+      request.statusChangedBy = req.user;
+      request.statusReason = req.body?.reason?.trim() || undefined;
       await requestRepository.save(request);
 
+      request.requiredApprovals = getRequiredApprovals(rules);
+
       return res.status(200).json(request);
     } catch (e) {
+      if (e instanceof DuplicateApprovalError) {
+        return next({ status: 409, message: e.message });
+      } else if (e instanceof ApprovalPermissionError) {
+        return next({ status: 403, message: e.message });
+      }
+
       logger.error('Error processing request update', {
         label: 'Media Request',
+        requestId: request.id,
         message: e.message,
       });
-      next({ status: 404, message: 'Request not found.' });
+      next({ status: 500, message: 'Unable to update request.' });
     }
   }
 );
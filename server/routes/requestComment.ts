@@ -0,0 +1,164 @@
+import { getRepository } from '@server/datasource';
+import { MediaRequest } from '@server/entity/MediaRequest';
+import RequestComment from '@server/entity/RequestComment';
+import type { User } from '@server/entity/User';
+import { Permission } from '@server/lib/permissions';
+import logger from '@server/logger';
+import { Router } from 'express';
+
+const requestCommentRoutes = Router({ mergeParams: true });
+
+const canViewComments = (request: MediaRequest, user?: User): boolean =>
+  request.requestedBy.id === user?.id ||
+  !!user?.hasPermission([Permission.MANAGE_REQUESTS, Permission.REQUEST_VIEW], {
+    type: 'or',
+  });
+
+const canComment = (request: MediaRequest, user?: User): boolean =>
+  request.requestedBy.id === user?.id ||
+  !!user?.hasPermission(Permission.MANAGE_REQUESTS);
+
+requestCommentRoutes.get<{ requestId: string }, RequestComment[]>(
+  '/',
+  async (req, res, next) => {
+    try {
+      const request = await getRepository(MediaRequest).findOneOrFail({
+        where: { id: Number(req.params.requestId) },
+      });
+
+      if (!canViewComments(request, req.user)) {
+        return next({
+          status: 403,
+          message: 'You do not have permission to view these comments.',
+        });
+      }
+
+      const comments = await getRepository(RequestComment).find({
+        where: { request: { id: request.id } },
+        order: { id: 'ASC' },
+      });
+
+      return res.status(200).json(comments);
+    } catch (e) {
+      logger.debug('Request for comments of unknown request failed', {
+        label: 'API',
+        errorMessage: e.message,
+      });
+      next({ status: 404, message: 'Request not found.' });
+    }
+  }
+);
+
+requestCommentRoutes.post<
+  { requestId: string },
+  RequestComment,
+  { message: string }
+>('/', async (req, res, next) => {
+  // Satisfy typescript here. User is set, we assure you!
+  if (!req.user) {
+    return next({ status: 500, message: 'User missing from request.' });
+  }
+
+  try {
+    const request = await getRepository(MediaRequest).findOneOrFail({
+      where: { id: Number(req.params.requestId) },
+    });
+
+    if (!canComment(request, req.user)) {
+      return next({
+        status: 403,
+        message: 'You do not have permission to comment on this request.',
+      });
+    }
+
+    const comment = new RequestComment({
+      message: req.body.message,
+      user: req.user,
+      request,
+    });
+
+    await getRepository(RequestComment).save(comment);
+
+    return res.status(201).json(comment);
+  } catch (e) {
+    logger.debug('Something went wrong creating a request comment.', {
+      label: 'API',
+      errorMessage: e.message,
+    });
+    next({ status: 404, message: 'Request not found.' });
+  }
+});
+
+requestCommentRoutes.put<
+  { requestId: string; commentId: string },
+  RequestComment,
+  { message: string }
+>('/:commentId', async (req, res, next) => {
+  const requestCommentRepository = getRepository(RequestComment);
+
+  try {
+    const comment = await requestCommentRepository.findOneOrFail({
+      where: {
+        id: Number(req.params.commentId),
+        request: { id: Number(req.params.requestId) },
+      },
+    });
+
+    if (comment.user.id !== req.user?.id) {
+      return next({
+        status: 403,
+        message: 'You can only edit your own comments.',
+      });
+    }
+
+    comment.message = req.body.message;
+
+    await requestCommentRepository.save(comment);
+
+    return res.status(200).json(comment);
+  } catch (e) {
+    logger.debug('Put request for request comment failed', {
+      label: 'API',
+      errorMessage: e.message,
+    });
+    next({ status: 404, message: 'Request comment not found.' });
+  }
+});
+
+requestCommentRoutes.delete<{ requestId: string; commentId: string }>(
+  '/:commentId',
+  async (req, res, next) => {
+    const requestCommentRepository = getRepository(RequestComment);
+
+    try {
+      const comment = await requestCommentRepository.findOneOrFail({
+        where: {
+          id: Number(req.params.commentId),
+          request: { id: Number(req.params.requestId) },
+        },
+      });
+
+      if (
+        !req.user?.hasPermission(Permission.MANAGE_REQUESTS) &&
+        comment.user.id !== req.user?.id
+      ) {
+        return next({
+          status: 403,
+          message: 'You do not have permission to delete this comment.',
+        });
+      }
+
+      await requestCommentRepository.remove(comment);
+
+      return res.status(204).send();
+    } catch (e) {
+      logger.debug('Delete request for request comment failed', {
+        label: 'API',
+        errorMessage: e.message,
+      });
+      next({ status: 404, message: 'Request comment not found.' });
+    }
+  }
+);
+
+export default requestCommentRoutes;
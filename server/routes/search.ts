@@ -10,7 +10,11 @@ const searchRoutes = Router();
 
 searchRoutes.get('/', async (req, res, next) => {
   const queryString = req.query.query as string;
-  const searchProvider = findSearchProvider(queryString.toLowerCase());
+  const language = (req.query.language as string) ?? req.locale;
+  const searchProvider = findSearchProvider(
+    queryString.toLowerCase(),
+    language
+  );
   let results: TmdbSearchMultiResponse;
 
   try {
@@ -20,8 +24,9 @@ searchRoutes.get('/', async (req, res, next) => {
         .match(searchProvider.pattern) as RegExpMatchArray;
       results = await searchProvider.search({
         id,
-        language: (req.query.language as string) ?? req.locale,
+        language,
         query: queryString,
+        page: Number(req.query.page) || 1,
       });
     } else {
       const tmdb = new TheMovieDb();
@@ -29,7 +34,7 @@ searchRoutes.get('/', async (req, res, next) => {
       results = await tmdb.searchMulti({
         query: queryString,
         page: Number(req.query.page),
-        language: (req.query.language as string) ?? req.locale,
+        language,
       });
     }
 
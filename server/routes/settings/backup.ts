@@ -0,0 +1,138 @@
+import backupManager, { InvalidBackupError } from '@server/lib/backup';
+import { getSettings } from '@server/lib/settings';
+import logger from '@server/logger';
+import { Router } from 'express';
+
+const backupRoutes = Router();
+
+backupRoutes.get('/', (_req, res) => {
+  const settings = getSettings();
+
+  return res.status(200).json(settings.backup);
+});
+
+backupRoutes.post<never, unknown, { retention?: number }>(
+  '/',
+  async (req, res, next) => {
+    const settings = getSettings();
+
+    if (
+      req.body.retention !== undefined &&
+      (!Number.isInteger(req.body.retention) || req.body.retention < 1)
+    ) {
+      return next({
+        status: 400,
+        message: 'Retention must be at least one backup.',
+      });
+    }
+
+    settings.backup = {
+      retention: req.body.retention ?? settings.backup.retention,
+    };
+    await settings.save();
+
+    return res.status(200).json(settings.backup);
+  }
+);
+
+backupRoutes.get('/files', async (_req, res, next) => {
+  try {
+    const backups = await backupManager.listBackups();
+
+    return res.status(200).json(backups);
+  } catch (e) {
+    logger.error('Something went wrong listing backups', {
+      label: 'API',
+      errorMessage: e.message,
+    });
+    return next({ status: 500, message: 'Unable to list backups.' });
+  }
+});
+
+backupRoutes.get<{ name: string }>('/files/:name', async (req, res, next) => {
+  const backupPath = await backupManager.getBackupPath(req.params.name);
+
+  if (!backupPath) {
+    return next({ status: 404, message: 'Backup not found.' });
+  }
+
+  return res.download(backupPath, req.params.name);
+});
+
+backupRoutes.delete<{ name: string }>(
+  '/files/:name',
+  async (req, res, next) => {
+    const backupPath = await backupManager.getBackupPath(req.params.name);
+
+    if (!backupPath) {
+      return next({ status: 404, message: 'Backup not found.' });
+    }
+
+    try {
+      await backupManager.deleteBackup(req.params.name);
+
+      return res.status(204).send();
+    } catch (e) {
+      logger.error('Something went wrong deleting a backup', {
+        label: 'API',
+        errorMessage: e.message,
+        backup: req.params.name,
+      });
+      return next({ status: 500, message: 'Unable to delete backup.' });
+    }
+  }
+);
+
+backupRoutes.get('/download', async (req, res, next) => {
+  try {
+    const backup = await backupManager.createBackup();
+
+    logger.info('Backup downloaded', {
+      label: 'API',
+      userId: req.user?.id,
+    });
+
+    return res
+      .status(200)
+      .attachment(backupManager.getBackupFilename())
+      .type('application/gzip')
+      .send(backup);
+  } catch (e) {
+    logger.error('Something went wrong creating a backup', {
+      label: 'API',
+      errorMessage: e.message,
+    });
+    return next({ status: 500, message: 'Unable to create backup.' });
+  }
+});
+
+backupRoutes.post('/restore', async (req, res, next) => {
+  if (!Buffer.isBuffer(req.body) || !req.body.length) {
+    return next({ status: 400, message: 'No backup file was uploaded.' });
+  }
+
+  try {
+    const manifest = await backupManager.restoreBackup(req.body);
+
+    logger.info('Backup restored', {
+      label: 'API',
+      userId: req.user?.id,
+      backupCreatedAt: manifest.createdAt,
+      backupVersion: manifest.appVersion,
+    });
+
+    return res.status(200).json(manifest);
+  } catch (e) {
+    if (e instanceof InvalidBackupError) {
+      return next({ status: 400, message: e.message });
+    }
+
+    logger.error('Something went wrong restoring a backup', {
+      label: 'API',
+      errorMessage: e.message,
+    });
+    return next({ status: 500, message: 'Unable to restore backup.' });
+  }
+});
+
+export default backupRoutes;
@@ -0,0 +1,27 @@
+import databaseTransfer from '@server/lib/databaseTransfer';
+import { Router } from 'express';
+
+const databaseRoutes = Router();
+
+databaseRoutes.get('/transfer', (_req, res) => {
+  return res.status(200).json(databaseTransfer.status());
+});
+
+databaseRoutes.post<never, unknown, { overwrite?: boolean }>(
+  '/transfer',
+  (req, res, next) => {
+    if (databaseTransfer.status().running) {
+      return next({ status: 409, message: 'A transfer is already running.' });
+    }
+
+    // The transfer can take a while, so its outcome is reported through the
+    // status endpoint
+    databaseTransfer.run({ overwrite: !!req.body.overwrite }).catch(() => {
+      // Errors are logged and kept in the transfer status
+    });
+
+    return res.status(202).json(databaseTransfer.status());
+  }
+);
+
+export default databaseRoutes;
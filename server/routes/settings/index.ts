@@ -1,8 +1,9 @@
-import JellyfinAPI from '@server/api/jellyfin';
+import OidcAPI from '@server/api/oidc';
 import PlexAPI from '@server/api/plexapi';
 import PlexTvAPI from '@server/api/plextv';
 import TautulliAPI from '@server/api/tautulli';
 import { ApiErrorCode } from '@server/constants/error';
+import { MediaServerType } from '@server/constants/server';
 import { getRepository } from '@server/datasource';
 import Media from '@server/entity/Media';
 import { MediaRequest } from '@server/entity/MediaRequest';
@@ -16,19 +17,24 @@ import type {
 import { scheduledJobs } from '@server/job/schedule';
 import type { AvailableCacheIds } from '@server/lib/cache';
 import cacheManager from '@server/lib/cache';
+import { publishEvent } from '@server/lib/events';
 import ImageProxy from '@server/lib/imageproxy';
 import { Permission } from '@server/lib/permissions';
+import { embyFullScanner } from '@server/lib/scanners/emby';
 import { jellyfinFullScanner } from '@server/lib/scanners/jellyfin';
 import { plexFullScanner } from '@server/lib/scanners/plex';
 import type { JobId, Library, MainSettings } from '@server/lib/settings';
 import { getSettings } from '@server/lib/settings';
 import logger from '@server/logger';
 import { isAuthenticated } from '@server/middleware/auth';
+import backupRoutes from '@server/routes/settings/backup';
+import databaseRoutes from '@server/routes/settings/database';
 import discoverSettingRoutes from '@server/routes/settings/discover';
 import { ApiError } from '@server/types/error';
 import { appDataPath } from '@server/utils/appDataVolume';
 import { getAppVersion } from '@server/utils/appVersion';
 import { getHostname } from '@server/utils/getHostname';
+import { getJellyfinClient } from '@server/utils/getJellyfinClient';
 import { Router } from 'express';
 import rateLimit from 'express-rate-limit';
 import fs from 'fs';
@@ -47,6 +53,8 @@ settingsRoutes.use('/notifications', notificationRoutes);
 settingsRoutes.use('/radarr', radarrRoutes);
 settingsRoutes.use('/sonarr', sonarrRoutes);
 settingsRoutes.use('/discover', discoverSettingRoutes);
+settingsRoutes.use('/backup', backupRoutes);
+settingsRoutes.use('/database', databaseRoutes);
 
 const filteredMainSettings = (
   user: User,
@@ -69,10 +77,47 @@ settingsRoutes.get('/main', (req, res, next) => {
   res.status(200).json(filteredMainSettings(req.user, settings.main));
 });
 
-settingsRoutes.post('/main', async (req, res) => {
+settingsRoutes.post('/main', async (req, res, next) => {
   const settings = getSettings();
 
+  const additionalMediaServerTypes: number[] | undefined =
+    req.body.additionalMediaServerTypes;
+
+  if (additionalMediaServerTypes) {
+    const jellyfinServerTypes = [
+      settings.main.mediaServerType,
+      ...additionalMediaServerTypes,
+    ].filter(
+      (type) =>
+        type === MediaServerType.JELLYFIN || type === MediaServerType.EMBY
+    );
+
+    // Jellyfin and Emby share their settings, so only one of them can be used
+    if (new Set(jellyfinServerTypes).size > 1) {
+      return next({
+        status: 400,
+        message: 'Jellyfin and Emby can not be used at the same time.',
+      });
+    }
+  }
+
   settings.main = merge(settings.main, req.body);
+
+  // Arrays are merged by index, so the list is replaced to allow removals
+  if (additionalMediaServerTypes) {
+    settings.main.additionalMediaServerTypes = [
+      ...new Set(additionalMediaServerTypes),
+    ].filter(
+      (type) =>
+        type !== settings.main.mediaServerType &&
+        type !== MediaServerType.NOT_CONFIGURED
+    );
+  }
+
+  if (Array.isArray(req.body.groupQuotas)) {
+    settings.main.groupQuotas = req.body.groupQuotas;
+  }
+
   await settings.save();
 
   return res.status(200).json(settings.main);
@@ -263,13 +308,15 @@ settingsRoutes.post('/plex/sync', (req, res) => {
   return res.status(200).json(plexFullScanner.status());
 });
 
-settingsRoutes.get('/jellyfin', (_req, res) => {
+// Emby servers are set up through their own endpoints, which share the
+// settings of Jellyfin
+settingsRoutes.get(['/jellyfin', '/emby'], (_req, res) => {
   const settings = getSettings();
 
   res.status(200).json(settings.jellyfin);
 });
 
-settingsRoutes.post('/jellyfin', async (req, res, next) => {
+settingsRoutes.post(['/jellyfin', '/emby'], async (req, res, next) => {
   const userRepository = getRepository(User);
   const settings = getSettings();
 
@@ -282,7 +329,7 @@ settingsRoutes.post('/jellyfin', async (req, res, next) => {
 
     const tempJellyfinSettings = { ...settings.jellyfin, ...req.body };
 
-    const jellyfinClient = new JellyfinAPI(
+    const jellyfinClient = getJellyfinClient(
       getHostname(tempJellyfinSettings),
       tempJellyfinSettings.apiKey,
       admin.jellyfinDeviceId ?? ''
@@ -326,70 +373,78 @@ settingsRoutes.post('/jellyfin', async (req, res, next) => {
   return res.status(200).json(settings.jellyfin);
 });
 
-settingsRoutes.get('/jellyfin/library', async (req, res, next) => {
-  const settings = getSettings();
+settingsRoutes.get(
+  ['/jellyfin/library', '/emby/library'],
+  async (req, res, next) => {
+    const settings = getSettings();
 
-  if (req.query.sync) {
-    const userRepository = getRepository(User);
-    const admin = await userRepository.findOneOrFail({
-      select: ['id', 'jellyfinDeviceId', 'jellyfinUserId'],
-      where: { id: 1 },
-      order: { id: 'ASC' },
-    });
-    const jellyfinClient = new JellyfinAPI(
-      getHostname(),
-      settings.jellyfin.apiKey,
-      admin.jellyfinDeviceId ?? ''
-    );
+    if (req.query.sync) {
+      const userRepository = getRepository(User);
+      const admin = await userRepository.findOneOrFail({
+        select: ['id', 'jellyfinDeviceId', 'jellyfinUserId'],
+        where: { id: 1 },
+        order: { id: 'ASC' },
+      });
+      const jellyfinClient = getJellyfinClient(
+        getHostname(),
+        settings.jellyfin.apiKey,
+        admin.jellyfinDeviceId ?? ''
+      );
 
-    jellyfinClient.setUserId(admin.jellyfinUserId ?? '');
+      jellyfinClient.setUserId(admin.jellyfinUserId ?? '');
 
-    const libraries = await jellyfinClient.getLibraries();
+      const libraries = await jellyfinClient.getLibraries();
 
-    if (libraries.length === 0) {
-      // Check if no libraries are found due to the fallback to user views
-      // This only affects LDAP users
-      const account = await jellyfinClient.getUser();
+      if (libraries.length === 0) {
+        // Check if no libraries are found due to the fallback to user views
+        // This only affects LDAP users
+        const account = await jellyfinClient.getUser();
+
+        // Automatic Library grouping is not supported when user views are used to get library
+        if (account.Configuration.GroupedFolders?.length > 0) {
+          return next({
+            status: 501,
+            message: ApiErrorCode.SyncErrorGroupedFolders,
+          });
+        }
 
-      // Automatic Library grouping is not supported when user views are used to get library
-      if (account.Configuration.GroupedFolders?.length > 0) {
         return next({
-          status: 501,
-          message: ApiErrorCode.SyncErrorGroupedFolders,
+          status: 404,
+          message: ApiErrorCode.SyncErrorNoLibraries,
         });
       }
 
-      return next({ status: 404, message: ApiErrorCode.SyncErrorNoLibraries });
-    }
-
-    const newLibraries: Library[] = libraries.map((library) => {
-      const existing = settings.jellyfin.libraries.find(
-        (l) => l.id === library.key && l.name === library.title
-      );
+      const newLibraries: Library[] = libraries.map((library) => {
+        const existing = settings.jellyfin.libraries.find(
+          (l) => l.id === library.key && l.name === library.title
+        );
+
+        return {
+          id: library.key,
+          name: library.title,
+          enabled: existing?.enabled ?? false,
+          type: library.type,
+        };
+      });
 
-      return {
-        id: library.key,
-        name: library.title,
-        enabled: existing?.enabled ?? false,
-        type: library.type,
-      };
-    });
+      settings.jellyfin.libraries = newLibraries;
+    }
 
-    settings.jellyfin.libraries = newLibraries;
+    const enabledLibraries = req.query.enable
+      ? (req.query.enable as string).split(',')
+      : [];
+    settings.jellyfin.libraries = settings.jellyfin.libraries.map(
+      (library) => ({
+        ...library,
+        enabled: enabledLibraries.includes(library.id),
+      })
+    );
+    await settings.save();
+    return res.status(200).json(settings.jellyfin.libraries);
   }
+);
 
-  const enabledLibraries = req.query.enable
-    ? (req.query.enable as string).split(',')
-    : [];
-  settings.jellyfin.libraries = settings.jellyfin.libraries.map((library) => ({
-    ...library,
-    enabled: enabledLibraries.includes(library.id),
-  }));
-  await settings.save();
-  return res.status(200).json(settings.jellyfin.libraries);
-});
-
-settingsRoutes.get('/jellyfin/users', async (req, res) => {
+settingsRoutes.get(['/jellyfin/users', '/emby/users'], async (req, res) => {
   const settings = getSettings();
 
   const userRepository = getRepository(User);
@@ -398,7 +453,7 @@ settingsRoutes.get('/jellyfin/users', async (req, res) => {
     where: { id: 1 },
     order: { id: 'ASC' },
   });
-  const jellyfinClient = new JellyfinAPI(
+  const jellyfinClient = getJellyfinClient(
     getHostname(),
     settings.jellyfin.apiKey,
     admin.jellyfinDeviceId ?? ''
@@ -416,18 +471,66 @@ settingsRoutes.get('/jellyfin/users', async (req, res) => {
   return res.status(200).json(users);
 });
 
-settingsRoutes.get('/jellyfin/sync', (_req, res) => {
-  return res.status(200).json(jellyfinFullScanner.status());
+const getJellyfinFullScanner = () =>
+  getSettings().isMediaServerEnabled(MediaServerType.EMBY)
+    ? embyFullScanner
+    : jellyfinFullScanner;
+
+settingsRoutes.get(['/jellyfin/sync', '/emby/sync'], (_req, res) => {
+  return res.status(200).json(getJellyfinFullScanner().status());
 });
 
-settingsRoutes.post('/jellyfin/sync', (req, res) => {
+settingsRoutes.post(['/jellyfin/sync', '/emby/sync'], (req, res) => {
+  const fullScanner = getJellyfinFullScanner();
+
   if (req.body.cancel) {
-    jellyfinFullScanner.cancel();
+    fullScanner.cancel();
   } else if (req.body.start) {
-    jellyfinFullScanner.run();
+    fullScanner.run();
+  }
+  return res.status(200).json(fullScanner.status());
+});
+settingsRoutes.get('/oidc', (_req, res) => {
+  const settings = getSettings();
+
+  res.status(200).json(settings.oidc);
+});
+
+settingsRoutes.post('/oidc', async (req, res, next) => {
+  const settings = getSettings();
+
+  const oidcSettings = Object.assign({}, settings.oidc, req.body);
+
+  if (oidcSettings.enabled) {
+    try {
+      const oidcApi = new OidcAPI(oidcSettings.issuerUrl);
+      const discovery = await oidcApi.getDiscoveryDocument();
+
+      if (
+        discovery.code_challenge_methods_supported &&
+        !discovery.code_challenge_methods_supported.includes('S256')
+      ) {
+        throw new Error('Provider does not support PKCE with S256');
+      }
+    } catch (e) {
+      logger.error('Something went wrong testing OpenID Connect discovery', {
+        label: 'API',
+        errorMessage: e.message,
+        issuerUrl: oidcSettings.issuerUrl,
+      });
+      return next({
+        status: 500,
+        message: 'Unable to discover the OpenID Connect provider.',
+      });
+    }
   }
-  return res.status(200).json(jellyfinFullScanner.status());
+
+  settings.oidc = oidcSettings;
+  await settings.save();
+
+  return res.status(200).json(settings.oidc);
 });
+
 settingsRoutes.get('/tautulli', (_req, res) => {
   const settings = getSettings();
 
@@ -669,6 +772,7 @@ settingsRoutes.post<{ jobId: string }>('/jobs/:jobId/run', (req, res, next) => {
   }
 
   scheduledJob.job.invoke();
+  publishEvent('jobs', {});
 
   return res.status(200).json({
     id: scheduledJob.id,
@@ -694,6 +798,7 @@ settingsRoutes.post<{ jobId: JobId }>(
 
     if (scheduledJob.cancelFn) {
       scheduledJob.cancelFn();
+      publishEvent('jobs', {});
     }
 
     return res.status(200).json({
@@ -1,9 +1,19 @@
+import { NotificationDeliveryStatus } from '@server/constants/notification';
+import { getRepository } from '@server/datasource';
+import OutboxNotification from '@server/entity/OutboxNotification';
 import type { User } from '@server/entity/User';
+import type {
+  NotificationLogResultsResponse,
+  NotificationTemplatePreviewResponse,
+  NotificationTemplatesResponse,
+} from '@server/interfaces/api/settingsInterfaces';
 import { Notification } from '@server/lib/notifications';
 import type { NotificationAgent } from '@server/lib/notifications/agents/agent';
+import AppriseAgent from '@server/lib/notifications/agents/apprise';
 import DiscordAgent from '@server/lib/notifications/agents/discord';
 import EmailAgent from '@server/lib/notifications/agents/email';
 import GotifyAgent from '@server/lib/notifications/agents/gotify';
+import MatrixAgent from '@server/lib/notifications/agents/matrix';
 import NtfyAgent from '@server/lib/notifications/agents/ntfy';
 import PushbulletAgent from '@server/lib/notifications/agents/pushbullet';
 import PushoverAgent from '@server/lib/notifications/agents/pushover';
@@ -11,8 +21,17 @@ import SlackAgent from '@server/lib/notifications/agents/slack';
 import TelegramAgent from '@server/lib/notifications/agents/telegram';
 import WebhookAgent from '@server/lib/notifications/agents/webhook';
 import WebPushAgent from '@server/lib/notifications/agents/webpush';
-import { getSettings } from '@server/lib/settings';
+import { resendOutboxNotification } from '@server/lib/notifications/outbox';
+import {
+  getSampleNotificationPayload,
+  KeyMap,
+  renderTemplate,
+} from '@server/lib/notifications/templates';
+import { getSettings, NotificationAgentKey } from '@server/lib/settings';
+import logger from '@server/logger';
 import { Router } from 'express';
+import { EntityNotFoundError } from 'typeorm';
+import { z } from 'zod';
 
 const notificationRoutes = Router();
 
@@ -413,4 +432,263 @@ notificationRoutes.post('/ntfy/test', async (req, res, next) => {
   }
 });
 
+notificationRoutes.get('/matrix', (_req, res) => {
+  const settings = getSettings();
+
+  res.status(200).json(settings.notifications.agents.matrix);
+});
+
+notificationRoutes.post('/matrix', async (req, res) => {
+  const settings = getSettings();
+
+  settings.notifications.agents.matrix = req.body;
+  await settings.save();
+
+  res.status(200).json(settings.notifications.agents.matrix);
+});
+
+notificationRoutes.post('/matrix/test', async (req, res, next) => {
+  if (!req.user) {
+    return next({
+      status: 500,
+      message: 'User information is missing from the request.',
+    });
+  }
+
+  const matrixAgent = new MatrixAgent(req.body);
+  if (await sendTestNotification(matrixAgent, req.user)) {
+    return res.status(204).send();
+  } else {
+    return next({
+      status: 500,
+      message: 'Failed to send Matrix notification.',
+    });
+  }
+});
+
+notificationRoutes.get('/apprise', (_req, res) => {
+  const settings = getSettings();
+
+  res.status(200).json(settings.notifications.agents.apprise);
+});
+
+notificationRoutes.post('/apprise', async (req, res) => {
+  const settings = getSettings();
+
+  settings.notifications.agents.apprise = req.body;
+  await settings.save();
+
+  res.status(200).json(settings.notifications.agents.apprise);
+});
+
+notificationRoutes.post('/apprise/test', async (req, res, next) => {
+  if (!req.user) {
+    return next({
+      status: 500,
+      message: 'User information is missing from the request.',
+    });
+  }
+
+  const appriseAgent = new AppriseAgent(req.body);
+  if (await sendTestNotification(appriseAgent, req.user)) {
+    return res.status(204).send();
+  } else {
+    return next({
+      status: 500,
+      message: 'Failed to send Apprise notification.',
+    });
+  }
+});
+
+const notificationTemplate = z.object({
+  subject: z.string().optional(),
+  body: z.string().optional(),
+});
+
+const notificationTemplatesPost = z.record(
+  z.nativeEnum(NotificationAgentKey),
+  z.record(z.string(), notificationTemplate)
+);
+
+const notificationTemplatePreview = notificationTemplate.extend({
+  type: z
+    .string()
+    .refine(
+      (type) =>
+        type in Notification &&
+        isNaN(Number(type)) &&
+        type !== Notification[Notification.NONE],
+      { message: 'Invalid notification type.' }
+    ),
+});
+
+notificationRoutes.get('/templates', (_req, res) => {
+  const settings = getSettings();
+
+  return res.status(200).json({
+    templates: settings.notifications.templates ?? {},
+    placeholders: Object.keys(KeyMap),
+  } as NotificationTemplatesResponse);
+});
+
+notificationRoutes.post('/templates', async (req, res, next) => {
+  const settings = getSettings();
+
+  try {
+    const templates = notificationTemplatesPost.parse(req.body);
+
+    // Drop empty templates so that the agents fall back to their own text
+    settings.notifications.templates = Object.fromEntries(
+      Object.entries(templates).map(([agent, agentTemplates]) => [
+        agent,
+        Object.fromEntries(
+          Object.entries(agentTemplates).filter(
+            ([type, template]) =>
+              type in Notification && (template.subject || template.body)
+          )
+        ),
+      ])
+    );
+    await settings.save();
+
+    return res.status(200).json({
+      templates: settings.notifications.templates,
+      placeholders: Object.keys(KeyMap),
+    } as NotificationTemplatesResponse);
+  } catch (e) {
+    if (e instanceof z.ZodError) {
+      return next({ status: 400, message: 'Invalid notification templates.' });
+    }
+
+    return next({ status: 500, message: e.message });
+  }
+});
+
+notificationRoutes.post('/templates/preview', (req, res, next) => {
+  try {
+    const template = notificationTemplatePreview.parse(req.body);
+    const type = Notification[template.type as keyof typeof Notification];
+    const payload = getSampleNotificationPayload(type);
+
+    return res.status(200).json({
+      subject: renderTemplate(
+        template.subject || payload.subject,
+        payload,
+        type
+      ),
+      body: renderTemplate(
+        template.body || payload.message || '',
+        payload,
+        type
+      ),
+    } as NotificationTemplatePreviewResponse);
+  } catch (e) {
+    if (e instanceof z.ZodError) {
+      return next({ status: 400, message: 'Invalid notification template.' });
+    }
+
+    return next({ status: 500, message: e.message });
+  }
+});
+
+const notificationLogGet = z.object({
+  take: z.coerce.number().int().positive().default(25),
+  skip: z.coerce.number().int().nonnegative().default(0),
+  filter: z.enum(['all', 'pending', 'sent', 'failed']).optional(),
+  agent: z.nativeEnum(NotificationAgentKey).optional(),
+});
+
+notificationRoutes.get('/log', async (req, res, next) => {
+  try {
+    const { take, skip, filter, agent } = notificationLogGet.parse(req.query);
+
+    let query = getRepository(OutboxNotification)
+      .createQueryBuilder('notification')
+      .where('1 = 1'); // Allow use of andWhere later
+
+    switch (filter) {
+      case 'pending':
+        query = query.andWhere('notification.status = :status', {
+          status: NotificationDeliveryStatus.PENDING,
+        });
+        break;
+      case 'sent':
+        query = query.andWhere('notification.status = :status', {
+          status: NotificationDeliveryStatus.SENT,
+        });
+        break;
+      case 'failed':
+        query = query.andWhere('notification.status = :status', {
+          status: NotificationDeliveryStatus.FAILED,
+        });
+        break;
+    }
+
+    if (agent) {
+      query = query.andWhere('notification.agent = :agent', { agent });
+    }
+
+    const [notifications, notificationCount] = await query
+      .orderBy('notification.createdAt', 'DESC')
+      .addOrderBy('notification.id', 'DESC')
+      .take(take)
+      .skip(skip)
+      .getManyAndCount();
+
+    return res.status(200).json({
+      pageInfo: {
+        pages: Math.ceil(notificationCount / take),
+        pageSize: take,
+        results: notificationCount,
+        page: Math.ceil(skip / take) + 1,
+      },
+      results: notifications,
+    } as NotificationLogResultsResponse);
+  } catch (e) {
+    logger.error('Something went wrong while retrieving the notification log', {
+      label: 'Notifications',
+      errorMessage: e.message,
+    });
+    return next({
+      status: 500,
+      message: 'Unable to retrieve the notification log.',
+    });
+  }
+});
+
+notificationRoutes.post<{ id: string }>(
+  '/log/:id/resend',
+  async (req, res, next) => {
+    const outboxRepository = getRepository(OutboxNotification);
+
+    try {
+      const notification = await outboxRepository.findOneOrFail({
+        where: { id: Number(req.params.id) },
+      });
+
+      if (notification.status === NotificationDeliveryStatus.PENDING) {
+        return next({
+          status: 409,
+          message: 'Notification is already waiting to be sent.',
+        });
+      }
+
+      await resendOutboxNotification(notification);
+
+      return res.status(200).json(notification);
+    } catch (e) {
+      if (e instanceof EntityNotFoundError) {
+        return next({ status: 404, message: 'Notification not found.' });
+      }
+
+      logger.error('Something went wrong while resending a notification', {
+        label: 'Notifications',
+        notificationId: req.params.id,
+        errorMessage: e.message,
+      });
+      return next({ status: 500, message: e.message });
+    }
+  }
+);
+
 export default notificationRoutes;
@@ -1,4 +1,3 @@
-import DoubanAPI from '@server/api/douban';
 import IMDBRadarrProxy from '@server/api/rating/imdbRadarrProxy';
 import RottenTomatoes from '@server/api/rating/rottentomatoes';
 import { type RatingResponse } from '@server/api/ratings';
@@ -7,6 +6,11 @@ import { MediaType } from '@server/constants/media';
 import { getRepository } from '@server/datasource';
 import Media from '@server/entity/Media';
 import { Watchlist } from '@server/entity/Watchlist';
+import {
+  getDoubanMapping,
+  getDoubanMappings,
+  getDoubanRating,
+} from '@server/lib/doubanMapping';
 import logger from '@server/logger';
 import { mapTvResult } from '@server/models/Search';
 import { mapSeasonWithEpisodes, mapTvDetails } from '@server/models/Tv';
@@ -95,22 +99,17 @@ tvRoutes.get('/:id/recommendations', async (req, res, next) => {
       results.results.map((result) => result.id)
     );
 
-    const ratings = await Promise.all(
-      results.results.map(async (result) => {
-        try {
-          return await new DoubanAPI().getRating(result.id, 'tv');
-        } catch (e) {
-          return undefined;
-        }
-      })
+    const doubanMappings = await getDoubanMappings(
+      results.results.map((result) => result.id),
+      MediaType.TV
     );
 
     return res.status(200).json({
       page: results.page,
       totalPages: results.total_pages,
       totalResults: results.total_results,
-      results: results.results.map((result, index) => {
-        const douban = ratings[index];
+      results: results.results.map((result) => {
+        const douban = getDoubanRating(doubanMappings.get(result.id));
         if (douban) {
           result.doubanRating = douban.rating;
           result.doubanId = douban.id;
@@ -151,22 +150,17 @@ tvRoutes.get('/:id/similar', async (req, res, next) => {
       results.results.map((result) => result.id)
     );
 
-    const ratings = await Promise.all(
-      results.results.map(async (result) => {
-        try {
-          return await new DoubanAPI().getRating(result.id, 'tv');
-        } catch (e) {
-          return undefined;
-        }
-      })
+    const doubanMappings = await getDoubanMappings(
+      results.results.map((result) => result.id),
+      MediaType.TV
     );
 
     return res.status(200).json({
       page: results.page,
       totalPages: results.total_pages,
       totalResults: results.total_results,
-      results: results.results.map((result, index) => {
-        const douban = ratings[index];
+      results: results.results.map((result) => {
+        const douban = getDoubanRating(doubanMappings.get(result.id));
         if (douban) {
           result.doubanRating = douban.rating;
           result.doubanId = douban.id;
@@ -247,15 +241,9 @@ tvRoutes.get('/:id/ratingscombined', async (req, res, next) => {
       imdbRatings = await imdbApi.getMovieRatings(tv.external_ids.imdb_id);
     }
 
-    let doubanRating;
-    try {
-      doubanRating = await new DoubanAPI().getRating(
-        Number(req.params.id),
-        'tv'
-      );
-    } catch (e) {
-      // Ignore
-    }
+    const doubanRating = getDoubanRating(
+      await getDoubanMapping(Number(req.params.id), MediaType.TV)
+    );
 
     if (!rtratings && !imdbRatings && !doubanRating) {
       return next({
@@ -1,4 +1,3 @@
-import JellyfinAPI from '@server/api/jellyfin';
 import PlexTvAPI from '@server/api/plextv';
 import TautulliAPI from '@server/api/tautulli';
 import { MediaType } from '@server/constants/media';
@@ -8,6 +7,7 @@ import { getRepository } from '@server/datasource';
 import Media from '@server/entity/Media';
 import { MediaRequest } from '@server/entity/MediaRequest';
 import { User } from '@server/entity/User';
+import UserGroup from '@server/entity/UserGroup';
 import { UserPushSubscription } from '@server/entity/UserPushSubscription';
 import { Watchlist } from '@server/entity/Watchlist';
 import type { WatchlistResponse } from '@server/interfaces/api/discoverInterfaces';
@@ -22,10 +22,13 @@ import { getSettings } from '@server/lib/settings';
 import logger from '@server/logger';
 import { isAuthenticated } from '@server/middleware/auth';
 import { getHostname } from '@server/utils/getHostname';
+import { getJellyfinClient } from '@server/utils/getJellyfinClient';
 import { Router } from 'express';
 import gravatarUrl from 'gravatar-url';
 import { findIndex, sortBy } from 'lodash';
 import { In } from 'typeorm';
+import userJellyfinRoutes, { syncGroupLibraryAccess } from './jellyfin';
+import userNotificationRoutes from './notifications';
 import userSettingsRoutes from './usersettings';
 
 const router = Router();
@@ -100,6 +103,16 @@ router.get('/', async (req, res, next) => {
       .distinct(true)
       .getManyAndCount();
 
+    // Load the groups separately so they do not affect the pagination above
+    const groups = await getRepository(User).find({
+      select: { id: true },
+      where: { id: In(users.map((user) => user.id)) },
+      relations: { groups: true },
+    });
+    users.forEach((user) => {
+      user.groups = groups.find((u) => u.id === user.id)?.groups ?? [];
+    });
+
     return res.status(200).json({
       pageInfo: {
         pages: Math.ceil(userCount / pageSize),
@@ -312,6 +325,12 @@ router.get<{ id: string }>('/:id', async (req, res, next) => {
 });
 
 router.use('/:id/settings', userSettingsRoutes);
+router.use('/:id/notifications', userNotificationRoutes);
+router.use(
+  '/:id/jellyfin',
+  isAuthenticated(Permission.MANAGE_USERS),
+  userJellyfinRoutes
+);
 
 router.get<{ id: string }, UserRequestsResponse>(
   '/:id/requests',
@@ -380,12 +399,23 @@ export const canMakePermissionsChange = (
 router.put<
   Record<string, never>,
   Partial<User>[],
-  { ids: string[]; permissions: number }
+  { ids: string[]; permissions?: number; groupIds?: number[] }
 >('/', isAuthenticated(Permission.MANAGE_USERS), async (req, res, next) => {
   try {
     const isOwner = req.user?.id === 1;
+    const groups = req.body.groupIds
+      ? await getRepository(UserGroup).find({
+          where: { id: In(req.body.groupIds) },
+        })
+      : undefined;
 
-    if (!canMakePermissionsChange(req.body.permissions, req.user)) {
+    if (
+      (req.body.permissions !== undefined &&
+        !canMakePermissionsChange(req.body.permissions, req.user)) ||
+      groups?.some(
+        (group) => !canMakePermissionsChange(group.permissions, req.user)
+      )
+    ) {
       return next({
         status: 403,
         message: 'You do not have permission to grant this level of access',
@@ -404,10 +434,18 @@ router.put<
 
     const updatedUsers = await Promise.all(
       users.map(async (user) => {
-        return userRepository.save(<User>{
+        const previousLibraries = user.getAllowedLibraries();
+        const updatedUser = await userRepository.save(<User>{
           ...user,
-          ...{ permissions: req.body.permissions },
+          ...{
+            permissions: req.body.permissions ?? user.permissions,
+            groups: groups ?? user.groups,
+          },
         });
+
+        await syncGroupLibraryAccess(new User(updatedUser), previousLibraries);
+
+        return updatedUser;
       })
     );
 
@@ -605,7 +643,7 @@ router.post(
       });
 
       const hostname = getHostname();
-      const jellyfinClient = new JellyfinAPI(
+      const jellyfinClient = getJellyfinClient(
         hostname,
         settings.jellyfin.apiKey,
         admin.jellyfinDeviceId ?? ''
@@ -638,10 +676,9 @@ router.post(
             email: jellyfinUser?.Name,
             permissions: settings.main.defaultPermissions,
             avatar: `/avatarproxy/${jellyfinUser?.Id}`,
-            userType:
-              settings.main.mediaServerType === MediaServerType.JELLYFIN
-                ? UserType.JELLYFIN
-                : UserType.EMBY,
+            userType: settings.isMediaServerEnabled(MediaServerType.EMBY)
+              ? UserType.EMBY
+              : UserType.JELLYFIN,
           });
 
           await userRepository.save(newUser);
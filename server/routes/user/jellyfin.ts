@@ -0,0 +1,430 @@
+import type JellyfinAPI from '@server/api/jellyfin';
+import type { JellyfinUserResponse } from '@server/api/jellyfin';
+import { MediaServerType } from '@server/constants/server';
+import { UserType } from '@server/constants/user';
+import { getRepository } from '@server/datasource';
+import { User } from '@server/entity/User';
+import type {
+  UserJellyfinCreateBody,
+  UserJellyfinLibrariesBody,
+  UserJellyfinResponse,
+} from '@server/interfaces/api/userInterfaces';
+import { Permission } from '@server/lib/permissions';
+import { getSettings } from '@server/lib/settings';
+import logger from '@server/logger';
+import { getHostname } from '@server/utils/getHostname';
+import { getJellyfinClient } from '@server/utils/getJellyfinClient';
+import { Router } from 'express';
+
+const canManageAccount = (): Middleware => {
+  return async (req, res, next) => {
+    const settings = getSettings();
+
+    if (
+      !settings.isMediaServerEnabled(MediaServerType.JELLYFIN) &&
+      !settings.isMediaServerEnabled(MediaServerType.EMBY)
+    ) {
+      return next({
+        status: 500,
+        message: 'No Jellyfin or Emby server is configured.',
+      });
+    }
+
+    try {
+      const user = await getRepository(User).findOne({
+        where: { id: Number(req.params.id) },
+      });
+
+      if (!user) {
+        return next({ status: 404, message: 'User not found.' });
+      }
+
+      // Only the owner can manage the media server accounts of other admins
+      if (
+        req.user?.id !== 1 &&
+        req.user?.id !== user.id &&
+        user.hasPermission(Permission.ADMIN)
+      ) {
+        return next({
+          status: 403,
+          message: "You do not have permission to manage this user's account.",
+        });
+      }
+
+      next();
+    } catch (e) {
+      next({ status: 500, message: e.message });
+    }
+  };
+};
+
+const getAdminClient = async (): Promise<JellyfinAPI> => {
+  const admin = await getRepository(User).findOneOrFail({
+    where: { id: 1 },
+    select: ['id', 'jellyfinDeviceId'],
+  });
+
+  return getJellyfinClient(
+    getHostname(),
+    getSettings().jellyfin.apiKey,
+    admin.jellyfinDeviceId ?? ''
+  );
+};
+
+const SERVER_ADMINISTRATOR_ERROR = {
+  status: 403,
+  message: 'Only the owner can manage media server administrator accounts.',
+};
+
+/**
+ * Changing the password or policy of a media server administrator hands over
+ * control of the whole media server, so only the owner is allowed to do so.
+ */
+const isProtectedAccount = (
+  account: JellyfinUserResponse,
+  actingUser?: User
+): boolean => account.Policy.IsAdministrator && actingUser?.id !== 1;
+
+/**
+ * Access to folders which are not part of the library list, such as music
+ * libraries, is left as it is when the library access is changed.
+ */
+const getUnmanagedFolders = (account: JellyfinUserResponse): string[] => {
+  const managedLibraryIds = getSettings().jellyfin.libraries.map(
+    (library) => library.id
+  );
+
+  return account.Policy.EnableAllFolders
+    ? []
+    : (account.Policy.EnabledFolders ?? []).filter(
+        (folderId) => !managedLibraryIds.includes(folderId)
+      );
+};
+
+const filterManagedLibraries = (libraryIds: string[]): string[] =>
+  libraryIds.filter((libraryId) =>
+    getSettings().jellyfin.libraries.some((library) => library.id === libraryId)
+  );
+
+const isSameLibraryAccess = (
+  libraryIds: string[] | null,
+  otherLibraryIds: string[] | null
+): boolean =>
+  libraryIds === null || otherLibraryIds === null
+    ? libraryIds === otherLibraryIds
+    : libraryIds.length === otherLibraryIds.length &&
+      libraryIds.every((libraryId) => otherLibraryIds.includes(libraryId));
+
+/**
+ * New media server accounts can access every library, so they are limited to
+ * the libraries allowed by the user's groups. The account has already been
+ * created at this point, so failures are only logged.
+ */
+export const applyGroupLibraryAccess = async (
+  user: User,
+  jellyfinClient: JellyfinAPI,
+  jellyfinUserId: string
+): Promise<void> => {
+  const allowedLibraries = user.getAllowedLibraries();
+
+  if (!allowedLibraries) {
+    return;
+  }
+
+  try {
+    await jellyfinClient.setLibraryAccess(
+      jellyfinUserId,
+      filterManagedLibraries(allowedLibraries)
+    );
+  } catch (e) {
+    logger.warn('Failed to limit the library access of a new account', {
+      label: 'API',
+      errorMessage: e.message,
+      jellyfinUserId,
+    });
+  }
+};
+
+/**
+ * Updates the library access of the user's media server account after the
+ * libraries allowed by their groups have changed. The groups have already been
+ * saved at this point, so failures are only logged.
+ */
+export const syncGroupLibraryAccess = async (
+  user: User,
+  previousLibraries: string[] | null
+): Promise<void> => {
+  const settings = getSettings();
+  const allowedLibraries = user.getAllowedLibraries();
+
+  if (
+    !user.jellyfinUserId ||
+    isSameLibraryAccess(allowedLibraries, previousLibraries) ||
+    (!settings.isMediaServerEnabled(MediaServerType.JELLYFIN) &&
+      !settings.isMediaServerEnabled(MediaServerType.EMBY))
+  ) {
+    return;
+  }
+
+  try {
+    const jellyfinClient = await getAdminClient();
+    const account = await jellyfinClient.getUserById(user.jellyfinUserId);
+
+    // Media server administrators can access every library regardless
+    if (account.Policy.IsAdministrator) {
+      return;
+    }
+
+    await jellyfinClient.setLibraryAccess(
+      user.jellyfinUserId,
+      allowedLibraries
+        ? [
+            ...getUnmanagedFolders(account),
+            ...filterManagedLibraries(allowedLibraries),
+          ]
+        : null
+    );
+  } catch (e) {
+    logger.warn('Failed to update the library access of an account', {
+      label: 'API',
+      errorMessage: e.message,
+      userId: user.id,
+    });
+  }
+};
+
+const userJellyfinRoutes = Router({ mergeParams: true });
+
+userJellyfinRoutes.use(canManageAccount());
+
+userJellyfinRoutes.get<{ id: string }, UserJellyfinResponse>(
+  '/',
+  async (req, res, next) => {
+    const settings = getSettings();
+
+    try {
+      const user = await getRepository(User).findOneOrFail({
+        where: { id: Number(req.params.id) },
+      });
+
+      if (!user.jellyfinUserId) {
+        return res.status(200).json({
+          linked: false,
+          enableAllLibraries: true,
+          libraries: [],
+        });
+      }
+
+      const jellyfinClient = await getAdminClient();
+      const account = await jellyfinClient.getUserById(user.jellyfinUserId);
+      const enableAllLibraries = account.Policy.EnableAllFolders ?? true;
+
+      return res.status(200).json({
+        linked: true,
+        jellyfinUsername: account.Name,
+        isAdministrator: account.Policy.IsAdministrator,
+        enableAllLibraries,
+        libraries: settings.jellyfin.libraries.map((library) => ({
+          id: library.id,
+          name: library.name,
+          type: library.type,
+          hasAccess:
+            enableAllLibraries ||
+            (account.Policy.EnabledFolders ?? []).includes(library.id),
+        })),
+      });
+    } catch (e) {
+      logger.error('Something went wrong fetching the media server account', {
+        label: 'API',
+        errorMessage: e.message,
+        userId: req.params.id,
+      });
+      next({
+        status: 500,
+        message: 'Unable to fetch the media server account.',
+      });
+    }
+  }
+);
+
+userJellyfinRoutes.post<{ id: string }, unknown, UserJellyfinCreateBody>(
+  '/',
+  async (req, res, next) => {
+    const settings = getSettings();
+    const userRepository = getRepository(User);
+
+    if (!req.body.username || !req.body.password) {
+      return next({
+        status: 400,
+        message: 'You must provide a username and password.',
+      });
+    }
+
+    try {
+      const user = await userRepository.findOneOrFail({
+        where: { id: Number(req.params.id) },
+      });
+
+      if (user.jellyfinUserId) {
+        return next({
+          status: 400,
+          message: 'This user already has a media server account.',
+        });
+      }
+
+      // Plex users would lose their sign-in when they become media server users
+      if (user.userType !== UserType.LOCAL) {
+        return next({
+          status: 400,
+          message: 'Only local users can be given a media server account.',
+        });
+      }
+
+      const jellyfinClient = await getAdminClient();
+      let account;
+
+      try {
+        account = await jellyfinClient.createUser(
+          req.body.username,
+          req.body.password
+        );
+      } catch (e) {
+        return next({
+          status: 400,
+          message:
+            'Unable to create the media server account. The username may already be taken.',
+        });
+      }
+
+      await applyGroupLibraryAccess(user, jellyfinClient, account.Id);
+
+      Object.assign(user, {
+        jellyfinUserId: account.Id,
+        jellyfinUsername: account.Name,
+        jellyfinDeviceId: Buffer.from(
+          `BOT_jellyseerr_${account.Name}`
+        ).toString('base64'),
+        userType: settings.isMediaServerEnabled(MediaServerType.EMBY)
+          ? UserType.EMBY
+          : UserType.JELLYFIN,
+      });
+      await userRepository.save(user);
+
+      logger.info('Created a media server account for a user', {
+        label: 'API',
+        userId: user.id,
+        jellyfinUserId: account.Id,
+      });
+
+      return res.status(204).send();
+    } catch (e) {
+      next({ status: 500, message: e.message });
+    }
+  }
+);
+
+userJellyfinRoutes.post<{ id: string }, unknown, { password: string }>(
+  '/password',
+  async (req, res, next) => {
+    if (!req.body.password || req.body.password.length < 8) {
+      return next({
+        status: 400,
+        message: 'Password must be at least 8 characters long.',
+      });
+    }
+
+    try {
+      const user = await getRepository(User).findOneOrFail({
+        where: { id: Number(req.params.id) },
+      });
+
+      if (!user.jellyfinUserId) {
+        return next({
+          status: 400,
+          message: 'This user does not have a media server account.',
+        });
+      }
+
+      const jellyfinClient = await getAdminClient();
+      const account = await jellyfinClient.getUserById(user.jellyfinUserId);
+
+      if (isProtectedAccount(account, req.user)) {
+        return next(SERVER_ADMINISTRATOR_ERROR);
+      }
+
+      await jellyfinClient.setUserPassword(
+        user.jellyfinUserId,
+        req.body.password
+      );
+
+      return res.status(204).send();
+    } catch (e) {
+      logger.error('Something went wrong resetting a media server password', {
+        label: 'API',
+        errorMessage: e.message,
+        userId: req.params.id,
+      });
+      next({ status: 500, message: 'Unable to reset the password.' });
+    }
+  }
+);
+
+userJellyfinRoutes.post<{ id: string }, unknown, UserJellyfinLibrariesBody>(
+  '/libraries',
+  async (req, res, next) => {
+    const settings = getSettings();
+    const libraryIds = req.body.libraryIds ?? [];
+    const managedLibraryIds = settings.jellyfin.libraries.map(
+      (library) => library.id
+    );
+
+    if (
+      libraryIds.some((libraryId) => !managedLibraryIds.includes(libraryId))
+    ) {
+      return next({ status: 400, message: 'Unknown library.' });
+    }
+
+    try {
+      const user = await getRepository(User).findOneOrFail({
+        where: { id: Number(req.params.id) },
+      });
+
+      if (!user.jellyfinUserId) {
+        return next({
+          status: 400,
+          message: 'This user does not have a media server account.',
+        });
+      }
+
+      const jellyfinClient = await getAdminClient();
+      const account = await jellyfinClient.getUserById(user.jellyfinUserId);
+
+      if (isProtectedAccount(account, req.user)) {
+        return next(SERVER_ADMINISTRATOR_ERROR);
+      }
+
+      if (req.body.enableAllLibraries) {
+        await jellyfinClient.setLibraryAccess(user.jellyfinUserId, null);
+      } else {
+        await jellyfinClient.setLibraryAccess(user.jellyfinUserId, [
+          ...getUnmanagedFolders(account),
+          ...libraryIds,
+        ]);
+      }
+
+      return res.status(204).send();
+    } catch (e) {
+      logger.error(
+        'Something went wrong updating media server library access',
+        {
+          label: 'API',
+          errorMessage: e.message,
+          userId: req.params.id,
+        }
+      );
+      next({ status: 500, message: 'Unable to update library access.' });
+    }
+  }
+);
+
+export default userJellyfinRoutes;
@@ -0,0 +1,144 @@
+import { getRepository } from '@server/datasource';
+import UserNotification from '@server/entity/UserNotification';
+import type { UserNotificationsResponse } from '@server/interfaces/api/userInterfaces';
+import logger from '@server/logger';
+import { Router } from 'express';
+import { z } from 'zod';
+
+const isOwnInbox = (): Middleware => {
+  return (req, res, next) => {
+    if (req.user?.id !== Number(req.params.id)) {
+      return next({
+        status: 403,
+        message:
+          "You do not have permission to view this user's notifications.",
+      });
+    }
+    next();
+  };
+};
+
+const userNotificationRoutes = Router({ mergeParams: true });
+
+userNotificationRoutes.use(isOwnInbox());
+
+const userNotificationsGet = z.object({
+  take: z.coerce.number().int().positive().max(100).default(20),
+  skip: z.coerce.number().int().nonnegative().default(0),
+  filter: z.enum(['all', 'unread']).default('all'),
+});
+
+userNotificationRoutes.get<{ id: string }, UserNotificationsResponse>(
+  '/',
+  async (req, res, next) => {
+    try {
+      const { take, skip, filter } = userNotificationsGet.parse(req.query);
+      const notificationRepository = getRepository(UserNotification);
+      const userId = Number(req.params.id);
+
+      const [notifications, notificationCount] =
+        await notificationRepository.findAndCount({
+          where: {
+            user: { id: userId },
+            ...(filter === 'unread' ? { isRead: false } : {}),
+          },
+          order: { createdAt: 'DESC', id: 'DESC' },
+          take,
+          skip,
+        });
+
+      const unreadCount = await notificationRepository.count({
+        where: { user: { id: userId }, isRead: false },
+      });
+
+      return res.status(200).json({
+        pageInfo: {
+          pages: Math.ceil(notificationCount / take),
+          pageSize: take,
+          results: notificationCount,
+          page: Math.ceil(skip / take) + 1,
+        },
+        results: notifications,
+        unreadCount,
+      });
+    } catch (e) {
+      logger.error('Something went wrong while retrieving notifications', {
+        label: 'API',
+        userId: req.params.id,
+        errorMessage: e.message,
+      });
+      return next({
+        status: 500,
+        message: 'Unable to retrieve notifications.',
+      });
+    }
+  }
+);
+
+userNotificationRoutes.post<{ id: string }>(
+  '/read-all',
+  async (req, res, next) => {
+    try {
+      await getRepository(UserNotification)
+        .createQueryBuilder()
+        .update()
+        .set({ isRead: true })
+        .where('userId = :userId', { userId: Number(req.params.id) })
+        .andWhere('isRead = :isRead', { isRead: false })
+        .execute();
+
+      return res.status(204).send();
+    } catch (e) {
+      logger.error('Something went wrong while marking notifications as read', {
+        label: 'API',
+        userId: req.params.id,
+        errorMessage: e.message,
+      });
+      return next({
+        status: 500,
+        message: 'Unable to mark notifications as read.',
+      });
+    }
+  }
+);
+
+userNotificationRoutes.post<{ id: string; notificationId: string }>(
+  '/:notificationId/read',
+  async (req, res, next) => {
+    const notificationRepository = getRepository(UserNotification);
+
+    try {
+      const notification = await notificationRepository.findOne({
+        where: {
+          id: Number(req.params.notificationId),
+          user: { id: Number(req.params.id) },
+        },
+      });
+
+      if (!notification) {
+        return next({ status: 404, message: 'Notification not found.' });
+      }
+
+      notification.isRead = true;
+      await notificationRepository.save(notification);
+
+      return res.status(200).json(notification);
+    } catch (e) {
+      logger.error(
+        'Something went wrong while marking a notification as read',
+        {
+          label: 'API',
+          userId: req.params.id,
+          notificationId: req.params.notificationId,
+          errorMessage: e.message,
+        }
+      );
+      return next({
+        status: 500,
+        message: 'Unable to mark the notification as read.',
+      });
+    }
+  }
+);
+
+export default userNotificationRoutes;
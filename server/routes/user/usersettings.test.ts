@@ -0,0 +1,159 @@
+import { User } from '@server/entity/User';
+import { Permission } from '@server/lib/permissions';
+import userRoutes from '@server/routes/user';
+import type { NextFunction, Request, Response } from 'express';
+import express from 'express';
+import assert from 'node:assert/strict';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { after, before, describe, it } from 'node:test';
+
+// Endpoints which manage how the user signs in
+const PROTECTED_ROUTES: [string, string][] = [
+  ['POST', '/password'],
+  ['POST', '/linked-accounts/plex'],
+  ['DELETE', '/linked-accounts/plex'],
+  ['POST', '/linked-accounts/jellyfin'],
+  ['DELETE', '/linked-accounts/jellyfin'],
+  ['POST', '/linked-accounts/oidc'],
+  ['DELETE', '/linked-accounts/oidc'],
+  ['POST', '/two-factor/setup'],
+  ['POST', '/two-factor/enable'],
+  ['POST', '/two-factor/recovery-codes'],
+  ['POST', '/two-factor/disable'],
+  ['DELETE', '/two-factor'],
+  ['POST', '/api-keys'],
+  ['DELETE', '/api-keys/1'],
+];
+
+/**
+ * Serves the user routes to an admin, who would otherwise pass the own
+ * profile checks, and returns the URL of the settings of user 2.
+ */
+const startServer = async (
+  apiKeyId?: number
+): Promise<{ server: Server; baseUrl: string }> => {
+  const app = express();
+
+  app.use(express.json());
+  app.use((req, _res, next) => {
+    req.user = new User({ id: 2, permissions: Permission.ADMIN });
+    req.apiKeyId = apiKeyId;
+    next();
+  });
+  app.use('/user', userRoutes);
+  app.use(
+    (
+      err: { status: number; message: string },
+      _req: Request,
+      res: Response,
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      _next: NextFunction
+    ) => {
+      res.status(err.status || 500).json({ message: err.message });
+    }
+  );
+
+  const server = app.listen(0, '127.0.0.1');
+  await new Promise((resolve) => server.once('listening', resolve));
+
+  return {
+    server,
+    baseUrl: `http://127.0.0.1:${
+      (server.address() as AddressInfo).port
+    }/user/2/settings`,
+  };
+};
+
+const QUIET_HOURS_WINDOW = { days: [0, 6], start: '22:00', end: '07:30' };
+
+const INVALID_QUIET_HOURS: [string, unknown][] = [
+  ['which are not an object', '22:00-07:30'],
+  [
+    'without a boolean state',
+    { enabled: 'yes', timezone: 'UTC', windows: [QUIET_HOURS_WINDOW] },
+  ],
+  ['without windows', { enabled: true, timezone: 'UTC', windows: {} }],
+  [
+    'with a day outside of the week',
+    {
+      enabled: true,
+      timezone: 'UTC',
+      windows: [{ ...QUIET_HOURS_WINDOW, days: [7] }],
+    },
+  ],
+  [
+    'with a day which is not an integer',
+    {
+      enabled: true,
+      timezone: 'UTC',
+      windows: [{ ...QUIET_HOURS_WINDOW, days: ['1'] }],
+    },
+  ],
+  [
+    'with a start time outside of the HH:mm format',
+    {
+      enabled: true,
+      timezone: 'UTC',
+      windows: [{ ...QUIET_HOURS_WINDOW, start: '7:30' }],
+    },
+  ],
+  [
+    'with an invalid end time',
+    {
+      enabled: true,
+      timezone: 'UTC',
+      windows: [{ ...QUIET_HOURS_WINDOW, end: '24:00' }],
+    },
+  ],
+];
+
+describe('user settings with a per-user API key', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  before(async () => {
+    ({ server, baseUrl } = await startServer(1));
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  for (const [method, path] of PROTECTED_ROUTES) {
+    it(`rejects ${method} ${path}`, async () => {
+      const response = await fetch(`${baseUrl}${path}`, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({}),
+      });
+
+      assert.equal(response.status, 403);
+    });
+  }
+});
+
+describe('user notification settings', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  before(async () => {
+    ({ server, baseUrl } = await startServer());
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  for (const [description, quietHours] of INVALID_QUIET_HOURS) {
+    it(`rejects quiet hours ${description}`, async () => {
+      const response = await fetch(`${baseUrl}/notifications`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ quietHours }),
+      });
+
+      assert.equal(response.status, 400);
+    });
+  }
+});
@@ -1,25 +1,40 @@
-import JellyfinAPI from '@server/api/jellyfin';
 import PlexTvAPI from '@server/api/plextv';
 import { ApiErrorCode } from '@server/constants/error';
 import { MediaServerType } from '@server/constants/server';
 import { UserType } from '@server/constants/user';
 import { getRepository } from '@server/datasource';
+import { ApiKey } from '@server/entity/ApiKey';
 import { User } from '@server/entity/User';
+import UserGroup from '@server/entity/UserGroup';
 import { UserSettings } from '@server/entity/UserSettings';
 import type {
+  UserApiKeyCreateResponse,
+  UserApiKeyResponse,
   UserSettingsGeneralResponse,
   UserSettingsNotificationsResponse,
+  UserSettingsTwoFactorResponse,
 } from '@server/interfaces/api/userSettingsInterfaces';
-import { Permission } from '@server/lib/permissions';
+import { isValidQuietHours } from '@server/lib/notifications/quietHours';
+import { createAuthorizationUrl } from '@server/lib/oidc';
+import { hasPermission, Permission } from '@server/lib/permissions';
 import { getSettings } from '@server/lib/settings';
+import {
+  consumeTotpCode,
+  generateRecoveryCodes,
+  generateTwoFactorSecret,
+  getOtpAuthUrl,
+  isTwoFactorRequired,
+} from '@server/lib/twoFactor';
 import logger from '@server/logger';
-import { isAuthenticated } from '@server/middleware/auth';
+import { isAuthenticated, isNotApiKeyRequest } from '@server/middleware/auth';
 import { ApiError } from '@server/types/error';
 import { getHostname } from '@server/utils/getHostname';
+import { getJellyfinClient } from '@server/utils/getJellyfinClient';
 import { Router } from 'express';
 import net from 'net';
-import { Not } from 'typeorm';
+import { In, Not } from 'typeorm';
 import { canMakePermissionsChange } from '.';
+import { syncGroupLibraryAccess } from './jellyfin';
 
 const isOwnProfile = (): Middleware => {
   return (req, res, next) => {
@@ -56,9 +71,6 @@ userSettingsRoutes.get<{ id: string }, UserSettingsGeneralResponse>(
   '/main',
   isOwnProfileOrAdmin(),
   async (req, res, next) => {
-    const {
-      main: { defaultQuotas },
-    } = getSettings();
     const userRepository = getRepository(User);
 
     try {
@@ -70,6 +82,8 @@ userSettingsRoutes.get<{ id: string }, UserSettingsGeneralResponse>(
         return next({ status: 404, message: 'User not found.' });
       }
 
+      const defaultQuotas = user.getDefaultQuotas();
+
       return res.status(200).json({
         username: user.username,
         email: user.email,
@@ -82,10 +96,18 @@ userSettingsRoutes.get<{ id: string }, UserSettingsGeneralResponse>(
         movieQuotaDays: user.movieQuotaDays,
         tvQuotaLimit: user.tvQuotaLimit,
         tvQuotaDays: user.tvQuotaDays,
+        movieQuotaType: user.movieQuotaType,
+        movieQuotaPeriod: user.movieQuotaPeriod,
+        tvQuotaType: user.tvQuotaType,
+        tvQuotaPeriod: user.tvQuotaPeriod,
         globalMovieQuotaDays: defaultQuotas.movie.quotaDays,
         globalMovieQuotaLimit: defaultQuotas.movie.quotaLimit,
+        globalMovieQuotaType: defaultQuotas.movie.quotaType,
+        globalMovieQuotaPeriod: defaultQuotas.movie.quotaPeriod,
         globalTvQuotaDays: defaultQuotas.tv.quotaDays,
         globalTvQuotaLimit: defaultQuotas.tv.quotaLimit,
+        globalTvQuotaType: defaultQuotas.tv.quotaType,
+        globalTvQuotaPeriod: defaultQuotas.tv.quotaPeriod,
         watchlistSyncMovies: user.settings?.watchlistSyncMovies,
         watchlistSyncTv: user.settings?.watchlistSyncTv,
       });
@@ -129,6 +151,15 @@ userSettingsRoutes.post<
       where: { email: user.email, id: Not(user.id) },
     });
 
+    // The email address can be used to reset the password, so a leaked API
+    // key must not be enough to change it
+    if (oldEmail !== user.email && req.apiKeyId) {
+      return next({
+        status: 403,
+        message: 'The email address can not be changed with an API key.',
+      });
+    }
+
     if (oldEmail !== user.email && existingUser) {
       throw new ApiError(400, ApiErrorCode.InvalidEmail);
     }
@@ -142,6 +173,10 @@ userSettingsRoutes.post<
       user.movieQuotaLimit = req.body.movieQuotaLimit;
       user.tvQuotaDays = req.body.tvQuotaDays;
       user.tvQuotaLimit = req.body.tvQuotaLimit;
+      user.movieQuotaType = req.body.movieQuotaType;
+      user.movieQuotaPeriod = req.body.movieQuotaPeriod;
+      user.tvQuotaType = req.body.tvQuotaType;
+      user.tvQuotaPeriod = req.body.tvQuotaPeriod;
     }
 
     if (!user.settings) {
@@ -216,82 +251,88 @@ userSettingsRoutes.post<
   { id: string },
   null,
   { currentPassword?: string; newPassword: string }
->('/password', isOwnProfileOrAdmin(), async (req, res, next) => {
-  const userRepository = getRepository(User);
+>(
+  '/password',
+  isNotApiKeyRequest(),
+  isOwnProfileOrAdmin(),
+  async (req, res, next) => {
+    const userRepository = getRepository(User);
 
-  try {
-    const user = await userRepository.findOne({
-      where: { id: Number(req.params.id) },
-    });
+    try {
+      const user = await userRepository.findOne({
+        where: { id: Number(req.params.id) },
+      });
 
-    const userWithPassword = await userRepository.findOne({
-      select: ['id', 'password'],
-      where: { id: Number(req.params.id) },
-    });
+      const userWithPassword = await userRepository.findOne({
+        select: ['id', 'password'],
+        where: { id: Number(req.params.id) },
+      });
 
-    if (!user || !userWithPassword) {
-      return next({ status: 404, message: 'User not found.' });
-    }
+      if (!user || !userWithPassword) {
+        return next({ status: 404, message: 'User not found.' });
+      }
 
-    if (req.body.newPassword.length < 8) {
-      return next({
-        status: 400,
-        message: 'Password must be at least 8 characters.',
-      });
-    }
+      if (req.body.newPassword.length < 8) {
+        return next({
+          status: 400,
+          message: 'Password must be at least 8 characters.',
+        });
+      }
 
-    if (
-      (user.id === 1 && req.user?.id !== 1) ||
-      (user.hasPermission(Permission.ADMIN) &&
-        user.id !== req.user?.id &&
-        req.user?.id !== 1)
-    ) {
-      return next({
-        status: 403,
-        message: "You do not have permission to modify this user's password.",
-      });
-    }
+      if (
+        (user.id === 1 && req.user?.id !== 1) ||
+        (user.hasPermission(Permission.ADMIN) &&
+          user.id !== req.user?.id &&
+          req.user?.id !== 1)
+      ) {
+        return next({
+          status: 403,
+          message: "You do not have permission to modify this user's password.",
+        });
+      }
+
+      // If the user has the permission to manage users and they are not
+      // editing themselves, we will just set the new password
+      if (
+        req.user?.hasPermission(Permission.MANAGE_USERS) &&
+        req.user?.id !== user.id
+      ) {
+        await user.setPassword(req.body.newPassword);
+        await userRepository.save(user);
+        logger.debug('Password overriden by user.', {
+          label: 'User Settings',
+          userEmail: user.email,
+          changingUser: req.user.email,
+        });
+        return res.status(204).send();
+      }
+
+      // If the user has a password, we need to check the currentPassword is correct
+      if (
+        user.password &&
+        (!req.body.currentPassword ||
+          !(await userWithPassword.passwordMatch(req.body.currentPassword)))
+      ) {
+        logger.debug(
+          'Attempt to change password for user failed. Invalid current password provided.',
+          { label: 'User Settings', userEmail: user.email }
+        );
+        return next({ status: 403, message: 'Current password is invalid.' });
+      }
 
-    // If the user has the permission to manage users and they are not
-    // editing themselves, we will just set the new password
-    if (
-      req.user?.hasPermission(Permission.MANAGE_USERS) &&
-      req.user?.id !== user.id
-    ) {
       await user.setPassword(req.body.newPassword);
       await userRepository.save(user);
-      logger.debug('Password overriden by user.', {
-        label: 'User Settings',
-        userEmail: user.email,
-        changingUser: req.user.email,
-      });
-      return res.status(204).send();
-    }
 
-    // If the user has a password, we need to check the currentPassword is correct
-    if (
-      user.password &&
-      (!req.body.currentPassword ||
-        !(await userWithPassword.passwordMatch(req.body.currentPassword)))
-    ) {
-      logger.debug(
-        'Attempt to change password for user failed. Invalid current password provided.',
-        { label: 'User Settings', userEmail: user.email }
-      );
-      return next({ status: 403, message: 'Current password is invalid.' });
+      return res.status(204).send();
+    } catch (e) {
+      next({ status: 500, message: e.message });
     }
-
-    await user.setPassword(req.body.newPassword);
-    await userRepository.save(user);
-
-    return res.status(204).send();
-  } catch (e) {
-    next({ status: 500, message: e.message });
   }
-});
+);
 
 userSettingsRoutes.post<{ authToken: string }>(
   '/linked-accounts/plex',
+  isNotApiKeyRequest(),
   isOwnProfile(),
   async (req, res) => {
     const settings = getSettings();
@@ -301,7 +342,7 @@ userSettingsRoutes.post<{ authToken: string }>(
       return res.status(404).json({ code: ApiErrorCode.Unauthorized });
     }
     // Make sure Plex login is enabled
-    if (settings.main.mediaServerType !== MediaServerType.PLEX) {
+    if (!settings.isMediaServerEnabled(MediaServerType.PLEX)) {
       return res.status(500).json({ message: 'Plex login is disabled' });
     }
 
@@ -316,7 +357,11 @@ userSettingsRoutes.post<{ authToken: string }>(
       });
     }
 
-    const user = req.user;
+    // Requests made with an API key carry a copy of the user which only holds
+    // the key's permissions, so the stored user is updated instead
+    const user = await userRepository.findOneOrFail({
+      where: { id: req.user.id },
+    });
 
     // Emails do not match
     if (user.email !== account.email) {
@@ -339,13 +384,14 @@ userSettingsRoutes.post<{ authToken: string }>(
 
 userSettingsRoutes.delete<{ id: string }>(
   '/linked-accounts/plex',
+  isNotApiKeyRequest(),
   isOwnProfileOrAdmin(),
   async (req, res) => {
     const settings = getSettings();
     const userRepository = getRepository(User);
 
     // Make sure Plex login is enabled
-    if (settings.main.mediaServerType !== MediaServerType.PLEX) {
+    if (!settings.isMediaServerEnabled(MediaServerType.PLEX)) {
       return res.status(500).json({ message: 'Plex login is disabled' });
     }
 
@@ -390,6 +436,7 @@ userSettingsRoutes.delete<{ id: string }>(
 
 userSettingsRoutes.post<{ username: string; password: string }>(
   '/linked-accounts/jellyfin',
+  isNotApiKeyRequest(),
   isOwnProfile(),
   async (req, res) => {
     const settings = getSettings();
@@ -400,8 +447,8 @@ userSettingsRoutes.post<{ username: string; password: string }>(
     }
     // Make sure jellyfin login is enabled
     if (
-      settings.main.mediaServerType !== MediaServerType.JELLYFIN &&
-      settings.main.mediaServerType !== MediaServerType.EMBY
+      !settings.isMediaServerEnabled(MediaServerType.JELLYFIN) &&
+      !settings.isMediaServerEnabled(MediaServerType.EMBY)
     ) {
       return res
         .status(500)
@@ -426,7 +473,7 @@ userSettingsRoutes.post<{ username: string; password: string }>(
         : `BOT_jellyseerr_${req.user.username ?? ''}`
     ).toString('base64');
 
-    const jellyfinserver = new JellyfinAPI(hostname, undefined, deviceId);
+    const jellyfinserver = getJellyfinClient(hostname, undefined, deviceId);
 
     const ip = req.ip;
     let clientIp: string | undefined;
@@ -457,13 +504,16 @@ userSettingsRoutes.post<{ username: string; password: string }>(
         });
       }
 
-      const user = req.user;
+      // Requests made with an API key carry a copy of the user which only
+      // holds the key's permissions, so the stored user is updated instead
+      const user = await userRepository.findOneOrFail({
+        where: { id: req.user.id },
+      });
 
       // valid jellyfin user found, link to current user
-      user.userType =
-        settings.main.mediaServerType === MediaServerType.EMBY
-          ? UserType.EMBY
-          : UserType.JELLYFIN;
+      user.userType = settings.isMediaServerEnabled(MediaServerType.EMBY)
+        ? UserType.EMBY
+        : UserType.JELLYFIN;
       user.jellyfinUserId = account.User.Id;
       user.jellyfinUsername = account.User.Name;
       user.jellyfinAuthToken = account.AccessToken;
@@ -491,6 +541,7 @@ userSettingsRoutes.post<{ username: string; password: string }>(
 
 userSettingsRoutes.delete<{ id: string }>(
   '/linked-accounts/jellyfin',
+  isNotApiKeyRequest(),
   isOwnProfileOrAdmin(),
   async (req, res) => {
     const settings = getSettings();
@@ -498,8 +549,8 @@ userSettingsRoutes.delete<{ id: string }>(
 
     // Make sure jellyfin login is enabled
     if (
-      settings.main.mediaServerType !== MediaServerType.JELLYFIN &&
-      settings.main.mediaServerType !== MediaServerType.EMBY
+      !settings.isMediaServerEnabled(MediaServerType.JELLYFIN) &&
+      !settings.isMediaServerEnabled(MediaServerType.EMBY)
     ) {
       return res
         .status(500)
@@ -546,6 +597,81 @@ userSettingsRoutes.delete<{ id: string }>(
   }
 );
 
+userSettingsRoutes.post<{ id: string }, { redirectUrl: string }>(
+  '/linked-accounts/oidc',
+  isNotApiKeyRequest(),
+  isOwnProfile(),
+  async (req, res, next) => {
+    const settings = getSettings();
+
+    if (!req.user) {
+      return next({ status: 401, message: ApiErrorCode.Unauthorized });
+    }
+
+    // Make sure OpenID Connect login is enabled
+    if (!settings.oidc.enabled) {
+      return next({
+        status: 500,
+        message: 'OpenID Connect sign-in is disabled',
+      });
+    }
+
+    try {
+      const redirectUrl = await createAuthorizationUrl(req, req.user.id);
+
+      return res.status(200).json({ redirectUrl });
+    } catch (e) {
+      logger.error('Something went wrong preparing OpenID Connect link', {
+        label: 'API',
+        errorMessage: e.message,
+        userId: req.user.id,
+      });
+      return next({
+        status: 500,
+        message: 'Unable to reach the OpenID Connect provider.',
+      });
+    }
+  }
+);
+
+userSettingsRoutes.delete<{ id: string }>(
+  '/linked-accounts/oidc',
+  isNotApiKeyRequest(),
+  isOwnProfileOrAdmin(),
+  async (req, res) => {
+    const userRepository = getRepository(User);
+
+    try {
+      const user = await userRepository
+        .createQueryBuilder('user')
+        .addSelect('user.password')
+        .where({
+          id: Number(req.params.id),
+        })
+        .getOne();
+
+      if (!user) {
+        return res.status(404).json({ message: 'User not found.' });
+      }
+
+      // OpenID Connect may be the only way a local user is able to sign in
+      if (user.userType === UserType.LOCAL && !user.password) {
+        return res.status(400).json({
+          message: 'User does not have a local email or password set.',
+        });
+      }
+
+      user.oidcSubject = null;
+      user.oidcUsername = null;
+      await userRepository.save(user);
+
+      return res.status(204).send();
+    } catch (e) {
+      return res.status(500).json({ message: e.message });
+    }
+  }
+);
+
 userSettingsRoutes.get<{ id: string }, UserSettingsNotificationsResponse>(
   '/notifications',
   isOwnProfileOrAdmin(),
@@ -581,6 +707,13 @@ userSettingsRoutes.get<{ id: string }, UserSettingsNotificationsResponse>(
         telegramChatId: user.settings?.telegramChatId,
         telegramMessageThreadId: user.settings?.telegramMessageThreadId,
         telegramSendSilently: user.settings?.telegramSendSilently,
+        matrixEnabled: settings.matrix.enabled,
+        matrixRoomId: user.settings?.matrixRoomId,
+        appriseEnabled: settings.apprise.enabled,
+        appriseUrls: user.settings?.appriseUrls,
+        digestFrequency: user.settings?.digestFrequency,
+        digestTime: user.settings?.digestTime,
+        quietHours: user.settings?.quietHours,
         webPushEnabled: settings.webpush.enabled,
         notificationTypes: user.settings?.notificationTypes ?? {},
       });
@@ -596,6 +729,10 @@ userSettingsRoutes.post<{ id: string }, UserSettingsNotificationsResponse>(
   async (req, res, next) => {
     const userRepository = getRepository(User);
 
+    if (!isValidQuietHours(req.body.quietHours)) {
+      return next({ status: 400, message: 'Invalid quiet hours.' });
+    }
+
     try {
       const user = await userRepository.findOne({
         where: { id: Number(req.params.id) },
@@ -624,6 +761,11 @@ userSettingsRoutes.post<{ id: string }, UserSettingsNotificationsResponse>(
           telegramChatId: req.body.telegramChatId,
           telegramMessageThreadId: req.body.telegramMessageThreadId,
           telegramSendSilently: req.body.telegramSendSilently,
+          matrixRoomId: req.body.matrixRoomId,
+          appriseUrls: req.body.appriseUrls,
+          digestFrequency: req.body.digestFrequency,
+          digestTime: req.body.digestTime,
+          quietHours: req.body.quietHours,
           notificationTypes: req.body.notificationTypes,
         });
       } else {
@@ -638,6 +780,11 @@ userSettingsRoutes.post<{ id: string }, UserSettingsNotificationsResponse>(
         user.settings.telegramMessageThreadId =
           req.body.telegramMessageThreadId;
         user.settings.telegramSendSilently = req.body.telegramSendSilently;
+        user.settings.matrixRoomId = req.body.matrixRoomId;
+        user.settings.appriseUrls = req.body.appriseUrls;
+        user.settings.digestFrequency = req.body.digestFrequency;
+        user.settings.digestTime = req.body.digestTime;
+        user.settings.quietHours = req.body.quietHours;
         user.settings.notificationTypes = Object.assign(
           {},
           user.settings.notificationTypes,
@@ -657,6 +804,11 @@ userSettingsRoutes.post<{ id: string }, UserSettingsNotificationsResponse>(
         telegramChatId: user.settings.telegramChatId,
         telegramMessageThreadId: user.settings.telegramMessageThreadId,
         telegramSendSilently: user.settings.telegramSendSilently,
+        matrixRoomId: user.settings.matrixRoomId,
+        appriseUrls: user.settings.appriseUrls,
+        digestFrequency: user.settings.digestFrequency,
+        digestTime: user.settings.digestTime,
+        quietHours: user.settings.quietHours,
         notificationTypes: user.settings.notificationTypes,
       });
     } catch (e) {
@@ -665,7 +817,10 @@ userSettingsRoutes.post<{ id: string }, UserSettingsNotificationsResponse>(
   }
 );
 
-userSettingsRoutes.get<{ id: string }, { permissions?: number }>(
+userSettingsRoutes.get<
+  { id: string },
+  { permissions?: number; groupIds?: number[] }
+>(
   '/permissions',
   isAuthenticated(Permission.MANAGE_USERS),
   async (req, res, next) => {
@@ -680,7 +835,10 @@ userSettingsRoutes.get<{ id: string }, { permissions?: number }>(
         return next({ status: 404, message: 'User not found.' });
       }
 
-      return res.status(200).json({ permissions: user.permissions });
+      return res.status(200).json({
+        permissions: user.permissions,
+        groupIds: user.groups.map((group) => group.id),
+      });
     } catch (e) {
       next({ status: 500, message: e.message });
     }
@@ -689,8 +847,8 @@ userSettingsRoutes.get<{ id: string }, { permissions?: number }>(
 
 userSettingsRoutes.post<
   { id: string },
-  { permissions?: number },
-  { permissions: number }
+  { permissions?: number; groupIds?: number[] },
+  { permissions: number; groupIds?: number[] }
 >(
   '/permissions',
   isAuthenticated(Permission.MANAGE_USERS),
@@ -714,17 +872,422 @@ userSettingsRoutes.post<
         });
       }
 
-      if (!canMakePermissionsChange(req.body.permissions, req.user)) {
+      const groups = req.body.groupIds
+        ? await getRepository(UserGroup).find({
+            where: { id: In(req.body.groupIds) },
+          })
+        : user.groups;
+
+      if (
+        !canMakePermissionsChange(req.body.permissions, req.user) ||
+        groups.some(
+          (group) => !canMakePermissionsChange(group.permissions, req.user)
+        )
+      ) {
         return next({
           status: 403,
           message: 'You do not have permission to grant this level of access',
         });
       }
+      const previousLibraries = user.getAllowedLibraries();
       user.permissions = req.body.permissions;
+      user.groups = groups;
+
+      await userRepository.save(user);
+      await syncGroupLibraryAccess(user, previousLibraries);
+
+      return res.status(200).json({
+        permissions: user.permissions,
+        groupIds: user.groups.map((group) => group.id),
+      });
+    } catch (e) {
+      next({ status: 500, message: e.message });
+    }
+  }
+);
+
+const getTwoFactorUser = (id: number): Promise<User | null> =>
+  getRepository(User)
+    .createQueryBuilder('user')
+    .addSelect([
+      'user.twoFactorSecret',
+      'user.twoFactorRecoveryCodes',
+      'user.twoFactorLastUsedStep',
+    ])
+    .leftJoinAndSelect('user.groups', 'groups')
+    .where({ id })
+    .getOne();
+
+userSettingsRoutes.get<{ id: string }, UserSettingsTwoFactorResponse>(
+  '/two-factor',
+  isOwnProfileOrAdmin(),
+  async (req, res, next) => {
+    try {
+      const user = await getTwoFactorUser(Number(req.params.id));
+
+      if (!user) {
+        return next({ status: 404, message: 'User not found.' });
+      }
+
+      return res.status(200).json({
+        enabled: user.twoFactorEnabled,
+        required: isTwoFactorRequired(user),
+        recoveryCodesRemaining: user.twoFactorRecoveryCodes?.length ?? 0,
+      });
+    } catch (e) {
+      next({ status: 500, message: e.message });
+    }
+  }
+);
+
+userSettingsRoutes.post<{ id: string }, { secret: string; otpauthUrl: string }>(
+  '/two-factor/setup',
+  isNotApiKeyRequest(),
+  isOwnProfile(),
+  async (req, res, next) => {
+    if (!req.user || !req.session) {
+      return next({ status: 401, message: ApiErrorCode.Unauthorized });
+    }
+
+    if (req.user.twoFactorEnabled) {
+      return next({
+        status: 400,
+        message: 'Two-factor authentication is already enabled.',
+      });
+    }
+
+    // The secret is only saved to the user once a valid code is confirmed
+    const secret = generateTwoFactorSecret();
+    req.session.twoFactorSetupSecret = secret;
 
+    return res
+      .status(200)
+      .json({ secret, otpauthUrl: getOtpAuthUrl(secret, req.user.email) });
+  }
+);
+
+userSettingsRoutes.post<
+  { id: string },
+  { recoveryCodes: string[] },
+  { code: string }
+>(
+  '/two-factor/enable',
+  isNotApiKeyRequest(),
+  isOwnProfile(),
+  async (req, res, next) => {
+    const userRepository = getRepository(User);
+    const secret = req.session?.twoFactorSetupSecret;
+
+    try {
+      const user = await getTwoFactorUser(Number(req.params.id));
+
+      if (!user) {
+        return next({ status: 404, message: 'User not found.' });
+      }
+
+      if (
+        !secret ||
+        !(await consumeTotpCode(user, secret, req.body.code ?? ''))
+      ) {
+        throw new ApiError(400, ApiErrorCode.InvalidTwoFactorCode);
+      }
+
+      const { codes, hashes } = generateRecoveryCodes();
+      user.twoFactorEnabled = true;
+      user.twoFactorSecret = secret;
+      user.twoFactorRecoveryCodes = hashes;
+      await userRepository.save(user);
+
+      if (req.session) {
+        delete req.session.twoFactorSetupSecret;
+      }
+
+      logger.info('User enabled two-factor authentication', {
+        label: 'API',
+        userId: user.id,
+      });
+
+      return res.status(200).json({ recoveryCodes: codes });
+    } catch (e) {
+      if (e instanceof ApiError) {
+        return next({ status: e.statusCode, message: e.errorCode });
+      }
+
+      next({ status: 500, message: e.message });
+    }
+  }
+);
+
+userSettingsRoutes.post<
+  { id: string },
+  { recoveryCodes: string[] },
+  { code: string }
+>(
+  '/two-factor/recovery-codes',
+  isNotApiKeyRequest(),
+  isOwnProfile(),
+  async (req, res, next) => {
+    const userRepository = getRepository(User);
+
+    try {
+      const user = await getTwoFactorUser(Number(req.params.id));
+
+      if (!user) {
+        return next({ status: 404, message: 'User not found.' });
+      }
+
+      if (
+        !user.twoFactorEnabled ||
+        !user.twoFactorSecret ||
+        !(await consumeTotpCode(
+          user,
+          user.twoFactorSecret,
+          req.body.code ?? ''
+        ))
+      ) {
+        throw new ApiError(400, ApiErrorCode.InvalidTwoFactorCode);
+      }
+
+      const { codes, hashes } = generateRecoveryCodes();
+      user.twoFactorRecoveryCodes = hashes;
       await userRepository.save(user);
 
-      return res.status(200).json({ permissions: user.permissions });
+      return res.status(200).json({ recoveryCodes: codes });
+    } catch (e) {
+      if (e instanceof ApiError) {
+        return next({ status: e.statusCode, message: e.errorCode });
+      }
+
+      next({ status: 500, message: e.message });
+    }
+  }
+);
+
+userSettingsRoutes.post<{ id: string }, unknown, { code: string }>(
+  '/two-factor/disable',
+  isNotApiKeyRequest(),
+  isOwnProfile(),
+  async (req, res, next) => {
+    const userRepository = getRepository(User);
+
+    try {
+      const user = await getTwoFactorUser(Number(req.params.id));
+
+      if (!user) {
+        return next({ status: 404, message: 'User not found.' });
+      }
+
+      if (isTwoFactorRequired(user)) {
+        return next({
+          status: 403,
+          message: 'Two-factor authentication is required for your account.',
+        });
+      }
+
+      if (
+        !user.twoFactorSecret ||
+        !(await consumeTotpCode(
+          user,
+          user.twoFactorSecret,
+          req.body.code ?? ''
+        ))
+      ) {
+        throw new ApiError(400, ApiErrorCode.InvalidTwoFactorCode);
+      }
+
+      user.twoFactorEnabled = false;
+      user.twoFactorSecret = null;
+      user.twoFactorRecoveryCodes = [];
+      user.twoFactorLastUsedStep = null;
+      await userRepository.save(user);
+
+      logger.info('User disabled two-factor authentication', {
+        label: 'API',
+        userId: user.id,
+      });
+
+      return res.status(204).send();
+    } catch (e) {
+      if (e instanceof ApiError) {
+        return next({ status: e.statusCode, message: e.errorCode });
+      }
+
+      next({ status: 500, message: e.message });
+    }
+  }
+);
+
+userSettingsRoutes.delete<{ id: string }>(
+  '/two-factor',
+  isNotApiKeyRequest(),
+  isAuthenticated(Permission.MANAGE_USERS),
+  async (req, res, next) => {
+    const userRepository = getRepository(User);
+
+    try {
+      const user = await getTwoFactorUser(Number(req.params.id));
+
+      if (!user) {
+        return next({ status: 404, message: 'User not found.' });
+      }
+
+      // "Owner" two-factor settings can only be reset by the owner, and users
+      // must confirm a code to disable their own
+      if ((user.id === 1 && req.user?.id !== 1) || req.user?.id === user.id) {
+        return next({
+          status: 403,
+          message: 'You do not have permission to modify this user',
+        });
+      }
+
+      user.twoFactorEnabled = false;
+      user.twoFactorSecret = null;
+      user.twoFactorRecoveryCodes = [];
+      user.twoFactorLastUsedStep = null;
+      await userRepository.save(user);
+
+      logger.info('Reset two-factor authentication for user', {
+        label: 'API',
+        userId: user.id,
+        resetBy: req.user?.id,
+      });
+
+      return res.status(204).send();
+    } catch (e) {
+      next({ status: 500, message: e.message });
+    }
+  }
+);
+
+const toApiKeyResponse = (apiKey: ApiKey): UserApiKeyResponse => ({
+  id: apiKey.id,
+  name: apiKey.name,
+  keyPreview: apiKey.keyPreview,
+  permissions: apiKey.permissions,
+  expiresAt: apiKey.expiresAt,
+  lastUsedAt: apiKey.lastUsedAt,
+  createdAt: apiKey.createdAt,
+});
+
+userSettingsRoutes.get<{ id: string }, UserApiKeyResponse[]>(
+  '/api-keys',
+  isOwnProfileOrAdmin(),
+  async (req, res, next) => {
+    const apiKeyRepository = getRepository(ApiKey);
+
+    try {
+      const apiKeys = await apiKeyRepository.find({
+        where: { user: { id: Number(req.params.id) } },
+        order: { createdAt: 'DESC' },
+      });
+
+      return res.status(200).json(apiKeys.map(toApiKeyResponse));
+    } catch (e) {
+      next({ status: 500, message: e.message });
+    }
+  }
+);
+
+userSettingsRoutes.post<
+  { id: string },
+  UserApiKeyCreateResponse,
+  { name: string; permissions: number; expiresAt?: string | null }
+>('/api-keys', isNotApiKeyRequest(), isOwnProfile(), async (req, res, next) => {
+  const apiKeyRepository = getRepository(ApiKey);
+
+  if (!req.user) {
+    return next({ status: 401, message: ApiErrorCode.Unauthorized });
+  }
+
+  const name = req.body.name?.trim();
+
+  if (!name) {
+    return next({ status: 400, message: 'API key name is required.' });
+  }
+
+  const expiresAt = req.body.expiresAt ? new Date(req.body.expiresAt) : null;
+
+  if (expiresAt && (isNaN(expiresAt.getTime()) || expiresAt <= new Date())) {
+    return next({
+      status: 400,
+      message: 'API key expiry must be a date in the future.',
+    });
+  }
+
+  if (!Number.isInteger(req.body.permissions) || req.body.permissions < 0) {
+    return next({
+      status: 400,
+      message: 'API key permissions must be a non-negative integer.',
+    });
+  }
+
+  // Keys can never grant more access than their owner currently has
+  const ownerPermissions = req.user.getEffectivePermissions();
+
+  if (
+    !hasPermission(Permission.ADMIN, ownerPermissions) &&
+    (req.body.permissions & ~ownerPermissions) !== 0
+  ) {
+    return next({
+      status: 403,
+      message: 'You do not have permission to grant this level of access',
+    });
+  }
+
+  try {
+    const key = ApiKey.generateKey();
+    const apiKey = new ApiKey({
+      user: req.user,
+      name,
+      secretHash: ApiKey.hashKey(key),
+      keyPreview: key.slice(0, 10),
+      permissions: req.body.permissions,
+      expiresAt,
+    });
+
+    await apiKeyRepository.save(apiKey);
+
+    logger.info('Created API key', {
+      label: 'API',
+      userId: req.user.id,
+      apiKeyId: apiKey.id,
+    });
+
+    return res.status(201).json({ ...toApiKeyResponse(apiKey), key });
+  } catch (e) {
+    next({ status: 500, message: e.message });
+  }
+});
+
+userSettingsRoutes.delete<{ id: string; keyId: string }>(
+  '/api-keys/:keyId',
+  isNotApiKeyRequest(),
+  isOwnProfileOrAdmin(),
+  async (req, res, next) => {
+    const apiKeyRepository = getRepository(ApiKey);
+
+    try {
+      const apiKey = await apiKeyRepository.findOne({
+        where: {
+          id: Number(req.params.keyId),
+          user: { id: Number(req.params.id) },
+        },
+      });
+
+      if (!apiKey) {
+        return next({ status: 404, message: 'API key not found.' });
+      }
+
+      await apiKeyRepository.remove(apiKey);
+
+      logger.info('Revoked API key', {
+        label: 'API',
+        userId: Number(req.params.id),
+        apiKeyId: Number(req.params.keyId),
+        revokedBy: req.user?.id,
+      });
+
+      return res.status(204).send();
     } catch (e) {
       next({ status: 500, message: e.message });
     }
@@ -0,0 +1,217 @@
+import { getRepository } from '@server/datasource';
+import { User } from '@server/entity/User';
+import UserGroup from '@server/entity/UserGroup';
+import type {
+  UserGroupBody,
+  UserGroupResultsResponse,
+} from '@server/interfaces/api/userGroupInterfaces';
+import { canMakePermissionsChange } from '@server/routes/user';
+import { syncGroupLibraryAccess } from '@server/routes/user/jellyfin';
+import { Router } from 'express';
+import { In, Not } from 'typeorm';
+
+const userGroupRoutes = Router();
+
+const getGroupMembers = async (group: UserGroup): Promise<User[]> => {
+  const members = await getRepository(User)
+    .createQueryBuilder('user')
+    .select('user.id')
+    .innerJoin('user.groups', 'group', 'group.id = :groupId', {
+      groupId: group.id,
+    })
+    .getMany();
+
+  // Loaded again to include all of their groups, not just the joined one
+  return members.length
+    ? getRepository(User).find({
+        where: { id: In(members.map((member) => member.id)) },
+      })
+    : [];
+};
+
+/**
+ * Updates the library access of the media server accounts of the members, as
+ * loaded before the change to their groups, once the change has been saved.
+ */
+const syncMembersLibraryAccess = async (members: User[]): Promise<void> => {
+  if (!members.length) {
+    return;
+  }
+
+  const users = await getRepository(User).find({
+    where: { id: In(members.map((member) => member.id)) },
+  });
+
+  for (const member of members) {
+    const user = users.find((u) => u.id === member.id);
+
+    if (user) {
+      await syncGroupLibraryAccess(user, member.getAllowedLibraries());
+    }
+  }
+};
+
+const applyGroupBody = (group: UserGroup, body: UserGroupBody): void => {
+  Object.assign(group, {
+    name: body.name.trim(),
+    permissions: body.permissions ?? 0,
+    movieQuotaLimit: body.movieQuotaLimit ?? null,
+    movieQuotaDays: body.movieQuotaDays ?? null,
+    movieQuotaType: body.movieQuotaType ?? null,
+    movieQuotaPeriod: body.movieQuotaPeriod ?? null,
+    tvQuotaLimit: body.tvQuotaLimit ?? null,
+    tvQuotaDays: body.tvQuotaDays ?? null,
+    tvQuotaType: body.tvQuotaType ?? null,
+    tvQuotaPeriod: body.tvQuotaPeriod ?? null,
+    radarrServerId: body.radarrServerId ?? null,
+    radarrProfileId: body.radarrProfileId ?? null,
+    sonarrServerId: body.sonarrServerId ?? null,
+    sonarrProfileId: body.sonarrProfileId ?? null,
+    allowedLibraries: body.allowedLibraries ?? [],
+  });
+};
+
+userGroupRoutes.get('/', async (_req, res, next) => {
+  const userGroupRepository = getRepository(UserGroup);
+
+  try {
+    const groups = await userGroupRepository
+      .createQueryBuilder('group')
+      .loadRelationCountAndMap('group.userCount', 'group.users')
+      .orderBy('group.name', 'ASC')
+      .getMany();
+
+    return res.status(200).json(groups as UserGroupResultsResponse);
+  } catch (e) {
+    next({ status: 500, message: e.message });
+  }
+});
+
+userGroupRoutes.post<Record<string, string>, UserGroup, UserGroupBody>(
+  '/',
+  async (req, res, next) => {
+    const userGroupRepository = getRepository(UserGroup);
+
+    if (!req.body.name?.trim()) {
+      return next({ status: 400, message: 'Invalid user group.' });
+    }
+
+    if (!canMakePermissionsChange(req.body.permissions ?? 0, req.user)) {
+      return next({
+        status: 403,
+        message: 'You do not have permission to grant this level of access',
+      });
+    }
+
+    try {
+      const existing = await userGroupRepository.findOne({
+        where: { name: req.body.name.trim() },
+      });
+
+      if (existing) {
+        return next({
+          status: 409,
+          message: 'A user group with this name already exists.',
+        });
+      }
+
+      const group = new UserGroup();
+      applyGroupBody(group, req.body);
+
+      const newGroup = await userGroupRepository.save(group);
+
+      return res.status(200).json(newGroup);
+    } catch (e) {
+      next({ status: 500, message: e.message });
+    }
+  }
+);
+
+userGroupRoutes.put<{ groupId: string }, UserGroup, UserGroupBody>(
+  '/:groupId',
+  async (req, res, next) => {
+    const userGroupRepository = getRepository(UserGroup);
+
+    if (!req.body.name?.trim()) {
+      return next({ status: 400, message: 'Invalid user group.' });
+    }
+
+    try {
+      const group = await userGroupRepository.findOne({
+        where: { id: Number(req.params.groupId) },
+      });
+
+      if (!group) {
+        return next({ status: 404, message: 'User group not found.' });
+      }
+
+      // Only the owner can change groups which grant admin privileges
+      if (
+        !canMakePermissionsChange(group.permissions, req.user) ||
+        !canMakePermissionsChange(req.body.permissions ?? 0, req.user)
+      ) {
+        return next({
+          status: 403,
+          message: 'You do not have permission to grant this level of access',
+        });
+      }
+
+      const existing = await userGroupRepository.findOne({
+        where: { id: Not(group.id), name: req.body.name.trim() },
+      });
+
+      if (existing) {
+        return next({
+          status: 409,
+          message: 'A user group with this name already exists.',
+        });
+      }
+
+      const members = await getGroupMembers(group);
+
+      applyGroupBody(group, req.body);
+
+      const newGroup = await userGroupRepository.save(group);
+      await syncMembersLibraryAccess(members);
+
+      return res.status(200).json(newGroup);
+    } catch (e) {
+      next({ status: 500, message: e.message });
+    }
+  }
+);
+
+userGroupRoutes.delete<{ groupId: string }, UserGroup>(
+  '/:groupId',
+  async (req, res, next) => {
+    const userGroupRepository = getRepository(UserGroup);
+
+    try {
+      const group = await userGroupRepository.findOne({
+        where: { id: Number(req.params.groupId) },
+      });
+
+      if (!group) {
+        return next({ status: 404, message: 'User group not found.' });
+      }
+
+      if (!canMakePermissionsChange(group.permissions, req.user)) {
+        return next({
+          status: 403,
+          message: 'You do not have permission to modify this user group',
+        });
+      }
+
+      const members = await getGroupMembers(group);
+
+      await userGroupRepository.remove(group);
+      await syncMembersLibraryAccess(members);
+
+      return res.status(200).json(group);
+    } catch (e) {
+      next({ status: 500, message: e.message });
+    }
+  }
+);
+
+export default userGroupRoutes;
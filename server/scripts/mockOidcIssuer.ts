@@ -0,0 +1,233 @@
+import type { OidcClaims } from '@server/api/oidc';
+import logger from '@server/logger';
+import { createHash, randomBytes } from 'crypto';
+import type { IncomingMessage, ServerResponse } from 'http';
+import { createServer } from 'http';
+import type { AddressInfo } from 'net';
+
+export interface MockOidcIssuerOptions {
+  clientId: string;
+  // Requires client_secret_basic authentication when set
+  clientSecret?: string;
+  claims: Partial<OidcClaims> & { sub: string };
+  // Returned by the userinfo endpoint, the ID token claims are used when not set
+  userInfo?: Partial<OidcClaims>;
+  port?: number;
+}
+
+export interface MockOidcIssuer {
+  issuerUrl: string;
+  close(): Promise<void>;
+}
+
+interface PendingCode {
+  redirectUri: string;
+  nonce?: string;
+  codeChallenge: string;
+}
+
+const base64UrlEncode = (data: Buffer | string): string =>
+  Buffer.from(data).toString('base64url');
+
+const readBody = (req: IncomingMessage): Promise<string> =>
+  new Promise((resolve, reject) => {
+    let body = '';
+
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+
+const sendJson = (res: ServerResponse, status: number, data: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(data));
+};
+
+/**
+ * Starts a minimal OpenID Connect provider, which signs in the configured
+ * account without asking for credentials. It supports the authorization code
+ * flow with PKCE as used by the OpenID Connect sign-in, and is only meant for
+ * tests and local development.
+ */
+export const startMockOidcIssuer = async ({
+  clientId,
+  clientSecret,
+  claims,
+  userInfo,
+  port = 0,
+}: MockOidcIssuerOptions): Promise<MockOidcIssuer> => {
+  const codes = new Map<string, PendingCode>();
+  const accessTokens = new Set<string>();
+  let issuerUrl = '';
+
+  const authorize = (url: URL, res: ServerResponse) => {
+    const redirectUri = url.searchParams.get('redirect_uri');
+    const codeChallenge = url.searchParams.get('code_challenge');
+
+    if (
+      !redirectUri ||
+      url.searchParams.get('response_type') !== 'code' ||
+      url.searchParams.get('client_id') !== clientId ||
+      !codeChallenge ||
+      url.searchParams.get('code_challenge_method') !== 'S256'
+    ) {
+      return sendJson(res, 400, { error: 'invalid_request' });
+    }
+
+    const code = randomBytes(16).toString('hex');
+    codes.set(code, {
+      redirectUri,
+      nonce: url.searchParams.get('nonce') ?? undefined,
+      codeChallenge,
+    });
+
+    const location = new URL(redirectUri);
+    location.searchParams.set('code', code);
+    location.searchParams.set('state', url.searchParams.get('state') ?? '');
+
+    res.writeHead(302, { Location: location.toString() });
+    res.end();
+  };
+
+  const token = async (req: IncomingMessage, res: ServerResponse) => {
+    const body = new URLSearchParams(await readBody(req));
+    const [basicId, basicSecret] = Buffer.from(
+      (req.headers.authorization ?? '').replace(/^Basic /, ''),
+      'base64'
+    )
+      .toString('utf-8')
+      .split(':')
+      .map(decodeURIComponent);
+    const requestClientId = clientSecret ? basicId : body.get('client_id');
+
+    if (
+      requestClientId !== clientId ||
+      (clientSecret && basicSecret !== clientSecret)
+    ) {
+      return sendJson(res, 401, { error: 'invalid_client' });
+    }
+
+    const code = body.get('code') ?? '';
+    const pending = codes.get(code);
+    codes.delete(code);
+
+    if (
+      body.get('grant_type') !== 'authorization_code' ||
+      !pending ||
+      pending.redirectUri !== body.get('redirect_uri') ||
+      base64UrlEncode(
+        createHash('sha256')
+          .update(body.get('code_verifier') ?? '')
+          .digest()
+      ) !== pending.codeChallenge
+    ) {
+      return sendJson(res, 400, { error: 'invalid_grant' });
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const accessToken = randomBytes(16).toString('hex');
+    accessTokens.add(accessToken);
+
+    // The ID token is received directly from the provider, so it is not signed
+    const idToken = [
+      base64UrlEncode(JSON.stringify({ alg: 'none', typ: 'JWT' })),
+      base64UrlEncode(
+        JSON.stringify({
+          iss: issuerUrl,
+          aud: clientId,
+          iat: now,
+          exp: now + 300,
+          nonce: pending.nonce,
+          ...claims,
+        })
+      ),
+      '',
+    ].join('.');
+
+    return sendJson(res, 200, {
+      access_token: accessToken,
+      token_type: 'Bearer',
+      id_token: idToken,
+      expires_in: 300,
+    });
+  };
+
+  const server = createServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', issuerUrl);
+
+    try {
+      if (
+        req.method === 'GET' &&
+        url.pathname === '/.well-known/openid-configuration'
+      ) {
+        return sendJson(res, 200, {
+          issuer: issuerUrl,
+          authorization_endpoint: `${issuerUrl}/authorize`,
+          token_endpoint: `${issuerUrl}/token`,
+          userinfo_endpoint: `${issuerUrl}/userinfo`,
+          jwks_uri: `${issuerUrl}/jwks`,
+          response_types_supported: ['code'],
+          code_challenge_methods_supported: ['S256'],
+        });
+      }
+
+      if (req.method === 'GET' && url.pathname === '/authorize') {
+        return authorize(url, res);
+      }
+
+      if (req.method === 'POST' && url.pathname === '/token') {
+        return await token(req, res);
+      }
+
+      if (req.method === 'GET' && url.pathname === '/userinfo') {
+        const accessToken = (req.headers.authorization ?? '').replace(
+          /^Bearer /,
+          ''
+        );
+
+        return accessTokens.has(accessToken)
+          ? sendJson(res, 200, userInfo ?? claims)
+          : sendJson(res, 401, { error: 'invalid_token' });
+      }
+
+      sendJson(res, 404, { error: 'not_found' });
+    } catch (e) {
+      sendJson(res, 500, { error: 'server_error', message: e.message });
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(port, resolve));
+  issuerUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+
+  return {
+    issuerUrl,
+    close: () =>
+      new Promise((resolve, reject) =>
+        server.close((err) => (err ? reject(err) : resolve()))
+      ),
+  };
+};
+
+/**
+ * Runs the mock issuer on its own, so that the OpenID Connect sign-in can be
+ * tried locally without a real provider.
+ *
+ * Usage: mockOidcIssuer [port]
+ */
+if (require.main === module) {
+  startMockOidcIssuer({
+    clientId: process.env.OIDC_CLIENT_ID ?? 'jellyseerr',
+    clientSecret: process.env.OIDC_CLIENT_SECRET,
+    claims: {
+      sub: 'mock-user',
+      email: process.env.OIDC_EMAIL ?? 'mock-user@seerr.dev',
+      email_verified: true,
+      preferred_username: 'mock-user',
+    },
+    port: Number(process.argv[2] ?? 9000),
+  }).then(({ issuerUrl }) =>
+    logger.info(`Mock OpenID Connect issuer running at ${issuerUrl}`, {
+      label: 'OIDC Mock',
+    })
+  );
+}
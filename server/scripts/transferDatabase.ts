@@ -0,0 +1,36 @@
+import dataSource from '@server/datasource';
+import databaseTransfer, {
+  getTransferTargetType,
+} from '@server/lib/databaseTransfer';
+import logger from '@server/logger';
+
+/**
+ * Copies the configured database to the other supported database type.
+ *
+ * Usage: transferDatabase [--overwrite]
+ */
+const transferDatabase = async () => {
+  const overwrite = process.argv.includes('--overwrite');
+
+  await dataSource.initialize();
+
+  try {
+    const results = await databaseTransfer.run({ overwrite });
+
+    results.forEach((result) => {
+      logger.info(`${result.table}: ${result.targetRows} rows copied`, {
+        label: 'Database Transfer',
+      });
+    });
+    logger.info(
+      `Set DB_TYPE to "${getTransferTargetType()}" and restart Jellyseerr to use the new database.`,
+      { label: 'Database Transfer' }
+    );
+  } catch {
+    process.exitCode = 1;
+  } finally {
+    await dataSource.destroy();
+  }
+};
+
+transferDatabase();
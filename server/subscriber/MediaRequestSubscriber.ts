@@ -15,7 +15,9 @@ import {
 import { getRepository } from '@server/datasource';
 import Media from '@server/entity/Media';
 import { MediaRequest } from '@server/entity/MediaRequest';
+import RequestStatusHistory from '@server/entity/RequestStatusHistory';
 import SeasonRequest from '@server/entity/SeasonRequest';
+import { publishEvent } from '@server/lib/events';
 import notificationManager, { Notification } from '@server/lib/notifications';
 import { getSettings } from '@server/lib/settings';
 import logger from '@server/logger';
@@ -374,10 +376,12 @@ export class MediaRequestSubscriber
               radarrSettings?.id;
             await mediaRepository.save(media);
           })
-          .catch(async () => {
+          .catch(async (e) => {
             const requestRepository = getRepository(MediaRequest);
 
             entity.status = MediaRequestStatus.FAILED;
+            entity.statusChangedBy = undefined;
+            entity.statusReason = e.message;
             requestRepository.save(entity);
 
             logger.warn(
@@ -670,10 +674,12 @@ export class MediaRequestSubscriber
               sonarrSettings?.id;
             await mediaRepository.save(media);
           })
-          .catch(async () => {
+          .catch(async (e) => {
             const requestRepository = getRepository(MediaRequest);
 
             entity.status = MediaRequestStatus.FAILED;
+            entity.statusChangedBy = undefined;
+            entity.statusReason = e.message;
             requestRepository.save(entity);
 
             logger.warn(
@@ -813,11 +819,62 @@ export class MediaRequestSubscriber
     await manager.save(fullMedia);
   }
 
-  public afterUpdate(event: UpdateEvent<MediaRequest>): void {
+  private async recordStatusChange(
+    manager: EntityManager,
+    entity: MediaRequest,
+    fromStatus?: MediaRequestStatus
+  ): Promise<void> {
+    try {
+      await manager.getRepository(RequestStatusHistory).save(
+        new RequestStatusHistory({
+          request: entity,
+          user: entity.statusChangedBy ?? null,
+          fromStatus: fromStatus ?? null,
+          toStatus: entity.status,
+          reason: entity.statusReason ?? null,
+        })
+      );
+    } catch (e) {
+      logger.error('Failed to record request status change', {
+        label: 'Media Request',
+        requestId: entity.id,
+        errorMessage: e.message,
+      });
+    }
+  }
+
+  private publishRequestEvent(
+    entity: MediaRequest,
+    removed = false,
+    requestId = entity.id
+  ): void {
+    publishEvent('request', {
+      requestId,
+      mediaId: entity.media?.id,
+      requestedById: entity.requestedBy?.id,
+      status: entity.status,
+      removed,
+    });
+  }
+
+  public async afterUpdate(event: UpdateEvent<MediaRequest>): Promise<void> {
     if (!event.entity) {
       return;
     }
 
+    this.publishRequestEvent(event.entity as MediaRequest);
+
+    if (
+      event.databaseEntity &&
+      event.entity.status !== event.databaseEntity.status
+    ) {
+      await this.recordStatusChange(
+        event.manager,
+        event.entity as MediaRequest,
+        event.databaseEntity.status
+      );
+    }
+
     this.sendToRadarr(event.entity as MediaRequest);
     this.sendToSonarr(event.entity as MediaRequest);
 
@@ -833,11 +890,15 @@ export class MediaRequestSubscriber
     }
   }
 
-  public afterInsert(event: InsertEvent<MediaRequest>): void {
+  public async afterInsert(event: InsertEvent<MediaRequest>): Promise<void> {
     if (!event.entity) {
       return;
     }
 
+    await this.recordStatusChange(event.manager, event.entity);
+
+    this.publishRequestEvent(event.entity as MediaRequest);
+
     this.sendToRadarr(event.entity as MediaRequest);
     this.sendToSonarr(event.entity as MediaRequest);
 
@@ -849,6 +910,13 @@ export class MediaRequestSubscriber
       return;
     }
 
+    // The entity has lost its ID by the time it has been removed
+    this.publishRequestEvent(
+      event.entity as MediaRequest,
+      true,
+      event.entityId ?? event.entity.id
+    );
+
     await this.handleRemoveParentUpdate(
       event.manager as EntityManager,
       event.entity as MediaRequest
@@ -8,6 +8,7 @@ import Media from '@server/entity/Media';
 import { MediaRequest } from '@server/entity/MediaRequest';
 import Season from '@server/entity/Season';
 import SeasonRequest from '@server/entity/SeasonRequest';
+import { publishEvent } from '@server/lib/events';
 import type { EntitySubscriberInterface, UpdateEvent } from 'typeorm';
 import { EventSubscriber } from 'typeorm';
 
@@ -157,6 +158,14 @@ export class MediaSubscriber implements EntitySubscriberInterface<Media> {
       return;
     }
 
+    publishEvent('media', {
+      mediaId: event.entity.id,
+      tmdbId: event.entity.tmdbId,
+      mediaType: event.entity.mediaType,
+      status: event.entity.status,
+      status4k: event.entity.status4k,
+    });
+
     const validStatuses = [
       MediaStatus.PARTIALLY_AVAILABLE,
       MediaStatus.AVAILABLE,
@@ -0,0 +1,84 @@
+import TheMovieDb from '@server/api/themoviedb';
+import { MediaType } from '@server/constants/media';
+import { getRepository } from '@server/datasource';
+import { MediaRequest } from '@server/entity/MediaRequest';
+import RequestComment from '@server/entity/RequestComment';
+import notificationManager, { Notification } from '@server/lib/notifications';
+import { Permission } from '@server/lib/permissions';
+import logger from '@server/logger';
+import type { EntitySubscriberInterface, InsertEvent } from 'typeorm';
+import { EventSubscriber } from 'typeorm';
+
+@EventSubscriber()
+export class RequestCommentSubscriber
+  implements EntitySubscriberInterface<RequestComment>
+{
+  public listenTo(): typeof RequestComment {
+    return RequestComment;
+  }
+
+  private async sendRequestCommentNotification(entity: RequestComment) {
+    let title: string;
+    let image: string;
+    const tmdb = new TheMovieDb();
+
+    try {
+      const request = await getRepository(MediaRequest).findOneOrFail({
+        where: { id: entity.request.id },
+      });
+      const media = request.media;
+
+      if (media.mediaType === MediaType.MOVIE) {
+        const movie = await tmdb.getMovie({ movieId: media.tmdbId });
+
+        title = `${movie.title}${
+          movie.release_date ? ` (${movie.release_date.slice(0, 4)})` : ''
+        }`;
+        image = `https://image.tmdb.org/t/p/w600_and_h900_bestv2${movie.poster_path}`;
+      } else {
+        const tvshow = await tmdb.getTvShow({ tvId: media.tmdbId });
+
+        title = `${tvshow.name}${
+          tvshow.first_air_date ? ` (${tvshow.first_air_date.slice(0, 4)})` : ''
+        }`;
+        image = `https://image.tmdb.org/t/p/w600_and_h900_bestv2${tvshow.poster_path}`;
+      }
+
+      // Send notifications to all request managers and the requester
+      notificationManager.sendNotification(Notification.REQUEST_COMMENT, {
+        event: `New Comment on ${request.is4k ? '4K ' : ''}${
+          request.type === MediaType.MOVIE ? 'Movie' : 'Series'
+        } Request`,
+        subject: title,
+        comment: entity,
+        request,
+        media,
+        image,
+        notifyAdmin: true,
+        notifySystem: true,
+        notifyUser:
+          !request.requestedBy.hasPermission(Permission.MANAGE_REQUESTS) &&
+          request.requestedBy.id !== entity.user.id
+            ? request.requestedBy
+            : undefined,
+      });
+    } catch (e) {
+      logger.error(
+        'Something went wrong sending request comment notification(s)',
+        {
+          label: 'Notifications',
+          errorMessage: e.message,
+          commentId: entity.id,
+        }
+      );
+    }
+  }
+
+  public afterInsert(event: InsertEvent<RequestComment>): void {
+    if (!event.entity) {
+      return;
+    }
+
+    this.sendRequestCommentNotification(event.entity);
+  }
+}
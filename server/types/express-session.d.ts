@@ -5,5 +5,20 @@ import 'express-session';
 declare module 'express-session' {
   interface SessionData {
     userId: number;
+    oidc: {
+      state: string;
+      nonce: string;
+      codeVerifier: string;
+      linkUserId?: number;
+    };
+    // Pending local sign-in waiting for the second factor
+    twoFactor: {
+      userId: number;
+      expiresAt: number;
+      attempts: number;
+      setupSecret?: string;
+    };
+    // Secret generated while enrolling from the profile settings
+    twoFactorSetupSecret: string;
   }
 }
@@ -7,6 +7,8 @@ declare global {
   namespace Express {
     export interface Request {
       user?: User;
+      // Set when the request is authenticated with a per-user API key
+      apiKeyId?: number;
       locale?: string;
     }
   }
@@ -0,0 +1,117 @@
+import { Session } from '@server/entity/Session';
+import type { DataSource, EntityMetadata, QueryRunner } from 'typeorm';
+
+// Sessions are tied to the running instance and are never copied
+const EXCLUDED_ENTITIES: EntityMetadata['target'][] = [Session];
+
+// Stay below the lowest bound parameter limit of the supported databases
+const MAX_QUERY_PARAMETERS = 999;
+
+/**
+ * Returns the metadata of every table holding application data, ordered so
+ * that each table only references tables that come before it.
+ */
+export const getEntityMetadatasInDependencyOrder = (
+  source: DataSource
+): EntityMetadata[] => {
+  const metadatas = source.entityMetadatas.filter(
+    (metadata) =>
+      metadata.tableType !== 'view' &&
+      !EXCLUDED_ENTITIES.includes(metadata.target)
+  );
+  const ordered: EntityMetadata[] = [];
+  const visited = new Set<EntityMetadata>();
+
+  const visit = (metadata: EntityMetadata) => {
+    if (visited.has(metadata)) {
+      return;
+    }
+    visited.add(metadata);
+
+    metadata.foreignKeys.forEach((foreignKey) => {
+      if (metadatas.includes(foreignKey.referencedEntityMetadata)) {
+        visit(foreignKey.referencedEntityMetadata);
+      }
+    });
+
+    ordered.push(metadata);
+  };
+
+  metadatas.forEach(visit);
+
+  return ordered;
+};
+
+/**
+ * Inserts raw rows into a table, keeping their primary keys. Only the given
+ * columns are inserted, so columns missing from the rows keep their default.
+ */
+export const insertRows = async (
+  queryRunner: QueryRunner,
+  tableName: string,
+  columns: string[],
+  rows: Record<string, unknown>[]
+): Promise<void> => {
+  if (!columns.length) {
+    return;
+  }
+
+  const { driver } = queryRunner.connection;
+  const chunkSize = Math.max(
+    1,
+    Math.floor(MAX_QUERY_PARAMETERS / columns.length)
+  );
+
+  for (let i = 0; i < rows.length; i += chunkSize) {
+    const chunk = rows.slice(i, i + chunkSize);
+    const parameters: Record<string, unknown> = {};
+    const values = chunk.map(
+      (row, rowIndex) =>
+        `(${columns
+          .map((column, columnIndex) => {
+            const name = `p${rowIndex}_${columnIndex}`;
+            parameters[name] = row[column] ?? null;
+            return `:${name}`;
+          })
+          .join(', ')})`
+    );
+
+    const [query, queryParameters] = driver.escapeQueryWithParameters(
+      `INSERT INTO ${driver.escape(tableName)} (${columns
+        .map((column) => driver.escape(column))
+        .join(', ')}) VALUES ${values.join(', ')}`,
+      parameters,
+      {}
+    );
+
+    await queryRunner.query(query, queryParameters);
+  }
+};
+
+/**
+ * Moves every Postgres id sequence past the highest id in its table, since
+ * inserting explicit ids does not advance them.
+ */
+export const resetPostgresSequences = async (
+  queryRunner: QueryRunner,
+  metadatas: EntityMetadata[]
+): Promise<void> => {
+  const { driver } = queryRunner.connection;
+
+  for (const metadata of metadatas) {
+    const table = driver.escape(metadata.tableName);
+
+    for (const column of metadata.columns.filter(
+      (column) =>
+        column.isGenerated && column.generationStrategy === 'increment'
+    )) {
+      await queryRunner.query(
+        `SELECT setval(pg_get_serial_sequence('${table}', '${
+          column.databaseName
+        }'), COALESCE((SELECT MAX(${driver.escape(
+          column.databaseName
+        )}) FROM ${table}), 0) + 1, false)`
+      );
+    }
+  }
+};
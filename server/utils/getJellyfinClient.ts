@@ -0,0 +1,24 @@
+import EmbyAPI from '@server/api/emby';
+import JellyfinAPI from '@server/api/jellyfin';
+import { MediaServerType } from '@server/constants/server';
+import { getSettings } from '@server/lib/settings';
+
+/**
+ * Returns the API client for the configured Jellyfin or Emby server. The
+ * server type can be passed in while the server is still being set up.
+ */
+export const getJellyfinClient = (
+  hostname: string,
+  authToken?: string | null,
+  deviceId?: string | null,
+  serverType?: MediaServerType
+): JellyfinAPI => {
+  const isEmby =
+    serverType !== undefined
+      ? serverType === MediaServerType.EMBY
+      : getSettings().isMediaServerEnabled(MediaServerType.EMBY);
+
+  return isEmby
+    ? new EmbyAPI(hostname, authToken, deviceId)
+    : new JellyfinAPI(hostname, authToken, deviceId);
+};
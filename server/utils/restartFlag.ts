@@ -3,12 +3,17 @@ import { getSettings } from '@server/lib/settings';
 
 class RestartFlag {
   private networkSettings: NetworkSettings;
+  private additionalMediaServerTypes: number[];
 
   public initializeSettings(settings: AllSettings): void {
     this.networkSettings = {
       ...settings.network,
       proxy: { ...settings.network.proxy },
     };
+    // Scan jobs are only scheduled on startup for the configured media servers
+    this.additionalMediaServerTypes = [
+      ...(settings.main.additionalMediaServerTypes ?? []),
+    ];
   }
 
   public isSet(): boolean {
@@ -17,7 +22,9 @@ class RestartFlag {
     return (
       this.networkSettings.csrfProtection !== networkSettings.csrfProtection ||
       this.networkSettings.trustProxy !== networkSettings.trustProxy ||
-      this.networkSettings.proxy.enabled !== networkSettings.proxy.enabled
+      this.networkSettings.proxy.enabled !== networkSettings.proxy.enabled ||
+      [...this.additionalMediaServerTypes].sort().join() !==
+        [...(getSettings().main.additionalMediaServerTypes ?? [])].sort().join()
     );
   }
 }
@@ -6,6 +6,10 @@ import RequestModal from '@app/components/RequestModal';
 import Slider from '@app/components/Slider';
 import StatusBadge from '@app/components/StatusBadge';
 import TitleCard from '@app/components/TitleCard';
+import {
+  useServerEvent,
+  useServerEventsConnected,
+} from '@app/hooks/useServerEvents';
 import useSettings from '@app/hooks/useSettings';
 import { Permission, useUser } from '@app/hooks/useUser';
 import globalMessages from '@app/i18n/globalMessages';
@@ -13,7 +17,7 @@ import Error from '@app/pages/_error';
 import defineMessages from '@app/utils/defineMessages';
 import { refreshIntervalHelper } from '@app/utils/refreshIntervalHelper';
 import { ArrowDownTrayIcon } from '@heroicons/react/24/outline';
-import { MediaStatus } from '@server/constants/media';
+import { MediaStatus, MediaType } from '@server/constants/media';
 import type { Collection } from '@server/models/Collection';
 import { uniq } from 'lodash';
 import Link from 'next/link';
@@ -54,6 +58,7 @@ const CollectionDetails = ({ collection }: CollectionDetailsProps) => {
     return { downloadStatus, downloadStatus4k };
   };
 
+  const eventsConnected = useServerEventsConnected();
   const {
     data,
     error,
@@ -61,10 +66,29 @@ const CollectionDetails = ({ collection }: CollectionDetailsProps) => {
   } = useSWR<Collection>(`/api/v1/collection/${router.query.collectionId}`, {
     fallbackData: collection,
     revalidateOnMount: true,
-    refreshInterval: refreshIntervalHelper(
-      returnCollectionDownloadItems(collection),
-      15000
-    ),
+    refreshInterval: eventsConnected
+      ? 0
+      : refreshIntervalHelper(returnCollectionDownloadItems(collection), 15000),
+  });
+
+  useServerEvent('media', ({ mediaType, tmdbId }) => {
+    if (
+      mediaType === MediaType.MOVIE &&
+      data?.parts.some((part) => part.id === tmdbId)
+    ) {
+      revalidate();
+    }
+  });
+
+  useServerEvent('downloads', () => {
+    const downloadItems = returnCollectionDownloadItems(data);
+
+    if (
+      downloadItems.downloadStatus?.length ||
+      downloadItems.downloadStatus4k?.length
+    ) {
+      revalidate();
+    }
   });
 
   const { data: genres } =
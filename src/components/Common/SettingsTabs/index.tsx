@@ -103,7 +103,9 @@ const SettingsTabs = ({
                 (route.requiredPermission
                   ? hasPermission(
                       route.requiredPermission,
-                      currentUser?.permissions ?? 0,
+                      currentUser?.effectivePermissions ??
+                        currentUser?.permissions ??
+                        0,
                       route.permissionType
                     )
                   : true)
@@ -150,7 +152,9 @@ const SettingsTabs = ({
                   (route.requiredPermission
                     ? hasPermission(
                         route.requiredPermission,
-                        currentUser?.permissions ?? 0,
+                        currentUser?.effectivePermissions ??
+                          currentUser?.permissions ??
+                          0,
                         route.permissionType
                       )
                     : true)
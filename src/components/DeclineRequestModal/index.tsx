@@ -0,0 +1,84 @@
+import Modal from '@app/components/Common/Modal';
+import globalMessages from '@app/i18n/globalMessages';
+import defineMessages from '@app/utils/defineMessages';
+import { Transition } from '@headlessui/react';
+import { Field, Formik } from 'formik';
+import { useIntl } from 'react-intl';
+
+const messages = defineMessages('components.DeclineRequestModal', {
+  declinerequest: 'Decline Request',
+  reason: 'Reason',
+  reasonTip: 'Optional, shared with the requester',
+  reasonplaceholder: 'Why is this request being declined?',
+});
+
+interface DeclineRequestModalProps {
+  show?: boolean;
+  title?: string;
+  onCancel: () => void;
+  onDecline: (reason: string) => Promise<void>;
+}
+
+const DeclineRequestModal = ({
+  show,
+  title,
+  onCancel,
+  onDecline,
+}: DeclineRequestModalProps) => {
+  const intl = useIntl();
+
+  return (
+    <Transition
+      as="div"
+      enter="transition-opacity duration-300"
+      enterFrom="opacity-0"
+      enterTo="opacity-100"
+      leave="transition-opacity duration-300"
+      leaveFrom="opacity-100"
+      leaveTo="opacity-0"
+      show={show}
+    >
+      <Formik
+        initialValues={{ reason: '' }}
+        onSubmit={async (values, { resetForm }) => {
+          await onDecline(values.reason.trim());
+          resetForm();
+        }}
+      >
+        {({ handleSubmit, isSubmitting }) => (
+          <Modal
+            title={intl.formatMessage(messages.declinerequest)}
+            subTitle={title}
+            onCancel={onCancel}
+            onOk={() => handleSubmit()}
+            okText={intl.formatMessage(globalMessages.decline)}
+            okButtonType="danger"
+            okDisabled={isSubmitting}
+          >
+            <div className="form-row">
+              <label htmlFor="reason" className="text-label">
+                {intl.formatMessage(messages.reason)}
+                <span className="label-tip">
+                  {intl.formatMessage(messages.reasonTip)}
+                </span>
+              </label>
+              <div className="form-input-area">
+                <div className="form-input-field">
+                  <Field
+                    as="textarea"
+                    id="reason"
+                    name="reason"
+                    className="h-24"
+                    placeholder={intl.formatMessage(messages.reasonplaceholder)}
+                  />
+                </div>
+              </div>
+            </div>
+          </Modal>
+        )}
+      </Formik>
+    </Transition>
+  );
+};
+
+export default DeclineRequestModal;
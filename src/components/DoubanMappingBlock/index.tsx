@@ -0,0 +1,168 @@
+import Badge from '@app/components/Common/Badge';
+import Button from '@app/components/Common/Button';
+import LoadingSpinner from '@app/components/Common/LoadingSpinner';
+import globalMessages from '@app/i18n/globalMessages';
+import defineMessages from '@app/utils/defineMessages';
+import { ArrowPathIcon } from '@heroicons/react/24/solid';
+import type DoubanMapping from '@server/entity/DoubanMapping';
+import axios from 'axios';
+import { Field, Form, Formik } from 'formik';
+import { useIntl } from 'react-intl';
+import { useToasts } from 'react-toast-notifications';
+import useSWR, { mutate } from 'swr';
+import * as Yup from 'yup';
+
+const messages = defineMessages('components.DoubanMappingBlock', {
+  doubanSubject: 'Douban Subject',
+  noSubject: 'No Douban subject found',
+  override: 'Manual',
+  rating: 'Rating {rating}',
+  doubanId: 'Douban ID or link',
+  resetOverride: 'Reset to Automatic',
+  validationDoubanId: 'You must provide a valid Douban ID or subject link',
+  mappingSaved: 'Douban mapping saved successfully!',
+  mappingFailed: 'Something went wrong while saving the Douban mapping.',
+});
+
+const DOUBAN_ID_REGEX =
+  /^(?:\d+|.*douban\.com\/(?:(?:movie|tv)\/)?subject\/\d+.*)$/;
+
+const parseDoubanId = (value: string): string =>
+  value.trim().match(/(?<=subject\/)\d+/)?.[0] ?? value.trim();
+
+interface DoubanMappingBlockProps {
+  mediaId: number;
+  mediaType: 'movie' | 'tv';
+  tmdbId: number;
+}
+
+const DoubanMappingBlock = ({
+  mediaId,
+  mediaType,
+  tmdbId,
+}: DoubanMappingBlockProps) => {
+  const intl = useIntl();
+  const { addToast } = useToasts();
+  const {
+    data,
+    error,
+    mutate: revalidate,
+  } = useSWR<DoubanMapping>(`/api/v1/media/${mediaId}/douban`);
+
+  const updateMapping = async (doubanId?: string) => {
+    try {
+      await axios.put(`/api/v1/media/${mediaId}/douban`, { doubanId });
+
+      addToast(intl.formatMessage(messages.mappingSaved), {
+        appearance: 'success',
+        autoDismiss: true,
+      });
+    } catch (e) {
+      addToast(intl.formatMessage(messages.mappingFailed), {
+        appearance: 'error',
+        autoDismiss: true,
+      });
+    } finally {
+      revalidate();
+      mutate(`/api/v1/${mediaType}/${tmdbId}/ratingscombined`);
+    }
+  };
+
+  if (!data && !error) {
+    return <LoadingSpinner />;
+  }
+
+  const DoubanMappingSchema = Yup.object().shape({
+    doubanId: Yup.string()
+      .required(intl.formatMessage(messages.validationDoubanId))
+      .matches(
+        DOUBAN_ID_REGEX,
+        intl.formatMessage(messages.validationDoubanId)
+      ),
+  });
+
+  return (
+    <div className="space-y-3 px-4 py-3 text-sm text-gray-300">
+      <div className="flex items-center justify-between">
+        <div className="flex min-w-0 flex-1 items-center space-x-2">
+          <span className="font-semibold text-gray-100">
+            {intl.formatMessage(messages.doubanSubject)}
+          </span>
+          {data?.doubanId ? (
+            <a
+              href={`https://movie.douban.com/subject/${data.doubanId}/`}
+              target="_blank"
+              rel="noreferrer"
+              className="truncate transition duration-300 hover:text-white hover:underline"
+            >
+              {data.doubanId}
+            </a>
+          ) : (
+            <span className="truncate">
+              {intl.formatMessage(messages.noSubject)}
+            </span>
+          )}
+          {data?.isOverride && (
+            <Badge badgeType="primary">
+              {intl.formatMessage(messages.override)}
+            </Badge>
+          )}
+        </div>
+        {typeof data?.rating === 'number' && (
+          <span className="ml-2 flex-shrink-0">
+            {intl.formatMessage(messages.rating, {
+              rating: data.rating.toFixed(1),
+            })}
+          </span>
+        )}
+      </div>
+      <Formik
+        initialValues={{ doubanId: '' }}
+        validationSchema={DoubanMappingSchema}
+        onSubmit={async (values, { resetForm }) => {
+          await updateMapping(parseDoubanId(values.doubanId));
+          resetForm();
+        }}
+      >
+        {({ errors, touched, isSubmitting, isValid }) => (
+          <Form>
+            <div className="flex">
+              <div className="form-input-field mr-2">
+                <Field
+                  id="doubanId"
+                  name="doubanId"
+                  type="text"
+                  placeholder={intl.formatMessage(messages.doubanId)}
+                />
+              </div>
+              <Button
+                buttonType="primary"
+                type="submit"
+                disabled={isSubmitting || !isValid}
+              >
+                {isSubmitting
+                  ? intl.formatMessage(globalMessages.saving)
+                  : intl.formatMessage(globalMessages.save)}
+              </Button>
+            </div>
+            {errors.doubanId && touched.doubanId && (
+              <div className="error">{errors.doubanId}</div>
+            )}
+          </Form>
+        )}
+      </Formik>
+      {data?.isOverride && (
+        <Button
+          buttonType="default"
+          className="w-full"
+          onClick={() => updateMapping()}
+        >
+          <ArrowPathIcon />
+          <span>{intl.formatMessage(messages.resetOverride)}</span>
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default DoubanMappingBlock;
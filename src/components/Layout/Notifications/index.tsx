@@ -1,13 +1,162 @@
+import {
+  useServerEvent,
+  useServerEventsConnected,
+} from '@app/hooks/useServerEvents';
+import { useUser } from '@app/hooks/useUser';
+import defineMessages from '@app/utils/defineMessages';
+import { Menu, Transition } from '@headlessui/react';
 import { BellIcon } from '@heroicons/react/24/outline';
+import type { UserNotificationsResponse } from '@server/interfaces/api/userInterfaces';
+import axios from 'axios';
+import { useRouter } from 'next/router';
+import { Fragment } from 'react';
+import { FormattedRelativeTime, useIntl } from 'react-intl';
+import useSWR from 'swr';
+
+const messages = defineMessages('components.Layout.Notifications', {
+  notifications: 'Notifications',
+  markAllRead: 'Mark all as read',
+  noNotifications: 'You have no notifications.',
+});
 
 const Notifications = () => {
+  const intl = useIntl();
+  const router = useRouter();
+  const { user } = useUser();
+  const eventsConnected = useServerEventsConnected();
+  const { data, mutate } = useSWR<UserNotificationsResponse>(
+    user ? `/api/v1/user/${user.id}/notifications?take=10` : null,
+    {
+      refreshInterval: eventsConnected ? 0 : 30000,
+    }
+  );
+
+  useServerEvent('notification', () => {
+    mutate();
+  });
+
+  const unreadCount = data?.unreadCount ?? 0;
+
+  const markAllRead = async () => {
+    await axios.post(`/api/v1/user/${user?.id}/notifications/read-all`);
+    mutate();
+  };
+
+  const openNotification = async (
+    notification: UserNotificationsResponse['results'][number]
+  ) => {
+    if (!notification.isRead) {
+      await axios.post(
+        `/api/v1/user/${user?.id}/notifications/${notification.id}/read`
+      );
+      mutate();
+    }
+
+    if (notification.url) {
+      router.push(notification.url);
+    }
+  };
+
   return (
-    <button
-      className="rounded-full p-1 text-gray-400 hover:bg-gray-500 hover:text-white focus:text-white focus:outline-none focus:ring"
-      aria-label="Notifications"
-    >
-      <BellIcon className="h-6 w-6" />
-    </button>
+    <Menu as="div" className="relative ml-3">
+      <Menu.Button
+        className="relative rounded-full p-1 text-gray-400 hover:bg-gray-500 hover:text-white focus:text-white focus:outline-none focus:ring"
+        aria-label={intl.formatMessage(messages.notifications)}
+      >
+        <BellIcon className="h-6 w-6" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-1 -right-1 flex h-5 min-w-[1.25rem] items-center justify-center rounded-full bg-indigo-600 px-1 text-xs font-semibold text-white ring-2 ring-gray-900">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </Menu.Button>
+      <Transition
+        as={Fragment}
+        enter="transition ease-out duration-100"
+        enterFrom="opacity-0 scale-95"
+        enterTo="opacity-100 scale-100"
+        leave="transition ease-in duration-75"
+        leaveFrom="opacity-100 scale-100"
+        leaveTo="opacity-0 scale-95"
+      >
+        <Menu.Items className="absolute right-0 mt-2 w-80 origin-top-right rounded-md shadow-lg">
+          <div className="divide-y divide-gray-700 rounded-md bg-gray-800 bg-opacity-80 ring-1 ring-gray-700 backdrop-blur">
+            <div className="flex items-center justify-between px-4 py-3">
+              <span className="font-semibold text-gray-200">
+                {intl.formatMessage(messages.notifications)}
+              </span>
+              {unreadCount > 0 && (
+                <button
+                  className="text-sm text-indigo-400 transition duration-150 hover:text-indigo-300 focus:outline-none"
+                  onClick={(e) => {
+                    e.preventDefault();
+                    markAllRead();
+                  }}
+                >
+                  {intl.formatMessage(messages.markAllRead)}
+                </button>
+              )}
+            </div>
+            <div className="max-h-96 overflow-y-auto p-1">
+              {!data?.results.length ? (
+                <div className="px-4 py-6 text-center text-sm text-gray-400">
+                  {intl.formatMessage(messages.noNotifications)}
+                </div>
+              ) : (
+                data.results.map((notification) => (
+                  <Menu.Item key={`notification-${notification.id}`}>
+                    {({ active }) => (
+                      <button
+                        className={`flex w-full items-start rounded px-3 py-2 text-left transition duration-150 ease-in-out ${
+                          active
+                            ? 'bg-gradient-to-br from-indigo-600 to-purple-600'
+                            : ''
+                        }`}
+                        onClick={() => openNotification(notification)}
+                      >
+                        <span
+                          className={`mt-1.5 mr-2 h-2 w-2 flex-shrink-0 rounded-full ${
+                            notification.isRead
+                              ? 'bg-transparent'
+                              : 'bg-indigo-500'
+                          }`}
+                        />
+                        <span className="flex min-w-0 flex-col">
+                          {notification.event && (
+                            <span className="truncate text-xs font-semibold uppercase text-gray-400">
+                              {notification.event}
+                            </span>
+                          )}
+                          <span className="truncate text-sm font-medium text-gray-100">
+                            {notification.subject}
+                          </span>
+                          {notification.message && (
+                            <span className="truncate text-xs text-gray-300">
+                              {notification.message}
+                            </span>
+                          )}
+                          <span className="mt-1 text-xs text-gray-400">
+                            <FormattedRelativeTime
+                              value={Math.floor(
+                                (new Date(notification.createdAt).getTime() -
+                                  Date.now()) /
+                                  1000
+                              )}
+                              updateIntervalInSeconds={60}
+                              numeric="auto"
+                            />
+                          </span>
+                        </span>
+                      </button>
+                    )}
+                  </Menu.Item>
+                ))
+              )}
+            </div>
+          </div>
+        </Menu.Items>
+      </Transition>
+    </Menu>
   );
 };
 
@@ -2,7 +2,11 @@ import Infinity from '@app/assets/infinity.svg';
 import { SmallLoadingSpinner } from '@app/components/Common/LoadingSpinner';
 import ProgressCircle from '@app/components/Common/ProgressCircle';
 import defineMessages from '@app/utils/defineMessages';
-import type { QuotaResponse } from '@server/interfaces/api/userInterfaces';
+import { QuotaType } from '@server/constants/user';
+import type {
+  QuotaResponse,
+  QuotaStatus,
+} from '@server/interfaces/api/userInterfaces';
 import { useIntl } from 'react-intl';
 import useSWR from 'swr';
 
@@ -11,6 +15,8 @@ const messages = defineMessages(
   {
     movierequests: 'Movie Requests',
     seriesrequests: 'Series Requests',
+    seriesepisodes: 'Series Episodes',
+    gigabytes: '{size} GB',
   }
 );
 
@@ -26,6 +32,11 @@ const MiniQuotaDisplay = ({ userId }: MiniQuotaDisplayProps) => {
     return null;
   }
 
+  const formatQuotaValue = (quota: QuotaStatus | undefined, value?: number) =>
+    quota?.type === QuotaType.SIZE
+      ? intl.formatMessage(messages.gigabytes, { size: value })
+      : value;
+
   if (!data && !error) {
     return <SmallLoadingSpinner />;
   }
@@ -51,7 +62,8 @@ const MiniQuotaDisplay = ({ userId }: MiniQuotaDisplayProps) => {
                     useHeatLevel
                   />
                   <span className="text-lg font-bold">
-                    {data?.movie.remaining} / {data?.movie.limit}
+                    {data?.movie.remaining} /{' '}
+                    {formatQuotaValue(data?.movie, data?.movie.limit)}
                   </span>
                 </>
               ) : (
@@ -64,7 +76,11 @@ const MiniQuotaDisplay = ({ userId }: MiniQuotaDisplayProps) => {
           </div>
           <div className="flex basis-1/2 flex-col space-y-2">
             <div className="text-sm text-gray-200">
-              {intl.formatMessage(messages.seriesrequests)}
+              {intl.formatMessage(
+                data?.tv.type === QuotaType.EPISODES
+                  ? messages.seriesepisodes
+                  : messages.seriesrequests
+              )}
             </div>
             <div className="flex h-full items-center space-x-2 text-gray-200">
               {data?.tv.limit ?? 0 > 0 ? (
@@ -77,7 +93,8 @@ const MiniQuotaDisplay = ({ userId }: MiniQuotaDisplayProps) => {
                     useHeatLevel
                   />
                   <span className="text-lg font-bold text-gray-200">
-                    {data?.tv.remaining} / {data?.tv.limit}
+                    {data?.tv.remaining} /{' '}
+                    {formatQuotaValue(data?.tv, data?.tv.limit)}
                   </span>
                 </>
               ) : (
@@ -1,10 +1,12 @@
 import MobileMenu from '@app/components/Layout/MobileMenu';
+import Notifications from '@app/components/Layout/Notifications';
 import PullToRefresh from '@app/components/Layout/PullToRefresh';
 import SearchInput from '@app/components/Layout/SearchInput';
 import Sidebar from '@app/components/Layout/Sidebar';
 import UserDropdown from '@app/components/Layout/UserDropdown';
 import type { AvailableLocale } from '@app/context/LanguageContext';
 import useLocale from '@app/hooks/useLocale';
+import { useServerEvent } from '@app/hooks/useServerEvents';
 import useSettings from '@app/hooks/useSettings';
 import { useUser } from '@app/hooks/useUser';
 import { ArrowLeftIcon, Bars3BottomLeftIcon } from '@heroicons/react/24/solid';
@@ -36,6 +38,10 @@ const Layout = ({ children }: LayoutProps) => {
     }
   );
 
+  useServerEvent('request', () => {
+    revalidateRequestsCount();
+  });
+
   useEffect(() => {
     if (setLocale && user) {
       setLocale(
@@ -117,6 +123,7 @@ const Layout = ({ children }: LayoutProps) => {
             </button>
             <SearchInput />
             <div className="flex items-center">
+              <Notifications />
               <UserDropdown />
             </div>
           </div>
@@ -2,6 +2,7 @@ import Modal from '@app/components/Common/Modal';
 import useSettings from '@app/hooks/useSettings';
 import defineMessages from '@app/utils/defineMessages';
 import { Transition } from '@headlessui/react';
+import { MediaServerType } from '@server/constants/server';
 import axios from 'axios';
 import { Field, Formik } from 'formik';
 import { useIntl } from 'react-intl';
@@ -58,11 +59,18 @@ const AddEmailModal: React.FC<AddEmailModalProps> = ({
         validationSchema={EmailSettingsSchema}
         onSubmit={async (values) => {
           try {
-            await axios.post('/api/v1/auth/jellyfin', {
-              username: username,
-              password: password,
-              email: values.email,
-            });
+            await axios.post(
+              settings.currentSettings.mediaServerTypes.includes(
+                MediaServerType.EMBY
+              )
+                ? '/api/v1/auth/emby'
+                : '/api/v1/auth/jellyfin',
+              {
+                username: username,
+                password: password,
+                email: values.email,
+              }
+            );
 
             onSave();
           } catch (e) {
@@ -72,11 +72,16 @@ const JellyfinLogin: React.FC<JellyfinLoginProps> = ({
         validateOnBlur={false}
         onSubmit={async (values) => {
           try {
-            await axios.post('/api/v1/auth/jellyfin', {
-              username: values.username,
-              password: values.password,
-              email: values.username,
-            });
+            await axios.post(
+              serverType === MediaServerType.EMBY
+                ? '/api/v1/auth/emby'
+                : '/api/v1/auth/jellyfin',
+              {
+                username: values.username,
+                password: values.password,
+                email: values.username,
+              }
+            );
           } catch (e) {
             let errorMessage = null;
             switch (e?.response?.data?.message) {
@@ -1,5 +1,6 @@
 import Button from '@app/components/Common/Button';
 import SensitiveInput from '@app/components/Common/SensitiveInput';
+import TwoFactorLogin from '@app/components/Login/TwoFactorLogin';
 import useSettings from '@app/hooks/useSettings';
 import defineMessages from '@app/utils/defineMessages';
 import { ArrowLeftOnRectangleIcon } from '@heroicons/react/24/outline';
@@ -31,6 +32,9 @@ const LocalLogin = ({ revalidate }: LocalLoginProps) => {
   const intl = useIntl();
   const settings = useSettings();
   const [loginError, setLoginError] = useState<string | null>(null);
+  const [twoFactor, setTwoFactor] = useState<{
+    setupRequired: boolean;
+  } | null>(null);
 
   const LoginSchema = Yup.object().shape({
     email: Yup.string().required(
@@ -45,6 +49,16 @@ const LocalLogin = ({ revalidate }: LocalLoginProps) => {
     settings.currentSettings.applicationUrl &&
     settings.currentSettings.emailEnabled;
 
+  if (twoFactor) {
+    return (
+      <TwoFactorLogin
+        setupRequired={twoFactor.setupRequired}
+        revalidate={revalidate}
+        onCancel={() => setTwoFactor(null)}
+      />
+    );
+  }
+
   return (
     <Formik
       initialValues={{
@@ -55,10 +69,16 @@ const LocalLogin = ({ revalidate }: LocalLoginProps) => {
       validateOnBlur={false}
       onSubmit={async (values) => {
         try {
-          await axios.post('/api/v1/auth/local', {
+          const response = await axios.post('/api/v1/auth/local', {
             email: values.email,
             password: values.password,
           });
+
+          if (response.data?.twoFactorRequired) {
+            setTwoFactor({
+              setupRequired: !!response.data.twoFactorSetupRequired,
+            });
+          }
         } catch (e) {
           setLoginError(intl.formatMessage(messages.loginerror));
         } finally {
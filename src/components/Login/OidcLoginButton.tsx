@@ -0,0 +1,62 @@
+import Button from '@app/components/Common/Button';
+import { SmallLoadingSpinner } from '@app/components/Common/LoadingSpinner';
+import defineMessages from '@app/utils/defineMessages';
+import { ArrowLeftOnRectangleIcon } from '@heroicons/react/24/outline';
+import axios from 'axios';
+import { useState } from 'react';
+import { useIntl } from 'react-intl';
+
+const messages = defineMessages('components.Login', {
+  loginwithoidc: 'Login with {providerName}',
+  oidcerror: 'Unable to start the single sign-on login.',
+});
+
+interface OidcLoginButtonProps {
+  providerName: string;
+  isProcessing?: boolean;
+  onError?: (message: string) => void;
+}
+
+const OidcLoginButton = ({
+  providerName,
+  isProcessing,
+  onError,
+}: OidcLoginButtonProps) => {
+  const intl = useIntl();
+  const [loading, setLoading] = useState(false);
+
+  const login = async () => {
+    setLoading(true);
+    try {
+      const response = await axios.post<{ redirectUrl: string }>(
+        '/api/v1/auth/oidc/login'
+      );
+
+      window.location.href = response.data.redirectUrl;
+    } catch (e) {
+      setLoading(false);
+      onError?.(intl.formatMessage(messages.oidcerror));
+    }
+  };
+
+  return (
+    <Button
+      className="relative flex-1 bg-transparent"
+      onClick={login}
+      disabled={loading || isProcessing}
+      data-testid="oidc-login-button"
+    >
+      {loading && (
+        <div className="absolute right-0 mr-4 h-4 w-4">
+          <SmallLoadingSpinner />
+        </div>
+      )}
+      <ArrowLeftOnRectangleIcon />
+      <span>
+        {intl.formatMessage(messages.loginwithoidc, { providerName })}
+      </span>
+    </Button>
+  );
+};
+
+export default OidcLoginButton;
@@ -0,0 +1,186 @@
+import Button from '@app/components/Common/Button';
+import LoadingSpinner from '@app/components/Common/LoadingSpinner';
+import TwoFactorSetup from '@app/components/TwoFactorSetup';
+import RecoveryCodes from '@app/components/TwoFactorSetup/RecoveryCodes';
+import defineMessages from '@app/utils/defineMessages';
+import { ArrowLeftOnRectangleIcon } from '@heroicons/react/24/outline';
+import axios from 'axios';
+import { Field, Form, Formik } from 'formik';
+import { useEffect, useState } from 'react';
+import { useIntl } from 'react-intl';
+import * as Yup from 'yup';
+
+const messages = defineMessages('components.Login', {
+  twofactor: 'Two-Factor Authentication',
+  twofactorcode: 'Authentication Code',
+  twofactorhint:
+    'Enter the code from your authenticator app, or one of your recovery codes.',
+  twofactorsetuphint:
+    'Two-factor authentication is required for your account. Set it up to continue.',
+  validationtwofactorcoderequired: 'You must provide an authentication code',
+  twofactorerror: 'The authentication code is invalid.',
+  twofactorexpired: 'Your sign-in has expired. Please sign in again.',
+  verifying: 'Verifying…',
+  verify: 'Verify',
+  continue: 'Continue',
+  back: 'Back',
+});
+
+interface TwoFactorLoginProps {
+  setupRequired: boolean;
+  revalidate: () => void;
+  onCancel: () => void;
+}
+
+const TwoFactorLogin = ({
+  setupRequired,
+  revalidate,
+  onCancel,
+}: TwoFactorLoginProps) => {
+  const intl = useIntl();
+  const [error, setError] = useState<string | null>(null);
+  const [setup, setSetup] = useState<{
+    secret: string;
+    otpauthUrl: string;
+  } | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  useEffect(() => {
+    if (!setupRequired) {
+      return;
+    }
+
+    axios
+      .post<{ secret: string; otpauthUrl: string }>('/api/v1/auth/2fa/setup')
+      .then((response) => setSetup(response.data))
+      .catch(() => setError(intl.formatMessage(messages.twofactorexpired)));
+  }, [setupRequired, intl]);
+
+  const CodeSchema = Yup.object().shape({
+    code: Yup.string().required(
+      intl.formatMessage(messages.validationtwofactorcoderequired)
+    ),
+  });
+
+  if (recoveryCodes) {
+    return (
+      <div>
+        <h2 className="mb-6 -mt-1 text-center text-lg font-bold text-neutral-200">
+          {intl.formatMessage(messages.twofactor)}
+        </h2>
+        <RecoveryCodes codes={recoveryCodes} />
+        <Button
+          buttonType="primary"
+          className="mt-2 w-full shadow-sm"
+          onClick={() => revalidate()}
+        >
+          <ArrowLeftOnRectangleIcon />
+          <span>{intl.formatMessage(messages.continue)}</span>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <Formik
+      initialValues={{ code: '' }}
+      validationSchema={CodeSchema}
+      validateOnBlur={false}
+      onSubmit={async (values) => {
+        try {
+          setError(null);
+          const response = await axios.post<{ recoveryCodes?: string[] }>(
+            '/api/v1/auth/2fa/verify',
+            { code: values.code }
+          );
+
+          if (response.data.recoveryCodes) {
+            setRecoveryCodes(response.data.recoveryCodes);
+          } else {
+            revalidate();
+          }
+        } catch (e) {
+          setError(
+            e.response?.status === 401
+              ? intl.formatMessage(messages.twofactorexpired)
+              : intl.formatMessage(messages.twofactorerror)
+          );
+        }
+      }}
+    >
+      {({ errors, touched, isSubmitting, isValid }) => (
+        <Form data-form-type="other">
+          <h2 className="mb-4 -mt-1 text-center text-lg font-bold text-neutral-200">
+            {intl.formatMessage(messages.twofactor)}
+          </h2>
+          <p className="mb-4 text-center text-sm text-gray-400">
+            {intl.formatMessage(
+              setupRequired
+                ? messages.twofactorsetuphint
+                : messages.twofactorhint
+            )}
+          </p>
+          {setupRequired && (
+            <div className="mb-4">
+              {setup ? (
+                <TwoFactorSetup
+                  secret={setup.secret}
+                  otpauthUrl={setup.otpauthUrl}
+                />
+              ) : (
+                !error && <LoadingSpinner />
+              )}
+            </div>
+          )}
+          <div className="mt-1 mb-2">
+            <div className="form-input-field">
+              <Field
+                id="code"
+                name="code"
+                type="text"
+                inputMode={setupRequired ? 'numeric' : 'text'}
+                autoComplete="one-time-code"
+                placeholder={intl.formatMessage(messages.twofactorcode)}
+                data-testid="two-factor-code"
+                className="!bg-gray-700/80 placeholder:text-gray-400"
+              />
+            </div>
+            {errors.code && touched.code && (
+              <div className="error">{errors.code}</div>
+            )}
+          </div>
+          {error && (
+            <div className="mt-1 mb-2">
+              <div className="error">{error}</div>
+            </div>
+          )}
+          <div className="mt-2 flex gap-2">
+            <Button
+              type="button"
+              className="flex-1 shadow-sm"
+              onClick={() => onCancel()}
+            >
+              <span>{intl.formatMessage(messages.back)}</span>
+            </Button>
+            <Button
+              buttonType="primary"
+              type="submit"
+              disabled={isSubmitting || !isValid}
+              data-testid="two-factor-verify-button"
+              className="flex-1 shadow-sm"
+            >
+              <ArrowLeftOnRectangleIcon />
+              <span>
+                {isSubmitting
+                  ? intl.formatMessage(messages.verifying)
+                  : intl.formatMessage(messages.verify)}
+              </span>
+            </Button>
+          </div>
+        </Form>
+      )}
+    </Formik>
+  );
+};
+
+export default TwoFactorLogin;
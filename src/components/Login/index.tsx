@@ -1,22 +1,25 @@
 import EmbyLogo from '@app/assets/services/emby-icon-only.svg';
 import JellyfinLogo from '@app/assets/services/jellyfin-icon.svg';
-import PlexLogo from '@app/assets/services/plex.svg';
 import Button from '@app/components/Common/Button';
 import ImageFader from '@app/components/Common/ImageFader';
 import PageTitle from '@app/components/Common/PageTitle';
 import LanguagePicker from '@app/components/Layout/LanguagePicker';
 import JellyfinLogin from '@app/components/Login/JellyfinLogin';
 import LocalLogin from '@app/components/Login/LocalLogin';
+import OidcLoginButton from '@app/components/Login/OidcLoginButton';
 import PlexLoginButton from '@app/components/Login/PlexLoginButton';
+import TwoFactorLogin from '@app/components/Login/TwoFactorLogin';
 import useSettings from '@app/hooks/useSettings';
 import { useUser } from '@app/hooks/useUser';
 import defineMessages from '@app/utils/defineMessages';
 import { Transition } from '@headlessui/react';
 import { XCircleIcon } from '@heroicons/react/24/solid';
+import { ApiErrorCode } from '@server/constants/error';
 import { MediaServerType } from '@server/constants/server';
 import axios from 'axios';
 import { useRouter } from 'next/dist/client/router';
 import Image from 'next/image';
+import Link from 'next/link';
 import { useEffect, useRef, useState } from 'react';
 import { useIntl } from 'react-intl';
 import { CSSTransition, SwitchTransition } from 'react-transition-group';
@@ -29,6 +32,19 @@ const messages = defineMessages('components.Login', {
   signinwithjellyfin: 'Use your {mediaServerName} account',
   signinwithoverseerr: 'Use your {applicationTitle} account',
   orsigninwith: 'Or sign in with',
+  oidcfailed: 'Single sign-on failed. Please try again.',
+  oidcnoaccount:
+    'Your single sign-on account is not linked to a user. Please contact your administrator.',
+  oidcmissingemail:
+    'Your single sign-on account does not provide a verified email address.',
+  oidcalreadylinked:
+    'This single sign-on account is already linked to another user.',
+  oidcemailinuse:
+    'A user with this email address already exists. Sign in and link your account from your profile settings instead.',
+  oidctwofactorlinkrefused:
+    'Your account uses two-factor authentication. Sign in and link your account from your profile settings instead.',
+  noaccount: "Don't have an account?",
+  requestaccount: 'Request an account',
 });
 
 const Login = () => {
@@ -67,6 +83,36 @@ const Login = () => {
     }
   }, [authToken, revalidate]);
 
+  // Effect that is triggered when the OpenID Connect callback redirects back
+  // to the login page with an error code.
+  useEffect(() => {
+    const oidcError = router.query.oidcError;
+
+    if (!oidcError) {
+      return;
+    }
+
+    switch (oidcError) {
+      case ApiErrorCode.Unauthorized:
+        setError(intl.formatMessage(messages.oidcnoaccount));
+        break;
+      case ApiErrorCode.OidcMissingEmail:
+        setError(intl.formatMessage(messages.oidcmissingemail));
+        break;
+      case ApiErrorCode.OidcAccountAlreadyLinked:
+        setError(intl.formatMessage(messages.oidcalreadylinked));
+        break;
+      case ApiErrorCode.OidcEmailInUse:
+        setError(intl.formatMessage(messages.oidcemailinuse));
+        break;
+      case ApiErrorCode.OidcTwoFactorLinkRefused:
+        setError(intl.formatMessage(messages.oidctwofactorlinkrefused));
+        break;
+      default:
+        setError(intl.formatMessage(messages.oidcfailed));
+    }
+  }, [router.query.oidcError, intl]);
+
   // Effect that is triggered whenever `useUser`'s user changes. If we get a new
   // valid user, we redirect the user to the home page as the login was successful.
   useEffect(() => {
@@ -81,27 +127,39 @@ const Login = () => {
     revalidateOnFocus: false,
   });
 
+  const isPlex = settings.currentSettings.mediaServerTypes.includes(
+    MediaServerType.PLEX
+  );
+  // Jellyfin and Emby can not be enabled at the same time
+  const jellyfinServerType = settings.currentSettings.mediaServerTypes.includes(
+    MediaServerType.EMBY
+  )
+    ? MediaServerType.EMBY
+    : settings.currentSettings.mediaServerTypes.includes(
+        MediaServerType.JELLYFIN
+      )
+    ? MediaServerType.JELLYFIN
+    : undefined;
+
   const mediaServerName =
-    settings.currentSettings.mediaServerType === MediaServerType.PLEX
-      ? 'Plex'
-      : settings.currentSettings.mediaServerType === MediaServerType.JELLYFIN
+    jellyfinServerType === MediaServerType.JELLYFIN
       ? 'Jellyfin'
-      : settings.currentSettings.mediaServerType === MediaServerType.EMBY
+      : jellyfinServerType === MediaServerType.EMBY
       ? 'Emby'
       : undefined;
 
   const MediaServerLogo =
-    settings.currentSettings.mediaServerType === MediaServerType.PLEX
-      ? PlexLogo
-      : settings.currentSettings.mediaServerType === MediaServerType.JELLYFIN
+    jellyfinServerType === MediaServerType.JELLYFIN
       ? JellyfinLogo
-      : settings.currentSettings.mediaServerType === MediaServerType.EMBY
+      : jellyfinServerType === MediaServerType.EMBY
       ? EmbyLogo
       : undefined;
 
-  const isJellyfin =
-    settings.currentSettings.mediaServerType === MediaServerType.JELLYFIN ||
-    settings.currentSettings.mediaServerType === MediaServerType.EMBY;
+  // The OpenID Connect callback redirects back to the login page when the
+  // second factor still has to be verified
+  const oidcTwoFactor = router.query.twoFactor;
+
+  const isJellyfin = jellyfinServerType !== undefined;
   const mediaServerLoginRef = useRef<HTMLDivElement>(null);
   const localLoginRef = useRef<HTMLDivElement>(null);
   const loginRef = mediaServerLogin ? mediaServerLoginRef : localLoginRef;
@@ -110,43 +168,51 @@ const Login = () => {
     (isJellyfin && settings.currentSettings.mediaServerLogin) ||
     settings.currentSettings.localLogin;
   const additionalLoginOptions = [
+    settings.currentSettings.mediaServerLogin && isPlex && (
+      <PlexLoginButton
+        key="plex"
+        isProcessing={isProcessing}
+        onAuthToken={(authToken) => setAuthToken(authToken)}
+        large={!isJellyfin && !settings.currentSettings.localLogin}
+      />
+    ),
     settings.currentSettings.mediaServerLogin &&
-      (settings.currentSettings.mediaServerType === MediaServerType.PLEX ? (
-        <PlexLoginButton
-          key="plex"
-          isProcessing={isProcessing}
-          onAuthToken={(authToken) => setAuthToken(authToken)}
-          large={!isJellyfin && !settings.currentSettings.localLogin}
-        />
+      isJellyfin &&
+      settings.currentSettings.localLogin &&
+      (mediaServerLogin ? (
+        <Button
+          key="jellyseerr"
+          data-testid="jellyseerr-login-button"
+          className="flex-1 bg-transparent"
+          onClick={() => setMediaServerLogin(false)}
+        >
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img
+            src="/os_icon.svg"
+            alt={settings.currentSettings.applicationTitle}
+            className="mr-2 h-5"
+          />
+          <span>{settings.currentSettings.applicationTitle}</span>
+        </Button>
       ) : (
-        settings.currentSettings.localLogin &&
-        (mediaServerLogin ? (
-          <Button
-            key="jellyseerr"
-            data-testid="jellyseerr-login-button"
-            className="flex-1 bg-transparent"
-            onClick={() => setMediaServerLogin(false)}
-          >
-            {/* eslint-disable-next-line @next/next/no-img-element */}
-            <img
-              src="/os_icon.svg"
-              alt={settings.currentSettings.applicationTitle}
-              className="mr-2 h-5"
-            />
-            <span>{settings.currentSettings.applicationTitle}</span>
-          </Button>
-        ) : (
-          <Button
-            key="mediaserver"
-            data-testid="mediaserver-login-button"
-            className="flex-1 bg-transparent"
-            onClick={() => setMediaServerLogin(true)}
-          >
-            <MediaServerLogo />
-            <span>{mediaServerName}</span>
-          </Button>
-        ))
+        <Button
+          key="mediaserver"
+          data-testid="mediaserver-login-button"
+          className="flex-1 bg-transparent"
+          onClick={() => setMediaServerLogin(true)}
+        >
+          <MediaServerLogo />
+          <span>{mediaServerName}</span>
+        </Button>
       )),
+    settings.currentSettings.oidcLogin && (
+      <OidcLoginButton
+        key="oidc"
+        providerName={settings.currentSettings.oidcProviderName}
+        isProcessing={isProcessing}
+        onError={(message) => setError(message)}
+      />
+    ),
   ].filter((o): o is JSX.Element => !!o);
 
   return (
@@ -197,69 +263,94 @@ const Login = () => {
               </div>
             </Transition>
             <div className="px-10 py-8">
-              <SwitchTransition mode="out-in">
-                <CSSTransition
-                  key={mediaServerLogin ? 'ms' : 'local'}
-                  nodeRef={loginRef}
-                  addEndListener={(done) => {
-                    loginRef.current?.addEventListener(
-                      'transitionend',
-                      done,
-                      false
-                    );
-                  }}
-                  onEntered={() => {
-                    document
-                      .querySelector<HTMLInputElement>('#email, #username')
-                      ?.focus();
-                  }}
-                  classNames={{
-                    appear: 'opacity-0',
-                    appearActive: 'transition-opacity duration-500 opacity-100',
-                    enter: 'opacity-0',
-                    enterActive: 'transition-opacity duration-500 opacity-100',
-                    exitActive: 'transition-opacity duration-0 opacity-0',
-                  }}
-                >
-                  <div ref={loginRef} className="button-container">
-                    {isJellyfin &&
-                    (mediaServerLogin ||
-                      !settings.currentSettings.localLogin) ? (
-                      <JellyfinLogin
-                        serverType={settings.currentSettings.mediaServerType}
-                        revalidate={revalidate}
-                      />
+              {oidcTwoFactor ? (
+                <TwoFactorLogin
+                  setupRequired={oidcTwoFactor === 'setup'}
+                  revalidate={revalidate}
+                  onCancel={() => router.replace('/login')}
+                />
+              ) : (
+                <>
+                  <SwitchTransition mode="out-in">
+                    <CSSTransition
+                      key={mediaServerLogin ? 'ms' : 'local'}
+                      nodeRef={loginRef}
+                      addEndListener={(done) => {
+                        loginRef.current?.addEventListener(
+                          'transitionend',
+                          done,
+                          false
+                        );
+                      }}
+                      onEntered={() => {
+                        document
+                          .querySelector<HTMLInputElement>('#email, #username')
+                          ?.focus();
+                      }}
+                      classNames={{
+                        appear: 'opacity-0',
+                        appearActive:
+                          'transition-opacity duration-500 opacity-100',
+                        enter: 'opacity-0',
+                        enterActive:
+                          'transition-opacity duration-500 opacity-100',
+                        exitActive: 'transition-opacity duration-0 opacity-0',
+                      }}
+                    >
+                      <div ref={loginRef} className="button-container">
+                        {isJellyfin &&
+                        (mediaServerLogin ||
+                          !settings.currentSettings.localLogin) ? (
+                          <JellyfinLogin
+                            serverType={jellyfinServerType}
+                            revalidate={revalidate}
+                          />
+                        ) : (
+                          settings.currentSettings.localLogin && (
+                            <LocalLogin revalidate={revalidate} />
+                          )
+                        )}
+                      </div>
+                    </CSSTransition>
+                  </SwitchTransition>
+
+                  {additionalLoginOptions.length > 0 &&
+                    (loginFormVisible ? (
+                      <div className="flex items-center py-5">
+                        <div className="flex-grow border-t border-gray-600"></div>
+                        <span className="mx-2 flex-shrink text-sm text-gray-400">
+                          {intl.formatMessage(messages.orsigninwith)}
+                        </span>
+                        <div className="flex-grow border-t border-gray-600"></div>
+                      </div>
                     ) : (
-                      settings.currentSettings.localLogin && (
-                        <LocalLogin revalidate={revalidate} />
-                      )
-                    )}
-                  </div>
-                </CSSTransition>
-              </SwitchTransition>
+                      <h2 className="mb-6 text-center text-lg font-bold text-neutral-200">
+                        {intl.formatMessage(messages.signinheader)}
+                      </h2>
+                    ))}
 
-              {additionalLoginOptions.length > 0 &&
-                (loginFormVisible ? (
-                  <div className="flex items-center py-5">
-                    <div className="flex-grow border-t border-gray-600"></div>
-                    <span className="mx-2 flex-shrink text-sm text-gray-400">
-                      {intl.formatMessage(messages.orsigninwith)}
-                    </span>
-                    <div className="flex-grow border-t border-gray-600"></div>
+                  <div
+                    className={`flex w-full flex-wrap gap-2 ${
+                      !loginFormVisible ? 'flex-col' : ''
+                    }`}
+                  >
+                    {additionalLoginOptions}
                   </div>
-                ) : (
-                  <h2 className="mb-6 text-center text-lg font-bold text-neutral-200">
-                    {intl.formatMessage(messages.signinheader)}
-                  </h2>
-                ))}
 
-              <div
-                className={`flex w-full flex-wrap gap-2 ${
-                  !loginFormVisible ? 'flex-col' : ''
-                }`}
-              >
-                {additionalLoginOptions}
-              </div>
+                  {settings.currentSettings.accountRequestsEnabled &&
+                    settings.currentSettings.localLogin && (
+                      <p className="mt-6 text-center text-sm text-gray-400">
+                        {intl.formatMessage(messages.noaccount)}{' '}
+                        <Link
+                          href="/register"
+                          className="text-indigo-500 hover:text-indigo-400"
+                        >
+                          {intl.formatMessage(messages.requestaccount)}
+                        </Link>
+                      </p>
+                    )}
+                </>
+              )}
             </div>
           </>
         </div>
@@ -4,6 +4,7 @@ import CachedImage from '@app/components/Common/CachedImage';
 import ConfirmButton from '@app/components/Common/ConfirmButton';
 import SlideOver from '@app/components/Common/SlideOver';
 import Tooltip from '@app/components/Common/Tooltip';
+import DoubanMappingBlock from '@app/components/DoubanMappingBlock';
 import DownloadBlock from '@app/components/DownloadBlock';
 import IssueBlock from '@app/components/IssueBlock';
 import RequestBlock from '@app/components/RequestBlock';
@@ -40,6 +41,7 @@ const messages = defineMessages('components.ManageSlideOver', {
   manageModalMedia: 'Media',
   manageModalMedia4k: '4K Media',
   manageModalAdvanced: 'Advanced',
+  manageModalDouban: 'Douban',
   manageModalNoRequests: 'No requests.',
   manageModalClearMedia: 'Clear Data',
   manageModalClearMediaWarning:
@@ -97,7 +99,7 @@ const ManageSlideOver = ({
   const intl = useIntl();
   const settings = useSettings();
   const { data: watchData } = useSWR<MediaWatchDataResponse>(
-    settings.currentSettings.mediaServerType === MediaServerType.PLEX &&
+    settings.currentSettings.mediaServerTypes.includes(MediaServerType.PLEX) &&
       data.mediaInfo &&
       hasPermission(Permission.ADMIN)
       ? `/api/v1/media/${data.mediaInfo.id}/watch_data`
@@ -608,6 +610,21 @@ const ManageSlideOver = ({
               </div>
             </div>
           )}
+        {data.mediaInfo &&
+          settings.currentSettings.ratingOverlays?.includes('douban') && (
+            <div>
+              <h3 className="mb-2 text-xl font-bold">
+                {intl.formatMessage(messages.manageModalDouban)}
+              </h3>
+              <div className="overflow-hidden rounded-md border border-gray-700 shadow">
+                <DoubanMappingBlock
+                  mediaId={data.mediaInfo.id}
+                  mediaType={mediaType}
+                  tmdbId={data.mediaInfo.tmdbId}
+                />
+              </div>
+            </div>
+          )}
         {hasPermission(Permission.ADMIN) &&
           data?.mediaInfo &&
           data.mediaInfo.status !== MediaStatus.BLACKLISTED && (
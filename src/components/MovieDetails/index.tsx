@@ -24,6 +24,10 @@ import Slider from '@app/components/Slider';
 import StatusBadge from '@app/components/StatusBadge';
 import useDeepLinks from '@app/hooks/useDeepLinks';
 import useLocale from '@app/hooks/useLocale';
+import {
+  useServerEvent,
+  useServerEventsConnected,
+} from '@app/hooks/useServerEvents';
 import useSettings from '@app/hooks/useSettings';
 import { Permission, UserType, useUser } from '@app/hooks/useUser';
 import globalMessages from '@app/i18n/globalMessages';
@@ -134,19 +138,37 @@ const MovieDetails = ({ movie }: MovieDetailsProps) => {
   const [showBlacklistModal, setShowBlacklistModal] = useState(false);
   const { addToast } = useToasts();
 
+  const eventsConnected = useServerEventsConnected();
   const {
     data,
     error,
     mutate: revalidate,
   } = useSWR<MovieDetailsType>(`/api/v1/movie/${router.query.movieId}`, {
     fallbackData: movie,
-    refreshInterval: refreshIntervalHelper(
-      {
-        downloadStatus: movie?.mediaInfo?.downloadStatus,
-        downloadStatus4k: movie?.mediaInfo?.downloadStatus4k,
-      },
-      15000
-    ),
+    refreshInterval: eventsConnected
+      ? 0
+      : refreshIntervalHelper(
+          {
+            downloadStatus: movie?.mediaInfo?.downloadStatus,
+            downloadStatus4k: movie?.mediaInfo?.downloadStatus4k,
+          },
+          15000
+        ),
+  });
+
+  useServerEvent('media', (media) => {
+    if (media.mediaType === MediaType.MOVIE && media.tmdbId === data?.id) {
+      revalidate();
+    }
+  });
+
+  useServerEvent('downloads', () => {
+    if (
+      data?.mediaInfo?.downloadStatus?.length ||
+      data?.mediaInfo?.downloadStatus4k?.length
+    ) {
+      revalidate();
+    }
   });
 
   const { data: ratingData } = useSWR<RatingResponse>(
@@ -167,11 +189,16 @@ const MovieDetails = ({ movie }: MovieDetailsProps) => {
     []
   );
 
-  const { mediaUrl: plexUrl, mediaUrl4k: plexUrl4k } = useDeepLinks({
+  const {
+    mediaUrl: plexUrl,
+    mediaUrl4k: plexUrl4k,
+    mediaServerLinks,
+  } = useDeepLinks({
     mediaUrl: data?.mediaInfo?.mediaUrl,
     mediaUrl4k: data?.mediaInfo?.mediaUrl4k,
     iOSPlexUrl: data?.mediaInfo?.iOSPlexUrl,
     iOSPlexUrl4k: data?.mediaInfo?.iOSPlexUrl4k,
+    mediaServerLinks: data?.mediaInfo?.mediaServerLinks,
   });
 
   if (!data && !error) {
@@ -185,32 +212,36 @@ const MovieDetails = ({ movie }: MovieDetailsProps) => {
   const showAllStudios = data.productionCompanies.length <= minStudios + 1;
   const mediaLinks: PlayButtonLink[] = [];
 
-  if (
-    plexUrl &&
-    hasPermission([Permission.REQUEST, Permission.REQUEST_MOVIE], {
-      type: 'or',
-    })
-  ) {
-    mediaLinks.push({
-      text: getAvailableMediaServerName(),
-      url: plexUrl,
-      svg: <PlayIcon />,
-    });
-  }
+  mediaServerLinks.forEach((link) => {
+    if (
+      link.url &&
+      hasPermission([Permission.REQUEST, Permission.REQUEST_MOVIE], {
+        type: 'or',
+      })
+    ) {
+      mediaLinks.push({
+        text: getAvailableMediaServerName(link.serverType),
+        url: link.url,
+        svg: <PlayIcon />,
+      });
+    }
+  });
 
-  if (
-    settings.currentSettings.movie4kEnabled &&
-    plexUrl4k &&
-    hasPermission([Permission.REQUEST_4K, Permission.REQUEST_4K_MOVIE], {
-      type: 'or',
-    })
-  ) {
-    mediaLinks.push({
-      text: getAvailable4kMediaServerName(),
-      url: plexUrl4k,
-      svg: <PlayIcon />,
-    });
-  }
+  mediaServerLinks.forEach((link) => {
+    if (
+      settings.currentSettings.movie4kEnabled &&
+      link.url4k &&
+      hasPermission([Permission.REQUEST_4K, Permission.REQUEST_4K_MOVIE], {
+        type: 'or',
+      })
+    ) {
+      mediaLinks.push({
+        text: getAvailable4kMediaServerName(link.serverType),
+        url: link.url4k,
+        svg: <PlayIcon />,
+      });
+    }
+  });
 
   const trailerVideo = data.relatedVideos
     ?.filter((r) => r.type === 'Trailer')
@@ -300,24 +331,24 @@ const MovieDetails = ({ movie }: MovieDetailsProps) => {
       (provider) => provider.iso_3166_1 === streamingRegion
     )?.flatrate ?? [];
 
-  function getAvailableMediaServerName() {
-    if (settings.currentSettings.mediaServerType === MediaServerType.EMBY) {
+  function getAvailableMediaServerName(serverType: MediaServerType) {
+    if (serverType === MediaServerType.EMBY) {
       return intl.formatMessage(messages.play, { mediaServerName: 'Emby' });
     }
 
-    if (settings.currentSettings.mediaServerType === MediaServerType.PLEX) {
+    if (serverType === MediaServerType.PLEX) {
       return intl.formatMessage(messages.play, { mediaServerName: 'Plex' });
     }
 
     return intl.formatMessage(messages.play, { mediaServerName: 'Jellyfin' });
   }
 
-  function getAvailable4kMediaServerName() {
-    if (settings.currentSettings.mediaServerType === MediaServerType.EMBY) {
+  function getAvailable4kMediaServerName(serverType: MediaServerType) {
+    if (serverType === MediaServerType.EMBY) {
       return intl.formatMessage(messages.play, { mediaServerName: 'Emby' });
     }
 
-    if (settings.currentSettings.mediaServerType === MediaServerType.PLEX) {
+    if (serverType === MediaServerType.PLEX) {
       return intl.formatMessage(messages.play4k, { mediaServerName: 'Plex' });
     }
 
@@ -0,0 +1,91 @@
+import defineMessages from '@app/utils/defineMessages';
+import { Field } from 'formik';
+import { useIntl } from 'react-intl';
+
+export const messages = defineMessages(
+  'components.NotificationDigestSelector',
+  {
+    digestFrequency: 'Delivery',
+    digestFrequencyTip:
+      'Collect notifications and send them as a single summary instead of one message per notification',
+    digestFrequencyTipUser:
+      'Collect your notifications and receive them as a single summary instead of one message per notification',
+    useDefault: 'Use Default',
+    immediate: 'Immediately',
+    hourly: 'Hourly Digest',
+    daily: 'Daily Digest',
+    digestTime: 'Digest Time',
+    digestTimeTip: 'The time of day (server time) the daily digest is sent at',
+    validationDigestTime: 'You must provide a valid time',
+  }
+);
+
+interface NotificationDigestSelectorProps {
+  frequency?: string | null;
+  error?: string;
+  user?: boolean;
+}
+
+const NotificationDigestSelector = ({
+  frequency,
+  error,
+  user = false,
+}: NotificationDigestSelectorProps) => {
+  const intl = useIntl();
+
+  return (
+    <>
+      <div className="form-row">
+        <label htmlFor="digestFrequency" className="text-label">
+          {intl.formatMessage(messages.digestFrequency)}
+          <span className="label-tip">
+            {intl.formatMessage(
+              user
+                ? messages.digestFrequencyTipUser
+                : messages.digestFrequencyTip
+            )}
+          </span>
+        </label>
+        <div className="form-input-area">
+          <div className="form-input-field">
+            <Field as="select" id="digestFrequency" name="digestFrequency">
+              {user && (
+                <option value="">
+                  {intl.formatMessage(messages.useDefault)}
+                </option>
+              )}
+              <option value="immediate">
+                {intl.formatMessage(messages.immediate)}
+              </option>
+              <option value="hourly">
+                {intl.formatMessage(messages.hourly)}
+              </option>
+              <option value="daily">
+                {intl.formatMessage(messages.daily)}
+              </option>
+            </Field>
+          </div>
+        </div>
+      </div>
+      {frequency === 'daily' && (
+        <div className="form-row">
+          <label htmlFor="digestTime" className="text-label">
+            {intl.formatMessage(messages.digestTime)}
+            <span className="label-required">*</span>
+            <span className="label-tip">
+              {intl.formatMessage(messages.digestTimeTip)}
+            </span>
+          </label>
+          <div className="form-input-area">
+            <div className="form-input-field">
+              <Field id="digestTime" name="digestTime" type="time" />
+            </div>
+            {error && <div className="error">{error}</div>}
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default NotificationDigestSelector;
@@ -7,7 +7,7 @@ import { sortBy } from 'lodash';
 import { useMemo, useState } from 'react';
 import { useIntl } from 'react-intl';
 
-const messages = defineMessages('components.NotificationTypeSelector', {
+export const messages = defineMessages('components.NotificationTypeSelector', {
   notificationTypes: 'Notification Types',
   mediarequested: 'Request Pending Approval',
   mediarequestedDescription:
@@ -39,6 +39,13 @@ const messages = defineMessages('components.NotificationTypeSelector', {
     'Send notifications when media requests are declined.',
   usermediadeclinedDescription:
     'Get notified when your media requests are declined.',
+  requestcomment: 'Request Comment',
+  requestcommentDescription:
+    'Send notifications when media requests receive new comments.',
+  userrequestcommentDescription:
+    'Get notified when your media requests receive new comments.',
+  adminrequestcommentDescription:
+    'Get notified when other users comment on media requests.',
   issuecreated: 'Issue Reported',
   issuecreatedDescription: 'Send notifications when issues are reported.',
   userissuecreatedDescription: 'Get notified when other users report issues.',
@@ -61,6 +68,11 @@ const messages = defineMessages('components.NotificationTypeSelector', {
     'Get notified when issues you reported are reopened.',
   adminissuereopenedDescription:
     'Get notified when issues are reopened by other users.',
+  usersignup: 'New Sign-Up',
+  usersignupDescription:
+    'Send notifications when new users register with an invite or request an account.',
+  userusersignupDescription:
+    'Get notified when new users register with an invite or request an account.',
   mediaautorequested: 'Request Automatically Submitted',
   mediaautorequestedDescription:
     'Get notified when new media requests are automatically submitted for items on Your Watchlist.',
@@ -106,6 +118,8 @@ export enum Notification {
   ISSUE_RESOLVED = 1024,
   ISSUE_REOPENED = 2048,
   MEDIA_AUTO_REQUESTED = 4096,
+  REQUEST_COMMENT = 8192,
+  USER_SIGNUP = 16384,
 }
 
 export const ALL_NOTIFICATIONS = Object.values(Notification)
@@ -130,19 +144,20 @@ interface NotificationTypeSelectorProps {
   error?: string;
 }
 
-const NotificationTypeSelector = ({
-  user,
-  enabledTypes = ALL_NOTIFICATIONS,
-  currentTypes,
-  onUpdate,
-  error,
-}: NotificationTypeSelectorProps) => {
+/**
+ * Returns the notification types which can be enabled, leaving out the types
+ * which do not apply to the user.
+ */
+export const useNotificationTypes = (
+  user?: User,
+  enabledTypes = ALL_NOTIFICATIONS
+): NotificationItem[] => {
   const intl = useIntl();
   const settings = useSettings();
   const { hasPermission } = useUser({ id: user?.id });
   const [allowedTypes, setAllowedTypes] = useState(enabledTypes);
 
-  const availableTypes = useMemo(() => {
+  return useMemo(() => {
     const allRequestsAutoApproved =
       user &&
       // Has Manage Requests perm, which grants all Auto-Approve perms
@@ -286,6 +301,20 @@ const NotificationTypeSelector = ({
         hidden: user && !hasPermission(Permission.MANAGE_REQUESTS),
         hasNotifyUser: false,
       },
+      {
+        id: 'request-comment',
+        name: intl.formatMessage(messages.requestcomment),
+        description: intl.formatMessage(
+          user
+            ? hasPermission(Permission.MANAGE_REQUESTS)
+              ? messages.adminrequestcommentDescription
+              : messages.userrequestcommentDescription
+            : messages.requestcommentDescription
+        ),
+        value: Notification.REQUEST_COMMENT,
+        hasNotifyUser:
+          !user || hasPermission(Permission.MANAGE_REQUESTS) ? false : true,
+      },
       {
         id: 'issue-created',
         name: intl.formatMessage(messages.issuecreated),
@@ -355,6 +384,18 @@ const NotificationTypeSelector = ({
         hasNotifyUser:
           !user || hasPermission(Permission.MANAGE_ISSUES) ? false : true,
       },
+      {
+        id: 'user-signup',
+        name: intl.formatMessage(messages.usersignup),
+        description: intl.formatMessage(
+          user
+            ? messages.userusersignupDescription
+            : messages.usersignupDescription
+        ),
+        value: Notification.USER_SIGNUP,
+        hidden: user && !hasPermission(Permission.MANAGE_USERS),
+        hasNotifyUser: false,
+      },
     ];
 
     const filteredTypes = types.filter(
@@ -370,6 +411,17 @@ const NotificationTypeSelector = ({
       ? sortBy(filteredTypes, 'hasNotifyUser', 'DESC')
       : filteredTypes;
   }, [user, hasPermission, settings, intl, allowedTypes, enabledTypes]);
+};
+
+const NotificationTypeSelector = ({
+  user,
+  enabledTypes = ALL_NOTIFICATIONS,
+  currentTypes,
+  onUpdate,
+  error,
+}: NotificationTypeSelectorProps) => {
+  const intl = useIntl();
+  const availableTypes = useNotificationTypes(user, enabledTypes);
 
   if (!availableTypes.length) {
     return null;
@@ -91,6 +91,7 @@ interface PermissionEditProps {
   actingUser?: User;
   currentUser?: User;
   currentPermission: number;
+  inheritedPermission?: number;
   onUpdate: (newPermissions: number) => void;
 }
 
@@ -98,6 +99,7 @@ export const PermissionEdit = ({
   actingUser,
   currentUser,
   currentPermission,
+  inheritedPermission,
   onUpdate,
 }: PermissionEditProps) => {
   const intl = useIntl();
@@ -366,6 +368,7 @@ export const PermissionEdit = ({
           actingUser={actingUser}
           currentUser={currentUser}
           currentPermission={currentPermission}
+          inheritedPermission={inheritedPermission}
           onUpdate={(newPermission) => onUpdate(newPermission)}
         />
       ))}
@@ -22,6 +22,7 @@ interface PermissionOptionProps {
   actingUser?: User;
   currentUser?: User;
   currentPermission: number;
+  inheritedPermission?: number;
   parent?: PermissionItem;
   onUpdate: (newPermissions: number) => void;
 }
@@ -31,6 +32,7 @@ const PermissionOption = ({
   actingUser,
   currentUser,
   currentPermission,
+  inheritedPermission = 0,
   onUpdate,
   parent,
 }: PermissionOptionProps) => {
@@ -59,7 +61,16 @@ const PermissionOption = ({
       hasPermission(Permission.MANAGE_REQUESTS, currentPermission)) ||
     // Selecting a parent permission automatically selects all children
     (!!parent?.permission &&
-      hasPermission(parent.permission, currentPermission))
+      hasPermission(parent.permission, currentPermission)) ||
+    // Permissions granted by the user's groups cannot be removed here
+    (!!inheritedPermission &&
+      hasPermission(
+        parent?.permission
+          ? [option.permission, parent.permission]
+          : option.permission,
+        inheritedPermission,
+        { type: 'or' }
+      ))
   ) {
     disabled = true;
     checked = true;
@@ -138,6 +149,7 @@ const PermissionOption = ({
           <PermissionOption
             option={child}
             currentPermission={currentPermission}
+            inheritedPermission={inheritedPermission}
             onUpdate={(newPermission) => onUpdate(newPermission)}
             parent={option}
           />
@@ -1,38 +1,67 @@
 import defineMessages from '@app/utils/defineMessages';
+import { QuotaPeriod, QuotaType } from '@server/constants/user';
 import React, { useEffect, useState } from 'react';
 import { useIntl } from 'react-intl';
 
 const messages = defineMessages('components.QuotaSelector', {
-  movieRequests:
-    '{quotaLimit} <quotaUnits>{movies} per {quotaDays} {days}</quotaUnits>',
-  tvRequests:
-    '{quotaLimit} <quotaUnits>{seasons} per {quotaDays} {days}</quotaUnits>',
+  quotaRequests:
+    '{quotaLimit} <quotaUnits>{quotaType} per {quotaPeriod}</quotaUnits>',
   movies: '{count, plural, one {movie} other {movies}}',
   seasons: '{count, plural, one {season} other {seasons}}',
-  days: '{count, plural, one {day} other {days}}',
+  episodes: '{count, plural, one {episode} other {episodes}}',
+  gigabytes: 'GB',
+  days: '{count, plural, one {# day} other {# days}}',
+  calendarMonth: 'calendar month',
   unlimited: 'Unlimited',
 });
 
+const getLimitOptions = (quotaType: QuotaType, quotaLimit: number) => {
+  const step =
+    quotaType === QuotaType.SIZE
+      ? 10
+      : quotaType === QuotaType.EPISODES
+      ? 5
+      : 1;
+  const options = [...Array(100)].map((_item, i) => (i + 1) * step);
+
+  // Keep limits which were set with another unit selectable
+  return quotaLimit && !options.includes(quotaLimit)
+    ? [...options, quotaLimit].sort((a, b) => a - b)
+    : options;
+};
+
 interface QuotaSelectorProps {
   mediaType: 'movie' | 'tv';
   defaultDays?: number;
   defaultLimit?: number;
+  defaultType?: QuotaType;
+  defaultPeriod?: QuotaPeriod;
   dayOverride?: number;
   limitOverride?: number;
+  typeOverride?: QuotaType;
+  periodOverride?: QuotaPeriod;
   dayFieldName: string;
   limitFieldName: string;
+  typeFieldName: string;
+  periodFieldName: string;
   isDisabled?: boolean;
-  onChange: (fieldName: string, value: number) => void;
+  onChange: (fieldName: string, value: number | string) => void;
 }
 
 const QuotaSelector = ({
   mediaType,
   dayFieldName,
   limitFieldName,
+  typeFieldName,
+  periodFieldName,
   defaultDays = 7,
   defaultLimit = 0,
+  defaultType = QuotaType.REQUESTS,
+  defaultPeriod = QuotaPeriod.ROLLING,
   dayOverride,
   limitOverride,
+  typeOverride,
+  periodOverride,
   isDisabled = false,
   onChange,
 }: QuotaSelectorProps) => {
@@ -40,6 +69,10 @@ const QuotaSelector = ({
   const initialLimit = defaultLimit ?? 0;
   const [quotaDays, setQuotaDays] = useState(initialDays);
   const [quotaLimit, setQuotaLimit] = useState(initialLimit);
+  const [quotaType, setQuotaType] = useState(defaultType ?? QuotaType.REQUESTS);
+  const [quotaPeriod, setQuotaPeriod] = useState(
+    defaultPeriod ?? QuotaPeriod.ROLLING
+  );
   const intl = useIntl();
 
   useEffect(() => {
@@ -50,54 +83,117 @@ const QuotaSelector = ({
     onChange(limitFieldName, quotaLimit);
   }, [limitFieldName, onChange, quotaLimit]);
 
+  useEffect(() => {
+    onChange(typeFieldName, quotaType);
+  }, [typeFieldName, onChange, quotaType]);
+
+  useEffect(() => {
+    onChange(periodFieldName, quotaPeriod);
+  }, [periodFieldName, onChange, quotaPeriod]);
+
+  const currentLimit = limitOverride ?? quotaLimit;
+  const currentType = typeOverride ?? quotaType;
+  const currentPeriod = periodOverride ?? quotaPeriod;
+  const currentDays = dayOverride ?? quotaDays;
+
+  const typeOptions =
+    mediaType === 'movie'
+      ? [
+          {
+            value: QuotaType.REQUESTS,
+            label: intl.formatMessage(messages.movies, { count: currentLimit }),
+          },
+          {
+            value: QuotaType.SIZE,
+            label: intl.formatMessage(messages.gigabytes),
+          },
+        ]
+      : [
+          {
+            value: QuotaType.REQUESTS,
+            label: intl.formatMessage(messages.seasons, {
+              count: currentLimit,
+            }),
+          },
+          {
+            value: QuotaType.EPISODES,
+            label: intl.formatMessage(messages.episodes, {
+              count: currentLimit,
+            }),
+          },
+          {
+            value: QuotaType.SIZE,
+            label: intl.formatMessage(messages.gigabytes),
+          },
+        ];
+
   return (
     <div className={`${isDisabled ? 'opacity-50' : ''}`}>
-      {intl.formatMessage(
-        mediaType === 'movie' ? messages.movieRequests : messages.tvRequests,
-        {
-          quotaLimit: (
-            <select
-              className="short inline"
-              value={limitOverride ?? quotaLimit}
-              onChange={(e) => setQuotaLimit(Number(e.target.value))}
-              disabled={isDisabled}
-            >
-              <option value="0">
-                {intl.formatMessage(messages.unlimited)}
+      {intl.formatMessage(messages.quotaRequests, {
+        quotaLimit: (
+          <select
+            className="short inline"
+            value={currentLimit}
+            onChange={(e) => setQuotaLimit(Number(e.target.value))}
+            disabled={isDisabled}
+          >
+            <option value="0">{intl.formatMessage(messages.unlimited)}</option>
+            {getLimitOptions(currentType, currentLimit).map((limit) => (
+              <option value={limit} key={`${mediaType}-limit-${limit}`}>
+                {limit}
               </option>
-              {[...Array(100)].map((_item, i) => (
-                <option value={i + 1} key={`${mediaType}-limit-${i + 1}`}>
-                  {i + 1}
-                </option>
-              ))}
-            </select>
-          ),
-          quotaDays: (
-            <select
-              className="short inline"
-              value={dayOverride ?? quotaDays}
-              onChange={(e) => setQuotaDays(Number(e.target.value))}
-              disabled={isDisabled}
-            >
-              {[...Array(100)].map((_item, i) => (
-                <option value={i + 1} key={`${mediaType}-days-${i + 1}`}>
-                  {i + 1}
-                </option>
-              ))}
-            </select>
-          ),
-          movies: intl.formatMessage(messages.movies, { count: quotaLimit }),
-          seasons: intl.formatMessage(messages.seasons, { count: quotaLimit }),
-          days: intl.formatMessage(messages.days, { count: quotaDays }),
-          quotaUnits: function quotaUnits(msg) {
-            return (
-              <span className={limitOverride || quotaLimit ? '' : 'hidden'}>
-                {msg}
-              </span>
-            );
-          },
-        }
-      )}
+            ))}
+          </select>
+        ),
+        quotaType: (
+          <select
+            className="short inline"
+            value={currentType}
+            onChange={(e) => setQuotaType(e.target.value as QuotaType)}
+            disabled={isDisabled}
+          >
+            {typeOptions.map((option) => (
+              <option
+                value={option.value}
+                key={`${mediaType}-type-${option.value}`}
+              >
+                {option.label}
+              </option>
+            ))}
+          </select>
+        ),
+        quotaPeriod: (
+          <select
+            className="short inline"
+            value={
+              currentPeriod === QuotaPeriod.MONTHLY
+                ? QuotaPeriod.MONTHLY
+                : currentDays
+            }
+            onChange={(e) => {
+              if (e.target.value === QuotaPeriod.MONTHLY) {
+                setQuotaPeriod(QuotaPeriod.MONTHLY);
+              } else {
+                setQuotaPeriod(QuotaPeriod.ROLLING);
+                setQuotaDays(Number(e.target.value));
+              }
+            }}
+            disabled={isDisabled}
+          >
+            <option value={QuotaPeriod.MONTHLY}>
+              {intl.formatMessage(messages.calendarMonth)}
+            </option>
+            {[...Array(100)].map((_item, i) => (
+              <option value={i + 1} key={`${mediaType}-days-${i + 1}`}>
+                {intl.formatMessage(messages.days, { count: i + 1 })}
+              </option>
+            ))}
+          </select>
+        ),
+        quotaUnits: function quotaUnits(msg) {
+          return <span className={currentLimit ? '' : 'hidden'}>{msg}</span>;
+        },
+      })}
     </div>
   );
 };
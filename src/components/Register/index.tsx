@@ -0,0 +1,408 @@
+import Button from '@app/components/Common/Button';
+import ImageFader from '@app/components/Common/ImageFader';
+import LoadingSpinner from '@app/components/Common/LoadingSpinner';
+import PageTitle from '@app/components/Common/PageTitle';
+import SensitiveInput from '@app/components/Common/SensitiveInput';
+import LanguagePicker from '@app/components/Layout/LanguagePicker';
+import useSettings from '@app/hooks/useSettings';
+import { useUser } from '@app/hooks/useUser';
+import defineMessages from '@app/utils/defineMessages';
+import { ArrowLeftIcon, UserPlusIcon } from '@heroicons/react/24/outline';
+import { MediaServerType } from '@server/constants/server';
+import type {
+  InviteDetailsResponse,
+  RegistrationResponse,
+} from '@server/interfaces/api/registrationInterfaces';
+import axios from 'axios';
+import { Field, Form, Formik } from 'formik';
+import Image from 'next/image';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { useState } from 'react';
+import { useIntl } from 'react-intl';
+import useSWR from 'swr';
+import * as Yup from 'yup';
+
+const messages = defineMessages('components.Register', {
+  register: 'Create Account',
+  createaccount: 'Create your account',
+  requestaccount: 'Request an account',
+  requestaccountDescription:
+    'An administrator has to approve your request before you can sign in.',
+  email: 'Email Address',
+  username: 'Username',
+  usernameMediaServer: 'An account with this username is created on {server}.',
+  password: 'Password',
+  confirmpassword: 'Confirm Password',
+  message: 'Message',
+  messagePlaceholder: 'Let the administrators know who you are',
+  validationemailrequired: 'You must provide a valid email address',
+  validationusernamerequired: 'You must provide a username',
+  validationpasswordrequired: 'You must provide a password',
+  validationpasswordminchars:
+    'Password is too short; should be a minimum of 8 characters',
+  validationpasswordmatch: 'Passwords must match',
+  submit: 'Create Account',
+  submitrequest: 'Send Request',
+  submitting: 'Submitting…',
+  invalidinvite: 'This invite link is invalid or has expired.',
+  registrationclosed:
+    'Sign-ups are closed. Ask an administrator for an invite link.',
+  registered: 'Your account has been created. Sign in to continue.',
+  requested:
+    'Your request has been sent! You can sign in once an administrator has approved it.',
+  userexists: 'A user with this email address already exists.',
+  registrationerror: 'Something went wrong while creating your account.',
+  gobacklogin: 'Return to Sign-In Page',
+});
+
+const Register = () => {
+  const intl = useIntl();
+  const router = useRouter();
+  const settings = useSettings();
+  const { revalidate } = useUser();
+  const [submitted, setSubmitted] = useState<'registered' | 'requested' | null>(
+    null
+  );
+  const [registrationError, setRegistrationError] = useState<string | null>(
+    null
+  );
+
+  const code = typeof router.query.code === 'string' ? router.query.code : '';
+  const { data: invite, error: inviteError } = useSWR<InviteDetailsResponse>(
+    code ? `/api/v1/registration/invite/${code}` : null
+  );
+
+  const isRequest = !code;
+  const isClosed =
+    (isRequest &&
+      (!settings.currentSettings.accountRequestsEnabled ||
+        !settings.currentSettings.localLogin)) ||
+    !!inviteError;
+
+  const RegisterSchema = Yup.object().shape({
+    email: Yup.string()
+      .email(intl.formatMessage(messages.validationemailrequired))
+      .required(intl.formatMessage(messages.validationemailrequired)),
+    username: invite?.createJellyfinUser
+      ? Yup.string().required(
+          intl.formatMessage(messages.validationusernamerequired)
+        )
+      : Yup.string(),
+    password: Yup.string()
+      .required(intl.formatMessage(messages.validationpasswordrequired))
+      .min(8, intl.formatMessage(messages.validationpasswordminchars)),
+    confirmPassword: Yup.string()
+      .required(intl.formatMessage(messages.validationpasswordmatch))
+      .test(
+        'passwords-match',
+        intl.formatMessage(messages.validationpasswordmatch),
+        function (value) {
+          return this.parent.password === value;
+        }
+      ),
+  });
+
+  const backToLogin = (
+    <span className="mt-4 flex justify-center rounded-md shadow-sm">
+      <Link href="/login" passHref legacyBehavior>
+        <Button as="a" buttonType="ghost">
+          <ArrowLeftIcon />
+          <span>{intl.formatMessage(messages.gobacklogin)}</span>
+        </Button>
+      </Link>
+    </span>
+  );
+
+  return (
+    <div className="relative flex min-h-screen flex-col bg-gray-900 py-14">
+      <PageTitle title={intl.formatMessage(messages.register)} />
+      <ImageFader
+        forceOptimize
+        backgroundImages={[
+          '/images/rotate1.jpg',
+          '/images/rotate2.jpg',
+          '/images/rotate3.jpg',
+          '/images/rotate4.jpg',
+          '/images/rotate5.jpg',
+          '/images/rotate6.jpg',
+        ]}
+      />
+      <div className="absolute top-4 right-4 z-50">
+        <LanguagePicker />
+      </div>
+      <div className="relative z-40 mt-10 flex flex-col items-center px-4 sm:mx-auto sm:w-full sm:max-w-md">
+        <div className="relative h-48 w-full max-w-full">
+          <Image src="/logo_stacked.svg" alt="Logo" fill />
+        </div>
+        <h2 className="mt-12 text-center text-3xl font-extrabold leading-9 text-gray-100">
+          {intl.formatMessage(
+            isRequest ? messages.requestaccount : messages.createaccount
+          )}
+        </h2>
+      </div>
+      <div className="relative z-50 mt-8 sm:mx-auto sm:w-full sm:max-w-md">
+        <div
+          className="bg-gray-800 bg-opacity-50 shadow sm:rounded-lg"
+          style={{ backdropFilter: 'blur(5px)' }}
+        >
+          <div className="px-10 py-8">
+            {!router.isReady || (code && !invite && !inviteError) ? (
+              <LoadingSpinner />
+            ) : isClosed ? (
+              <>
+                <p className="text-md text-gray-300">
+                  {intl.formatMessage(
+                    inviteError
+                      ? messages.invalidinvite
+                      : messages.registrationclosed
+                  )}
+                </p>
+                {backToLogin}
+              </>
+            ) : submitted ? (
+              <>
+                <p className="text-md text-gray-300">
+                  {intl.formatMessage(
+                    submitted === 'requested'
+                      ? messages.requested
+                      : messages.registered
+                  )}
+                </p>
+                {backToLogin}
+              </>
+            ) : (
+              <Formik
+                initialValues={{
+                  email: '',
+                  username: '',
+                  password: '',
+                  confirmPassword: '',
+                  message: '',
+                }}
+                validationSchema={RegisterSchema}
+                onSubmit={async (values) => {
+                  setRegistrationError(null);
+
+                  try {
+                    if (isRequest) {
+                      await axios.post('/api/v1/registration/request', {
+                        email: values.email,
+                        username: values.username || undefined,
+                        password: values.password,
+                        message: values.message || undefined,
+                      });
+
+                      setSubmitted('requested');
+                      return;
+                    }
+
+                    const response = await axios.post<RegistrationResponse>(
+                      `/api/v1/registration/invite/${code}`,
+                      {
+                        email: values.email,
+                        username: values.username || undefined,
+                        password: values.password,
+                      }
+                    );
+
+                    if (response.data.signedIn) {
+                      revalidate();
+                      router.push('/');
+                    } else {
+                      setSubmitted('registered');
+                    }
+                  } catch (e) {
+                    setRegistrationError(
+                      intl.formatMessage(
+                        e?.response?.status === 409
+                          ? messages.userexists
+                          : messages.registrationerror
+                      )
+                    );
+                  }
+                }}
+              >
+                {({ errors, touched, isSubmitting, isValid }) => {
+                  return (
+                    <Form>
+                      {isRequest && (
+                        <p className="mb-4 text-sm text-gray-300">
+                          {intl.formatMessage(
+                            messages.requestaccountDescription
+                          )}
+                        </p>
+                      )}
+                      <div>
+                        <label
+                          htmlFor="email"
+                          className="my-1 block text-sm font-medium leading-5 text-gray-400 sm:mt-px"
+                        >
+                          {intl.formatMessage(messages.email)}
+                        </label>
+                        <div className="mt-1 mb-2 sm:col-span-2 sm:mt-0">
+                          <div className="form-input-field">
+                            <Field
+                              id="email"
+                              name="email"
+                              type="text"
+                              inputMode="email"
+                              autoComplete="email"
+                              className="form-input-area block w-full min-w-0 flex-1 rounded-md border border-gray-500 bg-gray-700 text-white transition duration-150 ease-in-out sm:text-sm sm:leading-5"
+                            />
+                          </div>
+                          {errors.email && touched.email && (
+                            <div className="error">{errors.email}</div>
+                          )}
+                        </div>
+                        <label
+                          htmlFor="username"
+                          className="my-1 block text-sm font-medium leading-5 text-gray-400 sm:mt-px"
+                        >
+                          {intl.formatMessage(messages.username)}
+                        </label>
+                        <div className="mt-1 mb-2 sm:col-span-2 sm:mt-0">
+                          <div className="form-input-field">
+                            <Field
+                              id="username"
+                              name="username"
+                              type="text"
+                              autoComplete="username"
+                              className="form-input-area block w-full min-w-0 flex-1 rounded-md border border-gray-500 bg-gray-700 text-white transition duration-150 ease-in-out sm:text-sm sm:leading-5"
+                            />
+                          </div>
+                          {invite?.createJellyfinUser && (
+                            <p className="mt-1 text-xs text-gray-400">
+                              {intl.formatMessage(
+                                messages.usernameMediaServer,
+                                {
+                                  server:
+                                    settings.currentSettings.mediaServerTypes.includes(
+                                      MediaServerType.EMBY
+                                    )
+                                      ? 'Emby'
+                                      : 'Jellyfin',
+                                }
+                              )}
+                            </p>
+                          )}
+                          {errors.username && touched.username && (
+                            <div className="error">{errors.username}</div>
+                          )}
+                        </div>
+                        <label
+                          htmlFor="password"
+                          className="my-1 block text-sm font-medium leading-5 text-gray-400 sm:mt-px"
+                        >
+                          {intl.formatMessage(messages.password)}
+                        </label>
+                        <div className="mt-1 mb-2 sm:col-span-2 sm:mt-0">
+                          <div className="form-input-field">
+                            <SensitiveInput
+                              as="field"
+                              id="password"
+                              name="password"
+                              type="password"
+                              autoComplete="new-password"
+                              className="form-input-area block w-full min-w-0 flex-1 rounded-md border border-gray-500 bg-gray-700 text-white transition duration-150 ease-in-out sm:text-sm sm:leading-5"
+                            />
+                          </div>
+                          {errors.password && touched.password && (
+                            <div className="error">{errors.password}</div>
+                          )}
+                        </div>
+                        <label
+                          htmlFor="confirmPassword"
+                          className="my-1 block text-sm font-medium leading-5 text-gray-400 sm:mt-px"
+                        >
+                          {intl.formatMessage(messages.confirmpassword)}
+                        </label>
+                        <div className="mt-1 mb-2 sm:col-span-2 sm:mt-0">
+                          <div className="form-input-field">
+                            <SensitiveInput
+                              as="field"
+                              id="confirmPassword"
+                              name="confirmPassword"
+                              type="password"
+                              autoComplete="new-password"
+                              className="form-input-area block w-full min-w-0 flex-1 rounded-md border border-gray-500 bg-gray-700 text-white transition duration-150 ease-in-out sm:text-sm sm:leading-5"
+                            />
+                          </div>
+                          {errors.confirmPassword &&
+                            touched.confirmPassword && (
+                              <div className="error">
+                                {errors.confirmPassword}
+                              </div>
+                            )}
+                        </div>
+                        {isRequest && (
+                          <>
+                            <label
+                              htmlFor="message"
+                              className="my-1 block text-sm font-medium leading-5 text-gray-400 sm:mt-px"
+                            >
+                              {intl.formatMessage(messages.message)}
+                            </label>
+                            <div className="mt-1 mb-2 sm:col-span-2 sm:mt-0">
+                              <div className="form-input-field">
+                                <Field
+                                  as="textarea"
+                                  id="message"
+                                  name="message"
+                                  rows={3}
+                                  placeholder={intl.formatMessage(
+                                    messages.messagePlaceholder
+                                  )}
+                                  className="form-input-area block w-full min-w-0 flex-1 rounded-md border border-gray-500 bg-gray-700 text-white transition duration-150 ease-in-out sm:text-sm sm:leading-5"
+                                />
+                              </div>
+                            </div>
+                          </>
+                        )}
+                        {registrationError && (
+                          <div className="mt-1 mb-2 sm:col-span-2 sm:mt-0">
+                            <div className="error">{registrationError}</div>
+                          </div>
+                        )}
+                      </div>
+                      <div className="mt-4 border-t border-gray-700 pt-5">
+                        <div className="flex justify-between">
+                          <Link
+                            href="/login"
+                            className="pt-2 text-sm text-indigo-500 hover:text-indigo-400"
+                          >
+                            {intl.formatMessage(messages.gobacklogin)}
+                          </Link>
+                          <span className="inline-flex rounded-md shadow-sm">
+                            <Button
+                              buttonType="primary"
+                              type="submit"
+                              disabled={isSubmitting || !isValid}
+                            >
+                              <UserPlusIcon />
+                              <span>
+                                {isSubmitting
+                                  ? intl.formatMessage(messages.submitting)
+                                  : intl.formatMessage(
+                                      isRequest
+                                        ? messages.submitrequest
+                                        : messages.submit
+                                    )}
+                              </span>
+                            </Button>
+                          </span>
+                        </div>
+                      </div>
+                    </Form>
+                  );
+                }}
+              </Formik>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Register;
@@ -0,0 +1,65 @@
+import CachedImage from '@app/components/Common/CachedImage';
+import Tooltip from '@app/components/Common/Tooltip';
+import defineMessages from '@app/utils/defineMessages';
+import { MediaRequestStatus } from '@server/constants/media';
+import type { MediaRequest } from '@server/entity/MediaRequest';
+import type { NonFunctionProperties } from '@server/interfaces/api/common';
+import Link from 'next/link';
+import { useIntl } from 'react-intl';
+
+const messages = defineMessages('components.RequestApprovals', {
+  approvalProgress: '{approvals} of {required}',
+  approvedBy: 'Approved by {user} on {date}',
+});
+
+interface RequestApprovalsProps {
+  request: NonFunctionProperties<MediaRequest>;
+}
+
+const RequestApprovals = ({ request }: RequestApprovalsProps) => {
+  const intl = useIntl();
+  const approvals = request.approvals ?? [];
+
+  return (
+    <span className="flex items-center truncate text-sm text-gray-300">
+      {approvals.map((approval) => (
+        <Tooltip
+          key={`approval-${approval.id}`}
+          content={intl.formatMessage(messages.approvedBy, {
+            user: approval.user.displayName,
+            date: intl.formatDate(approval.createdAt, {
+              year: 'numeric',
+              month: 'short',
+              day: 'numeric',
+              hour: 'numeric',
+              minute: 'numeric',
+            }),
+          })}
+        >
+          <Link href={`/users/${approval.user.id}`} className="mr-1">
+            <span className="avatar-sm">
+              <CachedImage
+                type="avatar"
+                src={approval.user.avatar}
+                alt={approval.user.displayName}
+                className="avatar-sm object-cover"
+                width={20}
+                height={20}
+              />
+            </span>
+          </Link>
+        </Tooltip>
+      ))}
+      {request.status === MediaRequestStatus.PENDING && (
+        <span className="ml-1 font-semibold">
+          {intl.formatMessage(messages.approvalProgress, {
+            approvals: approvals.length,
+            required: request.requiredApprovals ?? 1,
+          })}
+        </span>
+      )}
+    </span>
+  );
+};
+
+export default RequestApprovals;
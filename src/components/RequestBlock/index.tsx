@@ -1,6 +1,8 @@
 import Badge from '@app/components/Common/Badge';
 import Button from '@app/components/Common/Button';
 import Tooltip from '@app/components/Common/Tooltip';
+import DeclineRequestModal from '@app/components/DeclineRequestModal';
+import RequestComments from '@app/components/RequestComments';
 import RequestModal from '@app/components/RequestModal';
 import useRequestOverride from '@app/hooks/useRequestOverride';
 import { useUser } from '@app/hooks/useUser';
@@ -8,7 +10,10 @@ import globalMessages from '@app/i18n/globalMessages';
 import defineMessages from '@app/utils/defineMessages';
 import {
   CalendarIcon,
+  ChatBubbleOvalLeftEllipsisIcon,
   CheckIcon,
+  ChevronDownIcon,
+  ChevronUpIcon,
   EyeIcon,
   PencilIcon,
   TrashIcon,
@@ -37,6 +42,8 @@ const messages = defineMessages('components.RequestBlock', {
   decline: 'Decline Request',
   edit: 'Edit Request',
   delete: 'Delete Request',
+  comments:
+    '{commentCount, plural, =0 {Comments} other {Comments ({commentCount})}}',
 });
 
 interface RequestBlockProps {
@@ -49,12 +56,19 @@ const RequestBlock = ({ request, onUpdate }: RequestBlockProps) => {
   const intl = useIntl();
   const [isUpdating, setIsUpdating] = useState(false);
   const [showEditModal, setShowEditModal] = useState(false);
+  const [showComments, setShowComments] = useState(false);
+  const [showDeclineModal, setShowDeclineModal] = useState(false);
   const { profile, rootFolder, server, languageProfile } =
     useRequestOverride(request);
 
-  const updateRequest = async (type: 'approve' | 'decline'): Promise<void> => {
+  const updateRequest = async (
+    type: 'approve' | 'decline',
+    reason?: string
+  ): Promise<void> => {
     setIsUpdating(true);
-    await axios.post(`/api/v1/request/${request.id}/${type}`);
+    await axios.post(`/api/v1/request/${request.id}/${type}`, {
+      reason: reason || undefined,
+    });
 
     if (onUpdate) {
       onUpdate();
@@ -91,6 +105,14 @@ const RequestBlock = ({ request, onUpdate }: RequestBlockProps) => {
           setShowEditModal(false);
         }}
       />
+      <DeclineRequestModal
+        show={showDeclineModal}
+        onCancel={() => setShowDeclineModal(false)}
+        onDecline={async (reason) => {
+          await updateRequest('decline', reason);
+          setShowDeclineModal(false);
+        }}
+      />
       <div className="px-4 py-3 text-gray-300">
         <div className="flex items-center justify-between">
           <div className="mr-6 min-w-0 flex-1 flex-col items-center text-sm leading-5">
@@ -148,7 +170,7 @@ const RequestBlock = ({ request, onUpdate }: RequestBlockProps) => {
                   <Button
                     buttonType="danger"
                     className="mr-1"
-                    onClick={() => updateRequest('decline')}
+                    onClick={() => setShowDeclineModal(true)}
                     disabled={isUpdating}
                   >
                     <XMarkIcon />
@@ -301,6 +323,33 @@ const RequestBlock = ({ request, onUpdate }: RequestBlockProps) => {
             </ul>
           </>
         )}
+        <div className="mt-3 text-sm">
+          <button
+            type="button"
+            onClick={() => setShowComments(!showComments)}
+            className="flex items-center font-medium text-gray-300 transition duration-300 hover:text-white"
+          >
+            <ChatBubbleOvalLeftEllipsisIcon className="mr-1.5 h-5 w-5 flex-shrink-0" />
+            {intl.formatMessage(messages.comments, {
+              commentCount: request.commentCount ?? 0,
+            })}
+            {showComments ? (
+              <ChevronUpIcon className="ml-1 h-4 w-4" />
+            ) : (
+              <ChevronDownIcon className="ml-1 h-4 w-4" />
+            )}
+          </button>
+          {showComments && (
+            <RequestComments
+              request={request}
+              onUpdate={() => {
+                if (onUpdate) {
+                  onUpdate();
+                }
+              }}
+            />
+          )}
+        </div>
       </div>
     </div>
   );
@@ -2,9 +2,15 @@ import Badge from '@app/components/Common/Badge';
 import Button from '@app/components/Common/Button';
 import CachedImage from '@app/components/Common/CachedImage';
 import Tooltip from '@app/components/Common/Tooltip';
+import DeclineRequestModal from '@app/components/DeclineRequestModal';
+import RequestApprovals from '@app/components/RequestApprovals';
 import RequestModal from '@app/components/RequestModal';
 import StatusBadge from '@app/components/StatusBadge';
 import useDeepLinks from '@app/hooks/useDeepLinks';
+import {
+  useServerEvent,
+  useServerEventsConnected,
+} from '@app/hooks/useServerEvents';
 import useSettings from '@app/hooks/useSettings';
 import { Permission, useUser } from '@app/hooks/useUser';
 import globalMessages from '@app/i18n/globalMessages';
@@ -43,6 +49,8 @@ const messages = defineMessages('components.RequestCard', {
   cancelrequest: 'Cancel Request',
   deleterequest: 'Delete Request',
   unknowntitle: 'Unknown Title',
+  approvals: 'Approvals',
+  modifyfailed: 'Something went wrong while updating the request.',
 });
 
 const isMovie = (movie: MovieDetails | TvDetails): movie is MovieDetails => {
@@ -228,6 +236,7 @@ const RequestCard = ({ request, onTitleData }: RequestCardProps) => {
   const { addToast } = useToasts();
   const [isRetrying, setRetrying] = useState(false);
   const [showEditModal, setShowEditModal] = useState(false);
+  const [showDeclineModal, setShowDeclineModal] = useState(false);
   const url =
     request.type === 'movie'
       ? `/api/v1/movie/${request.media.tmdbId}`
@@ -236,6 +245,7 @@ const RequestCard = ({ request, onTitleData }: RequestCardProps) => {
   const { data: title, error } = useSWR<MovieDetails | TvDetails>(
     inView ? `${url}` : null
   );
+  const eventsConnected = useServerEventsConnected();
   const {
     data: requestData,
     error: requestError,
@@ -244,16 +254,39 @@ const RequestCard = ({ request, onTitleData }: RequestCardProps) => {
     `/api/v1/request/${request.id}`,
     {
       fallbackData: request,
-      refreshInterval: refreshIntervalHelper(
-        {
-          downloadStatus: request.media.downloadStatus,
-          downloadStatus4k: request.media.downloadStatus4k,
-        },
-        15000
-      ),
+      refreshInterval: eventsConnected
+        ? 0
+        : refreshIntervalHelper(
+            {
+              downloadStatus: request.media.downloadStatus,
+              downloadStatus4k: request.media.downloadStatus4k,
+            },
+            15000
+          ),
     }
   );
 
+  useServerEvent('request', ({ requestId, removed }) => {
+    if (requestId === request.id && !removed) {
+      revalidate();
+    }
+  });
+
+  useServerEvent('media', ({ mediaId }) => {
+    if (mediaId === request.media.id) {
+      revalidate();
+    }
+  });
+
+  useServerEvent('downloads', () => {
+    if (
+      requestData?.media?.downloadStatus?.length ||
+      requestData?.media?.downloadStatus4k?.length
+    ) {
+      revalidate();
+    }
+  });
+
   const { mediaUrl: plexUrl, mediaUrl4k: plexUrl4k } = useDeepLinks({
     mediaUrl: requestData?.media?.mediaUrl,
     mediaUrl4k: requestData?.media?.mediaUrl4k,
@@ -261,15 +294,32 @@ const RequestCard = ({ request, onTitleData }: RequestCardProps) => {
     iOSPlexUrl4k: requestData?.media?.iOSPlexUrl4k,
   });
 
-  const modifyRequest = async (type: 'approve' | 'decline') => {
-    const response = await axios.post(`/api/v1/request/${request.id}/${type}`);
+  const modifyRequest = async (
+    type: 'approve' | 'decline',
+    reason?: string
+  ) => {
+    try {
+      const response = await axios.post(
+        `/api/v1/request/${request.id}/${type}`,
+        { reason: reason || undefined }
+      );
 
-    if (response) {
-      revalidate();
-      mutate('/api/v1/request/count');
+      if (response) {
+        revalidate();
+        mutate('/api/v1/request/count');
+      }
+    } catch (e) {
+      addToast(
+        e.response?.data?.message ?? intl.formatMessage(messages.modifyfailed),
+        { autoDismiss: true, appearance: 'error' }
+      );
     }
   };
 
+  const hasApproved = requestData?.approvals?.some(
+    (approval) => approval.user.id === user?.id
+  );
+
   const deleteRequest = async () => {
     await axios.delete(`/api/v1/request/${request.id}`);
     mutate('/api/v1/request?filter=all&take=10&sort=modified&skip=0');
@@ -331,6 +381,15 @@ const RequestCard = ({ request, onTitleData }: RequestCardProps) => {
           setShowEditModal(false);
         }}
       />
+      <DeclineRequestModal
+        show={showDeclineModal}
+        title={isMovie(title) ? title.title : title.name}
+        onCancel={() => setShowDeclineModal(false)}
+        onDecline={async (reason) => {
+          await modifyRequest('decline', reason);
+          setShowDeclineModal(false);
+        }}
+      />
       <div
         className="relative flex w-72 overflow-hidden rounded-xl bg-gray-800 bg-cover bg-center p-4 text-gray-400 shadow ring-1 ring-gray-700 sm:w-96"
         data-testid="request-card"
@@ -479,6 +538,20 @@ const RequestCard = ({ request, onTitleData }: RequestCardProps) => {
               />
             )}
           </div>
+          {hasPermission(
+            [Permission.MANAGE_REQUESTS, Permission.REQUEST_VIEW],
+            { type: 'or' }
+          ) &&
+            (requestData.approvals?.length > 0 ||
+              (requestData.status === MediaRequestStatus.PENDING &&
+                (requestData.requiredApprovals ?? 1) > 1)) && (
+              <div className="mt-1 hidden items-center text-sm sm:flex">
+                <span className="mr-2 font-bold">
+                  {intl.formatMessage(messages.approvals)}
+                </span>
+                <RequestApprovals request={requestData} />
+              </div>
+            )}
           <div className="flex flex-1 items-end space-x-2">
             {requestData.status === MediaRequestStatus.FAILED &&
               hasPermission(Permission.MANAGE_REQUESTS) && (
@@ -505,6 +578,7 @@ const RequestCard = ({ request, onTitleData }: RequestCardProps) => {
                       buttonType="success"
                       buttonSize="sm"
                       className="hidden sm:block"
+                      disabled={hasApproved}
                       onClick={() => modifyRequest('approve')}
                     >
                       <CheckIcon />
@@ -517,6 +591,7 @@ const RequestCard = ({ request, onTitleData }: RequestCardProps) => {
                         buttonType="success"
                         buttonSize="sm"
                         className="sm:hidden"
+                        disabled={hasApproved}
                         onClick={() => modifyRequest('approve')}
                       >
                         <CheckIcon />
@@ -528,7 +603,7 @@ const RequestCard = ({ request, onTitleData }: RequestCardProps) => {
                       buttonType="danger"
                       buttonSize="sm"
                       className="hidden sm:block"
-                      onClick={() => modifyRequest('decline')}
+                      onClick={() => setShowDeclineModal(true)}
                     >
                       <XMarkIcon />
                       <span>{intl.formatMessage(globalMessages.decline)}</span>
@@ -540,7 +615,7 @@ const RequestCard = ({ request, onTitleData }: RequestCardProps) => {
                         buttonType="danger"
                         buttonSize="sm"
                         className="sm:hidden"
-                        onClick={() => modifyRequest('decline')}
+                        onClick={() => setShowDeclineModal(true)}
                       >
                         <XMarkIcon />
                       </Button>
@@ -0,0 +1,119 @@
+import Button from '@app/components/Common/Button';
+import LoadingSpinner from '@app/components/Common/LoadingSpinner';
+import RequestComment from '@app/components/RequestComments/RequestComment';
+import { Permission, useUser } from '@app/hooks/useUser';
+import defineMessages from '@app/utils/defineMessages';
+import { ChatBubbleOvalLeftEllipsisIcon } from '@heroicons/react/24/solid';
+import type { MediaRequest } from '@server/entity/MediaRequest';
+import type { default as RequestCommentType } from '@server/entity/RequestComment';
+import type { NonFunctionProperties } from '@server/interfaces/api/common';
+import axios from 'axios';
+import { Field, Form, Formik } from 'formik';
+import { useIntl } from 'react-intl';
+import useSWR from 'swr';
+import * as Yup from 'yup';
+
+const messages = defineMessages('components.RequestComments', {
+  leavecomment: 'Comment',
+  nocomments: 'No comments.',
+  commentplaceholder: 'Add a comment…',
+});
+
+interface RequestCommentsProps {
+  request: NonFunctionProperties<MediaRequest>;
+  onUpdate?: () => void;
+}
+
+const RequestComments = ({ request, onUpdate }: RequestCommentsProps) => {
+  const intl = useIntl();
+  const { user: currentUser, hasPermission } = useUser();
+  const { data: comments, mutate: revalidate } = useSWR<RequestCommentType[]>(
+    `/api/v1/request/${request.id}/comment`
+  );
+
+  const CommentSchema = Yup.object().shape({
+    message: Yup.string().required(),
+  });
+
+  const canComment =
+    hasPermission(Permission.MANAGE_REQUESTS) ||
+    request.requestedBy.id === currentUser?.id;
+
+  const onCommentsUpdate = () => {
+    revalidate();
+
+    if (onUpdate) {
+      onUpdate();
+    }
+  };
+
+  if (!comments) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <div>
+      {comments.map((comment) => (
+        <RequestComment
+          key={`request-comment-${comment.id}`}
+          requestId={request.id}
+          comment={comment}
+          isReversed={request.requestedBy.id === comment.user.id}
+          isActiveUser={comment.user.id === currentUser?.id}
+          onUpdate={() => onCommentsUpdate()}
+        />
+      ))}
+      {comments.length === 0 && (
+        <div className="mt-2 text-sm text-gray-400">
+          <span>{intl.formatMessage(messages.nocomments)}</span>
+        </div>
+      )}
+      {canComment && (
+        <Formik
+          initialValues={{
+            message: '',
+          }}
+          validationSchema={CommentSchema}
+          onSubmit={async (values, { resetForm }) => {
+            await axios.post(`/api/v1/request/${request.id}/comment`, {
+              message: values.message,
+            });
+            onCommentsUpdate();
+            resetForm();
+          }}
+        >
+          {({ isValid, isSubmitting, values }) => {
+            return (
+              <Form>
+                <div className="mt-4">
+                  <Field
+                    id={`request-comment-message-${request.id}`}
+                    name="message"
+                    as="textarea"
+                    placeholder={intl.formatMessage(
+                      messages.commentplaceholder
+                    )}
+                    className="h-20"
+                  />
+                  <div className="mt-2 flex items-center justify-end">
+                    <Button
+                      type="submit"
+                      buttonType="primary"
+                      buttonSize="sm"
+                      disabled={!isValid || isSubmitting || !values.message}
+                    >
+                      <ChatBubbleOvalLeftEllipsisIcon />
+                      <span>{intl.formatMessage(messages.leavecomment)}</span>
+                    </Button>
+                  </div>
+                </div>
+              </Form>
+            );
+          }}
+        </Formik>
+      )}
+    </div>
+  );
+};
+
+export default RequestComments;
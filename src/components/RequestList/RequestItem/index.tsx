@@ -2,16 +2,27 @@ import Badge from '@app/components/Common/Badge';
 import Button from '@app/components/Common/Button';
 import CachedImage from '@app/components/Common/CachedImage';
 import ConfirmButton from '@app/components/Common/ConfirmButton';
+import Modal from '@app/components/Common/Modal';
+import DeclineRequestModal from '@app/components/DeclineRequestModal';
+import RequestApprovals from '@app/components/RequestApprovals';
+import RequestComments from '@app/components/RequestComments';
 import RequestModal from '@app/components/RequestModal';
+import RequestStatusHistory from '@app/components/RequestStatusHistory';
 import StatusBadge from '@app/components/StatusBadge';
 import useDeepLinks from '@app/hooks/useDeepLinks';
+import {
+  useServerEvent,
+  useServerEventsConnected,
+} from '@app/hooks/useServerEvents';
 import useSettings from '@app/hooks/useSettings';
 import { Permission, useUser } from '@app/hooks/useUser';
 import globalMessages from '@app/i18n/globalMessages';
 import defineMessages from '@app/utils/defineMessages';
 import { refreshIntervalHelper } from '@app/utils/refreshIntervalHelper';
+import { Transition } from '@headlessui/react';
 import {
   ArrowPathIcon,
+  ChatBubbleOvalLeftEllipsisIcon,
   CheckIcon,
   PencilIcon,
   TrashIcon,
@@ -47,6 +58,11 @@ const messages = defineMessages('components.RequestList.RequestItem', {
   unknowntitle: 'Unknown Title',
   removearr: 'Remove from {arr}',
   profileName: 'Profile',
+  approvals: 'Approvals',
+  modifyfailed: 'Something went wrong while updating the request.',
+  comments: 'Comments',
+  commentcount:
+    '{commentCount, plural, =0 {No comments} one {# comment} other {# comments}}',
 });
 
 const isMovie = (movie: MovieDetails | TvDetails): movie is MovieDetails => {
@@ -303,6 +319,8 @@ const RequestItem = ({ request, revalidateList }: RequestItemProps) => {
   const intl = useIntl();
   const { user, hasPermission } = useUser();
   const [showEditModal, setShowEditModal] = useState(false);
+  const [showCommentsModal, setShowCommentsModal] = useState(false);
+  const [showDeclineModal, setShowDeclineModal] = useState(false);
   const url =
     request.type === 'movie'
       ? `/api/v1/movie/${request.media.tmdbId}`
@@ -310,30 +328,71 @@ const RequestItem = ({ request, revalidateList }: RequestItemProps) => {
   const { data: title, error } = useSWR<MovieDetails | TvDetails>(
     inView ? url : null
   );
+  const eventsConnected = useServerEventsConnected();
   const { data: requestData, mutate: revalidate } = useSWR<
     NonFunctionProperties<MediaRequest>
   >(`/api/v1/request/${request.id}`, {
     fallbackData: request,
-    refreshInterval: refreshIntervalHelper(
-      {
-        downloadStatus: request.media.downloadStatus,
-        downloadStatus4k: request.media.downloadStatus4k,
-      },
-      15000
-    ),
+    refreshInterval: eventsConnected
+      ? 0
+      : refreshIntervalHelper(
+          {
+            downloadStatus: request.media.downloadStatus,
+            downloadStatus4k: request.media.downloadStatus4k,
+          },
+          15000
+        ),
   });
 
-  const [isRetrying, setRetrying] = useState(false);
+  useServerEvent('request', ({ requestId, removed }) => {
+    if (requestId === request.id && !removed) {
+      revalidate();
+    }
+  });
 
-  const modifyRequest = async (type: 'approve' | 'decline') => {
-    const response = await axios.post(`/api/v1/request/${request.id}/${type}`);
+  useServerEvent('media', ({ mediaId }) => {
+    if (mediaId === request.media.id) {
+      revalidate();
+    }
+  });
 
-    if (response) {
+  useServerEvent('downloads', () => {
+    if (
+      requestData?.media?.downloadStatus?.length ||
+      requestData?.media?.downloadStatus4k?.length
+    ) {
       revalidate();
-      mutate('/api/v1/request/count');
+    }
+  });
+
+  const [isRetrying, setRetrying] = useState(false);
+
+  const modifyRequest = async (
+    type: 'approve' | 'decline',
+    reason?: string
+  ) => {
+    try {
+      const response = await axios.post(
+        `/api/v1/request/${request.id}/${type}`,
+        { reason: reason || undefined }
+      );
+
+      if (response) {
+        revalidate();
+        mutate('/api/v1/request/count');
+      }
+    } catch (e) {
+      addToast(
+        e.response?.data?.message ?? intl.formatMessage(messages.modifyfailed),
+        { autoDismiss: true, appearance: 'error' }
+      );
     }
   };
 
+  const hasApproved = requestData?.approvals?.some(
+    (approval) => approval.user.id === user?.id
+  );
+
   const deleteRequest = async () => {
     await axios.delete(`/api/v1/request/${request.id}`);
 
@@ -406,6 +465,37 @@ const RequestItem = ({ request, revalidateList }: RequestItemProps) => {
           setShowEditModal(false);
         }}
       />
+      <DeclineRequestModal
+        show={showDeclineModal}
+        title={isMovie(title) ? title.title : title.name}
+        onCancel={() => setShowDeclineModal(false)}
+        onDecline={async (reason) => {
+          await modifyRequest('decline', reason);
+          setShowDeclineModal(false);
+        }}
+      />
+      <Transition
+        as="div"
+        enter="transition-opacity duration-300"
+        enterFrom="opacity-0"
+        enterTo="opacity-100"
+        leave="transition-opacity duration-300"
+        leaveFrom="opacity-100"
+        leaveTo="opacity-0"
+        show={showCommentsModal}
+      >
+        <Modal
+          title={intl.formatMessage(messages.comments)}
+          subTitle={isMovie(title) ? title.title : title.name}
+          onCancel={() => setShowCommentsModal(false)}
+          cancelText={intl.formatMessage(globalMessages.close)}
+        >
+          <RequestComments
+            request={requestData}
+            onUpdate={() => revalidate()}
+          />
+        </Modal>
+      </Transition>
       <div className="relative flex w-full flex-col justify-between overflow-hidden rounded-xl bg-gray-800 py-2 text-gray-400 shadow-md ring-1 ring-gray-700 xl:h-28 xl:flex-row">
         {title.backdropPath && (
           <div className="absolute inset-0 z-0 w-full bg-cover bg-center xl:w-2/3">
@@ -549,6 +639,7 @@ const RequestItem = ({ request, revalidateList }: RequestItemProps) => {
                   }
                 />
               )}
+              <RequestStatusHistory requestId={requestData.id} />
             </div>
             <div className="card-field">
               {hasPermission(
@@ -656,6 +747,35 @@ const RequestItem = ({ request, revalidateList }: RequestItemProps) => {
                 </span>
               </div>
             )}
+            {hasPermission(
+              [Permission.MANAGE_REQUESTS, Permission.REQUEST_VIEW],
+              { type: 'or' }
+            ) &&
+              (requestData.approvals?.length > 0 ||
+                (requestData.status === MediaRequestStatus.PENDING &&
+                  (requestData.requiredApprovals ?? 1) > 1)) && (
+                <div className="card-field">
+                  <span className="card-field-name">
+                    {intl.formatMessage(messages.approvals)}
+                  </span>
+                  <RequestApprovals request={requestData} />
+                </div>
+              )}
+            <div className="card-field">
+              <span className="card-field-name">
+                {intl.formatMessage(messages.comments)}
+              </span>
+              <button
+                type="button"
+                onClick={() => setShowCommentsModal(true)}
+                className="flex items-center truncate text-sm text-gray-300 transition duration-300 hover:text-white hover:underline"
+              >
+                <ChatBubbleOvalLeftEllipsisIcon className="mr-1 h-4 w-4 flex-shrink-0" />
+                {intl.formatMessage(messages.commentcount, {
+                  commentCount: requestData.commentCount ?? 0,
+                })}
+              </button>
+            </div>
             {request.profileName && (
               <div className="card-field">
                 <span className="card-field-name">
@@ -722,6 +842,7 @@ const RequestItem = ({ request, revalidateList }: RequestItemProps) => {
                   <Button
                     className="w-full"
                     buttonType="success"
+                    disabled={hasApproved}
                     onClick={() => modifyRequest('approve')}
                   >
                     <CheckIcon />
@@ -732,7 +853,7 @@ const RequestItem = ({ request, revalidateList }: RequestItemProps) => {
                   <Button
                     className="w-full"
                     buttonType="danger"
-                    onClick={() => modifyRequest('decline')}
+                    onClick={() => setShowDeclineModal(true)}
                   >
                     <XMarkIcon />
                     <span>{intl.formatMessage(globalMessages.decline)}</span>
@@ -137,7 +137,7 @@ const AdvancedRequester = ({
                   ? Permission.REQUEST_MOVIE
                   : Permission.REQUEST_TV,
               ],
-          user.permissions,
+          user.effectivePermissions ?? user.permissions,
           { type: 'or' }
         )
       ),
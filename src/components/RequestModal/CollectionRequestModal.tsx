@@ -9,6 +9,7 @@ import { useUser } from '@app/hooks/useUser';
 import globalMessages from '@app/i18n/globalMessages';
 import defineMessages from '@app/utils/defineMessages';
 import { MediaRequestStatus, MediaStatus } from '@server/constants/media';
+import { QuotaType } from '@server/constants/user';
 import type { MediaRequest } from '@server/entity/MediaRequest';
 import type { QuotaResponse } from '@server/interfaces/api/userInterfaces';
 import { Permission } from '@server/lib/permissions';
@@ -63,8 +64,11 @@ const CollectionRequestModal = ({
       : null
   );
 
-  const currentlyRemaining =
-    (quota?.movie.remaining ?? 0) - selectedParts.length;
+  // Parts can only be counted against quotas which are measured in requests
+  const partQuota =
+    quota?.movie.type === QuotaType.REQUESTS ? quota.movie : undefined;
+
+  const currentlyRemaining = (partQuota?.remaining ?? 0) - selectedParts.length;
 
   const getAllParts = (): number[] => {
     return (data?.parts ?? [])
@@ -116,7 +120,7 @@ const CollectionRequestModal = ({
 
     // If there are no more remaining requests available, block toggle
     if (
-      quota?.movie.limit &&
+      partQuota?.limit &&
       currentlyRemaining <= 0 &&
       !isSelectedPart(tmdbId)
     ) {
@@ -137,8 +141,8 @@ const CollectionRequestModal = ({
   const toggleAllParts = (): void => {
     // If the user has a quota and not enough requests for all parts, block toggleAllParts
     if (
-      quota?.movie.limit &&
-      (quota?.movie.remaining ?? 0) < unrequestedParts.length
+      partQuota?.limit &&
+      (partQuota?.remaining ?? 0) < unrequestedParts.length
     ) {
       return;
     }
@@ -302,7 +306,7 @@ const CollectionRequestModal = ({
         <QuotaDisplay
           mediaType="movie"
           quota={quota?.movie}
-          remaining={currentlyRemaining}
+          remaining={partQuota ? currentlyRemaining : undefined}
           userOverride={
             requestOverrides?.user && requestOverrides.user.id !== user?.id
               ? requestOverrides?.user?.id
@@ -329,8 +333,8 @@ const CollectionRequestModal = ({
                           }
                         }}
                         className={`relative inline-flex h-5 w-10 flex-shrink-0 cursor-pointer items-center justify-center pt-2 focus:outline-none ${
-                          quota?.movie.limit &&
-                          (quota.movie.remaining ?? 0) < unrequestedParts.length
+                          partQuota?.limit &&
+                          (partQuota.remaining ?? 0) < unrequestedParts.length
                             ? 'opacity-50'
                             : ''
                         }`}
@@ -405,7 +409,7 @@ const CollectionRequestModal = ({
                                   partMedia.status !==
                                     MediaStatus.BLACKLISTED) ||
                                 partRequest ||
-                                (quota?.movie.limit &&
+                                (partQuota?.limit &&
                                   currentlyRemaining <= 0 &&
                                   !isSelectedPart(part.id))
                                   ? 'opacity-50'
@@ -1,6 +1,7 @@
 import ProgressCircle from '@app/components/Common/ProgressCircle';
 import defineMessages from '@app/utils/defineMessages';
 import { ChevronDownIcon, ChevronUpIcon } from '@heroicons/react/24/solid';
+import { QuotaPeriod, QuotaType } from '@server/constants/user';
 import type { QuotaStatus } from '@server/interfaces/api/userInterfaces';
 import Link from 'next/link';
 import { useState } from 'react';
@@ -9,12 +10,22 @@ import { useIntl } from 'react-intl';
 const messages = defineMessages('components.RequestModal.QuotaDisplay', {
   requestsremaining:
     '{remaining, plural, =0 {No} other {<strong>#</strong>}} {type} {remaining, plural, one {request} other {requests}} remaining',
+  episodesremaining:
+    '{remaining, plural, =0 {No} other {<strong>#</strong>}} {remaining, plural, one {episode} other {episodes}} remaining',
+  sizeremaining: '<strong>{remaining}</strong> GB remaining',
   movielimit: '{limit, plural, one {movie} other {movies}}',
   seasonlimit: '{limit, plural, one {season} other {seasons}}',
+  episodelimit: '{limit, plural, one {episode} other {episodes}}',
+  sizelimit: 'GB',
   allowedRequests:
     'You are allowed to request <strong>{limit}</strong> {type} every <strong>{days}</strong> days.',
   allowedRequestsUser:
     'This user is allowed to request <strong>{limit}</strong> {type} every <strong>{days}</strong> days.',
+  allowedRequestsMonthly:
+    'You are allowed to request <strong>{limit}</strong> {type} every calendar month.',
+  allowedRequestsMonthlyUser:
+    'This user is allowed to request <strong>{limit}</strong> {type} every calendar month.',
+  quotaResets: 'The limit resets on <strong>{date}</strong>.',
   quotaLink:
     'You can view a summary of your request limits on your <ProfileLink>profile page</ProfileLink>.',
   quotaLinkUser:
@@ -75,13 +86,20 @@ const QuotaDisplay = ({
           <div className="ml-2 text-lg">
             {overLimit !== undefined
               ? intl.formatMessage(messages.notenoughseasonrequests)
-              : intl.formatMessage(messages.requestsremaining, {
-                  remaining: remaining ?? quota?.remaining ?? 0,
-                  type: intl.formatMessage(
-                    mediaType === 'movie' ? messages.movie : messages.season
-                  ),
-                  strong: (msg: React.ReactNode) => <strong>{msg}</strong>,
-                })}
+              : intl.formatMessage(
+                  quota?.type === QuotaType.EPISODES
+                    ? messages.episodesremaining
+                    : quota?.type === QuotaType.SIZE
+                    ? messages.sizeremaining
+                    : messages.requestsremaining,
+                  {
+                    remaining: remaining ?? quota?.remaining ?? 0,
+                    type: intl.formatMessage(
+                      mediaType === 'movie' ? messages.movie : messages.season
+                    ),
+                    strong: (msg: React.ReactNode) => <strong>{msg}</strong>,
+                  }
+                )}
           </div>
         </div>
         <div className="flex flex-1 justify-end">
@@ -109,14 +127,22 @@ const QuotaDisplay = ({
           )}
           <div>
             {intl.formatMessage(
-              userOverride
+              quota?.period === QuotaPeriod.MONTHLY
+                ? userOverride
+                  ? messages.allowedRequestsMonthlyUser
+                  : messages.allowedRequestsMonthly
+                : userOverride
                 ? messages.allowedRequestsUser
                 : messages.allowedRequests,
               {
                 limit: quota?.limit,
                 days: quota?.days,
                 type: intl.formatMessage(
-                  mediaType === 'movie'
+                  quota?.type === QuotaType.SIZE
+                    ? messages.sizelimit
+                    : quota?.type === QuotaType.EPISODES
+                    ? messages.episodelimit
+                    : mediaType === 'movie'
                     ? messages.movielimit
                     : messages.seasonlimit,
                   { limit: quota?.limit }
@@ -124,6 +150,19 @@ const QuotaDisplay = ({
                 strong: (msg: React.ReactNode) => <strong>{msg}</strong>,
               }
             )}
+            {quota?.resetsAt && (
+              <>
+                {' '}
+                {intl.formatMessage(messages.quotaResets, {
+                  date: intl.formatDate(quota.resetsAt, {
+                    year: 'numeric',
+                    month: 'long',
+                    day: 'numeric',
+                  }),
+                  strong: (msg: React.ReactNode) => <strong>{msg}</strong>,
+                })}
+              </>
+            )}
           </div>
           <div className="mt-2">
             {intl.formatMessage(
@@ -11,6 +11,7 @@ import globalMessages from '@app/i18n/globalMessages';
 import defineMessages from '@app/utils/defineMessages';
 import { ANIME_KEYWORD_ID } from '@server/api/themoviedb/constants';
 import { MediaRequestStatus, MediaStatus } from '@server/constants/media';
+import { QuotaType } from '@server/constants/user';
 import type { MediaRequest } from '@server/entity/MediaRequest';
 import type SeasonRequest from '@server/entity/SeasonRequest';
 import type { NonFunctionProperties } from '@server/interfaces/api/common';
@@ -95,8 +96,12 @@ const TvRequestModal = ({
       : null
   );
 
+  // Seasons can only be counted against quotas which are measured in requests
+  const seasonQuota =
+    quota?.tv.type === QuotaType.REQUESTS ? quota.tv : undefined;
+
   const currentlyRemaining =
-    (quota?.tv.remaining ?? 0) -
+    (seasonQuota?.remaining ?? 0) -
     selectedSeasons.length +
     (editRequest?.seasons ?? []).length;
 
@@ -287,7 +292,7 @@ const TvRequestModal = ({
 
     // If there are no more remaining requests available, block toggle
     if (
-      quota?.tv.limit &&
+      seasonQuota?.limit &&
       currentlyRemaining <= 0 &&
       !isSelectedSeason(seasonNumber)
     ) {
@@ -312,8 +317,8 @@ const TvRequestModal = ({
   const toggleAllSeasons = (): void => {
     // If the user has a quota and not enough requests for all seasons, block toggleAllSeasons
     if (
-      quota?.tv.limit &&
-      (quota?.tv.remaining ?? 0) < unrequestedSeasons.length
+      seasonQuota?.limit &&
+      (seasonQuota?.remaining ?? 0) < unrequestedSeasons.length
     ) {
       return;
     }
@@ -438,8 +443,8 @@ const TvRequestModal = ({
         editRequest
           ? false
           : !settings.currentSettings.partialRequestsEnabled &&
-            quota?.tv.limit &&
-            unrequestedSeasons.length > quota.tv.limit
+            seasonQuota?.limit &&
+            unrequestedSeasons.length > seasonQuota.limit
           ? true
           : getAllRequestedSeasons().length >= getAllSeasons().length ||
             (settings.currentSettings.partialRequestsEnabled &&
@@ -480,9 +485,9 @@ const TvRequestModal = ({
         { type: 'or' }
       ) &&
         !(
-          quota?.tv.limit &&
+          seasonQuota?.limit &&
           !settings.currentSettings.partialRequestsEnabled &&
-          unrequestedSeasons.length > (quota?.tv.remaining ?? 0)
+          unrequestedSeasons.length > (seasonQuota?.remaining ?? 0)
         ) &&
         getAllRequestedSeasons().length < getAllSeasons().length &&
         !editRequest && (
@@ -498,8 +503,10 @@ const TvRequestModal = ({
           mediaType="tv"
           quota={quota?.tv}
           remaining={
-            !settings.currentSettings.partialRequestsEnabled &&
-            unrequestedSeasons.length > (quota?.tv.remaining ?? 0)
+            !seasonQuota
+              ? undefined
+              : !settings.currentSettings.partialRequestsEnabled &&
+                unrequestedSeasons.length > (seasonQuota.remaining ?? 0)
               ? 0
               : currentlyRemaining
           }
@@ -509,8 +516,9 @@ const TvRequestModal = ({
               : undefined
           }
           overLimit={
+            seasonQuota &&
             !settings.currentSettings.partialRequestsEnabled &&
-            unrequestedSeasons.length > (quota?.tv.remaining ?? 0)
+            unrequestedSeasons.length > (seasonQuota.remaining ?? 0)
               ? unrequestedSeasons.length
               : undefined
           }
@@ -540,9 +548,9 @@ const TvRequestModal = ({
                           }
                         }}
                         className={`relative inline-flex h-5 w-10 flex-shrink-0 cursor-pointer items-center justify-center pt-2 focus:outline-none ${
-                          quota?.tv.remaining &&
-                          quota.tv.limit &&
-                          quota.tv.remaining < unrequestedSeasons.length
+                          seasonQuota?.remaining &&
+                          seasonQuota.limit &&
+                          seasonQuota.remaining < unrequestedSeasons.length
                             ? 'opacity-50'
                             : ''
                         }`}
@@ -623,7 +631,7 @@ const TvRequestModal = ({
                               }}
                               className={`relative inline-flex h-5 w-10 flex-shrink-0 cursor-pointer items-center justify-center pt-2 focus:outline-none ${
                                 mediaSeason ||
-                                (quota?.tv.limit &&
+                                (seasonQuota?.limit &&
                                   currentlyRemaining <= 0 &&
                                   !isSelectedSeason(season.seasonNumber)) ||
                                 (!!seasonRequest &&
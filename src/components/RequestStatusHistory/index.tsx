@@ -0,0 +1,152 @@
+import Badge from '@app/components/Common/Badge';
+import { SmallLoadingSpinner } from '@app/components/Common/LoadingSpinner';
+import Tooltip from '@app/components/Common/Tooltip';
+import globalMessages from '@app/i18n/globalMessages';
+import defineMessages from '@app/utils/defineMessages';
+import { ClockIcon } from '@heroicons/react/24/solid';
+import { MediaRequestStatus } from '@server/constants/media';
+import type RequestStatusHistoryEntry from '@server/entity/RequestStatusHistory';
+import { FormattedRelativeTime, useIntl } from 'react-intl';
+import useSWR from 'swr';
+
+const messages = defineMessages('components.RequestStatusHistory', {
+  statushistory: 'Status History',
+  nohistory: 'No status changes recorded.',
+  changedby: 'by {user} {relativeTime}',
+  changedautomatically: 'automatically {relativeTime}',
+});
+
+const HistoryStatusBadge = ({ status }: { status: MediaRequestStatus }) => {
+  const intl = useIntl();
+
+  switch (status) {
+    case MediaRequestStatus.PENDING:
+      return (
+        <Badge badgeType="warning">
+          {intl.formatMessage(globalMessages.pending)}
+        </Badge>
+      );
+    case MediaRequestStatus.APPROVED:
+      return (
+        <Badge badgeType="primary">
+          {intl.formatMessage(globalMessages.approved)}
+        </Badge>
+      );
+    case MediaRequestStatus.DECLINED:
+      return (
+        <Badge badgeType="danger">
+          {intl.formatMessage(globalMessages.declined)}
+        </Badge>
+      );
+    case MediaRequestStatus.FAILED:
+      return (
+        <Badge badgeType="danger">
+          {intl.formatMessage(globalMessages.failed)}
+        </Badge>
+      );
+    case MediaRequestStatus.COMPLETED:
+      return (
+        <Badge badgeType="success">
+          {intl.formatMessage(globalMessages.completed)}
+        </Badge>
+      );
+    default:
+      return null;
+  }
+};
+
+const StatusTimeline = ({ requestId }: { requestId: number }) => {
+  const intl = useIntl();
+  const { data: history } = useSWR<RequestStatusHistoryEntry[]>(
+    `/api/v1/request/${requestId}/history`
+  );
+
+  if (!history) {
+    return <SmallLoadingSpinner />;
+  }
+
+  return (
+    <div className="w-72 p-1">
+      <div className="mb-2 font-semibold text-gray-100">
+        {intl.formatMessage(messages.statushistory)}
+      </div>
+      {history.length === 0 ? (
+        <div className="text-gray-400">
+          {intl.formatMessage(messages.nohistory)}
+        </div>
+      ) : (
+        <ol className="relative ml-1 border-l border-gray-600">
+          {history.map((entry) => {
+            const relativeTime = (
+              <FormattedRelativeTime
+                value={Math.floor(
+                  (new Date(entry.createdAt).getTime() - Date.now()) / 1000
+                )}
+                updateIntervalInSeconds={1}
+                numeric="auto"
+              />
+            );
+
+            return (
+              <li
+                key={`status-history-${entry.id}`}
+                className="mb-3 ml-3 last:mb-0"
+              >
+                <span className="absolute -left-1 mt-1.5 h-2 w-2 rounded-full bg-gray-400" />
+                <div className="flex flex-wrap items-center gap-x-2">
+                  <HistoryStatusBadge status={entry.toStatus} />
+                  <span className="text-xs text-gray-400">
+                    {entry.user
+                      ? intl.formatMessage(messages.changedby, {
+                          user: entry.user.displayName,
+                          relativeTime,
+                        })
+                      : intl.formatMessage(messages.changedautomatically, {
+                          relativeTime,
+                        })}
+                  </span>
+                </div>
+                {entry.reason && (
+                  <div className="mt-1 whitespace-pre-line break-words text-xs italic text-gray-300">
+                    {entry.reason}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+interface RequestStatusHistoryProps {
+  requestId: number;
+}
+
+const RequestStatusHistory = ({ requestId }: RequestStatusHistoryProps) => {
+  const intl = useIntl();
+
+  return (
+    <Tooltip
+      content={<StatusTimeline requestId={requestId} />}
+      tooltipConfig={{
+        trigger: 'click',
+        interactive: true,
+        followCursor: false,
+        placement: 'bottom-start',
+        offset: [0, 6],
+      }}
+    >
+      <button
+        type="button"
+        className="ml-1.5 flex-shrink-0 text-gray-400 transition duration-300 hover:text-white"
+        aria-label={intl.formatMessage(messages.statushistory)}
+      >
+        <ClockIcon className="h-4 w-4" />
+      </button>
+    </Tooltip>
+  );
+};
+
+export default RequestStatusHistory;
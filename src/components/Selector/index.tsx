@@ -81,18 +81,21 @@ export const CompanySelector = ({
         return;
       }
 
-      const response = await axios.get<ProductionCompany>(
-        `/api/v1/studio/${defaultValue}`
+      const studios = await Promise.all(
+        defaultValue.split(',').map(async (studioId) => {
+          const response = await axios.get<ProductionCompany>(
+            `/api/v1/studio/${studioId}`
+          );
+          return response.data;
+        })
       );
 
-      const studio = response.data;
-
-      setDefaultDataValue([
-        {
+      setDefaultDataValue(
+        studios.map((studio) => ({
           label: studio.name ?? '',
           value: studio.id ?? 0,
-        },
-      ]);
+        }))
+      );
     };
 
     loadDefaultCompany();
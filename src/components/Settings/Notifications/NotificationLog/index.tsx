@@ -0,0 +1,420 @@
+import Badge from '@app/components/Common/Badge';
+import Button from '@app/components/Common/Button';
+import LoadingSpinner from '@app/components/Common/LoadingSpinner';
+import Table from '@app/components/Common/Table';
+import Tooltip from '@app/components/Common/Tooltip';
+import {
+  messages as notificationTypeMessages,
+  Notification,
+} from '@app/components/NotificationTypeSelector';
+import { useUpdateQueryParams } from '@app/hooks/useUpdateQueryParams';
+import globalMessages from '@app/i18n/globalMessages';
+import Error from '@app/pages/_error';
+import defineMessages from '@app/utils/defineMessages';
+import {
+  ArrowPathIcon,
+  ChevronLeftIcon,
+  ChevronRightIcon,
+  FunnelIcon,
+} from '@heroicons/react/24/solid';
+import { NotificationDeliveryStatus } from '@server/constants/notification';
+import type { NotificationLogResultsResponse } from '@server/interfaces/api/settingsInterfaces';
+import axios from 'axios';
+import { useRouter } from 'next/router';
+import { useState } from 'react';
+import { useIntl } from 'react-intl';
+import { useToasts } from 'react-toast-notifications';
+import useSWR from 'swr';
+
+const messages = defineMessages(
+  'components.Settings.Notifications.NotificationLog',
+  {
+    notificationLogDescription:
+      'Notifications which fail to send are retried automatically with an increasing delay. Sent and failed notifications are kept for 30 days.',
+    time: 'Timestamp',
+    agent: 'Agent',
+    type: 'Notification Type',
+    subject: 'Subject',
+    status: 'Status',
+    statusPending: 'Pending',
+    statusSent: 'Sent',
+    statusFailed: 'Failed',
+    attempts: '{attempts, plural, one {# attempt} other {# attempts}}',
+    nextAttempt: 'Next attempt {time}',
+    filterAll: 'All',
+    allAgents: 'All Agents',
+    testNotification: 'Test Notification',
+    resend: 'Resend',
+    resendSuccess: 'Notification sent!',
+    resendFailed: 'Notification failed to send.',
+    email: 'Email',
+    webhook: 'Webhook',
+    webpush: 'Web Push',
+  }
+);
+
+type Filter = 'all' | 'pending' | 'sent' | 'failed';
+
+const NotificationLog = () => {
+  const router = useRouter();
+  const intl = useIntl();
+  const { addToast } = useToasts();
+  const [currentFilter, setCurrentFilter] = useState<Filter>('all');
+  const [currentAgent, setCurrentAgent] = useState('');
+  const [currentPageSize, setCurrentPageSize] = useState(25);
+  const [resending, setResending] = useState<number[]>([]);
+
+  const page = router.query.page ? Number(router.query.page) : 1;
+  const pageIndex = page - 1;
+  const updateQueryParams = useUpdateQueryParams({ page: page.toString() });
+
+  const { data, error, mutate } = useSWR<NotificationLogResultsResponse>(
+    `/api/v1/settings/notifications/log?take=${currentPageSize}&skip=${
+      pageIndex * currentPageSize
+    }&filter=${currentFilter}${currentAgent ? `&agent=${currentAgent}` : ''}`,
+    {
+      refreshInterval: 10000,
+      revalidateOnFocus: false,
+    }
+  );
+
+  const agentNames: Record<string, string> = {
+    apprise: 'Apprise',
+    discord: 'Discord',
+    email: intl.formatMessage(messages.email),
+    gotify: 'Gotify',
+    matrix: 'Matrix',
+    ntfy: 'ntfy.sh',
+    pushbullet: 'Pushbullet',
+    pushover: 'Pushover',
+    slack: 'Slack',
+    telegram: 'Telegram',
+    webhook: intl.formatMessage(messages.webhook),
+    webpush: intl.formatMessage(messages.webpush),
+  };
+
+  const getTypeName = (type: number): string => {
+    switch (type) {
+      case Notification.MEDIA_PENDING:
+        return intl.formatMessage(notificationTypeMessages.mediarequested);
+      case Notification.MEDIA_APPROVED:
+        return intl.formatMessage(notificationTypeMessages.mediaapproved);
+      case Notification.MEDIA_AUTO_APPROVED:
+        return intl.formatMessage(notificationTypeMessages.mediaAutoApproved);
+      case Notification.MEDIA_AUTO_REQUESTED:
+        return intl.formatMessage(notificationTypeMessages.mediaautorequested);
+      case Notification.MEDIA_AVAILABLE:
+        return intl.formatMessage(notificationTypeMessages.mediaavailable);
+      case Notification.MEDIA_FAILED:
+        return intl.formatMessage(notificationTypeMessages.mediafailed);
+      case Notification.MEDIA_DECLINED:
+        return intl.formatMessage(notificationTypeMessages.mediadeclined);
+      case Notification.REQUEST_COMMENT:
+        return intl.formatMessage(notificationTypeMessages.requestcomment);
+      case Notification.ISSUE_CREATED:
+        return intl.formatMessage(notificationTypeMessages.issuecreated);
+      case Notification.ISSUE_COMMENT:
+        return intl.formatMessage(notificationTypeMessages.issuecomment);
+      case Notification.ISSUE_RESOLVED:
+        return intl.formatMessage(notificationTypeMessages.issueresolved);
+      case Notification.ISSUE_REOPENED:
+        return intl.formatMessage(notificationTypeMessages.issuereopened);
+      case Notification.USER_SIGNUP:
+        return intl.formatMessage(notificationTypeMessages.usersignup);
+      default:
+        return intl.formatMessage(messages.testNotification);
+    }
+  };
+
+  const resendNotification = async (id: number) => {
+    setResending((ids) => [...ids, id]);
+
+    try {
+      const response = await axios.post(
+        `/api/v1/settings/notifications/log/${id}/resend`
+      );
+
+      addToast(
+        intl.formatMessage(
+          response.data.status === NotificationDeliveryStatus.SENT
+            ? messages.resendSuccess
+            : messages.resendFailed
+        ),
+        {
+          appearance:
+            response.data.status === NotificationDeliveryStatus.SENT
+              ? 'success'
+              : 'error',
+          autoDismiss: true,
+        }
+      );
+    } catch (e) {
+      addToast(intl.formatMessage(messages.resendFailed), {
+        appearance: 'error',
+        autoDismiss: true,
+      });
+    } finally {
+      setResending((ids) => ids.filter((resendingId) => resendingId !== id));
+      mutate();
+    }
+  };
+
+  // check if there's no data and no errors in the table
+  // so as to show a spinner inside the table and not refresh the whole component
+  if (!data && error) {
+    return <Error statusCode={500} />;
+  }
+
+  const hasNextPage = (data?.pageInfo.pages ?? 0) > pageIndex + 1;
+  const hasPrevPage = pageIndex > 0;
+
+  return (
+    <div className="mb-2">
+      <p className="description">
+        {intl.formatMessage(messages.notificationLogDescription)}
+      </p>
+      <div className="mt-2 flex flex-grow flex-col sm:flex-grow-0 sm:flex-row sm:justify-end">
+        <div className="mb-2 flex flex-grow sm:mb-0 sm:mr-2 md:flex-grow-0">
+          <span className="inline-flex cursor-default items-center rounded-l-md border border-r-0 border-gray-500 bg-gray-800 px-3 text-sm text-gray-100">
+            <FunnelIcon className="h-6 w-6" />
+          </span>
+          <select
+            id="agent"
+            name="agent"
+            onChange={(e) => {
+              setCurrentAgent(e.target.value);
+              router.push(router.pathname);
+            }}
+            value={currentAgent}
+            className="rounded-r-only"
+          >
+            <option value="">{intl.formatMessage(messages.allAgents)}</option>
+            {Object.entries(agentNames).map(([agent, name]) => (
+              <option key={`agent-${agent}`} value={agent}>
+                {name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="mb-2 flex flex-grow sm:mb-0 md:flex-grow-0">
+          <span className="inline-flex cursor-default items-center rounded-l-md border border-r-0 border-gray-500 bg-gray-800 px-3 text-sm text-gray-100">
+            <FunnelIcon className="h-6 w-6" />
+          </span>
+          <select
+            id="filter"
+            name="filter"
+            onChange={(e) => {
+              setCurrentFilter(e.target.value as Filter);
+              router.push(router.pathname);
+            }}
+            value={currentFilter}
+            className="rounded-r-only"
+          >
+            <option value="all">
+              {intl.formatMessage(messages.filterAll)}
+            </option>
+            <option value="pending">
+              {intl.formatMessage(messages.statusPending)}
+            </option>
+            <option value="sent">
+              {intl.formatMessage(messages.statusSent)}
+            </option>
+            <option value="failed">
+              {intl.formatMessage(messages.statusFailed)}
+            </option>
+          </select>
+        </div>
+      </div>
+      <Table>
+        <thead>
+          <tr>
+            <Table.TH>{intl.formatMessage(messages.time)}</Table.TH>
+            <Table.TH>{intl.formatMessage(messages.agent)}</Table.TH>
+            <Table.TH>{intl.formatMessage(messages.type)}</Table.TH>
+            <Table.TH>{intl.formatMessage(messages.subject)}</Table.TH>
+            <Table.TH>{intl.formatMessage(messages.status)}</Table.TH>
+            <Table.TH></Table.TH>
+          </tr>
+        </thead>
+        <Table.TBody>
+          {!data ? (
+            <tr>
+              <Table.TD colSpan={6} noPadding>
+                <LoadingSpinner />
+              </Table.TD>
+            </tr>
+          ) : (
+            data.results.map((notification) => {
+              const statusBadge = (
+                <Badge
+                  badgeType={
+                    notification.status === NotificationDeliveryStatus.SENT
+                      ? 'success'
+                      : notification.status ===
+                        NotificationDeliveryStatus.FAILED
+                      ? 'danger'
+                      : 'warning'
+                  }
+                >
+                  {intl.formatMessage(
+                    notification.status === NotificationDeliveryStatus.SENT
+                      ? messages.statusSent
+                      : notification.status ===
+                        NotificationDeliveryStatus.FAILED
+                      ? messages.statusFailed
+                      : messages.statusPending
+                  )}
+                </Badge>
+              );
+
+              return (
+                <tr key={`notification-log-${notification.id}`}>
+                  <Table.TD className="text-gray-300">
+                    {intl.formatDate(notification.createdAt, {
+                      year: 'numeric',
+                      month: 'short',
+                      day: '2-digit',
+                      hour: 'numeric',
+                      minute: 'numeric',
+                      second: 'numeric',
+                    })}
+                  </Table.TD>
+                  <Table.TD className="text-gray-300">
+                    {agentNames[notification.agent] ?? notification.agent}
+                  </Table.TD>
+                  <Table.TD className="text-gray-300">
+                    {getTypeName(notification.type)}
+                  </Table.TD>
+                  <Table.TD className="text-gray-300">
+                    {notification.payload.subject}
+                  </Table.TD>
+                  <Table.TD className="text-gray-300">
+                    <div className="flex flex-col items-start">
+                      {notification.lastError ? (
+                        <Tooltip content={notification.lastError}>
+                          {statusBadge}
+                        </Tooltip>
+                      ) : (
+                        statusBadge
+                      )}
+                      <span className="mt-1 text-xs text-gray-400">
+                        {intl.formatMessage(messages.attempts, {
+                          attempts: notification.attempts,
+                        })}
+                      </span>
+                      {notification.nextAttemptAt && (
+                        <span className="text-xs text-gray-400">
+                          {intl.formatMessage(messages.nextAttempt, {
+                            time: intl.formatTime(notification.nextAttemptAt),
+                          })}
+                        </span>
+                      )}
+                    </div>
+                  </Table.TD>
+                  <Table.TD alignText="right">
+                    <Button
+                      buttonType="primary"
+                      buttonSize="sm"
+                      disabled={
+                        notification.status ===
+                          NotificationDeliveryStatus.PENDING ||
+                        resending.includes(notification.id)
+                      }
+                      onClick={() => resendNotification(notification.id)}
+                    >
+                      <ArrowPathIcon />
+                      <span>{intl.formatMessage(messages.resend)}</span>
+                    </Button>
+                  </Table.TD>
+                </tr>
+              );
+            })
+          )}
+
+          {data?.results.length === 0 && (
+            <tr className="relative h-24 p-2 text-white">
+              <Table.TD colSpan={6} noPadding>
+                <div className="flex w-screen flex-col items-center justify-center p-6 md:w-full">
+                  <span className="text-base">
+                    {intl.formatMessage(globalMessages.noresults)}
+                  </span>
+                </div>
+              </Table.TD>
+            </tr>
+          )}
+          <tr className="bg-gray-700">
+            <Table.TD colSpan={6} noPadding>
+              <nav
+                className="flex w-screen flex-col items-center space-x-4 space-y-3 px-6 py-3 sm:flex-row sm:space-y-0 md:w-full"
+                aria-label="Pagination"
+              >
+                <div className="hidden lg:flex lg:flex-1">
+                  <p className="text-sm">
+                    {(data?.results.length ?? 0) > 0 &&
+                      intl.formatMessage(globalMessages.showingresults, {
+                        from: pageIndex * currentPageSize + 1,
+                        to:
+                          pageIndex * currentPageSize +
+                          (data?.results.length ?? 0),
+                        total: data?.pageInfo.results ?? 0,
+                        strong: (msg: React.ReactNode) => (
+                          <span className="font-medium">{msg}</span>
+                        ),
+                      })}
+                  </p>
+                </div>
+                <div className="flex justify-center sm:flex-1 sm:justify-start md:justify-center">
+                  <span className="-mt-3 items-center text-sm sm:-ml-4 sm:mt-0 md:ml-0">
+                    {intl.formatMessage(globalMessages.resultsperpage, {
+                      pageSize: (
+                        <select
+                          id="pageSize"
+                          name="pageSize"
+                          onChange={(e) => {
+                            setCurrentPageSize(Number(e.target.value));
+                            router
+                              .push(router.pathname)
+                              .then(() => window.scrollTo(0, 0));
+                          }}
+                          value={currentPageSize}
+                          className="short inline"
+                        >
+                          <option value="10">10</option>
+                          <option value="25">25</option>
+                          <option value="50">50</option>
+                          <option value="100">100</option>
+                        </select>
+                      ),
+                    })}
+                  </span>
+                </div>
+                <div className="flex flex-auto justify-center space-x-2 sm:flex-1 sm:justify-end">
+                  <Button
+                    disabled={!hasPrevPage}
+                    onClick={() =>
+                      updateQueryParams('page', (page - 1).toString())
+                    }
+                  >
+                    <ChevronLeftIcon />
+                    <span>{intl.formatMessage(globalMessages.previous)}</span>
+                  </Button>
+                  <Button
+                    disabled={!hasNextPage}
+                    onClick={() =>
+                      updateQueryParams('page', (page + 1).toString())
+                    }
+                  >
+                    <span>{intl.formatMessage(globalMessages.next)}</span>
+                    <ChevronRightIcon />
+                  </Button>
+                </div>
+              </nav>
+            </Table.TD>
+          </tr>
+        </Table.TBody>
+      </Table>
+    </div>
+  );
+};
+
+export default NotificationLog;
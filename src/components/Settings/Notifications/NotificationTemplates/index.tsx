@@ -0,0 +1,345 @@
+import Button from '@app/components/Common/Button';
+import LoadingSpinner from '@app/components/Common/LoadingSpinner';
+import {
+  messages as notificationTypeMessages,
+  Notification,
+} from '@app/components/NotificationTypeSelector';
+import useDebouncedState from '@app/hooks/useDebouncedState';
+import globalMessages from '@app/i18n/globalMessages';
+import Error from '@app/pages/_error';
+import defineMessages from '@app/utils/defineMessages';
+import { ArrowDownOnSquareIcon } from '@heroicons/react/24/solid';
+import type {
+  NotificationTemplatePreviewResponse,
+  NotificationTemplatesResponse,
+} from '@server/interfaces/api/settingsInterfaces';
+import type {
+  NotificationAgentKey,
+  NotificationTemplate,
+  NotificationTemplates as Templates,
+} from '@server/lib/settings';
+import axios from 'axios';
+import { useEffect, useState } from 'react';
+import { useIntl } from 'react-intl';
+import { useToasts } from 'react-toast-notifications';
+import useSWR from 'swr';
+
+const messages = defineMessages(
+  'components.Settings.Notifications.NotificationTemplates',
+  {
+    notificationTemplatesDescription:
+      'Override the subject and body of the notifications sent by each agent. Leave a field empty to use the default text.',
+    agent: 'Agent',
+    type: 'Notification Type',
+    subject: 'Subject',
+    body: 'Body',
+    placeholders: 'Available Placeholders',
+    preview: 'Preview',
+    previewTip:
+      'Rendered against a sample request or issue, depending on the notification type.',
+    customized: '(customized)',
+    email: 'Email',
+    webpush: 'Web Push',
+    templatesSaved: 'Notification templates saved successfully!',
+    templatesFailed: 'Notification templates failed to save.',
+  }
+);
+
+const NotificationTemplates = () => {
+  const intl = useIntl();
+  const { addToast } = useToasts();
+  const [currentAgent, setCurrentAgent] = useState('discord');
+  const [currentType, setCurrentType] = useState(
+    Notification[Notification.MEDIA_PENDING]
+  );
+  const [templates, setTemplates] = useState<Templates>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [preview, setPreview] = useState<NotificationTemplatePreviewResponse>();
+
+  const { data, error, mutate } = useSWR<NotificationTemplatesResponse>(
+    '/api/v1/settings/notifications/templates'
+  );
+
+  // The webhook agent is left out, since its JSON payload is already templated
+  const agentNames: Record<string, string> = {
+    apprise: 'Apprise',
+    discord: 'Discord',
+    email: intl.formatMessage(messages.email),
+    gotify: 'Gotify',
+    matrix: 'Matrix',
+    ntfy: 'ntfy.sh',
+    pushbullet: 'Pushbullet',
+    pushover: 'Pushover',
+    slack: 'Slack',
+    telegram: 'Telegram',
+    webpush: intl.formatMessage(messages.webpush),
+  };
+
+  const typeNames: Record<string, string> = {
+    MEDIA_PENDING: intl.formatMessage(notificationTypeMessages.mediarequested),
+    MEDIA_AUTO_REQUESTED: intl.formatMessage(
+      notificationTypeMessages.mediaautorequested
+    ),
+    MEDIA_AUTO_APPROVED: intl.formatMessage(
+      notificationTypeMessages.mediaAutoApproved
+    ),
+    MEDIA_APPROVED: intl.formatMessage(notificationTypeMessages.mediaapproved),
+    MEDIA_DECLINED: intl.formatMessage(notificationTypeMessages.mediadeclined),
+    MEDIA_AVAILABLE: intl.formatMessage(
+      notificationTypeMessages.mediaavailable
+    ),
+    MEDIA_FAILED: intl.formatMessage(notificationTypeMessages.mediafailed),
+    REQUEST_COMMENT: intl.formatMessage(
+      notificationTypeMessages.requestcomment
+    ),
+    ISSUE_CREATED: intl.formatMessage(notificationTypeMessages.issuecreated),
+    ISSUE_COMMENT: intl.formatMessage(notificationTypeMessages.issuecomment),
+    ISSUE_RESOLVED: intl.formatMessage(notificationTypeMessages.issueresolved),
+    ISSUE_REOPENED: intl.formatMessage(notificationTypeMessages.issuereopened),
+    USER_SIGNUP: intl.formatMessage(notificationTypeMessages.usersignup),
+  };
+
+  useEffect(() => {
+    if (data) {
+      setTemplates(data.templates);
+    }
+  }, [data]);
+
+  const agentTemplates: Record<string, NotificationTemplate> =
+    templates[currentAgent as NotificationAgentKey] ?? {};
+  const currentTemplate: NotificationTemplate =
+    agentTemplates[currentType] ?? {};
+
+  const [, debouncedTemplate, setDebouncedTemplate] = useDebouncedState({
+    type: currentType,
+    subject: '',
+    body: '',
+  });
+
+  useEffect(() => {
+    setDebouncedTemplate({
+      type: currentType,
+      subject: currentTemplate.subject ?? '',
+      body: currentTemplate.body ?? '',
+    });
+  }, [
+    currentType,
+    currentTemplate.subject,
+    currentTemplate.body,
+    setDebouncedTemplate,
+  ]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const getPreview = async () => {
+      try {
+        const response = await axios.post<NotificationTemplatePreviewResponse>(
+          '/api/v1/settings/notifications/templates/preview',
+          debouncedTemplate
+        );
+
+        if (!cancelled) {
+          setPreview(response.data);
+        }
+      } catch (e) {
+        if (!cancelled) {
+          setPreview(undefined);
+        }
+      }
+    };
+
+    getPreview();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [debouncedTemplate]);
+
+  const updateTemplate = (field: 'subject' | 'body', value: string) => {
+    setTemplates((prevTemplates) => ({
+      ...prevTemplates,
+      [currentAgent]: {
+        ...prevTemplates[currentAgent as NotificationAgentKey],
+        [currentType]: {
+          ...prevTemplates[currentAgent as NotificationAgentKey]?.[currentType],
+          [field]: value,
+        },
+      },
+    }));
+  };
+
+  const saveTemplates = async () => {
+    setIsSaving(true);
+
+    try {
+      await axios.post('/api/v1/settings/notifications/templates', templates);
+      addToast(intl.formatMessage(messages.templatesSaved), {
+        appearance: 'success',
+        autoDismiss: true,
+      });
+    } catch (e) {
+      addToast(intl.formatMessage(messages.templatesFailed), {
+        appearance: 'error',
+        autoDismiss: true,
+      });
+    } finally {
+      setIsSaving(false);
+      mutate();
+    }
+  };
+
+  if (!data && !error) {
+    return <LoadingSpinner />;
+  }
+
+  if (!data) {
+    return <Error statusCode={500} />;
+  }
+
+  return (
+    <div className="section">
+      <p className="description">
+        {intl.formatMessage(messages.notificationTemplatesDescription)}
+      </p>
+      <div className="form-row">
+        <label htmlFor="agent" className="text-label">
+          {intl.formatMessage(messages.agent)}
+        </label>
+        <div className="form-input-area">
+          <div className="form-input-field">
+            <select
+              id="agent"
+              name="agent"
+              value={currentAgent}
+              onChange={(e) => setCurrentAgent(e.target.value)}
+            >
+              {Object.entries(agentNames).map(([agent, name]) => (
+                <option key={`agent-${agent}`} value={agent}>
+                  {name}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+      </div>
+      <div className="form-row">
+        <label htmlFor="type" className="text-label">
+          {intl.formatMessage(messages.type)}
+        </label>
+        <div className="form-input-area">
+          <div className="form-input-field">
+            <select
+              id="type"
+              name="type"
+              value={currentType}
+              onChange={(e) => setCurrentType(e.target.value)}
+            >
+              {Object.entries(typeNames).map(([type, name]) => (
+                <option key={`type-${type}`} value={type}>
+                  {name}
+                  {agentTemplates[type]?.subject || agentTemplates[type]?.body
+                    ? ` ${intl.formatMessage(messages.customized)}`
+                    : ''}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+      </div>
+      <div className="form-row">
+        <label htmlFor="subject" className="text-label">
+          {intl.formatMessage(messages.subject)}
+        </label>
+        <div className="form-input-area">
+          <div className="form-input-field">
+            <input
+              id="subject"
+              name="subject"
+              type="text"
+              placeholder="{{subject}}"
+              value={currentTemplate.subject ?? ''}
+              onChange={(e) => updateTemplate('subject', e.target.value)}
+            />
+          </div>
+        </div>
+      </div>
+      <div className="form-row">
+        <label htmlFor="body" className="text-label">
+          {intl.formatMessage(messages.body)}
+        </label>
+        <div className="form-input-area">
+          <div className="form-input-field">
+            <textarea
+              id="body"
+              name="body"
+              rows={5}
+              placeholder="{{message}}"
+              value={currentTemplate.body ?? ''}
+              onChange={(e) => updateTemplate('body', e.target.value)}
+            />
+          </div>
+        </div>
+      </div>
+      <div className="form-row">
+        <span className="text-label">
+          {intl.formatMessage(messages.placeholders)}
+        </span>
+        <div className="form-input-area">
+          <div className="flex flex-wrap gap-1">
+            {data.placeholders.map((placeholder) => (
+              <code
+                key={`placeholder-${placeholder}`}
+                className="rounded bg-gray-800 px-1 text-xs text-gray-300"
+              >
+                {`{{${placeholder}}}`}
+              </code>
+            ))}
+          </div>
+        </div>
+      </div>
+      <div className="form-row">
+        <span className="text-label">
+          {intl.formatMessage(messages.preview)}
+          <span className="label-tip">
+            {intl.formatMessage(messages.previewTip)}
+          </span>
+        </span>
+        <div className="form-input-area">
+          <div className="rounded-md border border-gray-700 bg-gray-800 p-4">
+            {preview ? (
+              <>
+                <div className="font-bold text-white">{preview.subject}</div>
+                <div className="mt-2 whitespace-pre-wrap text-sm text-gray-300">
+                  {preview.body}
+                </div>
+              </>
+            ) : (
+              <LoadingSpinner />
+            )}
+          </div>
+        </div>
+      </div>
+      <div className="actions">
+        <div className="flex justify-end">
+          <span className="ml-3 inline-flex rounded-md shadow-sm">
+            <Button
+              buttonType="primary"
+              disabled={isSaving}
+              onClick={() => saveTemplates()}
+            >
+              <ArrowDownOnSquareIcon />
+              <span>
+                {isSaving
+                  ? intl.formatMessage(globalMessages.saving)
+                  : intl.formatMessage(globalMessages.save)}
+              </span>
+            </Button>
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default NotificationTemplates;
@@ -0,0 +1,427 @@
+import Button from '@app/components/Common/Button';
+import LoadingSpinner from '@app/components/Common/LoadingSpinner';
+import SensitiveInput from '@app/components/Common/SensitiveInput';
+import NotificationTypeSelector, {
+  Notification,
+} from '@app/components/NotificationTypeSelector';
+import globalMessages from '@app/i18n/globalMessages';
+import defineMessages from '@app/utils/defineMessages';
+import { isValidURL } from '@app/utils/urlValidationHelper';
+import { ArrowDownOnSquareIcon, BeakerIcon } from '@heroicons/react/24/solid';
+import type { NotificationAgentApprise } from '@server/lib/settings';
+import axios from 'axios';
+import { Field, Form, Formik } from 'formik';
+import { useState } from 'react';
+import { useIntl } from 'react-intl';
+import { useToasts } from 'react-toast-notifications';
+import useSWR from 'swr';
+import * as Yup from 'yup';
+
+const messages = defineMessages(
+  'components.Settings.Notifications.NotificationsApprise',
+  {
+    agentenabled: 'Enable Agent',
+    url: 'Apprise API URL',
+    urlTip:
+      'The URL of your <AppriseApiLink>Apprise API</AppriseApiLink> server',
+    configKey: 'Configuration Key',
+    configKeyTip:
+      'The key of a configuration stored on the Apprise API server, whose URLs are notified using the tags below',
+    urls: 'Apprise URLs',
+    urlsTip:
+      'URLs to notify when no configuration key is set, separated by commas or spaces',
+    tag: 'Default Tag',
+    tagTip:
+      'Tag to notify for notification types without a tag of their own (leave blank to notify untagged URLs)',
+    typeTags: 'Notification Type Tags',
+    typeTagsTip:
+      'Tags to notify for specific notification types, which only apply to stored configurations',
+    mediaPending: 'Request Pending Approval',
+    mediaApproved: 'Request Approved',
+    mediaAutoApproved: 'Request Automatically Approved',
+    mediaAutoRequested: 'Request Automatically Submitted',
+    mediaAvailable: 'Request Available',
+    mediaDeclined: 'Request Declined',
+    mediaFailed: 'Request Processing Failed',
+    requestComment: 'Request Comment',
+    issueCreated: 'Issue Reported',
+    issueComment: 'Issue Comment',
+    issueResolved: 'Issue Resolved',
+    issueReopened: 'Issue Reopened',
+    userSignup: 'New Sign-Up',
+    validationUrlRequired: 'You must provide a valid URL',
+    validationUrlTrailingSlash: 'URL must not end in a trailing slash',
+    validationTargetRequired:
+      'You must provide a configuration key or Apprise URLs',
+    appriseSettingsSaved: 'Apprise notification settings saved successfully!',
+    appriseSettingsFailed: 'Apprise notification settings failed to save.',
+    toastAppriseTestSending: 'Sending Apprise test notification…',
+    toastAppriseTestSuccess: 'Apprise test notification sent!',
+    toastAppriseTestFailed: 'Apprise test notification failed to send.',
+    validationTypes: 'You must select at least one notification type',
+  }
+);
+
+const typeTagFields = [
+  { type: Notification.MEDIA_PENDING, message: messages.mediaPending },
+  { type: Notification.MEDIA_APPROVED, message: messages.mediaApproved },
+  {
+    type: Notification.MEDIA_AUTO_APPROVED,
+    message: messages.mediaAutoApproved,
+  },
+  {
+    type: Notification.MEDIA_AUTO_REQUESTED,
+    message: messages.mediaAutoRequested,
+  },
+  { type: Notification.MEDIA_AVAILABLE, message: messages.mediaAvailable },
+  { type: Notification.MEDIA_DECLINED, message: messages.mediaDeclined },
+  { type: Notification.MEDIA_FAILED, message: messages.mediaFailed },
+  { type: Notification.REQUEST_COMMENT, message: messages.requestComment },
+  { type: Notification.ISSUE_CREATED, message: messages.issueCreated },
+  { type: Notification.ISSUE_COMMENT, message: messages.issueComment },
+  { type: Notification.ISSUE_RESOLVED, message: messages.issueResolved },
+  { type: Notification.ISSUE_REOPENED, message: messages.issueReopened },
+  { type: Notification.USER_SIGNUP, message: messages.userSignup },
+];
+
+const NotificationsApprise = () => {
+  const intl = useIntl();
+  const { addToast, removeToast } = useToasts();
+  const [isTesting, setIsTesting] = useState(false);
+  const {
+    data,
+    error,
+    mutate: revalidate,
+  } = useSWR<NotificationAgentApprise>(
+    '/api/v1/settings/notifications/apprise'
+  );
+
+  const NotificationsAppriseSchema = Yup.object().shape({
+    url: Yup.string()
+      .when('enabled', {
+        is: true,
+        then: Yup.string()
+          .nullable()
+          .required(intl.formatMessage(messages.validationUrlRequired)),
+        otherwise: Yup.string().nullable(),
+      })
+      .test(
+        'valid-url',
+        intl.formatMessage(messages.validationUrlRequired),
+        isValidURL
+      )
+      .test(
+        'no-trailing-slash',
+        intl.formatMessage(messages.validationUrlTrailingSlash),
+        (value) => !value || !value.endsWith('/')
+      ),
+    urls: Yup.string()
+      .nullable()
+      .test(
+        'target-required',
+        intl.formatMessage(messages.validationTargetRequired),
+        function (value) {
+          return !this.parent.enabled || !!value || !!this.parent.configKey;
+        }
+      ),
+  });
+
+  if (!data && !error) {
+    return <LoadingSpinner />;
+  }
+
+  const getOptions = (values: {
+    url?: string;
+    configKey?: string;
+    urls?: string;
+    tag?: string;
+    typeTags: Record<string, string>;
+  }): NotificationAgentApprise['options'] => ({
+    url: values.url ?? '',
+    configKey: values.configKey,
+    urls: values.urls,
+    tag: values.tag,
+    typeTags: Object.fromEntries(
+      Object.entries(values.typeTags).filter(([, tag]) => !!tag)
+    ),
+  });
+
+  return (
+    <Formik
+      initialValues={{
+        enabled: data?.enabled,
+        types: data?.types,
+        url: data?.options.url,
+        configKey: data?.options.configKey,
+        urls: data?.options.urls,
+        tag: data?.options.tag,
+        typeTags: Object.fromEntries(
+          typeTagFields.map(({ type }) => [
+            Notification[type],
+            data?.options.typeTags?.[Notification[type]] ?? '',
+          ])
+        ),
+      }}
+      validationSchema={NotificationsAppriseSchema}
+      onSubmit={async (values) => {
+        try {
+          await axios.post('/api/v1/settings/notifications/apprise', {
+            enabled: values.enabled,
+            types: values.types,
+            options: getOptions(values),
+          });
+          addToast(intl.formatMessage(messages.appriseSettingsSaved), {
+            appearance: 'success',
+            autoDismiss: true,
+          });
+        } catch (e) {
+          addToast(intl.formatMessage(messages.appriseSettingsFailed), {
+            appearance: 'error',
+            autoDismiss: true,
+          });
+        } finally {
+          revalidate();
+        }
+      }}
+    >
+      {({
+        errors,
+        touched,
+        isSubmitting,
+        values,
+        isValid,
+        setFieldValue,
+        setFieldTouched,
+      }) => {
+        const testSettings = async () => {
+          setIsTesting(true);
+          let toastId: string | undefined;
+          try {
+            addToast(
+              intl.formatMessage(messages.toastAppriseTestSending),
+              {
+                autoDismiss: false,
+                appearance: 'info',
+              },
+              (id) => {
+                toastId = id;
+              }
+            );
+            await axios.post('/api/v1/settings/notifications/apprise/test', {
+              enabled: true,
+              types: values.types,
+              options: getOptions(values),
+            });
+
+            if (toastId) {
+              removeToast(toastId);
+            }
+            addToast(intl.formatMessage(messages.toastAppriseTestSuccess), {
+              autoDismiss: true,
+              appearance: 'success',
+            });
+          } catch (e) {
+            if (toastId) {
+              removeToast(toastId);
+            }
+            addToast(intl.formatMessage(messages.toastAppriseTestFailed), {
+              autoDismiss: true,
+              appearance: 'error',
+            });
+          } finally {
+            setIsTesting(false);
+          }
+        };
+
+        return (
+          <Form className="section">
+            <div className="form-row">
+              <label htmlFor="enabled" className="checkbox-label">
+                {intl.formatMessage(messages.agentenabled)}
+                <span className="label-required">*</span>
+              </label>
+              <div className="form-input-area">
+                <Field type="checkbox" id="enabled" name="enabled" />
+              </div>
+            </div>
+            <div className="form-row">
+              <label htmlFor="url" className="text-label">
+                {intl.formatMessage(messages.url)}
+                <span className="label-required">*</span>
+                <span className="label-tip">
+                  {intl.formatMessage(messages.urlTip, {
+                    AppriseApiLink: (msg: React.ReactNode) => (
+                      <a
+                        href="https://github.com/caronc/apprise-api"
+                        className="text-white transition duration-300 hover:underline"
+                        target="_blank"
+                        rel="noreferrer"
+                      >
+                        {msg}
+                      </a>
+                    ),
+                  })}
+                </span>
+              </label>
+              <div className="form-input-area">
+                <div className="form-input-field">
+                  <Field id="url" name="url" type="text" inputMode="url" />
+                </div>
+                {errors.url &&
+                  touched.url &&
+                  typeof errors.url === 'string' && (
+                    <div className="error">{errors.url}</div>
+                  )}
+              </div>
+            </div>
+            <div className="form-row">
+              <label htmlFor="configKey" className="text-label">
+                {intl.formatMessage(messages.configKey)}
+                <span className="label-tip">
+                  {intl.formatMessage(messages.configKeyTip)}
+                </span>
+              </label>
+              <div className="form-input-area">
+                <div className="form-input-field">
+                  <Field id="configKey" name="configKey" type="text" />
+                </div>
+              </div>
+            </div>
+            <div className="form-row">
+              <label htmlFor="urls" className="text-label">
+                {intl.formatMessage(messages.urls)}
+                <span className="label-tip">
+                  {intl.formatMessage(messages.urlsTip)}
+                </span>
+              </label>
+              <div className="form-input-area">
+                <div className="form-input-field">
+                  <SensitiveInput
+                    as="field"
+                    id="urls"
+                    name="urls"
+                    type="textarea"
+                    rows="3"
+                    className="font-mono text-xs"
+                    autoComplete="off"
+                    data-form-type="other"
+                    data-1pignore="true"
+                    data-lpignore="true"
+                    data-bwignore="true"
+                  />
+                </div>
+                {errors.urls &&
+                  touched.urls &&
+                  typeof errors.urls === 'string' && (
+                    <div className="error">{errors.urls}</div>
+                  )}
+              </div>
+            </div>
+            <div className="form-row">
+              <label htmlFor="tag" className="text-label">
+                {intl.formatMessage(messages.tag)}
+                <span className="label-tip">
+                  {intl.formatMessage(messages.tagTip)}
+                </span>
+              </label>
+              <div className="form-input-area">
+                <div className="form-input-field">
+                  <Field id="tag" name="tag" type="text" />
+                </div>
+              </div>
+            </div>
+            <div className="form-row">
+              <span className="text-label">
+                {intl.formatMessage(messages.typeTags)}
+                <span className="label-tip">
+                  {intl.formatMessage(messages.typeTagsTip)}
+                </span>
+              </span>
+              <div className="form-input-area space-y-2">
+                {typeTagFields.map(({ type, message }) => (
+                  <div
+                    key={`type-tag-${type}`}
+                    className="flex items-center space-x-2"
+                  >
+                    <label
+                      htmlFor={`typeTags.${Notification[type]}`}
+                      className="w-1/2 text-sm text-gray-300"
+                    >
+                      {intl.formatMessage(message)}
+                    </label>
+                    <div className="form-input-field w-1/2">
+                      <Field
+                        id={`typeTags.${Notification[type]}`}
+                        name={`typeTags.${Notification[type]}`}
+                        type="text"
+                        placeholder={values.tag}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <NotificationTypeSelector
+              currentTypes={values.enabled ? values.types ?? 0 : 0}
+              onUpdate={(newTypes) => {
+                setFieldValue('types', newTypes);
+                setFieldTouched('types');
+
+                if (newTypes) {
+                  setFieldValue('enabled', true);
+                }
+              }}
+              error={
+                values.enabled && !values.types && touched.types
+                  ? intl.formatMessage(messages.validationTypes)
+                  : undefined
+              }
+            />
+            <div className="actions">
+              <div className="flex justify-end">
+                <span className="ml-3 inline-flex rounded-md shadow-sm">
+                  <Button
+                    buttonType="warning"
+                    disabled={isSubmitting || !isValid || isTesting}
+                    onClick={(e) => {
+                      e.preventDefault();
+                      testSettings();
+                    }}
+                  >
+                    <BeakerIcon />
+                    <span>
+                      {isTesting
+                        ? intl.formatMessage(globalMessages.testing)
+                        : intl.formatMessage(globalMessages.test)}
+                    </span>
+                  </Button>
+                </span>
+                <span className="ml-3 inline-flex rounded-md shadow-sm">
+                  <Button
+                    buttonType="primary"
+                    type="submit"
+                    disabled={
+                      isSubmitting ||
+                      !isValid ||
+                      isTesting ||
+                      (values.enabled && !values.types)
+                    }
+                  >
+                    <ArrowDownOnSquareIcon />
+                    <span>
+                      {isSubmitting
+                        ? intl.formatMessage(globalMessages.saving)
+                        : intl.formatMessage(globalMessages.save)}
+                    </span>
+                  </Button>
+                </span>
+              </div>
+            </div>
+          </Form>
+        );
+      }}
+    </Formik>
+  );
+};
+
+export default NotificationsApprise;
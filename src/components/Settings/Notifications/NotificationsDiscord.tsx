@@ -1,5 +1,8 @@
 import Button from '@app/components/Common/Button';
 import LoadingSpinner from '@app/components/Common/LoadingSpinner';
+import NotificationDigestSelector, {
+  messages as digestMessages,
+} from '@app/components/NotificationDigestSelector';
 import NotificationTypeSelector from '@app/components/NotificationTypeSelector';
 import useSettings from '@app/hooks/useSettings';
 import globalMessages from '@app/i18n/globalMessages';
@@ -64,6 +67,17 @@ const NotificationsDiscord = () => {
         /^\d{17,19}$/,
         intl.formatMessage(messages.validationWebhookRoleId)
       ),
+    digestTime: Yup.string().when('digestFrequency', {
+      is: 'daily',
+      then: Yup.string()
+        .nullable()
+        .required(intl.formatMessage(digestMessages.validationDigestTime))
+        .matches(
+          /^([01]\d|2[0-3]):[0-5]\d$/,
+          intl.formatMessage(digestMessages.validationDigestTime)
+        ),
+      otherwise: Yup.string().nullable(),
+    }),
   });
 
   if (!data && !error) {
@@ -75,6 +89,8 @@ const NotificationsDiscord = () => {
       initialValues={{
         enabled: data.enabled,
         types: data.types,
+        digestFrequency: data.digest?.frequency ?? 'immediate',
+        digestTime: data.digest?.time ?? '08:00',
         botUsername: data?.options.botUsername,
         botAvatarUrl: data?.options.botAvatarUrl,
         webhookUrl: data.options.webhookUrl,
@@ -87,6 +103,10 @@ const NotificationsDiscord = () => {
           await axios.post('/api/v1/settings/notifications/discord', {
             enabled: values.enabled,
             types: values.types,
+            digest: {
+              frequency: values.digestFrequency,
+              time: values.digestTime,
+            },
             options: {
               botUsername: values.botUsername,
               botAvatarUrl: values.botAvatarUrl,
@@ -283,6 +303,14 @@ const NotificationsDiscord = () => {
                 />
               </div>
             </div>
+            <NotificationDigestSelector
+              frequency={values.digestFrequency}
+              error={
+                errors.digestTime && touched.digestTime
+                  ? (errors.digestTime as string)
+                  : undefined
+              }
+            />
             <NotificationTypeSelector
               currentTypes={values.enabled ? values.types : 0}
               onUpdate={(newTypes) => {
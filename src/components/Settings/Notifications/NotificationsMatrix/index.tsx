@@ -0,0 +1,316 @@
+import Button from '@app/components/Common/Button';
+import LoadingSpinner from '@app/components/Common/LoadingSpinner';
+import SensitiveInput from '@app/components/Common/SensitiveInput';
+import NotificationTypeSelector from '@app/components/NotificationTypeSelector';
+import globalMessages from '@app/i18n/globalMessages';
+import defineMessages from '@app/utils/defineMessages';
+import { isValidURL } from '@app/utils/urlValidationHelper';
+import { ArrowDownOnSquareIcon, BeakerIcon } from '@heroicons/react/24/solid';
+import axios from 'axios';
+import { Field, Form, Formik } from 'formik';
+import { useState } from 'react';
+import { useIntl } from 'react-intl';
+import { useToasts } from 'react-toast-notifications';
+import useSWR from 'swr';
+import * as Yup from 'yup';
+
+const messages = defineMessages(
+  'components.Settings.Notifications.NotificationsMatrix',
+  {
+    agentenabled: 'Enable Agent',
+    homeserverUrl: 'Homeserver URL',
+    accessToken: 'Access Token',
+    accessTokenTip:
+      'The access token of the account that sends notifications, which must be a member of the room',
+    roomId: 'Room ID',
+    roomIdTip:
+      'A room ID (<code>!room:example.org</code>) or alias (<code>#room:example.org</code>) to send all notifications to, or a user ID (<code>@you:example.org</code>) to send them as direct messages',
+    validationUrlRequired: 'You must provide a valid URL',
+    validationUrlTrailingSlash: 'URL must not end in a trailing slash',
+    validationAccessTokenRequired: 'You must provide an access token',
+    validationRoomId: 'You must provide a valid room, alias or user ID',
+    matrixsettingssaved: 'Matrix notification settings saved successfully!',
+    matrixsettingsfailed: 'Matrix notification settings failed to save.',
+    toastMatrixTestSending: 'Sending Matrix test notification…',
+    toastMatrixTestSuccess: 'Matrix test notification sent!',
+    toastMatrixTestFailed: 'Matrix test notification failed to send.',
+    validationTypes: 'You must select at least one notification type',
+  }
+);
+
+const NotificationsMatrix = () => {
+  const intl = useIntl();
+  const { addToast, removeToast } = useToasts();
+  const [isTesting, setIsTesting] = useState(false);
+  const {
+    data,
+    error,
+    mutate: revalidate,
+  } = useSWR('/api/v1/settings/notifications/matrix');
+
+  const NotificationsMatrixSchema = Yup.object().shape({
+    homeserverUrl: Yup.string()
+      .when('enabled', {
+        is: true,
+        then: Yup.string()
+          .nullable()
+          .required(intl.formatMessage(messages.validationUrlRequired)),
+        otherwise: Yup.string().nullable(),
+      })
+      .test(
+        'valid-url',
+        intl.formatMessage(messages.validationUrlRequired),
+        isValidURL
+      )
+      .test(
+        'no-trailing-slash',
+        intl.formatMessage(messages.validationUrlTrailingSlash),
+        (value) => !value || !value.endsWith('/')
+      ),
+    accessToken: Yup.string().when('enabled', {
+      is: true,
+      then: Yup.string()
+        .nullable()
+        .required(intl.formatMessage(messages.validationAccessTokenRequired)),
+      otherwise: Yup.string().nullable(),
+    }),
+    roomId: Yup.string()
+      .nullable()
+      .matches(
+        /^[!#@][^:\s]+:\S+$/,
+        intl.formatMessage(messages.validationRoomId)
+      ),
+  });
+
+  if (!data && !error) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <Formik
+      initialValues={{
+        enabled: data?.enabled,
+        types: data?.types,
+        homeserverUrl: data?.options.homeserverUrl,
+        accessToken: data?.options.accessToken,
+        roomId: data?.options.roomId,
+      }}
+      validationSchema={NotificationsMatrixSchema}
+      onSubmit={async (values) => {
+        try {
+          await axios.post('/api/v1/settings/notifications/matrix', {
+            enabled: values.enabled,
+            types: values.types,
+            options: {
+              homeserverUrl: values.homeserverUrl,
+              accessToken: values.accessToken,
+              roomId: values.roomId,
+            },
+          });
+          addToast(intl.formatMessage(messages.matrixsettingssaved), {
+            appearance: 'success',
+            autoDismiss: true,
+          });
+        } catch (e) {
+          addToast(intl.formatMessage(messages.matrixsettingsfailed), {
+            appearance: 'error',
+            autoDismiss: true,
+          });
+        } finally {
+          revalidate();
+        }
+      }}
+    >
+      {({
+        errors,
+        touched,
+        isSubmitting,
+        values,
+        isValid,
+        setFieldValue,
+        setFieldTouched,
+      }) => {
+        const testSettings = async () => {
+          setIsTesting(true);
+          let toastId: string | undefined;
+          try {
+            addToast(
+              intl.formatMessage(messages.toastMatrixTestSending),
+              {
+                autoDismiss: false,
+                appearance: 'info',
+              },
+              (id) => {
+                toastId = id;
+              }
+            );
+            await axios.post('/api/v1/settings/notifications/matrix/test', {
+              enabled: true,
+              types: values.types,
+              options: {
+                homeserverUrl: values.homeserverUrl,
+                accessToken: values.accessToken,
+                roomId: values.roomId,
+              },
+            });
+
+            if (toastId) {
+              removeToast(toastId);
+            }
+            addToast(intl.formatMessage(messages.toastMatrixTestSuccess), {
+              autoDismiss: true,
+              appearance: 'success',
+            });
+          } catch (e) {
+            if (toastId) {
+              removeToast(toastId);
+            }
+            addToast(intl.formatMessage(messages.toastMatrixTestFailed), {
+              autoDismiss: true,
+              appearance: 'error',
+            });
+          } finally {
+            setIsTesting(false);
+          }
+        };
+
+        return (
+          <Form className="section">
+            <div className="form-row">
+              <label htmlFor="enabled" className="checkbox-label">
+                {intl.formatMessage(messages.agentenabled)}
+                <span className="label-required">*</span>
+              </label>
+              <div className="form-input-area">
+                <Field type="checkbox" id="enabled" name="enabled" />
+              </div>
+            </div>
+            <div className="form-row">
+              <label htmlFor="homeserverUrl" className="text-label">
+                {intl.formatMessage(messages.homeserverUrl)}
+                <span className="label-required">*</span>
+              </label>
+              <div className="form-input-area">
+                <div className="form-input-field">
+                  <Field
+                    id="homeserverUrl"
+                    name="homeserverUrl"
+                    type="text"
+                    inputMode="url"
+                  />
+                </div>
+                {errors.homeserverUrl &&
+                  touched.homeserverUrl &&
+                  typeof errors.homeserverUrl === 'string' && (
+                    <div className="error">{errors.homeserverUrl}</div>
+                  )}
+              </div>
+            </div>
+            <div className="form-row">
+              <label htmlFor="accessToken" className="text-label">
+                {intl.formatMessage(messages.accessToken)}
+                <span className="label-required">*</span>
+                <span className="label-tip">
+                  {intl.formatMessage(messages.accessTokenTip)}
+                </span>
+              </label>
+              <div className="form-input-area">
+                <div className="form-input-field">
+                  <SensitiveInput
+                    as="field"
+                    id="accessToken"
+                    name="accessToken"
+                    autoComplete="one-time-code"
+                  />
+                </div>
+                {errors.accessToken &&
+                  touched.accessToken &&
+                  typeof errors.accessToken === 'string' && (
+                    <div className="error">{errors.accessToken}</div>
+                  )}
+              </div>
+            </div>
+            <div className="form-row">
+              <label htmlFor="roomId" className="text-label">
+                {intl.formatMessage(messages.roomId)}
+                <span className="label-tip">
+                  {intl.formatMessage(messages.roomIdTip, {
+                    code: (msg: React.ReactNode) => <code>{msg}</code>,
+                  })}
+                </span>
+              </label>
+              <div className="form-input-area">
+                <div className="form-input-field">
+                  <Field id="roomId" name="roomId" type="text" />
+                </div>
+                {errors.roomId &&
+                  touched.roomId &&
+                  typeof errors.roomId === 'string' && (
+                    <div className="error">{errors.roomId}</div>
+                  )}
+              </div>
+            </div>
+            <NotificationTypeSelector
+              currentTypes={values.enabled ? values.types : 0}
+              onUpdate={(newTypes) => {
+                setFieldValue('types', newTypes);
+                setFieldTouched('types');
+
+                if (newTypes) {
+                  setFieldValue('enabled', true);
+                }
+              }}
+              error={
+                values.enabled && !values.types && touched.types
+                  ? intl.formatMessage(messages.validationTypes)
+                  : undefined
+              }
+            />
+            <div className="actions">
+              <div className="flex justify-end">
+                <span className="ml-3 inline-flex rounded-md shadow-sm">
+                  <Button
+                    buttonType="warning"
+                    disabled={isSubmitting || !isValid || isTesting}
+                    onClick={(e) => {
+                      e.preventDefault();
+                      testSettings();
+                    }}
+                  >
+                    <BeakerIcon />
+                    <span>
+                      {isTesting
+                        ? intl.formatMessage(globalMessages.testing)
+                        : intl.formatMessage(globalMessages.test)}
+                    </span>
+                  </Button>
+                </span>
+                <span className="ml-3 inline-flex rounded-md shadow-sm">
+                  <Button
+                    buttonType="primary"
+                    type="submit"
+                    disabled={
+                      isSubmitting ||
+                      !isValid ||
+                      isTesting ||
+                      (values.enabled && !values.types)
+                    }
+                  >
+                    <ArrowDownOnSquareIcon />
+                    <span>
+                      {isSubmitting
+                        ? intl.formatMessage(globalMessages.saving)
+                        : intl.formatMessage(globalMessages.save)}
+                    </span>
+                  </Button>
+                </span>
+              </div>
+            </div>
+          </Form>
+        );
+      }}
+    </Formik>
+  );
+};
+
+export default NotificationsMatrix;
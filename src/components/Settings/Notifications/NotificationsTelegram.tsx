@@ -1,6 +1,9 @@
 import Button from '@app/components/Common/Button';
 import LoadingSpinner from '@app/components/Common/LoadingSpinner';
 import SensitiveInput from '@app/components/Common/SensitiveInput';
+import NotificationDigestSelector, {
+  messages as digestMessages,
+} from '@app/components/NotificationDigestSelector';
 import NotificationTypeSelector from '@app/components/NotificationTypeSelector';
 import globalMessages from '@app/i18n/globalMessages';
 import defineMessages from '@app/utils/defineMessages';
@@ -79,6 +82,17 @@ const NotificationsTelegram = () => {
         otherwise: Yup.string().nullable(),
       })
       .matches(/^\d+$/, intl.formatMessage(messages.validationMessageThreadId)),
+    digestTime: Yup.string().when('digestFrequency', {
+      is: 'daily',
+      then: Yup.string()
+        .nullable()
+        .required(intl.formatMessage(digestMessages.validationDigestTime))
+        .matches(
+          /^([01]\d|2[0-3]):[0-5]\d$/,
+          intl.formatMessage(digestMessages.validationDigestTime)
+        ),
+      otherwise: Yup.string().nullable(),
+    }),
   });
 
   if (!data && !error) {
@@ -90,6 +104,8 @@ const NotificationsTelegram = () => {
       initialValues={{
         enabled: data?.enabled,
         types: data?.types,
+        digestFrequency: data?.digest?.frequency ?? 'immediate',
+        digestTime: data?.digest?.time ?? '08:00',
         botUsername: data?.options.botUsername,
         botAPI: data?.options.botAPI,
         chatId: data?.options.chatId,
@@ -102,6 +118,10 @@ const NotificationsTelegram = () => {
           await axios.post('/api/v1/settings/notifications/telegram', {
             enabled: values.enabled,
             types: values.types,
+            digest: {
+              frequency: values.digestFrequency,
+              time: values.digestTime,
+            },
             options: {
               botAPI: values.botAPI,
               chatId: values.chatId,
@@ -338,6 +358,14 @@ const NotificationsTelegram = () => {
                 <Field type="checkbox" id="sendSilently" name="sendSilently" />
               </div>
             </div>
+            <NotificationDigestSelector
+              frequency={values.digestFrequency}
+              error={
+                errors.digestTime && touched.digestTime
+                  ? (errors.digestTime as string)
+                  : undefined
+              }
+            />
             <NotificationTypeSelector
               currentTypes={values.enabled ? values.types : 0}
               onUpdate={(newTypes) => {
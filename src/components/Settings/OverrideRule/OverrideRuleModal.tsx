@@ -1,6 +1,7 @@
 import Modal from '@app/components/Common/Modal';
 import LanguageSelector from '@app/components/LanguageSelector';
 import {
+  CompanySelector,
   GenreSelector,
   KeywordSelector,
   UserSelector,
@@ -14,6 +15,7 @@ import type OverrideRule from '@server/entity/OverrideRule';
 import type {
   DVRSettings,
   RadarrSettings,
+  Region,
   SonarrSettings,
 } from '@server/lib/settings';
 import axios from 'axios';
@@ -22,6 +24,7 @@ import { useCallback, useEffect, useState } from 'react';
 import { useIntl } from 'react-intl';
 import Select from 'react-select';
 import { useToasts } from 'react-toast-notifications';
+import useSWR from 'swr';
 
 const messages = defineMessages('components.Settings.OverrideRuleModal', {
   createrule: 'New Override Rule',
@@ -40,6 +43,29 @@ const messages = defineMessages('components.Settings.OverrideRuleModal', {
   genres: 'Genres',
   languages: 'Languages',
   keywords: 'Keywords',
+  releaseYear: 'Release Year',
+  runtime: 'Runtime',
+  runtimeTip: 'In minutes, series are matched on their episode runtime',
+  from: 'From',
+  to: 'To',
+  certifications: 'Certifications',
+  certificationsTip:
+    'Comma-separated list of certifications in the discover region, such as PG-13, R, TV-MA',
+  originCountries: 'Origin Countries',
+  selectCountries: 'Select countries',
+  networks: 'Networks',
+  networksTip: 'Comma-separated list of TMDB network IDs',
+  studios: 'Studios',
+  is4k: '4K',
+  isAnime: 'Anime',
+  any: 'Any',
+  only4k: 'Only 4K requests',
+  no4k: 'Only non-4K requests',
+  onlyAnime: 'Only anime',
+  noAnime: 'Exclude anime',
+  stopProcessing: 'Stop Processing',
+  stopProcessingTip:
+    'Do not evaluate the rules which come after this one once it matches',
   rootfolder: 'Root Folder',
   selectRootFolder: 'Select root folder',
   qualityprofile: 'Quality Profile',
@@ -56,6 +82,19 @@ type OptionType = {
   label: string;
 };
 
+type CountryOptionType = {
+  value: string;
+  label: string;
+};
+
+const toNumberOrNull = (value?: number | string | null) =>
+  value === '' || value === null || value === undefined ? null : Number(value);
+
+const toBooleanOrNull = (value?: boolean | string | null) =>
+  value === '' || value === null || value === undefined
+    ? null
+    : String(value) === 'true';
+
 interface OverrideRuleModalProps {
   rule: OverrideRule | null;
   onClose: () => void;
@@ -74,6 +113,7 @@ const OverrideRuleModal = ({
   const { currentSettings } = useSettings();
   const [isValidated, setIsValidated] = useState(rule ? true : false);
   const [isTesting, setIsTesting] = useState(false);
+  const { data: regions } = useSWR<Region[]>('/api/v1/regions');
   const [testResponse, setTestResponse] = useState<DVRTestResponse>({
     profiles: [],
     rootFolders: [],
@@ -157,9 +197,20 @@ const OverrideRuleModal = ({
           genre: rule?.genre,
           language: rule?.language,
           keywords: rule?.keywords,
+          yearFrom: rule?.yearFrom ?? '',
+          yearTo: rule?.yearTo ?? '',
+          runtimeMin: rule?.runtimeMin ?? '',
+          runtimeMax: rule?.runtimeMax ?? '',
+          certifications: rule?.certifications,
+          originCountries: rule?.originCountries,
+          networks: rule?.networks,
+          studios: rule?.studios,
+          is4k: rule?.is4k ?? '',
+          isAnime: rule?.isAnime ?? '',
           profileId: rule?.profileId,
           rootFolder: rule?.rootFolder,
           tags: rule?.tags,
+          stopProcessing: rule?.stopProcessing ?? false,
         }}
         onSubmit={async (values) => {
           try {
@@ -168,11 +219,22 @@ const OverrideRuleModal = ({
               genre: values.genre || null,
               language: values.language || null,
               keywords: values.keywords || null,
+              yearFrom: toNumberOrNull(values.yearFrom),
+              yearTo: toNumberOrNull(values.yearTo),
+              runtimeMin: toNumberOrNull(values.runtimeMin),
+              runtimeMax: toNumberOrNull(values.runtimeMax),
+              certifications: values.certifications || null,
+              originCountries: values.originCountries || null,
+              networks: values.sonarrServiceId ? values.networks || null : null,
+              studios: values.studios || null,
+              is4k: toBooleanOrNull(values.is4k),
+              isAnime: toBooleanOrNull(values.isAnime),
               profileId: Number(values.profileId) || null,
               rootFolder: values.rootFolder || null,
               tags: values.tags || null,
               radarrServiceId: values.radarrServiceId,
               sonarrServiceId: values.sonarrServiceId,
+              stopProcessing: values.stopProcessing,
             };
             if (!rule) {
               await axios.post('/api/v1/overrideRule', submission);
@@ -219,7 +281,17 @@ const OverrideRuleModal = ({
                 (!values.users &&
                   !values.genre &&
                   !values.language &&
-                  !values.keywords) ||
+                  !values.keywords &&
+                  values.yearFrom === '' &&
+                  values.yearTo === '' &&
+                  values.runtimeMin === '' &&
+                  values.runtimeMax === '' &&
+                  !values.certifications &&
+                  !values.originCountries &&
+                  !values.networks &&
+                  !values.studios &&
+                  values.is4k === '' &&
+                  values.isAnime === '') ||
                 (!values.rootFolder && !values.profileId && !values.tags)
               }
               onOk={() => handleSubmit()}
@@ -403,6 +475,207 @@ const OverrideRuleModal = ({
                       )}
                   </div>
                 </div>
+                <div className="form-row">
+                  <label htmlFor="yearFrom" className="text-label">
+                    {intl.formatMessage(messages.releaseYear)}
+                  </label>
+                  <div className="form-input-area">
+                    <div className="flex items-center gap-2">
+                      <Field
+                        type="number"
+                        id="yearFrom"
+                        name="yearFrom"
+                        className="short"
+                        placeholder={intl.formatMessage(messages.from)}
+                        disabled={!isValidated || isTesting}
+                      />
+                      <Field
+                        type="number"
+                        id="yearTo"
+                        name="yearTo"
+                        className="short"
+                        placeholder={intl.formatMessage(messages.to)}
+                        disabled={!isValidated || isTesting}
+                      />
+                    </div>
+                  </div>
+                </div>
+                <div className="form-row">
+                  <label htmlFor="runtimeMin" className="text-label">
+                    {intl.formatMessage(messages.runtime)}
+                    <span className="label-tip">
+                      {intl.formatMessage(messages.runtimeTip)}
+                    </span>
+                  </label>
+                  <div className="form-input-area">
+                    <div className="flex items-center gap-2">
+                      <Field
+                        type="number"
+                        id="runtimeMin"
+                        name="runtimeMin"
+                        className="short"
+                        placeholder={intl.formatMessage(messages.from)}
+                        disabled={!isValidated || isTesting}
+                      />
+                      <Field
+                        type="number"
+                        id="runtimeMax"
+                        name="runtimeMax"
+                        className="short"
+                        placeholder={intl.formatMessage(messages.to)}
+                        disabled={!isValidated || isTesting}
+                      />
+                    </div>
+                  </div>
+                </div>
+                <div className="form-row">
+                  <label htmlFor="certifications" className="text-label">
+                    {intl.formatMessage(messages.certifications)}
+                    <span className="label-tip">
+                      {intl.formatMessage(messages.certificationsTip)}
+                    </span>
+                  </label>
+                  <div className="form-input-area">
+                    <div className="form-input-field">
+                      <Field
+                        type="text"
+                        id="certifications"
+                        name="certifications"
+                        disabled={!isValidated || isTesting}
+                      />
+                    </div>
+                  </div>
+                </div>
+                <div className="form-row">
+                  <label htmlFor="originCountries" className="text-label">
+                    {intl.formatMessage(messages.originCountries)}
+                  </label>
+                  <div className="form-input-area">
+                    <Select<CountryOptionType, true>
+                      inputId="originCountries"
+                      options={(regions ?? []).map((region) => ({
+                        value: region.iso_3166_1,
+                        label:
+                          intl.formatDisplayName(region.iso_3166_1, {
+                            type: 'region',
+                            fallback: 'none',
+                          }) ?? region.english_name,
+                      }))}
+                      isMulti
+                      isDisabled={!isValidated || isTesting}
+                      placeholder={intl.formatMessage(messages.selectCountries)}
+                      className="react-select-container"
+                      classNamePrefix="react-select"
+                      value={(values.originCountries?.split(',') ?? [])
+                        .filter((country) => country)
+                        .map((country) => ({
+                          value: country,
+                          label:
+                            intl.formatDisplayName(country, {
+                              type: 'region',
+                              fallback: 'none',
+                            }) ?? country,
+                        }))}
+                      onChange={(value) => {
+                        setFieldValue(
+                          'originCountries',
+                          value.map((option) => option.value).join(',')
+                        );
+                      }}
+                    />
+                  </div>
+                </div>
+                {values.sonarrServiceId !== null &&
+                  values.sonarrServiceId !== undefined && (
+                    <div className="form-row">
+                      <label htmlFor="networks" className="text-label">
+                        {intl.formatMessage(messages.networks)}
+                        <span className="label-tip">
+                          {intl.formatMessage(messages.networksTip)}
+                        </span>
+                      </label>
+                      <div className="form-input-area">
+                        <div className="form-input-field">
+                          <Field
+                            type="text"
+                            id="networks"
+                            name="networks"
+                            disabled={!isValidated || isTesting}
+                          />
+                        </div>
+                      </div>
+                    </div>
+                  )}
+                <div className="form-row">
+                  <label htmlFor="studios" className="text-label">
+                    {intl.formatMessage(messages.studios)}
+                  </label>
+                  <div className="form-input-area">
+                    <div className="form-input-field">
+                      <CompanySelector
+                        defaultValue={values.studios}
+                        isMulti
+                        isDisabled={!isValidated || isTesting}
+                        onChange={(value) => {
+                          setFieldValue(
+                            'studios',
+                            value?.map((v) => v.value).join(',')
+                          );
+                        }}
+                      />
+                    </div>
+                  </div>
+                </div>
+                <div className="form-row">
+                  <label htmlFor="is4k" className="text-label">
+                    {intl.formatMessage(messages.is4k)}
+                  </label>
+                  <div className="form-input-area">
+                    <div className="form-input-field">
+                      <Field
+                        as="select"
+                        id="is4k"
+                        name="is4k"
+                        disabled={!isValidated || isTesting}
+                      >
+                        <option value="">
+                          {intl.formatMessage(messages.any)}
+                        </option>
+                        <option value="true">
+                          {intl.formatMessage(messages.only4k)}
+                        </option>
+                        <option value="false">
+                          {intl.formatMessage(messages.no4k)}
+                        </option>
+                      </Field>
+                    </div>
+                  </div>
+                </div>
+                <div className="form-row">
+                  <label htmlFor="isAnime" className="text-label">
+                    {intl.formatMessage(messages.isAnime)}
+                  </label>
+                  <div className="form-input-area">
+                    <div className="form-input-field">
+                      <Field
+                        as="select"
+                        id="isAnime"
+                        name="isAnime"
+                        disabled={!isValidated || isTesting}
+                      >
+                        <option value="">
+                          {intl.formatMessage(messages.any)}
+                        </option>
+                        <option value="true">
+                          {intl.formatMessage(messages.onlyAnime)}
+                        </option>
+                        <option value="false">
+                          {intl.formatMessage(messages.noAnime)}
+                        </option>
+                      </Field>
+                    </div>
+                  </div>
+                </div>
                 <h3 className="mt-4 text-lg font-bold leading-8 text-gray-100">
                   {intl.formatMessage(messages.settings)}
                 </h3>
@@ -523,6 +796,22 @@ const OverrideRuleModal = ({
                     />
                   </div>
                 </div>
+                <div className="form-row">
+                  <label htmlFor="stopProcessing" className="checkbox-label">
+                    {intl.formatMessage(messages.stopProcessing)}
+                    <span className="label-tip">
+                      {intl.formatMessage(messages.stopProcessingTip)}
+                    </span>
+                  </label>
+                  <div className="form-input-area">
+                    <Field
+                      type="checkbox"
+                      id="stopProcessing"
+                      name="stopProcessing"
+                      disabled={!isValidated || isTesting}
+                    />
+                  </div>
+                </div>
               </div>
             </Modal>
           );
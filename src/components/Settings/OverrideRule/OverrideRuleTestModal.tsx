@@ -0,0 +1,239 @@
+import Modal from '@app/components/Common/Modal';
+import { UserSelector } from '@app/components/Selector';
+import globalMessages from '@app/i18n/globalMessages';
+import defineMessages from '@app/utils/defineMessages';
+import { Transition } from '@headlessui/react';
+import { MediaType } from '@server/constants/media';
+import type { OverrideRuleTestResponse } from '@server/interfaces/api/overrideRuleInterfaces';
+import axios from 'axios';
+import { Field, Formik } from 'formik';
+import { useState } from 'react';
+import { useIntl } from 'react-intl';
+import * as Yup from 'yup';
+
+const messages = defineMessages('components.Settings.OverrideRuleTestModal', {
+  testrules: 'Test Override Rules',
+  testrulesDescription:
+    'Check which override rules would be applied to a request, without submitting one.',
+  test: 'Test',
+  testing: 'Testing…',
+  tmdbId: 'TMDB ID',
+  mediaType: 'Media Type',
+  movie: 'Movie',
+  series: 'Series',
+  is4k: '4K Request',
+  user: 'Requested By',
+  userTip: 'Defaults to your own account',
+  results: 'Results',
+  matchedRules: 'Matched Rules',
+  ruleNumber: 'Rule #{id}',
+  nomatches: 'No override rules match this request.',
+  qualityprofile: 'Quality Profile',
+  rootfolder: 'Root Folder',
+  tags: 'Tags',
+  validationTmdbId: 'You must provide a valid TMDB ID',
+  testFailed: 'Unable to test the override rules.',
+});
+
+interface OverrideRuleTestModalProps {
+  onClose: () => void;
+}
+
+const OverrideRuleTestModal = ({ onClose }: OverrideRuleTestModalProps) => {
+  const intl = useIntl();
+  const [result, setResult] = useState<OverrideRuleTestResponse | null>(null);
+  const [testFailed, setTestFailed] = useState(false);
+
+  const OverrideRuleTestSchema = Yup.object().shape({
+    tmdbId: Yup.number()
+      .typeError(intl.formatMessage(messages.validationTmdbId))
+      .integer(intl.formatMessage(messages.validationTmdbId))
+      .positive(intl.formatMessage(messages.validationTmdbId))
+      .required(intl.formatMessage(messages.validationTmdbId)),
+  });
+
+  return (
+    <Transition
+      as="div"
+      appear
+      show
+      enter="transition-opacity ease-in-out duration-300"
+      enterFrom="opacity-0"
+      enterTo="opacity-100"
+      leave="transition-opacity ease-in-out duration-300"
+      leaveFrom="opacity-100"
+      leaveTo="opacity-0"
+    >
+      <Formik
+        initialValues={{
+          tmdbId: '',
+          mediaType: MediaType.MOVIE,
+          is4k: false,
+          userId: undefined as number | undefined,
+        }}
+        validationSchema={OverrideRuleTestSchema}
+        onSubmit={async (values) => {
+          setTestFailed(false);
+
+          try {
+            const response = await axios.post<OverrideRuleTestResponse>(
+              '/api/v1/overrideRule/test',
+              {
+                tmdbId: Number(values.tmdbId),
+                mediaType: values.mediaType,
+                is4k: values.is4k,
+                userId: values.userId,
+              }
+            );
+            setResult(response.data);
+          } catch (e) {
+            setResult(null);
+            setTestFailed(true);
+          }
+        }}
+      >
+        {({ errors, touched, handleSubmit, setFieldValue, isSubmitting }) => {
+          return (
+            <Modal
+              onCancel={onClose}
+              cancelText={intl.formatMessage(globalMessages.close)}
+              okButtonType="primary"
+              okText={
+                isSubmitting
+                  ? intl.formatMessage(messages.testing)
+                  : intl.formatMessage(messages.test)
+              }
+              okDisabled={isSubmitting}
+              onOk={() => handleSubmit()}
+              title={intl.formatMessage(messages.testrules)}
+            >
+              <p className="description">
+                {intl.formatMessage(messages.testrulesDescription)}
+              </p>
+              <div className="form-row">
+                <label htmlFor="tmdbId" className="text-label">
+                  {intl.formatMessage(messages.tmdbId)}
+                  <span className="label-required">*</span>
+                </label>
+                <div className="form-input-area">
+                  <div className="form-input-field">
+                    <Field
+                      type="text"
+                      inputMode="numeric"
+                      id="tmdbId"
+                      name="tmdbId"
+                      className="short"
+                    />
+                  </div>
+                  {errors.tmdbId && touched.tmdbId && (
+                    <div className="error">{errors.tmdbId}</div>
+                  )}
+                </div>
+              </div>
+              <div className="form-row">
+                <label htmlFor="mediaType" className="text-label">
+                  {intl.formatMessage(messages.mediaType)}
+                </label>
+                <div className="form-input-area">
+                  <div className="form-input-field">
+                    <Field as="select" id="mediaType" name="mediaType">
+                      <option value={MediaType.MOVIE}>
+                        {intl.formatMessage(messages.movie)}
+                      </option>
+                      <option value={MediaType.TV}>
+                        {intl.formatMessage(messages.series)}
+                      </option>
+                    </Field>
+                  </div>
+                </div>
+              </div>
+              <div className="form-row">
+                <label htmlFor="is4k" className="checkbox-label">
+                  {intl.formatMessage(messages.is4k)}
+                </label>
+                <div className="form-input-area">
+                  <Field type="checkbox" id="is4k" name="is4k" />
+                </div>
+              </div>
+              <div className="form-row">
+                <label htmlFor="userId" className="text-label">
+                  {intl.formatMessage(messages.user)}
+                  <span className="label-tip">
+                    {intl.formatMessage(messages.userTip)}
+                  </span>
+                </label>
+                <div className="form-input-area">
+                  <div className="form-input-field">
+                    <UserSelector
+                      onChange={(value) => {
+                        setFieldValue('userId', value?.value);
+                      }}
+                    />
+                  </div>
+                </div>
+              </div>
+              {testFailed && (
+                <div className="error">
+                  {intl.formatMessage(messages.testFailed)}
+                </div>
+              )}
+              {result && (
+                <div className="mt-6">
+                  <h3 className="text-lg font-bold leading-8 text-gray-100">
+                    {intl.formatMessage(messages.results)}
+                  </h3>
+                  {!result.rules.length ? (
+                    <p className="text-sm text-gray-400">
+                      {intl.formatMessage(messages.nomatches)}
+                    </p>
+                  ) : (
+                    <div className="space-y-1 text-sm leading-5 text-gray-300">
+                      <p>
+                        <span className="mr-2 font-bold">
+                          {intl.formatMessage(messages.matchedRules)}
+                        </span>
+                        {result.rules
+                          .map((rule) =>
+                            intl.formatMessage(messages.ruleNumber, {
+                              id: rule.id,
+                            })
+                          )
+                          .join(', ')}
+                      </p>
+                      {result.profileId && (
+                        <p>
+                          <span className="mr-2 font-bold">
+                            {intl.formatMessage(messages.qualityprofile)}
+                          </span>
+                          {result.profileId}
+                        </p>
+                      )}
+                      {result.rootFolder && (
+                        <p>
+                          <span className="mr-2 font-bold">
+                            {intl.formatMessage(messages.rootfolder)}
+                          </span>
+                          {result.rootFolder}
+                        </p>
+                      )}
+                      {result.tags && (
+                        <p>
+                          <span className="mr-2 font-bold">
+                            {intl.formatMessage(messages.tags)}
+                          </span>
+                          {result.tags.join(', ')}
+                        </p>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
+            </Modal>
+          );
+        }}
+      </Formik>
+    </Transition>
+  );
+};
+
+export default OverrideRuleTestModal;
@@ -1,7 +1,12 @@
 import type { DVRTestResponse } from '@app/components/Settings/SettingsServices';
 import globalMessages from '@app/i18n/globalMessages';
 import defineMessages from '@app/utils/defineMessages';
-import { PencilIcon, TrashIcon } from '@heroicons/react/24/solid';
+import {
+  ChevronDownIcon,
+  ChevronUpIcon,
+  PencilIcon,
+  TrashIcon,
+} from '@heroicons/react/24/solid';
 import type { TmdbGenre } from '@server/api/themoviedb/interfaces';
 import type OverrideRule from '@server/entity/OverrideRule';
 import type { User } from '@server/entity/User';
@@ -11,7 +16,7 @@ import type {
   RadarrSettings,
   SonarrSettings,
 } from '@server/lib/settings';
-import type { Keyword } from '@server/models/common';
+import type { Keyword, ProductionCompany } from '@server/models/common';
 import axios from 'axios';
 import { useCallback, useEffect, useState } from 'react';
 import { useIntl } from 'react-intl';
@@ -25,10 +30,27 @@ const messages = defineMessages('components.Settings.OverrideRuleTile', {
   genre: 'Genre',
   language: 'Language',
   keywords: 'Keywords',
+  releaseYear: 'Release Year',
+  runtime: 'Runtime',
+  runtimeMinutes: '{minutes} min',
+  certifications: 'Certifications',
+  originCountries: 'Origin Countries',
+  networks: 'Networks',
+  studios: 'Studios',
+  is4k: '4K',
+  isAnime: 'Anime',
+  yes: 'Yes',
+  no: 'No',
+  stopProcessing: 'Stops processing further rules',
   conditions: 'Conditions',
   settings: 'Settings',
+  moveUp: 'Move Up',
+  moveDown: 'Move Down',
 });
 
+const formatRange = (from?: number | null, to?: number | null) =>
+  `${from ?? '…'} – ${to ?? '…'}`;
+
 interface OverrideRuleTilesProps {
   rules: OverrideRule[];
   setOverrideRuleModal: ({
@@ -53,6 +75,7 @@ const OverrideRuleTiles = ({
   const intl = useIntl();
   const [users, setUsers] = useState<User[] | null>(null);
   const [keywords, setKeywords] = useState<Keyword[] | null>(null);
+  const [studios, setStudios] = useState<ProductionCompany[] | null>(null);
   const { data: languages } = useSWR<Language[]>('/api/v1/languages');
   const { data: genres } = useSWR<TmdbGenre[]>('/api/v1/genres/movie');
   const [testResponses, setTestResponses] = useState<
@@ -123,6 +146,19 @@ const OverrideRuleTiles = ({
         (keyword): keyword is Keyword => keyword !== null
       );
       setKeywords(validKeywords);
+      const studios = await Promise.all(
+        rules
+          .map((rule) => rule.studios?.split(','))
+          .flat()
+          .filter((studioId) => studioId)
+          .map(async (studioId) => {
+            const response = await axios.get<ProductionCompany>(
+              `/api/v1/studio/${studioId}`
+            );
+            return response.data;
+          })
+      );
+      setStudios(studios);
       const allUsersFromRules = rules
         .map((rule) => rule.users)
         .filter((users) => users)
@@ -138,15 +174,45 @@ const OverrideRuleTiles = ({
     })();
   }, [rules, users]);
 
+  const moveRule = async (index: number, offset: number) => {
+    const ruleIds = rules.map((rule) => rule.id);
+    [ruleIds[index], ruleIds[index + offset]] = [
+      ruleIds[index + offset],
+      ruleIds[index],
+    ];
+    await axios.post('/api/v1/overrideRule/order', { ruleIds });
+    revalidate();
+  };
+
   return (
     <>
-      {rules.map((rule) => (
+      {rules.map((rule, index) => (
         <li className="flex h-full flex-col rounded-lg bg-gray-800 text-left shadow ring-1 ring-gray-500">
           <div className="flex w-full flex-1 items-center justify-between space-x-6 p-6">
             <div className="flex-1 truncate">
-              <span className="text-lg">
-                {intl.formatMessage(messages.conditions)}
-              </span>
+              <div className="flex items-center justify-between">
+                <span className="text-lg">
+                  {intl.formatMessage(messages.conditions)}
+                </span>
+                <div className="flex gap-1">
+                  <button
+                    onClick={() => moveRule(index, -1)}
+                    disabled={index === 0}
+                    title={intl.formatMessage(messages.moveUp)}
+                    className="text-gray-300 transition duration-150 ease-in-out hover:text-white disabled:cursor-not-allowed disabled:opacity-50"
+                  >
+                    <ChevronUpIcon className="h-5 w-5" />
+                  </button>
+                  <button
+                    onClick={() => moveRule(index, 1)}
+                    disabled={index === rules.length - 1}
+                    title={intl.formatMessage(messages.moveDown)}
+                    className="text-gray-300 transition duration-150 ease-in-out hover:text-white disabled:cursor-not-allowed disabled:opacity-50"
+                  >
+                    <ChevronDownIcon className="h-5 w-5" />
+                  </button>
+                </div>
+              </div>
               {rule.users && (
                 <p className="truncate text-sm leading-5 text-gray-300">
                   <span className="mr-2 font-bold">
@@ -224,6 +290,99 @@ const OverrideRuleTiles = ({
                   </div>
                 </p>
               )}
+              {(rule.yearFrom !== null || rule.yearTo !== null) && (
+                <p className="truncate text-sm leading-5 text-gray-300">
+                  <span className="mr-2 font-bold">
+                    {intl.formatMessage(messages.releaseYear)}
+                  </span>
+                  {formatRange(rule.yearFrom, rule.yearTo)}
+                </p>
+              )}
+              {(rule.runtimeMin !== null || rule.runtimeMax !== null) && (
+                <p className="truncate text-sm leading-5 text-gray-300">
+                  <span className="mr-2 font-bold">
+                    {intl.formatMessage(messages.runtime)}
+                  </span>
+                  {intl.formatMessage(messages.runtimeMinutes, {
+                    minutes: formatRange(rule.runtimeMin, rule.runtimeMax),
+                  })}
+                </p>
+              )}
+              {rule.certifications && (
+                <p className="truncate text-sm leading-5 text-gray-300">
+                  <span className="mr-2 font-bold">
+                    {intl.formatMessage(messages.certifications)}
+                  </span>
+                  <div className="inline-flex gap-2">
+                    {rule.certifications.split(',').map((certification) => (
+                      <span>{certification.trim()}</span>
+                    ))}
+                  </div>
+                </p>
+              )}
+              {rule.originCountries && (
+                <p className="truncate text-sm leading-5 text-gray-300">
+                  <span className="mr-2 font-bold">
+                    {intl.formatMessage(messages.originCountries)}
+                  </span>
+                  <div className="inline-flex gap-2">
+                    {rule.originCountries.split(',').map((country) => (
+                      <span>
+                        {intl.formatDisplayName(country, {
+                          type: 'region',
+                          fallback: 'none',
+                        }) ?? country}
+                      </span>
+                    ))}
+                  </div>
+                </p>
+              )}
+              {rule.networks && (
+                <p className="truncate text-sm leading-5 text-gray-300">
+                  <span className="mr-2 font-bold">
+                    {intl.formatMessage(messages.networks)}
+                  </span>
+                  <div className="inline-flex gap-2">
+                    {rule.networks.split(',').map((networkId) => (
+                      <span>{networkId}</span>
+                    ))}
+                  </div>
+                </p>
+              )}
+              {rule.studios && (
+                <p className="truncate text-sm leading-5 text-gray-300">
+                  <span className="mr-2 font-bold">
+                    {intl.formatMessage(messages.studios)}
+                  </span>
+                  <div className="inline-flex gap-2">
+                    {rule.studios.split(',').map((studioId) => (
+                      <span>
+                        {studios?.find(
+                          (studio) => studio.id === Number(studioId)
+                        )?.name || studioId}
+                      </span>
+                    ))}
+                  </div>
+                </p>
+              )}
+              {rule.is4k !== null && (
+                <p className="truncate text-sm leading-5 text-gray-300">
+                  <span className="mr-2 font-bold">
+                    {intl.formatMessage(messages.is4k)}
+                  </span>
+                  {intl.formatMessage(rule.is4k ? messages.yes : messages.no)}
+                </p>
+              )}
+              {rule.isAnime !== null && (
+                <p className="truncate text-sm leading-5 text-gray-300">
+                  <span className="mr-2 font-bold">
+                    {intl.formatMessage(messages.isAnime)}
+                  </span>
+                  {intl.formatMessage(
+                    rule.isAnime ? messages.yes : messages.no
+                  )}
+                </p>
+              )}
               <span className="text-lg">
                 {intl.formatMessage(messages.settings)}
               </span>
@@ -274,6 +433,13 @@ const OverrideRuleTiles = ({
                   </div>
                 </p>
               )}
+              {rule.stopProcessing && (
+                <p className="truncate text-sm leading-5 text-gray-300">
+                  <span className="font-bold">
+                    {intl.formatMessage(messages.stopProcessing)}
+                  </span>
+                </p>
+              )}
             </div>
           </div>
           <div className="border-t border-gray-500">
@@ -0,0 +1,317 @@
+import Modal from '@app/components/Common/Modal';
+import globalMessages from '@app/i18n/globalMessages';
+import defineMessages from '@app/utils/defineMessages';
+import { Transition } from '@headlessui/react';
+import type ApprovalRule from '@server/entity/ApprovalRule';
+import axios from 'axios';
+import { Field, Formik } from 'formik';
+import { useIntl } from 'react-intl';
+import { useToasts } from 'react-toast-notifications';
+import * as Yup from 'yup';
+
+const messages = defineMessages('components.Settings.ApprovalRuleModal', {
+  createrule: 'New Approval Rule',
+  editrule: 'Edit Approval Rule',
+  create: 'Create Rule',
+  name: 'Rule Name',
+  conditions: 'Conditions',
+  conditionsDescription:
+    'Specifies which requests the rule applies to. A rule applies when every condition matches.',
+  requirements: 'Requirements',
+  requirementsDescription:
+    'When several rules apply to a request, all of their requirements must be met before it is approved.',
+  mediaType: 'Media Type',
+  anyMediaType: 'Movies and Series',
+  movies: 'Movies',
+  series: 'Series',
+  quality: 'Quality',
+  anyQuality: 'Standard and 4K',
+  standard: 'Standard',
+  fourK: '4K',
+  minSeasons: 'Minimum Seasons',
+  minSeasonsTip:
+    'Only apply to series requests with at least this many seasons',
+  requiredApprovals: 'Required Approvals',
+  requiredApprovalsTip:
+    'Number of different users, other than the requester, that must approve matching requests',
+  requireAdmin: 'Require Admin Approval',
+  requireAdminTip: 'Only count approvals given by administrators',
+  expiryDays: 'Expire After (Days)',
+  expiryDaysTip:
+    'Decline matching requests that are still pending after this many days',
+  validationName: 'You must provide a name',
+  validationPositive: 'You must provide a number greater than zero',
+  ruleCreated: 'Approval rule created successfully!',
+  ruleUpdated: 'Approval rule updated successfully!',
+  ruleFailed: 'Something went wrong while saving the approval rule.',
+});
+
+interface ApprovalRuleModalProps {
+  rule: ApprovalRule | null;
+  onClose: () => void;
+}
+
+const ApprovalRuleModal = ({ onClose, rule }: ApprovalRuleModalProps) => {
+  const intl = useIntl();
+  const { addToast } = useToasts();
+
+  const ApprovalRuleSchema = Yup.object().shape({
+    name: Yup.string().required(intl.formatMessage(messages.validationName)),
+    minSeasons: Yup.number()
+      .typeError(intl.formatMessage(messages.validationPositive))
+      .integer(intl.formatMessage(messages.validationPositive))
+      .min(1, intl.formatMessage(messages.validationPositive)),
+    requiredApprovals: Yup.number()
+      .typeError(intl.formatMessage(messages.validationPositive))
+      .integer(intl.formatMessage(messages.validationPositive))
+      .min(1, intl.formatMessage(messages.validationPositive))
+      .required(intl.formatMessage(messages.validationPositive)),
+    expiryDays: Yup.number()
+      .typeError(intl.formatMessage(messages.validationPositive))
+      .integer(intl.formatMessage(messages.validationPositive))
+      .min(1, intl.formatMessage(messages.validationPositive)),
+  });
+
+  return (
+    <Transition
+      as="div"
+      appear
+      show
+      enter="transition-opacity ease-in-out duration-300"
+      enterFrom="opacity-0"
+      enterTo="opacity-100"
+      leave="transition-opacity ease-in-out duration-300"
+      leaveFrom="opacity-100"
+      leaveTo="opacity-0"
+    >
+      <Formik
+        initialValues={{
+          name: rule?.name ?? '',
+          mediaType: rule?.mediaType ?? '',
+          is4k:
+            rule?.is4k === null || rule?.is4k === undefined
+              ? ''
+              : String(rule.is4k),
+          minSeasons: rule?.minSeasons ?? '',
+          requiredApprovals: rule?.requiredApprovals ?? 1,
+          requireAdmin: rule?.requireAdmin ?? false,
+          expiryDays: rule?.expiryDays ?? '',
+        }}
+        validationSchema={ApprovalRuleSchema}
+        onSubmit={async (values) => {
+          try {
+            const submission = {
+              name: values.name,
+              mediaType: values.mediaType || undefined,
+              is4k: values.is4k ? values.is4k === 'true' : undefined,
+              minSeasons:
+                values.mediaType !== 'movie'
+                  ? Number(values.minSeasons) || undefined
+                  : undefined,
+              requiredApprovals: Number(values.requiredApprovals),
+              requireAdmin: values.requireAdmin,
+              expiryDays: Number(values.expiryDays) || undefined,
+            };
+            if (!rule) {
+              await axios.post('/api/v1/approvalRule', submission);
+              addToast(intl.formatMessage(messages.ruleCreated), {
+                appearance: 'success',
+                autoDismiss: true,
+              });
+            } else {
+              await axios.put(`/api/v1/approvalRule/${rule.id}`, submission);
+              addToast(intl.formatMessage(messages.ruleUpdated), {
+                appearance: 'success',
+                autoDismiss: true,
+              });
+            }
+            onClose();
+          } catch (e) {
+            addToast(intl.formatMessage(messages.ruleFailed), {
+              appearance: 'error',
+              autoDismiss: true,
+            });
+          }
+        }}
+      >
+        {({ errors, touched, values, handleSubmit, isSubmitting, isValid }) => {
+          return (
+            <Modal
+              onCancel={onClose}
+              okButtonType="primary"
+              okText={
+                isSubmitting
+                  ? intl.formatMessage(globalMessages.saving)
+                  : rule
+                  ? intl.formatMessage(globalMessages.save)
+                  : intl.formatMessage(messages.create)
+              }
+              okDisabled={isSubmitting || !isValid}
+              onOk={() => handleSubmit()}
+              title={
+                !rule
+                  ? intl.formatMessage(messages.createrule)
+                  : intl.formatMessage(messages.editrule)
+              }
+            >
+              <div className="mb-6">
+                <div className="form-row">
+                  <label htmlFor="name" className="text-label">
+                    {intl.formatMessage(messages.name)}
+                    <span className="label-required">*</span>
+                  </label>
+                  <div className="form-input-area">
+                    <div className="form-input-field">
+                      <Field id="name" name="name" type="text" />
+                    </div>
+                    {errors.name &&
+                      touched.name &&
+                      typeof errors.name === 'string' && (
+                        <div className="error">{errors.name}</div>
+                      )}
+                  </div>
+                </div>
+                <h3 className="text-lg font-bold leading-8 text-gray-100">
+                  {intl.formatMessage(messages.conditions)}
+                </h3>
+                <p className="description">
+                  {intl.formatMessage(messages.conditionsDescription)}
+                </p>
+                <div className="form-row">
+                  <label htmlFor="mediaType" className="text-label">
+                    {intl.formatMessage(messages.mediaType)}
+                  </label>
+                  <div className="form-input-area">
+                    <div className="form-input-field">
+                      <Field as="select" id="mediaType" name="mediaType">
+                        <option value="">
+                          {intl.formatMessage(messages.anyMediaType)}
+                        </option>
+                        <option value="movie">
+                          {intl.formatMessage(messages.movies)}
+                        </option>
+                        <option value="tv">
+                          {intl.formatMessage(messages.series)}
+                        </option>
+                      </Field>
+                    </div>
+                  </div>
+                </div>
+                <div className="form-row">
+                  <label htmlFor="is4k" className="text-label">
+                    {intl.formatMessage(messages.quality)}
+                  </label>
+                  <div className="form-input-area">
+                    <div className="form-input-field">
+                      <Field as="select" id="is4k" name="is4k">
+                        <option value="">
+                          {intl.formatMessage(messages.anyQuality)}
+                        </option>
+                        <option value="false">
+                          {intl.formatMessage(messages.standard)}
+                        </option>
+                        <option value="true">
+                          {intl.formatMessage(messages.fourK)}
+                        </option>
+                      </Field>
+                    </div>
+                  </div>
+                </div>
+                <div className="form-row">
+                  <label htmlFor="minSeasons" className="text-label">
+                    {intl.formatMessage(messages.minSeasons)}
+                    <span className="label-tip">
+                      {intl.formatMessage(messages.minSeasonsTip)}
+                    </span>
+                  </label>
+                  <div className="form-input-area">
+                    <Field
+                      type="text"
+                      inputMode="numeric"
+                      id="minSeasons"
+                      name="minSeasons"
+                      className="short"
+                      disabled={values.mediaType === 'movie'}
+                    />
+                    {errors.minSeasons &&
+                      touched.minSeasons &&
+                      typeof errors.minSeasons === 'string' && (
+                        <div className="error">{errors.minSeasons}</div>
+                      )}
+                  </div>
+                </div>
+                <h3 className="mt-4 text-lg font-bold leading-8 text-gray-100">
+                  {intl.formatMessage(messages.requirements)}
+                </h3>
+                <p className="description">
+                  {intl.formatMessage(messages.requirementsDescription)}
+                </p>
+                <div className="form-row">
+                  <label htmlFor="requiredApprovals" className="text-label">
+                    {intl.formatMessage(messages.requiredApprovals)}
+                    <span className="label-tip">
+                      {intl.formatMessage(messages.requiredApprovalsTip)}
+                    </span>
+                  </label>
+                  <div className="form-input-area">
+                    <Field
+                      type="text"
+                      inputMode="numeric"
+                      id="requiredApprovals"
+                      name="requiredApprovals"
+                      className="short"
+                    />
+                    {errors.requiredApprovals &&
+                      touched.requiredApprovals &&
+                      typeof errors.requiredApprovals === 'string' && (
+                        <div className="error">{errors.requiredApprovals}</div>
+                      )}
+                  </div>
+                </div>
+                <div className="form-row">
+                  <label htmlFor="requireAdmin" className="checkbox-label">
+                    {intl.formatMessage(messages.requireAdmin)}
+                    <span className="label-tip">
+                      {intl.formatMessage(messages.requireAdminTip)}
+                    </span>
+                  </label>
+                  <div className="form-input-area">
+                    <Field
+                      type="checkbox"
+                      id="requireAdmin"
+                      name="requireAdmin"
+                    />
+                  </div>
+                </div>
+                <div className="form-row">
+                  <label htmlFor="expiryDays" className="text-label">
+                    {intl.formatMessage(messages.expiryDays)}
+                    <span className="label-tip">
+                      {intl.formatMessage(messages.expiryDaysTip)}
+                    </span>
+                  </label>
+                  <div className="form-input-area">
+                    <Field
+                      type="text"
+                      inputMode="numeric"
+                      id="expiryDays"
+                      name="expiryDays"
+                      className="short"
+                    />
+                    {errors.expiryDays &&
+                      touched.expiryDays &&
+                      typeof errors.expiryDays === 'string' && (
+                        <div className="error">{errors.expiryDays}</div>
+                      )}
+                  </div>
+                </div>
+              </div>
+            </Modal>
+          );
+        }}
+      </Formik>
+    </Transition>
+  );
+};
+
+export default ApprovalRuleModal;
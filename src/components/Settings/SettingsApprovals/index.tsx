@@ -0,0 +1,206 @@
+import Button from '@app/components/Common/Button';
+import LoadingSpinner from '@app/components/Common/LoadingSpinner';
+import PageTitle from '@app/components/Common/PageTitle';
+import ApprovalRuleModal from '@app/components/Settings/SettingsApprovals/ApprovalRuleModal';
+import globalMessages from '@app/i18n/globalMessages';
+import defineMessages from '@app/utils/defineMessages';
+import { PencilIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/solid';
+import type ApprovalRule from '@server/entity/ApprovalRule';
+import type { ApprovalRuleResultsResponse } from '@server/interfaces/api/approvalRuleInterfaces';
+import axios from 'axios';
+import { useState } from 'react';
+import { useIntl } from 'react-intl';
+import useSWR from 'swr';
+
+const messages = defineMessages('components.Settings.SettingsApprovals', {
+  approvals: 'Approvals',
+  approvalRules: 'Approval Rules',
+  approvalRulesDescription:
+    'By default, a single approval from a user with the Manage Requests permission approves a pending request. Approval rules can require more approvals for some requests, restrict them to administrators, and automatically decline requests that stay pending for too long. Requests from users with an Auto-Approve permission count as the first approval.',
+  addrule: 'New Approval Rule',
+  conditions: 'Conditions',
+  requirements: 'Requirements',
+  allRequests: 'All requests',
+  mediaType: 'Media Type',
+  movies: 'Movies',
+  series: 'Series',
+  quality: 'Quality',
+  standard: 'Standard',
+  fourK: '4K',
+  minSeasons: 'Minimum Seasons',
+  approvalCount:
+    '{count, plural, one {# approval} other {# approvals}}{admin, select, true { from administrators} other {}}',
+  expiry: 'Expires After',
+  expiryDays: '{days, plural, one {# day} other {# days}}',
+});
+
+const SettingsApprovals = () => {
+  const intl = useIntl();
+  const {
+    data: rules,
+    error,
+    mutate: revalidate,
+  } = useSWR<ApprovalRuleResultsResponse>('/api/v1/approvalRule');
+  const [approvalRuleModal, setApprovalRuleModal] = useState<{
+    open: boolean;
+    rule: ApprovalRule | null;
+  }>({
+    open: false,
+    rule: null,
+  });
+
+  if (!rules && !error) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <>
+      <PageTitle
+        title={[
+          intl.formatMessage(messages.approvals),
+          intl.formatMessage(globalMessages.settings),
+        ]}
+      />
+      <div className="mb-6">
+        <h3 className="heading">
+          {intl.formatMessage(messages.approvalRules)}
+        </h3>
+        <p className="description">
+          {intl.formatMessage(messages.approvalRulesDescription)}
+        </p>
+      </div>
+      <div className="section">
+        <ul className="grid max-w-6xl grid-cols-1 gap-6 lg:grid-cols-2 xl:grid-cols-3">
+          {rules?.map((rule) => (
+            <li
+              key={`approval-rule-${rule.id}`}
+              className="flex h-full flex-col rounded-lg bg-gray-800 text-left shadow ring-1 ring-gray-500"
+            >
+              <div className="flex w-full flex-1 items-center justify-between space-x-6 p-6">
+                <div className="flex-1 truncate">
+                  <h4 className="mb-2 truncate text-lg font-semibold text-white">
+                    {rule.name}
+                  </h4>
+                  <span className="text-lg">
+                    {intl.formatMessage(messages.conditions)}
+                  </span>
+                  {!rule.mediaType &&
+                    (rule.is4k === null || rule.is4k === undefined) &&
+                    !rule.minSeasons && (
+                      <p className="truncate text-sm leading-5 text-gray-300">
+                        {intl.formatMessage(messages.allRequests)}
+                      </p>
+                    )}
+                  {rule.mediaType && (
+                    <p className="truncate text-sm leading-5 text-gray-300">
+                      <span className="mr-2 font-bold">
+                        {intl.formatMessage(messages.mediaType)}
+                      </span>
+                      {intl.formatMessage(
+                        rule.mediaType === 'movie'
+                          ? messages.movies
+                          : messages.series
+                      )}
+                    </p>
+                  )}
+                  {rule.is4k !== null && rule.is4k !== undefined && (
+                    <p className="truncate text-sm leading-5 text-gray-300">
+                      <span className="mr-2 font-bold">
+                        {intl.formatMessage(messages.quality)}
+                      </span>
+                      {intl.formatMessage(
+                        rule.is4k ? messages.fourK : messages.standard
+                      )}
+                    </p>
+                  )}
+                  {rule.minSeasons && (
+                    <p className="truncate text-sm leading-5 text-gray-300">
+                      <span className="mr-2 font-bold">
+                        {intl.formatMessage(messages.minSeasons)}
+                      </span>
+                      {rule.minSeasons}
+                    </p>
+                  )}
+                  <span className="text-lg">
+                    {intl.formatMessage(messages.requirements)}
+                  </span>
+                  <p className="truncate text-sm leading-5 text-gray-300">
+                    {intl.formatMessage(messages.approvalCount, {
+                      count: rule.requiredApprovals,
+                      admin: String(rule.requireAdmin),
+                    })}
+                  </p>
+                  {rule.expiryDays && (
+                    <p className="truncate text-sm leading-5 text-gray-300">
+                      <span className="mr-2 font-bold">
+                        {intl.formatMessage(messages.expiry)}
+                      </span>
+                      {intl.formatMessage(messages.expiryDays, {
+                        days: rule.expiryDays,
+                      })}
+                    </p>
+                  )}
+                </div>
+              </div>
+              <div className="border-t border-gray-500">
+                <div className="-mt-px flex">
+                  <div className="flex w-0 flex-1 border-r border-gray-500">
+                    <button
+                      onClick={() => setApprovalRuleModal({ open: true, rule })}
+                      className="focus:ring-blue relative -mr-px inline-flex w-0 flex-1 items-center justify-center rounded-bl-lg border border-transparent py-4 text-sm font-medium leading-5 text-gray-200 transition duration-150 ease-in-out hover:text-white focus:z-10 focus:border-gray-500 focus:outline-none"
+                    >
+                      <PencilIcon className="mr-2 h-5 w-5" />
+                      <span>{intl.formatMessage(globalMessages.edit)}</span>
+                    </button>
+                  </div>
+                  <div className="-ml-px flex w-0 flex-1">
+                    <button
+                      onClick={async () => {
+                        await axios.delete(`/api/v1/approvalRule/${rule.id}`);
+                        revalidate();
+                      }}
+                      className="focus:ring-blue relative inline-flex w-0 flex-1 items-center justify-center rounded-br-lg border border-transparent py-4 text-sm font-medium leading-5 text-gray-200 transition duration-150 ease-in-out hover:text-white focus:z-10 focus:border-gray-500 focus:outline-none"
+                    >
+                      <TrashIcon className="mr-2 h-5 w-5" />
+                      <span>{intl.formatMessage(globalMessages.delete)}</span>
+                    </button>
+                  </div>
+                </div>
+              </div>
+            </li>
+          ))}
+          <li className="min-h-[8rem] rounded-lg border-2 border-dashed border-gray-400 shadow sm:min-h-[11rem]">
+            <div className="flex h-full w-full items-center justify-center">
+              <Button
+                buttonType="ghost"
+                onClick={() =>
+                  setApprovalRuleModal({
+                    open: true,
+                    rule: null,
+                  })
+                }
+              >
+                <PlusIcon />
+                <span>{intl.formatMessage(messages.addrule)}</span>
+              </Button>
+            </div>
+          </li>
+        </ul>
+      </div>
+      {approvalRuleModal.open && (
+        <ApprovalRuleModal
+          rule={approvalRuleModal.rule}
+          onClose={() => {
+            setApprovalRuleModal({
+              open: false,
+              rule: null,
+            });
+            revalidate();
+          }}
+        />
+      )}
+    </>
+  );
+};
+
+export default SettingsApprovals;
@@ -0,0 +1,192 @@
+import Alert from '@app/components/Common/Alert';
+import Button from '@app/components/Common/Button';
+import ConfirmButton from '@app/components/Common/ConfirmButton';
+import Table from '@app/components/Common/Table';
+import globalMessages from '@app/i18n/globalMessages';
+import defineMessages from '@app/utils/defineMessages';
+import { CircleStackIcon } from '@heroicons/react/24/outline';
+import type { DatabaseTransferStatus } from '@server/lib/databaseTransfer';
+import axios from 'axios';
+import { useState } from 'react';
+import { useIntl } from 'react-intl';
+import { useToasts } from 'react-toast-notifications';
+import useSWR from 'swr';
+
+const messages = defineMessages('components.Settings.SettingsBackup', {
+  databaseTransfer: 'Database Transfer',
+  databaseTransferDescription:
+    'Copy all data from the current {sourceType} database to a {targetType} database configured with the DB_ environment variables. The current database is left unchanged.',
+  overwrite: 'Overwrite Existing Data',
+  overwriteTip:
+    'Replace any data already present in the {targetType} database instead of stopping the transfer',
+  startTransfer: 'Copy to {targetType}',
+  transferring: 'Copying {table}… ({progress} of {total})',
+  transferSuccess:
+    'All data was copied to the {targetType} database. Set DB_TYPE to "{targetType}" and restart Jellyseerr to use it.',
+  transferFailure: 'The database transfer failed: {error}',
+  toastTransferFailure:
+    'Something went wrong while starting the database transfer.',
+  table: 'Table',
+  sourceRows: '{sourceType} Rows',
+  targetRows: '{targetType} Rows',
+});
+
+const databaseNames = {
+  sqlite: 'SQLite',
+  postgres: 'PostgreSQL',
+};
+
+const DatabaseTransfer = () => {
+  const intl = useIntl();
+  const { addToast } = useToasts();
+  const [overwrite, setOverwrite] = useState(false);
+  const { data, mutate: revalidate } = useSWR<DatabaseTransferStatus>(
+    '/api/v1/settings/database/transfer',
+    {
+      refreshInterval: (latestData) => (latestData?.running ? 1000 : 0),
+    }
+  );
+
+  if (!data) {
+    return null;
+  }
+
+  const sourceType = databaseNames[data.sourceType];
+  const targetType = databaseNames[data.targetType];
+
+  const startTransfer = async () => {
+    try {
+      const response = await axios.post<DatabaseTransferStatus>(
+        '/api/v1/settings/database/transfer',
+        { overwrite }
+      );
+
+      revalidate(response.data);
+    } catch {
+      addToast(intl.formatMessage(messages.toastTransferFailure), {
+        autoDismiss: true,
+        appearance: 'error',
+      });
+    }
+  };
+
+  return (
+    <>
+      <div className="mb-6">
+        <h3 className="heading">
+          {intl.formatMessage(messages.databaseTransfer)}
+        </h3>
+        <p className="description">
+          {intl.formatMessage(messages.databaseTransferDescription, {
+            sourceType,
+            targetType,
+          })}
+        </p>
+      </div>
+      <div className="section">
+        {data.running ? (
+          <Alert
+            type="info"
+            title={intl.formatMessage(messages.transferring, {
+              table: data.currentTable ?? '…',
+              progress: data.progress + 1,
+              total: data.total,
+            })}
+          />
+        ) : data.error ? (
+          <Alert
+            type="error"
+            title={intl.formatMessage(messages.transferFailure, {
+              error: data.error,
+            })}
+          />
+        ) : (
+          data.results && (
+            <Alert
+              type="info"
+              title={intl.formatMessage(messages.transferSuccess, {
+                targetType: data.targetType,
+              })}
+            />
+          )
+        )}
+        {data.results && (
+          <div className="mb-6">
+            <Table>
+              <thead>
+                <tr>
+                  <Table.TH>{intl.formatMessage(messages.table)}</Table.TH>
+                  <Table.TH>
+                    {intl.formatMessage(messages.sourceRows, { sourceType })}
+                  </Table.TH>
+                  <Table.TH>
+                    {intl.formatMessage(messages.targetRows, { targetType })}
+                  </Table.TH>
+                </tr>
+              </thead>
+              <Table.TBody>
+                {data.results.map((result) => (
+                  <tr key={`transfer-${result.table}`}>
+                    <Table.TD>
+                      <span className="font-mono text-sm">{result.table}</span>
+                    </Table.TD>
+                    <Table.TD>{intl.formatNumber(result.sourceRows)}</Table.TD>
+                    <Table.TD
+                      className={
+                        result.sourceRows !== result.targetRows
+                          ? 'text-red-400'
+                          : undefined
+                      }
+                    >
+                      {intl.formatNumber(result.targetRows)}
+                    </Table.TD>
+                  </tr>
+                ))}
+              </Table.TBody>
+            </Table>
+          </div>
+        )}
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+          <div className="flex items-start">
+            <div className="flex h-6 items-center">
+              <input
+                type="checkbox"
+                id="overwrite"
+                checked={overwrite}
+                onChange={() => setOverwrite(!overwrite)}
+              />
+            </div>
+            <label htmlFor="overwrite" className="ml-3 text-sm leading-6">
+              <span className="block font-medium text-white">
+                {intl.formatMessage(messages.overwrite)}
+              </span>
+              <span className="block font-normal text-gray-400">
+                {intl.formatMessage(messages.overwriteTip, { targetType })}
+              </span>
+            </label>
+          </div>
+          {data.running ? (
+            <Button buttonType="warning" disabled>
+              <CircleStackIcon />
+              <span>
+                {intl.formatMessage(messages.startTransfer, { targetType })}
+              </span>
+            </Button>
+          ) : (
+            <ConfirmButton
+              onClick={() => startTransfer()}
+              confirmText={intl.formatMessage(globalMessages.areyousure)}
+            >
+              <CircleStackIcon />
+              <span>
+                {intl.formatMessage(messages.startTransfer, { targetType })}
+              </span>
+            </ConfirmButton>
+          )}
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default DatabaseTransfer;
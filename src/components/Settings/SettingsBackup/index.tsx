@@ -0,0 +1,368 @@
+import Alert from '@app/components/Common/Alert';
+import Button from '@app/components/Common/Button';
+import ConfirmButton from '@app/components/Common/ConfirmButton';
+import LoadingSpinner from '@app/components/Common/LoadingSpinner';
+import PageTitle from '@app/components/Common/PageTitle';
+import Table from '@app/components/Common/Table';
+import DatabaseTransfer from '@app/components/Settings/SettingsBackup/DatabaseTransfer';
+import globalMessages from '@app/i18n/globalMessages';
+import defineMessages from '@app/utils/defineMessages';
+import { formatBytes } from '@app/utils/numberHelpers';
+import {
+  ArrowDownOnSquareIcon,
+  ArrowDownTrayIcon,
+  ArrowUpTrayIcon,
+  TrashIcon,
+} from '@heroicons/react/24/outline';
+import type { BackupFile, BackupManifest } from '@server/lib/backup';
+import type { BackupSettings } from '@server/lib/settings';
+import axios from 'axios';
+import { Field, Form, Formik } from 'formik';
+import { useState } from 'react';
+import { useIntl } from 'react-intl';
+import { useToasts } from 'react-toast-notifications';
+import useSWR from 'swr';
+import * as Yup from 'yup';
+
+const messages = defineMessages('components.Settings.SettingsBackup', {
+  backup: 'Backup & Restore',
+  backupsettings: 'Backup Settings',
+  backupsettingsDescription:
+    'Backups contain the settings and all data stored in the database, such as users, requests, issues, override rules, discover sliders and the blacklist. Scheduled backups are created by the Backup job, which can be rescheduled from the Jobs & Cache settings.',
+  retention: 'Backups to Keep',
+  retentionTip:
+    'Older scheduled backups are removed once this number is reached',
+  validationRetention: 'You must keep at least one backup',
+  toastSettingsSuccess: 'Backup settings saved successfully!',
+  toastSettingsFailure: 'Something went wrong while saving backup settings.',
+  downloadBackup: 'Download Backup',
+  downloadBackupDescription:
+    'Create a new backup and download it directly, without storing it on the server.',
+  storedBackups: 'Stored Backups',
+  storedBackupsDescription:
+    'Backups created by the Backup job are stored in the backups folder of the configuration directory.',
+  noBackups: 'No backups have been created yet.',
+  name: 'Name',
+  created: 'Created',
+  size: 'Size',
+  toastDeleteSuccess: 'Backup deleted successfully!',
+  toastDeleteFailure: 'Something went wrong while deleting the backup.',
+  restore: 'Restore',
+  restoreBackup: 'Restore Backup',
+  restoreDescription:
+    'Replace all settings and data with the content of a backup file.',
+  restoreWarning:
+    'Restoring a backup overwrites every setting, user and request. This cannot be undone, so download a backup of the current state first.',
+  restoring: 'Restoring…',
+  restoreSuccess:
+    'Restored the backup created on {date} by version {version}. Restart Jellyseerr to make sure all restored settings are applied.',
+  toastRestoreFailure: 'Something went wrong while restoring the backup.',
+});
+
+const SettingsBackup = () => {
+  const intl = useIntl();
+  const { addToast } = useToasts();
+  const {
+    data,
+    error,
+    mutate: revalidate,
+  } = useSWR<BackupSettings>('/api/v1/settings/backup');
+  const { data: backups, mutate: revalidateBackups } = useSWR<BackupFile[]>(
+    '/api/v1/settings/backup/files'
+  );
+  const [restoreFile, setRestoreFile] = useState<File | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [restored, setRestored] = useState<BackupManifest | null>(null);
+
+  const BackupSettingsSchema = Yup.object().shape({
+    retention: Yup.number()
+      .typeError(intl.formatMessage(messages.validationRetention))
+      .integer(intl.formatMessage(messages.validationRetention))
+      .min(1, intl.formatMessage(messages.validationRetention))
+      .required(intl.formatMessage(messages.validationRetention)),
+  });
+
+  if (!data && !error) {
+    return <LoadingSpinner />;
+  }
+
+  const deleteBackup = async (backup: BackupFile) => {
+    try {
+      await axios.delete(
+        `/api/v1/settings/backup/files/${encodeURIComponent(backup.name)}`
+      );
+
+      addToast(intl.formatMessage(messages.toastDeleteSuccess), {
+        autoDismiss: true,
+        appearance: 'success',
+      });
+    } catch {
+      addToast(intl.formatMessage(messages.toastDeleteFailure), {
+        autoDismiss: true,
+        appearance: 'error',
+      });
+    } finally {
+      revalidateBackups();
+    }
+  };
+
+  const restoreBackup = async () => {
+    if (!restoreFile) {
+      return;
+    }
+
+    setIsRestoring(true);
+    setRestored(null);
+    try {
+      const response = await axios.post<BackupManifest>(
+        '/api/v1/settings/backup/restore',
+        await restoreFile.arrayBuffer(),
+        { headers: { 'Content-Type': 'application/octet-stream' } }
+      );
+
+      setRestored(response.data);
+      setRestoreFile(null);
+    } catch (e) {
+      addToast(
+        e.response?.data?.message ??
+          intl.formatMessage(messages.toastRestoreFailure),
+        { autoDismiss: true, appearance: 'error' }
+      );
+    } finally {
+      setIsRestoring(false);
+      revalidate();
+    }
+  };
+
+  return (
+    <>
+      <PageTitle
+        title={[
+          intl.formatMessage(messages.backup),
+          intl.formatMessage(globalMessages.settings),
+        ]}
+      />
+      <div className="mb-6">
+        <h3 className="heading">
+          {intl.formatMessage(messages.backupsettings)}
+        </h3>
+        <p className="description">
+          {intl.formatMessage(messages.backupsettingsDescription)}
+        </p>
+      </div>
+      <div className="section">
+        <Formik
+          initialValues={{
+            retention: data?.retention ?? 7,
+          }}
+          validationSchema={BackupSettingsSchema}
+          enableReinitialize
+          onSubmit={async (values) => {
+            try {
+              await axios.post('/api/v1/settings/backup', {
+                retention: Number(values.retention),
+              });
+
+              addToast(intl.formatMessage(messages.toastSettingsSuccess), {
+                autoDismiss: true,
+                appearance: 'success',
+              });
+            } catch {
+              addToast(intl.formatMessage(messages.toastSettingsFailure), {
+                autoDismiss: true,
+                appearance: 'error',
+              });
+            } finally {
+              revalidate();
+            }
+          }}
+        >
+          {({ errors, touched, isSubmitting, isValid }) => (
+            <Form className="section" data-testid="settings-backup-form">
+              <div className="form-row">
+                <label htmlFor="retention" className="text-label">
+                  {intl.formatMessage(messages.retention)}
+                  <span className="label-tip">
+                    {intl.formatMessage(messages.retentionTip)}
+                  </span>
+                </label>
+                <div className="form-input-area">
+                  <Field
+                    type="text"
+                    inputMode="numeric"
+                    id="retention"
+                    name="retention"
+                    className="short"
+                  />
+                  {errors.retention &&
+                    touched.retention &&
+                    typeof errors.retention === 'string' && (
+                      <div className="error">{errors.retention}</div>
+                    )}
+                </div>
+              </div>
+              <div className="actions">
+                <div className="flex justify-end">
+                  <span className="ml-3 inline-flex rounded-md shadow-sm">
+                    <Button
+                      buttonType="primary"
+                      type="submit"
+                      disabled={isSubmitting || !isValid}
+                    >
+                      <ArrowDownOnSquareIcon />
+                      <span>
+                        {isSubmitting
+                          ? intl.formatMessage(globalMessages.saving)
+                          : intl.formatMessage(globalMessages.save)}
+                      </span>
+                    </Button>
+                  </span>
+                </div>
+              </div>
+            </Form>
+          )}
+        </Formik>
+      </div>
+      <div className="mb-6 flex flex-col justify-between gap-4 sm:flex-row sm:items-end">
+        <div>
+          <h3 className="heading">
+            {intl.formatMessage(messages.storedBackups)}
+          </h3>
+          <p className="description">
+            {intl.formatMessage(messages.storedBackupsDescription)}{' '}
+            {intl.formatMessage(messages.downloadBackupDescription)}
+          </p>
+        </div>
+        <div className="flex-shrink-0">
+          <Button
+            as="a"
+            buttonType="ghost"
+            href="/api/v1/settings/backup/download"
+            download
+          >
+            <ArrowDownTrayIcon />
+            <span>{intl.formatMessage(messages.downloadBackup)}</span>
+          </Button>
+        </div>
+      </div>
+      <div className="section">
+        {backups?.length ? (
+          <Table>
+            <thead>
+              <tr>
+                <Table.TH>{intl.formatMessage(messages.name)}</Table.TH>
+                <Table.TH>{intl.formatMessage(messages.created)}</Table.TH>
+                <Table.TH>{intl.formatMessage(messages.size)}</Table.TH>
+                <Table.TH></Table.TH>
+              </tr>
+            </thead>
+            <Table.TBody>
+              {backups.map((backup) => (
+                <tr key={`backup-${backup.name}`}>
+                  <Table.TD>
+                    <span className="font-mono text-sm">{backup.name}</span>
+                  </Table.TD>
+                  <Table.TD>
+                    {intl.formatDate(backup.createdAt, {
+                      year: 'numeric',
+                      month: 'short',
+                      day: 'numeric',
+                      hour: 'numeric',
+                      minute: 'numeric',
+                    })}
+                  </Table.TD>
+                  <Table.TD>{formatBytes(backup.size)}</Table.TD>
+                  <Table.TD alignText="right">
+                    <Button
+                      as="a"
+                      className="mr-2"
+                      buttonType="primary"
+                      href={`/api/v1/settings/backup/files/${encodeURIComponent(
+                        backup.name
+                      )}`}
+                      download
+                    >
+                      <ArrowDownTrayIcon />
+                    </Button>
+                    <ConfirmButton
+                      onClick={() => deleteBackup(backup)}
+                      confirmText={intl.formatMessage(
+                        globalMessages.areyousure
+                      )}
+                    >
+                      <TrashIcon />
+                      <span>{intl.formatMessage(globalMessages.delete)}</span>
+                    </ConfirmButton>
+                  </Table.TD>
+                </tr>
+              ))}
+            </Table.TBody>
+          </Table>
+        ) : (
+          <p className="text-sm text-gray-400">
+            {intl.formatMessage(messages.noBackups)}
+          </p>
+        )}
+      </div>
+      <div className="mb-6">
+        <h3 className="heading">
+          {intl.formatMessage(messages.restoreBackup)}
+        </h3>
+        <p className="description">
+          {intl.formatMessage(messages.restoreDescription)}
+        </p>
+      </div>
+      <div className="section">
+        {restored && (
+          <Alert
+            type="info"
+            title={intl.formatMessage(messages.restoreSuccess, {
+              date: intl.formatDate(restored.createdAt, {
+                year: 'numeric',
+                month: 'short',
+                day: 'numeric',
+                hour: 'numeric',
+                minute: 'numeric',
+              }),
+              version: restored.appVersion,
+            })}
+          />
+        )}
+        <Alert
+          type="warning"
+          title={intl.formatMessage(messages.restoreWarning)}
+        />
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-center">
+          <input
+            key={restored?.createdAt}
+            type="file"
+            accept=".gz,application/gzip"
+            className="flex-1 text-sm text-gray-300"
+            onChange={(e) => setRestoreFile(e.target.files?.[0] ?? null)}
+          />
+          {restoreFile && !isRestoring ? (
+            <ConfirmButton
+              onClick={() => restoreBackup()}
+              confirmText={intl.formatMessage(globalMessages.areyousure)}
+            >
+              <ArrowUpTrayIcon />
+              <span>{intl.formatMessage(messages.restore)}</span>
+            </ConfirmButton>
+          ) : (
+            <Button buttonType="danger" disabled>
+              <ArrowUpTrayIcon />
+              <span>
+                {isRestoring
+                  ? intl.formatMessage(messages.restoring)
+                  : intl.formatMessage(messages.restore)}
+              </span>
+            </Button>
+          )}
+        </div>
+      </div>
+      <DatabaseTransfer />
+    </>
+  );
+};
+
+export default SettingsBackup;
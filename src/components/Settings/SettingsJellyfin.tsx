@@ -3,6 +3,10 @@ import Button from '@app/components/Common/Button';
 import LoadingSpinner from '@app/components/Common/LoadingSpinner';
 import SensitiveInput from '@app/components/Common/SensitiveInput';
 import LibraryItem from '@app/components/Settings/LibraryItem';
+import {
+  useServerEvent,
+  useServerEventsConnected,
+} from '@app/hooks/useServerEvents';
 import useSettings from '@app/hooks/useSettings';
 import globalMessages from '@app/i18n/globalMessages';
 import defineMessages from '@app/utils/defineMessages';
@@ -94,21 +98,33 @@ const SettingsJellyfin: React.FC<SettingsJellyfinProps> = ({
 }) => {
   const [isSyncing, setIsSyncing] = useState(false);
   const toasts = useToasts();
+  const settings = useSettings();
+  const settingsUrl = settings.currentSettings.mediaServerTypes.includes(
+    MediaServerType.EMBY
+  )
+    ? '/api/v1/settings/emby'
+    : '/api/v1/settings/jellyfin';
 
   const {
     data,
     error,
     mutate: revalidate,
-  } = useSWR<JellyfinSettings>('/api/v1/settings/jellyfin');
+  } = useSWR<JellyfinSettings>(settingsUrl);
+  const eventsConnected = useServerEventsConnected();
   const { data: dataSync, mutate: revalidateSync } = useSWR<SyncStatus>(
-    '/api/v1/settings/jellyfin/sync',
+    `${settingsUrl}/sync`,
     {
-      refreshInterval: 1000,
+      refreshInterval: eventsConnected ? 0 : 1000,
     }
   );
+
+  useServerEvent('scan', ({ server, recentOnly, ...status }) => {
+    if (server !== MediaServerType.PLEX && !recentOnly) {
+      revalidateSync(status, false);
+    }
+  });
   const intl = useIntl();
   const { addToast } = useToasts();
-  const settings = useSettings();
 
   const JellyfinSettingsSchema = Yup.object().shape({
     hostname: Yup.string()
@@ -170,7 +186,7 @@ const SettingsJellyfin: React.FC<SettingsJellyfinProps> = ({
     }
 
     try {
-      await axios.get('/api/v1/settings/jellyfin/library', {
+      await axios.get(`${settingsUrl}/library`, {
         params,
       });
       setIsSyncing(false);
@@ -209,14 +225,14 @@ const SettingsJellyfin: React.FC<SettingsJellyfinProps> = ({
   };
 
   const startScan = async () => {
-    await axios.post('/api/v1/settings/jellyfin/sync', {
+    await axios.post(`${settingsUrl}/sync`, {
       start: true,
     });
     revalidateSync();
   };
 
   const cancelScan = async () => {
-    await axios.post('/api/v1/settings/jellyfin/sync', {
+    await axios.post(`${settingsUrl}/sync`, {
       cancel: true,
     });
     revalidateSync();
@@ -233,11 +249,11 @@ const SettingsJellyfin: React.FC<SettingsJellyfinProps> = ({
           .join(',');
       }
 
-      await axios.get('/api/v1/settings/jellyfin/library', {
+      await axios.get(`${settingsUrl}/library`, {
         params,
       });
     } else {
-      await axios.get('/api/v1/settings/jellyfin/library', {
+      await axios.get(`${settingsUrl}/library`, {
         params: {
           enable: [...activeLibraries, libraryId].join(','),
         },
@@ -255,12 +271,11 @@ const SettingsJellyfin: React.FC<SettingsJellyfinProps> = ({
   }
 
   const mediaServerFormatValues = {
-    mediaServerName:
-      settings.currentSettings.mediaServerType === MediaServerType.JELLYFIN
-        ? 'Jellyfin'
-        : settings.currentSettings.mediaServerType === MediaServerType.EMBY
-        ? 'Emby'
-        : undefined,
+    mediaServerName: settings.currentSettings.mediaServerTypes.includes(
+      MediaServerType.EMBY
+    )
+      ? 'Emby'
+      : 'Jellyfin',
   };
 
   return (
@@ -451,7 +466,7 @@ const SettingsJellyfin: React.FC<SettingsJellyfinProps> = ({
         validationSchema={JellyfinSettingsSchema}
         onSubmit={async (values) => {
           try {
-            await axios.post('/api/v1/settings/jellyfin', {
+            await axios.post(settingsUrl, {
               ip: values.hostname,
               port: Number(values.port),
               useSsl: values.useSsl,
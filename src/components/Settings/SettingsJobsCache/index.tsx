@@ -6,6 +6,10 @@ import Modal from '@app/components/Common/Modal';
 import PageTitle from '@app/components/Common/PageTitle';
 import Table from '@app/components/Common/Table';
 import useLocale from '@app/hooks/useLocale';
+import {
+  useServerEvent,
+  useServerEventsConnected,
+} from '@app/hooks/useServerEvents';
 import useSettings from '@app/hooks/useSettings';
 
 import globalMessages from '@app/i18n/globalMessages';
@@ -69,6 +73,11 @@ const messages: { [messageName: string]: MessageDescriptor } = defineMessages(
     'download-sync-reset': 'Download Sync Reset',
     'image-cache-cleanup': 'Image Cache Cleanup',
     'process-blacklisted-tags': 'Process Blacklisted Tags',
+    backup: 'Backup',
+    'pending-request-expiry': 'Pending Request Expiry',
+    'douban-mapping-sync': 'Douban Mapping Sync',
+    'notification-digest': 'Notification Digest',
+    'notification-outbox': 'Notification Retries',
     editJobSchedule: 'Modify Job',
     jobScheduleEditSaved: 'Job edited successfully!',
     jobScheduleEditFailed: 'Something went wrong while saving the job.',
@@ -159,12 +168,19 @@ const SettingsJobs = () => {
   const intl = useIntl();
   const { locale } = useLocale();
   const { addToast } = useToasts();
+  const eventsConnected = useServerEventsConnected();
   const {
     data,
     error,
     mutate: revalidate,
   } = useSWR<Job[]>('/api/v1/settings/jobs', {
-    refreshInterval: 5000,
+    // Jobs which are started from the schedule are reported as events, but
+    // not every job reports when it has finished
+    refreshInterval: eventsConnected ? 30000 : 5000,
+  });
+
+  useServerEvent('jobs', () => {
+    revalidate();
   });
   const { data: appData } = useSWR('/api/v1/status/appdata');
   const { data: cacheData, mutate: cacheRevalidate } = useSWR<CacheResponse>(
@@ -184,14 +200,18 @@ const SettingsJobs = () => {
   const [isSaving, setIsSaving] = useState(false);
   const settings = useSettings();
 
-  if (settings.currentSettings.mediaServerType === MediaServerType.EMBY) {
+  if (
+    settings.currentSettings.mediaServerTypes.includes(MediaServerType.EMBY)
+  ) {
     messages['jellyfin-recently-added-scan'] = {
       id: 'jellyfin-recently-added-scan',
       defaultMessage: 'Emby Recently Added Scan',
     };
   }
 
-  if (settings.currentSettings.mediaServerType === MediaServerType.EMBY) {
+  if (
+    settings.currentSettings.mediaServerTypes.includes(MediaServerType.EMBY)
+  ) {
     messages['jellyfin-full-scan'] = {
       id: 'jellyfin-full-scan',
       defaultMessage: 'Emby Full Library Scan',
@@ -541,8 +561,9 @@ const SettingsJobs = () => {
               ?.filter(
                 (cache) =>
                   !(
-                    settings.currentSettings.mediaServerType !==
-                      MediaServerType.PLEX && cache.id === 'plexguid'
+                    !settings.currentSettings.mediaServerTypes.includes(
+                      MediaServerType.PLEX
+                    ) && cache.id === 'plexguid'
                   )
               )
               .map((cache) => (
@@ -10,13 +10,17 @@ import { useIntl } from 'react-intl';
 const messages = defineMessages('components.Settings', {
   menuGeneralSettings: 'General',
   menuUsers: 'Users',
+  menuUserGroups: 'Groups',
+  menuApprovals: 'Approvals',
   menuPlexSettings: 'Plex',
   menuJellyfinSettings: '{mediaServerName}',
   menuServices: 'Services',
   menuNetwork: 'Network',
+  menuOidc: 'Single Sign-On',
   menuNotifications: 'Notifications',
   menuLogs: 'Logs',
   menuJobs: 'Jobs & Cache',
+  menuBackup: 'Backup',
   menuAbout: 'About',
 });
 
@@ -27,6 +31,11 @@ type SettingsLayoutProps = {
 const SettingsLayout = ({ children }: SettingsLayoutProps) => {
   const intl = useIntl();
   const settings = useSettings();
+  const isJellyfinEnabled =
+    settings.currentSettings.mediaServerTypes.includes(
+      MediaServerType.JELLYFIN
+    ) ||
+    settings.currentSettings.mediaServerTypes.includes(MediaServerType.EMBY);
   const settingsRoutes: SettingsRoute[] = [
     {
       text: intl.formatMessage(messages.menuGeneralSettings),
@@ -38,17 +47,38 @@ const SettingsLayout = ({ children }: SettingsLayoutProps) => {
       route: '/settings/users',
       regex: /^\/settings\/users/,
     },
-    settings.currentSettings.mediaServerType === MediaServerType.PLEX
-      ? {
-          text: intl.formatMessage(messages.menuPlexSettings),
-          route: '/settings/plex',
-          regex: /^\/settings\/plex/,
-        }
-      : {
-          text: getAvailableMediaServerName(),
-          route: '/settings/jellyfin',
-          regex: /^\/settings\/jellyfin/,
-        },
+    {
+      text: intl.formatMessage(messages.menuUserGroups),
+      route: '/settings/groups',
+      regex: /^\/settings\/groups/,
+    },
+    {
+      text: intl.formatMessage(messages.menuApprovals),
+      route: '/settings/approvals',
+      regex: /^\/settings\/approvals/,
+    },
+    ...(settings.currentSettings.mediaServerTypes.includes(MediaServerType.PLEX)
+      ? [
+          {
+            text: intl.formatMessage(messages.menuPlexSettings),
+            route: '/settings/plex',
+            regex: /^\/settings\/plex/,
+          },
+        ]
+      : []),
+    ...(isJellyfinEnabled
+      ? [
+          {
+            text: getAvailableMediaServerName(),
+            route: settings.currentSettings.mediaServerTypes.includes(
+              MediaServerType.EMBY
+            )
+              ? '/settings/emby'
+              : '/settings/jellyfin',
+            regex: /^\/settings\/(jellyfin|emby)/,
+          },
+        ]
+      : []),
     {
       text: intl.formatMessage(messages.menuServices),
       route: '/settings/services',
@@ -59,6 +89,11 @@ const SettingsLayout = ({ children }: SettingsLayoutProps) => {
       route: '/settings/network',
       regex: /^\/settings\/network/,
     },
+    {
+      text: intl.formatMessage(messages.menuOidc),
+      route: '/settings/oidc',
+      regex: /^\/settings\/oidc/,
+    },
     {
       text: intl.formatMessage(messages.menuNotifications),
       route: '/settings/notifications/email',
@@ -74,6 +109,11 @@ const SettingsLayout = ({ children }: SettingsLayoutProps) => {
       route: '/settings/jobs',
       regex: /^\/settings\/jobs/,
     },
+    {
+      text: intl.formatMessage(messages.menuBackup),
+      route: '/settings/backup',
+      regex: /^\/settings\/backup/,
+    },
     {
       text: intl.formatMessage(messages.menuAbout),
       route: '/settings/about',
@@ -92,12 +132,11 @@ const SettingsLayout = ({ children }: SettingsLayoutProps) => {
   );
   function getAvailableMediaServerName() {
     return intl.formatMessage(messages.menuJellyfinSettings, {
-      mediaServerName:
-        settings.currentSettings.mediaServerType === MediaServerType.JELLYFIN
-          ? 'Jellyfin'
-          : settings.currentSettings.mediaServerType === MediaServerType.EMBY
-          ? 'Emby'
-          : undefined,
+      mediaServerName: settings.currentSettings.mediaServerTypes.includes(
+        MediaServerType.EMBY
+      )
+        ? 'Emby'
+        : 'Jellyfin',
     });
   }
 };
@@ -16,6 +16,7 @@ import defineMessages from '@app/utils/defineMessages';
 import { isValidURL } from '@app/utils/urlValidationHelper';
 import { ArrowDownOnSquareIcon } from '@heroicons/react/24/outline';
 import { ArrowPathIcon } from '@heroicons/react/24/solid';
+import { MediaServerType } from '@server/constants/server';
 import type { UserSettingsGeneralResponse } from '@server/interfaces/api/userSettingsInterfaces';
 import type { MainSettings } from '@server/lib/settings';
 import axios from 'axios';
@@ -71,6 +72,9 @@ const messages = defineMessages('components.Settings.SettingsMain', {
   validationUrl: 'You must provide a valid URL',
 
   validationUrlTrailingSlash: 'URL must not end in a trailing slash',
+  mediaServers: 'Media Servers',
+  mediaServersTip:
+    'Additional media servers are scanned and offered for sign-in next to the one {applicationTitle} was set up with. Jellyfin and Emby can not be used at the same time.',
   ratingOverlays: 'Rating Overlays',
   ratingOverlaysTip: 'Select which ratings to display on media posters',
 });
@@ -177,6 +181,7 @@ const SettingsMain = () => {
             partialRequestsEnabled: data?.partialRequestsEnabled,
             enableSpecialEpisodes: data?.enableSpecialEpisodes,
             cacheImages: data?.cacheImages,
+            additionalMediaServerTypes: data?.additionalMediaServerTypes ?? [],
 
             youtubeUrl: data?.youtubeUrl,
             ratingOverlays: data?.ratingOverlays,
@@ -199,6 +204,7 @@ const SettingsMain = () => {
                 partialRequestsEnabled: values.partialRequestsEnabled,
                 enableSpecialEpisodes: values.enableSpecialEpisodes,
                 cacheImages: values.cacheImages,
+                additionalMediaServerTypes: values.additionalMediaServerTypes,
 
                 youtubeUrl: values.youtubeUrl,
                 ratingOverlays: values.ratingOverlays,
@@ -333,6 +339,75 @@ const SettingsMain = () => {
                     />
                   </div>
                 </div>
+                <div className="form-row">
+                  <span className="checkbox-label">
+                    <span className="mr-2">
+                      {intl.formatMessage(messages.mediaServers)}
+                    </span>
+                    <SettingsBadge badgeType="restartRequired" />
+                    <span className="label-tip">
+                      {intl.formatMessage(messages.mediaServersTip, {
+                        applicationTitle: data?.applicationTitle,
+                      })}
+                    </span>
+                  </span>
+                  <div className="form-input-area">
+                    <div className="flex flex-wrap gap-4">
+                      {[
+                        { type: MediaServerType.PLEX, name: 'Plex' },
+                        { type: MediaServerType.JELLYFIN, name: 'Jellyfin' },
+                        { type: MediaServerType.EMBY, name: 'Emby' },
+                      ].map(({ type, name }) => {
+                        const isPrimary = data?.mediaServerType === type;
+                        const isChecked =
+                          isPrimary ||
+                          values.additionalMediaServerTypes.includes(type);
+                        // Jellyfin and Emby share the same server settings
+                        const conflictingType =
+                          type === MediaServerType.JELLYFIN
+                            ? MediaServerType.EMBY
+                            : type === MediaServerType.EMBY
+                            ? MediaServerType.JELLYFIN
+                            : undefined;
+                        const isConflicting =
+                          conflictingType !== undefined &&
+                          (data?.mediaServerType === conflictingType ||
+                            values.additionalMediaServerTypes.includes(
+                              conflictingType
+                            ));
+
+                        return (
+                          <label
+                            key={`media-server-${type}`}
+                            className="flex items-center gap-2"
+                          >
+                            <input
+                              type="checkbox"
+                              checked={isChecked}
+                              disabled={
+                                isPrimary || (!isChecked && isConflicting)
+                              }
+                              onChange={() => {
+                                setFieldValue(
+                                  'additionalMediaServerTypes',
+                                  isChecked
+                                    ? values.additionalMediaServerTypes.filter(
+                                        (t) => t !== type
+                                      )
+                                    : [
+                                        ...values.additionalMediaServerTypes,
+                                        type,
+                                      ]
+                                );
+                              }}
+                            />
+                            <span>{name}</span>
+                          </label>
+                        );
+                      })}
+                    </div>
+                  </div>
+                </div>
                 <div className="form-row">
                   <label htmlFor="locale" className="text-label">
                     {intl.formatMessage(messages.locale)}
@@ -1,5 +1,6 @@
 import DiscordLogo from '@app/assets/extlogos/discord.svg';
 import GotifyLogo from '@app/assets/extlogos/gotify.svg';
+import MatrixLogo from '@app/assets/extlogos/matrix.svg';
 import NtfyLogo from '@app/assets/extlogos/ntfy.svg';
 import PushbulletLogo from '@app/assets/extlogos/pushbullet.svg';
 import PushoverLogo from '@app/assets/extlogos/pushover.svg';
@@ -10,7 +11,14 @@ import type { SettingsRoute } from '@app/components/Common/SettingsTabs';
 import SettingsTabs from '@app/components/Common/SettingsTabs';
 import globalMessages from '@app/i18n/globalMessages';
 import defineMessages from '@app/utils/defineMessages';
-import { BoltIcon, CloudIcon, EnvelopeIcon } from '@heroicons/react/24/solid';
+import {
+  BoltIcon,
+  CloudIcon,
+  DocumentTextIcon,
+  EnvelopeIcon,
+  MegaphoneIcon,
+  QueueListIcon,
+} from '@heroicons/react/24/solid';
 import { useIntl } from 'react-intl';
 
 const messages = defineMessages('components.Settings', {
@@ -21,6 +29,8 @@ const messages = defineMessages('components.Settings', {
   email: 'Email',
   webhook: 'Webhook',
   webpush: 'Web Push',
+  notificationtemplates: 'Templates',
+  notificationlog: 'Log',
 });
 
 type SettingsNotificationsProps = {
@@ -53,6 +63,17 @@ const SettingsNotifications = ({ children }: SettingsNotificationsProps) => {
       route: '/settings/notifications/webpush',
       regex: /^\/settings\/notifications\/webpush/,
     },
+    {
+      text: 'Apprise',
+      content: (
+        <span className="flex items-center">
+          <MegaphoneIcon className="mr-2 h-4" />
+          Apprise
+        </span>
+      ),
+      route: '/settings/notifications/apprise',
+      regex: /^\/settings\/notifications\/apprise/,
+    },
     {
       text: 'Discord',
       content: (
@@ -75,6 +96,17 @@ const SettingsNotifications = ({ children }: SettingsNotificationsProps) => {
       route: '/settings/notifications/gotify',
       regex: /^\/settings\/notifications\/gotify/,
     },
+    {
+      text: 'Matrix',
+      content: (
+        <span className="flex items-center">
+          <MatrixLogo className="mr-2 h-4" />
+          Matrix
+        </span>
+      ),
+      route: '/settings/notifications/matrix',
+      regex: /^\/settings\/notifications\/matrix/,
+    },
     {
       text: 'ntfy.sh',
       content: (
@@ -141,6 +173,28 @@ const SettingsNotifications = ({ children }: SettingsNotificationsProps) => {
       route: '/settings/notifications/webhook',
       regex: /^\/settings\/notifications\/webhook/,
     },
+    {
+      text: intl.formatMessage(messages.notificationtemplates),
+      content: (
+        <span className="flex items-center">
+          <DocumentTextIcon className="mr-2 h-4" />
+          {intl.formatMessage(messages.notificationtemplates)}
+        </span>
+      ),
+      route: '/settings/notifications/templates',
+      regex: /^\/settings\/notifications\/templates/,
+    },
+    {
+      text: intl.formatMessage(messages.notificationlog),
+      content: (
+        <span className="flex items-center">
+          <QueueListIcon className="mr-2 h-4" />
+          {intl.formatMessage(messages.notificationlog)}
+        </span>
+      ),
+      route: '/settings/notifications/log',
+      regex: /^\/settings\/notifications\/log/,
+    },
   ];
 
   return (
@@ -0,0 +1,528 @@
+import Button from '@app/components/Common/Button';
+import LoadingSpinner from '@app/components/Common/LoadingSpinner';
+import Modal from '@app/components/Common/Modal';
+import PageTitle from '@app/components/Common/PageTitle';
+import SensitiveInput from '@app/components/Common/SensitiveInput';
+import PermissionEdit from '@app/components/PermissionEdit';
+import { useUser } from '@app/hooks/useUser';
+import globalMessages from '@app/i18n/globalMessages';
+import defineMessages from '@app/utils/defineMessages';
+import { Transition } from '@headlessui/react';
+import {
+  ArrowDownOnSquareIcon,
+  PencilIcon,
+  PlusIcon,
+  TrashIcon,
+} from '@heroicons/react/24/outline';
+import type { OidcPermissionMapping, OidcSettings } from '@server/lib/settings';
+import axios from 'axios';
+import { Field, Form, Formik } from 'formik';
+import { useState } from 'react';
+import { useIntl } from 'react-intl';
+import { useToasts } from 'react-toast-notifications';
+import useSWR, { mutate } from 'swr';
+import * as Yup from 'yup';
+
+const messages = defineMessages('components.Settings.SettingsOidc', {
+  oidc: 'Single Sign-On',
+  oidcsettings: 'OpenID Connect Settings',
+  oidcsettingsDescription:
+    'Allow users to sign in with an external OpenID Connect identity provider such as Authentik, Keycloak or Authelia.',
+  toastSettingsSuccess: 'OpenID Connect settings saved successfully!',
+  toastSettingsFailure:
+    'Something went wrong while saving OpenID Connect settings.',
+  enabled: 'Enable OpenID Connect Sign-In',
+  providerName: 'Provider Name',
+  providerNameTip: 'Displayed on the login button',
+  issuerUrl: 'Issuer URL',
+  issuerUrlTip:
+    'The provider discovery document must be available at /.well-known/openid-configuration below this URL',
+  clientId: 'Client ID',
+  clientSecret: 'Client Secret',
+  clientSecretTip: 'Leave empty for public clients',
+  scopes: 'Scopes',
+  redirectUri: 'Redirect URI',
+  redirectUriTip: 'Register this URL with your identity provider',
+  newUserLogin: 'Enable New OpenID Connect Sign-In',
+  newUserLoginTip:
+    'Create a new user on first sign-in when no existing user matches the account',
+  linkByEmail: 'Link Accounts by Email',
+  linkByEmailTip:
+    'Automatically link an account to the user with the same verified email address, unless the user has two-factor authentication enabled',
+  permissionClaim: 'Permission Claim',
+  permissionClaimTip:
+    'Claim containing the values used to grant permissions, usually groups or roles',
+  permissionMappings: 'Permission Mappings',
+  permissionMappingsTip:
+    'New users receive the combined permissions of every matching value when their account is created',
+  claimValue: 'Claim Value',
+  addMapping: 'Add Mapping',
+  editMapping: 'Edit Permission Mapping',
+  noMappings: 'No permission mappings. Default permissions will be used.',
+  validationProviderName: 'You must provide a provider name',
+  validationIssuerUrl: 'You must provide a valid URL',
+  validationClientId: 'You must provide a client ID',
+});
+
+const SettingsOidc = () => {
+  const { addToast } = useToasts();
+  const intl = useIntl();
+  const { user: currentUser } = useUser();
+  const [editMapping, setEditMapping] = useState<{
+    index: number;
+    mapping: OidcPermissionMapping;
+  } | null>(null);
+  const {
+    data,
+    error,
+    mutate: revalidate,
+  } = useSWR<OidcSettings>('/api/v1/settings/oidc');
+
+  const OidcSettingsSchema = Yup.object().shape({
+    providerName: Yup.string().when('enabled', {
+      is: true,
+      then: Yup.string().required(
+        intl.formatMessage(messages.validationProviderName)
+      ),
+    }),
+    issuerUrl: Yup.string().when('enabled', {
+      is: true,
+      then: Yup.string()
+        .required(intl.formatMessage(messages.validationIssuerUrl))
+        .url(intl.formatMessage(messages.validationIssuerUrl)),
+      otherwise: Yup.string().url(
+        intl.formatMessage(messages.validationIssuerUrl)
+      ),
+    }),
+    clientId: Yup.string().when('enabled', {
+      is: true,
+      then: Yup.string().required(
+        intl.formatMessage(messages.validationClientId)
+      ),
+    }),
+  });
+
+  if (!data && !error) {
+    return <LoadingSpinner />;
+  }
+
+  const redirectUri =
+    typeof window !== 'undefined'
+      ? `${window.location.origin}/api/v1/auth/oidc/callback`
+      : '';
+
+  return (
+    <>
+      <PageTitle
+        title={[
+          intl.formatMessage(messages.oidc),
+          intl.formatMessage(globalMessages.settings),
+        ]}
+      />
+      <div className="mb-6">
+        <h3 className="heading">{intl.formatMessage(messages.oidcsettings)}</h3>
+        <p className="description">
+          {intl.formatMessage(messages.oidcsettingsDescription)}
+        </p>
+      </div>
+      <div className="section">
+        <Formik
+          initialValues={{
+            enabled: data?.enabled ?? false,
+            providerName: data?.providerName ?? '',
+            issuerUrl: data?.issuerUrl ?? '',
+            clientId: data?.clientId ?? '',
+            clientSecret: data?.clientSecret ?? '',
+            scopes: data?.scopes ?? '',
+            newUserLogin: data?.newUserLogin ?? false,
+            linkByEmail: data?.linkByEmail ?? false,
+            permissionClaim: data?.permissionClaim ?? '',
+            permissionMappings: data?.permissionMappings ?? [],
+          }}
+          enableReinitialize
+          validationSchema={OidcSettingsSchema}
+          onSubmit={async (values) => {
+            try {
+              await axios.post('/api/v1/settings/oidc', values);
+              mutate('/api/v1/settings/public');
+
+              addToast(intl.formatMessage(messages.toastSettingsSuccess), {
+                autoDismiss: true,
+                appearance: 'success',
+              });
+            } catch (e) {
+              addToast(
+                e.response?.data?.message ??
+                  intl.formatMessage(messages.toastSettingsFailure),
+                {
+                  autoDismiss: true,
+                  appearance: 'error',
+                }
+              );
+            } finally {
+              revalidate();
+            }
+          }}
+        >
+          {({
+            errors,
+            touched,
+            isSubmitting,
+            isValid,
+            values,
+            setFieldValue,
+          }) => {
+            const saveMapping = () => {
+              if (!editMapping?.mapping.claimValue) {
+                return;
+              }
+
+              const mappings = [...values.permissionMappings];
+              mappings[editMapping.index] = editMapping.mapping;
+              setFieldValue('permissionMappings', mappings);
+              setEditMapping(null);
+            };
+
+            return (
+              <Form className="section" data-testid="settings-oidc-form">
+                <div className="form-row">
+                  <label htmlFor="enabled" className="checkbox-label">
+                    {intl.formatMessage(messages.enabled)}
+                  </label>
+                  <div className="form-input-area">
+                    <Field
+                      type="checkbox"
+                      id="enabled"
+                      name="enabled"
+                      onChange={() => {
+                        setFieldValue('enabled', !values.enabled);
+                      }}
+                    />
+                  </div>
+                </div>
+                <div className="form-row">
+                  <label htmlFor="providerName" className="text-label">
+                    {intl.formatMessage(messages.providerName)}
+                    {values.enabled && (
+                      <span className="label-required">*</span>
+                    )}
+                    <span className="label-tip">
+                      {intl.formatMessage(messages.providerNameTip)}
+                    </span>
+                  </label>
+                  <div className="form-input-area">
+                    <div className="form-input-field">
+                      <Field
+                        id="providerName"
+                        name="providerName"
+                        type="text"
+                      />
+                    </div>
+                    {errors.providerName && touched.providerName && (
+                      <div className="error">{errors.providerName}</div>
+                    )}
+                  </div>
+                </div>
+                <div className="form-row">
+                  <label htmlFor="issuerUrl" className="text-label">
+                    {intl.formatMessage(messages.issuerUrl)}
+                    {values.enabled && (
+                      <span className="label-required">*</span>
+                    )}
+                    <span className="label-tip">
+                      {intl.formatMessage(messages.issuerUrlTip)}
+                    </span>
+                  </label>
+                  <div className="form-input-area">
+                    <div className="form-input-field">
+                      <Field
+                        id="issuerUrl"
+                        name="issuerUrl"
+                        type="text"
+                        inputMode="url"
+                      />
+                    </div>
+                    {errors.issuerUrl && touched.issuerUrl && (
+                      <div className="error">{errors.issuerUrl}</div>
+                    )}
+                  </div>
+                </div>
+                <div className="form-row">
+                  <label htmlFor="clientId" className="text-label">
+                    {intl.formatMessage(messages.clientId)}
+                    {values.enabled && (
+                      <span className="label-required">*</span>
+                    )}
+                  </label>
+                  <div className="form-input-area">
+                    <div className="form-input-field">
+                      <Field id="clientId" name="clientId" type="text" />
+                    </div>
+                    {errors.clientId && touched.clientId && (
+                      <div className="error">{errors.clientId}</div>
+                    )}
+                  </div>
+                </div>
+                <div className="form-row">
+                  <label htmlFor="clientSecret" className="text-label">
+                    {intl.formatMessage(messages.clientSecret)}
+                    <span className="label-tip">
+                      {intl.formatMessage(messages.clientSecretTip)}
+                    </span>
+                  </label>
+                  <div className="form-input-area">
+                    <div className="form-input-field">
+                      <SensitiveInput
+                        as="field"
+                        id="clientSecret"
+                        name="clientSecret"
+                        autoComplete="off"
+                      />
+                    </div>
+                  </div>
+                </div>
+                <div className="form-row">
+                  <label htmlFor="scopes" className="text-label">
+                    {intl.formatMessage(messages.scopes)}
+                  </label>
+                  <div className="form-input-area">
+                    <div className="form-input-field">
+                      <Field id="scopes" name="scopes" type="text" />
+                    </div>
+                  </div>
+                </div>
+                <div className="form-row">
+                  <label htmlFor="redirectUri" className="text-label">
+                    {intl.formatMessage(messages.redirectUri)}
+                    <span className="label-tip">
+                      {intl.formatMessage(messages.redirectUriTip)}
+                    </span>
+                  </label>
+                  <div className="form-input-area">
+                    <div className="form-input-field">
+                      <input
+                        id="redirectUri"
+                        type="text"
+                        value={redirectUri}
+                        readOnly
+                      />
+                    </div>
+                  </div>
+                </div>
+                <div className="form-row">
+                  <label htmlFor="newUserLogin" className="checkbox-label">
+                    {intl.formatMessage(messages.newUserLogin)}
+                    <span className="label-tip">
+                      {intl.formatMessage(messages.newUserLoginTip)}
+                    </span>
+                  </label>
+                  <div className="form-input-area">
+                    <Field
+                      type="checkbox"
+                      id="newUserLogin"
+                      name="newUserLogin"
+                      onChange={() => {
+                        setFieldValue('newUserLogin', !values.newUserLogin);
+                      }}
+                    />
+                  </div>
+                </div>
+                <div className="form-row">
+                  <label htmlFor="linkByEmail" className="checkbox-label">
+                    {intl.formatMessage(messages.linkByEmail)}
+                    <span className="label-tip">
+                      {intl.formatMessage(messages.linkByEmailTip)}
+                    </span>
+                  </label>
+                  <div className="form-input-area">
+                    <Field
+                      type="checkbox"
+                      id="linkByEmail"
+                      name="linkByEmail"
+                      onChange={() => {
+                        setFieldValue('linkByEmail', !values.linkByEmail);
+                      }}
+                    />
+                  </div>
+                </div>
+                <div className="form-row">
+                  <label htmlFor="permissionClaim" className="text-label">
+                    {intl.formatMessage(messages.permissionClaim)}
+                    <span className="label-tip">
+                      {intl.formatMessage(messages.permissionClaimTip)}
+                    </span>
+                  </label>
+                  <div className="form-input-area">
+                    <div className="form-input-field">
+                      <Field
+                        id="permissionClaim"
+                        name="permissionClaim"
+                        type="text"
+                      />
+                    </div>
+                  </div>
+                </div>
+                <div className="form-row">
+                  <span className="text-label">
+                    {intl.formatMessage(messages.permissionMappings)}
+                    <span className="label-tip">
+                      {intl.formatMessage(messages.permissionMappingsTip)}
+                    </span>
+                  </span>
+                  <div className="form-input-area">
+                    {values.permissionMappings.length ? (
+                      <ul className="space-y-2">
+                        {values.permissionMappings.map((mapping, index) => (
+                          <li
+                            key={`mapping-${index}`}
+                            className="flex items-center justify-between rounded-md bg-gray-800 px-4 py-2 ring-1 ring-gray-700"
+                          >
+                            <span className="truncate font-mono text-sm text-gray-200">
+                              {mapping.claimValue}
+                            </span>
+                            <span className="flex gap-2">
+                              <Button
+                                buttonType="default"
+                                buttonSize="sm"
+                                type="button"
+                                onClick={() =>
+                                  setEditMapping({ index, mapping })
+                                }
+                              >
+                                <PencilIcon />
+                                <span>
+                                  {intl.formatMessage(globalMessages.edit)}
+                                </span>
+                              </Button>
+                              <Button
+                                buttonType="danger"
+                                buttonSize="sm"
+                                type="button"
+                                onClick={() =>
+                                  setFieldValue(
+                                    'permissionMappings',
+                                    values.permissionMappings.filter(
+                                      (_, i) => i !== index
+                                    )
+                                  )
+                                }
+                              >
+                                <TrashIcon />
+                                <span>
+                                  {intl.formatMessage(globalMessages.delete)}
+                                </span>
+                              </Button>
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    ) : (
+                      <p className="text-sm text-gray-400">
+                        {intl.formatMessage(messages.noMappings)}
+                      </p>
+                    )}
+                    <div className="mt-2">
+                      <Button
+                        buttonType="ghost"
+                        buttonSize="sm"
+                        type="button"
+                        onClick={() =>
+                          setEditMapping({
+                            index: values.permissionMappings.length,
+                            mapping: { claimValue: '', permissions: 0 },
+                          })
+                        }
+                      >
+                        <PlusIcon />
+                        <span>{intl.formatMessage(messages.addMapping)}</span>
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+                <Transition
+                  as="div"
+                  enter="transition-opacity duration-300"
+                  enterFrom="opacity-0"
+                  enterTo="opacity-100"
+                  leave="transition-opacity duration-300"
+                  leaveFrom="opacity-100"
+                  leaveTo="opacity-0"
+                  show={!!editMapping}
+                >
+                  <Modal
+                    title={intl.formatMessage(messages.editMapping)}
+                    onOk={() => saveMapping()}
+                    okDisabled={!editMapping?.mapping.claimValue}
+                    okText={intl.formatMessage(globalMessages.save)}
+                    onCancel={() => setEditMapping(null)}
+                  >
+                    <div className="form-row">
+                      <label htmlFor="claimValue" className="text-label">
+                        {intl.formatMessage(messages.claimValue)}
+                        <span className="label-required">*</span>
+                      </label>
+                      <div className="form-input-area">
+                        <div className="form-input-field">
+                          <input
+                            id="claimValue"
+                            type="text"
+                            value={editMapping?.mapping.claimValue ?? ''}
+                            onChange={(e) =>
+                              editMapping &&
+                              setEditMapping({
+                                ...editMapping,
+                                mapping: {
+                                  ...editMapping.mapping,
+                                  claimValue: e.target.value,
+                                },
+                              })
+                            }
+                          />
+                        </div>
+                      </div>
+                    </div>
+                    <div className="mb-6">
+                      <PermissionEdit
+                        actingUser={currentUser}
+                        currentPermission={
+                          editMapping?.mapping.permissions ?? 0
+                        }
+                        onUpdate={(permissions) =>
+                          editMapping &&
+                          setEditMapping({
+                            ...editMapping,
+                            mapping: { ...editMapping.mapping, permissions },
+                          })
+                        }
+                      />
+                    </div>
+                  </Modal>
+                </Transition>
+                <div className="actions">
+                  <div className="flex justify-end">
+                    <span className="ml-3 inline-flex rounded-md shadow-sm">
+                      <Button
+                        buttonType="primary"
+                        type="submit"
+                        disabled={isSubmitting || !isValid}
+                      >
+                        <ArrowDownOnSquareIcon />
+                        <span>
+                          {isSubmitting
+                            ? intl.formatMessage(globalMessages.saving)
+                            : intl.formatMessage(globalMessages.save)}
+                        </span>
+                      </Button>
+                    </span>
+                  </div>
+                </div>
+              </Form>
+            );
+          }}
+        </Formik>
+      </div>
+    </>
+  );
+};
+
+export default SettingsOidc;
@@ -6,6 +6,10 @@ import PageTitle from '@app/components/Common/PageTitle';
 import SensitiveInput from '@app/components/Common/SensitiveInput';
 import LibraryItem from '@app/components/Settings/LibraryItem';
 import SettingsBadge from '@app/components/Settings/SettingsBadge';
+import {
+  useServerEvent,
+  useServerEventsConnected,
+} from '@app/hooks/useServerEvents';
 import globalMessages from '@app/i18n/globalMessages';
 import defineMessages from '@app/utils/defineMessages';
 import { isValidURL } from '@app/utils/urlValidationHelper';
@@ -15,6 +19,7 @@ import {
   MagnifyingGlassIcon,
   XMarkIcon,
 } from '@heroicons/react/24/solid';
+import { MediaServerType } from '@server/constants/server';
 import type { PlexDevice } from '@server/interfaces/api/plexInterfaces';
 import type { PlexSettings, TautulliSettings } from '@server/lib/settings';
 import axios from 'axios';
@@ -124,12 +129,19 @@ const SettingsPlex = ({ onComplete }: SettingsPlexProps) => {
   } = useSWR<PlexSettings>('/api/v1/settings/plex');
   const { data: dataTautulli, mutate: revalidateTautulli } =
     useSWR<TautulliSettings>('/api/v1/settings/tautulli');
+  const eventsConnected = useServerEventsConnected();
   const { data: dataSync, mutate: revalidateSync } = useSWR<SyncStatus>(
     '/api/v1/settings/plex/sync',
     {
-      refreshInterval: 1000,
+      refreshInterval: eventsConnected ? 0 : 1000,
     }
   );
+
+  useServerEvent('scan', ({ server, recentOnly, ...status }) => {
+    if (server === MediaServerType.PLEX && !recentOnly) {
+      revalidateSync(status, false);
+    }
+  });
   const intl = useIntl();
   const { addToast, removeToast } = useToasts();
 
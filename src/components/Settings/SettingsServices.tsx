@@ -7,13 +7,19 @@ import LoadingSpinner from '@app/components/Common/LoadingSpinner';
 import Modal from '@app/components/Common/Modal';
 import PageTitle from '@app/components/Common/PageTitle';
 import OverrideRuleModal from '@app/components/Settings/OverrideRule/OverrideRuleModal';
+import OverrideRuleTestModal from '@app/components/Settings/OverrideRule/OverrideRuleTestModal';
 import OverrideRuleTiles from '@app/components/Settings/OverrideRule/OverrideRuleTiles';
 import RadarrModal from '@app/components/Settings/RadarrModal';
 import SonarrModal from '@app/components/Settings/SonarrModal';
 import globalMessages from '@app/i18n/globalMessages';
 import defineMessages from '@app/utils/defineMessages';
 import { Transition } from '@headlessui/react';
-import { PencilIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/solid';
+import {
+  BeakerIcon,
+  PencilIcon,
+  PlusIcon,
+  TrashIcon,
+} from '@heroicons/react/24/solid';
 import type OverrideRule from '@server/entity/OverrideRule';
 import type { OverrideRuleResultsResponse } from '@server/interfaces/api/overrideRuleInterfaces';
 import type { RadarrSettings, SonarrSettings } from '@server/lib/settings';
@@ -50,6 +56,7 @@ const messages = defineMessages('components.Settings', {
   overrideRulesDescription:
     'Override rules allow you to specify properties that will be replaced if a request matches the rule.',
   addrule: 'New Override Rule',
+  testrules: 'Test Rules',
 });
 
 interface ServerInstanceProps {
@@ -240,6 +247,7 @@ const SettingsServices = () => {
     type: 'radarr',
     serverId: null,
   });
+  const [testRulesModal, setTestRulesModal] = useState(false);
   const [overrideRuleModal, setOverrideRuleModal] = useState<{
     open: boolean;
     rule: OverrideRule | null;
@@ -538,7 +546,20 @@ const SettingsServices = () => {
             </div>
           </li>
         </ul>
+        <div className="mt-6">
+          <Button
+            buttonType="default"
+            disabled={!rules?.length}
+            onClick={() => setTestRulesModal(true)}
+          >
+            <BeakerIcon />
+            <span>{intl.formatMessage(messages.testrules)}</span>
+          </Button>
+        </div>
       </div>
+      {testRulesModal && (
+        <OverrideRuleTestModal onClose={() => setTestRulesModal(false)} />
+      )}
       {overrideRuleModal.open && radarrData && sonarrData && (
         <OverrideRuleModal
           rule={overrideRuleModal.rule}
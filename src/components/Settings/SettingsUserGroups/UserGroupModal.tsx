@@ -0,0 +1,461 @@
+import Modal from '@app/components/Common/Modal';
+import PermissionEdit from '@app/components/PermissionEdit';
+import QuotaSelector from '@app/components/QuotaSelector';
+import useSettings from '@app/hooks/useSettings';
+import { useUser } from '@app/hooks/useUser';
+import globalMessages from '@app/i18n/globalMessages';
+import defineMessages from '@app/utils/defineMessages';
+import { Transition } from '@headlessui/react';
+import { MediaServerType } from '@server/constants/server';
+import type { QuotaPeriod, QuotaType } from '@server/constants/user';
+import type UserGroup from '@server/entity/UserGroup';
+import type {
+  ServiceCommonServer,
+  ServiceCommonServerWithDetails,
+} from '@server/interfaces/api/serviceInterfaces';
+import type { UserGroupBody } from '@server/interfaces/api/userGroupInterfaces';
+import type {
+  JellyfinSettings,
+  Library,
+  PlexSettings,
+} from '@server/lib/settings';
+import axios from 'axios';
+import { Field, Formik } from 'formik';
+import { useIntl } from 'react-intl';
+import { useToasts } from 'react-toast-notifications';
+import useSWR from 'swr';
+import * as Yup from 'yup';
+
+const messages = defineMessages('components.Settings.UserGroupModal', {
+  creategroup: 'New User Group',
+  editgroup: 'Edit User Group',
+  create: 'Create Group',
+  name: 'Group Name',
+  permissions: 'Permissions',
+  permissionsDescription:
+    'Members receive these permissions in addition to their own.',
+  requestLimits: 'Request Limits',
+  requestLimitsDescription:
+    'Replaces the default request limits of members without their own limits.',
+  movierequestlimit: 'Movie Request Limit',
+  seriesrequestlimit: 'Series Request Limit',
+  enableOverride: 'Override Default Limit',
+  defaultServers: 'Default Servers',
+  defaultServersDescription:
+    'Requests from members which do not select a server are sent to these servers.',
+  radarrServer: 'Radarr Server',
+  sonarrServer: 'Sonarr Server',
+  defaultServer: 'Default Server',
+  defaultProfile: 'Default Quality Profile',
+  fourK: '{name} (4K)',
+  libraries: 'Libraries',
+  librariesDescription:
+    'Libraries members are allowed to access. Leave all unchecked to allow every library.',
+  nolibraries: 'No libraries have been enabled.',
+  validationName: 'You must provide a name',
+  groupCreated: 'User group created successfully!',
+  groupUpdated: 'User group updated successfully!',
+  groupFailed: 'Something went wrong while saving the user group.',
+  groupExists: 'A user group with this name already exists.',
+});
+
+interface DefaultServiceSelectorProps {
+  type: 'radarr' | 'sonarr';
+  serverId: string;
+  profileId: string;
+  onChange: (serverId: string, profileId: string) => void;
+}
+
+const DefaultServiceSelector = ({
+  type,
+  serverId,
+  profileId,
+  onChange,
+}: DefaultServiceSelectorProps) => {
+  const intl = useIntl();
+  const { data: servers } = useSWR<ServiceCommonServer[]>(
+    `/api/v1/service/${type}`
+  );
+  const { data: serverData } = useSWR<ServiceCommonServerWithDetails>(
+    serverId !== '' ? `/api/v1/service/${type}/${serverId}` : null
+  );
+
+  return (
+    <div className="flex flex-col space-y-2 sm:flex-row sm:space-y-0 sm:space-x-2">
+      <select
+        id={`${type}ServerId`}
+        value={serverId}
+        onChange={(e) => onChange(e.target.value, '')}
+      >
+        <option value="">{intl.formatMessage(messages.defaultServer)}</option>
+        {servers?.map((server) => (
+          <option key={`${type}-server-${server.id}`} value={server.id}>
+            {server.is4k
+              ? intl.formatMessage(messages.fourK, { name: server.name })
+              : server.name}
+          </option>
+        ))}
+      </select>
+      <select
+        id={`${type}ProfileId`}
+        value={profileId}
+        onChange={(e) => onChange(serverId, e.target.value)}
+        disabled={serverId === ''}
+      >
+        <option value="">{intl.formatMessage(messages.defaultProfile)}</option>
+        {serverData?.profiles.map((profile) => (
+          <option key={`${type}-profile-${profile.id}`} value={profile.id}>
+            {profile.name}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+const toNumberOrNull = (value: string): number | null =>
+  value !== '' ? Number(value) : null;
+
+interface UserGroupModalProps {
+  group: UserGroup | null;
+  onClose: () => void;
+}
+
+const UserGroupModal = ({ onClose, group }: UserGroupModalProps) => {
+  const intl = useIntl();
+  const { addToast } = useToasts();
+  const { user: currentUser } = useUser();
+  const settings = useSettings();
+  const { data: plexSettings } = useSWR<PlexSettings>(
+    settings.currentSettings.mediaServerTypes.includes(MediaServerType.PLEX)
+      ? '/api/v1/settings/plex'
+      : null
+  );
+  const { data: jellyfinSettings } = useSWR<JellyfinSettings>(
+    settings.currentSettings.mediaServerTypes.some(
+      (type) =>
+        type === MediaServerType.JELLYFIN || type === MediaServerType.EMBY
+    )
+      ? '/api/v1/settings/jellyfin'
+      : null
+  );
+  const libraries: Library[] = [
+    ...(plexSettings?.libraries ?? []),
+    ...(jellyfinSettings?.libraries ?? []),
+  ].filter((library) => library.enabled);
+
+  const UserGroupSchema = Yup.object().shape({
+    name: Yup.string()
+      .trim()
+      .required(intl.formatMessage(messages.validationName)),
+  });
+
+  return (
+    <Transition
+      as="div"
+      appear
+      show
+      enter="transition-opacity ease-in-out duration-300"
+      enterFrom="opacity-0"
+      enterTo="opacity-100"
+      leave="transition-opacity ease-in-out duration-300"
+      leaveFrom="opacity-100"
+      leaveTo="opacity-0"
+    >
+      <Formik
+        initialValues={{
+          name: group?.name ?? '',
+          permissions: group?.permissions ?? 0,
+          movieQuotaEnabled:
+            group?.movieQuotaLimit !== null &&
+            group?.movieQuotaLimit !== undefined,
+          movieQuotaLimit: group?.movieQuotaLimit ?? undefined,
+          movieQuotaDays: group?.movieQuotaDays ?? undefined,
+          movieQuotaType: group?.movieQuotaType ?? undefined,
+          movieQuotaPeriod: group?.movieQuotaPeriod ?? undefined,
+          tvQuotaEnabled:
+            group?.tvQuotaLimit !== null && group?.tvQuotaLimit !== undefined,
+          tvQuotaLimit: group?.tvQuotaLimit ?? undefined,
+          tvQuotaDays: group?.tvQuotaDays ?? undefined,
+          tvQuotaType: group?.tvQuotaType ?? undefined,
+          tvQuotaPeriod: group?.tvQuotaPeriod ?? undefined,
+          radarrServerId: group?.radarrServerId?.toString() ?? '',
+          radarrProfileId: group?.radarrProfileId?.toString() ?? '',
+          sonarrServerId: group?.sonarrServerId?.toString() ?? '',
+          sonarrProfileId: group?.sonarrProfileId?.toString() ?? '',
+          allowedLibraries: group?.allowedLibraries ?? [],
+        }}
+        validationSchema={UserGroupSchema}
+        onSubmit={async (values) => {
+          try {
+            const submission: UserGroupBody = {
+              name: values.name,
+              permissions: values.permissions,
+              movieQuotaLimit: values.movieQuotaEnabled
+                ? values.movieQuotaLimit
+                : null,
+              movieQuotaDays: values.movieQuotaEnabled
+                ? values.movieQuotaDays
+                : null,
+              movieQuotaType: values.movieQuotaEnabled
+                ? (values.movieQuotaType as QuotaType | undefined)
+                : null,
+              movieQuotaPeriod: values.movieQuotaEnabled
+                ? (values.movieQuotaPeriod as QuotaPeriod | undefined)
+                : null,
+              tvQuotaLimit: values.tvQuotaEnabled ? values.tvQuotaLimit : null,
+              tvQuotaDays: values.tvQuotaEnabled ? values.tvQuotaDays : null,
+              tvQuotaType: values.tvQuotaEnabled
+                ? (values.tvQuotaType as QuotaType | undefined)
+                : null,
+              tvQuotaPeriod: values.tvQuotaEnabled
+                ? (values.tvQuotaPeriod as QuotaPeriod | undefined)
+                : null,
+              radarrServerId: toNumberOrNull(values.radarrServerId),
+              radarrProfileId: toNumberOrNull(values.radarrProfileId),
+              sonarrServerId: toNumberOrNull(values.sonarrServerId),
+              sonarrProfileId: toNumberOrNull(values.sonarrProfileId),
+              allowedLibraries: values.allowedLibraries,
+            };
+            if (!group) {
+              await axios.post('/api/v1/userGroup', submission);
+              addToast(intl.formatMessage(messages.groupCreated), {
+                appearance: 'success',
+                autoDismiss: true,
+              });
+            } else {
+              await axios.put(`/api/v1/userGroup/${group.id}`, submission);
+              addToast(intl.formatMessage(messages.groupUpdated), {
+                appearance: 'success',
+                autoDismiss: true,
+              });
+            }
+            onClose();
+          } catch (e) {
+            addToast(
+              intl.formatMessage(
+                e?.response?.status === 409
+                  ? messages.groupExists
+                  : messages.groupFailed
+              ),
+              {
+                appearance: 'error',
+                autoDismiss: true,
+              }
+            );
+          }
+        }}
+      >
+        {({
+          errors,
+          touched,
+          values,
+          handleSubmit,
+          setFieldValue,
+          isSubmitting,
+          isValid,
+        }) => {
+          return (
+            <Modal
+              onCancel={onClose}
+              okButtonType="primary"
+              okText={
+                isSubmitting
+                  ? intl.formatMessage(globalMessages.saving)
+                  : group
+                  ? intl.formatMessage(globalMessages.save)
+                  : intl.formatMessage(messages.create)
+              }
+              okDisabled={isSubmitting || !isValid}
+              onOk={() => handleSubmit()}
+              title={
+                !group
+                  ? intl.formatMessage(messages.creategroup)
+                  : intl.formatMessage(messages.editgroup)
+              }
+            >
+              <div className="mb-6">
+                <div className="form-row">
+                  <label htmlFor="name" className="text-label">
+                    {intl.formatMessage(messages.name)}
+                    <span className="label-required">*</span>
+                  </label>
+                  <div className="form-input-area">
+                    <div className="form-input-field">
+                      <Field id="name" name="name" type="text" />
+                    </div>
+                    {errors.name &&
+                      touched.name &&
+                      typeof errors.name === 'string' && (
+                        <div className="error">{errors.name}</div>
+                      )}
+                  </div>
+                </div>
+                <h3 className="text-lg font-bold leading-8 text-gray-100">
+                  {intl.formatMessage(messages.permissions)}
+                </h3>
+                <p className="description">
+                  {intl.formatMessage(messages.permissionsDescription)}
+                </p>
+                <div className="mb-6">
+                  <PermissionEdit
+                    actingUser={currentUser}
+                    currentPermission={values.permissions}
+                    onUpdate={(newPermission) =>
+                      setFieldValue('permissions', newPermission)
+                    }
+                  />
+                </div>
+                <h3 className="text-lg font-bold leading-8 text-gray-100">
+                  {intl.formatMessage(messages.requestLimits)}
+                </h3>
+                <p className="description">
+                  {intl.formatMessage(messages.requestLimitsDescription)}
+                </p>
+                <div className="form-row">
+                  <label htmlFor="movieQuotaEnabled" className="text-label">
+                    {intl.formatMessage(messages.movierequestlimit)}
+                  </label>
+                  <div className="form-input-area">
+                    <div className="flex flex-col">
+                      <div className="mb-4 flex items-center">
+                        <Field
+                          type="checkbox"
+                          id="movieQuotaEnabled"
+                          name="movieQuotaEnabled"
+                        />
+                        <span className="ml-2 text-gray-300">
+                          {intl.formatMessage(messages.enableOverride)}
+                        </span>
+                      </div>
+                      <QuotaSelector
+                        isDisabled={!values.movieQuotaEnabled}
+                        dayFieldName="movieQuotaDays"
+                        limitFieldName="movieQuotaLimit"
+                        typeFieldName="movieQuotaType"
+                        periodFieldName="movieQuotaPeriod"
+                        mediaType="movie"
+                        onChange={setFieldValue}
+                        defaultDays={values.movieQuotaDays}
+                        defaultLimit={values.movieQuotaLimit}
+                        defaultType={values.movieQuotaType}
+                        defaultPeriod={values.movieQuotaPeriod}
+                      />
+                    </div>
+                  </div>
+                </div>
+                <div className="form-row">
+                  <label htmlFor="tvQuotaEnabled" className="text-label">
+                    {intl.formatMessage(messages.seriesrequestlimit)}
+                  </label>
+                  <div className="form-input-area">
+                    <div className="flex flex-col">
+                      <div className="mb-4 flex items-center">
+                        <Field
+                          type="checkbox"
+                          id="tvQuotaEnabled"
+                          name="tvQuotaEnabled"
+                        />
+                        <span className="ml-2 text-gray-300">
+                          {intl.formatMessage(messages.enableOverride)}
+                        </span>
+                      </div>
+                      <QuotaSelector
+                        isDisabled={!values.tvQuotaEnabled}
+                        dayFieldName="tvQuotaDays"
+                        limitFieldName="tvQuotaLimit"
+                        typeFieldName="tvQuotaType"
+                        periodFieldName="tvQuotaPeriod"
+                        mediaType="tv"
+                        onChange={setFieldValue}
+                        defaultDays={values.tvQuotaDays}
+                        defaultLimit={values.tvQuotaLimit}
+                        defaultType={values.tvQuotaType}
+                        defaultPeriod={values.tvQuotaPeriod}
+                      />
+                    </div>
+                  </div>
+                </div>
+                <h3 className="mt-4 text-lg font-bold leading-8 text-gray-100">
+                  {intl.formatMessage(messages.defaultServers)}
+                </h3>
+                <p className="description">
+                  {intl.formatMessage(messages.defaultServersDescription)}
+                </p>
+                <div className="form-row">
+                  <label htmlFor="radarrServerId" className="text-label">
+                    {intl.formatMessage(messages.radarrServer)}
+                  </label>
+                  <div className="form-input-area">
+                    <DefaultServiceSelector
+                      type="radarr"
+                      serverId={values.radarrServerId}
+                      profileId={values.radarrProfileId}
+                      onChange={(serverId, profileId) => {
+                        setFieldValue('radarrServerId', serverId);
+                        setFieldValue('radarrProfileId', profileId);
+                      }}
+                    />
+                  </div>
+                </div>
+                <div className="form-row">
+                  <label htmlFor="sonarrServerId" className="text-label">
+                    {intl.formatMessage(messages.sonarrServer)}
+                  </label>
+                  <div className="form-input-area">
+                    <DefaultServiceSelector
+                      type="sonarr"
+                      serverId={values.sonarrServerId}
+                      profileId={values.sonarrProfileId}
+                      onChange={(serverId, profileId) => {
+                        setFieldValue('sonarrServerId', serverId);
+                        setFieldValue('sonarrProfileId', profileId);
+                      }}
+                    />
+                  </div>
+                </div>
+                <h3 className="mt-4 text-lg font-bold leading-8 text-gray-100">
+                  {intl.formatMessage(messages.libraries)}
+                </h3>
+                <p className="description">
+                  {intl.formatMessage(messages.librariesDescription)}
+                </p>
+                {!libraries.length ? (
+                  <p className="text-sm text-gray-400">
+                    {intl.formatMessage(messages.nolibraries)}
+                  </p>
+                ) : (
+                  libraries.map((library) => (
+                    <div
+                      key={`group-library-${library.id}`}
+                      className="relative mt-4 flex items-start first:mt-0"
+                    >
+                      <div className="flex h-6 items-center">
+                        <Field
+                          type="checkbox"
+                          id={`group-library-${library.id}`}
+                          name="allowedLibraries"
+                          value={library.id}
+                        />
+                      </div>
+                      <div className="ml-3 text-sm leading-6">
+                        <label
+                          htmlFor={`group-library-${library.id}`}
+                          className="block font-medium text-white"
+                        >
+                          {library.name}
+                        </label>
+                      </div>
+                    </div>
+                  ))
+                )}
+              </div>
+            </Modal>
+          );
+        }}
+      </Formik>
+    </Transition>
+  );
+};
+
+export default UserGroupModal;
@@ -0,0 +1,192 @@
+import Button from '@app/components/Common/Button';
+import LoadingSpinner from '@app/components/Common/LoadingSpinner';
+import PageTitle from '@app/components/Common/PageTitle';
+import UserGroupModal from '@app/components/Settings/SettingsUserGroups/UserGroupModal';
+import { Permission, useUser } from '@app/hooks/useUser';
+import globalMessages from '@app/i18n/globalMessages';
+import defineMessages from '@app/utils/defineMessages';
+import { PencilIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/solid';
+import type UserGroup from '@server/entity/UserGroup';
+import type { UserGroupResultsResponse } from '@server/interfaces/api/userGroupInterfaces';
+import { hasPermission } from '@server/lib/permissions';
+import axios from 'axios';
+import { useState } from 'react';
+import { useIntl } from 'react-intl';
+import useSWR from 'swr';
+
+const messages = defineMessages('components.Settings.SettingsUserGroups', {
+  groups: 'Groups',
+  userGroups: 'User Groups',
+  userGroupsDescription:
+    'Users inherit the permissions, request limits, default servers and libraries of their groups. Groups can be assigned from the permissions of a user, or to several users at once from the user list.',
+  addgroup: 'New User Group',
+  members: '{count, plural, one {# member} other {# members}}',
+  admin: 'Grants admin privileges',
+  movieLimit: 'Movie Limit',
+  seriesLimit: 'Series Limit',
+  defaultServers: 'Custom default servers',
+  libraries: '{count, plural, one {# library} other {# libraries}}',
+  unlimited: 'Unlimited',
+});
+
+const SettingsUserGroups = () => {
+  const intl = useIntl();
+  const { user: currentUser } = useUser();
+  const {
+    data: groups,
+    error,
+    mutate: revalidate,
+  } = useSWR<UserGroupResultsResponse>('/api/v1/userGroup');
+  const [userGroupModal, setUserGroupModal] = useState<{
+    open: boolean;
+    group: UserGroup | null;
+  }>({
+    open: false,
+    group: null,
+  });
+
+  if (!groups && !error) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <>
+      <PageTitle
+        title={[
+          intl.formatMessage(messages.groups),
+          intl.formatMessage(globalMessages.settings),
+        ]}
+      />
+      <div className="mb-6">
+        <h3 className="heading">{intl.formatMessage(messages.userGroups)}</h3>
+        <p className="description">
+          {intl.formatMessage(messages.userGroupsDescription)}
+        </p>
+      </div>
+      <div className="section">
+        <ul className="grid max-w-6xl grid-cols-1 gap-6 lg:grid-cols-2 xl:grid-cols-3">
+          {groups?.map((group) => {
+            const isLocked =
+              currentUser?.id !== 1 &&
+              hasPermission(Permission.ADMIN, group.permissions);
+
+            return (
+              <li
+                key={`user-group-${group.id}`}
+                className="flex h-full flex-col rounded-lg bg-gray-800 text-left shadow ring-1 ring-gray-500"
+              >
+                <div className="flex w-full flex-1 items-center justify-between space-x-6 p-6">
+                  <div className="flex-1 truncate">
+                    <h4 className="mb-2 truncate text-lg font-semibold text-white">
+                      {group.name}
+                    </h4>
+                    <p className="truncate text-sm leading-5 text-gray-300">
+                      {intl.formatMessage(messages.members, {
+                        count: group.userCount ?? 0,
+                      })}
+                    </p>
+                    {hasPermission(Permission.ADMIN, group.permissions) && (
+                      <p className="truncate text-sm leading-5 text-gray-300">
+                        {intl.formatMessage(messages.admin)}
+                      </p>
+                    )}
+                    {group.movieQuotaLimit !== null &&
+                      group.movieQuotaLimit !== undefined && (
+                        <p className="truncate text-sm leading-5 text-gray-300">
+                          <span className="mr-2 font-bold">
+                            {intl.formatMessage(messages.movieLimit)}
+                          </span>
+                          {group.movieQuotaLimit ||
+                            intl.formatMessage(messages.unlimited)}
+                        </p>
+                      )}
+                    {group.tvQuotaLimit !== null &&
+                      group.tvQuotaLimit !== undefined && (
+                        <p className="truncate text-sm leading-5 text-gray-300">
+                          <span className="mr-2 font-bold">
+                            {intl.formatMessage(messages.seriesLimit)}
+                          </span>
+                          {group.tvQuotaLimit ||
+                            intl.formatMessage(messages.unlimited)}
+                        </p>
+                      )}
+                    {(group.radarrServerId !== null ||
+                      group.sonarrServerId !== null) && (
+                      <p className="truncate text-sm leading-5 text-gray-300">
+                        {intl.formatMessage(messages.defaultServers)}
+                      </p>
+                    )}
+                    {!!group.allowedLibraries.length && (
+                      <p className="truncate text-sm leading-5 text-gray-300">
+                        {intl.formatMessage(messages.libraries, {
+                          count: group.allowedLibraries.length,
+                        })}
+                      </p>
+                    )}
+                  </div>
+                </div>
+                <div className="border-t border-gray-500">
+                  <div className="-mt-px flex">
+                    <div className="flex w-0 flex-1 border-r border-gray-500">
+                      <button
+                        onClick={() => setUserGroupModal({ open: true, group })}
+                        disabled={isLocked}
+                        className="focus:ring-blue relative -mr-px inline-flex w-0 flex-1 items-center justify-center rounded-bl-lg border border-transparent py-4 text-sm font-medium leading-5 text-gray-200 transition duration-150 ease-in-out hover:text-white focus:z-10 focus:border-gray-500 focus:outline-none disabled:opacity-50"
+                      >
+                        <PencilIcon className="mr-2 h-5 w-5" />
+                        <span>{intl.formatMessage(globalMessages.edit)}</span>
+                      </button>
+                    </div>
+                    <div className="-ml-px flex w-0 flex-1">
+                      <button
+                        onClick={async () => {
+                          await axios.delete(`/api/v1/userGroup/${group.id}`);
+                          revalidate();
+                        }}
+                        disabled={isLocked}
+                        className="focus:ring-blue relative inline-flex w-0 flex-1 items-center justify-center rounded-br-lg border border-transparent py-4 text-sm font-medium leading-5 text-gray-200 transition duration-150 ease-in-out hover:text-white focus:z-10 focus:border-gray-500 focus:outline-none disabled:opacity-50"
+                      >
+                        <TrashIcon className="mr-2 h-5 w-5" />
+                        <span>{intl.formatMessage(globalMessages.delete)}</span>
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              </li>
+            );
+          })}
+          <li className="min-h-[8rem] rounded-lg border-2 border-dashed border-gray-400 shadow sm:min-h-[11rem]">
+            <div className="flex h-full w-full items-center justify-center">
+              <Button
+                buttonType="ghost"
+                onClick={() =>
+                  setUserGroupModal({
+                    open: true,
+                    group: null,
+                  })
+                }
+              >
+                <PlusIcon />
+                <span>{intl.formatMessage(messages.addgroup)}</span>
+              </Button>
+            </div>
+          </li>
+        </ul>
+      </div>
+      {userGroupModal.open && (
+        <UserGroupModal
+          group={userGroupModal.group}
+          onClose={() => {
+            setUserGroupModal({
+              open: false,
+              group: null,
+            });
+            revalidate();
+          }}
+        />
+      )}
+    </>
+  );
+};
+
+export default SettingsUserGroups;
@@ -7,9 +7,13 @@ import QuotaSelector from '@app/components/QuotaSelector';
 import useSettings from '@app/hooks/useSettings';
 import globalMessages from '@app/i18n/globalMessages';
 import defineMessages from '@app/utils/defineMessages';
-import { ArrowDownOnSquareIcon } from '@heroicons/react/24/outline';
+import {
+  ArrowDownOnSquareIcon,
+  PlusIcon,
+  TrashIcon,
+} from '@heroicons/react/24/outline';
 import { MediaServerType } from '@server/constants/server';
-import type { MainSettings } from '@server/lib/settings';
+import type { GroupQuota, MainSettings } from '@server/lib/settings';
 import axios from 'axios';
 import { Field, Form, Formik } from 'formik';
 import { useIntl } from 'react-intl';
@@ -35,10 +39,24 @@ const messages = defineMessages('components.Settings.SettingsUsers', {
   newPlexLogin: 'Enable New {mediaServerName} Sign-In',
   newPlexLoginTip:
     'Allow {mediaServerName} users to sign in without first being imported',
+  accountRequests: 'Enable Account Requests',
+  accountRequestsTip:
+    'Allow visitors to request a local account, which is created once an admin approves the request',
   movieRequestLimitLabel: 'Global Movie Request Limit',
   tvRequestLimitLabel: 'Global Series Request Limit',
+  groupQuotas: 'Group Request Limits',
+  groupQuotasTip:
+    'Users with any of the selected permissions receive these limits instead of the global ones. The first matching group is used.',
+  groupQuotaPermissions: 'Permissions',
+  groupQuotaMovie: 'Movie Request Limit',
+  groupQuotaTv: 'Series Request Limit',
+  addGroupQuota: 'Add Group Limit',
+  removeGroupQuota: 'Remove Group Limit',
   defaultPermissions: 'Default Permissions',
   defaultPermissionsTip: 'Initial permissions assigned to new users',
+  twoFactorRequiredPermissions: 'Require Two-Factor Authentication',
+  twoFactorRequiredPermissionsTip:
+    'Users with any of the selected permissions must set up two-factor authentication to sign in with a local account',
 });
 
 const SettingsUsers = () => {
@@ -107,11 +125,19 @@ const SettingsUsers = () => {
             localLogin: data?.localLogin,
             mediaServerLogin: data?.mediaServerLogin,
             newPlexLogin: data?.newPlexLogin,
+            accountRequestsEnabled: data?.accountRequestsEnabled,
             movieQuotaLimit: data?.defaultQuotas.movie.quotaLimit ?? 0,
             movieQuotaDays: data?.defaultQuotas.movie.quotaDays ?? 7,
             tvQuotaLimit: data?.defaultQuotas.tv.quotaLimit ?? 0,
             tvQuotaDays: data?.defaultQuotas.tv.quotaDays ?? 7,
+            movieQuotaType: data?.defaultQuotas.movie.quotaType,
+            movieQuotaPeriod: data?.defaultQuotas.movie.quotaPeriod,
+            tvQuotaType: data?.defaultQuotas.tv.quotaType,
+            tvQuotaPeriod: data?.defaultQuotas.tv.quotaPeriod,
+            groupQuotas: data?.groupQuotas ?? [],
             defaultPermissions: data?.defaultPermissions ?? 0,
+            twoFactorRequiredPermissions:
+              data?.twoFactorRequiredPermissions ?? 0,
           }}
           validationSchema={schema}
           enableReinitialize
@@ -121,17 +147,25 @@ const SettingsUsers = () => {
                 localLogin: values.localLogin,
                 mediaServerLogin: values.mediaServerLogin,
                 newPlexLogin: values.newPlexLogin,
+                accountRequestsEnabled: values.accountRequestsEnabled,
                 defaultQuotas: {
                   movie: {
                     quotaLimit: values.movieQuotaLimit,
                     quotaDays: values.movieQuotaDays,
+                    quotaType: values.movieQuotaType,
+                    quotaPeriod: values.movieQuotaPeriod,
                   },
                   tv: {
                     quotaLimit: values.tvQuotaLimit,
                     quotaDays: values.tvQuotaDays,
+                    quotaType: values.tvQuotaType,
+                    quotaPeriod: values.tvQuotaPeriod,
                   },
                 },
+                groupQuotas: values.groupQuotas,
                 defaultPermissions: values.defaultPermissions,
+                twoFactorRequiredPermissions:
+                  values.twoFactorRequiredPermissions,
               });
               mutate('/api/v1/settings/public');
 
@@ -228,6 +262,31 @@ const SettingsUsers = () => {
                     />
                   </div>
                 </div>
+                <div className="form-row">
+                  <label
+                    htmlFor="accountRequestsEnabled"
+                    className="checkbox-label"
+                  >
+                    {intl.formatMessage(messages.accountRequests)}
+                    <span className="label-tip">
+                      {intl.formatMessage(messages.accountRequestsTip)}
+                    </span>
+                  </label>
+                  <div className="form-input-area">
+                    <Field
+                      type="checkbox"
+                      id="accountRequestsEnabled"
+                      name="accountRequestsEnabled"
+                      disabled={!values.localLogin}
+                      onChange={() => {
+                        setFieldValue(
+                          'accountRequestsEnabled',
+                          !values.accountRequestsEnabled
+                        );
+                      }}
+                    />
+                  </div>
+                </div>
                 <div className="form-row">
                   <label htmlFor="applicationTitle" className="text-label">
                     {intl.formatMessage(messages.movieRequestLimitLabel)}
@@ -237,9 +296,13 @@ const SettingsUsers = () => {
                       onChange={setFieldValue}
                       dayFieldName="movieQuotaDays"
                       limitFieldName="movieQuotaLimit"
+                      typeFieldName="movieQuotaType"
+                      periodFieldName="movieQuotaPeriod"
                       mediaType="movie"
                       defaultDays={values.movieQuotaDays}
                       defaultLimit={values.movieQuotaLimit}
+                      defaultType={values.movieQuotaType}
+                      defaultPeriod={values.movieQuotaPeriod}
                     />
                   </div>
                 </div>
@@ -252,12 +315,126 @@ const SettingsUsers = () => {
                       onChange={setFieldValue}
                       dayFieldName="tvQuotaDays"
                       limitFieldName="tvQuotaLimit"
+                      typeFieldName="tvQuotaType"
+                      periodFieldName="tvQuotaPeriod"
                       mediaType="tv"
                       defaultDays={values.tvQuotaDays}
                       defaultLimit={values.tvQuotaLimit}
+                      defaultType={values.tvQuotaType}
+                      defaultPeriod={values.tvQuotaPeriod}
                     />
                   </div>
                 </div>
+                <div
+                  role="group"
+                  aria-labelledby="group-quotas-label"
+                  className="form-group"
+                >
+                  <div className="form-row">
+                    <span id="group-quotas-label" className="group-label">
+                      {intl.formatMessage(messages.groupQuotas)}
+                      <span className="label-tip">
+                        {intl.formatMessage(messages.groupQuotasTip)}
+                      </span>
+                    </span>
+                    <div className="form-input-area">
+                      <div className="max-w-lg space-y-6">
+                        {values.groupQuotas.map(
+                          (groupQuota: GroupQuota, index: number) => (
+                            <div
+                              key={`group-quota-${index}-${values.groupQuotas.length}`}
+                              className="space-y-4 rounded-md border border-gray-700 p-4"
+                            >
+                              <div className="flex items-center justify-between">
+                                <span className="font-bold">
+                                  {intl.formatMessage(
+                                    messages.groupQuotaPermissions
+                                  )}
+                                </span>
+                                <Button
+                                  buttonType="danger"
+                                  buttonSize="sm"
+                                  type="button"
+                                  onClick={() =>
+                                    setFieldValue(
+                                      'groupQuotas',
+                                      values.groupQuotas.filter(
+                                        (_, i: number) => i !== index
+                                      )
+                                    )
+                                  }
+                                  aria-label={intl.formatMessage(
+                                    messages.removeGroupQuota
+                                  )}
+                                >
+                                  <TrashIcon />
+                                </Button>
+                              </div>
+                              <PermissionEdit
+                                currentPermission={groupQuota.permissions}
+                                onUpdate={(newPermissions) =>
+                                  setFieldValue(
+                                    `groupQuotas.${index}.permissions`,
+                                    newPermissions
+                                  )
+                                }
+                              />
+                              <div>
+                                <div className="mb-2 font-bold">
+                                  {intl.formatMessage(messages.groupQuotaMovie)}
+                                </div>
+                                <QuotaSelector
+                                  onChange={setFieldValue}
+                                  dayFieldName={`groupQuotas.${index}.movie.quotaDays`}
+                                  limitFieldName={`groupQuotas.${index}.movie.quotaLimit`}
+                                  typeFieldName={`groupQuotas.${index}.movie.quotaType`}
+                                  periodFieldName={`groupQuotas.${index}.movie.quotaPeriod`}
+                                  mediaType="movie"
+                                  defaultDays={groupQuota.movie.quotaDays}
+                                  defaultLimit={groupQuota.movie.quotaLimit}
+                                  defaultType={groupQuota.movie.quotaType}
+                                  defaultPeriod={groupQuota.movie.quotaPeriod}
+                                />
+                              </div>
+                              <div>
+                                <div className="mb-2 font-bold">
+                                  {intl.formatMessage(messages.groupQuotaTv)}
+                                </div>
+                                <QuotaSelector
+                                  onChange={setFieldValue}
+                                  dayFieldName={`groupQuotas.${index}.tv.quotaDays`}
+                                  limitFieldName={`groupQuotas.${index}.tv.quotaLimit`}
+                                  typeFieldName={`groupQuotas.${index}.tv.quotaType`}
+                                  periodFieldName={`groupQuotas.${index}.tv.quotaPeriod`}
+                                  mediaType="tv"
+                                  defaultDays={groupQuota.tv.quotaDays}
+                                  defaultLimit={groupQuota.tv.quotaLimit}
+                                  defaultType={groupQuota.tv.quotaType}
+                                  defaultPeriod={groupQuota.tv.quotaPeriod}
+                                />
+                              </div>
+                            </div>
+                          )
+                        )}
+                        <Button
+                          buttonSize="sm"
+                          type="button"
+                          onClick={() =>
+                            setFieldValue('groupQuotas', [
+                              ...values.groupQuotas,
+                              { permissions: 0, movie: {}, tv: {} },
+                            ])
+                          }
+                        >
+                          <PlusIcon />
+                          <span>
+                            {intl.formatMessage(messages.addGroupQuota)}
+                          </span>
+                        </Button>
+                      </div>
+                    </div>
+                  </div>
+                </div>
                 <div
                   role="group"
                   aria-labelledby="group-label"
@@ -282,6 +459,39 @@ const SettingsUsers = () => {
                     </div>
                   </div>
                 </div>
+                <div
+                  role="group"
+                  aria-labelledby="two-factor-group-label"
+                  className="form-group"
+                >
+                  <div className="form-row">
+                    <span id="two-factor-group-label" className="group-label">
+                      {intl.formatMessage(
+                        messages.twoFactorRequiredPermissions
+                      )}
+                      <span className="label-tip">
+                        {intl.formatMessage(
+                          messages.twoFactorRequiredPermissionsTip
+                        )}
+                      </span>
+                    </span>
+                    <div className="form-input-area">
+                      <div className="max-w-lg">
+                        <PermissionEdit
+                          currentPermission={
+                            values.twoFactorRequiredPermissions
+                          }
+                          onUpdate={(newPermissions) =>
+                            setFieldValue(
+                              'twoFactorRequiredPermissions',
+                              newPermissions
+                            )
+                          }
+                        />
+                      </div>
+                    </div>
+                  </div>
+                </div>
                 <div className="actions">
                   <div className="flex justify-end">
                     <span className="ml-3 inline-flex rounded-md shadow-sm">
@@ -112,16 +112,20 @@ function JellyfinSetup({
       validationSchema={LoginSchema}
       onSubmit={async (values) => {
         try {
-          await axios.post('/api/v1/auth/jellyfin', {
-            username: values.username,
-            password: values.password,
-            hostname: values.hostname,
-            port: values.port,
-            useSsl: values.useSsl,
-            urlBase: values.urlBase,
-            email: values.email,
-            serverType: serverType,
-          });
+          await axios.post(
+            serverType === MediaServerType.EMBY
+              ? '/api/v1/auth/emby'
+              : '/api/v1/auth/jellyfin',
+            {
+              username: values.username,
+              password: values.password,
+              hostname: values.hostname,
+              port: values.port,
+              useSsl: values.useSsl,
+              urlBase: values.urlBase,
+              email: values.email,
+            }
+          );
         } catch (e) {
           let errorMessage = null;
           switch (e?.response?.data?.message) {
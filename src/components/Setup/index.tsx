@@ -75,7 +75,7 @@ const Setup = () => {
     try {
       const endpointMap: Record<MediaServerType, string> = {
         [MediaServerType.JELLYFIN]: '/api/v1/settings/jellyfin',
-        [MediaServerType.EMBY]: '/api/v1/settings/jellyfin',
+        [MediaServerType.EMBY]: '/api/v1/settings/emby',
         [MediaServerType.PLEX]: '/api/v1/settings/plex',
         [MediaServerType.NOT_CONFIGURED]: '',
       };
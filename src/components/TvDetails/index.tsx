@@ -27,6 +27,10 @@ import StatusBadge from '@app/components/StatusBadge';
 import Season from '@app/components/TvDetails/Season';
 import useDeepLinks from '@app/hooks/useDeepLinks';
 import useLocale from '@app/hooks/useLocale';
+import {
+  useServerEvent,
+  useServerEventsConnected,
+} from '@app/hooks/useServerEvents';
 import useSettings from '@app/hooks/useSettings';
 import { Permission, UserType, useUser } from '@app/hooks/useUser';
 import globalMessages from '@app/i18n/globalMessages';
@@ -133,19 +137,37 @@ const TvDetails = ({ tv }: TvDetailsProps) => {
   const [showBlacklistModal, setShowBlacklistModal] = useState(false);
   const { addToast } = useToasts();
 
+  const eventsConnected = useServerEventsConnected();
   const {
     data,
     error,
     mutate: revalidate,
   } = useSWR<TvDetailsType>(`/api/v1/tv/${router.query.tvId}`, {
     fallbackData: tv,
-    refreshInterval: refreshIntervalHelper(
-      {
-        downloadStatus: tv?.mediaInfo?.downloadStatus,
-        downloadStatus4k: tv?.mediaInfo?.downloadStatus4k,
-      },
-      15000
-    ),
+    refreshInterval: eventsConnected
+      ? 0
+      : refreshIntervalHelper(
+          {
+            downloadStatus: tv?.mediaInfo?.downloadStatus,
+            downloadStatus4k: tv?.mediaInfo?.downloadStatus4k,
+          },
+          15000
+        ),
+  });
+
+  useServerEvent('media', (media) => {
+    if (media.mediaType === MediaType.TV && media.tmdbId === data?.id) {
+      revalidate();
+    }
+  });
+
+  useServerEvent('downloads', () => {
+    if (
+      data?.mediaInfo?.downloadStatus?.length ||
+      data?.mediaInfo?.downloadStatus4k?.length
+    ) {
+      revalidate();
+    }
   });
 
   const { data: ratingData } = useSWR<RatingResponse>(
@@ -166,11 +188,16 @@ const TvDetails = ({ tv }: TvDetailsProps) => {
     []
   );
 
-  const { mediaUrl: plexUrl, mediaUrl4k: plexUrl4k } = useDeepLinks({
+  const {
+    mediaUrl: plexUrl,
+    mediaUrl4k: plexUrl4k,
+    mediaServerLinks,
+  } = useDeepLinks({
     mediaUrl: data?.mediaInfo?.mediaUrl,
     mediaUrl4k: data?.mediaInfo?.mediaUrl4k,
     iOSPlexUrl: data?.mediaInfo?.iOSPlexUrl,
     iOSPlexUrl4k: data?.mediaInfo?.iOSPlexUrl4k,
+    mediaServerLinks: data?.mediaInfo?.mediaServerLinks,
   });
 
   if (!data && !error) {
@@ -183,32 +210,36 @@ const TvDetails = ({ tv }: TvDetailsProps) => {
 
   const mediaLinks: PlayButtonLink[] = [];
 
-  if (
-    plexUrl &&
-    hasPermission([Permission.REQUEST, Permission.REQUEST_TV], {
-      type: 'or',
-    })
-  ) {
-    mediaLinks.push({
-      text: getAvailableMediaServerName(),
-      url: plexUrl,
-      svg: <PlayIcon />,
-    });
-  }
+  mediaServerLinks.forEach((link) => {
+    if (
+      link.url &&
+      hasPermission([Permission.REQUEST, Permission.REQUEST_TV], {
+        type: 'or',
+      })
+    ) {
+      mediaLinks.push({
+        text: getAvailableMediaServerName(link.serverType),
+        url: link.url,
+        svg: <PlayIcon />,
+      });
+    }
+  });
 
-  if (
-    settings.currentSettings.series4kEnabled &&
-    plexUrl4k &&
-    hasPermission([Permission.REQUEST_4K, Permission.REQUEST_4K_TV], {
-      type: 'or',
-    })
-  ) {
-    mediaLinks.push({
-      text: getAvailable4kMediaServerName(),
-      url: plexUrl4k,
-      svg: <PlayIcon />,
-    });
-  }
+  mediaServerLinks.forEach((link) => {
+    if (
+      settings.currentSettings.series4kEnabled &&
+      link.url4k &&
+      hasPermission([Permission.REQUEST_4K, Permission.REQUEST_4K_TV], {
+        type: 'or',
+      })
+    ) {
+      mediaLinks.push({
+        text: getAvailable4kMediaServerName(link.serverType),
+        url: link.url4k,
+        svg: <PlayIcon />,
+      });
+    }
+  });
 
   const trailerVideo = data.relatedVideos
     ?.filter((r) => r.type === 'Trailer')
@@ -331,24 +362,24 @@ const TvDetails = ({ tv }: TvDetailsProps) => {
       (provider) => provider.iso_3166_1 === streamingRegion
     )?.flatrate ?? [];
 
-  function getAvailableMediaServerName() {
-    if (settings.currentSettings.mediaServerType === MediaServerType.EMBY) {
+  function getAvailableMediaServerName(serverType: MediaServerType) {
+    if (serverType === MediaServerType.EMBY) {
       return intl.formatMessage(messages.play, { mediaServerName: 'Emby' });
     }
 
-    if (settings.currentSettings.mediaServerType === MediaServerType.PLEX) {
+    if (serverType === MediaServerType.PLEX) {
       return intl.formatMessage(messages.play, { mediaServerName: 'Plex' });
     }
 
     return intl.formatMessage(messages.play, { mediaServerName: 'Jellyfin' });
   }
 
-  function getAvailable4kMediaServerName() {
-    if (settings.currentSettings.mediaServerType === MediaServerType.EMBY) {
+  function getAvailable4kMediaServerName(serverType: MediaServerType) {
+    if (serverType === MediaServerType.EMBY) {
       return intl.formatMessage(messages.play, { mediaServerName: 'Emby' });
     }
 
-    if (settings.currentSettings.mediaServerType === MediaServerType.PLEX) {
+    if (serverType === MediaServerType.PLEX) {
       return intl.formatMessage(messages.play4k, { mediaServerName: 'Plex' });
     }
 
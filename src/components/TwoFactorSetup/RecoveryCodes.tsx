@@ -0,0 +1,38 @@
+import Alert from '@app/components/Common/Alert';
+import CopyButton from '@app/components/Settings/CopyButton';
+import defineMessages from '@app/utils/defineMessages';
+import { useIntl } from 'react-intl';
+
+const messages = defineMessages('components.TwoFactorSetup', {
+  recoveryCodes: 'Recovery Codes',
+  recoveryCodesHint:
+    'Store these codes somewhere safe. Each code can be used once to sign in if you lose access to your authenticator app. They will not be shown again.',
+  recoveryCodesCopied: 'Copied recovery codes to clipboard.',
+});
+
+interface RecoveryCodesProps {
+  codes: string[];
+}
+
+const RecoveryCodes = ({ codes }: RecoveryCodesProps) => {
+  const intl = useIntl();
+
+  return (
+    <Alert title={intl.formatMessage(messages.recoveryCodes)} type="warning">
+      <p className="mb-3">{intl.formatMessage(messages.recoveryCodesHint)}</p>
+      <div className="flex items-start gap-2">
+        <ul className="grid flex-1 grid-cols-2 gap-x-4 gap-y-1 font-mono text-sm text-white">
+          {codes.map((code) => (
+            <li key={code}>{code}</li>
+          ))}
+        </ul>
+        <CopyButton
+          textToCopy={codes.join('\n')}
+          toastMessage={intl.formatMessage(messages.recoveryCodesCopied)}
+        />
+      </div>
+    </Alert>
+  );
+};
+
+export default RecoveryCodes;
@@ -0,0 +1,45 @@
+import CopyButton from '@app/components/Settings/CopyButton';
+import defineMessages from '@app/utils/defineMessages';
+import { QRCodeSVG } from 'qrcode.react';
+import { useIntl } from 'react-intl';
+
+const messages = defineMessages('components.TwoFactorSetup', {
+  scanQrCode:
+    'Scan this QR code with your authenticator app, or enter the secret manually.',
+  secretCopied: 'Copied secret to clipboard.',
+});
+
+interface TwoFactorSetupProps {
+  secret: string;
+  otpauthUrl: string;
+}
+
+const TwoFactorSetup = ({ secret, otpauthUrl }: TwoFactorSetupProps) => {
+  const intl = useIntl();
+
+  return (
+    <div className="flex flex-col items-center gap-4">
+      <p className="text-center text-sm text-gray-300">
+        {intl.formatMessage(messages.scanQrCode)}
+      </p>
+      <div className="rounded-lg bg-white p-3">
+        <QRCodeSVG value={otpauthUrl} size={176} />
+      </div>
+      <div className="form-input-field w-full">
+        <input
+          type="text"
+          className="rounded-l-only font-mono"
+          value={secret}
+          readOnly
+        />
+        <CopyButton
+          textToCopy={secret}
+          toastMessage={intl.formatMessage(messages.secretCopied)}
+          key={secret}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default TwoFactorSetup;
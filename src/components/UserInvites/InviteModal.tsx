@@ -0,0 +1,306 @@
+import Modal from '@app/components/Common/Modal';
+import PermissionEdit from '@app/components/PermissionEdit';
+import useSettings from '@app/hooks/useSettings';
+import { useUser } from '@app/hooks/useUser';
+import globalMessages from '@app/i18n/globalMessages';
+import defineMessages from '@app/utils/defineMessages';
+import { Transition } from '@headlessui/react';
+import { MediaServerType } from '@server/constants/server';
+import type Invite from '@server/entity/Invite';
+import type { InviteBody } from '@server/interfaces/api/inviteInterfaces';
+import type { UserGroupResultsResponse } from '@server/interfaces/api/userGroupInterfaces';
+import axios from 'axios';
+import { Field, Formik } from 'formik';
+import { useIntl } from 'react-intl';
+import { useToasts } from 'react-toast-notifications';
+import useSWR from 'swr';
+import * as Yup from 'yup';
+
+const messages = defineMessages('components.UserInvites.InviteModal', {
+  createinvite: 'New Invite',
+  editinvite: 'Edit Invite',
+  create: 'Create Invite',
+  code: 'Invite Code',
+  codeTip: 'Leave blank to generate a random code',
+  maxUses: 'Maximum Uses',
+  maxUsesTip: 'Leave blank to allow unlimited uses',
+  expiresAt: 'Expiration Date',
+  expiresAtTip: 'Leave blank for an invite which never expires',
+  group: 'User Group',
+  nogroup: 'No Group',
+  customPermissions: 'Custom Permissions',
+  customPermissionsTip:
+    'New users receive the default permissions unless custom permissions are set',
+  createJellyfinUser: 'Create {mediaServerName} Account',
+  createJellyfinUserTip:
+    'Create an account on the media server for users who sign up with this invite',
+  validationCode:
+    'The code must be 4 to 64 letters, numbers, dashes or underscores',
+  validationMaxUses: 'You must provide a valid number of uses',
+  inviteCreated: 'Invite created successfully!',
+  inviteUpdated: 'Invite updated successfully!',
+  inviteFailed: 'Something went wrong while saving the invite.',
+  inviteExists: 'An invite with this code already exists.',
+});
+
+interface InviteModalProps {
+  invite: Invite | null;
+  onClose: () => void;
+}
+
+const InviteModal = ({ onClose, invite }: InviteModalProps) => {
+  const intl = useIntl();
+  const { addToast } = useToasts();
+  const { user: currentUser } = useUser();
+  const settings = useSettings();
+  const { data: groups } =
+    useSWR<UserGroupResultsResponse>('/api/v1/userGroup');
+
+  const mediaServerTypes = settings.currentSettings.mediaServerTypes;
+  const hasJellyfin =
+    mediaServerTypes.includes(MediaServerType.JELLYFIN) ||
+    mediaServerTypes.includes(MediaServerType.EMBY);
+
+  const InviteSchema = Yup.object().shape({
+    code: Yup.string()
+      .trim()
+      .matches(/^[\w-]{4,64}$/, intl.formatMessage(messages.validationCode)),
+    maxUses: Yup.number()
+      .typeError(intl.formatMessage(messages.validationMaxUses))
+      .integer(intl.formatMessage(messages.validationMaxUses))
+      .min(1, intl.formatMessage(messages.validationMaxUses)),
+  });
+
+  return (
+    <Transition
+      as="div"
+      appear
+      show
+      enter="transition-opacity ease-in-out duration-300"
+      enterFrom="opacity-0"
+      enterTo="opacity-100"
+      leave="transition-opacity ease-in-out duration-300"
+      leaveFrom="opacity-100"
+      leaveTo="opacity-0"
+    >
+      <Formik
+        initialValues={{
+          code: invite?.code ?? '',
+          maxUses: invite?.maxUses ?? '',
+          expiresAt: invite?.expiresAt
+            ? new Date(invite.expiresAt).toISOString().slice(0, 10)
+            : '',
+          groupId: invite?.group?.id.toString() ?? '',
+          customPermissions:
+            invite?.permissions !== null && invite?.permissions !== undefined,
+          permissions: invite?.permissions ?? 0,
+          createJellyfinUser: invite?.createJellyfinUser ?? false,
+        }}
+        validationSchema={InviteSchema}
+        onSubmit={async (values) => {
+          try {
+            const submission: InviteBody = {
+              code: values.code.trim() || undefined,
+              maxUses: values.maxUses !== '' ? Number(values.maxUses) : null,
+              expiresAt: values.expiresAt
+                ? new Date(`${values.expiresAt}T23:59:59`).toISOString()
+                : null,
+              groupId: values.groupId !== '' ? Number(values.groupId) : null,
+              permissions: values.customPermissions ? values.permissions : null,
+              createJellyfinUser: hasJellyfin && values.createJellyfinUser,
+            };
+            if (!invite) {
+              await axios.post('/api/v1/invite', submission);
+              addToast(intl.formatMessage(messages.inviteCreated), {
+                appearance: 'success',
+                autoDismiss: true,
+              });
+            } else {
+              await axios.put(`/api/v1/invite/${invite.id}`, submission);
+              addToast(intl.formatMessage(messages.inviteUpdated), {
+                appearance: 'success',
+                autoDismiss: true,
+              });
+            }
+            onClose();
+          } catch (e) {
+            addToast(
+              intl.formatMessage(
+                e?.response?.status === 409
+                  ? messages.inviteExists
+                  : messages.inviteFailed
+              ),
+              {
+                appearance: 'error',
+                autoDismiss: true,
+              }
+            );
+          }
+        }}
+      >
+        {({
+          errors,
+          touched,
+          values,
+          handleSubmit,
+          setFieldValue,
+          isSubmitting,
+          isValid,
+        }) => {
+          return (
+            <Modal
+              onCancel={onClose}
+              okButtonType="primary"
+              okText={
+                isSubmitting
+                  ? intl.formatMessage(globalMessages.saving)
+                  : invite
+                  ? intl.formatMessage(globalMessages.save)
+                  : intl.formatMessage(messages.create)
+              }
+              okDisabled={isSubmitting || !isValid}
+              onOk={() => handleSubmit()}
+              title={
+                !invite
+                  ? intl.formatMessage(messages.createinvite)
+                  : intl.formatMessage(messages.editinvite)
+              }
+            >
+              <div className="mb-6">
+                <div className="form-row">
+                  <label htmlFor="code" className="text-label">
+                    {intl.formatMessage(messages.code)}
+                    <span className="label-tip">
+                      {intl.formatMessage(messages.codeTip)}
+                    </span>
+                  </label>
+                  <div className="form-input-area">
+                    <div className="form-input-field">
+                      <Field id="code" name="code" type="text" />
+                    </div>
+                    {errors.code &&
+                      touched.code &&
+                      typeof errors.code === 'string' && (
+                        <div className="error">{errors.code}</div>
+                      )}
+                  </div>
+                </div>
+                <div className="form-row">
+                  <label htmlFor="maxUses" className="text-label">
+                    {intl.formatMessage(messages.maxUses)}
+                    <span className="label-tip">
+                      {intl.formatMessage(messages.maxUsesTip)}
+                    </span>
+                  </label>
+                  <div className="form-input-area">
+                    <div className="form-input-field">
+                      <Field
+                        id="maxUses"
+                        name="maxUses"
+                        type="number"
+                        min="1"
+                        className="short"
+                      />
+                    </div>
+                    {errors.maxUses &&
+                      touched.maxUses &&
+                      typeof errors.maxUses === 'string' && (
+                        <div className="error">{errors.maxUses}</div>
+                      )}
+                  </div>
+                </div>
+                <div className="form-row">
+                  <label htmlFor="expiresAt" className="text-label">
+                    {intl.formatMessage(messages.expiresAt)}
+                    <span className="label-tip">
+                      {intl.formatMessage(messages.expiresAtTip)}
+                    </span>
+                  </label>
+                  <div className="form-input-area">
+                    <div className="form-input-field">
+                      <Field id="expiresAt" name="expiresAt" type="date" />
+                    </div>
+                  </div>
+                </div>
+                <div className="form-row">
+                  <label htmlFor="groupId" className="text-label">
+                    {intl.formatMessage(messages.group)}
+                  </label>
+                  <div className="form-input-area">
+                    <div className="form-input-field">
+                      <Field as="select" id="groupId" name="groupId">
+                        <option value="">
+                          {intl.formatMessage(messages.nogroup)}
+                        </option>
+                        {groups?.map((group) => (
+                          <option
+                            key={`invite-group-${group.id}`}
+                            value={group.id}
+                          >
+                            {group.name}
+                          </option>
+                        ))}
+                      </Field>
+                    </div>
+                  </div>
+                </div>
+                {hasJellyfin && (
+                  <div className="form-row">
+                    <label
+                      htmlFor="createJellyfinUser"
+                      className="checkbox-label"
+                    >
+                      {intl.formatMessage(messages.createJellyfinUser, {
+                        mediaServerName: mediaServerTypes.includes(
+                          MediaServerType.EMBY
+                        )
+                          ? 'Emby'
+                          : 'Jellyfin',
+                      })}
+                      <span className="label-tip">
+                        {intl.formatMessage(messages.createJellyfinUserTip)}
+                      </span>
+                    </label>
+                    <div className="form-input-area">
+                      <Field
+                        type="checkbox"
+                        id="createJellyfinUser"
+                        name="createJellyfinUser"
+                      />
+                    </div>
+                  </div>
+                )}
+                <div className="form-row">
+                  <label htmlFor="customPermissions" className="checkbox-label">
+                    {intl.formatMessage(messages.customPermissions)}
+                    <span className="label-tip">
+                      {intl.formatMessage(messages.customPermissionsTip)}
+                    </span>
+                  </label>
+                  <div className="form-input-area">
+                    <Field
+                      type="checkbox"
+                      id="customPermissions"
+                      name="customPermissions"
+                    />
+                  </div>
+                </div>
+                {values.customPermissions && (
+                  <PermissionEdit
+                    actingUser={currentUser}
+                    currentPermission={values.permissions}
+                    onUpdate={(newPermission) =>
+                      setFieldValue('permissions', newPermission)
+                    }
+                  />
+                )}
+              </div>
+            </Modal>
+          );
+        }}
+      </Formik>
+    </Transition>
+  );
+};
+
+export default InviteModal;
@@ -0,0 +1,370 @@
+import Badge from '@app/components/Common/Badge';
+import Button from '@app/components/Common/Button';
+import ConfirmButton from '@app/components/Common/ConfirmButton';
+import Header from '@app/components/Common/Header';
+import LoadingSpinner from '@app/components/Common/LoadingSpinner';
+import PageTitle from '@app/components/Common/PageTitle';
+import Table from '@app/components/Common/Table';
+import CopyButton from '@app/components/Settings/CopyButton';
+import InviteModal from '@app/components/UserInvites/InviteModal';
+import useSettings from '@app/hooks/useSettings';
+import globalMessages from '@app/i18n/globalMessages';
+import defineMessages from '@app/utils/defineMessages';
+import {
+  CheckIcon,
+  PencilIcon,
+  PlusIcon,
+  TrashIcon,
+  XMarkIcon,
+} from '@heroicons/react/24/solid';
+import type Invite from '@server/entity/Invite';
+import type { InviteResultsResponse } from '@server/interfaces/api/inviteInterfaces';
+import type { AccountRequestResultsResponse } from '@server/interfaces/api/registrationInterfaces';
+import axios from 'axios';
+import { useState } from 'react';
+import { useIntl } from 'react-intl';
+import { useToasts } from 'react-toast-notifications';
+import useSWR from 'swr';
+
+const messages = defineMessages('components.UserInvites', {
+  invites: 'Invites',
+  users: 'Users',
+  createinvite: 'New Invite',
+  accountRequests: 'Account Requests',
+  noaccountrequests: 'There are no pending account requests.',
+  user: 'User',
+  message: 'Message',
+  requested: 'Requested',
+  code: 'Code',
+  inviteLink: 'Invite Link',
+  uses: 'Uses',
+  usesCount: '{uses} of {maxUses}',
+  expires: 'Expires',
+  never: 'Never',
+  expired: 'Expired',
+  access: 'Access',
+  defaultPermissions: 'Default Permissions',
+  customPermissions: 'Custom Permissions',
+  mediaServerAccount: 'Creates Media Server Account',
+  createdBy: 'Created By',
+  noinvites: 'No invites have been created.',
+  linkCopied: 'Invite link copied to clipboard!',
+  requestApproved: 'Account request approved successfully!',
+  requestDeclined: 'Account request declined.',
+  requestFailed: 'Something went wrong while processing the account request.',
+  requestUserExists: 'A user with this email address already exists.',
+  inviteDeleted: 'Invite deleted successfully!',
+  inviteDeleteError: 'Something went wrong while deleting the invite.',
+});
+
+const UserInvites = () => {
+  const intl = useIntl();
+  const settings = useSettings();
+  const { addToast } = useToasts();
+  const {
+    data: invites,
+    error: invitesError,
+    mutate: revalidateInvites,
+  } = useSWR<InviteResultsResponse>('/api/v1/invite');
+  const {
+    data: accountRequests,
+    error: accountRequestsError,
+    mutate: revalidateAccountRequests,
+  } = useSWR<AccountRequestResultsResponse>('/api/v1/registration/requests');
+  const [inviteModal, setInviteModal] = useState<{
+    open: boolean;
+    invite: Invite | null;
+  }>({
+    open: false,
+    invite: null,
+  });
+
+  if (
+    (!invites && !invitesError) ||
+    (!accountRequests && !accountRequestsError)
+  ) {
+    return <LoadingSpinner />;
+  }
+
+  const updateAccountRequest = async (
+    requestId: number,
+    status: 'approve' | 'decline'
+  ) => {
+    try {
+      await axios.post(`/api/v1/registration/requests/${requestId}/${status}`);
+      addToast(
+        intl.formatMessage(
+          status === 'approve'
+            ? messages.requestApproved
+            : messages.requestDeclined
+        ),
+        { appearance: 'success', autoDismiss: true }
+      );
+    } catch (e) {
+      addToast(
+        intl.formatMessage(
+          e?.response?.status === 409
+            ? messages.requestUserExists
+            : messages.requestFailed
+        ),
+        { appearance: 'error', autoDismiss: true }
+      );
+    } finally {
+      revalidateAccountRequests();
+    }
+  };
+
+  const deleteInvite = async (inviteId: number) => {
+    try {
+      await axios.delete(`/api/v1/invite/${inviteId}`);
+      addToast(intl.formatMessage(messages.inviteDeleted), {
+        appearance: 'success',
+        autoDismiss: true,
+      });
+    } catch (e) {
+      addToast(intl.formatMessage(messages.inviteDeleteError), {
+        appearance: 'error',
+        autoDismiss: true,
+      });
+    } finally {
+      revalidateInvites();
+    }
+  };
+
+  const baseUrl =
+    settings.currentSettings.applicationUrl ||
+    (typeof window !== 'undefined' ? window.location.origin : '');
+
+  return (
+    <>
+      <PageTitle
+        title={[
+          intl.formatMessage(messages.invites),
+          intl.formatMessage(messages.users),
+        ]}
+      />
+      {inviteModal.open && (
+        <InviteModal
+          invite={inviteModal.invite}
+          onClose={() => {
+            setInviteModal({ open: false, invite: null });
+            revalidateInvites();
+          }}
+        />
+      )}
+      {(settings.currentSettings.accountRequestsEnabled ||
+        !!accountRequests?.length) && (
+        <>
+          <Header>{intl.formatMessage(messages.accountRequests)}</Header>
+          <Table>
+            <thead>
+              <tr>
+                <Table.TH>{intl.formatMessage(messages.user)}</Table.TH>
+                <Table.TH>{intl.formatMessage(messages.message)}</Table.TH>
+                <Table.TH>{intl.formatMessage(messages.requested)}</Table.TH>
+                <Table.TH></Table.TH>
+              </tr>
+            </thead>
+            <Table.TBody>
+              {!accountRequests?.length ? (
+                <tr>
+                  <Table.TD colSpan={4}>
+                    {intl.formatMessage(messages.noaccountrequests)}
+                  </Table.TD>
+                </tr>
+              ) : (
+                accountRequests.map((accountRequest) => (
+                  <tr key={`account-request-${accountRequest.id}`}>
+                    <Table.TD>
+                      <div className="text-base font-bold leading-5">
+                        {accountRequest.username || accountRequest.email}
+                      </div>
+                      {accountRequest.username && (
+                        <div className="text-sm leading-5 text-gray-300">
+                          {accountRequest.email}
+                        </div>
+                      )}
+                    </Table.TD>
+                    <Table.TD className="whitespace-normal text-sm text-gray-300">
+                      {accountRequest.message}
+                    </Table.TD>
+                    <Table.TD>
+                      {intl.formatDate(accountRequest.createdAt, {
+                        year: 'numeric',
+                        month: 'long',
+                        day: 'numeric',
+                      })}
+                    </Table.TD>
+                    <Table.TD alignText="right">
+                      <Button
+                        buttonType="success"
+                        className="mr-2"
+                        onClick={() =>
+                          updateAccountRequest(accountRequest.id, 'approve')
+                        }
+                      >
+                        <CheckIcon />
+                        <span>
+                          {intl.formatMessage(globalMessages.approve)}
+                        </span>
+                      </Button>
+                      <Button
+                        buttonType="danger"
+                        onClick={() =>
+                          updateAccountRequest(accountRequest.id, 'decline')
+                        }
+                      >
+                        <XMarkIcon />
+                        <span>
+                          {intl.formatMessage(globalMessages.decline)}
+                        </span>
+                      </Button>
+                    </Table.TD>
+                  </tr>
+                ))
+              )}
+            </Table.TBody>
+          </Table>
+        </>
+      )}
+      <div className="flex flex-col justify-between lg:flex-row lg:items-end">
+        <Header>{intl.formatMessage(messages.invites)}</Header>
+        <div className="mt-2 flex flex-grow flex-col lg:flex-grow-0 lg:flex-row">
+          <Button
+            className="mb-2 flex-grow lg:mb-0"
+            buttonType="primary"
+            onClick={() => setInviteModal({ open: true, invite: null })}
+          >
+            <PlusIcon />
+            <span>{intl.formatMessage(messages.createinvite)}</span>
+          </Button>
+        </div>
+      </div>
+      <Table>
+        <thead>
+          <tr>
+            <Table.TH>{intl.formatMessage(messages.code)}</Table.TH>
+            <Table.TH>{intl.formatMessage(messages.uses)}</Table.TH>
+            <Table.TH>{intl.formatMessage(messages.expires)}</Table.TH>
+            <Table.TH>{intl.formatMessage(messages.access)}</Table.TH>
+            <Table.TH>{intl.formatMessage(messages.createdBy)}</Table.TH>
+            <Table.TH></Table.TH>
+          </tr>
+        </thead>
+        <Table.TBody>
+          {!invites?.length ? (
+            <tr>
+              <Table.TD colSpan={6}>
+                {intl.formatMessage(messages.noinvites)}
+              </Table.TD>
+            </tr>
+          ) : (
+            invites.map((invite) => {
+              const isExpired =
+                !!invite.expiresAt &&
+                new Date(invite.expiresAt).getTime() < Date.now();
+              const maxUses = invite.maxUses ?? null;
+              const isUsedUp = maxUses !== null && invite.uses >= maxUses;
+
+              return (
+                <tr key={`invite-${invite.id}`}>
+                  <Table.TD>
+                    <div className="flex items-center">
+                      <span className="mr-2 font-mono text-base font-bold">
+                        {invite.code}
+                      </span>
+                      <div className="form-input-field w-auto">
+                        <CopyButton
+                          textToCopy={`${baseUrl}/register?code=${invite.code}`}
+                          toastMessage={intl.formatMessage(messages.linkCopied)}
+                          tooltipContent={intl.formatMessage(
+                            messages.inviteLink
+                          )}
+                        />
+                      </div>
+                    </div>
+                  </Table.TD>
+                  <Table.TD>
+                    {maxUses !== null ? (
+                      <Badge badgeType={isUsedUp ? 'danger' : 'default'}>
+                        {intl.formatMessage(messages.usesCount, {
+                          uses: invite.uses,
+                          maxUses,
+                        })}
+                      </Badge>
+                    ) : (
+                      invite.uses
+                    )}
+                  </Table.TD>
+                  <Table.TD>
+                    {isExpired ? (
+                      <Badge badgeType="danger">
+                        {intl.formatMessage(messages.expired)}
+                      </Badge>
+                    ) : invite.expiresAt ? (
+                      intl.formatDate(invite.expiresAt, {
+                        year: 'numeric',
+                        month: 'long',
+                        day: 'numeric',
+                      })
+                    ) : (
+                      intl.formatMessage(messages.never)
+                    )}
+                  </Table.TD>
+                  <Table.TD>
+                    <div>
+                      {invite.permissions !== null
+                        ? intl.formatMessage(messages.customPermissions)
+                        : intl.formatMessage(messages.defaultPermissions)}
+                    </div>
+                    {invite.group && (
+                      <div className="text-sm text-gray-400">
+                        {invite.group.name}
+                      </div>
+                    )}
+                    {invite.createJellyfinUser && (
+                      <div className="text-sm text-gray-400">
+                        {intl.formatMessage(messages.mediaServerAccount)}
+                      </div>
+                    )}
+                  </Table.TD>
+                  <Table.TD>
+                    {invite.createdBy?.displayName}
+                    <div className="text-sm text-gray-400">
+                      {intl.formatDate(invite.createdAt, {
+                        year: 'numeric',
+                        month: 'long',
+                        day: 'numeric',
+                      })}
+                    </div>
+                  </Table.TD>
+                  <Table.TD alignText="right">
+                    <Button
+                      buttonType="warning"
+                      className="mr-2"
+                      onClick={() => setInviteModal({ open: true, invite })}
+                    >
+                      <PencilIcon />
+                      <span>{intl.formatMessage(globalMessages.edit)}</span>
+                    </Button>
+                    <ConfirmButton
+                      onClick={() => deleteInvite(invite.id)}
+                      confirmText={intl.formatMessage(
+                        globalMessages.areyousure
+                      )}
+                    >
+                      <TrashIcon />
+                      <span>{intl.formatMessage(globalMessages.delete)}</span>
+                    </ConfirmButton>
+                  </Table.TD>
+                </tr>
+              );
+            })
+          )}
+        </Table.TBody>
+      </Table>
+    </>
+  );
+};
+
+export default UserInvites;
@@ -4,11 +4,14 @@ import type { User } from '@app/hooks/useUser';
 import { Permission, useUser } from '@app/hooks/useUser';
 import globalMessages from '@app/i18n/globalMessages';
 import defineMessages from '@app/utils/defineMessages';
+import type { UserGroupResultsResponse } from '@server/interfaces/api/userGroupInterfaces';
 import { hasPermission } from '@server/lib/permissions';
 import axios from 'axios';
+import { isEqual } from 'lodash';
 import { useEffect, useState } from 'react';
 import { useIntl } from 'react-intl';
 import { useToasts } from 'react-toast-notifications';
+import useSWR from 'swr';
 
 interface BulkEditProps {
   selectedUserIds: number[];
@@ -22,6 +25,10 @@ const messages = defineMessages('components.UserList', {
   userssaved: 'User permissions saved successfully!',
   userfail: 'Something went wrong while saving user permissions.',
   edituser: 'Edit User Permissions',
+  groups: 'Groups',
+  groupsDescription:
+    'Replaces the groups of every selected user. Leave unchanged to keep their current groups.',
+  permissions: 'Permissions',
 });
 
 const BulkEditModal = ({
@@ -35,7 +42,11 @@ const BulkEditModal = ({
   const intl = useIntl();
   const { addToast } = useToasts();
   const [currentPermission, setCurrentPermission] = useState(0);
+  const [currentGroupIds, setCurrentGroupIds] = useState<number[]>([]);
+  const [groupsChanged, setGroupsChanged] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
+  const { data: groups } =
+    useSWR<UserGroupResultsResponse>('/api/v1/userGroup');
 
   useEffect(() => {
     if (onSaving) {
@@ -49,6 +60,7 @@ const BulkEditModal = ({
       const { data: updated } = await axios.put<User[]>(`/api/v1/user`, {
         ids: selectedUserIds,
         permissions: currentPermission,
+        groupIds: groupsChanged ? currentGroupIds : undefined,
       });
       if (onComplete) {
         onComplete(updated);
@@ -84,6 +96,13 @@ const BulkEditModal = ({
       if (allPermissionsEqual) {
         setCurrentPermission(allPermissionsEqual);
       }
+
+      const groupIds = selectedUsers.map((u) =>
+        (u.groups ?? []).map((group) => group.id).sort((a, b) => a - b)
+      );
+      if (groupIds.every((ids) => isEqual(ids, groupIds[0]))) {
+        setCurrentGroupIds(groupIds[0] ?? []);
+      }
     }
   }, [users, selectedUserIds]);
 
@@ -97,10 +116,60 @@ const BulkEditModal = ({
       okText={intl.formatMessage(globalMessages.save)}
       onCancel={onCancel}
     >
+      {!!groups?.length && (
+        <div className="mb-6">
+          <h3 className="text-lg font-bold leading-8 text-gray-100">
+            {intl.formatMessage(messages.groups)}
+          </h3>
+          <p className="description">
+            {intl.formatMessage(messages.groupsDescription)}
+          </p>
+          {groups.map((group) => (
+            <div
+              key={`bulk-user-group-${group.id}`}
+              className="relative mt-4 flex items-start first:mt-0"
+            >
+              <div className="flex h-6 items-center">
+                <input
+                  id={`bulk-user-group-${group.id}`}
+                  type="checkbox"
+                  checked={currentGroupIds.includes(group.id)}
+                  disabled={
+                    currentUser?.id !== 1 &&
+                    hasPermission(Permission.ADMIN, group.permissions)
+                  }
+                  onChange={() => {
+                    setGroupsChanged(true);
+                    setCurrentGroupIds(
+                      currentGroupIds.includes(group.id)
+                        ? currentGroupIds.filter((id) => id !== group.id)
+                        : [...currentGroupIds, group.id]
+                    );
+                  }}
+                />
+              </div>
+              <div className="ml-3 text-sm leading-6">
+                <label
+                  htmlFor={`bulk-user-group-${group.id}`}
+                  className="block font-medium text-white"
+                >
+                  {group.name}
+                </label>
+              </div>
+            </div>
+          ))}
+          <h3 className="mt-6 text-lg font-bold leading-8 text-gray-100">
+            {intl.formatMessage(messages.permissions)}
+          </h3>
+        </div>
+      )}
       <div className="mb-6">
         <PermissionEdit
           actingUser={currentUser}
           currentPermission={currentPermission}
+          inheritedPermission={groups
+            ?.filter((group) => currentGroupIds.includes(group.id))
+            .reduce((permissions, group) => permissions | group.permissions, 0)}
           onUpdate={(newPermission) => setCurrentPermission(newPermission)}
         />
       </div>
@@ -21,6 +21,7 @@ import {
   BarsArrowDownIcon,
   ChevronLeftIcon,
   ChevronRightIcon,
+  EnvelopeIcon,
   InboxArrowDownIcon,
   PencilIcon,
   UserPlusIcon,
@@ -80,6 +81,7 @@ const messages = defineMessages('components.UserList', {
   sortCreated: 'Join Date',
   sortDisplayName: 'Display Name',
   sortRequests: 'Request Count',
+  invites: 'Invites',
   localLoginDisabled:
     'The <strong>Enable Local Sign-In</strong> setting is currently disabled.',
 });
@@ -518,6 +520,14 @@ const UserList = () => {
               <UserPlusIcon />
               <span>{intl.formatMessage(messages.createlocaluser)}</span>
             </Button>
+            <Button
+              className="mb-2 flex-grow sm:mb-0 sm:mr-2"
+              buttonType="primary"
+              onClick={() => router.push('/users/invites')}
+            >
+              <EnvelopeIcon />
+              <span>{intl.formatMessage(messages.invites)}</span>
+            </Button>
             <Button
               className="flex-grow lg:mr-2"
               buttonType="primary"
@@ -699,9 +709,17 @@ const UserList = () => {
               <Table.TD>
                 {user.id === 1
                   ? intl.formatMessage(messages.owner)
-                  : hasPermission(Permission.ADMIN, user.permissions)
+                  : hasPermission(
+                      Permission.ADMIN,
+                      user.effectivePermissions ?? user.permissions
+                    )
                   ? intl.formatMessage(messages.admin)
                   : intl.formatMessage(messages.user)}
+                {!!user.groups?.length && (
+                  <div className="text-sm text-gray-400">
+                    {user.groups.map((group) => group.name).join(', ')}
+                  </div>
+                )}
               </Table.TD>
               <Table.TD>
                 {intl.formatDate(user.createdAt, {
@@ -729,7 +747,10 @@ const UserList = () => {
                   disabled={
                     user.id === 1 ||
                     (currentUser?.id !== 1 &&
-                      hasPermission(Permission.ADMIN, user.permissions))
+                      hasPermission(
+                        Permission.ADMIN,
+                        user.effectivePermissions ?? user.permissions
+                      ))
                   }
                   onClick={() => setDeleteModal({ isOpen: true, user })}
                 >
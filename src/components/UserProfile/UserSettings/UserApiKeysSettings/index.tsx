@@ -0,0 +1,350 @@
+import Alert from '@app/components/Common/Alert';
+import Button from '@app/components/Common/Button';
+import ConfirmButton from '@app/components/Common/ConfirmButton';
+import LoadingSpinner from '@app/components/Common/LoadingSpinner';
+import Modal from '@app/components/Common/Modal';
+import PageTitle from '@app/components/Common/PageTitle';
+import PermissionEdit from '@app/components/PermissionEdit';
+import CopyButton from '@app/components/Settings/CopyButton';
+import { useUser } from '@app/hooks/useUser';
+import globalMessages from '@app/i18n/globalMessages';
+import ErrorPage from '@app/pages/_error';
+import defineMessages from '@app/utils/defineMessages';
+import { Transition } from '@headlessui/react';
+import { KeyIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import type {
+  UserApiKeyCreateResponse,
+  UserApiKeyResponse,
+} from '@server/interfaces/api/userSettingsInterfaces';
+import axios from 'axios';
+import { useRouter } from 'next/router';
+import { useState } from 'react';
+import { useIntl } from 'react-intl';
+import { useToasts } from 'react-toast-notifications';
+import useSWR from 'swr';
+
+const messages = defineMessages(
+  'components.UserProfile.UserSettings.UserApiKeysSettings',
+  {
+    apiKeys: 'API Keys',
+    apiKeysHint:
+      'Personal API keys let scripts and other applications act on behalf of this account, limited to the permissions granted to the key.',
+    noApiKeys: 'No API keys have been created.',
+    createApiKey: 'Create API Key',
+    create: 'Create',
+    name: 'Name',
+    expiry: 'Expiry',
+    expiryNever: 'Never',
+    expiryDays: '{days} Days',
+    expiryYear: '1 Year',
+    permissions: 'Permissions',
+    permissionsHint:
+      'A key can only use permissions that this account currently has.',
+    created: 'Created {date}',
+    lastUsed: 'Last used {date}',
+    neverUsed: 'Never used',
+    expires: 'Expires {date}',
+    expired: 'Expired',
+    revoke: 'Revoke',
+    newApiKey: 'Your new API key',
+    newApiKeyHint:
+      "Copy this key now. You won't be able to see it again after leaving this page.",
+    apiKeyCopied: 'Copied API key to clipboard.',
+    toastCreateSuccess: 'API key created successfully!',
+    toastCreateFailure: 'Something went wrong while creating the API key.',
+    toastRevokeSuccess: 'API key revoked successfully!',
+    toastRevokeFailure: 'Something went wrong while revoking the API key.',
+  }
+);
+
+const expiryOptions = [0, 30, 90, 365];
+
+const UserApiKeysSettings = () => {
+  const intl = useIntl();
+  const { addToast } = useToasts();
+  const router = useRouter();
+  const { user: currentUser } = useUser();
+  const { user } = useUser({ id: Number(router.query.userId) });
+  const {
+    data,
+    error,
+    mutate: revalidate,
+  } = useSWR<UserApiKeyResponse[]>(
+    user ? `/api/v1/user/${user.id}/settings/api-keys` : null
+  );
+  const [showCreateModal, setShowCreateModal] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [name, setName] = useState('');
+  const [expiryDays, setExpiryDays] = useState(0);
+  const [permissions, setPermissions] = useState(0);
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+
+  if (!data && !error) {
+    return <LoadingSpinner />;
+  }
+
+  if (!data) {
+    return <ErrorPage statusCode={500} />;
+  }
+
+  const isOwnProfile = currentUser?.id === user?.id;
+
+  const openCreateModal = () => {
+    setName('');
+    setExpiryDays(0);
+    setPermissions(user?.permissions ?? 0);
+    setShowCreateModal(true);
+  };
+
+  const createApiKey = async () => {
+    setIsCreating(true);
+    try {
+      const expiresAt = expiryDays
+        ? new Date(Date.now() + expiryDays * 24 * 60 * 60 * 1000)
+        : null;
+      const response = await axios.post<UserApiKeyCreateResponse>(
+        `/api/v1/user/${user?.id}/settings/api-keys`,
+        { name, permissions, expiresAt }
+      );
+
+      setCreatedKey(response.data.key);
+      setShowCreateModal(false);
+      addToast(intl.formatMessage(messages.toastCreateSuccess), {
+        autoDismiss: true,
+        appearance: 'success',
+      });
+    } catch (e) {
+      addToast(
+        e.response?.data?.message ??
+          intl.formatMessage(messages.toastCreateFailure),
+        {
+          autoDismiss: true,
+          appearance: 'error',
+        }
+      );
+    } finally {
+      setIsCreating(false);
+      revalidate();
+    }
+  };
+
+  const revokeApiKey = async (apiKeyId: number) => {
+    try {
+      await axios.delete(
+        `/api/v1/user/${user?.id}/settings/api-keys/${apiKeyId}`
+      );
+
+      addToast(intl.formatMessage(messages.toastRevokeSuccess), {
+        autoDismiss: true,
+        appearance: 'success',
+      });
+    } catch {
+      addToast(intl.formatMessage(messages.toastRevokeFailure), {
+        autoDismiss: true,
+        appearance: 'error',
+      });
+    } finally {
+      revalidate();
+    }
+  };
+
+  const formatDate = (date: Date | string) =>
+    intl.formatDate(date, {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+
+  return (
+    <>
+      <PageTitle
+        title={[
+          intl.formatMessage(messages.apiKeys),
+          intl.formatMessage(globalMessages.usersettings),
+          user?.displayName,
+        ]}
+      />
+      <div className="mb-6 flex items-end justify-between">
+        <div>
+          <h3 className="heading">{intl.formatMessage(messages.apiKeys)}</h3>
+          <h6 className="description">
+            {intl.formatMessage(messages.apiKeysHint)}
+          </h6>
+        </div>
+        {isOwnProfile && (
+          <div>
+            <Button buttonType="ghost" onClick={() => openCreateModal()}>
+              <PlusIcon />
+              <span>{intl.formatMessage(messages.createApiKey)}</span>
+            </Button>
+          </div>
+        )}
+      </div>
+      {createdKey && (
+        <div className="mb-6">
+          <Alert title={intl.formatMessage(messages.newApiKey)} type="info">
+            <p className="mb-2">{intl.formatMessage(messages.newApiKeyHint)}</p>
+            <div className="form-input-field">
+              <input
+                type="text"
+                className="rounded-l-only"
+                value={createdKey}
+                readOnly
+              />
+              <CopyButton
+                textToCopy={createdKey}
+                toastMessage={intl.formatMessage(messages.apiKeyCopied)}
+                key={createdKey}
+              />
+            </div>
+          </Alert>
+        </div>
+      )}
+      {data.length ? (
+        <ul className="space-y-4">
+          {data.map((apiKey) => {
+            const isExpired =
+              !!apiKey.expiresAt && new Date(apiKey.expiresAt) <= new Date();
+
+            return (
+              <li
+                key={`api-key-${apiKey.id}`}
+                className="flex items-center gap-4 overflow-hidden rounded-lg bg-gray-800 bg-opacity-50 px-4 py-5 shadow ring-1 ring-gray-700 sm:p-6"
+              >
+                <div className="flex h-12 w-12 flex-shrink-0 items-center justify-center rounded-full bg-neutral-800">
+                  <KeyIcon className="w-6 text-gray-300" />
+                </div>
+                <div className="min-w-0">
+                  <div className="truncate text-lg font-semibold text-white">
+                    {apiKey.name}
+                  </div>
+                  <div className="truncate font-mono text-sm text-gray-400">
+                    {apiKey.keyPreview}…
+                  </div>
+                  <div className="mt-1 flex flex-wrap gap-x-4 text-xs text-gray-400">
+                    <span>
+                      {intl.formatMessage(messages.created, {
+                        date: formatDate(apiKey.createdAt),
+                      })}
+                    </span>
+                    <span>
+                      {apiKey.lastUsedAt
+                        ? intl.formatMessage(messages.lastUsed, {
+                            date: formatDate(apiKey.lastUsedAt),
+                          })
+                        : intl.formatMessage(messages.neverUsed)}
+                    </span>
+                    {apiKey.expiresAt && (
+                      <span className={isExpired ? 'text-red-400' : ''}>
+                        {isExpired
+                          ? intl.formatMessage(messages.expired)
+                          : intl.formatMessage(messages.expires, {
+                              date: formatDate(apiKey.expiresAt),
+                            })}
+                      </span>
+                    )}
+                  </div>
+                </div>
+                <div className="flex-grow" />
+                <ConfirmButton
+                  onClick={() => revokeApiKey(apiKey.id)}
+                  confirmText={intl.formatMessage(globalMessages.areyousure)}
+                >
+                  <TrashIcon />
+                  <span>{intl.formatMessage(messages.revoke)}</span>
+                </ConfirmButton>
+              </li>
+            );
+          })}
+        </ul>
+      ) : (
+        <div className="mt-4 text-center md:py-12">
+          <h3 className="text-lg font-semibold text-gray-400">
+            {intl.formatMessage(messages.noApiKeys)}
+          </h3>
+        </div>
+      )}
+
+      <Transition
+        as="div"
+        enter="transition-opacity duration-300"
+        enterFrom="opacity-0"
+        enterTo="opacity-100"
+        leave="transition-opacity duration-300"
+        leaveFrom="opacity-100"
+        leaveTo="opacity-0"
+        show={showCreateModal}
+      >
+        <Modal
+          title={intl.formatMessage(messages.createApiKey)}
+          onOk={() => createApiKey()}
+          okDisabled={isCreating || !name.trim()}
+          okText={
+            isCreating
+              ? intl.formatMessage(globalMessages.saving)
+              : intl.formatMessage(messages.create)
+          }
+          onCancel={() => setShowCreateModal(false)}
+        >
+          <div className="form-row">
+            <label htmlFor="apiKeyName" className="text-label">
+              {intl.formatMessage(messages.name)}
+              <span className="label-required">*</span>
+            </label>
+            <div className="form-input-area">
+              <div className="form-input-field">
+                <input
+                  id="apiKeyName"
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                />
+              </div>
+            </div>
+          </div>
+          <div className="form-row">
+            <label htmlFor="apiKeyExpiry" className="text-label">
+              {intl.formatMessage(messages.expiry)}
+            </label>
+            <div className="form-input-area">
+              <div className="form-input-field">
+                <select
+                  id="apiKeyExpiry"
+                  value={expiryDays}
+                  onChange={(e) => setExpiryDays(Number(e.target.value))}
+                >
+                  {expiryOptions.map((days) => (
+                    <option key={`expiry-${days}`} value={days}>
+                      {days === 0
+                        ? intl.formatMessage(messages.expiryNever)
+                        : days === 365
+                        ? intl.formatMessage(messages.expiryYear)
+                        : intl.formatMessage(messages.expiryDays, { days })}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          </div>
+          <div className="mt-6 mb-2">
+            <h3 className="text-lg font-bold">
+              {intl.formatMessage(messages.permissions)}
+            </h3>
+            <p className="text-sm text-gray-400">
+              {intl.formatMessage(messages.permissionsHint)}
+            </p>
+          </div>
+          <div className="mb-6">
+            <PermissionEdit
+              actingUser={currentUser}
+              currentPermission={permissions}
+              onUpdate={(newPermissions) => setPermissions(newPermissions)}
+            />
+          </div>
+        </Modal>
+      </Transition>
+    </>
+  );
+};
+
+export default UserApiKeysSettings;
@@ -15,6 +15,7 @@ import ErrorPage from '@app/pages/_error';
 import defineMessages from '@app/utils/defineMessages';
 import { ArrowDownOnSquareIcon } from '@heroicons/react/24/outline';
 import { ApiErrorCode } from '@server/constants/error';
+import { QuotaPeriod, QuotaType } from '@server/constants/user';
 import type { UserSettingsGeneralResponse } from '@server/interfaces/api/userSettingsInterfaces';
 import axios from 'axios';
 import { Field, Form, Formik } from 'formik';
@@ -158,6 +159,10 @@ const UserGeneralSettings = () => {
           movieQuotaDays: data?.movieQuotaDays,
           tvQuotaLimit: data?.tvQuotaLimit,
           tvQuotaDays: data?.tvQuotaDays,
+          movieQuotaType: data?.movieQuotaType ?? undefined,
+          movieQuotaPeriod: data?.movieQuotaPeriod ?? undefined,
+          tvQuotaType: data?.tvQuotaType ?? undefined,
+          tvQuotaPeriod: data?.tvQuotaPeriod ?? undefined,
           watchlistSyncMovies: data?.watchlistSyncMovies,
           watchlistSyncTv: data?.watchlistSyncTv,
         }}
@@ -180,6 +185,12 @@ const UserGeneralSettings = () => {
               movieQuotaDays: movieQuotaEnabled ? values.movieQuotaDays : null,
               tvQuotaLimit: tvQuotaEnabled ? values.tvQuotaLimit : null,
               tvQuotaDays: tvQuotaEnabled ? values.tvQuotaDays : null,
+              movieQuotaType: movieQuotaEnabled ? values.movieQuotaType : null,
+              movieQuotaPeriod: movieQuotaEnabled
+                ? values.movieQuotaPeriod
+                : null,
+              tvQuotaType: tvQuotaEnabled ? values.tvQuotaType : null,
+              tvQuotaPeriod: tvQuotaEnabled ? values.tvQuotaPeriod : null,
               watchlistSyncMovies: values.watchlistSyncMovies,
               watchlistSyncTv: values.watchlistSyncTv,
             });
@@ -473,10 +484,14 @@ const UserGeneralSettings = () => {
                             isDisabled={!movieQuotaEnabled}
                             dayFieldName="movieQuotaDays"
                             limitFieldName="movieQuotaLimit"
+                            typeFieldName="movieQuotaType"
+                            periodFieldName="movieQuotaPeriod"
                             mediaType="movie"
                             onChange={setFieldValue}
                             defaultDays={values.movieQuotaDays}
                             defaultLimit={values.movieQuotaLimit}
+                            defaultType={values.movieQuotaType}
+                            defaultPeriod={values.movieQuotaPeriod}
                             dayOverride={
                               !movieQuotaEnabled
                                 ? data?.globalMovieQuotaDays
@@ -487,6 +502,18 @@ const UserGeneralSettings = () => {
                                 ? data?.globalMovieQuotaLimit
                                 : undefined
                             }
+                            typeOverride={
+                              !movieQuotaEnabled
+                                ? data?.globalMovieQuotaType ??
+                                  QuotaType.REQUESTS
+                                : undefined
+                            }
+                            periodOverride={
+                              !movieQuotaEnabled
+                                ? data?.globalMovieQuotaPeriod ??
+                                  QuotaPeriod.ROLLING
+                                : undefined
+                            }
                           />
                         </div>
                       </div>
@@ -513,10 +540,14 @@ const UserGeneralSettings = () => {
                             isDisabled={!tvQuotaEnabled}
                             dayFieldName="tvQuotaDays"
                             limitFieldName="tvQuotaLimit"
+                            typeFieldName="tvQuotaType"
+                            periodFieldName="tvQuotaPeriod"
                             mediaType="tv"
                             onChange={setFieldValue}
                             defaultDays={values.tvQuotaDays}
                             defaultLimit={values.tvQuotaLimit}
+                            defaultType={values.tvQuotaType}
+                            defaultPeriod={values.tvQuotaPeriod}
                             dayOverride={
                               !tvQuotaEnabled
                                 ? data?.globalTvQuotaDays
@@ -527,6 +558,17 @@ const UserGeneralSettings = () => {
                                 ? data?.globalTvQuotaLimit
                                 : undefined
                             }
+                            typeOverride={
+                              !tvQuotaEnabled
+                                ? data?.globalTvQuotaType ?? QuotaType.REQUESTS
+                                : undefined
+                            }
+                            periodOverride={
+                              !tvQuotaEnabled
+                                ? data?.globalTvQuotaPeriod ??
+                                  QuotaPeriod.ROLLING
+                                : undefined
+                            }
                           />
                         </div>
                       </div>
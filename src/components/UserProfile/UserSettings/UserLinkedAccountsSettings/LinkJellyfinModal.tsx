@@ -56,10 +56,11 @@ const LinkJellyfinModal: React.FC<LinkJellyfinModalProps> = ({
   });
 
   const applicationName = settings.currentSettings.applicationTitle;
-  const mediaServerName =
-    settings.currentSettings.mediaServerType === MediaServerType.EMBY
-      ? 'Emby'
-      : 'Jellyfin';
+  const mediaServerName = settings.currentSettings.mediaServerTypes.includes(
+    MediaServerType.EMBY
+  )
+    ? 'Emby'
+    : 'Jellyfin';
 
   return (
     <Transition
@@ -10,11 +10,12 @@ import { Permission, UserType, useUser } from '@app/hooks/useUser';
 import globalMessages from '@app/i18n/globalMessages';
 import defineMessages from '@app/utils/defineMessages';
 import PlexOAuth from '@app/utils/plex';
-import { TrashIcon } from '@heroicons/react/24/solid';
+import { KeyIcon, TrashIcon } from '@heroicons/react/24/solid';
+import { ApiErrorCode } from '@server/constants/error';
 import { MediaServerType } from '@server/constants/server';
 import axios from 'axios';
 import { useRouter } from 'next/router';
-import { useMemo, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { useIntl } from 'react-intl';
 import useSWR from 'swr';
 import LinkJellyfinModal from './LinkJellyfinModal';
@@ -31,6 +32,8 @@ const messages = defineMessages(
       "You do not have permission to modify this user's linked accounts.",
     plexErrorUnauthorized: 'Unable to connect to Plex using your credentials',
     plexErrorExists: 'This account is already linked to a Plex user',
+    oidcErrorExists:
+      'This single sign-on account is already linked to another user',
     errorUnknown: 'An unknown error occurred',
     deleteFailed: 'Unable to delete linked account.',
   }
@@ -42,6 +45,7 @@ enum LinkedAccountType {
   Plex = 'Plex',
   Jellyfin = 'Jellyfin',
   Emby = 'Emby',
+  Oidc = 'OpenID Connect',
 }
 
 type LinkedAccount = {
@@ -85,6 +89,11 @@ const UserLinkedAccountsSettings = () => {
         type: LinkedAccountType.Jellyfin,
         username: user.jellyfinUsername,
       });
+    if (user.oidcUsername)
+      accounts.push({
+        type: LinkedAccountType.Oidc,
+        username: user.oidcUsername,
+      });
     return accounts;
   }, [user]);
 
@@ -111,6 +120,35 @@ const UserLinkedAccountsSettings = () => {
     }
   };
 
+  // The OpenID Connect callback redirects back here with an error code if
+  // linking the account failed
+  useEffect(() => {
+    const oidcError = router.query.oidcError;
+
+    if (!oidcError) {
+      return;
+    }
+
+    setError(
+      oidcError === ApiErrorCode.OidcAccountAlreadyLinked
+        ? intl.formatMessage(messages.oidcErrorExists)
+        : intl.formatMessage(messages.errorUnknown)
+    );
+  }, [router.query.oidcError, intl]);
+
+  const linkOidcAccount = async () => {
+    setError(null);
+    try {
+      const response = await axios.post<{ redirectUrl: string }>(
+        `/api/v1/user/${user?.id}/settings/linked-accounts/oidc`
+      );
+
+      window.location.href = response.data.redirectUrl;
+    } catch {
+      setError(intl.formatMessage(messages.errorUnknown));
+    }
+  };
+
   const linkable = [
     {
       name: 'Plex',
@@ -119,22 +157,32 @@ const UserLinkedAccountsSettings = () => {
         setTimeout(() => linkPlexAccount(), 1500);
       },
       hide:
-        settings.currentSettings.mediaServerType !== MediaServerType.PLEX ||
-        accounts.some((a) => a.type === LinkedAccountType.Plex),
+        !settings.currentSettings.mediaServerTypes.includes(
+          MediaServerType.PLEX
+        ) || accounts.some((a) => a.type === LinkedAccountType.Plex),
     },
     {
       name: 'Jellyfin',
       action: () => setShowJellyfinModal(true),
       hide:
-        settings.currentSettings.mediaServerType !== MediaServerType.JELLYFIN ||
-        accounts.some((a) => a.type === LinkedAccountType.Jellyfin),
+        !settings.currentSettings.mediaServerTypes.includes(
+          MediaServerType.JELLYFIN
+        ) || accounts.some((a) => a.type === LinkedAccountType.Jellyfin),
     },
     {
       name: 'Emby',
       action: () => setShowJellyfinModal(true),
       hide:
-        settings.currentSettings.mediaServerType !== MediaServerType.EMBY ||
-        accounts.some((a) => a.type === LinkedAccountType.Emby),
+        !settings.currentSettings.mediaServerTypes.includes(
+          MediaServerType.EMBY
+        ) || accounts.some((a) => a.type === LinkedAccountType.Emby),
+    },
+    {
+      name: settings.currentSettings.oidcProviderName || 'OpenID Connect',
+      action: () => linkOidcAccount(),
+      hide:
+        !settings.currentSettings.oidcLogin ||
+        accounts.some((a) => a.type === LinkedAccountType.Oidc),
     },
   ].filter((l) => !l.hide);
 
@@ -171,6 +219,8 @@ const UserLinkedAccountsSettings = () => {
   }
 
   const enableMediaServerUnlink = user?.id !== 1 && passwordInfo?.hasPassword;
+  const enableOidcUnlink =
+    user?.userType !== UserType.LOCAL || passwordInfo?.hasPassword;
 
   return (
     <>
@@ -219,6 +269,10 @@ const UserLinkedAccountsSettings = () => {
                   </div>
                 ) : acct.type === LinkedAccountType.Emby ? (
                   <EmbyLogo />
+                ) : acct.type === LinkedAccountType.Oidc ? (
+                  <div className="flex aspect-square h-full items-center justify-center rounded-full bg-neutral-800">
+                    <KeyIcon className="w-7 text-gray-300" />
+                  </div>
                 ) : (
                   <JellyfinLogo />
                 )}
@@ -232,11 +286,17 @@ const UserLinkedAccountsSettings = () => {
                 </div>
               </div>
               <div className="flex-grow" />
-              {enableMediaServerUnlink && (
+              {(acct.type === LinkedAccountType.Oidc
+                ? enableOidcUnlink
+                : enableMediaServerUnlink) && (
                 <ConfirmButton
                   onClick={() => {
                     deleteRequest(
-                      acct.type === LinkedAccountType.Plex ? 'plex' : 'jellyfin'
+                      acct.type === LinkedAccountType.Plex
+                        ? 'plex'
+                        : acct.type === LinkedAccountType.Oidc
+                        ? 'oidc'
+                        : 'jellyfin'
                     );
                   }}
                   confirmText={intl.formatMessage(globalMessages.areyousure)}
@@ -0,0 +1,469 @@
+import Alert from '@app/components/Common/Alert';
+import Button from '@app/components/Common/Button';
+import LoadingSpinner from '@app/components/Common/LoadingSpinner';
+import PageTitle from '@app/components/Common/PageTitle';
+import SensitiveInput from '@app/components/Common/SensitiveInput';
+import useSettings from '@app/hooks/useSettings';
+import { UserType, useUser } from '@app/hooks/useUser';
+import globalMessages from '@app/i18n/globalMessages';
+import defineMessages from '@app/utils/defineMessages';
+import {
+  ArrowDownOnSquareIcon,
+  UserPlusIcon,
+} from '@heroicons/react/24/outline';
+import { MediaServerType } from '@server/constants/server';
+import type { UserJellyfinResponse } from '@server/interfaces/api/userInterfaces';
+import axios from 'axios';
+import { Field, Form, Formik } from 'formik';
+import { useRouter } from 'next/router';
+import { useIntl } from 'react-intl';
+import { useToasts } from 'react-toast-notifications';
+import useSWR from 'swr';
+import * as Yup from 'yup';
+
+const messages = defineMessages(
+  'components.UserProfile.UserSettings.UserMediaServerSettings',
+  {
+    account: '{mediaServerName} Account',
+    noaccount:
+      'This user does not have a {mediaServerName} account yet. Create one below, which is linked to the user.',
+    nonlocaluser: 'Only local users can be given a {mediaServerName} account.',
+    linkedaccount: 'Linked to the {mediaServerName} account {username}.',
+    createaccount: 'Create Account',
+    creating: 'Creating…',
+    username: 'Username',
+    password: 'Password',
+    newpassword: 'New Password',
+    confirmpassword: 'Confirm Password',
+    resetpassword: 'Reset Password',
+    resetpasswordDescription:
+      'Sets a new password for the {mediaServerName} account. The password used to sign in here is not changed.',
+    libraryaccess: 'Library Access',
+    libraryaccessDescription:
+      'Libraries the user can see in {mediaServerName}. Only libraries in the library list are shown; access to other libraries is not changed.',
+    allLibraries: 'All Libraries',
+    allLibrariesTip: 'Includes libraries which are added later',
+    nolibraries:
+      'No libraries have been found. Sync the libraries in the {mediaServerName} settings first.',
+    validationUsername: 'You must provide a username',
+    validationPassword: 'You must provide a password',
+    validationPasswordLength:
+      'Password is too short; should be a minimum of 8 characters',
+    validationConfirmPassword: 'You must confirm the password',
+    validationConfirmPasswordSame: 'Passwords must match',
+    toastAccountCreated: 'Account created successfully!',
+    toastAccountFailed:
+      'Something went wrong while creating the account. The username may already be taken.',
+    toastPasswordSuccess: 'Password reset successfully!',
+    toastPasswordFailure: 'Something went wrong while resetting the password.',
+    toastLibrariesSuccess: 'Library access saved successfully!',
+    toastLibrariesFailure:
+      'Something went wrong while saving the library access.',
+    loadError: 'The {mediaServerName} account could not be loaded.',
+    administratorDescription:
+      'This account is a {mediaServerName} administrator. Only the owner can reset its password or change its library access.',
+  }
+);
+
+const UserMediaServerSettings = () => {
+  const intl = useIntl();
+  const { addToast } = useToasts();
+  const router = useRouter();
+  const settings = useSettings();
+  const { user: currentUser } = useUser();
+  const { user, revalidate: revalidateUser } = useUser({
+    id: Number(router.query.userId),
+  });
+  const {
+    data,
+    error,
+    mutate: revalidate,
+  } = useSWR<UserJellyfinResponse>(
+    user ? `/api/v1/user/${user.id}/jellyfin` : null
+  );
+
+  const mediaServerName = settings.currentSettings.mediaServerTypes.includes(
+    MediaServerType.EMBY
+  )
+    ? 'Emby'
+    : 'Jellyfin';
+
+  const PasswordSchema = {
+    password: Yup.string()
+      .required(intl.formatMessage(messages.validationPassword))
+      .min(8, intl.formatMessage(messages.validationPasswordLength)),
+    confirmPassword: Yup.string()
+      .required(intl.formatMessage(messages.validationConfirmPassword))
+      .oneOf(
+        [Yup.ref('password'), null],
+        intl.formatMessage(messages.validationConfirmPasswordSame)
+      ),
+  };
+
+  const CreateAccountSchema = Yup.object().shape({
+    username: Yup.string()
+      .trim()
+      .required(intl.formatMessage(messages.validationUsername)),
+    ...PasswordSchema,
+  });
+
+  const ResetPasswordSchema = Yup.object().shape(PasswordSchema);
+
+  if (!data && !error) {
+    return <LoadingSpinner />;
+  }
+
+  const linkedAccountDescription = (
+    <p className="description mb-6">
+      {intl.formatMessage(messages.linkedaccount, {
+        mediaServerName,
+        username: (
+          <strong className="text-gray-100">{data?.jellyfinUsername}</strong>
+        ),
+      })}
+    </p>
+  );
+
+  const renderPasswordFields = (
+    errors: Record<string, string | undefined>,
+    touched: Record<string, boolean | undefined>,
+    isNewAccount: boolean
+  ) => (
+    <>
+      <div className="form-row">
+        <label htmlFor="password" className="text-label">
+          {intl.formatMessage(
+            isNewAccount ? messages.password : messages.newpassword
+          )}
+        </label>
+        <div className="form-input-area">
+          <div className="form-input-field">
+            <SensitiveInput
+              as="field"
+              id="password"
+              name="password"
+              type="password"
+              autoComplete="new-password"
+            />
+          </div>
+          {errors.password && touched.password && (
+            <div className="error">{errors.password}</div>
+          )}
+        </div>
+      </div>
+      <div className="form-row">
+        <label htmlFor="confirmPassword" className="text-label">
+          {intl.formatMessage(messages.confirmpassword)}
+        </label>
+        <div className="form-input-area">
+          <div className="form-input-field">
+            <SensitiveInput
+              as="field"
+              id="confirmPassword"
+              name="confirmPassword"
+              type="password"
+              autoComplete="new-password"
+            />
+          </div>
+          {errors.confirmPassword && touched.confirmPassword && (
+            <div className="error">{errors.confirmPassword}</div>
+          )}
+        </div>
+      </div>
+    </>
+  );
+
+  return (
+    <>
+      <PageTitle
+        title={[
+          intl.formatMessage(messages.account, { mediaServerName }),
+          intl.formatMessage(globalMessages.usersettings),
+          user?.displayName,
+        ]}
+      />
+      <div className="mb-6">
+        <h3 className="heading">
+          {intl.formatMessage(messages.account, { mediaServerName })}
+        </h3>
+      </div>
+      {!data ? (
+        <Alert
+          title={intl.formatMessage(messages.loadError, { mediaServerName })}
+          type="error"
+        />
+      ) : !data.linked && user?.userType !== UserType.LOCAL ? (
+        <p className="description mb-6">
+          {intl.formatMessage(messages.nonlocaluser, { mediaServerName })}
+        </p>
+      ) : !data.linked ? (
+        <>
+          <p className="description mb-6">
+            {intl.formatMessage(messages.noaccount, { mediaServerName })}
+          </p>
+          <Formik
+            initialValues={{
+              username: user?.username ?? '',
+              password: '',
+              confirmPassword: '',
+            }}
+            validationSchema={CreateAccountSchema}
+            onSubmit={async (values) => {
+              try {
+                await axios.post(`/api/v1/user/${user?.id}/jellyfin`, {
+                  username: values.username.trim(),
+                  password: values.password,
+                });
+
+                addToast(intl.formatMessage(messages.toastAccountCreated), {
+                  autoDismiss: true,
+                  appearance: 'success',
+                });
+              } catch (e) {
+                addToast(intl.formatMessage(messages.toastAccountFailed), {
+                  autoDismiss: true,
+                  appearance: 'error',
+                });
+              } finally {
+                revalidate();
+                revalidateUser();
+              }
+            }}
+          >
+            {({ errors, touched, isSubmitting, isValid }) => (
+              <Form className="section">
+                <div className="form-row">
+                  <label htmlFor="username" className="text-label">
+                    {intl.formatMessage(messages.username)}
+                  </label>
+                  <div className="form-input-area">
+                    <div className="form-input-field">
+                      <Field
+                        id="username"
+                        name="username"
+                        type="text"
+                        autoComplete="off"
+                      />
+                    </div>
+                    {errors.username && touched.username && (
+                      <div className="error">{errors.username}</div>
+                    )}
+                  </div>
+                </div>
+                {renderPasswordFields(errors, touched, true)}
+                <div className="actions">
+                  <div className="flex justify-end">
+                    <span className="ml-3 inline-flex rounded-md shadow-sm">
+                      <Button
+                        buttonType="primary"
+                        type="submit"
+                        disabled={isSubmitting || !isValid}
+                      >
+                        <UserPlusIcon />
+                        <span>
+                          {isSubmitting
+                            ? intl.formatMessage(messages.creating)
+                            : intl.formatMessage(messages.createaccount)}
+                        </span>
+                      </Button>
+                    </span>
+                  </div>
+                </div>
+              </Form>
+            )}
+          </Formik>
+        </>
+      ) : data.isAdministrator && currentUser?.id !== 1 ? (
+        <>
+          {linkedAccountDescription}
+          <Alert
+            title={intl.formatMessage(messages.administratorDescription, {
+              mediaServerName,
+            })}
+            type="info"
+          />
+        </>
+      ) : (
+        <>
+          {linkedAccountDescription}
+          <div className="mb-6">
+            <h4 className="text-lg font-bold leading-8 text-gray-100">
+              {intl.formatMessage(messages.libraryaccess)}
+            </h4>
+            <p className="description">
+              {intl.formatMessage(messages.libraryaccessDescription, {
+                mediaServerName,
+              })}
+            </p>
+          </div>
+          <Formik
+            initialValues={{
+              enableAllLibraries: data.enableAllLibraries,
+              libraryIds: data.libraries
+                .filter((library) => library.hasAccess)
+                .map((library) => library.id),
+            }}
+            enableReinitialize
+            onSubmit={async (values) => {
+              try {
+                await axios.post(
+                  `/api/v1/user/${user?.id}/jellyfin/libraries`,
+                  {
+                    enableAllLibraries: values.enableAllLibraries,
+                    libraryIds: values.libraryIds,
+                  }
+                );
+
+                addToast(intl.formatMessage(messages.toastLibrariesSuccess), {
+                  autoDismiss: true,
+                  appearance: 'success',
+                });
+              } catch (e) {
+                addToast(intl.formatMessage(messages.toastLibrariesFailure), {
+                  autoDismiss: true,
+                  appearance: 'error',
+                });
+              } finally {
+                revalidate();
+              }
+            }}
+          >
+            {({ isSubmitting, values }) => (
+              <Form className="section">
+                <div className="form-row">
+                  <label
+                    htmlFor="enableAllLibraries"
+                    className="checkbox-label"
+                  >
+                    {intl.formatMessage(messages.allLibraries)}
+                    <span className="label-tip">
+                      {intl.formatMessage(messages.allLibrariesTip)}
+                    </span>
+                  </label>
+                  <div className="form-input-area">
+                    <Field
+                      type="checkbox"
+                      id="enableAllLibraries"
+                      name="enableAllLibraries"
+                    />
+                  </div>
+                </div>
+                <div className="max-w-3xl">
+                  {!data.libraries.length ? (
+                    <p className="text-sm text-gray-400">
+                      {intl.formatMessage(messages.nolibraries, {
+                        mediaServerName,
+                      })}
+                    </p>
+                  ) : (
+                    data.libraries.map((library) => (
+                      <div
+                        key={`user-library-${library.id}`}
+                        className="relative mt-4 flex items-start first:mt-0"
+                      >
+                        <div className="flex h-6 items-center">
+                          <Field
+                            type="checkbox"
+                            id={`user-library-${library.id}`}
+                            name="libraryIds"
+                            value={library.id}
+                            disabled={values.enableAllLibraries}
+                          />
+                        </div>
+                        <div className="ml-3 text-sm leading-6">
+                          <label
+                            htmlFor={`user-library-${library.id}`}
+                            className="block font-medium text-white"
+                          >
+                            {library.name}
+                          </label>
+                        </div>
+                      </div>
+                    ))
+                  )}
+                </div>
+                <div className="actions">
+                  <div className="flex justify-end">
+                    <span className="ml-3 inline-flex rounded-md shadow-sm">
+                      <Button
+                        buttonType="primary"
+                        type="submit"
+                        disabled={isSubmitting}
+                      >
+                        <ArrowDownOnSquareIcon />
+                        <span>
+                          {isSubmitting
+                            ? intl.formatMessage(globalMessages.saving)
+                            : intl.formatMessage(globalMessages.save)}
+                        </span>
+                      </Button>
+                    </span>
+                  </div>
+                </div>
+              </Form>
+            )}
+          </Formik>
+          <div className="mt-10 mb-6">
+            <h4 className="text-lg font-bold leading-8 text-gray-100">
+              {intl.formatMessage(messages.resetpassword)}
+            </h4>
+            <p className="description">
+              {intl.formatMessage(messages.resetpasswordDescription, {
+                mediaServerName,
+              })}
+            </p>
+          </div>
+          <Formik
+            initialValues={{ password: '', confirmPassword: '' }}
+            validationSchema={ResetPasswordSchema}
+            onSubmit={async (values, { resetForm }) => {
+              try {
+                await axios.post(`/api/v1/user/${user?.id}/jellyfin/password`, {
+                  password: values.password,
+                });
+
+                addToast(intl.formatMessage(messages.toastPasswordSuccess), {
+                  autoDismiss: true,
+                  appearance: 'success',
+                });
+              } catch (e) {
+                addToast(intl.formatMessage(messages.toastPasswordFailure), {
+                  autoDismiss: true,
+                  appearance: 'error',
+                });
+              } finally {
+                resetForm();
+              }
+            }}
+          >
+            {({ errors, touched, isSubmitting, isValid }) => (
+              <Form className="section">
+                {renderPasswordFields(errors, touched, false)}
+                <div className="actions">
+                  <div className="flex justify-end">
+                    <span className="ml-3 inline-flex rounded-md shadow-sm">
+                      <Button
+                        buttonType="primary"
+                        type="submit"
+                        disabled={isSubmitting || !isValid}
+                      >
+                        <ArrowDownOnSquareIcon />
+                        <span>
+                          {isSubmitting
+                            ? intl.formatMessage(globalMessages.saving)
+                            : intl.formatMessage(messages.resetpassword)}
+                        </span>
+                      </Button>
+                    </span>
+                  </div>
+                </div>
+              </Form>
+            )}
+          </Formik>
+        </>
+      )}
+    </>
+  );
+};
+
+export default UserMediaServerSettings;
@@ -0,0 +1,183 @@
+import Button from '@app/components/Common/Button';
+import LoadingSpinner from '@app/components/Common/LoadingSpinner';
+import SensitiveInput from '@app/components/Common/SensitiveInput';
+import NotificationTypeSelector from '@app/components/NotificationTypeSelector';
+import { useUser } from '@app/hooks/useUser';
+import globalMessages from '@app/i18n/globalMessages';
+import defineMessages from '@app/utils/defineMessages';
+import { ArrowDownOnSquareIcon } from '@heroicons/react/24/outline';
+import type { UserSettingsNotificationsResponse } from '@server/interfaces/api/userSettingsInterfaces';
+import axios from 'axios';
+import { Form, Formik } from 'formik';
+import { useRouter } from 'next/router';
+import { useIntl } from 'react-intl';
+import { useToasts } from 'react-toast-notifications';
+import useSWR from 'swr';
+import * as Yup from 'yup';
+
+const messages = defineMessages(
+  'components.UserProfile.UserSettings.UserNotificationSettings',
+  {
+    apprisesettingssaved: 'Apprise notification settings saved successfully!',
+    apprisesettingsfailed: 'Apprise notification settings failed to save.',
+    appriseUrls: 'Apprise URLs',
+    appriseUrlsTip:
+      'One or more <AppriseLink>Apprise URLs</AppriseLink>, separated by commas or spaces',
+    validationAppriseUrls: 'You must provide at least one Apprise URL',
+  }
+);
+
+const UserAppriseSettings = () => {
+  const intl = useIntl();
+  const { addToast } = useToasts();
+  const router = useRouter();
+  const { user } = useUser({ id: Number(router.query.userId) });
+  const {
+    data,
+    error,
+    mutate: revalidate,
+  } = useSWR<UserSettingsNotificationsResponse>(
+    user ? `/api/v1/user/${user?.id}/settings/notifications` : null
+  );
+
+  const UserNotificationsAppriseSchema = Yup.object().shape({
+    appriseUrls: Yup.string().when('types', {
+      is: (types: number) => !!types,
+      then: Yup.string()
+        .nullable()
+        .required(intl.formatMessage(messages.validationAppriseUrls)),
+      otherwise: Yup.string().nullable(),
+    }),
+  });
+
+  if (!data && !error) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <Formik
+      initialValues={{
+        appriseUrls: data?.appriseUrls,
+        digestFrequency: data?.digestFrequency,
+        digestTime: data?.digestTime,
+        types: data?.notificationTypes.apprise ?? 0,
+      }}
+      validationSchema={UserNotificationsAppriseSchema}
+      enableReinitialize
+      onSubmit={async (values) => {
+        try {
+          await axios.post(`/api/v1/user/${user?.id}/settings/notifications`, {
+            pgpKey: data?.pgpKey,
+            discordId: data?.discordId,
+            pushbulletAccessToken: data?.pushbulletAccessToken,
+            pushoverApplicationToken: data?.pushoverApplicationToken,
+            pushoverUserKey: data?.pushoverUserKey,
+            telegramChatId: data?.telegramChatId,
+            telegramSendSilently: data?.telegramSendSilently,
+            matrixRoomId: data?.matrixRoomId,
+            appriseUrls: values.appriseUrls,
+            notificationTypes: {
+              apprise: values.types,
+            },
+          });
+          addToast(intl.formatMessage(messages.apprisesettingssaved), {
+            appearance: 'success',
+            autoDismiss: true,
+          });
+        } catch (e) {
+          addToast(intl.formatMessage(messages.apprisesettingsfailed), {
+            appearance: 'error',
+            autoDismiss: true,
+          });
+        } finally {
+          revalidate();
+        }
+      }}
+    >
+      {({
+        errors,
+        touched,
+        isSubmitting,
+        isValid,
+        values,
+        setFieldValue,
+        setFieldTouched,
+      }) => {
+        return (
+          <Form className="section">
+            <div className="form-row">
+              <label htmlFor="appriseUrls" className="text-label">
+                {intl.formatMessage(messages.appriseUrls)}
+                <span className="label-required">*</span>
+                <span className="label-tip">
+                  {intl.formatMessage(messages.appriseUrlsTip, {
+                    AppriseLink: (msg: React.ReactNode) => (
+                      <a
+                        href="https://github.com/caronc/apprise/wiki"
+                        className="text-white transition duration-300 hover:underline"
+                        target="_blank"
+                        rel="noreferrer"
+                      >
+                        {msg}
+                      </a>
+                    ),
+                  })}
+                </span>
+              </label>
+              <div className="form-input-area">
+                <div className="form-input-field">
+                  <SensitiveInput
+                    as="field"
+                    type="textarea"
+                    id="appriseUrls"
+                    name="appriseUrls"
+                    rows="3"
+                    className="font-mono text-xs"
+                  />
+                </div>
+                {errors.appriseUrls &&
+                  touched.appriseUrls &&
+                  typeof errors.appriseUrls === 'string' && (
+                    <div className="error">{errors.appriseUrls}</div>
+                  )}
+              </div>
+            </div>
+            <NotificationTypeSelector
+              user={user}
+              currentTypes={values.types}
+              onUpdate={(newTypes) => {
+                setFieldValue('types', newTypes);
+                setFieldTouched('types');
+              }}
+              error={
+                errors.types && touched.types
+                  ? (errors.types as string)
+                  : undefined
+              }
+            />
+            <div className="actions">
+              <div className="flex justify-end">
+                <span className="ml-3 inline-flex rounded-md shadow-sm">
+                  <Button
+                    buttonType="primary"
+                    type="submit"
+                    disabled={isSubmitting || !isValid}
+                  >
+                    <ArrowDownOnSquareIcon />
+                    <span>
+                      {isSubmitting
+                        ? intl.formatMessage(globalMessages.saving)
+                        : intl.formatMessage(globalMessages.save)}
+                    </span>
+                  </Button>
+                </span>
+              </div>
+            </div>
+          </Form>
+        );
+      }}
+    </Formik>
+  );
+};
+
+export default UserAppriseSettings;
@@ -0,0 +1,139 @@
+import Button from '@app/components/Common/Button';
+import LoadingSpinner from '@app/components/Common/LoadingSpinner';
+import NotificationDigestSelector, {
+  messages as digestMessages,
+} from '@app/components/NotificationDigestSelector';
+import { useUser } from '@app/hooks/useUser';
+import globalMessages from '@app/i18n/globalMessages';
+import defineMessages from '@app/utils/defineMessages';
+import { ArrowDownOnSquareIcon } from '@heroicons/react/24/outline';
+import type { UserSettingsNotificationsResponse } from '@server/interfaces/api/userSettingsInterfaces';
+import axios from 'axios';
+import { Form, Formik } from 'formik';
+import { useRouter } from 'next/router';
+import { useIntl } from 'react-intl';
+import { useToasts } from 'react-toast-notifications';
+import useSWR from 'swr';
+import * as Yup from 'yup';
+
+const messages = defineMessages(
+  'components.UserProfile.UserSettings.UserNotificationSettings',
+  {
+    digestsettingssaved: 'Digest settings saved successfully!',
+    digestsettingsfailed: 'Digest settings failed to save.',
+    digestInfo:
+      'Digests apply to your email and Telegram notifications. Use the default to follow the schedule set by the administrator for each agent.',
+  }
+);
+
+const UserNotificationsDigest = () => {
+  const intl = useIntl();
+  const { addToast } = useToasts();
+  const router = useRouter();
+  const { user } = useUser({ id: Number(router.query.userId) });
+  const {
+    data,
+    error,
+    mutate: revalidate,
+  } = useSWR<UserSettingsNotificationsResponse>(
+    user ? `/api/v1/user/${user?.id}/settings/notifications` : null
+  );
+
+  const UserNotificationsDigestSchema = Yup.object().shape({
+    digestTime: Yup.string().when('digestFrequency', {
+      is: 'daily',
+      then: Yup.string()
+        .nullable()
+        .required(intl.formatMessage(digestMessages.validationDigestTime))
+        .matches(
+          /^([01]\d|2[0-3]):[0-5]\d$/,
+          intl.formatMessage(digestMessages.validationDigestTime)
+        ),
+      otherwise: Yup.string().nullable(),
+    }),
+  });
+
+  if (!data && !error) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <Formik
+      initialValues={{
+        digestFrequency: data?.digestFrequency ?? '',
+        digestTime: data?.digestTime ?? '08:00',
+      }}
+      validationSchema={UserNotificationsDigestSchema}
+      enableReinitialize
+      onSubmit={async (values) => {
+        try {
+          await axios.post(`/api/v1/user/${user?.id}/settings/notifications`, {
+            pgpKey: data?.pgpKey,
+            discordId: data?.discordId,
+            pushbulletAccessToken: data?.pushbulletAccessToken,
+            pushoverApplicationToken: data?.pushoverApplicationToken,
+            pushoverUserKey: data?.pushoverUserKey,
+            telegramChatId: data?.telegramChatId,
+            telegramSendSilently: data?.telegramSendSilently,
+            matrixRoomId: data?.matrixRoomId,
+            appriseUrls: data?.appriseUrls,
+            digestFrequency: values.digestFrequency || null,
+            digestTime:
+              values.digestFrequency === 'daily' ? values.digestTime : null,
+            quietHours: data?.quietHours,
+          });
+          addToast(intl.formatMessage(messages.digestsettingssaved), {
+            appearance: 'success',
+            autoDismiss: true,
+          });
+        } catch (e) {
+          addToast(intl.formatMessage(messages.digestsettingsfailed), {
+            appearance: 'error',
+            autoDismiss: true,
+          });
+        } finally {
+          revalidate();
+        }
+      }}
+    >
+      {({ errors, touched, isSubmitting, isValid, values }) => {
+        return (
+          <Form className="section">
+            <p className="description">
+              {intl.formatMessage(messages.digestInfo)}
+            </p>
+            <NotificationDigestSelector
+              user
+              frequency={values.digestFrequency}
+              error={
+                errors.digestTime && touched.digestTime
+                  ? errors.digestTime
+                  : undefined
+              }
+            />
+            <div className="actions">
+              <div className="flex justify-end">
+                <span className="ml-3 inline-flex rounded-md shadow-sm">
+                  <Button
+                    buttonType="primary"
+                    type="submit"
+                    disabled={isSubmitting || !isValid}
+                  >
+                    <ArrowDownOnSquareIcon />
+                    <span>
+                      {isSubmitting
+                        ? intl.formatMessage(globalMessages.saving)
+                        : intl.formatMessage(globalMessages.save)}
+                    </span>
+                  </Button>
+                </span>
+              </div>
+            </div>
+          </Form>
+        );
+      }}
+    </Formik>
+  );
+};
+
+export default UserNotificationsDigest;
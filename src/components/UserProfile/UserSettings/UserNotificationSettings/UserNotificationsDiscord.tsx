@@ -76,6 +76,11 @@ const UserNotificationsDiscord = () => {
             pushoverUserKey: data?.pushoverUserKey,
             telegramChatId: data?.telegramChatId,
             telegramSendSilently: data?.telegramSendSilently,
+            matrixRoomId: data?.matrixRoomId,
+            appriseUrls: data?.appriseUrls,
+            digestFrequency: data?.digestFrequency,
+            digestTime: data?.digestTime,
+            quietHours: data?.quietHours,
             notificationTypes: {
               discord: values.types,
             },
@@ -75,6 +75,11 @@ const UserEmailSettings = () => {
             pushoverUserKey: data?.pushoverUserKey,
             telegramChatId: data?.telegramChatId,
             telegramSendSilently: data?.telegramSendSilently,
+            matrixRoomId: data?.matrixRoomId,
+            appriseUrls: data?.appriseUrls,
+            digestFrequency: data?.digestFrequency,
+            digestTime: data?.digestTime,
+            quietHours: data?.quietHours,
             notificationTypes: {
               email: values.types,
             },
@@ -0,0 +1,172 @@
+import Button from '@app/components/Common/Button';
+import LoadingSpinner from '@app/components/Common/LoadingSpinner';
+import NotificationTypeSelector from '@app/components/NotificationTypeSelector';
+import { useUser } from '@app/hooks/useUser';
+import globalMessages from '@app/i18n/globalMessages';
+import defineMessages from '@app/utils/defineMessages';
+import { ArrowDownOnSquareIcon } from '@heroicons/react/24/outline';
+import type { UserSettingsNotificationsResponse } from '@server/interfaces/api/userSettingsInterfaces';
+import axios from 'axios';
+import { Field, Form, Formik } from 'formik';
+import { useRouter } from 'next/router';
+import { useIntl } from 'react-intl';
+import { useToasts } from 'react-toast-notifications';
+import useSWR from 'swr';
+import * as Yup from 'yup';
+
+const messages = defineMessages(
+  'components.UserProfile.UserSettings.UserNotificationSettings',
+  {
+    matrixsettingssaved: 'Matrix notification settings saved successfully!',
+    matrixsettingsfailed: 'Matrix notification settings failed to save.',
+    matrixRoomId: 'Room or User ID',
+    matrixRoomIdTip:
+      'A room ID (<code>!room:example.org</code>) or alias (<code>#room:example.org</code>), or your user ID (<code>@you:example.org</code>) to receive direct messages',
+    validationMatrixRoomId: 'You must provide a valid room, alias or user ID',
+  }
+);
+
+const UserMatrixSettings = () => {
+  const intl = useIntl();
+  const { addToast } = useToasts();
+  const router = useRouter();
+  const { user } = useUser({ id: Number(router.query.userId) });
+  const {
+    data,
+    error,
+    mutate: revalidate,
+  } = useSWR<UserSettingsNotificationsResponse>(
+    user ? `/api/v1/user/${user?.id}/settings/notifications` : null
+  );
+
+  const UserNotificationsMatrixSchema = Yup.object().shape({
+    matrixRoomId: Yup.string()
+      .when('types', {
+        is: (types: number) => !!types,
+        then: Yup.string()
+          .nullable()
+          .required(intl.formatMessage(messages.validationMatrixRoomId)),
+        otherwise: Yup.string().nullable(),
+      })
+      .matches(
+        /^[!#@][^:\s]+:\S+$/,
+        intl.formatMessage(messages.validationMatrixRoomId)
+      ),
+  });
+
+  if (!data && !error) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <Formik
+      initialValues={{
+        matrixRoomId: data?.matrixRoomId,
+        types: data?.notificationTypes.matrix ?? 0,
+      }}
+      validationSchema={UserNotificationsMatrixSchema}
+      enableReinitialize
+      onSubmit={async (values) => {
+        try {
+          await axios.post(`/api/v1/user/${user?.id}/settings/notifications`, {
+            pgpKey: data?.pgpKey,
+            discordId: data?.discordId,
+            pushbulletAccessToken: data?.pushbulletAccessToken,
+            pushoverApplicationToken: data?.pushoverApplicationToken,
+            pushoverUserKey: data?.pushoverUserKey,
+            telegramChatId: data?.telegramChatId,
+            telegramSendSilently: data?.telegramSendSilently,
+            matrixRoomId: values.matrixRoomId,
+            appriseUrls: data?.appriseUrls,
+            digestFrequency: data?.digestFrequency,
+            digestTime: data?.digestTime,
+            quietHours: data?.quietHours,
+            notificationTypes: {
+              matrix: values.types,
+            },
+          });
+          addToast(intl.formatMessage(messages.matrixsettingssaved), {
+            appearance: 'success',
+            autoDismiss: true,
+          });
+        } catch (e) {
+          addToast(intl.formatMessage(messages.matrixsettingsfailed), {
+            appearance: 'error',
+            autoDismiss: true,
+          });
+        } finally {
+          revalidate();
+        }
+      }}
+    >
+      {({
+        errors,
+        touched,
+        isSubmitting,
+        isValid,
+        values,
+        setFieldValue,
+        setFieldTouched,
+      }) => {
+        return (
+          <Form className="section">
+            <div className="form-row">
+              <label htmlFor="matrixRoomId" className="text-label">
+                {intl.formatMessage(messages.matrixRoomId)}
+                <span className="label-required">*</span>
+                <span className="label-tip">
+                  {intl.formatMessage(messages.matrixRoomIdTip, {
+                    code: (msg: React.ReactNode) => <code>{msg}</code>,
+                  })}
+                </span>
+              </label>
+              <div className="form-input-area">
+                <div className="form-input-field">
+                  <Field id="matrixRoomId" name="matrixRoomId" type="text" />
+                </div>
+                {errors.matrixRoomId &&
+                  touched.matrixRoomId &&
+                  typeof errors.matrixRoomId === 'string' && (
+                    <div className="error">{errors.matrixRoomId}</div>
+                  )}
+              </div>
+            </div>
+            <NotificationTypeSelector
+              user={user}
+              currentTypes={values.types}
+              onUpdate={(newTypes) => {
+                setFieldValue('types', newTypes);
+                setFieldTouched('types');
+              }}
+              error={
+                errors.types && touched.types
+                  ? (errors.types as string)
+                  : undefined
+              }
+            />
+            <div className="actions">
+              <div className="flex justify-end">
+                <span className="ml-3 inline-flex rounded-md shadow-sm">
+                  <Button
+                    buttonType="primary"
+                    type="submit"
+                    disabled={isSubmitting || !isValid}
+                  >
+                    <ArrowDownOnSquareIcon />
+                    <span>
+                      {isSubmitting
+                        ? intl.formatMessage(globalMessages.saving)
+                        : intl.formatMessage(globalMessages.save)}
+                    </span>
+                  </Button>
+                </span>
+              </div>
+            </div>
+          </Form>
+        );
+      }}
+    </Formik>
+  );
+};
+
+export default UserMatrixSettings;
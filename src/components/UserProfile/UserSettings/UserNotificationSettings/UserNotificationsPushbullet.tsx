@@ -73,6 +73,11 @@ const UserPushbulletSettings = () => {
             pushoverUserKey: data?.pushoverUserKey,
             telegramChatId: data?.telegramChatId,
             telegramSendSilently: data?.telegramSendSilently,
+            matrixRoomId: data?.matrixRoomId,
+            appriseUrls: data?.appriseUrls,
+            digestFrequency: data?.digestFrequency,
+            digestTime: data?.digestTime,
+            quietHours: data?.quietHours,
             notificationTypes: {
               pushbullet: values.types,
             },
@@ -105,6 +105,11 @@ const UserPushoverSettings = () => {
             pushoverUserKey: values.pushoverUserKey,
             telegramChatId: data?.telegramChatId,
             telegramSendSilently: data?.telegramSendSilently,
+            matrixRoomId: data?.matrixRoomId,
+            appriseUrls: data?.appriseUrls,
+            digestFrequency: data?.digestFrequency,
+            digestTime: data?.digestTime,
+            quietHours: data?.quietHours,
             notificationTypes: {
               pushover: values.types,
             },
@@ -0,0 +1,332 @@
+import Button from '@app/components/Common/Button';
+import LoadingSpinner from '@app/components/Common/LoadingSpinner';
+import { useUser } from '@app/hooks/useUser';
+import globalMessages from '@app/i18n/globalMessages';
+import defineMessages from '@app/utils/defineMessages';
+import {
+  ArrowDownOnSquareIcon,
+  PlusIcon,
+  TrashIcon,
+} from '@heroicons/react/24/outline';
+import type {
+  QuietHoursWindow,
+  UserSettingsNotificationsResponse,
+} from '@server/interfaces/api/userSettingsInterfaces';
+import axios from 'axios';
+import { Field, Form, Formik } from 'formik';
+import { useRouter } from 'next/router';
+import { useIntl } from 'react-intl';
+import { useToasts } from 'react-toast-notifications';
+import useSWR from 'swr';
+import * as Yup from 'yup';
+
+const messages = defineMessages(
+  'components.UserProfile.UserSettings.UserNotificationSettings',
+  {
+    quiethourssettingssaved: 'Quiet hours saved successfully!',
+    quiethourssettingsfailed: 'Quiet hours failed to save.',
+    quietHoursInfo:
+      'Notifications sent to you during your quiet hours are held back and delivered once they end. Windows which end before they start run into the next day.',
+    enableQuietHours: 'Enable Quiet Hours',
+    timezone: 'Time Zone',
+    timezoneTip: 'An IANA time zone, such as Europe/Amsterdam',
+    quietHoursWindow: 'Window {number}',
+    quietHoursStart: 'From',
+    quietHoursEnd: 'Until',
+    addQuietHoursWindow: 'Add Window',
+    removeQuietHoursWindow: 'Remove Window',
+    validationTimezone: 'You must provide a time zone',
+    validationQuietHoursTime: 'You must provide a valid time',
+    validationQuietHoursDays: 'You must select at least one day',
+    validationQuietHoursWindow:
+      'The window must not start and end at the same time',
+  }
+);
+
+const DAYS = [0, 1, 2, 3, 4, 5, 6];
+const TIME_REGEX = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const defaultWindow: QuietHoursWindow = {
+  days: [...DAYS],
+  start: '22:00',
+  end: '07:00',
+};
+
+const UserNotificationsQuietHours = () => {
+  const intl = useIntl();
+  const { addToast } = useToasts();
+  const router = useRouter();
+  const { user } = useUser({ id: Number(router.query.userId) });
+  const {
+    data,
+    error,
+    mutate: revalidate,
+  } = useSWR<UserSettingsNotificationsResponse>(
+    user ? `/api/v1/user/${user?.id}/settings/notifications` : null
+  );
+
+  const UserNotificationsQuietHoursSchema = Yup.object().shape({
+    timezone: Yup.string().when('enabled', {
+      is: true,
+      then: Yup.string()
+        .nullable()
+        .required(intl.formatMessage(messages.validationTimezone)),
+      otherwise: Yup.string().nullable(),
+    }),
+    windows: Yup.array().of(
+      Yup.object().shape({
+        days: Yup.array().min(
+          1,
+          intl.formatMessage(messages.validationQuietHoursDays)
+        ),
+        start: Yup.string()
+          .required(intl.formatMessage(messages.validationQuietHoursTime))
+          .matches(
+            TIME_REGEX,
+            intl.formatMessage(messages.validationQuietHoursTime)
+          ),
+        end: Yup.string()
+          .required(intl.formatMessage(messages.validationQuietHoursTime))
+          .matches(
+            TIME_REGEX,
+            intl.formatMessage(messages.validationQuietHoursTime)
+          )
+          .test(
+            'not-same-as-start',
+            intl.formatMessage(messages.validationQuietHoursWindow),
+            function (value) {
+              return value !== this.parent.start;
+            }
+          ),
+      })
+    ),
+  });
+
+  if (!data && !error) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <Formik
+      initialValues={{
+        enabled: data?.quietHours?.enabled ?? false,
+        timezone:
+          data?.quietHours?.timezone ??
+          Intl.DateTimeFormat().resolvedOptions().timeZone,
+        windows: data?.quietHours?.windows?.length
+          ? data.quietHours.windows
+          : [defaultWindow],
+      }}
+      validationSchema={UserNotificationsQuietHoursSchema}
+      enableReinitialize
+      onSubmit={async (values) => {
+        try {
+          await axios.post(`/api/v1/user/${user?.id}/settings/notifications`, {
+            pgpKey: data?.pgpKey,
+            discordId: data?.discordId,
+            pushbulletAccessToken: data?.pushbulletAccessToken,
+            pushoverApplicationToken: data?.pushoverApplicationToken,
+            pushoverUserKey: data?.pushoverUserKey,
+            telegramChatId: data?.telegramChatId,
+            telegramSendSilently: data?.telegramSendSilently,
+            matrixRoomId: data?.matrixRoomId,
+            appriseUrls: data?.appriseUrls,
+            digestFrequency: data?.digestFrequency,
+            digestTime: data?.digestTime,
+            quietHours: {
+              enabled: values.enabled,
+              timezone: values.timezone,
+              windows: values.windows.map((window) => ({
+                ...window,
+                days: [...window.days].sort((a, b) => a - b),
+              })),
+            },
+          });
+          addToast(intl.formatMessage(messages.quiethourssettingssaved), {
+            appearance: 'success',
+            autoDismiss: true,
+          });
+        } catch (e) {
+          addToast(intl.formatMessage(messages.quiethourssettingsfailed), {
+            appearance: 'error',
+            autoDismiss: true,
+          });
+        } finally {
+          revalidate();
+        }
+      }}
+    >
+      {({ errors, touched, isSubmitting, isValid, values, setFieldValue }) => {
+        return (
+          <Form className="section">
+            <p className="description">
+              {intl.formatMessage(messages.quietHoursInfo)}
+            </p>
+            <div className="form-row">
+              <label htmlFor="enabled" className="checkbox-label">
+                {intl.formatMessage(messages.enableQuietHours)}
+              </label>
+              <div className="form-input-area">
+                <Field type="checkbox" id="enabled" name="enabled" />
+              </div>
+            </div>
+            <div className="form-row">
+              <label htmlFor="timezone" className="text-label">
+                {intl.formatMessage(messages.timezone)}
+                <span className="label-tip">
+                  {intl.formatMessage(messages.timezoneTip)}
+                </span>
+              </label>
+              <div className="form-input-area">
+                <div className="form-input-field">
+                  <Field
+                    id="timezone"
+                    name="timezone"
+                    type="text"
+                    disabled={!values.enabled}
+                  />
+                </div>
+                {errors.timezone && touched.timezone && (
+                  <div className="error">{errors.timezone}</div>
+                )}
+              </div>
+            </div>
+            {values.windows.map((window, index) => {
+              const windowErrors = Array.isArray(errors.windows)
+                ? (errors.windows[index] as
+                    | Partial<Record<keyof QuietHoursWindow, string>>
+                    | undefined)
+                : undefined;
+
+              return (
+                <div className="form-row" key={`quiet-hours-window-${index}`}>
+                  <span className="text-label">
+                    {intl.formatMessage(messages.quietHoursWindow, {
+                      number: index + 1,
+                    })}
+                  </span>
+                  <div className="form-input-area">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <label htmlFor={`windows.${index}.start`}>
+                        {intl.formatMessage(messages.quietHoursStart)}
+                      </label>
+                      <Field
+                        id={`windows.${index}.start`}
+                        name={`windows.${index}.start`}
+                        type="time"
+                        className="short"
+                        disabled={!values.enabled}
+                      />
+                      <label htmlFor={`windows.${index}.end`}>
+                        {intl.formatMessage(messages.quietHoursEnd)}
+                      </label>
+                      <Field
+                        id={`windows.${index}.end`}
+                        name={`windows.${index}.end`}
+                        type="time"
+                        className="short"
+                        disabled={!values.enabled}
+                      />
+                      {values.windows.length > 1 && (
+                        <Button
+                          buttonType="danger"
+                          buttonSize="sm"
+                          type="button"
+                          disabled={!values.enabled}
+                          onClick={() =>
+                            setFieldValue(
+                              'windows',
+                              values.windows.filter((_, i) => i !== index)
+                            )
+                          }
+                          aria-label={intl.formatMessage(
+                            messages.removeQuietHoursWindow
+                          )}
+                        >
+                          <TrashIcon />
+                        </Button>
+                      )}
+                    </div>
+                    <div className="mt-2 flex flex-wrap gap-3">
+                      {DAYS.map((day) => (
+                        <label
+                          key={`quiet-hours-window-${index}-day-${day}`}
+                          className="flex items-center gap-1 text-sm"
+                        >
+                          <input
+                            type="checkbox"
+                            disabled={!values.enabled}
+                            checked={window.days.includes(day)}
+                            onChange={() =>
+                              setFieldValue(
+                                `windows.${index}.days`,
+                                window.days.includes(day)
+                                  ? window.days.filter((d) => d !== day)
+                                  : [...window.days, day]
+                              )
+                            }
+                          />
+                          {intl.formatDate(new Date(2023, 0, 1 + day), {
+                            weekday: 'short',
+                          })}
+                        </label>
+                      ))}
+                    </div>
+                    {windowErrors &&
+                      (windowErrors.start ||
+                        windowErrors.end ||
+                        windowErrors.days) && (
+                        <div className="error">
+                          {windowErrors.start ??
+                            windowErrors.end ??
+                            windowErrors.days}
+                        </div>
+                      )}
+                  </div>
+                </div>
+              );
+            })}
+            <div className="form-row">
+              <span className="text-label" />
+              <div className="form-input-area">
+                <Button
+                  buttonSize="sm"
+                  type="button"
+                  disabled={!values.enabled}
+                  onClick={() =>
+                    setFieldValue('windows', [...values.windows, defaultWindow])
+                  }
+                >
+                  <PlusIcon />
+                  <span>
+                    {intl.formatMessage(messages.addQuietHoursWindow)}
+                  </span>
+                </Button>
+              </div>
+            </div>
+            <div className="actions">
+              <div className="flex justify-end">
+                <span className="ml-3 inline-flex rounded-md shadow-sm">
+                  <Button
+                    buttonType="primary"
+                    type="submit"
+                    disabled={isSubmitting || !isValid}
+                  >
+                    <ArrowDownOnSquareIcon />
+                    <span>
+                      {isSubmitting
+                        ? intl.formatMessage(globalMessages.saving)
+                        : intl.formatMessage(globalMessages.save)}
+                    </span>
+                  </Button>
+                </span>
+              </div>
+            </div>
+          </Form>
+        );
+      }}
+    </Formik>
+  );
+};
+
+export default UserNotificationsQuietHours;
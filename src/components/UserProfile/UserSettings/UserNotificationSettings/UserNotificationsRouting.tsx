@@ -0,0 +1,229 @@
+import Button from '@app/components/Common/Button';
+import LoadingSpinner from '@app/components/Common/LoadingSpinner';
+import Table from '@app/components/Common/Table';
+import {
+  hasNotificationType,
+  useNotificationTypes,
+} from '@app/components/NotificationTypeSelector';
+import { useUser } from '@app/hooks/useUser';
+import globalMessages from '@app/i18n/globalMessages';
+import defineMessages from '@app/utils/defineMessages';
+import { ArrowDownOnSquareIcon } from '@heroicons/react/24/outline';
+import type {
+  NotificationAgentTypes,
+  UserSettingsNotificationsResponse,
+} from '@server/interfaces/api/userSettingsInterfaces';
+import type { NotificationAgentKey } from '@server/lib/settings';
+import axios from 'axios';
+import { useRouter } from 'next/router';
+import { useEffect, useState } from 'react';
+import { useIntl } from 'react-intl';
+import { useToasts } from 'react-toast-notifications';
+import useSWR from 'swr';
+
+const messages = defineMessages(
+  'components.UserProfile.UserSettings.UserNotificationSettings',
+  {
+    email: 'Email',
+    webpush: 'Web Push',
+    routingsettingssaved: 'Notification routing saved successfully!',
+    routingsettingsfailed: 'Notification routing failed to save.',
+    routingInfo:
+      'Choose which notifications are delivered through each of your channels. Channels still need to be set up on their own tab before they receive anything.',
+    notificationType: 'Notification Type',
+    noRoutingAgents: 'No notification agents are available.',
+  }
+);
+
+const UserNotificationsRouting = () => {
+  const intl = useIntl();
+  const { addToast } = useToasts();
+  const router = useRouter();
+  const { user } = useUser({ id: Number(router.query.userId) });
+  const {
+    data,
+    error,
+    mutate: revalidate,
+  } = useSWR<UserSettingsNotificationsResponse>(
+    user ? `/api/v1/user/${user?.id}/settings/notifications` : null
+  );
+  const availableTypes = useNotificationTypes(user);
+  const [notificationTypes, setNotificationTypes] = useState<
+    Partial<NotificationAgentTypes>
+  >({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (data) {
+      setNotificationTypes(data.notificationTypes);
+    }
+  }, [data]);
+
+  if (!data && !error) {
+    return <LoadingSpinner />;
+  }
+
+  const agents: {
+    key: NotificationAgentKey;
+    name: string;
+    enabledTypes?: number;
+    hidden?: boolean;
+  }[] = [
+    {
+      key: 'email' as NotificationAgentKey,
+      name: intl.formatMessage(messages.email),
+      hidden: !data?.emailEnabled,
+    },
+    {
+      key: 'webpush' as NotificationAgentKey,
+      name: intl.formatMessage(messages.webpush),
+      hidden: !data?.webPushEnabled,
+    },
+    {
+      key: 'discord' as NotificationAgentKey,
+      name: 'Discord',
+      enabledTypes: data?.discordEnabledTypes,
+      hidden: !data?.discordEnabled,
+    },
+    { key: 'pushbullet' as NotificationAgentKey, name: 'Pushbullet' },
+    { key: 'pushover' as NotificationAgentKey, name: 'Pushover' },
+    {
+      key: 'telegram' as NotificationAgentKey,
+      name: 'Telegram',
+      hidden: !data?.telegramEnabled || !data?.telegramBotUsername,
+    },
+    {
+      key: 'matrix' as NotificationAgentKey,
+      name: 'Matrix',
+      hidden: !data?.matrixEnabled,
+    },
+    {
+      key: 'apprise' as NotificationAgentKey,
+      name: 'Apprise',
+      hidden: !data?.appriseEnabled,
+    },
+  ];
+  const availableAgents = agents.filter((agent) => !agent.hidden);
+
+  const toggleType = (agent: NotificationAgentKey, type: number) => {
+    setNotificationTypes((prevTypes) => ({
+      ...prevTypes,
+      [agent]: (prevTypes[agent] ?? 0) ^ type,
+    }));
+  };
+
+  const saveRouting = async () => {
+    setIsSaving(true);
+
+    try {
+      await axios.post(`/api/v1/user/${user?.id}/settings/notifications`, {
+        pgpKey: data?.pgpKey,
+        discordId: data?.discordId,
+        pushbulletAccessToken: data?.pushbulletAccessToken,
+        pushoverApplicationToken: data?.pushoverApplicationToken,
+        pushoverUserKey: data?.pushoverUserKey,
+        telegramChatId: data?.telegramChatId,
+        telegramSendSilently: data?.telegramSendSilently,
+        matrixRoomId: data?.matrixRoomId,
+        appriseUrls: data?.appriseUrls,
+        digestFrequency: data?.digestFrequency,
+        digestTime: data?.digestTime,
+        quietHours: data?.quietHours,
+        notificationTypes,
+      });
+      addToast(intl.formatMessage(messages.routingsettingssaved), {
+        appearance: 'success',
+        autoDismiss: true,
+      });
+    } catch (e) {
+      addToast(intl.formatMessage(messages.routingsettingsfailed), {
+        appearance: 'error',
+        autoDismiss: true,
+      });
+    } finally {
+      setIsSaving(false);
+      revalidate();
+    }
+  };
+
+  return (
+    <div className="section">
+      <p className="description">{intl.formatMessage(messages.routingInfo)}</p>
+      {!availableAgents.length ? (
+        <p className="text-gray-400">
+          {intl.formatMessage(messages.noRoutingAgents)}
+        </p>
+      ) : (
+        <Table>
+          <thead>
+            <tr>
+              <Table.TH>
+                {intl.formatMessage(messages.notificationType)}
+              </Table.TH>
+              {availableAgents.map((agent) => (
+                <Table.TH
+                  key={`routing-agent-${agent.key}`}
+                  className="text-center"
+                >
+                  {agent.name}
+                </Table.TH>
+              ))}
+            </tr>
+          </thead>
+          <Table.TBody>
+            {availableTypes.map((type) => (
+              <tr key={`routing-type-${type.id}`}>
+                <Table.TD>
+                  <div className="font-medium">{type.name}</div>
+                  <div className="text-xs text-gray-400">
+                    {type.description}
+                  </div>
+                </Table.TD>
+                {availableAgents.map((agent) => (
+                  <Table.TD
+                    key={`routing-${type.id}-${agent.key}`}
+                    alignText="center"
+                  >
+                    <input
+                      type="checkbox"
+                      aria-label={`${type.name} (${agent.name})`}
+                      disabled={
+                        agent.enabledTypes !== undefined &&
+                        !hasNotificationType(type.value, agent.enabledTypes)
+                      }
+                      checked={hasNotificationType(
+                        type.value,
+                        notificationTypes[agent.key] ?? 0
+                      )}
+                      onChange={() => toggleType(agent.key, type.value)}
+                    />
+                  </Table.TD>
+                ))}
+              </tr>
+            ))}
+          </Table.TBody>
+        </Table>
+      )}
+      <div className="actions">
+        <div className="flex justify-end">
+          <span className="ml-3 inline-flex rounded-md shadow-sm">
+            <Button
+              buttonType="primary"
+              disabled={isSaving || !availableAgents.length}
+              onClick={() => saveRouting()}
+            >
+              <ArrowDownOnSquareIcon />
+              <span>
+                {isSaving
+                  ? intl.formatMessage(globalMessages.saving)
+                  : intl.formatMessage(globalMessages.save)}
+              </span>
+            </Button>
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UserNotificationsRouting;
@@ -100,6 +100,11 @@ const UserTelegramSettings = () => {
             telegramChatId: values.telegramChatId,
             telegramMessageThreadId: values.telegramMessageThreadId,
             telegramSendSilently: values.telegramSendSilently,
+            matrixRoomId: data?.matrixRoomId,
+            appriseUrls: data?.appriseUrls,
+            digestFrequency: data?.digestFrequency,
+            digestTime: data?.digestTime,
+            quietHours: data?.quietHours,
             notificationTypes: {
               telegram: values.types,
             },
@@ -231,6 +231,11 @@ const UserWebPushSettings = () => {
                 pushoverUserKey: data?.pushoverUserKey,
                 telegramChatId: data?.telegramChatId,
                 telegramSendSilently: data?.telegramSendSilently,
+                matrixRoomId: data?.matrixRoomId,
+                appriseUrls: data?.appriseUrls,
+                digestFrequency: data?.digestFrequency,
+                digestTime: data?.digestTime,
+                quietHours: data?.quietHours,
                 notificationTypes: {
                   webpush: values.types,
                 },
@@ -1,4 +1,5 @@
 import DiscordLogo from '@app/assets/extlogos/discord.svg';
+import MatrixLogo from '@app/assets/extlogos/matrix.svg';
 import PushbulletLogo from '@app/assets/extlogos/pushbullet.svg';
 import PushoverLogo from '@app/assets/extlogos/pushover.svg';
 import TelegramLogo from '@app/assets/extlogos/telegram.svg';
@@ -10,7 +11,14 @@ import { useUser } from '@app/hooks/useUser';
 import globalMessages from '@app/i18n/globalMessages';
 import Error from '@app/pages/_error';
 import defineMessages from '@app/utils/defineMessages';
-import { CloudIcon, EnvelopeIcon } from '@heroicons/react/24/solid';
+import {
+  AdjustmentsHorizontalIcon,
+  ClockIcon,
+  CloudIcon,
+  EnvelopeIcon,
+  MegaphoneIcon,
+  MoonIcon,
+} from '@heroicons/react/24/solid';
 import type { UserSettingsNotificationsResponse } from '@server/interfaces/api/userSettingsInterfaces';
 import { useRouter } from 'next/router';
 import { useIntl } from 'react-intl';
@@ -23,6 +31,9 @@ const messages = defineMessages(
     notificationsettings: 'Notification Settings',
     email: 'Email',
     webpush: 'Web Push',
+    digest: 'Digest',
+    routing: 'Routing',
+    quietHours: 'Quiet Hours',
   }
 );
 
@@ -111,6 +122,66 @@ const UserNotificationSettings = ({
       regex: /\/settings\/notifications\/telegram/,
       hidden: !data?.telegramEnabled || !data?.telegramBotUsername,
     },
+    {
+      text: 'Matrix',
+      content: (
+        <span className="flex items-center">
+          <MatrixLogo className="mr-2 h-4" />
+          Matrix
+        </span>
+      ),
+      route: '/settings/notifications/matrix',
+      regex: /\/settings\/notifications\/matrix/,
+      hidden: !data?.matrixEnabled,
+    },
+    {
+      text: 'Apprise',
+      content: (
+        <span className="flex items-center">
+          <MegaphoneIcon className="mr-2 h-4" />
+          Apprise
+        </span>
+      ),
+      route: '/settings/notifications/apprise',
+      regex: /\/settings\/notifications\/apprise/,
+      hidden: !data?.appriseEnabled,
+    },
+    {
+      text: intl.formatMessage(messages.digest),
+      content: (
+        <span className="flex items-center">
+          <ClockIcon className="mr-2 h-4" />
+          {intl.formatMessage(messages.digest)}
+        </span>
+      ),
+      route: '/settings/notifications/digest',
+      regex: /\/settings\/notifications\/digest/,
+      hidden:
+        !data?.emailEnabled &&
+        (!data?.telegramEnabled || !data?.telegramBotUsername),
+    },
+    {
+      text: intl.formatMessage(messages.routing),
+      content: (
+        <span className="flex items-center">
+          <AdjustmentsHorizontalIcon className="mr-2 h-4" />
+          {intl.formatMessage(messages.routing)}
+        </span>
+      ),
+      route: '/settings/notifications/routing',
+      regex: /\/settings\/notifications\/routing/,
+    },
+    {
+      text: intl.formatMessage(messages.quietHours),
+      content: (
+        <span className="flex items-center">
+          <MoonIcon className="mr-2 h-4" />
+          {intl.formatMessage(messages.quietHours)}
+        </span>
+      ),
+      route: '/settings/notifications/quiethours',
+      regex: /\/settings\/notifications\/quiethours/,
+    },
   ];
 
   settingsRoutes.forEach((settingsRoute) => {
@@ -3,11 +3,13 @@ import Button from '@app/components/Common/Button';
 import LoadingSpinner from '@app/components/Common/LoadingSpinner';
 import PageTitle from '@app/components/Common/PageTitle';
 import PermissionEdit from '@app/components/PermissionEdit';
-import { useUser } from '@app/hooks/useUser';
+import { Permission, useUser } from '@app/hooks/useUser';
 import globalMessages from '@app/i18n/globalMessages';
 import ErrorPage from '@app/pages/_error';
 import defineMessages from '@app/utils/defineMessages';
 import { ArrowDownOnSquareIcon } from '@heroicons/react/24/outline';
+import type { UserGroupResultsResponse } from '@server/interfaces/api/userGroupInterfaces';
+import { hasPermission } from '@server/lib/permissions';
 import axios from 'axios';
 import { Form, Formik } from 'formik';
 import { useRouter } from 'next/router';
@@ -21,6 +23,10 @@ const messages = defineMessages(
     toastSettingsSuccess: 'Permissions saved successfully!',
     toastSettingsFailure: 'Something went wrong while saving settings.',
     permissions: 'Permissions',
+    groups: 'Groups',
+    groupsDescription:
+      'Members receive the permissions, request limits and default servers of their groups. Permissions granted by a group cannot be removed below.',
+    nogroups: 'No user groups have been created yet.',
     unauthorizedDescription: 'You cannot modify your own permissions.',
   }
 );
@@ -37,11 +43,13 @@ const UserPermissions = () => {
     data,
     error,
     mutate: revalidate,
-  } = useSWR<{ permissions?: number }>(
+  } = useSWR<{ permissions?: number; groupIds?: number[] }>(
     user ? `/api/v1/user/${user?.id}/settings/permissions` : null
   );
+  const { data: groups, error: groupsError } =
+    useSWR<UserGroupResultsResponse>('/api/v1/userGroup');
 
-  if (!data && !error) {
+  if ((!data && !error) || (!groups && !groupsError)) {
     return <LoadingSpinner />;
   }
 
@@ -80,12 +88,14 @@ const UserPermissions = () => {
       <Formik
         initialValues={{
           currentPermissions: data?.permissions,
+          groupIds: data?.groupIds ?? [],
         }}
         enableReinitialize
         onSubmit={async (values) => {
           try {
             await axios.post(`/api/v1/user/${user?.id}/settings/permissions`, {
               permissions: values.currentPermissions ?? 0,
+              groupIds: values.groupIds,
             });
 
             addToast(intl.formatMessage(messages.toastSettingsSuccess), {
@@ -104,13 +114,72 @@ const UserPermissions = () => {
         }}
       >
         {({ isSubmitting, setFieldValue, values }) => {
+          const inheritedPermission = (groups ?? [])
+            .filter((group) => values.groupIds.includes(group.id))
+            .reduce((permissions, group) => permissions | group.permissions, 0);
+
           return (
             <Form className="section">
+              <div className="mb-6 max-w-3xl">
+                <h4 className="text-lg font-bold leading-8 text-gray-100">
+                  {intl.formatMessage(messages.groups)}
+                </h4>
+                <p className="description">
+                  {intl.formatMessage(messages.groupsDescription)}
+                </p>
+                {!groups?.length ? (
+                  <p className="text-sm text-gray-400">
+                    {intl.formatMessage(messages.nogroups)}
+                  </p>
+                ) : (
+                  groups.map((group) => (
+                    <div
+                      key={`user-group-${group.id}`}
+                      className="relative mt-4 flex items-start first:mt-0"
+                    >
+                      <div className="flex h-6 items-center">
+                        <input
+                          id={`user-group-${group.id}`}
+                          type="checkbox"
+                          checked={values.groupIds.includes(group.id)}
+                          disabled={
+                            user?.id === 1 ||
+                            (currentUser?.id !== 1 &&
+                              hasPermission(
+                                Permission.ADMIN,
+                                group.permissions
+                              ))
+                          }
+                          onChange={() =>
+                            setFieldValue(
+                              'groupIds',
+                              values.groupIds.includes(group.id)
+                                ? values.groupIds.filter(
+                                    (id) => id !== group.id
+                                  )
+                                : [...values.groupIds, group.id]
+                            )
+                          }
+                        />
+                      </div>
+                      <div className="ml-3 text-sm leading-6">
+                        <label
+                          htmlFor={`user-group-${group.id}`}
+                          className="block font-medium text-white"
+                        >
+                          {group.name}
+                        </label>
+                      </div>
+                    </div>
+                  ))
+                )}
+              </div>
               <div className="max-w-3xl">
                 <PermissionEdit
                   actingUser={currentUser}
                   currentUser={user}
                   currentPermission={values.currentPermissions ?? 0}
+                  inheritedPermission={inheritedPermission}
                   onUpdate={(newPermission) =>
                     setFieldValue('currentPermissions', newPermission)
                   }
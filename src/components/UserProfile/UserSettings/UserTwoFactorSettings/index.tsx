@@ -0,0 +1,286 @@
+import Alert from '@app/components/Common/Alert';
+import Badge from '@app/components/Common/Badge';
+import Button from '@app/components/Common/Button';
+import ConfirmButton from '@app/components/Common/ConfirmButton';
+import LoadingSpinner from '@app/components/Common/LoadingSpinner';
+import PageTitle from '@app/components/Common/PageTitle';
+import TwoFactorSetup from '@app/components/TwoFactorSetup';
+import RecoveryCodes from '@app/components/TwoFactorSetup/RecoveryCodes';
+import { useUser } from '@app/hooks/useUser';
+import globalMessages from '@app/i18n/globalMessages';
+import ErrorPage from '@app/pages/_error';
+import defineMessages from '@app/utils/defineMessages';
+import {
+  ArrowPathIcon,
+  LockClosedIcon,
+  LockOpenIcon,
+  ShieldCheckIcon,
+} from '@heroicons/react/24/outline';
+import type { UserSettingsTwoFactorResponse } from '@server/interfaces/api/userSettingsInterfaces';
+import axios from 'axios';
+import { useRouter } from 'next/router';
+import { useState } from 'react';
+import { useIntl } from 'react-intl';
+import { useToasts } from 'react-toast-notifications';
+import useSWR from 'swr';
+
+const messages = defineMessages(
+  'components.UserProfile.UserSettings.UserTwoFactorSettings',
+  {
+    twoFactor: 'Two-Factor Authentication',
+    twoFactorHint:
+      'Require a code from an authenticator app in addition to the password when signing in with a local account.',
+    enabled: 'Enabled',
+    disabled: 'Disabled',
+    required: 'Two-factor authentication is required for this account.',
+    recoveryCodesRemaining:
+      '{count, plural, one {# recovery code} other {# recovery codes}} remaining',
+    setup: 'Set Up Two-Factor Authentication',
+    code: 'Authentication Code',
+    codeTip: 'Enter the current code from your authenticator app',
+    enable: 'Enable',
+    disable: 'Disable',
+    regenerate: 'Regenerate Recovery Codes',
+    reset: 'Reset Two-Factor Authentication',
+    resetTip:
+      'Disables two-factor authentication for this user, for example if they lost their device.',
+    toastEnableSuccess: 'Two-factor authentication enabled!',
+    toastDisableSuccess: 'Two-factor authentication disabled.',
+    toastRegenerateSuccess: 'Recovery codes regenerated!',
+    toastResetSuccess: 'Two-factor authentication reset successfully!',
+    toastInvalidCode: 'The authentication code is invalid.',
+    toastFailure: 'Something went wrong while saving settings.',
+  }
+);
+
+const UserTwoFactorSettings = () => {
+  const intl = useIntl();
+  const { addToast } = useToasts();
+  const router = useRouter();
+  const { user: currentUser, revalidate: revalidateCurrentUser } = useUser();
+  const { user } = useUser({ id: Number(router.query.userId) });
+  const {
+    data,
+    error,
+    mutate: revalidate,
+  } = useSWR<UserSettingsTwoFactorResponse>(
+    user ? `/api/v1/user/${user.id}/settings/two-factor` : null
+  );
+  const [setup, setSetup] = useState<{
+    secret: string;
+    otpauthUrl: string;
+  } | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  if (!data && !error) {
+    return <LoadingSpinner />;
+  }
+
+  if (!data) {
+    return <ErrorPage statusCode={500} />;
+  }
+
+  const isOwnProfile = currentUser?.id === user?.id;
+  const baseUrl = `/api/v1/user/${user?.id}/settings/two-factor`;
+
+  const submit = async (
+    action: () => Promise<void>,
+    successMessage: string
+  ) => {
+    setIsSubmitting(true);
+    try {
+      await action();
+      setCode('');
+      addToast(successMessage, { autoDismiss: true, appearance: 'success' });
+    } catch (e) {
+      addToast(
+        e.response?.status === 400
+          ? intl.formatMessage(messages.toastInvalidCode)
+          : e.response?.data?.message ??
+              intl.formatMessage(messages.toastFailure),
+        { autoDismiss: true, appearance: 'error' }
+      );
+    } finally {
+      setIsSubmitting(false);
+      revalidate();
+      revalidateCurrentUser();
+    }
+  };
+
+  const startSetup = async () => {
+    setRecoveryCodes(null);
+    try {
+      const response = await axios.post<{
+        secret: string;
+        otpauthUrl: string;
+      }>(`${baseUrl}/setup`);
+      setSetup(response.data);
+    } catch {
+      addToast(intl.formatMessage(messages.toastFailure), {
+        autoDismiss: true,
+        appearance: 'error',
+      });
+    }
+  };
+
+  const codeInput = (
+    <div className="form-row">
+      <label htmlFor="twoFactorCode" className="text-label">
+        {intl.formatMessage(messages.code)}
+        <span className="label-tip">
+          {intl.formatMessage(messages.codeTip)}
+        </span>
+      </label>
+      <div className="form-input-area">
+        <div className="form-input-field">
+          <input
+            id="twoFactorCode"
+            type="text"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+          />
+        </div>
+      </div>
+    </div>
+  );
+
+  return (
+    <>
+      <PageTitle
+        title={[
+          intl.formatMessage(messages.twoFactor),
+          intl.formatMessage(globalMessages.usersettings),
+          user?.displayName,
+        ]}
+      />
+      <div className="mb-6">
+        <h3 className="heading flex items-center gap-2">
+          {intl.formatMessage(messages.twoFactor)}
+          {data.enabled ? (
+            <Badge badgeType="success">
+              {intl.formatMessage(messages.enabled)}
+            </Badge>
+          ) : (
+            <Badge badgeType="default">
+              {intl.formatMessage(messages.disabled)}
+            </Badge>
+          )}
+        </h3>
+        <p className="description">
+          {intl.formatMessage(messages.twoFactorHint)}
+        </p>
+      </div>
+      {data.required && !data.enabled && (
+        <Alert title={intl.formatMessage(messages.required)} type="warning" />
+      )}
+      {recoveryCodes && <RecoveryCodes codes={recoveryCodes} />}
+      {!isOwnProfile ? (
+        data.enabled && (
+          <div className="section">
+            <p className="mb-4 text-sm text-gray-400">
+              {intl.formatMessage(messages.resetTip)}
+            </p>
+            <ConfirmButton
+              onClick={() =>
+                submit(
+                  () => axios.delete(baseUrl),
+                  intl.formatMessage(messages.toastResetSuccess)
+                )
+              }
+              confirmText={intl.formatMessage(globalMessages.areyousure)}
+            >
+              <LockOpenIcon />
+              <span>{intl.formatMessage(messages.reset)}</span>
+            </ConfirmButton>
+          </div>
+        )
+      ) : data.enabled ? (
+        <div className="section">
+          <p className="mb-4 text-sm text-gray-400">
+            {intl.formatMessage(messages.recoveryCodesRemaining, {
+              count: data.recoveryCodesRemaining,
+            })}
+          </p>
+          {codeInput}
+          <div className="actions">
+            <div className="flex justify-end gap-3">
+              <Button
+                buttonType="default"
+                disabled={isSubmitting || !code}
+                onClick={() =>
+                  submit(async () => {
+                    const response = await axios.post<{
+                      recoveryCodes: string[];
+                    }>(`${baseUrl}/recovery-codes`, { code });
+                    setRecoveryCodes(response.data.recoveryCodes);
+                  }, intl.formatMessage(messages.toastRegenerateSuccess))
+                }
+              >
+                <ArrowPathIcon />
+                <span>{intl.formatMessage(messages.regenerate)}</span>
+              </Button>
+              {!data.required && (
+                <Button
+                  buttonType="danger"
+                  disabled={isSubmitting || !code}
+                  onClick={() =>
+                    submit(async () => {
+                      await axios.post(`${baseUrl}/disable`, { code });
+                      setRecoveryCodes(null);
+                    }, intl.formatMessage(messages.toastDisableSuccess))
+                  }
+                >
+                  <LockOpenIcon />
+                  <span>{intl.formatMessage(messages.disable)}</span>
+                </Button>
+              )}
+            </div>
+          </div>
+        </div>
+      ) : setup ? (
+        <div className="section">
+          <div className="mx-auto mb-6 max-w-sm">
+            <TwoFactorSetup
+              secret={setup.secret}
+              otpauthUrl={setup.otpauthUrl}
+            />
+          </div>
+          {codeInput}
+          <div className="actions">
+            <div className="flex justify-end">
+              <Button
+                buttonType="primary"
+                disabled={isSubmitting || !code}
+                onClick={() =>
+                  submit(async () => {
+                    const response = await axios.post<{
+                      recoveryCodes: string[];
+                    }>(`${baseUrl}/enable`, { code });
+                    setRecoveryCodes(response.data.recoveryCodes);
+                    setSetup(null);
+                  }, intl.formatMessage(messages.toastEnableSuccess))
+                }
+              >
+                <LockClosedIcon />
+                <span>{intl.formatMessage(messages.enable)}</span>
+              </Button>
+            </div>
+          </div>
+        </div>
+      ) : (
+        <div className="section">
+          <Button buttonType="primary" onClick={() => startSetup()}>
+            <ShieldCheckIcon />
+            <span>{intl.formatMessage(messages.setup)}</span>
+          </Button>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default UserTwoFactorSettings;
@@ -9,6 +9,7 @@ import { useUser } from '@app/hooks/useUser';
 import globalMessages from '@app/i18n/globalMessages';
 import Error from '@app/pages/_error';
 import defineMessages from '@app/utils/defineMessages';
+import { MediaServerType } from '@server/constants/server';
 import type { UserSettingsNotificationsResponse } from '@server/interfaces/api/userSettingsInterfaces';
 import { hasPermission, Permission } from '@server/lib/permissions';
 import { useRouter } from 'next/router';
@@ -19,8 +20,11 @@ const messages = defineMessages('components.UserProfile.UserSettings', {
   menuGeneralSettings: 'General',
   menuChangePass: 'Password',
   menuLinkedAccounts: 'Linked Accounts',
+  menuTwoFactor: 'Two-Factor Authentication',
+  menuApiKeys: 'API Keys',
   menuNotifications: 'Notifications',
   menuPermissions: 'Permissions',
+  menuMediaServer: '{mediaServerName} Account',
   unauthorizedDescription:
     "You do not have permission to modify this user's settings.",
 });
@@ -59,16 +63,38 @@ const UserSettings = ({ children }: UserSettingsProps) => {
       regex: /\/settings\/password/,
       hidden:
         (!settings.currentSettings.localLogin &&
-          !hasPermission(Permission.ADMIN, currentUser?.permissions ?? 0)) ||
+          !hasPermission(
+            Permission.ADMIN,
+            currentUser?.effectivePermissions ?? currentUser?.permissions ?? 0
+          )) ||
         (currentUser?.id !== 1 &&
           currentUser?.id !== user?.id &&
-          hasPermission(Permission.ADMIN, user?.permissions ?? 0)),
+          hasPermission(
+            Permission.ADMIN,
+            user?.effectivePermissions ?? user?.permissions ?? 0
+          )),
+    },
+    {
+      text: intl.formatMessage(messages.menuTwoFactor),
+      route: '/settings/two-factor',
+      regex: /\/settings\/two-factor/,
+      hidden:
+        !settings.currentSettings.localLogin &&
+        !hasPermission(
+          Permission.ADMIN,
+          currentUser?.effectivePermissions ?? currentUser?.permissions ?? 0
+        ),
     },
     {
       text: intl.formatMessage(messages.menuLinkedAccounts),
       route: '/settings/linked-accounts',
       regex: /\/settings\/linked-accounts/,
     },
+    {
+      text: intl.formatMessage(messages.menuApiKeys),
+      route: '/settings/api-keys',
+      regex: /\/settings\/api-keys/,
+    },
     {
       text: intl.formatMessage(messages.menuNotifications),
       route: data?.emailEnabled
@@ -87,6 +113,22 @@ const UserSettings = ({ children }: UserSettingsProps) => {
       requiredPermission: Permission.MANAGE_USERS,
       hidden: currentUser?.id !== 1 && currentUser?.id === user.id,
     },
+    {
+      text: intl.formatMessage(messages.menuMediaServer, {
+        mediaServerName: settings.currentSettings.mediaServerTypes.includes(
+          MediaServerType.EMBY
+        )
+          ? 'Emby'
+          : 'Jellyfin',
+      }),
+      route: '/settings/media-server',
+      regex: /\/settings\/media-server/,
+      requiredPermission: Permission.MANAGE_USERS,
+      hidden: !settings.currentSettings.mediaServerTypes.some(
+        (type) =>
+          type === MediaServerType.JELLYFIN || type === MediaServerType.EMBY
+      ),
+    },
   ];
 
   if (currentUser?.id !== 1 && user.id === 1) {
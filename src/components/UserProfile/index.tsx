@@ -10,6 +10,7 @@ import { Permission, UserType, useUser } from '@app/hooks/useUser';
 import Error from '@app/pages/_error';
 import defineMessages from '@app/utils/defineMessages';
 import { ArrowRightCircleIcon } from '@heroicons/react/24/outline';
+import { QuotaPeriod, QuotaType } from '@server/constants/user';
 import type { WatchlistResponse } from '@server/interfaces/api/discoverInterfaces';
 import type {
   QuotaResponse,
@@ -31,8 +32,12 @@ const messages = defineMessages('components.UserProfile', {
   unlimited: 'Unlimited',
   totalrequests: 'Total Requests',
   pastdays: '{type} (past {days} days)',
+  thismonth: '{type} (this month)',
   movierequests: 'Movie Requests',
   seriesrequest: 'Series Requests',
+  seriesepisodes: 'Series Episodes',
+  moviesize: 'Movie Downloads (GB)',
+  seriessize: 'Series Downloads (GB)',
   recentlywatched: 'Recently Watched',
   plexwatchlist: 'Plex Watchlist',
   localWatchlist: "{username}'s Watchlist",
@@ -42,6 +47,19 @@ const messages = defineMessages('components.UserProfile', {
 
 type MediaTitle = MovieDetails | TvDetails;
 
+const quotaTypeMessages = {
+  movie: {
+    [QuotaType.REQUESTS]: messages.movierequests,
+    [QuotaType.EPISODES]: messages.movierequests,
+    [QuotaType.SIZE]: messages.moviesize,
+  },
+  tv: {
+    [QuotaType.REQUESTS]: messages.seriesrequest,
+    [QuotaType.EPISODES]: messages.seriesepisodes,
+    [QuotaType.SIZE]: messages.seriessize,
+  },
+};
+
 const UserProfile = () => {
   const intl = useIntl();
   const router = useRouter();
@@ -185,10 +203,17 @@ const UserProfile = () => {
                   }`}
                 >
                   {quota.movie.limit
-                    ? intl.formatMessage(messages.pastdays, {
-                        type: intl.formatMessage(messages.movierequests),
-                        days: quota?.movie.days,
-                      })
+                    ? intl.formatMessage(
+                        quota.movie.period === QuotaPeriod.MONTHLY
+                          ? messages.thismonth
+                          : messages.pastdays,
+                        {
+                          type: intl.formatMessage(
+                            quotaTypeMessages.movie[quota.movie.type]
+                          ),
+                          days: quota?.movie.days,
+                        }
+                      )
                     : intl.formatMessage(messages.movierequests)}
                 </dt>
                 <dd
@@ -240,10 +265,17 @@ const UserProfile = () => {
                   }`}
                 >
                   {quota.tv.limit
-                    ? intl.formatMessage(messages.pastdays, {
-                        type: intl.formatMessage(messages.seriesrequest),
-                        days: quota?.tv.days,
-                      })
+                    ? intl.formatMessage(
+                        quota.tv.period === QuotaPeriod.MONTHLY
+                          ? messages.thismonth
+                          : messages.pastdays,
+                        {
+                          type: intl.formatMessage(
+                            quotaTypeMessages.tv[quota.tv.type]
+                          ),
+                          days: quota?.tv.days,
+                        }
+                      )
                     : intl.formatMessage(messages.seriesrequest)}
                 </dt>
                 <dd
@@ -16,12 +16,15 @@ const defaultSettings = {
   hideBlacklisted: false,
   localLogin: true,
   mediaServerLogin: true,
+  oidcLogin: false,
+  oidcProviderName: '',
   movie4kEnabled: false,
   series4kEnabled: false,
   discoverRegion: '',
   streamingRegion: '',
   originalLanguage: '',
   mediaServerType: MediaServerType.NOT_CONFIGURED,
+  mediaServerTypes: [] as number[],
   partialRequestsEnabled: true,
   enableSpecialEpisodes: false,
   cacheImages: false,
@@ -30,6 +33,7 @@ const defaultSettings = {
   locale: 'en',
   emailEnabled: false,
   newPlexLogin: true,
+  accountRequestsEnabled: false,
   youtubeUrl: '',
   ratingOverlays: [] as string[],
 };
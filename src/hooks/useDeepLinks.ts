@@ -1,5 +1,6 @@
 import useSettings from '@app/hooks/useSettings';
 import { MediaServerType } from '@server/constants/server';
+import type { MediaServerLink } from '@server/entity/Media';
 import { useEffect, useState } from 'react';
 
 interface useDeepLinksProps {
@@ -7,39 +8,62 @@ interface useDeepLinksProps {
   mediaUrl4k?: string;
   iOSPlexUrl?: string;
   iOSPlexUrl4k?: string;
+  mediaServerLinks?: MediaServerLink[];
 }
 
+const isAppleDevice = () =>
+  /iPad|iPhone|iPod/.test(navigator.userAgent) ||
+  (navigator.userAgent.includes('Mac') && navigator.maxTouchPoints > 1);
+
 const useDeepLinks = ({
   mediaUrl,
   mediaUrl4k,
   iOSPlexUrl,
   iOSPlexUrl4k,
+  mediaServerLinks,
 }: useDeepLinksProps) => {
   const [returnedMediaUrl, setReturnedMediaUrl] = useState(mediaUrl);
   const [returnedMediaUrl4k, setReturnedMediaUrl4k] = useState(mediaUrl4k);
+  const [returnedMediaServerLinks, setReturnedMediaServerLinks] = useState(
+    mediaServerLinks ?? []
+  );
   const settings = useSettings();
 
   useEffect(() => {
     if (
-      settings.currentSettings.mediaServerType === MediaServerType.PLEX &&
-      (/iPad|iPhone|iPod/.test(navigator.userAgent) ||
-        (navigator.userAgent.includes('Mac') && navigator.maxTouchPoints > 1))
+      settings.currentSettings.mediaServerTypes.includes(
+        MediaServerType.PLEX
+      ) &&
+      isAppleDevice()
     ) {
-      setReturnedMediaUrl(iOSPlexUrl);
-      setReturnedMediaUrl4k(iOSPlexUrl4k);
+      setReturnedMediaUrl(iOSPlexUrl ?? mediaUrl);
+      setReturnedMediaUrl4k(iOSPlexUrl4k ?? mediaUrl4k);
+      setReturnedMediaServerLinks(
+        (mediaServerLinks ?? []).map((link) => ({
+          ...link,
+          url: link.iOSUrl ?? link.url,
+          url4k: link.iOSUrl4k ?? link.url4k,
+        }))
+      );
     } else {
       setReturnedMediaUrl(mediaUrl);
       setReturnedMediaUrl4k(mediaUrl4k);
+      setReturnedMediaServerLinks(mediaServerLinks ?? []);
     }
   }, [
     iOSPlexUrl,
     iOSPlexUrl4k,
     mediaUrl,
     mediaUrl4k,
-    settings.currentSettings.mediaServerType,
+    mediaServerLinks,
+    settings.currentSettings.mediaServerTypes,
   ]);
 
-  return { mediaUrl: returnedMediaUrl, mediaUrl4k: returnedMediaUrl4k };
+  return {
+    mediaUrl: returnedMediaUrl,
+    mediaUrl4k: returnedMediaUrl4k,
+    mediaServerLinks: returnedMediaServerLinks,
+  };
 };
 
 export default useDeepLinks;
@@ -0,0 +1,124 @@
+import type {
+  ServerEvent,
+  ServerEventType,
+} from '@server/interfaces/api/eventInterfaces';
+import { useEffect, useRef, useState } from 'react';
+
+type ServerEventData<T extends ServerEventType> = Extract<
+  ServerEvent,
+  { type: T }
+>['data'];
+
+type ServerEventHandler = (data: unknown) => void;
+
+const EVENT_TYPES: ServerEventType[] = [
+  'request',
+  'media',
+  'scan',
+  'jobs',
+  'downloads',
+  'notification',
+];
+
+// Every component shares a single connection, which is opened by the first
+// subscriber and closed again once the last one unmounts
+const handlers = new Map<ServerEventType, Set<ServerEventHandler>>();
+const connectionListeners = new Set<(connected: boolean) => void>();
+let eventSource: EventSource | undefined;
+let isConnected = false;
+let subscriberCount = 0;
+
+const setConnected = (connected: boolean) => {
+  if (isConnected !== connected) {
+    isConnected = connected;
+    connectionListeners.forEach((listener) => listener(connected));
+  }
+};
+
+const openEventSource = () => {
+  if (eventSource || typeof EventSource === 'undefined') {
+    return;
+  }
+
+  const source = new EventSource('/api/v1/events');
+
+  source.onopen = () => setConnected(true);
+  source.onerror = () => {
+    setConnected(false);
+
+    // The browser reconnects on its own, unless the server refused the stream
+    if (source.readyState === EventSource.CLOSED && eventSource === source) {
+      eventSource = undefined;
+    }
+  };
+
+  EVENT_TYPES.forEach((type) =>
+    source.addEventListener(type, (e) => {
+      const data = JSON.parse((e as MessageEvent<string>).data);
+      handlers.get(type)?.forEach((handler) => handler(data));
+    })
+  );
+
+  eventSource = source;
+};
+
+const closeEventSource = () => {
+  eventSource?.close();
+  eventSource = undefined;
+  setConnected(false);
+};
+
+/**
+ * Returns whether the event stream is connected, so components can fall back
+ * to polling while it is not. The stream itself is opened by useServerEvent.
+ */
+export const useServerEventsConnected = (): boolean => {
+  const [connected, setConnectedState] = useState(isConnected);
+
+  useEffect(() => {
+    connectionListeners.add(setConnectedState);
+    setConnectedState(isConnected);
+
+    return () => {
+      connectionListeners.delete(setConnectedState);
+    };
+  }, []);
+
+  return connected;
+};
+
+/**
+ * Calls the handler whenever the server publishes an event of the given type.
+ */
+export const useServerEvent = <T extends ServerEventType>(
+  type: T,
+  handler: (data: ServerEventData<T>) => void
+): void => {
+  const handlerRef = useRef(handler);
+
+  useEffect(() => {
+    handlerRef.current = handler;
+  }, [handler]);
+
+  useEffect(() => {
+    const typeHandler: ServerEventHandler = (data) =>
+      handlerRef.current(data as ServerEventData<T>);
+
+    if (!handlers.has(type)) {
+      handlers.set(type, new Set());
+    }
+
+    handlers.get(type)?.add(typeHandler);
+    subscriberCount++;
+    openEventSource();
+
+    return () => {
+      handlers.get(type)?.delete(typeHandler);
+      subscriberCount--;
+
+      if (subscriberCount === 0) {
+        closeEventSource();
+      }
+    };
+  }, [type]);
+};
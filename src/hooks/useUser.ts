@@ -13,11 +13,15 @@ export interface User {
   warnings: string[];
   plexUsername?: string | null;
   jellyfinUsername?: string | null;
+  oidcUsername?: string | null;
+  twoFactorEnabled?: boolean;
   username?: string;
   displayName: string;
   email: string;
   avatar: string;
   permissions: number;
+  effectivePermissions?: number;
+  groups?: UserGroup[];
   userType: number;
   createdAt: Date;
   updatedAt: Date;
@@ -25,6 +29,12 @@ export interface User {
   settings?: UserSettings;
 }
 
+export interface UserGroup {
+  id: number;
+  name: string;
+  permissions: number;
+}
+
 type NotificationAgentTypes = Record<NotificationAgentKey, number>;
 
 export interface UserSettings {
@@ -71,7 +81,11 @@ export const useUser = ({
     permission: Permission | Permission[],
     options?: PermissionCheckOptions
   ): boolean => {
-    return hasPermission(permission, data?.permissions ?? 0, options);
+    return hasPermission(
+      permission,
+      data?.effectivePermissions ?? data?.permissions ?? 0,
+      options
+    );
   };
 
   return {
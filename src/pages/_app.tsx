@@ -147,7 +147,7 @@ const CoreApp: Omit<NextAppComponentType, 'origGetInitialProps'> = ({
     const handleBadgeUpdate = () => {
       if ('setAppBadge' in newNavigator) {
         if (
-          !router.pathname.match(/(login|setup|resetpassword)/) &&
+          !router.pathname.match(/(login|setup|resetpassword|register)/) &&
           hasPermission(Permission.ADMIN)
         ) {
           requestsCount().then((data) => {
@@ -172,7 +172,7 @@ const CoreApp: Omit<NextAppComponentType, 'origGetInitialProps'> = ({
     };
   }, [hasPermission, router.pathname]);
 
-  if (router.pathname.match(/(login|setup|resetpassword)/)) {
+  if (router.pathname.match(/(login|setup|resetpassword|register)/)) {
     component = <Component {...pageProps} />;
   } else {
     component = (
@@ -236,10 +236,13 @@ CoreApp.getInitialProps = async (initialProps) => {
     series4kEnabled: false,
     localLogin: true,
     mediaServerLogin: true,
+    oidcLogin: false,
+    oidcProviderName: '',
     discoverRegion: '',
     streamingRegion: '',
     originalLanguage: '',
     mediaServerType: MediaServerType.NOT_CONFIGURED,
+    mediaServerTypes: [],
     partialRequestsEnabled: true,
     enableSpecialEpisodes: false,
     cacheImages: false,
@@ -248,6 +251,7 @@ CoreApp.getInitialProps = async (initialProps) => {
     locale: 'en',
     emailEnabled: false,
     newPlexLogin: true,
+    accountRequestsEnabled: false,
     youtubeUrl: '',
     ratingOverlays: [],
   };
@@ -287,7 +291,7 @@ CoreApp.getInitialProps = async (initialProps) => {
         );
         user = response.data;
 
-        if (router.pathname.match(/(setup|login)/)) {
+        if (router.pathname.match(/(setup|login|register)/)) {
           ctx.res.writeHead(307, {
             Location: '/',
           });
@@ -297,7 +301,7 @@ CoreApp.getInitialProps = async (initialProps) => {
         // If there is no user, and ctx.res is set (to check if we are on the server side)
         // _AND_ we are not already on the login or setup route, redirect to /login with a 307
         // before anything actually renders
-        if (!router.pathname.match(/(login|setup|resetpassword)/)) {
+        if (!router.pathname.match(/(login|setup|resetpassword|register)/)) {
           ctx.res.writeHead(307, {
             Location: '/login',
           });
@@ -0,0 +1,13 @@
+import UserSettings from '@app/components/UserProfile/UserSettings';
+import UserApiKeysSettings from '@app/components/UserProfile/UserSettings/UserApiKeysSettings';
+import type { NextPage } from 'next';
+
+const UserSettingsApiKeysPage: NextPage = () => {
+  return (
+    <UserSettings>
+      <UserApiKeysSettings />
+    </UserSettings>
+  );
+};
+
+export default UserSettingsApiKeysPage;
@@ -0,0 +1,16 @@
+import UserSettings from '@app/components/UserProfile/UserSettings';
+import UserMediaServerSettings from '@app/components/UserProfile/UserSettings/UserMediaServerSettings';
+import useRouteGuard from '@app/hooks/useRouteGuard';
+import { Permission } from '@app/hooks/useUser';
+import type { NextPage } from 'next';
+
+const UserMediaServerSettingsPage: NextPage = () => {
+  useRouteGuard(Permission.MANAGE_USERS);
+  return (
+    <UserSettings>
+      <UserMediaServerSettings />
+    </UserSettings>
+  );
+};
+
+export default UserMediaServerSettingsPage;
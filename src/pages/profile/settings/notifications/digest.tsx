@@ -0,0 +1,16 @@
+import UserSettings from '@app/components/UserProfile/UserSettings';
+import UserNotificationSettings from '@app/components/UserProfile/UserSettings/UserNotificationSettings';
+import UserNotificationsDigest from '@app/components/UserProfile/UserSettings/UserNotificationSettings/UserNotificationsDigest';
+import type { NextPage } from 'next';
+
+const NotificationsPage: NextPage = () => {
+  return (
+    <UserSettings>
+      <UserNotificationSettings>
+        <UserNotificationsDigest />
+      </UserNotificationSettings>
+    </UserSettings>
+  );
+};
+
+export default NotificationsPage;
@@ -0,0 +1,16 @@
+import UserSettings from '@app/components/UserProfile/UserSettings';
+import UserNotificationSettings from '@app/components/UserProfile/UserSettings/UserNotificationSettings';
+import UserNotificationsMatrix from '@app/components/UserProfile/UserSettings/UserNotificationSettings/UserNotificationsMatrix';
+import type { NextPage } from 'next';
+
+const NotificationsPage: NextPage = () => {
+  return (
+    <UserSettings>
+      <UserNotificationSettings>
+        <UserNotificationsMatrix />
+      </UserNotificationSettings>
+    </UserSettings>
+  );
+};
+
+export default NotificationsPage;
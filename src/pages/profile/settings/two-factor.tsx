@@ -0,0 +1,13 @@
+import UserSettings from '@app/components/UserProfile/UserSettings';
+import UserTwoFactorSettings from '@app/components/UserProfile/UserSettings/UserTwoFactorSettings';
+import type { NextPage } from 'next';
+
+const UserSettingsTwoFactorPage: NextPage = () => {
+  return (
+    <UserSettings>
+      <UserTwoFactorSettings />
+    </UserSettings>
+  );
+};
+
+export default UserSettingsTwoFactorPage;
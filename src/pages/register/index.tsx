@@ -0,0 +1,8 @@
+import Register from '@app/components/Register';
+import type { NextPage } from 'next';
+
+const RegisterPage: NextPage = () => {
+  return <Register />;
+};
+
+export default RegisterPage;
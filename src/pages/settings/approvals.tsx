@@ -0,0 +1,16 @@
+import SettingsApprovals from '@app/components/Settings/SettingsApprovals';
+import SettingsLayout from '@app/components/Settings/SettingsLayout';
+import useRouteGuard from '@app/hooks/useRouteGuard';
+import { Permission } from '@app/hooks/useUser';
+import type { NextPage } from 'next';
+
+const SettingsApprovalsPage: NextPage = () => {
+  useRouteGuard(Permission.ADMIN);
+  return (
+    <SettingsLayout>
+      <SettingsApprovals />
+    </SettingsLayout>
+  );
+};
+
+export default SettingsApprovalsPage;
@@ -0,0 +1,19 @@
+import NotificationLog from '@app/components/Settings/Notifications/NotificationLog';
+import SettingsLayout from '@app/components/Settings/SettingsLayout';
+import SettingsNotifications from '@app/components/Settings/SettingsNotifications';
+import useRouteGuard from '@app/hooks/useRouteGuard';
+import { Permission } from '@app/hooks/useUser';
+import type { NextPage } from 'next';
+
+const NotificationLogPage: NextPage = () => {
+  useRouteGuard(Permission.ADMIN);
+  return (
+    <SettingsLayout>
+      <SettingsNotifications>
+        <NotificationLog />
+      </SettingsNotifications>
+    </SettingsLayout>
+  );
+};
+
+export default NotificationLogPage;
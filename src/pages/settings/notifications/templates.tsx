@@ -0,0 +1,19 @@
+import NotificationTemplates from '@app/components/Settings/Notifications/NotificationTemplates';
+import SettingsLayout from '@app/components/Settings/SettingsLayout';
+import SettingsNotifications from '@app/components/Settings/SettingsNotifications';
+import useRouteGuard from '@app/hooks/useRouteGuard';
+import { Permission } from '@app/hooks/useUser';
+import type { NextPage } from 'next';
+
+const NotificationTemplatesPage: NextPage = () => {
+  useRouteGuard(Permission.ADMIN);
+  return (
+    <SettingsLayout>
+      <SettingsNotifications>
+        <NotificationTemplates />
+      </SettingsNotifications>
+    </SettingsLayout>
+  );
+};
+
+export default NotificationTemplatesPage;
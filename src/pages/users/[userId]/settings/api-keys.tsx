@@ -0,0 +1,16 @@
+import UserSettings from '@app/components/UserProfile/UserSettings';
+import UserApiKeysSettings from '@app/components/UserProfile/UserSettings/UserApiKeysSettings';
+import useRouteGuard from '@app/hooks/useRouteGuard';
+import { Permission } from '@app/hooks/useUser';
+import type { NextPage } from 'next';
+
+const UserApiKeysPage: NextPage = () => {
+  useRouteGuard(Permission.MANAGE_USERS);
+  return (
+    <UserSettings>
+      <UserApiKeysSettings />
+    </UserSettings>
+  );
+};
+
+export default UserApiKeysPage;
@@ -0,0 +1,16 @@
+import UserSettings from '@app/components/UserProfile/UserSettings';
+import UserTwoFactorSettings from '@app/components/UserProfile/UserSettings/UserTwoFactorSettings';
+import useRouteGuard from '@app/hooks/useRouteGuard';
+import { Permission } from '@app/hooks/useUser';
+import type { NextPage } from 'next';
+
+const UserTwoFactorPage: NextPage = () => {
+  useRouteGuard(Permission.MANAGE_USERS);
+  return (
+    <UserSettings>
+      <UserTwoFactorSettings />
+    </UserSettings>
+  );
+};
+
+export default UserTwoFactorPage;
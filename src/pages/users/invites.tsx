@@ -0,0 +1,11 @@
+import UserInvites from '@app/components/UserInvites';
+import useRouteGuard from '@app/hooks/useRouteGuard';
+import { Permission } from '@app/hooks/useUser';
+import type { NextPage } from 'next';
+
+const UserInvitesPage: NextPage = () => {
+  useRouteGuard(Permission.MANAGE_USERS);
+  return <UserInvites />;
+};
+
+export default UserInvitesPage;